@@ -0,0 +1,93 @@
+/**
+ * Extension Command Registry
+ * Keeps the callbacks extensions register through `vscode.commands`
+ * and runs them when the main process asks for a command to be executed.
+ */
+
+import type { CommandInvocation } from '../../src/types/extensionHost'
+import { MeasureExtensionCall, unmeasured } from './extensionProfiler'
+
+type CommandCallback = (...args: unknown[]) => unknown
+
+interface RegisteredCommand {
+  extensionId: string
+  callback: CommandCallback
+  thisArg?: unknown
+}
+
+type SendMessage = (message: { type: string; payload?: unknown }) => void
+
+/**
+ * Command results cross the process boundary as JSON; anything that cannot be
+ * serialized (class instances with cycles, functions, ...) is dropped.
+ */
+function toTransferable(value: unknown): unknown {
+  if (value === undefined) return undefined
+  try {
+    return JSON.parse(JSON.stringify(value))
+  } catch {
+    return undefined
+  }
+}
+
+export class ExtensionCommandRegistry {
+  private commands: Map<string, RegisteredCommand> = new Map()
+
+  constructor(private send: SendMessage, private measure: MeasureExtensionCall = unmeasured) {}
+
+  register(extensionId: string, command: string, callback: CommandCallback, thisArg?: unknown): { dispose(): void } {
+    if (this.commands.has(command)) {
+      throw new Error(`command '${command}' already exists`)
+    }
+
+    const entry: RegisteredCommand = { extensionId, callback, thisArg }
+    this.commands.set(command, entry)
+    this.send({ type: 'register-command', payload: { extensionId, command } })
+
+    return {
+      dispose: () => {
+        if (this.commands.get(command) === entry) {
+          this.commands.delete(command)
+          this.send({ type: 'unregister-command', payload: { extensionId, command } })
+        }
+      }
+    }
+  }
+
+  has(command: string): boolean {
+    return this.commands.has(command)
+  }
+
+  getCommands(filterInternal = false): string[] {
+    const ids = Array.from(this.commands.keys())
+    return filterInternal ? ids.filter(id => !id.startsWith('_')) : ids
+  }
+
+  async execute(command: string, args: unknown[]): Promise<unknown> {
+    const entry = this.commands.get(command)
+    if (!entry) {
+      throw new Error(`command '${command}' not found`)
+    }
+    return this.measure(entry.extensionId, () => entry.callback.apply(entry.thisArg, args))
+  }
+
+  /**
+   * Run a command on behalf of the main process and report the outcome.
+   */
+  async invoke(invocation: CommandInvocation): Promise<void> {
+    try {
+      const result = await this.execute(invocation.command, invocation.args || [])
+      this.send({
+        type: 'invoke-command-result',
+        payload: { requestId: invocation.requestId, result: toTransferable(result) }
+      })
+    } catch (error) {
+      const owner = this.commands.get(invocation.command)?.extensionId
+      const message = error instanceof Error ? error.message : String(error)
+      this.send({
+        type: 'invoke-command-result',
+        payload: { requestId: invocation.requestId, error: owner ? `${owner}: ${message}` : message }
+      })
+    }
+  }
+}
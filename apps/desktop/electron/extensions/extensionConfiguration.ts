@@ -0,0 +1,305 @@
+/**
+ * Extension Configuration
+ * Layered settings for the vscode `workspace.getConfiguration()` shim.
+ * Values resolve in order: contributed defaults < user settings < workspace settings.
+ * The store (main process) owns the settings files; the model (extension host) merges
+ * the layers and answers extension reads.
+ */
+
+import * as path from 'path'
+import * as fs from 'fs'
+
+export type SettingsObject = Record<string, unknown>
+
+export type ConfigurationTargetName = 'user' | 'workspace'
+
+// Mirrors vscode.ConfigurationTarget
+export enum ConfigurationTarget {
+  Global = 1,
+  Workspace = 2,
+  WorkspaceFolder = 3
+}
+
+export interface ConfigurationSnapshot {
+  user: SettingsObject
+  workspace: SettingsObject
+  workspaceFolder: string | null
+}
+
+export interface ConfigurationInspection<T> {
+  key: string
+  defaultValue?: T
+  globalValue?: T
+  workspaceValue?: T
+}
+
+export const WORKSPACE_SETTINGS_DIR = '.kalynt'
+export const SETTINGS_FILE_NAME = 'settings.json'
+
+function isPlainObject(value: unknown): value is SettingsObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function readSettingsFile(filePath: string): SettingsObject {
+  try {
+    if (!fs.existsSync(filePath)) return {}
+    const raw = fs.readFileSync(filePath, 'utf-8')
+    if (!raw.trim()) return {}
+    const parsed = JSON.parse(raw)
+    if (isPlainObject(parsed)) return parsed
+    console.warn(`[ExtensionConfig] Ignoring ${filePath}: settings must be a JSON object`)
+  } catch (error) {
+    console.error(`[ExtensionConfig] Failed to read ${filePath}:`, error)
+  }
+  return {}
+}
+
+/**
+ * Look up a dotted key in a flat settings layer. Supports exact keys
+ * (`"editor.fontSize": 14`), keys nested inside an object value
+ * (`"editor": { "fontSize": 14 }`) and building an object out of every
+ * key below a section (`get('editor')`).
+ */
+function lookup(layer: SettingsObject, key: string): unknown {
+  if (!key) return Object.keys(layer).length > 0 ? expand(layer) : undefined
+
+  if (Object.prototype.hasOwnProperty.call(layer, key)) {
+    return layer[key]
+  }
+
+  // Walk into a parent key whose value is an object
+  const segments = key.split('.')
+  for (let i = segments.length - 1; i > 0; i--) {
+    const parentKey = segments.slice(0, i).join('.')
+    if (!Object.prototype.hasOwnProperty.call(layer, parentKey)) continue
+    let current: unknown = layer[parentKey]
+    for (const segment of segments.slice(i)) {
+      if (!isPlainObject(current)) return undefined
+      current = current[segment]
+    }
+    return current
+  }
+
+  // Collect child keys into an object
+  const prefix = `${key}.`
+  const children: SettingsObject = {}
+  let found = false
+  for (const [candidate, value] of Object.entries(layer)) {
+    if (candidate.startsWith(prefix)) {
+      children[candidate.slice(prefix.length)] = value
+      found = true
+    }
+  }
+  return found ? expand(children) : undefined
+}
+
+function expand(flat: SettingsObject): SettingsObject {
+  const result: SettingsObject = {}
+  for (const [key, value] of Object.entries(flat)) {
+    const segments = key.split('.')
+    let current = result
+    for (const segment of segments.slice(0, -1)) {
+      if (!isPlainObject(current[segment])) current[segment] = {}
+      current = current[segment] as SettingsObject
+    }
+    const last = segments[segments.length - 1]
+    current[last] = isPlainObject(value) && isPlainObject(current[last])
+      ? { ...(current[last] as SettingsObject), ...value }
+      : value
+  }
+  return result
+}
+
+function mergeValues(values: unknown[]): unknown {
+  let merged: unknown = undefined
+  for (const value of values) {
+    if (value === undefined) continue
+    merged = isPlainObject(merged) && isPlainObject(value) ? { ...merged, ...value } : value
+  }
+  return merged
+}
+
+function changedKeys(before: SettingsObject, after: SettingsObject): string[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)])
+  return Array.from(keys).filter(key => JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+}
+
+/**
+ * Returns true when `key` is `section`, inside it, or contains it, matching
+ * vscode's `ConfigurationChangeEvent.affectsConfiguration`.
+ */
+export function keyAffectsSection(key: string, section: string): boolean {
+  return key === section || key.startsWith(`${section}.`) || section.startsWith(`${key}.`)
+}
+
+/**
+ * Collect `contributes.configuration` defaults from an extension manifest.
+ * The contribution may be a single object or an array of them.
+ */
+export function collectConfigurationDefaults(manifest: unknown): SettingsObject {
+  const defaults: SettingsObject = {}
+  if (!isPlainObject(manifest) || !isPlainObject(manifest.contributes)) return defaults
+
+  const contribution = manifest.contributes.configuration
+  const sections = Array.isArray(contribution) ? contribution : [contribution]
+  for (const section of sections) {
+    if (!isPlainObject(section) || !isPlainObject(section.properties)) continue
+    for (const [key, schema] of Object.entries(section.properties)) {
+      if (isPlainObject(schema) && 'default' in schema) {
+        defaults[key] = schema.default
+      }
+    }
+  }
+  return defaults
+}
+
+/**
+ * Main-process side: persists user and workspace settings files.
+ */
+export class ConfigurationStore {
+  private user: SettingsObject = {}
+  private workspace: SettingsObject = {}
+  private workspaceFolder: string | null = null
+
+  constructor(private userSettingsPath: string) {
+    this.user = readSettingsFile(userSettingsPath)
+  }
+
+  /**
+   * Switch the workspace layer. Returns the keys whose workspace value changed.
+   */
+  setWorkspaceFolder(folder: string | null): string[] {
+    const before = this.workspace
+    this.workspaceFolder = folder
+    this.workspace = folder ? readSettingsFile(this.getWorkspaceSettingsPath(folder)) : {}
+    return changedKeys(before, this.workspace)
+  }
+
+  /**
+   * Re-read both layers from disk. Returns the keys that changed.
+   */
+  reload(): string[] {
+    const beforeUser = this.user
+    const beforeWorkspace = this.workspace
+    this.user = readSettingsFile(this.userSettingsPath)
+    this.workspace = this.workspaceFolder
+      ? readSettingsFile(this.getWorkspaceSettingsPath(this.workspaceFolder))
+      : {}
+    return Array.from(new Set([
+      ...changedKeys(beforeUser, this.user),
+      ...changedKeys(beforeWorkspace, this.workspace)
+    ]))
+  }
+
+  /**
+   * Write a value to the given layer. `undefined` removes the key.
+   * Returns the keys that changed.
+   */
+  update(key: string, value: unknown, target: ConfigurationTargetName): string[] {
+    if (target === 'workspace' && !this.workspaceFolder) {
+      throw new Error('Unable to write to workspace settings because no workspace is opened')
+    }
+
+    const layer = target === 'user' ? this.user : this.workspace
+    const next: SettingsObject = { ...layer }
+    if (value === undefined) {
+      delete next[key]
+    } else {
+      next[key] = value
+    }
+
+    const filePath = target === 'user'
+      ? this.userSettingsPath
+      : this.getWorkspaceSettingsPath(this.workspaceFolder as string)
+    fs.mkdirSync(path.dirname(filePath), { recursive: true })
+    fs.writeFileSync(filePath, JSON.stringify(next, null, 2), 'utf-8')
+
+    const changed = changedKeys(layer, next)
+    if (target === 'user') {
+      this.user = next
+    } else {
+      this.workspace = next
+    }
+    return changed
+  }
+
+  snapshot(): ConfigurationSnapshot {
+    return {
+      user: { ...this.user },
+      workspace: { ...this.workspace },
+      workspaceFolder: this.workspaceFolder
+    }
+  }
+
+  private getWorkspaceSettingsPath(folder: string): string {
+    return path.join(folder, WORKSPACE_SETTINGS_DIR, SETTINGS_FILE_NAME)
+  }
+}
+
+/**
+ * Extension-host side: merges the layers and answers reads.
+ */
+export class ConfigurationModel {
+  private defaults: SettingsObject = {}
+  private user: SettingsObject = {}
+  private workspace: SettingsObject = {}
+  private workspaceFolder: string | null = null
+
+  /**
+   * Register an extension's contributed defaults. Returns the keys that were added.
+   */
+  addDefaults(defaults: SettingsObject): string[] {
+    const before = this.defaults
+    this.defaults = { ...this.defaults, ...defaults }
+    return changedKeys(before, this.defaults)
+  }
+
+  /**
+   * Replace the user/workspace layers. Returns the keys whose effective value may have changed.
+   */
+  applySnapshot(snapshot: ConfigurationSnapshot): string[] {
+    const changed = new Set([
+      ...changedKeys(this.user, snapshot.user),
+      ...changedKeys(this.workspace, snapshot.workspace)
+    ])
+    this.user = snapshot.user
+    this.workspace = snapshot.workspace
+    this.workspaceFolder = snapshot.workspaceFolder
+    return Array.from(changed)
+  }
+
+  hasWorkspace(): boolean {
+    return this.workspaceFolder !== null
+  }
+
+  get(key: string): unknown {
+    return mergeValues([
+      lookup(this.defaults, key),
+      lookup(this.user, key),
+      lookup(this.workspace, key)
+    ])
+  }
+
+  has(key: string): boolean {
+    return this.get(key) !== undefined
+  }
+
+  inspect<T>(key: string): ConfigurationInspection<T> {
+    return {
+      key,
+      defaultValue: lookup(this.defaults, key) as T | undefined,
+      globalValue: lookup(this.user, key) as T | undefined,
+      workspaceValue: lookup(this.workspace, key) as T | undefined
+    }
+  }
+
+  /**
+   * Resolve the layer an `update()` call should write to.
+   * `true` means user settings, `false`/`undefined` means workspace when one is open.
+   */
+  resolveTarget(target: ConfigurationTarget | boolean | null | undefined): ConfigurationTargetName {
+    if (target === true || target === ConfigurationTarget.Global) return 'user'
+    if (target === ConfigurationTarget.Workspace || target === ConfigurationTarget.WorkspaceFolder) return 'workspace'
+    return this.hasWorkspace() ? 'workspace' : 'user'
+  }
+}
@@ -0,0 +1,276 @@
+/**
+ * Extension Debug Registry
+ * Backs `vscode.debug.registerDebugConfigurationProvider` and
+ * `registerDebugAdapterDescriptorFactory` inside the extension host.
+ * Inline adapters (`DebugAdapterInlineImplementation`) run in this process;
+ * their DAP messages are relayed to the main process by session id.
+ */
+
+import * as path from 'path'
+import type { DebugAdapterDescriptorDTO, DebugConfigurationRequest } from '../../src/types/extensionHost'
+import { MeasureExtensionCall, unmeasured } from './extensionProfiler'
+import {
+  CancellationTokenSource,
+  DebugAdapter,
+  DebugAdapterExecutable,
+  DebugAdapterInlineImplementation,
+  DebugAdapterNamedPipeServer,
+  DebugAdapterServer,
+  DebugConfigurationProviderTriggerKind,
+  Uri
+} from './vscodeTypes'
+
+type SendMessage = (message: { type: string; payload?: unknown }) => void
+type DebugConfiguration = Record<string, unknown>
+type ProviderResult<T> = T | undefined | null | Promise<T | undefined | null>
+
+interface WorkspaceFolder {
+  uri: Uri
+  name: string
+  index: number
+}
+
+export interface DebugConfigurationProvider {
+  provideDebugConfigurations?(folder: WorkspaceFolder | undefined, token: unknown): ProviderResult<DebugConfiguration[]>
+  resolveDebugConfiguration?(folder: WorkspaceFolder | undefined, configuration: DebugConfiguration, token: unknown): ProviderResult<DebugConfiguration>
+  resolveDebugConfigurationWithSubstitutedVariables?(folder: WorkspaceFolder | undefined, configuration: DebugConfiguration, token: unknown): ProviderResult<DebugConfiguration>
+}
+
+export interface DebugAdapterDescriptorFactory {
+  createDebugAdapterDescriptor(session: DebugSessionInfo, executable: DebugAdapterExecutable | undefined): ProviderResult<
+    DebugAdapterExecutable | DebugAdapterServer | DebugAdapterNamedPipeServer | DebugAdapterInlineImplementation
+  >
+}
+
+// The part of `vscode.DebugSession` a factory can rely on before the session starts
+interface DebugSessionInfo {
+  id: string
+  type: string
+  name: string
+  configuration: DebugConfiguration
+  workspaceFolder: WorkspaceFolder | undefined
+}
+
+interface RegisteredProvider {
+  extensionId: string
+  type: string
+  provider: DebugConfigurationProvider
+  triggerKind: DebugConfigurationProviderTriggerKind
+}
+
+export interface CreateDebugAdapterRequest {
+  requestId: number
+  sessionId: string
+  folder: string | null
+  configuration: DebugConfiguration
+  /** Adapter declared in the contributing extension's package.json, if any */
+  executable?: { command: string; args: string[] }
+}
+
+function toWorkspaceFolder(folder: string | null): WorkspaceFolder | undefined {
+  return folder ? { uri: Uri.file(folder), name: path.basename(folder), index: 0 } : undefined
+}
+
+export class ExtensionDebugRegistry {
+  private providers: Set<RegisteredProvider> = new Set()
+  private factories: Map<string, { extensionId: string; factory: DebugAdapterDescriptorFactory }> = new Map()
+  private inlineAdapters: Map<string, { extensionId: string; adapter: DebugAdapter; subscription: { dispose(): void } }> = new Map()
+
+  constructor(private send: SendMessage, private measure: MeasureExtensionCall = unmeasured) {}
+
+  registerConfigurationProvider(
+    extensionId: string,
+    type: string,
+    provider: DebugConfigurationProvider,
+    triggerKind: DebugConfigurationProviderTriggerKind = DebugConfigurationProviderTriggerKind.Initial
+  ): { dispose(): void } {
+    const entry: RegisteredProvider = { extensionId, type, provider, triggerKind }
+    this.providers.add(entry)
+    return { dispose: () => { this.providers.delete(entry) } }
+  }
+
+  registerDescriptorFactory(extensionId: string, type: string, factory: DebugAdapterDescriptorFactory): { dispose(): void } {
+    if (this.factories.has(type)) {
+      throw new Error(`a DebugAdapterDescriptorFactory can only be registered once per debug type ('${type}')`)
+    }
+    const entry = { extensionId, factory }
+    this.factories.set(type, entry)
+    return {
+      dispose: () => {
+        if (this.factories.get(type) === entry) this.factories.delete(type)
+      }
+    }
+  }
+
+  /**
+   * Run the configuration providers for a request and report the result.
+   * Resolvers run in registration order, each on the previous one's output;
+   * a resolver returning `undefined` or `null` cancels the launch.
+   */
+  async handleConfigurationRequest(request: DebugConfigurationRequest): Promise<void> {
+    try {
+      const result = request.kind === 'provideConfigurations'
+        ? await this.provideConfigurations(request)
+        : await this.resolveConfiguration(request)
+      this.send({ type: 'debug-result', payload: { requestId: request.requestId, result } })
+    } catch (error) {
+      this.send({
+        type: 'debug-result',
+        payload: { requestId: request.requestId, error: error instanceof Error ? error.message : String(error) }
+      })
+    }
+  }
+
+  /**
+   * Ask the factory registered for the configuration's type how to reach its adapter.
+   * Replies with `null` when no factory is registered so the main process falls
+   * back to the adapter declared in package.json.
+   */
+  async createAdapter(request: CreateDebugAdapterRequest): Promise<void> {
+    try {
+      const type = String(request.configuration.type)
+      const registration = this.factories.get(type)
+      let descriptor: DebugAdapterDescriptorDTO | null = null
+
+      if (registration) {
+        const executable = request.executable
+          ? new DebugAdapterExecutable(request.executable.command, request.executable.args)
+          : undefined
+        const session: DebugSessionInfo = {
+          id: request.sessionId,
+          type,
+          name: String(request.configuration.name ?? type),
+          configuration: request.configuration,
+          workspaceFolder: toWorkspaceFolder(request.folder)
+        }
+        const created = await this.measure(registration.extensionId, () =>
+          registration.factory.createDebugAdapterDescriptor(session, executable))
+        descriptor = this.toDescriptor(request.sessionId, registration.extensionId, created ?? executable)
+      }
+
+      this.send({ type: 'debug-result', payload: { requestId: request.requestId, result: descriptor } })
+    } catch (error) {
+      this.send({
+        type: 'debug-result',
+        payload: { requestId: request.requestId, error: error instanceof Error ? error.message : String(error) }
+      })
+    }
+  }
+
+  handleAdapterMessage(payload: { sessionId: string; message: unknown }): void {
+    const entry = this.inlineAdapters.get(payload.sessionId)
+    if (!entry) return
+    this.measure(entry.extensionId, () => entry.adapter.handleMessage(payload.message))
+  }
+
+  disposeAdapter(sessionId: string): void {
+    const entry = this.inlineAdapters.get(sessionId)
+    if (!entry) return
+    this.inlineAdapters.delete(sessionId)
+    entry.subscription.dispose()
+    try {
+      entry.adapter.dispose()
+    } catch (error) {
+      console.error(`[ExtensionHost] Failed to dispose debug adapter of ${entry.extensionId}:`, error)
+    }
+  }
+
+  /**
+   * Drop everything an extension registered, when it is deactivated.
+   */
+  disposeExtension(extensionId: string): void {
+    for (const entry of Array.from(this.providers)) {
+      if (entry.extensionId === extensionId) this.providers.delete(entry)
+    }
+    for (const [type, entry] of Array.from(this.factories.entries())) {
+      if (entry.extensionId === extensionId) this.factories.delete(type)
+    }
+    for (const [sessionId, entry] of Array.from(this.inlineAdapters.entries())) {
+      if (entry.extensionId === extensionId) {
+        this.disposeAdapter(sessionId)
+        this.send({ type: 'debug-adapter-exited', payload: { sessionId } })
+      }
+    }
+  }
+
+  private async provideConfigurations(request: DebugConfigurationRequest): Promise<DebugConfiguration[]> {
+    const folder = toWorkspaceFolder(request.folder)
+    const configurations: DebugConfiguration[] = []
+    for (const entry of Array.from(this.providers)) {
+      if (!entry.provider.provideDebugConfigurations) continue
+      if (request.type ? entry.type !== request.type : entry.triggerKind !== DebugConfigurationProviderTriggerKind.Initial) continue
+
+      const tokenSource = new CancellationTokenSource()
+      try {
+        const provided = await this.measure(entry.extensionId, () =>
+          entry.provider.provideDebugConfigurations!(folder, tokenSource.token))
+        if (Array.isArray(provided)) {
+          configurations.push(...provided.map(configuration => ({ type: entry.type, ...configuration })))
+        }
+      } catch (error) {
+        // One broken provider should not hide the configurations of the others
+        console.error(`[ExtensionHost] Debug configuration provider of ${entry.extensionId} failed:`, error)
+      } finally {
+        tokenSource.dispose()
+      }
+    }
+    return configurations
+  }
+
+  private async resolveConfiguration(request: DebugConfigurationRequest): Promise<DebugConfiguration | null> {
+    const folder = toWorkspaceFolder(request.folder)
+    const method = request.kind === 'resolveConfiguration'
+      ? 'resolveDebugConfiguration'
+      : 'resolveDebugConfigurationWithSubstitutedVariables'
+    let configuration: DebugConfiguration = request.configuration ?? {}
+
+    for (const entry of Array.from(this.providers)) {
+      const resolver = entry.provider[method]
+      // '*' providers see every configuration, as in VS Code
+      if (!resolver || (entry.type !== '*' && entry.type !== configuration.type)) continue
+
+      const tokenSource = new CancellationTokenSource()
+      try {
+        const current = configuration
+        const resolved = await this.measure(entry.extensionId, () => resolver.call(entry.provider, folder, current, tokenSource.token))
+        // A resolver cancels the launch by returning nothing
+        if (resolved === undefined || resolved === null) return null
+        configuration = resolved
+      } finally {
+        tokenSource.dispose()
+      }
+    }
+    return configuration
+  }
+
+  private toDescriptor(
+    sessionId: string,
+    extensionId: string,
+    descriptor: DebugAdapterExecutable | DebugAdapterServer | DebugAdapterNamedPipeServer | DebugAdapterInlineImplementation | undefined
+  ): DebugAdapterDescriptorDTO | null {
+    if (descriptor instanceof DebugAdapterExecutable) {
+      return {
+        kind: 'executable',
+        command: descriptor.command,
+        args: descriptor.args,
+        cwd: descriptor.options?.cwd,
+        env: descriptor.options?.env
+      }
+    }
+    if (descriptor instanceof DebugAdapterServer) {
+      return { kind: 'server', port: descriptor.port, host: descriptor.host }
+    }
+    if (descriptor instanceof DebugAdapterNamedPipeServer) {
+      return { kind: 'pipe', path: descriptor.path }
+    }
+    if (descriptor instanceof DebugAdapterInlineImplementation) {
+      const adapter = descriptor.implementation
+      const subscription = adapter.onDidSendMessage(message => {
+        this.send({ type: 'debug-adapter-message', payload: { sessionId, message } })
+      })
+      this.inlineAdapters.set(sessionId, { extensionId, adapter, subscription })
+      return { kind: 'inline' }
+    }
+    return null
+  }
+}
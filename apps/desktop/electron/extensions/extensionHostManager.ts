@@ -9,6 +9,68 @@ import * as path from 'path'
 import * as fs from 'fs'
 import * as os from 'os'
 import { ipcMain, app, BrowserWindow } from 'electron'
+import { ConfigurationStore, ConfigurationTargetName } from './extensionConfiguration'
+import {
+  ExtensionStateStore,
+  MementoScope,
+  SecretStorageOperation,
+  getSecretStorageKey,
+  isExtensionSecretKey
+} from './extensionStorage'
+import { VSCODE_API_VERSION, isEngineCompatible, validateExtensionManifest } from './extensionManifest'
+import { deleteSecureValues, getSecureValue, listSecureKeys, setSecureValue } from '../handlers/safeStorage'
+import type {
+  CommandInvocationResult,
+  DebugAdapterDescriptorDTO,
+  DebugConfigurationRequest,
+  DebuggerContributionDTO,
+  ExtensionCommandDescriptor,
+  ExtensionHostIncident,
+  ExtensionHostStats,
+  HostUsageSnapshot,
+  LanguageFeatureKind,
+  LanguageFeatureRequest,
+  LanguageFeatureResult,
+  LanguageProviderRegistration,
+  TreeItemDTO,
+  TreeViewDTO,
+  TreeViewEventDTO,
+  ViewContainerDTO,
+  WebviewPanelDTO
+} from '../../src/types/extensionHost'
+
+// Upper bound for a single provider call; slow providers must not stall the editor
+const LANGUAGE_FEATURE_TIMEOUTS: Record<LanguageFeatureKind, number> = {
+  completion: 3000,
+  hover: 2000,
+  definition: 5000,
+  references: 10000,
+  codeAction: 3000,
+  formatting: 10000
+}
+
+// Commands may prompt the user, so they get far more time than a provider call
+const COMMAND_TIMEOUT = 60000
+const TREE_CHILDREN_TIMEOUT = 10000
+// Resolvers and adapter factories may prompt the user (pick a process, a test, ...)
+const DEBUG_REQUEST_TIMEOUT = 60000
+
+// Views contributed to built-in containers (explorer, scm, ...) are grouped here
+const EXTENSION_VIEWS_CONTAINER = 'extensionViews'
+const MAX_VIEW_ICON_SIZE = 256 * 1024
+
+// The host answers heartbeats from its event loop, so missing them means an extension is blocking it
+const HEARTBEAT_INTERVAL = 5000
+const HEARTBEAT_TIMEOUT = 15000
+
+// Crash restarts back off 1s, 2s, 4s... and stop after MAX_RESTART_ATTEMPTS crashes
+// without a run of at least STABLE_UPTIME in between
+const RESTART_BASE_DELAY = 1000
+const RESTART_MAX_DELAY = 30000
+const MAX_RESTART_ATTEMPTS = 5
+const STABLE_UPTIME = 60000
+
+const DISABLED_EXTENSIONS_FILE = '.disabled.json'
 
 // Extension metadata
 export interface ExtensionMetadata {
@@ -21,9 +83,14 @@ export interface ExtensionMetadata {
   main?: string
   contributes: unknown
   activationEvents: string[]
+  // Extensions that must be installed and activated first
+  extensionDependencies: string[]
+  // Extensions installed together with this one
+  extensionPack: string[]
   extensionPath: string
   isBuiltin: boolean
   isActive: boolean
+  isDisabled: boolean
 }
 
 // Extension contribution
@@ -42,10 +109,19 @@ export interface ExtensionContribution {
     command: string
     key: string
     when?: string
+    mac?: string
+    linux?: string
+    win?: string
   }>
+  viewsContainers?: Record<string, Array<{
+    id: string
+    title: string
+    icon?: string
+  }>>
   views?: Record<string, Array<{
     id: string
     name: string
+    type?: string
     when?: string
   }>>
   configuration?: Record<string, unknown>
@@ -54,6 +130,22 @@ export interface ExtensionContribution {
     uiTheme: string
     path: string
   }>
+  debuggers?: Array<DebuggerExecutable & {
+    type: string
+    label?: string
+    languages?: string[]
+    initialConfigurations?: unknown[]
+    windows?: DebuggerExecutable
+    osx?: DebuggerExecutable
+    linux?: DebuggerExecutable
+  }>
+}
+
+interface DebuggerExecutable {
+  program?: string
+  args?: string[]
+  runtime?: string
+  runtimeArgs?: string[]
 }
 
 interface ExtensionHostMessage {
@@ -74,11 +166,37 @@ class ExtensionHostManager {
   private extensions: Map<string, ExtensionMetadata> = new Map()
   private activeExtensions: Map<string, ActiveExtension> = new Map()
   private loadedExtensions: Set<string> = new Set()
-  private registeredCommands: Map<string, { extensionId: string; callback: (...args: unknown[]) => unknown }> = new Map()
+  private registeredCommands: Map<string, { extensionId: string }> = new Map()
   private isReady = false
   private messageQueue: Array<{ type: string; payload?: unknown; resolve?: (value: unknown) => void; reject?: (error: Error) => void }> = []
   private messageId = 0
   private pendingMessages: Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }> = new Map()
+  private configurationStore: ConfigurationStore | null = null
+  private stateStore: ExtensionStateStore | null = null
+  private workspaceFolder: string | null = null
+  private languageProviders: Map<number, LanguageProviderRegistration> = new Map()
+  private treeViews: Map<string, { extensionId: string; showCollapseAll: boolean; title?: string; description?: string; message?: string }> = new Map()
+  private webviewPanels: Map<string, WebviewPanelDTO> = new Map()
+  // Sessions whose adapter runs inline in the extension host
+  private debugAdapterSessions: Map<string, { onMessage: (message: unknown) => void; onExit: () => void }> = new Map()
+  private pendingLanguageRequests: Map<string, { resolve: (result: LanguageFeatureResult | null) => void; timeout: NodeJS.Timeout }> = new Map()
+  private disabledExtensions: Set<string> | null = null
+  // Health tracking
+  private isStopping = false
+  private hostStartedAt = 0
+  private heartbeatTimer: NodeJS.Timeout | null = null
+  private heartbeatSeq = 0
+  private lastHeartbeatAt = 0
+  private hostUsage: HostUsageSnapshot | null = null
+  private restartTimer: NodeJS.Timeout | null = null
+  private restartAttempts = 0
+  private restartCount = 0
+  private lastIncident: ExtensionHostIncident | undefined
+  private unresponsiveIncident: ExtensionHostIncident | null = null
+  private incidents: Map<string, { hangs: number; crashes: number }> = new Map()
+  // Calls into extension code still waiting on the host, used to blame hangs and crashes
+  private hostCalls: Map<number, { extensionId: string; startedAt: number }> = new Map()
+  private nextHostCallId = 0
 
   constructor() {
     this.setupIPCHandlers()
@@ -93,11 +211,28 @@ class ExtensionHostManager {
     }
   }
 
+  private getConfigurationStore(): ConfigurationStore {
+    if (!this.configurationStore) {
+      this.configurationStore = new ConfigurationStore(path.join(app.getPath('userData'), 'settings.json'))
+      this.configurationStore.setWorkspaceFolder(this.workspaceFolder)
+    }
+    return this.configurationStore
+  }
+
+  private getStateStore(): ExtensionStateStore {
+    if (!this.stateStore) {
+      this.stateStore = new ExtensionStateStore(path.join(app.getPath('userData'), 'extension-state'))
+      this.stateStore.setWorkspaceFolder(this.workspaceFolder)
+    }
+    return this.stateStore
+  }
+
   async start(): Promise<void> {
     this.initExtensionsDir()
     if (this.extensionHostProcess) {
       return
     }
+    this.isStopping = false
 
     return new Promise((resolve, reject) => {
       const hostScriptPath = path.join(__dirname, 'extensionHostProcess.js')
@@ -135,10 +270,17 @@ class ExtensionHostManager {
         reject(error)
       })
 
-      this.extensionHostProcess.on('exit', (code) => {
+      this.extensionHostProcess.on('exit', (code, signal) => {
         console.log(`[ExtensionHost] Process exited with code ${code}`)
+        // Blame has to be assigned before the pending calls are dropped
+        const suspect = this.findSuspect()
         this.extensionHostProcess = null
         this.isReady = false
+        this.stopHeartbeat()
+        const previouslyActive = this.resetHostState()
+        if (!this.isStopping) {
+          this.handleHostCrash(signal ? `killed by ${signal}` : `exited with code ${code}`, previouslyActive, suspect)
+        }
       })
 
       // Wait for ready signal
@@ -160,6 +302,12 @@ class ExtensionHostManager {
   }
 
   async stop(): Promise<void> {
+    this.isStopping = true
+    this.stopHeartbeat()
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer)
+      this.restartTimer = null
+    }
     if (!this.extensionHostProcess) {
       return
     }
@@ -189,13 +337,218 @@ class ExtensionHostManager {
     })
   }
 
+  private startHeartbeat(): void {
+    this.stopHeartbeat()
+    this.lastHeartbeatAt = Date.now()
+    this.heartbeatTimer = setInterval(() => {
+      if (Date.now() - this.lastHeartbeatAt > HEARTBEAT_TIMEOUT) {
+        this.handleUnresponsiveHost()
+        return
+      }
+      this.sendMessage({ type: 'heartbeat', payload: { seq: ++this.heartbeatSeq } })
+    }, HEARTBEAT_INTERVAL)
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer)
+      this.heartbeatTimer = null
+    }
+  }
+
+  /**
+   * The host stopped answering heartbeats, so an extension is blocking its event loop.
+   * A blocked process cannot be asked to shut down; it is killed and the exit handler
+   * restarts it.
+   */
+  private handleUnresponsiveHost(): void {
+    const suspect = this.findSuspect()
+    const seconds = Math.round((Date.now() - this.lastHeartbeatAt) / 1000)
+    console.error(`[ExtensionHost] Host unresponsive for ${seconds}s${suspect ? `, last call into ${suspect}` : ''}`)
+    this.stopHeartbeat()
+    if (suspect) {
+      this.getIncidentCounts(suspect).hangs++
+    }
+    this.unresponsiveIncident = {
+      kind: 'unresponsive',
+      at: Date.now(),
+      detail: `No heartbeat for ${seconds}s`,
+      extensionId: suspect
+    }
+    this.extensionHostProcess?.kill('SIGKILL')
+  }
+
+  private handleHostCrash(detail: string, previouslyActive: string[], suspect: string | undefined): void {
+    if (this.unresponsiveIncident) {
+      this.lastIncident = this.unresponsiveIncident
+      this.unresponsiveIncident = null
+    } else {
+      if (suspect) {
+        this.getIncidentCounts(suspect).crashes++
+      }
+      this.lastIncident = { kind: 'crash', at: Date.now(), detail, extensionId: suspect }
+    }
+    console.error(`[ExtensionHost] Host went down (${this.lastIncident.detail})${suspect ? `, suspected extension: ${suspect}` : ''}`)
+    this.scheduleRestart(previouslyActive, suspect)
+  }
+
+  private scheduleRestart(previouslyActive: string[], suspect: string | undefined): void {
+    if (this.restartTimer) return
+
+    // A host that ran for a while before going down starts a fresh backoff sequence
+    if (this.hostStartedAt && Date.now() - this.hostStartedAt >= STABLE_UPTIME) {
+      this.restartAttempts = 0
+    }
+    if (this.restartAttempts >= MAX_RESTART_ATTEMPTS) {
+      console.error(`[ExtensionHost] Giving up after ${MAX_RESTART_ATTEMPTS} restart attempts`)
+      this.notifyRenderer('host-status', this.getHostStats())
+      return
+    }
+
+    const delay = Math.min(RESTART_BASE_DELAY * 2 ** this.restartAttempts, RESTART_MAX_DELAY)
+    this.restartAttempts++
+    console.log(`[ExtensionHost] Restarting in ${delay}ms (attempt ${this.restartAttempts}/${MAX_RESTART_ATTEMPTS})`)
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null
+      void this.restartAfterCrash(previouslyActive, suspect)
+    }, delay)
+    this.notifyRenderer('host-status', this.getHostStats())
+  }
+
+  /**
+   * Start a new host and bring back the extensions that were running, except the
+   * one blamed for the crash; the user can re-enable or activate it from the manager.
+   */
+  private async restartAfterCrash(previouslyActive: string[], suspect: string | undefined): Promise<void> {
+    this.hostStartedAt = 0
+    try {
+      await this.start()
+    } catch (error) {
+      console.error('[ExtensionHost] Restart failed:', error)
+      // A host that never got ready is killed so the exit handler schedules the next attempt
+      if (this.extensionHostProcess) {
+        this.extensionHostProcess.kill('SIGKILL')
+      } else {
+        this.scheduleRestart(previouslyActive, suspect)
+      }
+      return
+    }
+
+    this.restartCount++
+    for (const id of previouslyActive) {
+      const extension = this.extensions.get(id)
+      if (id === suspect || !extension || extension.isDisabled) continue
+      try {
+        await this.activateExtension(id)
+      } catch (error) {
+        console.error(`[ExtensionHost] Failed to re-activate ${id} after restart:`, error)
+      }
+    }
+    this.notifyRenderer('host-status', this.getHostStats())
+  }
+
+  /**
+   * Drop everything the dead host had registered. Returns the ids that were active.
+   */
+  private resetHostState(): string[] {
+    const previouslyActive = Array.from(this.activeExtensions.keys())
+    for (const id of previouslyActive) {
+      const extension = this.extensions.get(id)
+      if (extension) extension.isActive = false
+    }
+    this.activeExtensions.clear()
+    this.loadedExtensions.clear()
+    this.hostCalls.clear()
+    this.hostUsage = null
+    this.clearLanguageProviders()
+    this.clearCommands()
+    this.clearViews()
+    this.debugAdapterSessions.forEach(session => session.onExit())
+    this.debugAdapterSessions.clear()
+    previouslyActive.forEach(id => this.notifyRenderer('deactivated', { id }))
+    return previouslyActive
+  }
+
+  /**
+   * Record that the host is running code of `extensionId` until the returned callback is called.
+   */
+  private trackHostCall(extensionId: string | undefined): () => void {
+    if (!extensionId) return () => {}
+    const callId = ++this.nextHostCallId
+    this.hostCalls.set(callId, { extensionId, startedAt: Date.now() })
+    return () => { this.hostCalls.delete(callId) }
+  }
+
+  // The extension with the oldest unanswered call is the most likely to be blocking the host
+  private findSuspect(): string | undefined {
+    let oldest: { extensionId: string; startedAt: number } | undefined
+    for (const call of Array.from(this.hostCalls.values())) {
+      if (!oldest || call.startedAt < oldest.startedAt) oldest = call
+    }
+    return oldest?.extensionId
+  }
+
+  private getIncidentCounts(extensionId: string): { hangs: number; crashes: number } {
+    let counts = this.incidents.get(extensionId)
+    if (!counts) {
+      counts = { hangs: 0, crashes: 0 }
+      this.incidents.set(extensionId, counts)
+    }
+    return counts
+  }
+
   private handleHostMessage(message: ExtensionHostMessage): void {
     switch (message.type) {
       case 'ready':
         this.isReady = true
+        this.hostStartedAt = Date.now()
+        this.startHeartbeat()
+        // Extensions activated from the queue read their settings on activation
+        this.broadcastConfiguration([])
         this.flushMessageQueue()
         break
 
+      case 'heartbeat':
+        this.lastHeartbeatAt = Date.now()
+        this.hostUsage = (message.payload as { usage: HostUsageSnapshot }).usage
+        break
+
+      case 'extension-error': {
+        const { extensionId, kind, message: detail } = message.payload as { extensionId?: string; kind: string; message: string }
+        console.error(`[ExtensionHost] ${kind}${extensionId ? ` in ${extensionId}` : ''}: ${detail}`)
+        break
+      }
+
+      case 'register-language-provider':
+        this.handleRegisterLanguageProvider(message.payload as LanguageProviderRegistration)
+        break
+
+      case 'unregister-language-provider':
+        this.handleUnregisterLanguageProvider(message.payload as { handle: number })
+        break
+
+      case 'language-feature-result':
+        this.handleLanguageFeatureResult(message.payload as { requestId: string; result: LanguageFeatureResult | null; error?: string })
+        break
+
+      case 'update-configuration':
+        this.handleUpdateConfiguration(message.payload as { messageId: number; key: string; value: unknown; target: ConfigurationTargetName })
+        break
+
+      case 'update-memento':
+        this.handleUpdateMemento(message.payload as { messageId: number; extensionId: string; scope: MementoScope; key: string; value: unknown })
+        break
+
+      case 'set-keys-for-sync': {
+        const { extensionId, keys } = message.payload as { extensionId: string; keys: string[] }
+        this.getStateStore().setKeysForSync(extensionId, keys)
+        break
+      }
+
+      case 'secret-storage':
+        this.handleSecretStorage(message.payload as { messageId: number; extensionId: string; operation: SecretStorageOperation; key: string; value?: string })
+        break
+
       case 'extension-loaded':
         this.handleExtensionLoaded(message.payload as { id: string; manifest: unknown })
         break
@@ -212,9 +565,78 @@ class ExtensionHostManager {
         this.handleRegisterCommand(message.payload as { extensionId: string; command: string })
         break
 
-      case 'execute-command': {
-        const execPayload = message.payload as { command: string; args: unknown[]; messageId?: number }
-        this.handleExecuteCommand(execPayload)
+      case 'unregister-command':
+        this.handleUnregisterCommand(message.payload as { extensionId: string; command: string })
+        break
+
+      case 'execute-command':
+        this.handleExecuteCommand(message.payload as { messageId: number; command: string; args: unknown[] })
+        break
+
+      case 'invoke-command-result':
+      case 'debug-result':
+        this.handleInvokeCommandResult(message.payload as CommandInvocationResult)
+        break
+
+      case 'debug-adapter-message': {
+        const { sessionId, message: adapterMessage } = message.payload as { sessionId: string; message: unknown }
+        this.debugAdapterSessions.get(sessionId)?.onMessage(adapterMessage)
+        break
+      }
+
+      case 'debug-adapter-exited': {
+        const { sessionId } = message.payload as { sessionId: string }
+        this.debugAdapterSessions.get(sessionId)?.onExit()
+        this.debugAdapterSessions.delete(sessionId)
+        break
+      }
+
+      case 'register-tree-view':
+        this.handleRegisterTreeView(message.payload as { viewId: string; extensionId: string; showCollapseAll: boolean })
+        break
+
+      case 'unregister-tree-view':
+        if (this.treeViews.delete((message.payload as { viewId: string }).viewId)) {
+          this.notifyRenderer('views-changed', this.getViews())
+        }
+        break
+
+      case 'update-tree-view':
+        this.handleUpdateTreeView(message.payload as { viewId: string; title?: string; description?: string; message?: string })
+        break
+
+      case 'tree-data-changed':
+        this.notifyRenderer('tree-data-changed', message.payload)
+        break
+
+      case 'tree-children-result':
+        this.handleTreeChildrenResult(message.payload as { requestId: number; items: TreeItemDTO[]; error?: string })
+        break
+
+      case 'create-webview-panel': {
+        const panel = message.payload as WebviewPanelDTO
+        this.webviewPanels.set(panel.handle, panel)
+        this.notifyRenderer('webview-panel-created', panel)
+        break
+      }
+
+      case 'update-webview-panel':
+        this.handleUpdateWebviewPanel(message.payload as Partial<WebviewPanelDTO> & { handle: string })
+        break
+
+      case 'webview-post-message':
+        this.notifyRenderer('webview-post-message', message.payload)
+        break
+
+      case 'reveal-webview-panel':
+        this.notifyRenderer('webview-panel-revealed', message.payload)
+        break
+
+      case 'dispose-webview-panel': {
+        const { handle } = message.payload as { handle: string }
+        if (this.webviewPanels.delete(handle)) {
+          this.notifyRenderer('webview-panel-disposed', { handle })
+        }
         break
       }
 
@@ -231,6 +653,53 @@ class ExtensionHostManager {
     }
   }
 
+  private handleUpdateMemento(payload: { messageId: number; extensionId: string; scope: MementoScope; key: string; value: unknown }): void {
+    try {
+      this.getStateStore().update(payload.extensionId, payload.scope, payload.key, payload.value)
+      this.sendMessage({ type: 'storage-result', payload: { messageId: payload.messageId } })
+    } catch (error) {
+      this.sendMessage({
+        type: 'storage-result',
+        payload: { messageId: payload.messageId, error: error instanceof Error ? error.message : String(error) }
+      })
+    }
+  }
+
+  private handleSecretStorage(payload: { messageId: number; extensionId: string; operation: SecretStorageOperation; key: string; value?: string }): void {
+    const userDataPath = app.getPath('userData')
+    const storageKey = getSecretStorageKey(payload.extensionId, payload.key)
+
+    const result = payload.operation === 'get'
+      ? getSecureValue(userDataPath, storageKey)
+      : payload.operation === 'store'
+        ? setSecureValue(userDataPath, storageKey, payload.value ?? '')
+        : deleteSecureValues(userDataPath, [storageKey])
+
+    this.sendMessage({
+      type: 'storage-result',
+      payload: result.success
+        ? { messageId: payload.messageId, result: result.value ?? undefined }
+        : { messageId: payload.messageId, error: result.error || `Secret storage ${payload.operation} failed` }
+    })
+  }
+
+  /**
+   * Drop the state files and secrets an extension left behind.
+   */
+  private removeExtensionStorage(id: string): void {
+    try {
+      this.getStateStore().removeExtension(id)
+    } catch (error) {
+      console.warn(`[ExtensionHost] Failed to remove state for ${id}:`, error)
+    }
+
+    const userDataPath = app.getPath('userData')
+    const secretKeys = (listSecureKeys(userDataPath).keys || []).filter(key => isExtensionSecretKey(id, key))
+    if (secretKeys.length > 0) {
+      deleteSecureValues(userDataPath, secretKeys)
+    }
+  }
+
   private handleExtensionLoaded(payload: { id: string; manifest: unknown }): void {
     const extension = this.extensions.get(payload.id)
     if (extension) {
@@ -259,12 +728,30 @@ class ExtensionHostManager {
       metadata.isActive = false
       this.activeExtensions.delete(payload.id)
       
+      let commandsChanged = false
       const commandEntries = Array.from(this.registeredCommands.entries())
       for (const [command, info] of commandEntries) {
         if (info.extensionId === payload.id) {
           this.registeredCommands.delete(command)
+          commandsChanged = true
         }
       }
+      if (commandsChanged) {
+        this.notifyRenderer('commands-changed', this.getCommands())
+      }
+
+      let providersChanged = false
+      for (const [handle, registration] of Array.from(this.languageProviders.entries())) {
+        if (registration.extensionId === payload.id) {
+          this.languageProviders.delete(handle)
+          providersChanged = true
+        }
+      }
+      if (providersChanged) {
+        this.notifyRenderer('language-providers-changed', this.getLanguageProviders())
+      }
+
+      this.clearViews(payload.id)
       
       // Notify renderer
       this.notifyRenderer('deactivated', { id: payload.id })
@@ -272,45 +759,253 @@ class ExtensionHostManager {
   }
 
   private handleRegisterCommand(payload: { extensionId: string; command: string }): void {
-    this.registeredCommands.set(payload.command, {
-      extensionId: payload.extensionId,
-      callback: async (...args: unknown[]) => {
-        // Forward command execution to extension host
-        this.sendMessage({
-          type: 'invoke-command',
-          payload: { extensionId: payload.extensionId, command: payload.command, args }
-        })
-      }
-    })
+    this.registeredCommands.set(payload.command, { extensionId: payload.extensionId })
+    this.notifyRenderer('commands-changed', this.getCommands())
   }
 
-  private handleExecuteCommand(payload: { command: string; args: unknown[]; messageId?: number }): void {
-    const commandInfo = this.registeredCommands.get(payload.command)
-    let result: unknown = undefined
-    if (commandInfo) {
-      result = commandInfo.callback(...payload.args)
-    } else {
-      result = this.executeMainCommand(payload.command, payload.args)
+  private handleUnregisterCommand(payload: { extensionId: string; command: string }): void {
+    if (this.registeredCommands.get(payload.command)?.extensionId === payload.extensionId) {
+      this.registeredCommands.delete(payload.command)
+      this.notifyRenderer('commands-changed', this.getCommands())
     }
+  }
 
-    if (payload.messageId !== undefined) {
-      Promise.resolve(result).then((resolvedResult) => {
+  private handleExecuteCommand(payload: { messageId: number; command: string; args: unknown[] }): void {
+    this.executeCommand(payload.command, payload.args || [])
+      .then((result) => {
         this.sendMessage({
           type: 'command-result',
-          payload: { messageId: payload.messageId, result: resolvedResult }
+          payload: { messageId: payload.messageId, result }
         })
       })
+      .catch((error) => {
+        this.sendMessage({
+          type: 'command-result',
+          payload: { messageId: payload.messageId, error: error instanceof Error ? error.message : String(error) }
+        })
+      })
+  }
+
+  private handleInvokeCommandResult(payload: CommandInvocationResult): void {
+    const pending = this.pendingMessages.get(payload.requestId)
+    if (!pending) return
+    this.pendingMessages.delete(payload.requestId)
+    if (payload.error) {
+      pending.reject(new Error(payload.error))
+    } else {
+      pending.resolve(payload.result)
     }
   }
 
+  private invokeHostCommand(command: string, args: unknown[]): Promise<unknown> {
+    const requestId = ++this.messageId
+    const done = this.trackHostCall(this.registeredCommands.get(command)?.extensionId)
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        if (this.pendingMessages.delete(requestId)) {
+          done()
+          reject(new Error(`Command execution timeout: ${command}`))
+        }
+      }, COMMAND_TIMEOUT)
+
+      this.pendingMessages.set(requestId, {
+        resolve: (value) => { clearTimeout(timeout); done(); resolve(value) },
+        reject: (error) => { clearTimeout(timeout); done(); reject(error) }
+      })
+      this.sendMessage({ type: 'invoke-command', payload: { requestId, command, args } })
+    })
+  }
+
+  /**
+   * Send a request that the host answers with `{ requestId, result?, error? }`.
+   */
+  private requestHost<T>(type: string, payload: Record<string, unknown>, timeoutMs: number, timeoutMessage: string, extensionId?: string): Promise<T> {
+    const requestId = ++this.messageId
+    const done = this.trackHostCall(extensionId)
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        if (this.pendingMessages.delete(requestId)) {
+          done()
+          reject(new Error(timeoutMessage))
+        }
+      }, timeoutMs)
+
+      this.pendingMessages.set(requestId, {
+        resolve: (value) => { clearTimeout(timeout); done(); resolve(value as T) },
+        reject: (error) => { clearTimeout(timeout); done(); reject(error) }
+      })
+      this.sendMessage({ type, payload: { ...payload, requestId } })
+    })
+  }
+
+  private clearCommands(): void {
+    for (const pending of Array.from(this.pendingMessages.values())) {
+      pending.reject(new Error('Extension host exited'))
+    }
+    this.pendingMessages.clear()
+    if (this.registeredCommands.size > 0) {
+      this.registeredCommands.clear()
+      this.notifyRenderer('commands-changed', this.getCommands())
+    }
+  }
+
+  private handleRegisterTreeView(payload: { viewId: string; extensionId: string; showCollapseAll: boolean }): void {
+    this.treeViews.set(payload.viewId, { extensionId: payload.extensionId, showCollapseAll: payload.showCollapseAll })
+    this.notifyRenderer('views-changed', this.getViews())
+  }
+
+  private handleUpdateTreeView(payload: { viewId: string; title?: string; description?: string; message?: string }): void {
+    const view = this.treeViews.get(payload.viewId)
+    if (!view) return
+    view.title = payload.title
+    view.description = payload.description
+    view.message = payload.message
+    this.notifyRenderer('views-changed', this.getViews())
+  }
+
+  private handleTreeChildrenResult(payload: { requestId: number; items: TreeItemDTO[]; error?: string }): void {
+    const pending = this.pendingMessages.get(payload.requestId)
+    if (!pending) return
+    this.pendingMessages.delete(payload.requestId)
+    if (payload.error) {
+      console.warn('[ExtensionHost] Tree data provider failed:', payload.error)
+    }
+    pending.resolve(payload.items || [])
+  }
+
+  private handleUpdateWebviewPanel(payload: Partial<WebviewPanelDTO> & { handle: string }): void {
+    const panel = this.webviewPanels.get(payload.handle)
+    if (!panel) return
+    this.webviewPanels.set(payload.handle, { ...panel, ...payload })
+    this.notifyRenderer('webview-panel-updated', payload)
+  }
+
+  /**
+   * Forget tree views and webview panels, either for one extension or for the whole host.
+   */
+  private clearViews(extensionId?: string): void {
+    let viewsChanged = false
+    for (const [viewId, view] of Array.from(this.treeViews.entries())) {
+      if (!extensionId || view.extensionId === extensionId) {
+        this.treeViews.delete(viewId)
+        viewsChanged = true
+      }
+    }
+    if (viewsChanged) {
+      this.notifyRenderer('views-changed', this.getViews())
+    }
+
+    for (const [handle, panel] of Array.from(this.webviewPanels.entries())) {
+      if (!extensionId || panel.extensionId === extensionId) {
+        this.webviewPanels.delete(handle)
+        this.notifyRenderer('webview-panel-disposed', { handle })
+      }
+    }
+  }
+
+  private findViewContributor(viewId: string): ExtensionMetadata | undefined {
+    for (const extension of Array.from(this.extensions.values())) {
+      const contributes = extension.contributes as ExtensionContribution | undefined
+      const contributed = Object.values(contributes?.views || {}).some(views => views.some(view => view.id === viewId))
+      if (contributed || extension.activationEvents.includes(`onView:${viewId}`)) {
+        return extension
+      }
+    }
+    return undefined
+  }
+
+  private loadViewIcon(extension: ExtensionMetadata, icon: string | undefined): string | undefined {
+    if (!icon || !/\.(svg|png)$/i.test(icon)) return undefined
+
+    const iconPath = path.resolve(extension.extensionPath, icon)
+    // Icons must ship inside the extension
+    if (!iconPath.startsWith(path.resolve(extension.extensionPath) + path.sep)) return undefined
+
+    try {
+      const stat = fs.statSync(iconPath)
+      if (stat.size > MAX_VIEW_ICON_SIZE) return undefined
+      const mime = iconPath.toLowerCase().endsWith('.svg') ? 'image/svg+xml' : 'image/png'
+      return `data:${mime};base64,${fs.readFileSync(iconPath).toString('base64')}`
+    } catch {
+      return undefined
+    }
+  }
+
+  private findCommandContributor(command: string): ExtensionMetadata | undefined {
+    for (const extension of Array.from(this.extensions.values())) {
+      const contributes = extension.contributes as ExtensionContribution | undefined
+      if (contributes?.commands?.some(cmd => cmd.command === command) ||
+        extension.activationEvents.includes(`onCommand:${command}`)) {
+        return extension
+      }
+    }
+    return undefined
+  }
+
   private executeMainCommand(command: string, _args: unknown[]): unknown {
     switch (command) {
       case 'workbench.action.reloadWindow':
         BrowserWindow.getAllWindows().forEach(win => win.reload())
         return true
       default:
-        console.warn(`[ExtensionHost] Unknown command: ${command}`)
-        return undefined
+        throw new Error(`command '${command}' not found`)
+    }
+  }
+
+  private handleRegisterLanguageProvider(registration: LanguageProviderRegistration): void {
+    this.languageProviders.set(registration.handle, registration)
+    this.notifyRenderer('language-providers-changed', this.getLanguageProviders())
+  }
+
+  private handleUnregisterLanguageProvider(payload: { handle: number }): void {
+    if (this.languageProviders.delete(payload.handle)) {
+      this.notifyRenderer('language-providers-changed', this.getLanguageProviders())
+    }
+  }
+
+  private handleLanguageFeatureResult(payload: { requestId: string; result: LanguageFeatureResult | null; error?: string }): void {
+    const pending = this.pendingLanguageRequests.get(payload.requestId)
+    if (!pending) return
+    clearTimeout(pending.timeout)
+    this.pendingLanguageRequests.delete(payload.requestId)
+    if (payload.error) {
+      console.warn('[ExtensionHost] Language provider failed:', payload.error)
+    }
+    pending.resolve(payload.result)
+  }
+
+  private clearLanguageProviders(): void {
+    for (const pending of Array.from(this.pendingLanguageRequests.values())) {
+      clearTimeout(pending.timeout)
+      pending.resolve(null)
+    }
+    this.pendingLanguageRequests.clear()
+    if (this.languageProviders.size > 0) {
+      this.languageProviders.clear()
+      this.notifyRenderer('language-providers-changed', [])
+    }
+  }
+
+  private handleUpdateConfiguration(payload: { messageId: number; key: string; value: unknown; target: ConfigurationTargetName }): void {
+    try {
+      const keys = this.getConfigurationStore().update(payload.key, payload.value, payload.target)
+      this.sendMessage({ type: 'configuration-update-result', payload: { messageId: payload.messageId } })
+      this.broadcastConfiguration(keys)
+    } catch (error) {
+      this.sendMessage({
+        type: 'configuration-update-result',
+        payload: { messageId: payload.messageId, error: error instanceof Error ? error.message : String(error) }
+      })
+    }
+  }
+
+  private broadcastConfiguration(keys: string[]): void {
+    const snapshot = this.getConfigurationStore().snapshot()
+    if (this.isReady) {
+      this.sendMessage({ type: 'configuration-changed', payload: { snapshot, keys } })
+    }
+    if (keys.length > 0) {
+      this.notifyRenderer('configuration-changed', { keys })
     }
   }
 
@@ -325,8 +1020,9 @@ class ExtensionHostManager {
     })
   }
 
+  // Until the host is ready, messages wait so the configuration snapshot arrives first
   private sendMessage(message: { type: string; payload?: unknown }): void {
-    if (this.extensionHostProcess?.connected) {
+    if (this.isReady && this.extensionHostProcess?.connected) {
       this.extensionHostProcess.send(message)
     } else {
       this.messageQueue.push(message)
@@ -380,10 +1076,14 @@ class ExtensionHostManager {
             main: manifest.main || 'index.js',
             contributes: manifest.contributes || {},
             activationEvents: manifest.activationEvents || [],
+            extensionDependencies: Array.isArray(manifest.extensionDependencies) ? manifest.extensionDependencies : [],
+            extensionPack: Array.isArray(manifest.extensionPack) ? manifest.extensionPack : [],
             extensionPath,
             isBuiltin: false,
-            isActive: false
+            isActive: false,
+            isDisabled: false
           }
+          metadata.isDisabled = this.getDisabledExtensions().has(metadata.id)
 
           this.extensions.set(metadata.id, metadata)
           extensions.push(metadata)
@@ -416,7 +1116,12 @@ class ExtensionHostManager {
     this.loadedExtensions.add(id)
   }
 
-  async activateExtension(id: string): Promise<unknown> {
+  /**
+   * Activate an extension after its `extensionDependencies`, which are activated
+   * depth-first so that each dependency is running before its dependents.
+   * `chain` is the path of dependents that led here and is used to detect cycles.
+   */
+  async activateExtension(id: string, chain: string[] = []): Promise<unknown> {
     const extension = this.extensions.get(id)
     if (!extension) {
       throw new Error(`Extension not found: ${id}`)
@@ -426,6 +1131,23 @@ class ExtensionHostManager {
       return this.activeExtensions.get(id)?.exports
     }
 
+    if (extension.isDisabled) {
+      throw new Error(chain.length > 0
+        ? `Cannot activate '${chain[chain.length - 1]}' because its dependency '${id}' is disabled`
+        : `Extension '${id}' is disabled`)
+    }
+
+    for (const dependency of extension.extensionDependencies) {
+      const dependencyId = this.resolveExtensionId(dependency)
+      if (!dependencyId) {
+        throw new Error(`Cannot activate '${id}' because it depends on '${dependency}', which is not installed`)
+      }
+      if (dependencyId === id || chain.includes(dependencyId)) {
+        throw new Error(`Cannot activate '${id}': dependency cycle ${[...chain, id, dependencyId].join(' -> ')}`)
+      }
+      await this.activateExtension(dependencyId, [...chain, id])
+    }
+
     // Ensure extension is loaded first
     if (!this.loadedExtensions.has(id)) {
       console.log(`[ExtensionHost] Loading extension before activation: ${id}`)
@@ -434,8 +1156,11 @@ class ExtensionHostManager {
       await new Promise(resolve => setTimeout(resolve, 100))
     }
 
+    const done = this.trackHostCall(id)
     return new Promise((resolve, reject) => {
       const timeout = setTimeout(() => {
+        clearInterval(checkActivated)
+        done()
         reject(new Error(`Extension activation timeout: ${id}`))
       }, 30000)
 
@@ -443,13 +1168,14 @@ class ExtensionHostManager {
         if (extension.isActive) {
           clearInterval(checkActivated)
           clearTimeout(timeout)
+          done()
           resolve(this.activeExtensions.get(id)?.exports)
         }
       }, 100)
 
       this.sendMessage({
         type: 'activate-extension',
-        payload: { id }
+        payload: { id, state: this.getStateStore().snapshot(id) }
       })
     })
   }
@@ -470,7 +1196,15 @@ class ExtensionHostManager {
     this.activeExtensions.delete(id)
   }
 
+  /**
+   * Install from a local .vsix file: marketplace downloads land in a temp file,
+   * and offline machines install from files copied over by hand.
+   */
   async installExtension(vsixPath: string): Promise<ExtensionMetadata> {
+    if (path.extname(vsixPath).toLowerCase() !== '.vsix') {
+      throw new Error(`Not a VSIX file: ${vsixPath}`)
+    }
+
     // Check if file exists
     if (!fs.existsSync(vsixPath)) {
       throw new Error(`VSIX file not found: ${vsixPath}`)
@@ -513,9 +1247,24 @@ class ExtensionHostManager {
         throw new Error('Invalid VSIX: missing package.json')
       }
 
-      const manifest = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'))
-      if (!manifest.name || !manifest.publisher) {
-        throw new Error('Invalid VSIX: manifest missing name or publisher')
+      let manifest
+      try {
+        manifest = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'))
+      } catch {
+        throw new Error('Invalid VSIX: package.json is not valid JSON')
+      }
+
+      // The manifest names the install directory, so it must be validated before anything is copied
+      const problems = validateExtensionManifest(manifest)
+      if (problems.length > 0) {
+        throw new Error(`Invalid VSIX: ${problems.join('; ')}`)
+      }
+
+      if (!isEngineCompatible(manifest.engines.vscode)) {
+        throw new Error(
+          `${manifest.publisher}.${manifest.name} requires VS Code ${manifest.engines.vscode}, ` +
+          `but Kalynt provides the VS Code ${VSCODE_API_VERSION} API`
+        )
       }
 
       extensionId = `${manifest.publisher}.${manifest.name}`
@@ -566,6 +1315,14 @@ class ExtensionHostManager {
       throw new Error(`Extension not found: ${id}`)
     }
 
+    const dependents = this.getDependents(id)
+    if (dependents.length > 0) {
+      throw new Error(
+        `Cannot uninstall '${id}' because ${dependents.map(dependent => `'${dependent}'`).join(', ')} ` +
+        `${dependents.length === 1 ? 'depends' : 'depend'} on it`
+      )
+    }
+
     // Deactivate if active
     if (extension.isActive) {
       await this.deactivateExtension(id)
@@ -576,6 +1333,12 @@ class ExtensionHostManager {
       fs.rmSync(extension.extensionPath, { recursive: true, force: true })
     }
 
+    this.removeExtensionStorage(id)
+    if (this.getDisabledExtensions().delete(id)) {
+      this.saveDisabledExtensions()
+    }
+    this.incidents.delete(id)
+
     this.extensions.delete(id)
     this.loadedExtensions.delete(id)
     this.activeExtensions.delete(id)
@@ -585,6 +1348,98 @@ class ExtensionHostManager {
     return Array.from(this.extensions.values())
   }
 
+  /**
+   * Disabled extensions stay installed but are never activated, including after a host restart.
+   */
+  async setExtensionEnabled(id: string, enabled: boolean): Promise<void> {
+    const extension = this.extensions.get(id)
+    if (!extension) {
+      throw new Error(`Extension not found: ${id}`)
+    }
+
+    if (!enabled) {
+      const activeDependents = this.getDependents(id).filter(dependent => this.extensions.get(dependent)?.isActive)
+      for (const dependent of activeDependents) {
+        await this.deactivateExtension(dependent)
+      }
+      await this.deactivateExtension(id)
+    }
+
+    extension.isDisabled = !enabled
+    const disabled = this.getDisabledExtensions()
+    if (enabled) {
+      disabled.delete(id)
+    } else {
+      disabled.add(id)
+    }
+    this.saveDisabledExtensions()
+  }
+
+  getHostStats(): ExtensionHostStats {
+    const usage = this.hostUsage?.extensions || {}
+    const ids = new Set([...Array.from(this.extensions.keys()), ...Object.keys(usage), ...Array.from(this.incidents.keys())])
+    const extensions = Array.from(ids).map(extensionId => {
+      const extension = this.extensions.get(extensionId)
+      const counts = this.incidents.get(extensionId)
+      return {
+        ...(usage[extensionId] || { cpuTime: 0, calls: 0, errors: 0 }),
+        extensionId,
+        isActive: extension?.isActive ?? false,
+        isDisabled: extension?.isDisabled ?? false,
+        hangs: counts?.hangs ?? 0,
+        crashes: counts?.crashes ?? 0
+      }
+    })
+
+    return {
+      running: this.isReady,
+      pid: this.extensionHostProcess?.pid,
+      uptime: this.isReady && this.hostStartedAt ? Date.now() - this.hostStartedAt : 0,
+      restarts: this.restartCount,
+      restartPending: this.restartTimer !== null,
+      lastHeartbeat: this.isReady ? this.lastHeartbeatAt : undefined,
+      memory: this.hostUsage ? { rss: this.hostUsage.process.rss, heapUsed: this.hostUsage.process.heapUsed } : undefined,
+      cpuPercent: this.hostUsage?.process.cpuPercent,
+      lastIncident: this.lastIncident,
+      extensions
+    }
+  }
+
+  /**
+   * Restart on request, e.g. after the automatic restarts gave up. Active extensions are re-activated.
+   */
+  async restartHost(): Promise<void> {
+    const previouslyActive = Array.from(this.activeExtensions.keys())
+    await this.stop()
+    this.resetHostState()
+    this.restartAttempts = 0
+    await this.restartAfterCrash(previouslyActive, undefined)
+  }
+
+  private getDisabledExtensions(): Set<string> {
+    if (!this.disabledExtensions) {
+      this.initExtensionsDir()
+      this.disabledExtensions = new Set()
+      const filePath = path.join(this.extensionsDir, DISABLED_EXTENSIONS_FILE)
+      try {
+        if (fs.existsSync(filePath)) {
+          const ids = JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+          if (Array.isArray(ids)) {
+            ids.filter(id => typeof id === 'string').forEach(id => this.disabledExtensions?.add(id))
+          }
+        }
+      } catch (error) {
+        console.error('[ExtensionHost] Failed to read disabled extensions:', error)
+      }
+    }
+    return this.disabledExtensions
+  }
+
+  private saveDisabledExtensions(): void {
+    const filePath = path.join(this.extensionsDir, DISABLED_EXTENSIONS_FILE)
+    fs.writeFileSync(filePath, JSON.stringify(Array.from(this.getDisabledExtensions()), null, 2), 'utf-8')
+  }
+
   getActiveExtensions(): ExtensionMetadata[] {
     return Array.from(this.activeExtensions.values()).map(e => e.metadata)
   }
@@ -593,6 +1448,463 @@ class ExtensionHostManager {
     return this.extensions.get(id)
   }
 
+  /**
+   * Installed extensions that list `id` in their `extensionDependencies`.
+   */
+  getDependents(id: string): string[] {
+    const target = id.toLowerCase()
+    return Array.from(this.extensions.values())
+      .filter(extension => extension.id !== id && extension.extensionDependencies.some(dependency => dependency.toLowerCase() === target))
+      .map(extension => extension.id)
+  }
+
+  // Extension ids are case-insensitive in manifests
+  private resolveExtensionId(id: string): string | undefined {
+    if (this.extensions.has(id)) return id
+    const target = id.toLowerCase()
+    return Array.from(this.extensions.keys()).find(key => key.toLowerCase() === target)
+  }
+
+  /**
+   * Debug types contributed through `contributes.debuggers` by enabled extensions.
+   */
+  getDebuggers(): DebuggerContributionDTO[] {
+    const debuggers: DebuggerContributionDTO[] = []
+    for (const extension of Array.from(this.extensions.values())) {
+      if (extension.isDisabled) continue
+      const contributes = extension.contributes as ExtensionContribution | undefined
+      for (const contribution of contributes?.debuggers || []) {
+        if (typeof contribution.type !== 'string' || !contribution.type) continue
+        debuggers.push({
+          type: contribution.type,
+          label: contribution.label || contribution.type,
+          extensionId: extension.id,
+          languages: Array.isArray(contribution.languages) ? contribution.languages : []
+        })
+      }
+    }
+    return debuggers
+  }
+
+  hasDebugger(type: string): boolean {
+    return this.getDebuggers().some(contribution => contribution.type === type) ||
+      Array.from(this.extensions.values()).some(extension => !extension.isDisabled && extension.activationEvents.includes(`onDebugResolve:${type}`))
+  }
+
+  /**
+   * Configurations to offer when there is no launch.json entry: the static
+   * `initialConfigurations` of every contributed debugger plus whatever the
+   * extensions' configuration providers return.
+   */
+  async provideDebugConfigurations(folder: string | null): Promise<Record<string, unknown>[]> {
+    const configurations: Record<string, unknown>[] = []
+    for (const extension of Array.from(this.extensions.values())) {
+      if (extension.isDisabled) continue
+      const contributes = extension.contributes as ExtensionContribution | undefined
+      for (const contribution of contributes?.debuggers || []) {
+        for (const configuration of contribution.initialConfigurations || []) {
+          if (typeof configuration === 'object' && configuration !== null) {
+            configurations.push({ type: contribution.type, ...configuration as Record<string, unknown> })
+          }
+        }
+      }
+    }
+
+    await this.activateByEvents(['onDebug', 'onDebugInitialConfigurations'])
+    if (!this.isReady) return configurations
+
+    try {
+      const request: Omit<DebugConfigurationRequest, 'requestId'> = { kind: 'provideConfigurations', folder }
+      const provided = await this.requestHost<Record<string, unknown>[]>(
+        'debug-configuration-request', request, DEBUG_REQUEST_TIMEOUT, 'Debug configuration providers timed out'
+      )
+      configurations.push(...(provided || []))
+    } catch (error) {
+      console.error('[ExtensionHost] Failed to collect debug configurations:', error)
+    }
+    return configurations
+  }
+
+  /**
+   * Let configuration providers fill in or rewrite a launch configuration.
+   * `substituted` selects the pass that runs after `${...}` variables were replaced.
+   * Resolves to `null` when a provider cancelled the launch.
+   */
+  async resolveDebugConfiguration(
+    configuration: Record<string, unknown>,
+    folder: string | null,
+    substituted: boolean
+  ): Promise<Record<string, unknown> | null> {
+    const type = typeof configuration.type === 'string' ? configuration.type : ''
+    await this.activateByEvents(['onDebug', `onDebugResolve:${type}`], type)
+    if (!this.isReady) return configuration
+
+    const request: Omit<DebugConfigurationRequest, 'requestId'> = {
+      kind: substituted ? 'resolveConfigurationWithSubstitutedVariables' : 'resolveConfiguration',
+      folder,
+      type,
+      configuration
+    }
+    return this.requestHost<Record<string, unknown> | null>(
+      'debug-configuration-request', request, DEBUG_REQUEST_TIMEOUT, `Resolving the '${type}' debug configuration timed out`
+    )
+  }
+
+  /**
+   * Find out how to reach the adapter for a session of an extension-contributed type.
+   * Inline adapters exchange DAP messages through `sendDebugAdapterMessage` and `handlers`.
+   * Resolves to `null` when no installed extension provides the type.
+   */
+  async createDebugAdapter(
+    sessionId: string,
+    configuration: Record<string, unknown>,
+    folder: string | null,
+    handlers: { onMessage: (message: unknown) => void; onExit: () => void }
+  ): Promise<DebugAdapterDescriptorDTO | null> {
+    const type = typeof configuration.type === 'string' ? configuration.type : ''
+    const contributor = this.findDebuggerContributor(type)
+    await this.activateByEvents(['onDebug', `onDebugResolve:${type}`, `onDebugAdapterProtocolTracker:${type}`], type)
+
+    const executable = contributor ? this.getDebuggerExecutable(contributor.extension, contributor.contribution) : undefined
+    let descriptor: DebugAdapterDescriptorDTO | null = null
+    if (this.isReady) {
+      // Register first: an inline adapter may send events as soon as it is created
+      this.debugAdapterSessions.set(sessionId, handlers)
+      descriptor = await this.requestHost<DebugAdapterDescriptorDTO | null>(
+        'create-debug-adapter',
+        { sessionId, folder, configuration, executable },
+        DEBUG_REQUEST_TIMEOUT,
+        `Creating the '${type}' debug adapter timed out`,
+        contributor?.extension.id
+      ).catch(error => {
+        this.debugAdapterSessions.delete(sessionId)
+        throw error
+      })
+      if (descriptor?.kind !== 'inline') {
+        this.debugAdapterSessions.delete(sessionId)
+      }
+    }
+
+    if (!descriptor && executable) {
+      descriptor = { kind: 'executable', ...executable }
+    }
+    return descriptor
+  }
+
+  sendDebugAdapterMessage(sessionId: string, message: unknown): void {
+    this.sendMessage({ type: 'debug-adapter-message', payload: { sessionId, message } })
+  }
+
+  disposeDebugAdapter(sessionId: string): void {
+    if (this.debugAdapterSessions.delete(sessionId)) {
+      this.sendMessage({ type: 'dispose-debug-adapter', payload: { sessionId } })
+    }
+  }
+
+  private findDebuggerContributor(type: string) {
+    for (const extension of Array.from(this.extensions.values())) {
+      if (extension.isDisabled) continue
+      const contributes = extension.contributes as ExtensionContribution | undefined
+      const contribution = contributes?.debuggers?.find(candidate => candidate.type === type)
+      if (contribution) return { extension, contribution }
+    }
+    return undefined
+  }
+
+  /**
+   * The adapter executable declared in package.json, with the platform section
+   * (`windows`, `osx`, `linux`) applied and paths made absolute.
+   */
+  private getDebuggerExecutable(
+    extension: ExtensionMetadata,
+    contribution: NonNullable<ExtensionContribution['debuggers']>[number]
+  ): { command: string; args: string[] } | undefined {
+    const platformKey = process.platform === 'win32' ? 'windows' : process.platform === 'darwin' ? 'osx' : 'linux'
+    const declared: DebuggerExecutable = { ...contribution, ...contribution[platformKey] }
+    if (!declared.program) return undefined
+
+    const program = path.resolve(extension.extensionPath, declared.program)
+    const relative = path.relative(extension.extensionPath, program)
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+      console.warn(`[ExtensionHost] Ignoring debug adapter outside of ${extension.id}: ${declared.program}`)
+      return undefined
+    }
+
+    if (declared.runtime) {
+      return { command: declared.runtime, args: [...(declared.runtimeArgs || []), program, ...(declared.args || [])] }
+    }
+    return { command: program, args: declared.args || [] }
+  }
+
+  /**
+   * Activate every enabled extension listening for one of `events`, plus the
+   * extension contributing `debugType`. Failures are logged; the other
+   * extensions may still provide what is needed.
+   */
+  private async activateByEvents(events: string[], debugType?: string): Promise<void> {
+    const pending = Array.from(this.extensions.values()).filter(extension =>
+      !extension.isActive && !extension.isDisabled && (
+        extension.activationEvents.some(event => events.includes(event)) ||
+        (debugType && ((extension.contributes as ExtensionContribution | undefined)?.debuggers || []).some(contribution => contribution.type === debugType))
+      ))
+    if (pending.length === 0) return
+
+    await this.start()
+    for (const extension of pending) {
+      try {
+        await this.activateExtension(extension.id)
+      } catch (error) {
+        console.error(`[ExtensionHost] Failed to activate ${extension.id} for debugging:`, error)
+      }
+    }
+  }
+
+  getLanguageProviders(): LanguageProviderRegistration[] {
+    return Array.from(this.languageProviders.values())
+  }
+
+  /**
+   * Ask an extension provider for a language feature. Resolves to `null` when the
+   * provider returns nothing, fails, is cancelled or exceeds its time budget.
+   */
+  provideLanguageFeature(request: LanguageFeatureRequest): Promise<LanguageFeatureResult | null> {
+    const registration = this.languageProviders.get(request.handle)
+    if (!registration || !this.isReady) {
+      return Promise.resolve(null)
+    }
+
+    const done = this.trackHostCall(registration.extensionId)
+    return new Promise((resolve) => {
+      const timeout = setTimeout(() => {
+        if (this.pendingLanguageRequests.delete(request.requestId)) {
+          done()
+          console.warn(`[ExtensionHost] ${registration.kind} provider from ${registration.extensionId} timed out`)
+          this.sendMessage({ type: 'cancel-language-feature', payload: { requestId: request.requestId } })
+          resolve(null)
+        }
+      }, LANGUAGE_FEATURE_TIMEOUTS[registration.kind])
+
+      this.pendingLanguageRequests.set(request.requestId, { resolve: (result) => { done(); resolve(result) }, timeout })
+      this.sendMessage({ type: 'provide-language-feature', payload: { ...request, kind: registration.kind } })
+    })
+  }
+
+  cancelLanguageFeature(requestId: string): void {
+    const pending = this.pendingLanguageRequests.get(requestId)
+    if (!pending) return
+    clearTimeout(pending.timeout)
+    this.pendingLanguageRequests.delete(requestId)
+    this.sendMessage({ type: 'cancel-language-feature', payload: { requestId } })
+    pending.resolve(null)
+  }
+
+  /**
+   * Point the workspace configuration layer at a new folder
+   * (reads `<folder>/.kalynt/settings.json`) and swap in that folder's `workspaceState`.
+   */
+  setWorkspaceFolder(folder: string | null): void {
+    this.workspaceFolder = folder
+
+    if (this.stateStore) {
+      this.stateStore.setWorkspaceFolder(folder)
+      const states: Record<string, Record<string, unknown>> = {}
+      for (const id of Array.from(this.activeExtensions.keys())) {
+        states[id] = this.stateStore.getWorkspaceValues(id)
+      }
+      this.sendMessage({ type: 'workspace-state-changed', payload: { states } })
+    }
+
+    if (!this.configurationStore) return
+    const keys = this.configurationStore.setWorkspaceFolder(folder)
+    this.broadcastConfiguration(keys)
+  }
+
+  getConfiguration(): { user: Record<string, unknown>; workspace: Record<string, unknown>; workspaceFolder: string | null } {
+    return this.getConfigurationStore().snapshot()
+  }
+
+  updateConfiguration(key: string, value: unknown, target: ConfigurationTargetName): void {
+    const keys = this.getConfigurationStore().update(key, value, target)
+    this.broadcastConfiguration(keys)
+  }
+
+  reloadConfiguration(): void {
+    const keys = this.getConfigurationStore().reload()
+    this.broadcastConfiguration(keys)
+  }
+
+  /**
+   * Execute a command by id. Commands contributed by an inactive extension
+   * activate it first, mirroring the implicit `onCommand` activation event.
+   */
+  async executeCommand(command: string, args: unknown[] = []): Promise<unknown> {
+    if (!this.registeredCommands.has(command)) {
+      const contributor = this.findCommandContributor(command)
+      if (contributor && !contributor.isActive) {
+        await this.start()
+        await this.activateExtension(contributor.id)
+      }
+      if (!this.registeredCommands.has(command)) {
+        if (contributor) {
+          throw new Error(`command '${command}' was not registered by ${contributor.id}`)
+        }
+        return this.executeMainCommand(command, args)
+      }
+    }
+
+    return this.invokeHostCommand(command, args)
+  }
+
+  /**
+   * Commands contributed through `contributes.commands`, with the keybinding
+   * for the current platform and whether a callback is currently registered.
+   */
+  getCommands(): ExtensionCommandDescriptor[] {
+    const platformKey = process.platform === 'darwin' ? 'mac' : process.platform === 'win32' ? 'win' : 'linux'
+    const descriptors: ExtensionCommandDescriptor[] = []
+
+    for (const extension of Array.from(this.extensions.values())) {
+      const contributes = extension.contributes as ExtensionContribution | undefined
+      if (!contributes?.commands) continue
+
+      for (const cmd of contributes.commands) {
+        const binding = contributes.keybindings?.find(kb => kb.command === cmd.command)
+        descriptors.push({
+          command: cmd.command,
+          title: cmd.title,
+          category: cmd.category,
+          extensionId: extension.id,
+          keybinding: binding ? (binding[platformKey] || binding.key) : undefined,
+          when: binding?.when,
+          registered: this.registeredCommands.has(cmd.command)
+        })
+      }
+    }
+
+    return descriptors
+  }
+
+  /**
+   * View containers contributed to the activity bar and the tree views inside them.
+   * Webview views are not supported and are left out.
+   */
+  getViews(): ViewContainerDTO[] {
+    const containers: Map<string, ViewContainerDTO> = new Map()
+
+    for (const extension of Array.from(this.extensions.values())) {
+      const contributes = extension.contributes as ExtensionContribution | undefined
+      for (const container of contributes?.viewsContainers?.activitybar || []) {
+        containers.set(container.id, {
+          id: container.id,
+          title: container.title,
+          icon: this.loadViewIcon(extension, container.icon),
+          extensionId: extension.id,
+          views: []
+        })
+      }
+    }
+
+    for (const extension of Array.from(this.extensions.values())) {
+      const contributes = extension.contributes as ExtensionContribution | undefined
+      for (const [containerId, views] of Object.entries(contributes?.views || {})) {
+        for (const view of views) {
+          if (view.type === 'webview') continue
+
+          let container = containers.get(containerId)
+          if (!container) {
+            container = containers.get(EXTENSION_VIEWS_CONTAINER) || {
+              id: EXTENSION_VIEWS_CONTAINER,
+              title: 'Extension Views',
+              extensionId: extension.id,
+              views: []
+            }
+            containers.set(EXTENSION_VIEWS_CONTAINER, container)
+          }
+
+          const registered = this.treeViews.get(view.id)
+          const dto: TreeViewDTO = {
+            id: view.id,
+            name: view.name,
+            extensionId: extension.id,
+            registered: !!registered,
+            title: registered?.title,
+            description: registered?.description,
+            message: registered?.message,
+            showCollapseAll: registered?.showCollapseAll
+          }
+          container.views.push(dto)
+        }
+      }
+    }
+
+    return Array.from(containers.values()).filter(container => container.views.length > 0)
+  }
+
+  /**
+   * Fetch the children of a tree item (or the roots when no parent is given),
+   * activating the contributing extension on first use.
+   */
+  async getTreeChildren(viewId: string, parentHandle?: string): Promise<TreeItemDTO[]> {
+    if (!this.treeViews.has(viewId)) {
+      const contributor = this.findViewContributor(viewId)
+      if (!contributor || contributor.isActive) return []
+      await this.start()
+      await this.activateExtension(contributor.id)
+      if (!this.treeViews.has(viewId)) return []
+    }
+
+    const requestId = ++this.messageId
+    const done = this.trackHostCall(this.treeViews.get(viewId)?.extensionId)
+    return new Promise((resolve) => {
+      const timeout = setTimeout(() => {
+        if (this.pendingMessages.delete(requestId)) {
+          done()
+          console.warn(`[ExtensionHost] Tree view ${viewId} did not answer in time`)
+          resolve([])
+        }
+      }, TREE_CHILDREN_TIMEOUT)
+
+      this.pendingMessages.set(requestId, {
+        resolve: (items) => { clearTimeout(timeout); done(); resolve(items as TreeItemDTO[]) },
+        reject: () => { clearTimeout(timeout); done(); resolve([]) }
+      })
+      this.sendMessage({ type: 'get-tree-children', payload: { requestId, viewId, parentHandle } })
+    })
+  }
+
+  activateTreeItem(viewId: string, handle: string): void {
+    this.sendMessage({ type: 'activate-tree-item', payload: { viewId, handle } })
+  }
+
+  sendTreeViewEvent(event: TreeViewEventDTO): void {
+    if (this.treeViews.has(event.viewId)) {
+      this.sendMessage({ type: 'tree-view-event', payload: event })
+    }
+  }
+
+  getWebviewPanels(): WebviewPanelDTO[] {
+    return Array.from(this.webviewPanels.values())
+  }
+
+  postMessageToWebviewHost(handle: string, message: unknown): void {
+    if (this.webviewPanels.has(handle)) {
+      this.sendMessage({ type: 'webview-message', payload: { handle, message } })
+    }
+  }
+
+  setWebviewViewState(handle: string, active: boolean, visible: boolean): void {
+    if (this.webviewPanels.has(handle)) {
+      this.sendMessage({ type: 'webview-view-state', payload: { handle, active, visible } })
+    }
+  }
+
+  closeWebviewPanel(handle: string): void {
+    if (this.webviewPanels.delete(handle)) {
+      this.sendMessage({ type: 'webview-closed', payload: { handle } })
+      this.notifyRenderer('webview-panel-disposed', { handle })
+    }
+  }
+
   getContributions(): ExtensionContribution {
     const contributions: ExtensionContribution = {
       commands: [],
@@ -759,6 +2071,10 @@ class ExtensionHostManager {
       await this.uninstallExtension(id)
     })
 
+    ipcMain.handle('extensions:check-engine', async (_, engineRange: string) => {
+      return isEngineCompatible(engineRange)
+    })
+
     ipcMain.handle('extensions:list', async () => {
       return this.getExtensions()
     })
@@ -782,6 +2098,92 @@ class ExtensionHostManager {
     ipcMain.handle('extensions:download', async (_, url: string, targetPath: string) => {
       await this.downloadFromUrl(url, targetPath)
     })
+
+    ipcMain.handle('extensions:commands', async () => {
+      return this.getCommands()
+    })
+
+    ipcMain.handle('extensions:execute-command', async (_, command: string, args: unknown[] = []) => {
+      return this.executeCommand(command, args)
+    })
+
+    ipcMain.handle('extensions:views', async () => {
+      return this.getViews()
+    })
+
+    ipcMain.handle('extensions:tree-children', async (_, viewId: string, parentHandle?: string) => {
+      return this.getTreeChildren(viewId, parentHandle)
+    })
+
+    ipcMain.handle('extensions:tree-item-activate', async (_, viewId: string, handle: string) => {
+      this.activateTreeItem(viewId, handle)
+    })
+
+    ipcMain.handle('extensions:tree-view-event', async (_, event: TreeViewEventDTO) => {
+      this.sendTreeViewEvent(event)
+    })
+
+    ipcMain.handle('extensions:webview-panels', async () => {
+      return this.getWebviewPanels()
+    })
+
+    ipcMain.handle('extensions:webview-message', async (_, handle: string, message: unknown) => {
+      this.postMessageToWebviewHost(handle, message)
+    })
+
+    ipcMain.handle('extensions:webview-view-state', async (_, handle: string, active: boolean, visible: boolean) => {
+      this.setWebviewViewState(handle, active, visible)
+    })
+
+    ipcMain.handle('extensions:webview-close', async (_, handle: string) => {
+      this.closeWebviewPanel(handle)
+    })
+
+    ipcMain.handle('extensions:get-configuration', async () => {
+      return this.getConfiguration()
+    })
+
+    ipcMain.handle('extensions:update-configuration', async (_, key: string, value: unknown, target: ConfigurationTargetName = 'user') => {
+      if (typeof key !== 'string' || !key) {
+        throw new Error('Configuration key must be a non-empty string')
+      }
+      if (target !== 'user' && target !== 'workspace') {
+        throw new Error(`Invalid configuration target: ${target}`)
+      }
+      this.updateConfiguration(key, value, target)
+    })
+
+    ipcMain.handle('extensions:reload-configuration', async () => {
+      this.reloadConfiguration()
+    })
+
+    ipcMain.handle('extensions:language-providers', async () => {
+      return this.getLanguageProviders()
+    })
+
+    ipcMain.handle('extensions:provide-language-feature', async (_, request: LanguageFeatureRequest) => {
+      return this.provideLanguageFeature(request)
+    })
+
+    ipcMain.handle('extensions:cancel-language-feature', async (_, requestId: string) => {
+      this.cancelLanguageFeature(requestId)
+    })
+
+    ipcMain.handle('extensions:debuggers', async () => {
+      return this.getDebuggers()
+    })
+
+    ipcMain.handle('extensions:host-stats', async () => {
+      return this.getHostStats()
+    })
+
+    ipcMain.handle('extensions:set-enabled', async (_, id: string, enabled: boolean) => {
+      return this.setExtensionEnabled(id, enabled)
+    })
+
+    ipcMain.handle('extensions:restart-host', async () => {
+      return this.restartHost()
+    })
   }
 }
 
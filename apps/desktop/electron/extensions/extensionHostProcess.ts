@@ -7,6 +7,84 @@
 import * as path from 'path'
 import * as fs from 'fs'
 import Module from 'module'
+import {
+  ConfigurationModel,
+  ConfigurationTarget,
+  ConfigurationSnapshot,
+  collectConfigurationDefaults,
+  keyAffectsSection
+} from './extensionConfiguration'
+import {
+  CodeActionProvider,
+  CompletionItemProvider,
+  DefinitionProvider,
+  DocumentFormattingEditProvider,
+  DocumentSelector,
+  HoverProvider,
+  LanguageFeatureRegistry,
+  LanguageProvider,
+  ReferenceProvider
+} from './languageFeatures'
+import { VSCODE_API_VERSION } from './extensionManifest'
+import { ExtensionProfiler } from './extensionProfiler'
+import {
+  CancellationTokenSource,
+  CodeAction,
+  CodeActionKind,
+  CompletionItem,
+  CompletionItemKind,
+  CompletionList,
+  DebugAdapterExecutable,
+  DebugAdapterInlineImplementation,
+  DebugAdapterNamedPipeServer,
+  DebugAdapterServer,
+  DebugConfigurationProviderTriggerKind,
+  Diagnostic,
+  DiagnosticSeverity,
+  Disposable,
+  EventEmitter,
+  Hover,
+  Location,
+  MarkdownString,
+  ParameterInformation,
+  Position,
+  Range,
+  Selection,
+  SignatureInformation,
+  SnippetString,
+  SymbolInformation,
+  TextEdit,
+  ThemeColor,
+  ThemeIcon,
+  TreeItem,
+  TreeItemCollapsibleState,
+  Uri,
+  ViewColumn,
+  WorkspaceEdit
+} from './vscodeTypes'
+import { ExtensionCommandRegistry } from './extensionCommands'
+import {
+  CreateDebugAdapterRequest,
+  DebugAdapterDescriptorFactory,
+  DebugConfigurationProvider,
+  ExtensionDebugRegistry
+} from './extensionDebug'
+import { ExtensionViewRegistry, TreeDataProvider, TreeViewOptions } from './extensionViews'
+import {
+  ExtensionSecretStorage,
+  ExtensionStateSnapshot,
+  GlobalMemento,
+  Memento,
+  MementoScope,
+  SecretStorageOperation
+} from './extensionStorage'
+import type {
+  CommandInvocation,
+  DebugConfigurationRequest,
+  LanguageFeatureKind,
+  LanguageFeatureRequest,
+  TreeViewEventDTO
+} from '../../src/types/extensionHost'
 
 // Message types for communication with main process
 interface HostMessage {
@@ -28,6 +106,9 @@ interface ExtensionContext {
   storagePath: string
   globalStoragePath: string
   logPath: string
+  workspaceState: Memento
+  globalState: GlobalMemento
+  secrets: ExtensionSecretStorage
 }
 
 class ExtensionHost {
@@ -41,14 +122,66 @@ class ExtensionHost {
   private extensionPaths: Map<string, string> = new Map()
   private apiFactory: Map<string, unknown> = new Map()
   private nextMessageId = 1
-  private pendingResponses: Map<number, { resolve: (value: unknown) => void }> = new Map()
+  private pendingResponses: Map<number, { resolve: (value: unknown) => void; reject?: (error: Error) => void }> = new Map()
+  private configuration = new ConfigurationModel()
+  private configurationListeners: Set<(e: { affectsConfiguration(section: string): boolean }) => void> = new Set()
+  private profiler = new ExtensionProfiler()
+  private languageFeatures = new LanguageFeatureRegistry(
+    message => this.sendMessage(message),
+    (extensionId, fn) => this.profiler.measure(extensionId, fn)
+  )
+  private commands = new ExtensionCommandRegistry(
+    message => this.sendMessage(message),
+    (extensionId, fn) => this.profiler.measure(extensionId, fn)
+  )
+  private views = new ExtensionViewRegistry(
+    message => this.sendMessage(message),
+    (command, args) => this.executeCommand(command, args),
+    (extensionId, fn) => this.profiler.measure(extensionId, fn)
+  )
+  private debug = new ExtensionDebugRegistry(
+    message => this.sendMessage(message),
+    (extensionId, fn) => this.profiler.measure(extensionId, fn)
+  )
 
   constructor() {
     this.hookModuleLoader()
     this.redirectConsole()
+    this.isolateUncaughtErrors()
     this.setupMessageHandlers()
   }
 
+  /**
+   * An error thrown from an extension's own timer or promise must not take the
+   * host (and every other extension) down. The stack tells us whose it was.
+   */
+  private isolateUncaughtErrors(): void {
+    const report = (kind: string, error: unknown) => {
+      const stack = error instanceof Error ? error.stack || error.message : String(error)
+      const extensionId = this.findExtensionIdInStack(stack)
+      if (extensionId) {
+        this.profiler.recordError(extensionId)
+      }
+      this.sendMessage({
+        type: 'extension-error',
+        payload: { extensionId, kind, message: error instanceof Error ? error.message : String(error) }
+      })
+      console.error(`[ExtensionHost] ${kind}${extensionId ? ` in ${extensionId}` : ''}:`, stack)
+    }
+
+    process.on('uncaughtException', error => report('Uncaught exception', error))
+    process.on('unhandledRejection', reason => report('Unhandled rejection', reason))
+  }
+
+  private findExtensionIdInStack(stack: string): string | undefined {
+    for (const line of stack.split('\n')) {
+      const match = /(?:\(|at )((?:[a-zA-Z]:)?[\\/][^():]*?\.[cm]?js)/.exec(line)
+      const extensionId = match ? this.findExtensionIdByPath(match[1]) : undefined
+      if (extensionId) return extensionId
+    }
+    return undefined
+  }
+
   private redirectConsole(): void {
     const originalLog = console.log
     const originalWarn = console.warn
@@ -93,6 +226,49 @@ class ExtensionHost {
     }
   }
 
+  // Extension ids are case-insensitive in manifests
+  private findExtensionId(id: string, extensions: Map<string, unknown>): string | undefined {
+    if (extensions.has(id)) return id
+    const target = id.toLowerCase()
+    return Array.from(extensions.keys()).find(key => key.toLowerCase() === target)
+  }
+
+  /**
+   * `vscode.Extension` view of a loaded extension, for `vscode.extensions`.
+   */
+  private describeExtension(id: string): unknown {
+    const extensionId = this.findExtensionId(id, this.extensionPaths)
+    if (!extensionId) return undefined
+    const extensionPath = this.extensionPaths.get(extensionId) as string
+    const active = this.extensions.get(extensionId)
+
+    let packageJSON: unknown = active?.manifest
+    if (!packageJSON) {
+      try {
+        packageJSON = JSON.parse(fs.readFileSync(path.join(extensionPath, 'package.json'), 'utf-8'))
+      } catch {
+        packageJSON = {}
+      }
+    }
+
+    return {
+      id: extensionId,
+      extensionPath,
+      extensionUri: Uri.file(extensionPath),
+      packageJSON,
+      isActive: !!active,
+      exports: active?.exports,
+      activate: async () => {
+        const current = this.extensions.get(extensionId)
+        if (!current) {
+          // Activation is driven by the main process; dependents get their dependencies activated first
+          throw new Error(`Extension '${extensionId}' is not active. Declare it in "extensionDependencies" to have it activated first.`)
+        }
+        return current.exports
+      }
+    }
+  }
+
   private findExtensionIdByPath(filePath: string): string | undefined {
     const normalizedPath = filePath.replace(/\\/g, '/')
     for (const [id, rootPath] of this.extensionPaths) {
@@ -112,7 +288,7 @@ class ExtensionHost {
             await this.handleLoadExtension(message.payload as { id: string; path: string })
             break
           case 'activate-extension':
-            await this.handleActivateExtension(message.payload as { id: string })
+            await this.handleActivateExtension(message.payload as { id: string; state?: ExtensionStateSnapshot })
             break
           
           case 'deactivate-extension':
@@ -122,7 +298,62 @@ class ExtensionHost {
             await this.handleInvokeAPI(message.payload as { extensionId: string; api: string; args: unknown[] })
             break
           case 'command-result':
-            this.handleCommandResult(message.payload as { messageId: number; result: unknown })
+          case 'storage-result':
+            this.handleCommandResult(message.payload as { messageId: number; result?: unknown; error?: string })
+            break
+          case 'invoke-command':
+            await this.commands.invoke(message.payload as CommandInvocation)
+            break
+          case 'get-tree-children':
+            await this.views.provideTreeChildren(message.payload as { requestId: number; viewId: string; parentHandle?: string })
+            break
+          case 'activate-tree-item':
+            await this.views.activateTreeItem(message.payload as { viewId: string; handle: string })
+            break
+          case 'tree-view-event':
+            this.views.handleTreeViewEvent(message.payload as TreeViewEventDTO)
+            break
+          case 'webview-message':
+            this.views.handleWebviewMessage(message.payload as { handle: string; message: unknown })
+            break
+          case 'webview-view-state':
+            this.views.handleWebviewViewState(message.payload as { handle: string; active: boolean; visible: boolean })
+            break
+          case 'webview-closed':
+            this.views.handleWebviewClosed(message.payload as { handle: string })
+            break
+          case 'configuration-changed':
+            this.handleConfigurationChanged(message.payload as { snapshot: ConfigurationSnapshot; keys?: string[] })
+            break
+          case 'provide-language-feature':
+            await this.languageFeatures.provide(message.payload as LanguageFeatureRequest)
+            break
+          case 'cancel-language-feature':
+            this.languageFeatures.cancel((message.payload as { requestId: string }).requestId)
+            break
+          case 'workspace-state-changed':
+            this.handleWorkspaceStateChanged(message.payload as { states: Record<string, Record<string, unknown>> })
+            break
+          case 'configuration-update-result':
+            this.handleConfigurationUpdateResult(message.payload as { messageId: number; error?: string })
+            break
+          case 'debug-configuration-request':
+            await this.debug.handleConfigurationRequest(message.payload as DebugConfigurationRequest)
+            break
+          case 'create-debug-adapter':
+            await this.debug.createAdapter(message.payload as CreateDebugAdapterRequest)
+            break
+          case 'debug-adapter-message':
+            this.debug.handleAdapterMessage(message.payload as { sessionId: string; message: unknown })
+            break
+          case 'dispose-debug-adapter':
+            this.debug.disposeAdapter((message.payload as { sessionId: string }).sessionId)
+            break
+          case 'heartbeat':
+            this.sendMessage({
+              type: 'heartbeat',
+              payload: { seq: (message.payload as { seq: number }).seq, usage: this.profiler.snapshot() }
+            })
             break
           case 'dispose':
             await this.dispose()
@@ -164,6 +395,12 @@ class ExtensionHost {
       // Store extension path
       this.extensionPaths.set(id, extensionPath)
 
+      // Register contributed configuration defaults
+      const addedKeys = this.configuration.addDefaults(collectConfigurationDefaults(manifest))
+      if (addedKeys.length > 0) {
+        this.fireConfigurationChange(addedKeys)
+      }
+
       this.sendMessage({
         type: 'extension-loaded',
         payload: { id, manifest }
@@ -173,8 +410,8 @@ class ExtensionHost {
     }
   }
 
-  private async handleActivateExtension(payload: { id: string }): Promise<void> {
-    const { id } = payload
+  private async handleActivateExtension(payload: { id: string; state?: ExtensionStateSnapshot }): Promise<void> {
+    const { id, state } = payload
     const extensionPath = this.extensionPaths.get(id)
 
     if (!extensionPath) {
@@ -195,20 +432,20 @@ class ExtensionHost {
       // Read manifest to find main entry point
       const packageJsonPath = path.join(extensionPath, 'package.json')
       const manifest = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'))
+
+      // The main process activates dependencies first; never run against one that is missing
+      const inactive = ((manifest.extensionDependencies || []) as string[])
+        .filter(dependency => !this.findExtensionId(dependency, this.extensions))
+      if (inactive.length > 0) {
+        throw new Error(`dependencies are not active: ${inactive.join(', ')}`)
+      }
       
       // Handle extensions without a main file (e.g. themes, snippets)
       if (!manifest.main) {
         // Store extension with dummy module
         this.extensions.set(id, {
           module: {},
-          context: {
-            subscriptions: [],
-            extensionPath,
-            asAbsolutePath: (relativePath: string) => path.join(extensionPath, relativePath),
-            storagePath: path.join(extensionPath, '.kalynt', 'workspace-storage'),
-            globalStoragePath: path.join(extensionPath, '.kalynt', 'global-storage'),
-            logPath: path.join(extensionPath, '.kalynt', 'logs')
-          },
+          context: this.createExtensionContext(id, extensionPath, state),
           manifest,
           exports: undefined
         })
@@ -232,14 +469,7 @@ class ExtensionHost {
       }
 
       // Create extension context
-      const context: ExtensionContext = {
-        subscriptions: [],
-        extensionPath,
-        asAbsolutePath: (relativePath: string) => path.join(extensionPath, relativePath),
-        storagePath: path.join(extensionPath, '.kalynt', 'workspace-storage'),
-        globalStoragePath: path.join(extensionPath, '.kalynt', 'global-storage'),
-        logPath: path.join(extensionPath, '.kalynt', 'logs')
-      }
+      const context = this.createExtensionContext(id, extensionPath, state)
 
       // Create a minimal vscode API
       const vscode = this.createVSCodeAPI(id, context)
@@ -257,7 +487,8 @@ class ExtensionHost {
       // Call activate if it exists
       let exports: unknown
       if (typeof extensionModule.activate === 'function') {
-        exports = await Promise.resolve(extensionModule.activate(context))
+        const activate = extensionModule.activate
+        exports = await this.profiler.measureActivation(id, () => activate.call(extensionModule, context))
       }
 
       // Store extension
@@ -302,6 +533,11 @@ class ExtensionHost {
         }
       }
 
+      // Views outlive subscriptions when the extension never registered their disposables
+      this.views.disposeExtension(id)
+      this.debug.disposeExtension(id)
+      extension.context.secrets.dispose()
+
       // Remove extension
       this.extensions.delete(id)
       this.apiFactory.delete(id) // Cleanup API
@@ -331,160 +567,170 @@ class ExtensionHost {
     })
   }
 
-  private handleCommandResult(payload: { messageId: number; result: unknown }): void {
+  private handleCommandResult(payload: { messageId: number; result?: unknown; error?: string }): void {
     const pending = this.pendingResponses.get(payload.messageId)
     if (pending) {
       this.pendingResponses.delete(payload.messageId)
-      pending.resolve(payload.result)
+      if (payload.error) {
+        pending.reject?.(new Error(payload.error))
+      } else {
+        pending.resolve(payload.result)
+      }
     }
   }
 
-  private createVSCodeAPI(extensionId: string, context: ExtensionContext): unknown {
-    // Create a minimal vscode API compatible with VS Code extensions
-    // This is a simplified version - full implementation would be much larger
-    
-    // Helper classes
-    class Position {
-      constructor(public line: number, public character: number) {}
-      isBefore(other: Position) { return this.line < other.line || (this.line === other.line && this.character < other.character) }
-      isBeforeOrEqual(other: Position) { return this.line < other.line || (this.line === other.line && this.character <= other.character) }
-      isAfter(other: Position) { return !this.isBeforeOrEqual(other) }
-      isAfterOrEqual(other: Position) { return !this.isBefore(other) }
-      isEqual(other: Position) { return this.line === other.line && this.character === other.character }
-      compareTo(other: Position) { return this.isBefore(other) ? -1 : (this.isAfter(other) ? 1 : 0) }
-      translate(lineDelta: number = 0, characterDelta: number = 0) { return new Position(this.line + lineDelta, this.character + characterDelta) }
-      with(change: { line?: number, character?: number }) { return new Position(change.line ?? this.line, change.character ?? this.character) }
+  private createExtensionContext(extensionId: string, extensionPath: string, state?: ExtensionStateSnapshot): ExtensionContext {
+    const persist = (scope: MementoScope) => (key: string, value: unknown) =>
+      this.requestMain<void>('update-memento', { extensionId, scope, key, value }, `State update timeout: ${key}`)
+
+    return {
+      subscriptions: [],
+      extensionPath,
+      asAbsolutePath: (relativePath: string) => path.join(extensionPath, relativePath),
+      storagePath: path.join(extensionPath, '.kalynt', 'workspace-storage'),
+      globalStoragePath: path.join(extensionPath, '.kalynt', 'global-storage'),
+      logPath: path.join(extensionPath, '.kalynt', 'logs'),
+      workspaceState: new Memento(state?.workspace || {}, persist('workspace')),
+      globalState: new GlobalMemento(
+        state?.global || {},
+        persist('global'),
+        (keys) => this.sendMessage({ type: 'set-keys-for-sync', payload: { extensionId, keys } })
+      ),
+      secrets: new ExtensionSecretStorage((operation: SecretStorageOperation, key: string, value?: string) =>
+        this.requestMain<string | undefined>('secret-storage', { extensionId, operation, key, value }, `Secret storage timeout: ${key}`)
+      )
     }
+  }
 
-    class Range {
-      start: Position
-      end: Position
-      constructor(startLine: number | Position, startChar: number | Position, endLine?: number, endChar?: number) {
-        if (startLine instanceof Position && startChar instanceof Position) {
-          this.start = startLine
-          this.end = startChar
-        } else if (typeof startLine === 'number' && typeof startChar === 'number' && typeof endLine === 'number' && typeof endChar === 'number') {
-          this.start = new Position(startLine, startChar)
-          this.end = new Position(endLine, endChar)
-        } else {
-            throw new Error('Invalid arguments for Range constructor')
+  /**
+   * Send a request the main process answers with `storage-result`.
+   */
+  private requestMain<T>(type: string, payload: Record<string, unknown>, timeoutMessage: string): Promise<T> {
+    const messageId = this.nextMessageId++
+    return new Promise<T>((resolve, reject) => {
+      this.pendingResponses.set(messageId, { resolve: (value) => resolve(value as T), reject })
+      this.sendMessage({ type, payload: { ...payload, messageId } })
+      setTimeout(() => {
+        if (this.pendingResponses.has(messageId)) {
+          this.pendingResponses.delete(messageId)
+          reject(new Error(timeoutMessage))
         }
-      }
-      isEmpty() { return this.start.isEqual(this.end) }
-      isSingleLine() { return this.start.line === this.end.line }
-      contains(positionOrRange: Position | Range) {
-          if (positionOrRange instanceof Position) {
-              return positionOrRange.isAfterOrEqual(this.start) && positionOrRange.isBeforeOrEqual(this.end)
-          }
-          return positionOrRange.start.isAfterOrEqual(this.start) && positionOrRange.end.isBeforeOrEqual(this.end)
-      }
+      }, 10000)
+    })
+  }
+
+  private handleWorkspaceStateChanged(payload: { states: Record<string, Record<string, unknown>> }): void {
+    for (const [extensionId, values] of Object.entries(payload.states)) {
+      this.extensions.get(extensionId)?.context.workspaceState.replaceValues(values)
     }
+  }
 
-    class Selection extends Range {
-        anchor: Position;
-        active: Position;
-        isReversed: boolean;
-        constructor(anchor: Position, active: Position) {
-            super(anchor, active);
-            this.anchor = anchor;
-            this.active = active;
-            this.isReversed = anchor.isAfter(active);
-        }
+  private handleConfigurationChanged(payload: { snapshot: ConfigurationSnapshot; keys?: string[] }): void {
+    const changed = this.configuration.applySnapshot(payload.snapshot)
+    const keys = Array.from(new Set([...changed, ...(payload.keys || [])]))
+    if (keys.length > 0) {
+      this.fireConfigurationChange(keys)
     }
+  }
 
-    class Disposable {
-        constructor(private callOnDispose: () => void) {}
-        dispose() { this.callOnDispose() }
-        static from(...disposables: { dispose: () => any }[]) {
-            return new Disposable(() => {
-                for (const d of disposables) d.dispose();
-            });
-        }
+  private handleConfigurationUpdateResult(payload: { messageId: number; error?: string }): void {
+    const pending = this.pendingResponses.get(payload.messageId)
+    if (!pending) return
+    this.pendingResponses.delete(payload.messageId)
+    if (payload.error) {
+      pending.reject?.(new Error(payload.error))
+    } else {
+      pending.resolve(undefined)
     }
+  }
 
-    class EventEmitter<T> {
-        private listeners: Array<(e: T) => void> = []
-        
-        get event() {
-          return (listener: (e: T) => void) => {
-            this.listeners.push(listener)
-            return {
-              dispose: () => {
-                const index = this.listeners.indexOf(listener)
-                if (index > -1) this.listeners.splice(index, 1)
-              }
-            }
-          }
-        }
-        
-        fire(data: T): void {
-          this.listeners.forEach(listener => listener(data))
-        }
-        
-        dispose(): void {
-          this.listeners = []
-        }
+  private executeCommand(command: string, args: unknown[]): Promise<unknown> {
+    // Commands owned by an extension in this host run in-process
+    if (this.commands.has(command)) {
+      return this.commands.execute(command, args)
     }
 
-    class Uri {
-        constructor(
-            public readonly scheme: string,
-            public readonly authority: string,
-            public readonly path: string,
-            public readonly query: string,
-            public readonly fragment: string
-        ) {}
-        get fsPath() { return this.scheme === 'file' ? (process.platform === 'win32' ? this.path.substring(1) : this.path) : this.path }
-        toString() { return `${this.scheme}://${this.authority}${this.path}${this.query ? '?' + this.query : ''}${this.fragment ? '#' + this.fragment : ''}` }
-        with(change: any) {
-            return new Uri(
-                change.scheme ?? this.scheme,
-                change.authority ?? this.authority,
-                change.path ?? this.path,
-                change.query ?? this.query,
-                change.fragment ?? this.fragment
-            )
-        }
-        static file(path: string) {
-            const normalized = path.replace(/\\/g, '/')
-            return new Uri('file', '', normalized.startsWith('/') ? normalized : `/${normalized}`, '', '')
+    const messageId = this.nextMessageId++
+    return new Promise((resolve, reject) => {
+      this.pendingResponses.set(messageId, { resolve, reject })
+      this.sendMessage({
+        type: 'execute-command',
+        payload: { messageId, command, args }
+      })
+      setTimeout(() => {
+        if (this.pendingResponses.has(messageId)) {
+          this.pendingResponses.delete(messageId)
+          // HIGH-001 FIX: Properly reject the promise on timeout instead of resolving with undefined
+          reject(new Error(`Command execution timeout: ${command}`))
         }
-        static parse(uri: string) {
-            try {
-                const url = new URL(uri)
-                return new Uri(url.protocol.replace(':', ''), url.host, url.pathname, url.search, url.hash)
-            } catch {
-                return new Uri('file', '', uri, '', '')
+      }, 10000)
+    })
+  }
+
+  private fireConfigurationChange(keys: string[]): void {
+    const event = {
+      affectsConfiguration: (section: string) => keys.some(key => keyAffectsSection(key, section))
+    }
+    for (const listener of Array.from(this.configurationListeners)) {
+      try {
+        listener(event)
+      } catch (error) {
+        console.error('[ExtensionHost] Configuration listener failed:', error)
+      }
+    }
+  }
+
+  private createWorkspaceConfiguration(section?: string): unknown {
+    const fullKey = (key: string) => section ? (key ? `${section}.${key}` : section) : key
+    const sectionValue = section ? this.configuration.get(section) : undefined
+
+    return {
+      // vscode exposes the section's values as readonly properties as well
+      ...(typeof sectionValue === 'object' && sectionValue !== null && !Array.isArray(sectionValue) ? sectionValue : {}),
+      get: (key: string, defaultValue?: unknown) => {
+        const value = this.configuration.get(fullKey(key))
+        return value === undefined ? defaultValue : value
+      },
+      has: (key: string) => this.configuration.has(fullKey(key)),
+      inspect: (key: string) => this.configuration.inspect(fullKey(key)),
+      update: (key: string, value: unknown, target?: ConfigurationTarget | boolean | null) => {
+        const messageId = this.nextMessageId++
+        return new Promise<void>((resolve, reject) => {
+          this.pendingResponses.set(messageId, { resolve: () => resolve(), reject })
+          this.sendMessage({
+            type: 'update-configuration',
+            payload: {
+              messageId,
+              key: fullKey(key),
+              value,
+              target: this.configuration.resolveTarget(target)
             }
-        }
-        static joinPath(uri: Uri, ...pathSegments: string[]) {
-            return uri.with({ path: path.join(uri.path, ...pathSegments).replace(/\\/g, '/') })
-        }
-        static from(components: any) {
-            return new Uri(components.scheme, components.authority, components.path, components.query, components.fragment)
-        }
-        static revive(data: any) { return data instanceof Uri ? data : new Uri(data.scheme, data.authority, data.path, data.query, data.fragment) }
+          })
+          setTimeout(() => {
+            if (this.pendingResponses.has(messageId)) {
+              this.pendingResponses.delete(messageId)
+              reject(new Error(`Configuration update timeout: ${fullKey(key)}`))
+            }
+          }, 10000)
+        })
+      }
+    }
+  }
+
+  private createVSCodeAPI(extensionId: string, context: ExtensionContext): unknown {
+    // Create a minimal vscode API compatible with VS Code extensions
+    // This is a simplified version - full implementation would be much larger
+
+    const registerLanguageProvider = (kind: LanguageFeatureKind, selector: DocumentSelector, provider: LanguageProvider, triggerCharacters?: string[]) => {
+      const disposable = this.languageFeatures.register(extensionId, kind, selector, provider, triggerCharacters)
+      context.subscriptions.push(disposable)
+      return disposable
     }
 
-    // Stubs for other classes
-    class CancellationTokenSource { token = { onCancellationRequested: () => ({ dispose: () => {} }) } }
-    class CodeAction {}
-    class CompletionItem {}
-    class Diagnostic {}
-    class Hover {}
-    class Location {}
-    class MarkdownString {}
-    class ParameterInformation {}
-    class SignatureInformation {}
-    class SnippetString {}
-    class SymbolInformation {}
-    class TextEdit {}
-    class ThemeColor {}
-    class TreeItem {}
-    class WorkspaceEdit {}
+    const describeAllExtensions = () => Array.from(this.extensionPaths.keys()).map(id => this.describeExtension(id))
 
     return {
-      version: '1.85.0',
+      version: VSCODE_API_VERSION,
       
       // Extension context
       extension: {
@@ -502,8 +748,12 @@ class ExtensionHost {
       Uri,
       CancellationTokenSource,
       CodeAction,
+      CodeActionKind,
       CompletionItem,
+      CompletionItemKind,
+      CompletionList,
       Diagnostic,
+      DiagnosticSeverity,
       Hover,
       Location,
       MarkdownString,
@@ -514,45 +764,33 @@ class ExtensionHost {
       TextEdit,
       ThemeColor,
       TreeItem,
+      TreeItemCollapsibleState,
+      ThemeIcon,
+      ViewColumn,
+      DebugAdapterExecutable,
+      DebugAdapterServer,
+      DebugAdapterNamedPipeServer,
+      DebugAdapterInlineImplementation,
+      DebugConfigurationProviderTriggerKind,
       WorkspaceEdit,
+      ConfigurationTarget,
       
       // Commands
       commands: {
-        registerCommand: (command: string, _callback: (...args: unknown[]) => unknown) => {
-          this.sendMessage({
-            type: 'register-command',
-            payload: { extensionId, command }
-          })
-          
-          const disposable = {
-            dispose: () => {
-              this.sendMessage({
-                type: 'unregister-command',
-                payload: { extensionId, command }
-              })
-            }
-          }
-          
+        registerCommand: (command: string, callback: (...args: unknown[]) => unknown, thisArg?: unknown) => {
+          const disposable = this.commands.register(extensionId, command, callback, thisArg)
           context.subscriptions.push(disposable)
           return disposable
         },
-        executeCommand: (command: string, ...args: unknown[]) => {
-          const messageId = this.nextMessageId++
-          return new Promise((resolve, reject) => {
-            this.pendingResponses.set(messageId, { resolve })
-            this.sendMessage({
-              type: 'execute-command',
-              payload: { command, args },
-              messageId
-            })
-            setTimeout(() => {
-              if (this.pendingResponses.has(messageId)) {
-                this.pendingResponses.delete(messageId)
-                // HIGH-001 FIX: Properly reject the promise on timeout instead of resolving with undefined
-                reject(new Error(`Command execution timeout: ${command}`))
-              }
-            }, 10000)
-          })
+        executeCommand: (command: string, ...args: unknown[]) => this.executeCommand(command, args),
+        getCommands: async (filterInternal?: boolean) => this.commands.getCommands(filterInternal)
+      },
+
+      // Extensions
+      extensions: {
+        getExtension: (id: string) => this.describeExtension(id),
+        get all() {
+          return describeAllExtensions()
         }
       },
 
@@ -575,33 +813,62 @@ class ExtensionHost {
             type: 'show-message',
             payload: { type: 'error', message, extensionId }
           })
-        }
+        },
+        createTreeView: <T>(viewId: string, options: TreeViewOptions<T>) =>
+          this.views.createTreeView(extensionId, viewId, options),
+        registerTreeDataProvider: <T>(viewId: string, treeDataProvider: TreeDataProvider<T>) => {
+          const treeView = this.views.createTreeView(extensionId, viewId, { treeDataProvider })
+          return { dispose: () => treeView.dispose() }
+        },
+        createWebviewPanel: (viewType: string, title: string, showOptions?: any, options?: any) =>
+          this.views.createWebviewPanel(extensionId, viewType, title, showOptions, options)
       },
 
       // Workspace
       workspace: {
-        getConfiguration: (_section?: string) => ({
-          get: (key: string, defaultValue?: unknown) => defaultValue,
-          update: async () => {}
-        }),
-        onDidChangeConfiguration: {
-          event: () => ({ dispose: () => {} })
+        getConfiguration: (section?: string) => this.createWorkspaceConfiguration(section),
+        onDidChangeConfiguration: (listener: (e: { affectsConfiguration(section: string): boolean }) => void, thisArgs?: unknown) => {
+          const bound = thisArgs ? listener.bind(thisArgs) : listener
+          this.configurationListeners.add(bound)
+          const disposable = { dispose: () => { this.configurationListeners.delete(bound) } }
+          context.subscriptions.push(disposable)
+          return disposable
         }
       },
 
       // Languages
       languages: {
-        registerCompletionItemProvider: () => {
-          const disposable = { dispose: () => {} }
-          context.subscriptions.push(disposable)
-          return disposable
+        registerCompletionItemProvider: (selector: DocumentSelector, provider: CompletionItemProvider, ...triggerCharacters: string[]) =>
+          registerLanguageProvider('completion', selector, provider, triggerCharacters),
+        registerHoverProvider: (selector: DocumentSelector, provider: HoverProvider) =>
+          registerLanguageProvider('hover', selector, provider),
+        registerDefinitionProvider: (selector: DocumentSelector, provider: DefinitionProvider) =>
+          registerLanguageProvider('definition', selector, provider),
+        registerReferenceProvider: (selector: DocumentSelector, provider: ReferenceProvider) =>
+          registerLanguageProvider('references', selector, provider),
+        registerCodeActionsProvider: (selector: DocumentSelector, provider: CodeActionProvider) =>
+          registerLanguageProvider('codeAction', selector, provider),
+        registerDocumentFormattingEditProvider: (selector: DocumentSelector, provider: DocumentFormattingEditProvider) =>
+          registerLanguageProvider('formatting', selector, provider),
+        match: (selector: DocumentSelector, document: { languageId: string }) => {
+          const selectors = Array.isArray(selector) ? selector : [selector]
+          return selectors.some(s => s === '*' || s === document.languageId || (typeof s === 'object' && s?.language === document.languageId)) ? 10 : 0
         }
       },
 
       // Debug
       debug: {
-        registerDebugConfigurationProvider: () => {
-          const disposable = { dispose: () => {} }
+        registerDebugConfigurationProvider: (
+          debugType: string,
+          provider: DebugConfigurationProvider,
+          triggerKind?: DebugConfigurationProviderTriggerKind
+        ) => {
+          const disposable = this.debug.registerConfigurationProvider(extensionId, debugType, provider, triggerKind)
+          context.subscriptions.push(disposable)
+          return disposable
+        },
+        registerDebugAdapterDescriptorFactory: (debugType: string, factory: DebugAdapterDescriptorFactory) => {
+          const disposable = this.debug.registerDescriptorFactory(extensionId, debugType, factory)
           context.subscriptions.push(disposable)
           return disposable
         }
@@ -618,29 +885,7 @@ class ExtensionHost {
       },
 
       // Event
-      EventEmitter: class<T> {
-        private listeners: Array<(e: T) => void> = []
-        
-        get event() {
-          return (listener: (e: T) => void) => {
-            this.listeners.push(listener)
-            return {
-              dispose: () => {
-                const index = this.listeners.indexOf(listener)
-                if (index > -1) this.listeners.splice(index, 1)
-              }
-            }
-          }
-        }
-        
-        fire(data: T): void {
-          this.listeners.forEach(listener => listener(data))
-        }
-        
-        dispose(): void {
-          this.listeners = []
-        }
-      }
+      EventEmitter
     }
   }
 
@@ -0,0 +1,110 @@
+/**
+ * Extension Manifest Validation
+ * Checks an extension's package.json against the `ExtensionManifest` shape before
+ * it is installed, and whether its `engines.vscode` range accepts the API version
+ * the extension host implements.
+ */
+
+// The vscode API version the extension host reports as `vscode.version`
+export const VSCODE_API_VERSION = '1.85.0'
+
+// Same rules the VS Code marketplace applies to publisher and extension names
+const IDENTIFIER_PATTERN = /^[a-z0-9][a-z0-9-]*$/i
+const VERSION_PATTERN = /^\d+\.\d+\.\d+(?:-[\w.-]+)?(?:\+[\w.-]+)?$/
+
+interface ParsedVersion {
+  major: number | null
+  minor: number | null
+  patch: number | null
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string')
+}
+
+function parseVersion(text: string): ParsedVersion | null {
+  // Pre-release and build suffixes (1.85.0-insider) do not affect compatibility
+  const match = /^(\d+|x|\*)(?:\.(\d+|x|\*))?(?:\.(\d+|x|\*))?(?:[-+].*)?$/i.exec(text.trim())
+  if (!match) return null
+  const part = (value?: string) => value === undefined || /^(x|\*)$/i.test(value) ? null : Number(value)
+  return { major: part(match[1]), minor: part(match[2]), patch: part(match[3]) }
+}
+
+function compareVersions(a: ParsedVersion, b: ParsedVersion): number {
+  return ((a.major ?? 0) - (b.major ?? 0)) || ((a.minor ?? 0) - (b.minor ?? 0)) || ((a.patch ?? 0) - (b.patch ?? 0))
+}
+
+/**
+ * Whether an `engines.vscode` range accepts the given API version.
+ * Supports the forms extensions use in practice: `*`, `^1.60.0`, `~1.60.0`,
+ * `>=1.60.0` and exact versions with optional `x` wildcards.
+ */
+export function isEngineCompatible(range: string, apiVersion: string = VSCODE_API_VERSION): boolean {
+  const trimmed = range.trim()
+  if (trimmed === '' || trimmed === '*') return true
+
+  const operator = /^(\^|~|>=)/.exec(trimmed)?.[1] || ''
+  const required = parseVersion(trimmed.slice(operator.length))
+  const current = parseVersion(apiVersion)
+  if (!required || !current) return false
+
+  switch (operator) {
+    case '>=':
+      return compareVersions(current, required) >= 0
+    case '^':
+      return (required.major === 0 || required.major === current.major) && compareVersions(current, required) >= 0
+    case '~':
+      return required.major === current.major
+        && (required.minor === null || required.minor === current.minor)
+        && compareVersions(current, required) >= 0
+    default:
+      return (required.major === null || required.major === current.major)
+        && (required.minor === null || required.minor === current.minor)
+        && (required.patch === null || required.patch === current.patch)
+  }
+}
+
+/**
+ * Returns the problems found in a manifest; an empty list means it can be installed.
+ */
+export function validateExtensionManifest(manifest: unknown): string[] {
+  if (typeof manifest !== 'object' || manifest === null || Array.isArray(manifest)) {
+    return ['package.json is not an object']
+  }
+
+  const m = manifest as Record<string, unknown>
+  const problems: string[] = []
+
+  if (typeof m.name !== 'string' || !IDENTIFIER_PATTERN.test(m.name)) {
+    problems.push('"name" must contain only letters, digits and dashes')
+  }
+  if (typeof m.publisher !== 'string' || !IDENTIFIER_PATTERN.test(m.publisher)) {
+    problems.push('"publisher" must contain only letters, digits and dashes')
+  }
+  if (typeof m.version !== 'string' || !VERSION_PATTERN.test(m.version)) {
+    problems.push('"version" must be a semver version')
+  }
+
+  const engines = m.engines as Record<string, unknown> | undefined
+  if (typeof engines !== 'object' || engines === null || typeof engines.vscode !== 'string') {
+    problems.push('"engines.vscode" is required')
+  } else if (engines.vscode.trim() !== '*' && !parseVersion(engines.vscode.trim().replace(/^(\^|~|>=)/, ''))) {
+    problems.push(`"engines.vscode" is not a valid version range: ${engines.vscode}`)
+  }
+
+  for (const key of ['displayName', 'description', 'main', 'browser', 'icon', 'license'] as const) {
+    if (m[key] !== undefined && typeof m[key] !== 'string') {
+      problems.push(`"${key}" must be a string`)
+    }
+  }
+  for (const key of ['categories', 'keywords', 'activationEvents', 'extensionDependencies', 'extensionPack'] as const) {
+    if (m[key] !== undefined && !isStringArray(m[key])) {
+      problems.push(`"${key}" must be an array of strings`)
+    }
+  }
+  if (m.contributes !== undefined && (typeof m.contributes !== 'object' || m.contributes === null || Array.isArray(m.contributes))) {
+    problems.push('"contributes" must be an object')
+  }
+
+  return problems
+}
@@ -0,0 +1,244 @@
+/**
+ * Extension Storage
+ * Persistent state behind `ExtensionContext.globalState`, `workspaceState` and `secrets`.
+ * The store (main process) owns the state files: one per extension globally and one per
+ * extension and workspace folder. The host keeps Memento copies so reads stay synchronous,
+ * and writes go back to the store. Secrets are not kept here; they go through safeStorage
+ * under a per-extension key prefix.
+ */
+
+import * as path from 'path'
+import * as fs from 'fs'
+import * as crypto from 'crypto'
+import { EventEmitter } from './vscodeTypes'
+
+export type MementoScope = 'global' | 'workspace'
+
+export interface ExtensionStateSnapshot {
+  global: Record<string, unknown>
+  workspace: Record<string, unknown>
+}
+
+export type SecretStorageOperation = 'get' | 'store' | 'delete'
+
+interface StoredState {
+  values: Record<string, unknown>
+  keysForSync?: string[]
+}
+
+const SECRET_KEY_PREFIX = 'extension-secret:'
+
+/**
+ * safeStorage key for an extension secret. Extension ids never contain ':',
+ * so the prefix of one extension cannot match another's keys.
+ */
+export function getSecretStorageKey(extensionId: string, key: string): string {
+  return `${SECRET_KEY_PREFIX}${extensionId}:${key}`
+}
+
+export function isExtensionSecretKey(extensionId: string, storageKey: string): boolean {
+  return storageKey.startsWith(`${SECRET_KEY_PREFIX}${extensionId}:`)
+}
+
+function toFileName(extensionId: string): string {
+  return `${extensionId.replace(/[^\w.-]/g, '_')}.json`
+}
+
+function readStateFile(filePath: string): StoredState {
+  try {
+    if (!fs.existsSync(filePath)) return { values: {} }
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+    if (typeof parsed === 'object' && parsed !== null && typeof parsed.values === 'object' && parsed.values !== null) {
+      return {
+        values: parsed.values,
+        keysForSync: Array.isArray(parsed.keysForSync) ? parsed.keysForSync : undefined
+      }
+    }
+    console.error(`[ExtensionStorage] Ignoring malformed state file: ${filePath}`)
+  } catch (error) {
+    console.error(`[ExtensionStorage] Failed to read ${filePath}:`, error)
+  }
+  return { values: {} }
+}
+
+export class ExtensionStateStore {
+  private workspaceFolder: string | null = null
+  private cache: Map<string, StoredState> = new Map()
+
+  constructor(private storageRoot: string) {}
+
+  setWorkspaceFolder(folder: string | null): void {
+    this.workspaceFolder = folder
+  }
+
+  snapshot(extensionId: string): ExtensionStateSnapshot {
+    return {
+      global: { ...this.load(extensionId, 'global').values },
+      workspace: { ...this.load(extensionId, 'workspace').values }
+    }
+  }
+
+  getWorkspaceValues(extensionId: string): Record<string, unknown> {
+    return { ...this.load(extensionId, 'workspace').values }
+  }
+
+  /**
+   * Write a value to an extension's state. `undefined` removes the key.
+   */
+  update(extensionId: string, scope: MementoScope, key: string, value: unknown): void {
+    const state = this.load(extensionId, scope)
+    const values = { ...state.values }
+    if (value === undefined) {
+      delete values[key]
+    } else {
+      values[key] = value
+    }
+    this.save(extensionId, scope, { ...state, values })
+  }
+
+  setKeysForSync(extensionId: string, keys: string[]): void {
+    const state = this.load(extensionId, 'global')
+    this.save(extensionId, 'global', { ...state, keysForSync: [...keys] })
+  }
+
+  /**
+   * Forget everything an extension stored, in every workspace.
+   */
+  removeExtension(extensionId: string): void {
+    const fileName = toFileName(extensionId)
+    const files = [path.join(this.storageRoot, 'global', fileName)]
+
+    const workspaceRoot = path.join(this.storageRoot, 'workspace')
+    if (fs.existsSync(workspaceRoot)) {
+      for (const entry of fs.readdirSync(workspaceRoot)) {
+        files.push(path.join(workspaceRoot, entry, fileName))
+      }
+    }
+
+    for (const filePath of files) {
+      this.cache.delete(filePath)
+      if (fs.existsSync(filePath)) {
+        fs.rmSync(filePath, { force: true })
+      }
+    }
+    this.cache.delete(this.getCacheKey(extensionId, 'workspace'))
+  }
+
+  private load(extensionId: string, scope: MementoScope): StoredState {
+    const cacheKey = this.getCacheKey(extensionId, scope)
+    let state = this.cache.get(cacheKey)
+    if (!state) {
+      const filePath = this.getFilePath(extensionId, scope)
+      state = filePath ? readStateFile(filePath) : { values: {} }
+      this.cache.set(cacheKey, state)
+    }
+    return state
+  }
+
+  private save(extensionId: string, scope: MementoScope, state: StoredState): void {
+    const filePath = this.getFilePath(extensionId, scope)
+    // Without a folder, workspace state only lives for the session (like an empty vscode window)
+    if (filePath) {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true })
+      fs.writeFileSync(filePath, JSON.stringify(state, null, 2), 'utf-8')
+    }
+    this.cache.set(this.getCacheKey(extensionId, scope), state)
+  }
+
+  private getCacheKey(extensionId: string, scope: MementoScope): string {
+    return this.getFilePath(extensionId, scope) ?? `memory:${extensionId}`
+  }
+
+  private getFilePath(extensionId: string, scope: MementoScope): string | null {
+    if (scope === 'global') {
+      return path.join(this.storageRoot, 'global', toFileName(extensionId))
+    }
+    if (!this.workspaceFolder) return null
+    const workspaceId = crypto.createHash('sha256').update(path.resolve(this.workspaceFolder)).digest('hex').slice(0, 16)
+    return path.join(this.storageRoot, 'workspace', workspaceId, toFileName(extensionId))
+  }
+}
+
+/**
+ * Host-side `vscode.Memento`. Values are JSON, so updates are stored as a
+ * serialized copy and later mutations of the caller's object have no effect.
+ */
+export class Memento {
+  private values: Record<string, unknown>
+
+  constructor(values: Record<string, unknown>, private persist: (key: string, value: unknown) => Promise<void>) {
+    this.values = { ...values }
+  }
+
+  get<T>(key: string, defaultValue?: T): T | undefined {
+    const value = this.values[key]
+    return value === undefined ? defaultValue : value as T
+  }
+
+  keys(): readonly string[] {
+    return Object.keys(this.values)
+  }
+
+  async update(key: string, value: unknown): Promise<void> {
+    if (value === undefined) {
+      delete this.values[key]
+    } else {
+      this.values[key] = JSON.parse(JSON.stringify(value))
+    }
+    await this.persist(key, value)
+  }
+
+  replaceValues(values: Record<string, unknown>): void {
+    this.values = { ...values }
+  }
+}
+
+export class GlobalMemento extends Memento {
+  constructor(
+    values: Record<string, unknown>,
+    persist: (key: string, value: unknown) => Promise<void>,
+    private persistKeysForSync: (keys: string[]) => void
+  ) {
+    super(values, persist)
+  }
+
+  /**
+   * Kalynt has no settings sync yet; the keys are recorded with the
+   * extension's global state so they survive until it does.
+   */
+  setKeysForSync(keys: readonly string[]): void {
+    this.persistKeysForSync([...keys])
+  }
+}
+
+/**
+ * Host-side `vscode.SecretStorage`. Values never stay in the host; every call
+ * goes to the main process, which encrypts them with safeStorage.
+ */
+export class ExtensionSecretStorage {
+  private changeEmitter = new EventEmitter<{ key: string }>()
+  readonly onDidChange = this.changeEmitter.event
+
+  constructor(private request: (operation: SecretStorageOperation, key: string, value?: string) => Promise<string | undefined>) {}
+
+  get(key: string): Promise<string | undefined> {
+    return this.request('get', key)
+  }
+
+  async store(key: string, value: string): Promise<void> {
+    if (typeof value !== 'string') {
+      throw new Error('SecretStorage values must be strings')
+    }
+    await this.request('store', key, value)
+    this.changeEmitter.fire({ key })
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.request('delete', key)
+    this.changeEmitter.fire({ key })
+  }
+
+  dispose(): void {
+    this.changeEmitter.dispose()
+  }
+}
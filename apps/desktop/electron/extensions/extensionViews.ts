@@ -0,0 +1,379 @@
+/**
+ * Extension View Registry
+ * Backs `vscode.window.createTreeView`, `registerTreeDataProvider` and
+ * `createWebviewPanel` inside the extension host.
+ * Tree elements never leave this process; the renderer only sees serialized
+ * items addressed by handle and asks for children on demand.
+ */
+
+import * as path from 'path'
+import type { TreeItemDTO, TreeViewEventDTO, WebviewPanelDTO } from '../../src/types/extensionHost'
+import { MeasureExtensionCall, unmeasured } from './extensionProfiler'
+import { EventEmitter, MarkdownString, ThemeIcon, TreeItem, TreeItemCollapsibleState, Uri, ViewColumn } from './vscodeTypes'
+
+type SendMessage = (message: { type: string; payload?: unknown }) => void
+type ExecuteCommand = (command: string, args: unknown[]) => Promise<unknown>
+type Listener<T> = (listener: (e: T) => unknown, thisArgs?: unknown, disposables?: Array<{ dispose(): void }>) => { dispose(): void }
+
+export interface TreeDataProvider<T> {
+  getChildren(element?: T): T[] | null | undefined | Promise<T[] | null | undefined>
+  getTreeItem(element: T): TreeItem | Promise<TreeItem>
+  onDidChangeTreeData?: Listener<T | T[] | undefined | null | void>
+}
+
+export interface TreeViewOptions<T> {
+  treeDataProvider: TreeDataProvider<T>
+  showCollapseAll?: boolean
+  canSelectMany?: boolean
+}
+
+interface WebviewOptions {
+  enableScripts?: boolean
+  enableForms?: boolean
+  retainContextWhenHidden?: boolean
+  localResourceRoots?: Uri[]
+}
+
+function treeItemLabel(item: TreeItem): string {
+  if (typeof item.label === 'string') return item.label
+  if (item.label?.label) return item.label.label
+  return item.resourceUri ? path.posix.basename(item.resourceUri.path) : ''
+}
+
+class TreeViewController<T> {
+  private elements: Map<string, T> = new Map()
+  private items: Map<string, TreeItem> = new Map()
+  private handlesByElement: Map<T, string> = new Map()
+  private selectionEmitter = new EventEmitter<{ selection: T[] }>()
+  private visibilityEmitter = new EventEmitter<{ visible: boolean }>()
+  private expandEmitter = new EventEmitter<{ element: T }>()
+  private collapseEmitter = new EventEmitter<{ element: T }>()
+  private dataSubscription?: { dispose(): void }
+  private selection: T[] = []
+  private visible = false
+  private details: { title?: string; description?: string; message?: string } = {}
+
+  constructor(
+    readonly viewId: string,
+    private options: TreeViewOptions<T>,
+    private send: SendMessage
+  ) {
+    this.dataSubscription = options.treeDataProvider.onDidChangeTreeData?.((changed) => {
+      const changedElements = changed === undefined || changed === null ? [] : Array.isArray(changed) ? changed : [changed]
+      const handles = changedElements
+        .map(element => this.handlesByElement.get(element as T))
+        .filter((handle): handle is string => !!handle)
+      // An unknown element means the renderer has never seen it; refresh from the root
+      const refreshAll = changedElements.length === 0 || handles.length < changedElements.length
+      this.send({ type: 'tree-data-changed', payload: { viewId, handles: refreshAll ? undefined : handles } })
+    })
+  }
+
+  async getChildren(parentHandle?: string): Promise<TreeItemDTO[]> {
+    const parent = parentHandle ? this.elements.get(parentHandle) : undefined
+    if (parentHandle && parent === undefined) return []
+
+    const children = (await this.options.treeDataProvider.getChildren(parent)) || []
+    const used = new Set<string>()
+    const result: TreeItemDTO[] = []
+
+    for (const child of children) {
+      const item = await this.options.treeDataProvider.getTreeItem(child)
+      const label = treeItemLabel(item)
+
+      // Ids are stable across refreshes; fall back to the label path so expansion state survives
+      let handle = item.id ? `${this.viewId}:${item.id}` : `${parentHandle ?? this.viewId}/${label}`
+      for (let i = 1; used.has(handle); i++) {
+        handle = `${handle}#${i}`
+      }
+      used.add(handle)
+
+      this.elements.set(handle, child)
+      this.items.set(handle, item)
+      this.handlesByElement.set(child, handle)
+      result.push(this.toDTO(handle, label, item))
+    }
+
+    return result
+  }
+
+  async activate(handle: string, executeCommand: ExecuteCommand): Promise<void> {
+    const command = this.items.get(handle)?.command
+    if (command) {
+      await executeCommand(command.command, command.arguments || [])
+    }
+  }
+
+  handleEvent(event: TreeViewEventDTO): void {
+    switch (event.kind) {
+      case 'selection':
+        this.selection = (event.handles || [])
+          .map(handle => this.elements.get(handle))
+          .filter((element): element is T => element !== undefined)
+        this.selectionEmitter.fire({ selection: this.selection })
+        break
+      case 'visibility':
+        this.visible = !!event.visible
+        this.visibilityEmitter.fire({ visible: this.visible })
+        break
+      case 'expand':
+      case 'collapse': {
+        const element = event.handles?.[0] ? this.elements.get(event.handles[0]) : undefined
+        if (element !== undefined) {
+          (event.kind === 'expand' ? this.expandEmitter : this.collapseEmitter).fire({ element })
+        }
+        break
+      }
+    }
+  }
+
+  /**
+   * The `vscode.TreeView` object handed to the extension.
+   */
+  createApi(onDispose: () => void) {
+    // eslint-disable-next-line @typescript-eslint/no-this-alias
+    const controller = this
+    const update = (change: { title?: string; description?: string; message?: string }) => {
+      this.details = { ...this.details, ...change }
+      this.send({ type: 'update-tree-view', payload: { viewId: this.viewId, ...this.details } })
+    }
+
+    return {
+      get selection() { return controller.selection },
+      get visible() { return controller.visible },
+      get title() { return controller.details.title },
+      set title(value: string | undefined) { update({ title: value }) },
+      get description() { return controller.details.description },
+      set description(value: string | undefined) { update({ description: value }) },
+      get message() { return controller.details.message },
+      set message(value: string | undefined) { update({ message: value }) },
+      onDidChangeSelection: this.selectionEmitter.event,
+      onDidChangeVisibility: this.visibilityEmitter.event,
+      onDidExpandElement: this.expandEmitter.event,
+      onDidCollapseElement: this.collapseEmitter.event,
+      // Revealing arbitrary elements needs getParent support; accepted but not acted on yet
+      reveal: async () => {},
+      dispose: onDispose
+    }
+  }
+
+  dispose(): void {
+    this.dataSubscription?.dispose()
+    this.selectionEmitter.dispose()
+    this.visibilityEmitter.dispose()
+    this.expandEmitter.dispose()
+    this.collapseEmitter.dispose()
+  }
+
+  private toDTO(handle: string, label: string, item: TreeItem): TreeItemDTO {
+    const collapsibleState = item.collapsibleState ?? TreeItemCollapsibleState.None
+    const themeIcon = item.iconPath instanceof ThemeIcon
+      ? item.iconPath.id
+      : !item.iconPath && item.resourceUri
+        ? (collapsibleState === TreeItemCollapsibleState.None ? 'file' : 'folder')
+        : undefined
+
+    return {
+      handle,
+      label,
+      description: typeof item.description === 'string' ? item.description : undefined,
+      tooltip: item.tooltip instanceof MarkdownString ? item.tooltip.value : item.tooltip,
+      collapsibleState: collapsibleState as TreeItemDTO['collapsibleState'],
+      themeIcon,
+      contextValue: item.contextValue,
+      resourcePath: item.resourceUri?.fsPath,
+      command: item.command ? { command: item.command.command, title: item.command.title } : undefined
+    }
+  }
+}
+
+interface WebviewEntry {
+  dto: WebviewPanelDTO
+  messages: EventEmitter<unknown>
+  viewState: EventEmitter<{ webviewPanel: unknown }>
+  disposed: EventEmitter<void>
+  active: boolean
+  visible: boolean
+  api: { dispose(): void }
+}
+
+export class ExtensionViewRegistry {
+  private treeViews: Map<string, { extensionId: string; controller: TreeViewController<unknown>; dispose(): void }> = new Map()
+  private webviews: Map<string, WebviewEntry> = new Map()
+  private nextWebviewHandle = 1
+
+  constructor(
+    private send: SendMessage,
+    private executeCommand: ExecuteCommand,
+    private measure: MeasureExtensionCall = unmeasured
+  ) {}
+
+  createTreeView<T>(extensionId: string, viewId: string, options: TreeViewOptions<T>) {
+    if (!options?.treeDataProvider) {
+      throw new Error('Options with treeDataProvider is mandatory')
+    }
+    if (this.treeViews.has(viewId)) {
+      throw new Error(`Tree view '${viewId}' is already registered`)
+    }
+
+    const controller = new TreeViewController<T>(viewId, options, this.send)
+    const registration = {
+      extensionId,
+      controller: controller as TreeViewController<unknown>,
+      dispose: () => {
+        if (this.treeViews.get(viewId) === registration) {
+          this.treeViews.delete(viewId)
+          controller.dispose()
+          this.send({ type: 'unregister-tree-view', payload: { viewId } })
+        }
+      }
+    }
+    this.treeViews.set(viewId, registration)
+    this.send({
+      type: 'register-tree-view',
+      payload: { viewId, extensionId, showCollapseAll: !!options.showCollapseAll }
+    })
+
+    return controller.createApi(registration.dispose)
+  }
+
+  async provideTreeChildren(payload: { requestId: number; viewId: string; parentHandle?: string }): Promise<void> {
+    const registration = this.treeViews.get(payload.viewId)
+    try {
+      const items = registration
+        ? await this.measure(registration.extensionId, () => registration.controller.getChildren(payload.parentHandle))
+        : []
+      this.send({ type: 'tree-children-result', payload: { requestId: payload.requestId, items } })
+    } catch (error) {
+      this.send({
+        type: 'tree-children-result',
+        payload: { requestId: payload.requestId, items: [], error: error instanceof Error ? error.message : String(error) }
+      })
+    }
+  }
+
+  async activateTreeItem(payload: { viewId: string; handle: string }): Promise<void> {
+    await this.treeViews.get(payload.viewId)?.controller.activate(payload.handle, this.executeCommand)
+  }
+
+  handleTreeViewEvent(event: TreeViewEventDTO): void {
+    this.treeViews.get(event.viewId)?.controller.handleEvent(event)
+  }
+
+  /**
+   * Tear down every view an extension still owns when it is deactivated.
+   */
+  disposeExtension(extensionId: string): void {
+    for (const registration of Array.from(this.treeViews.values())) {
+      if (registration.extensionId === extensionId) registration.dispose()
+    }
+    for (const entry of Array.from(this.webviews.values())) {
+      if (entry.dto.extensionId === extensionId) entry.api.dispose()
+    }
+  }
+
+  createWebviewPanel(
+    extensionId: string,
+    viewType: string,
+    title: string,
+    showOptions: ViewColumn | { viewColumn: ViewColumn; preserveFocus?: boolean } | undefined,
+    options: WebviewOptions = {}
+  ) {
+    const handle = `webview-${this.nextWebviewHandle++}`
+    const viewColumn = typeof showOptions === 'object' ? showOptions.viewColumn : showOptions ?? ViewColumn.Active
+    const entry: WebviewEntry = {
+      dto: {
+        handle,
+        viewType,
+        title,
+        extensionId,
+        html: '',
+        enableScripts: !!options.enableScripts,
+        enableForms: !!options.enableForms,
+        retainContextWhenHidden: !!options.retainContextWhenHidden
+      },
+      messages: new EventEmitter<unknown>(),
+      viewState: new EventEmitter<{ webviewPanel: unknown }>(),
+      disposed: new EventEmitter<void>(),
+      active: true,
+      visible: true,
+      api: { dispose: () => {} }
+    }
+    const update = (change: Partial<WebviewPanelDTO>) => {
+      entry.dto = { ...entry.dto, ...change }
+      this.send({ type: 'update-webview-panel', payload: { handle, ...change } })
+    }
+    const isDisposed = () => !this.webviews.has(handle)
+
+    const webview = {
+      get html() { return entry.dto.html },
+      set html(value: string) { update({ html: value }) },
+      get options(): WebviewOptions { return { enableScripts: entry.dto.enableScripts, enableForms: entry.dto.enableForms } },
+      set options(value: WebviewOptions) { update({ enableScripts: !!value.enableScripts, enableForms: !!value.enableForms }) },
+      // Panels render from an opaque origin; extension resources must be inlined
+      cspSource: "'self'",
+      asWebviewUri: (uri: Uri) => uri,
+      onDidReceiveMessage: entry.messages.event,
+      postMessage: async (message: unknown) => {
+        if (isDisposed()) return false
+        this.send({ type: 'webview-post-message', payload: { handle, message } })
+        return true
+      }
+    }
+
+    const panel = {
+      viewType,
+      webview,
+      options,
+      get viewColumn() { return viewColumn },
+      get title() { return entry.dto.title },
+      set title(value: string) { update({ title: value }) },
+      get active() { return entry.active },
+      get visible() { return entry.visible },
+      onDidDispose: entry.disposed.event,
+      onDidChangeViewState: entry.viewState.event,
+      reveal: () => {
+        if (!isDisposed()) this.send({ type: 'reveal-webview-panel', payload: { handle } })
+      },
+      dispose: () => {
+        if (isDisposed()) return
+        this.send({ type: 'dispose-webview-panel', payload: { handle } })
+        this.releaseWebview(handle)
+      }
+    }
+
+    entry.api = panel
+    this.webviews.set(handle, entry)
+    this.send({ type: 'create-webview-panel', payload: entry.dto })
+    return panel
+  }
+
+  handleWebviewMessage(payload: { handle: string; message: unknown }): void {
+    this.webviews.get(payload.handle)?.messages.fire(payload.message)
+  }
+
+  handleWebviewViewState(payload: { handle: string; active: boolean; visible: boolean }): void {
+    const entry = this.webviews.get(payload.handle)
+    if (!entry || (entry.active === payload.active && entry.visible === payload.visible)) return
+    entry.active = payload.active
+    entry.visible = payload.visible
+    entry.viewState.fire({ webviewPanel: entry.api })
+  }
+
+  /**
+   * The user closed the panel in the IDE.
+   */
+  handleWebviewClosed(payload: { handle: string }): void {
+    this.releaseWebview(payload.handle)
+  }
+
+  private releaseWebview(handle: string): void {
+    const entry = this.webviews.get(handle)
+    if (!entry) return
+    this.webviews.delete(handle)
+    entry.disposed.fire()
+    entry.messages.dispose()
+    entry.viewState.dispose()
+    entry.disposed.dispose()
+  }
+}
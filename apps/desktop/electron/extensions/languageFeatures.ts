@@ -0,0 +1,366 @@
+/**
+ * Language Feature Registry
+ * Keeps the language providers extensions register through `vscode.languages`
+ * and answers editor requests proxied from the main process.
+ * Results are converted to plain DTOs before crossing the process boundary.
+ */
+
+import type {
+  CodeActionDTO,
+  CompletionItemDTO,
+  DocumentFilterDTO,
+  LanguageFeatureKind,
+  LanguageFeatureRequest,
+  LanguageFeatureResult,
+  LanguageProviderRegistration,
+  LocationDTO,
+  ProtocolRange as RangeDTO,
+  TextEditDTO,
+  WorkspaceEditDTO
+} from '../../src/types/extensionHost'
+import { MeasureExtensionCall, unmeasured } from './extensionProfiler'
+import {
+  CancellationToken,
+  CancellationTokenSource,
+  CodeAction,
+  CodeActionKind,
+  CompletionItem,
+  CompletionList,
+  Diagnostic,
+  Hover,
+  Location,
+  MarkdownString,
+  Position,
+  Range,
+  SnippetString,
+  TextDocument,
+  TextEdit,
+  Uri,
+  WorkspaceEdit,
+  createTextDocument
+} from './vscodeTypes'
+
+type SendMessage = (message: { type: string; payload?: unknown }) => void
+type ProviderResult<T> = T | undefined | null | Promise<T | undefined | null>
+type MarkedString = MarkdownString | string | { language: string; value: string }
+
+interface Command {
+  command: string
+  title: string
+  arguments?: unknown[]
+}
+
+interface LocationLink {
+  targetUri: Uri
+  targetRange: Range
+  targetSelectionRange?: Range
+}
+
+interface DocumentFilter {
+  language?: string
+  scheme?: string
+  // RelativePattern exposes `pattern`; plain globs are strings
+  pattern?: string | { pattern: string }
+}
+
+export type DocumentSelector = DocumentFilter | string | Array<DocumentFilter | string>
+
+interface CompletionContext {
+  triggerKind: number
+  triggerCharacter?: string
+}
+
+interface CodeActionContext {
+  diagnostics: Diagnostic[]
+  only?: CodeActionKind
+  triggerKind: number
+}
+
+interface FormattingOptions {
+  tabSize: number
+  insertSpaces: boolean
+}
+
+export interface CompletionItemProvider {
+  provideCompletionItems(document: TextDocument, position: Position, token: CancellationToken, context: CompletionContext): ProviderResult<CompletionItem[] | CompletionList>
+}
+
+export interface HoverProvider {
+  provideHover(document: TextDocument, position: Position, token: CancellationToken): ProviderResult<Hover>
+}
+
+export interface DefinitionProvider {
+  provideDefinition(document: TextDocument, position: Position, token: CancellationToken): ProviderResult<Location | Location[] | LocationLink[]>
+}
+
+export interface ReferenceProvider {
+  provideReferences(document: TextDocument, position: Position, context: { includeDeclaration: boolean }, token: CancellationToken): ProviderResult<Location[]>
+}
+
+export interface CodeActionProvider {
+  provideCodeActions(document: TextDocument, range: Range, context: CodeActionContext, token: CancellationToken): ProviderResult<Array<CodeAction | Command>>
+}
+
+export interface DocumentFormattingEditProvider {
+  provideDocumentFormattingEdits(document: TextDocument, options: FormattingOptions, token: CancellationToken): ProviderResult<TextEdit[]>
+}
+
+// A registration holds one of these; the kind it was registered with says which
+export type LanguageProvider = Partial<
+  CompletionItemProvider & HoverProvider & DefinitionProvider & ReferenceProvider & CodeActionProvider & DocumentFormattingEditProvider
+>
+
+interface RegisteredProvider {
+  registration: LanguageProviderRegistration
+  provider: LanguageProvider
+}
+
+function toRangeDTO(range: Range | undefined): RangeDTO | undefined {
+  // Extensions may hand back plain objects, so check the shape rather than trust the type
+  if (!range?.start || !range?.end) return undefined
+  return {
+    start: { line: range.start.line, character: range.start.character },
+    end: { line: range.end.line, character: range.end.character }
+  }
+}
+
+function toRange(range: RangeDTO): Range {
+  return new Range(range.start.line, range.start.character, range.end.line, range.end.character)
+}
+
+function toUriString(uri: Uri | string | undefined): string {
+  if (typeof uri === 'string') return uri
+  return uri?.fsPath ?? uri?.path ?? ''
+}
+
+function toMarkdown(content: MarkedString | undefined): string {
+  if (content === undefined || content === null) return ''
+  if (typeof content === 'string') return content
+  if (content instanceof MarkdownString) return content.value
+  if ('language' in content && typeof content.language === 'string' && typeof content.value === 'string') {
+    return `\`\`\`${content.language}\n${content.value}\n\`\`\``
+  }
+  return typeof content.value === 'string' ? content.value : String(content)
+}
+
+function toTextEditDTO(edit: TextEdit | undefined): TextEditDTO | undefined {
+  const range = toRangeDTO(edit?.range)
+  if (!edit || !range || typeof edit.newText !== 'string') return undefined
+  return { range, newText: edit.newText }
+}
+
+function toWorkspaceEditDTO(edit: WorkspaceEdit | undefined): WorkspaceEditDTO | undefined {
+  if (!(edit instanceof WorkspaceEdit)) return undefined
+  return {
+    edits: edit.entries().map(([uri, edits]) => ({
+      uri: toUriString(uri),
+      edits: edits.map(toTextEditDTO).filter((e): e is TextEditDTO => !!e)
+    }))
+  }
+}
+
+function toCompletionItemDTO(item: CompletionItem): CompletionItemDTO {
+  const label = typeof item.label === 'string' ? item.label : item.label?.label ?? ''
+  const insertText = item.insertText ?? label
+  const range = item.range && 'replacing' in item.range ? item.range.replacing : item.range
+  return {
+    label,
+    labelDetail: typeof item.label === 'object' ? item.label.detail : undefined,
+    labelDescription: typeof item.label === 'object' ? item.label.description : undefined,
+    kind: item.kind,
+    detail: item.detail,
+    documentation: item.documentation !== undefined ? toMarkdown(item.documentation) : undefined,
+    insertText: insertText instanceof SnippetString ? insertText.value : String(insertText),
+    isSnippet: insertText instanceof SnippetString,
+    filterText: item.filterText,
+    sortText: item.sortText,
+    preselect: item.preselect,
+    range: toRangeDTO(range),
+    commitCharacters: item.commitCharacters
+  }
+}
+
+function toLocationDTOs(result: Location | Location[] | LocationLink[]): LocationDTO[] {
+  const items: Array<Location | LocationLink> = Array.isArray(result) ? result : [result]
+  const locations: LocationDTO[] = []
+  for (const item of items) {
+    const uri = 'targetUri' in item ? item.targetUri : item.uri
+    const range = toRangeDTO('targetUri' in item ? item.targetSelectionRange ?? item.targetRange : item.range)
+    if (uri && range) {
+      locations.push({ uri: toUriString(uri), range })
+    }
+  }
+  return locations
+}
+
+function normalizeSelector(selector: DocumentSelector): DocumentFilterDTO[] {
+  const selectors = Array.isArray(selector) ? selector : [selector]
+  return selectors
+    .filter(s => s !== undefined && s !== null)
+    .map((s): DocumentFilterDTO => {
+      if (typeof s === 'string') return { language: s }
+      return {
+        language: s.language,
+        scheme: s.scheme,
+        pattern: typeof s.pattern === 'string' ? s.pattern : s.pattern?.pattern
+      }
+    })
+}
+
+function toCodeActionDTO(action: CodeAction | Command): CodeActionDTO {
+  // Providers may return bare Commands instead of CodeActions
+  if (typeof action.command === 'string') {
+    const command = action as Command
+    return { title: command.title, command: { command: command.command, title: command.title, arguments: command.arguments } }
+  }
+  const codeAction = action as CodeAction
+  return {
+    title: codeAction.title,
+    kind: codeAction.kind instanceof CodeActionKind ? codeAction.kind.value : codeAction.kind,
+    isPreferred: codeAction.isPreferred,
+    edit: toWorkspaceEditDTO(codeAction.edit),
+    command: codeAction.command
+  }
+}
+
+export class LanguageFeatureRegistry {
+  private providers: Map<number, RegisteredProvider> = new Map()
+  private pendingRequests: Map<string, CancellationTokenSource> = new Map()
+  private nextHandle = 1
+
+  constructor(private send: SendMessage, private measure: MeasureExtensionCall = unmeasured) {}
+
+  register(
+    extensionId: string,
+    kind: LanguageFeatureKind,
+    selector: DocumentSelector,
+    provider: LanguageProvider,
+    triggerCharacters?: string[]
+  ): { dispose(): void } {
+    const registration: LanguageProviderRegistration = {
+      handle: this.nextHandle++,
+      extensionId,
+      kind,
+      selector: normalizeSelector(selector),
+      triggerCharacters: triggerCharacters && triggerCharacters.length > 0 ? triggerCharacters : undefined
+    }
+
+    this.providers.set(registration.handle, { registration, provider })
+    this.send({ type: 'register-language-provider', payload: registration })
+
+    return {
+      dispose: () => {
+        if (this.providers.delete(registration.handle)) {
+          this.send({ type: 'unregister-language-provider', payload: { handle: registration.handle } })
+        }
+      }
+    }
+  }
+
+  async provide(request: LanguageFeatureRequest): Promise<void> {
+    const entry = this.providers.get(request.handle)
+    if (!entry) {
+      this.send({
+        type: 'language-feature-result',
+        payload: { requestId: request.requestId, result: null, error: `Unknown language provider: ${request.handle}` }
+      })
+      return
+    }
+
+    const tokenSource = new CancellationTokenSource()
+    this.pendingRequests.set(request.requestId, tokenSource)
+
+    try {
+      const provided = await this.measure(entry.registration.extensionId, () => this.invoke(entry, request, tokenSource))
+      const result = tokenSource.token.isCancellationRequested ? null : provided
+      this.send({ type: 'language-feature-result', payload: { requestId: request.requestId, result } })
+    } catch (error) {
+      this.send({
+        type: 'language-feature-result',
+        payload: {
+          requestId: request.requestId,
+          result: null,
+          error: `${entry.registration.extensionId}: ${error instanceof Error ? error.message : String(error)}`
+        }
+      })
+    } finally {
+      this.pendingRequests.delete(request.requestId)
+      tokenSource.dispose()
+    }
+  }
+
+  cancel(requestId: string): void {
+    this.pendingRequests.get(requestId)?.cancel()
+  }
+
+  // Call the provider and convert what it returns; `null` when it has nothing to offer
+  private async invoke(
+    entry: RegisteredProvider,
+    request: LanguageFeatureRequest,
+    tokenSource: CancellationTokenSource
+  ): Promise<LanguageFeatureResult | null> {
+    const { provider } = entry
+    const document = createTextDocument(request.document)
+    const token = tokenSource.token
+    const position = request.position ? new Position(request.position.line, request.position.character) : new Position(0, 0)
+
+    switch (entry.registration.kind) {
+      case 'completion': {
+        const list = await provider.provideCompletionItems?.(document, position, token, {
+          triggerKind: request.triggerCharacter ? 1 : 0,
+          triggerCharacter: request.triggerCharacter
+        })
+        if (!list) return null
+        const items = Array.isArray(list) ? list : list.items || []
+        return {
+          kind: 'completion',
+          items: items.map(toCompletionItemDTO),
+          isIncomplete: !Array.isArray(list) && !!list.isIncomplete
+        }
+      }
+      case 'hover': {
+        const hover = await provider.provideHover?.(document, position, token)
+        if (!hover) return null
+        const contents: MarkedString[] = Array.isArray(hover.contents) ? hover.contents : [hover.contents]
+        return {
+          kind: 'hover',
+          contents: contents.map(toMarkdown).filter(c => c.length > 0),
+          range: toRangeDTO(hover.range)
+        }
+      }
+      case 'definition': {
+        const definition = await provider.provideDefinition?.(document, position, token)
+        return definition ? { kind: 'definition', locations: toLocationDTOs(definition) } : null
+      }
+      case 'references': {
+        const references = await provider.provideReferences?.(document, position, { includeDeclaration: true }, token)
+        return references ? { kind: 'references', locations: toLocationDTOs(references) } : null
+      }
+      case 'codeAction': {
+        const range = request.range ? toRange(request.range) : new Range(position, position)
+        const diagnostics = (request.diagnostics || []).map(d => {
+          const diagnostic = new Diagnostic(toRange(d.range), d.message, d.severity)
+          diagnostic.source = d.source
+          return diagnostic
+        })
+        const actions = await provider.provideCodeActions?.(document, range, {
+          diagnostics,
+          only: request.only ? new CodeActionKind(request.only) : undefined,
+          triggerKind: 1
+        }, token)
+        if (!actions) return null
+        return { kind: 'codeAction', actions: (Array.isArray(actions) ? actions : []).map(toCodeActionDTO) }
+      }
+      case 'formatting': {
+        const edits = await provider.provideDocumentFormattingEdits?.(document, request.options || { tabSize: 4, insertSpaces: true }, token)
+        if (!edits) return null
+        return {
+          kind: 'formatting',
+          edits: (Array.isArray(edits) ? edits : [])
+            .map(edit => toTextEditDTO(edit))
+            .filter((e): e is TextEditDTO => !!e)
+        }
+      }
+    }
+  }
+}
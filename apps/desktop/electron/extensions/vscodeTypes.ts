@@ -0,0 +1,491 @@
+/**
+ * VS Code API value types
+ * Classes exposed on the `vscode` module inside the extension host.
+ * Shared by every extension so `instanceof` checks work across providers.
+ */
+
+import * as path from 'path'
+import type { TextDocumentSnapshot } from '../../src/types/extensionHost'
+
+export class Position {
+  constructor(public line: number, public character: number) {}
+  isBefore(other: Position) { return this.line < other.line || (this.line === other.line && this.character < other.character) }
+  isBeforeOrEqual(other: Position) { return this.line < other.line || (this.line === other.line && this.character <= other.character) }
+  isAfter(other: Position) { return !this.isBeforeOrEqual(other) }
+  isAfterOrEqual(other: Position) { return !this.isBefore(other) }
+  isEqual(other: Position) { return this.line === other.line && this.character === other.character }
+  compareTo(other: Position) { return this.isBefore(other) ? -1 : (this.isAfter(other) ? 1 : 0) }
+  translate(lineDelta: number = 0, characterDelta: number = 0) { return new Position(this.line + lineDelta, this.character + characterDelta) }
+  with(change: { line?: number, character?: number }) { return new Position(change.line ?? this.line, change.character ?? this.character) }
+}
+
+export class Range {
+  start: Position
+  end: Position
+  constructor(startLine: number | Position, startChar: number | Position, endLine?: number, endChar?: number) {
+    if (startLine instanceof Position && startChar instanceof Position) {
+      this.start = startLine
+      this.end = startChar
+    } else if (typeof startLine === 'number' && typeof startChar === 'number' && typeof endLine === 'number' && typeof endChar === 'number') {
+      this.start = new Position(startLine, startChar)
+      this.end = new Position(endLine, endChar)
+    } else {
+        throw new Error('Invalid arguments for Range constructor')
+    }
+  }
+  isEmpty() { return this.start.isEqual(this.end) }
+  isSingleLine() { return this.start.line === this.end.line }
+  contains(positionOrRange: Position | Range) {
+      if (positionOrRange instanceof Position) {
+          return positionOrRange.isAfterOrEqual(this.start) && positionOrRange.isBeforeOrEqual(this.end)
+      }
+      return positionOrRange.start.isAfterOrEqual(this.start) && positionOrRange.end.isBeforeOrEqual(this.end)
+  }
+  with(change: { start?: Position, end?: Position }) { return new Range(change.start ?? this.start, change.end ?? this.end) }
+}
+
+export class Selection extends Range {
+    anchor: Position;
+    active: Position;
+    isReversed: boolean;
+    constructor(anchor: Position, active: Position) {
+        super(anchor, active);
+        this.anchor = anchor;
+        this.active = active;
+        this.isReversed = anchor.isAfter(active);
+    }
+}
+
+export class Disposable {
+    constructor(private callOnDispose: () => void) {}
+    dispose() { this.callOnDispose() }
+    static from(...disposables: { dispose: () => any }[]) {
+        return new Disposable(() => {
+            for (const d of disposables) d.dispose();
+        });
+    }
+}
+
+export class EventEmitter<T> {
+    private listeners: Array<(e: T) => void> = []
+
+    get event() {
+      return (listener: (e: T) => void, thisArgs?: unknown, disposables?: Array<{ dispose(): void }>) => {
+        const bound = thisArgs ? listener.bind(thisArgs) : listener
+        this.listeners.push(bound)
+        const disposable = {
+          dispose: () => {
+            const index = this.listeners.indexOf(bound)
+            if (index > -1) this.listeners.splice(index, 1)
+          }
+        }
+        disposables?.push(disposable)
+        return disposable
+      }
+    }
+
+    fire(data: T): void {
+      this.listeners.slice().forEach(listener => listener(data))
+    }
+
+    dispose(): void {
+      this.listeners = []
+    }
+}
+
+export class Uri {
+    constructor(
+        public readonly scheme: string,
+        public readonly authority: string,
+        public readonly path: string,
+        public readonly query: string,
+        public readonly fragment: string
+    ) {}
+    get fsPath() { return this.scheme === 'file' ? (process.platform === 'win32' ? this.path.substring(1) : this.path) : this.path }
+    toString() { return `${this.scheme}://${this.authority}${this.path}${this.query ? '?' + this.query : ''}${this.fragment ? '#' + this.fragment : ''}` }
+    toJSON() { return { scheme: this.scheme, authority: this.authority, path: this.path, query: this.query, fragment: this.fragment, fsPath: this.fsPath } }
+    with(change: any) {
+        return new Uri(
+            change.scheme ?? this.scheme,
+            change.authority ?? this.authority,
+            change.path ?? this.path,
+            change.query ?? this.query,
+            change.fragment ?? this.fragment
+        )
+    }
+    static file(path: string) {
+        const normalized = path.replace(/\\/g, '/')
+        return new Uri('file', '', normalized.startsWith('/') ? normalized : `/${normalized}`, '', '')
+    }
+    static parse(uri: string) {
+        try {
+            const url = new URL(uri)
+            return new Uri(url.protocol.replace(':', ''), url.host, url.pathname, url.search, url.hash)
+        } catch {
+            return new Uri('file', '', uri, '', '')
+        }
+    }
+    static joinPath(uri: Uri, ...pathSegments: string[]) {
+        return uri.with({ path: path.join(uri.path, ...pathSegments).replace(/\\/g, '/') })
+    }
+    static from(components: any) {
+        return new Uri(components.scheme, components.authority, components.path, components.query, components.fragment)
+    }
+    static revive(data: any) { return data instanceof Uri ? data : new Uri(data.scheme, data.authority, data.path, data.query, data.fragment) }
+}
+
+export interface CancellationToken {
+  isCancellationRequested: boolean
+  onCancellationRequested: (listener: () => void) => { dispose(): void }
+}
+
+export class CancellationTokenSource {
+  private emitter = new EventEmitter<void>()
+  private cancelled = false
+
+  readonly token: CancellationToken = (() => {
+    const source = this
+    return {
+      get isCancellationRequested() { return source.cancelled },
+      onCancellationRequested: (listener: () => void) => {
+        if (source.cancelled) {
+          listener()
+          return { dispose: () => {} }
+        }
+        return source.emitter.event(listener)
+      }
+    }
+  })()
+
+  cancel(): void {
+    if (this.cancelled) return
+    this.cancelled = true
+    this.emitter.fire()
+  }
+
+  dispose(): void {
+    this.emitter.dispose()
+  }
+}
+
+export class MarkdownString {
+  isTrusted?: boolean
+  supportThemeIcons?: boolean
+  constructor(public value: string = '', supportThemeIcons: boolean = false) {
+    this.supportThemeIcons = supportThemeIcons
+  }
+  appendText(value: string) {
+    this.value += value.replace(/[\\`*_{}[\]()#+\-.!]/g, '\\$&')
+    return this
+  }
+  appendMarkdown(value: string) {
+    this.value += value
+    return this
+  }
+  appendCodeblock(code: string, language: string = '') {
+    this.value += `\n\`\`\`${language}\n${code}\n\`\`\`\n`
+    return this
+  }
+}
+
+export class SnippetString {
+  constructor(public value: string = '') {}
+  appendText(text: string) {
+    this.value += text.replace(/[$}\\]/g, '\\$&')
+    return this
+  }
+  appendPlaceholder(value: string, index: number = 1) {
+    this.value += `\${${index}:${value}}`
+    return this
+  }
+  appendTabstop(index: number = 0) {
+    this.value += `$${index}`
+    return this
+  }
+}
+
+export enum CompletionItemKind {
+  Text = 0, Method = 1, Function = 2, Constructor = 3, Field = 4, Variable = 5, Class = 6,
+  Interface = 7, Module = 8, Property = 9, Unit = 10, Value = 11, Enum = 12, Keyword = 13,
+  Snippet = 14, Color = 15, File = 16, Reference = 17, Folder = 18, EnumMember = 19,
+  Constant = 20, Struct = 21, Event = 22, Operator = 23, TypeParameter = 24
+}
+
+export class CompletionItem {
+  detail?: string
+  documentation?: string | MarkdownString
+  sortText?: string
+  filterText?: string
+  preselect?: boolean
+  insertText?: string | SnippetString
+  range?: Range | { inserting: Range; replacing: Range }
+  commitCharacters?: string[]
+  command?: { command: string; title: string; arguments?: unknown[] }
+  constructor(public label: string | { label: string; detail?: string; description?: string }, public kind?: CompletionItemKind) {}
+}
+
+export class CompletionList {
+  constructor(public items: CompletionItem[] = [], public isIncomplete: boolean = false) {}
+}
+
+export class Hover {
+  contents: Array<MarkdownString | string | { language: string; value: string }>
+  constructor(contents: MarkdownString | string | { language: string; value: string } | Array<MarkdownString | string | { language: string; value: string }>, public range?: Range) {
+    this.contents = Array.isArray(contents) ? contents : [contents]
+  }
+}
+
+export class Location {
+  range: Range
+  constructor(public uri: Uri, rangeOrPosition: Range | Position) {
+    this.range = rangeOrPosition instanceof Position ? new Range(rangeOrPosition, rangeOrPosition) : rangeOrPosition
+  }
+}
+
+export class TextEdit {
+  constructor(public range: Range, public newText: string) {}
+  static replace(range: Range, newText: string) { return new TextEdit(range, newText) }
+  static insert(position: Position, newText: string) { return new TextEdit(new Range(position, position), newText) }
+  static delete(range: Range) { return new TextEdit(range, '') }
+}
+
+export class WorkspaceEdit {
+  private textEdits: Map<string, { uri: Uri; edits: TextEdit[] }> = new Map()
+
+  get size() { return this.textEdits.size }
+
+  replace(uri: Uri, range: Range, newText: string): void {
+    this.edit(uri).push(new TextEdit(range, newText))
+  }
+  insert(uri: Uri, position: Position, newText: string): void {
+    this.edit(uri).push(TextEdit.insert(position, newText))
+  }
+  delete(uri: Uri, range: Range): void {
+    this.edit(uri).push(TextEdit.delete(range))
+  }
+  has(uri: Uri): boolean {
+    return this.textEdits.has(uri.toString())
+  }
+  set(uri: Uri, edits: TextEdit[]): void {
+    this.textEdits.set(uri.toString(), { uri, edits: [...edits] })
+  }
+  get(uri: Uri): TextEdit[] {
+    return this.textEdits.get(uri.toString())?.edits ?? []
+  }
+  entries(): Array<[Uri, TextEdit[]]> {
+    return Array.from(this.textEdits.values()).map(entry => [entry.uri, entry.edits])
+  }
+
+  private edit(uri: Uri): TextEdit[] {
+    const key = uri.toString()
+    if (!this.textEdits.has(key)) {
+      this.textEdits.set(key, { uri, edits: [] })
+    }
+    return this.textEdits.get(key)!.edits
+  }
+}
+
+export class CodeActionKind {
+  static readonly Empty = new CodeActionKind('')
+  static readonly QuickFix = new CodeActionKind('quickfix')
+  static readonly Refactor = new CodeActionKind('refactor')
+  static readonly RefactorExtract = new CodeActionKind('refactor.extract')
+  static readonly RefactorInline = new CodeActionKind('refactor.inline')
+  static readonly RefactorRewrite = new CodeActionKind('refactor.rewrite')
+  static readonly Source = new CodeActionKind('source')
+  static readonly SourceOrganizeImports = new CodeActionKind('source.organizeImports')
+  static readonly SourceFixAll = new CodeActionKind('source.fixAll')
+  constructor(public readonly value: string) {}
+  append(part: string) { return new CodeActionKind(this.value ? `${this.value}.${part}` : part) }
+  contains(other: CodeActionKind) { return this.value === other.value || other.value.startsWith(`${this.value}.`) }
+  intersects(other: CodeActionKind) { return this.contains(other) || other.contains(this) }
+}
+
+export enum DiagnosticSeverity {
+  Error = 0,
+  Warning = 1,
+  Information = 2,
+  Hint = 3
+}
+
+export class Diagnostic {
+  source?: string
+  code?: string | number
+  constructor(public range: Range, public message: string, public severity: DiagnosticSeverity = DiagnosticSeverity.Error) {}
+}
+
+export class CodeAction {
+  edit?: WorkspaceEdit
+  diagnostics?: Diagnostic[]
+  command?: { command: string; title: string; arguments?: unknown[] }
+  isPreferred?: boolean
+  constructor(public title: string, public kind?: CodeActionKind) {}
+}
+
+// Stubs for types not yet backed by a feature
+export class ParameterInformation {}
+export class SignatureInformation {}
+export class SymbolInformation {}
+export class ThemeColor {
+  constructor(public id: string) {}
+}
+
+// ==========================================
+// Tree views and webviews
+// ==========================================
+
+export class ThemeIcon {
+  static readonly File = new ThemeIcon('file')
+  static readonly Folder = new ThemeIcon('folder')
+  constructor(public readonly id: string, public readonly color?: ThemeColor) {}
+}
+
+export enum TreeItemCollapsibleState {
+  None = 0,
+  Collapsed = 1,
+  Expanded = 2
+}
+
+export class TreeItem {
+  label?: string | { label: string }
+  resourceUri?: Uri
+  id?: string
+  iconPath?: string | Uri | ThemeIcon | { light: string | Uri; dark: string | Uri }
+  description?: string | boolean
+  tooltip?: string | MarkdownString
+  command?: { command: string; title: string; arguments?: unknown[] }
+  contextValue?: string
+  collapsibleState?: TreeItemCollapsibleState
+
+  constructor(labelOrUri: string | { label: string } | Uri, collapsibleState: TreeItemCollapsibleState = TreeItemCollapsibleState.None) {
+    if (labelOrUri instanceof Uri) {
+      this.resourceUri = labelOrUri
+    } else {
+      this.label = labelOrUri
+    }
+    this.collapsibleState = collapsibleState
+  }
+}
+
+export enum ViewColumn {
+  Active = -1,
+  Beside = -2,
+  One = 1,
+  Two = 2,
+  Three = 3
+}
+
+export enum DebugConfigurationProviderTriggerKind {
+  Initial = 1,
+  Dynamic = 2
+}
+
+export class DebugAdapterExecutable {
+  constructor(
+    public readonly command: string,
+    public readonly args: string[] = [],
+    public readonly options?: { cwd?: string; env?: Record<string, string> }
+  ) {}
+}
+
+export class DebugAdapterServer {
+  constructor(public readonly port: number, public readonly host?: string) {}
+}
+
+export class DebugAdapterNamedPipeServer {
+  constructor(public readonly path: string) {}
+}
+
+export interface DebugAdapter {
+  onDidSendMessage: (listener: (message: unknown) => unknown) => { dispose(): void }
+  handleMessage(message: unknown): void
+  dispose(): void
+}
+
+export class DebugAdapterInlineImplementation {
+  constructor(public readonly implementation: DebugAdapter) {}
+}
+
+/**
+ * Build a read-only `vscode.TextDocument` from a snapshot sent by the renderer.
+ */
+export function createTextDocument(snapshot: TextDocumentSnapshot) {
+  const text = snapshot.text
+  const lines = text.split(/\r?\n/)
+  const lineOffsets: number[] = []
+  let offset = 0
+  const lineBreak = text.includes('\r\n') ? 2 : 1
+  for (const line of lines) {
+    lineOffsets.push(offset)
+    offset += line.length + lineBreak
+  }
+
+  const clampPosition = (position: Position) => {
+    const line = Math.min(Math.max(position.line, 0), lines.length - 1)
+    const character = Math.min(Math.max(position.character, 0), lines[line].length)
+    return new Position(line, character)
+  }
+
+  const offsetAt = (position: Position) => {
+    const clamped = clampPosition(position)
+    return lineOffsets[clamped.line] + clamped.character
+  }
+
+  const positionAt = (target: number) => {
+    const clamped = Math.min(Math.max(target, 0), text.length)
+    let line = 0
+    while (line + 1 < lineOffsets.length && lineOffsets[line + 1] <= clamped) line++
+    return new Position(line, Math.min(clamped - lineOffsets[line], lines[line].length))
+  }
+
+  const lineAt = (lineOrPosition: number | Position) => {
+    const lineNumber = typeof lineOrPosition === 'number' ? lineOrPosition : lineOrPosition.line
+    const lineText = lines[lineNumber] ?? ''
+    const firstNonWhitespace = lineText.search(/\S/)
+    return {
+      lineNumber,
+      text: lineText,
+      range: new Range(lineNumber, 0, lineNumber, lineText.length),
+      rangeIncludingLineBreak: new Range(lineNumber, 0, lineNumber + 1, 0),
+      firstNonWhitespaceCharacterIndex: firstNonWhitespace === -1 ? lineText.length : firstNonWhitespace,
+      isEmptyOrWhitespace: firstNonWhitespace === -1
+    }
+  }
+
+  const uri = Uri.file(snapshot.uri)
+
+  return {
+    uri,
+    fileName: snapshot.uri,
+    languageId: snapshot.languageId,
+    version: snapshot.version,
+    isDirty: false,
+    isUntitled: false,
+    isClosed: false,
+    eol: lineBreak === 2 ? 2 : 1,
+    lineCount: lines.length,
+    getText: (range?: Range) => range ? text.slice(offsetAt(range.start), offsetAt(range.end)) : text,
+    lineAt,
+    offsetAt,
+    positionAt,
+    validatePosition: clampPosition,
+    validateRange: (range: Range) => new Range(clampPosition(range.start), clampPosition(range.end)),
+    getWordRangeAtPosition: (position: Position, regex: RegExp = /[A-Za-z_$][\w$]*/g) => {
+      const lineText = lines[position.line] ?? ''
+      const pattern = new RegExp(regex.source, regex.flags.includes('g') ? regex.flags : `${regex.flags}g`)
+      let match: RegExpExecArray | null
+      while ((match = pattern.exec(lineText)) !== null) {
+        const start = match.index
+        const end = start + match[0].length
+        if (start <= position.character && position.character <= end && match[0].length > 0) {
+          return new Range(position.line, start, position.line, end)
+        }
+        if (match[0].length === 0) pattern.lastIndex++
+      }
+      return undefined
+    },
+    save: async () => false
+  }
+}
+
+export type TextDocument = ReturnType<typeof createTextDocument>
@@ -0,0 +1,84 @@
+/*
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+import { net } from 'electron'
+import type { IpcMain, WebContents } from 'electron'
+
+/**
+ * Requests to self-hosted OpenAI-compatible inference servers (Ollama,
+ * llama.cpp server, vLLM). These usually run on plain http hosts that the
+ * renderer's content security policy does not allow, so the renderer sends
+ * them through the main process and reads the body back as it streams in.
+ */
+
+interface EndpointRequest {
+    requestId: string
+    url: string
+    method?: 'GET' | 'POST'
+    headers?: Record<string, string>
+    body?: string
+}
+
+const activeRequests = new Map<string, AbortController>()
+
+function validateUrl(url: string): string | null {
+    try {
+        const { protocol } = new URL(url)
+        return protocol === 'http:' || protocol === 'https:' ? null : 'Only http and https endpoints are supported'
+    } catch {
+        return `Invalid endpoint URL: ${url}`
+    }
+}
+
+export function registerAIEndpointHandlers(ipcMain: IpcMain) {
+    ipcMain.on('ai-endpoint:request', async (event, request: EndpointRequest) => {
+        const { requestId } = request
+        const sender: WebContents = event.sender
+        const safeSend = (channel: string, data: unknown) => {
+            if (!sender.isDestroyed()) sender.send(channel, data)
+        }
+
+        const invalid = validateUrl(request.url)
+        if (invalid) {
+            safeSend('ai-endpoint:done', { requestId, error: invalid })
+            return
+        }
+
+        const controller = new AbortController()
+        activeRequests.set(requestId, controller)
+
+        try {
+            const response = await net.fetch(request.url, {
+                method: request.method || 'GET',
+                headers: request.headers,
+                body: request.body,
+                signal: controller.signal
+            })
+            safeSend('ai-endpoint:response', { requestId, status: response.status, statusText: response.statusText })
+
+            const reader = response.body?.getReader()
+            if (reader) {
+                const decoder = new TextDecoder()
+                for (;;) {
+                    const { done, value } = await reader.read()
+                    if (done) break
+                    safeSend('ai-endpoint:chunk', { requestId, chunk: decoder.decode(value, { stream: true }) })
+                }
+            }
+            safeSend('ai-endpoint:done', { requestId })
+        } catch (error) {
+            const message = controller.signal.aborted
+                ? 'Aborted'
+                : error instanceof Error ? error.message : String(error)
+            safeSend('ai-endpoint:done', { requestId, error: message })
+        } finally {
+            activeRequests.delete(requestId)
+        }
+    })
+
+    ipcMain.handle('ai-endpoint:cancel', (_event, requestId: string) => {
+        activeRequests.get(requestId)?.abort()
+        activeRequests.delete(requestId)
+        return { success: true }
+    })
+}
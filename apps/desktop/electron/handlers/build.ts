@@ -18,9 +18,21 @@ interface RunningTask {
   execution: TaskExecution;
 }
 
+// Lets the main process wait for a task it started, e.g. a debug preLaunchTask
+interface TaskListener {
+  // Background tasks are ready once their problem matcher's endsPattern matched, or right away without one
+  onReady?: () => void;
+  onExit?: (exitCode: number) => void;
+}
+
+// How long a background task may take to match its endsPattern before it is given up on
+const BACKGROUND_TASK_READY_TIMEOUT_MS = 2 * 60 * 1000;
+
 class BuildTaskManager {
   private runningTasks: Map<string, RunningTask> = new Map();
   private taskIdCounter = 0;
+  // Readiness of background tasks started by runTask, by workspace and label, until they exit
+  private backgroundTasks: Map<string, Promise<number>> = new Map();
 
   /**
    * Load tasks.json from workspace
@@ -233,13 +245,104 @@ class BuildTaskManager {
     return autoDetected;
   }
 
+  /**
+   * Run a task by label, after its dependsOn tasks, and wait for it.
+   * Resolves with the exit code; background tasks resolve with 0 once they are ready,
+   * right away if the same task is already running.
+   */
+  async runTask(label: string, workspacePath: string, window: BrowserWindow): Promise<number> {
+    const tasks = await this.getAllTasks(workspacePath);
+    return this.runTaskWithDependencies(label, tasks, workspacePath, window, []);
+  }
+
+  private async runTaskWithDependencies(
+    label: string,
+    tasks: Task[],
+    workspacePath: string,
+    window: BrowserWindow,
+    chain: string[]
+  ): Promise<number> {
+    const task = tasks.find((t) => t.label === label);
+    if (!task) {
+      throw new Error(`Could not find the task '${label}'`);
+    }
+    if (chain.includes(label)) {
+      throw new Error(`Task dependencies form a cycle: ${[...chain, label].join(' -> ')}`);
+    }
+
+    const dependencies = task.dependsOn ? ([] as string[]).concat(task.dependsOn) : [];
+    const runDependency = (dependency: string) =>
+      this.runTaskWithDependencies(dependency, tasks, workspacePath, window, [...chain, label]);
+
+    if (task.dependsOrder === 'sequence') {
+      for (const dependency of dependencies) {
+        const exitCode = await runDependency(dependency);
+        if (exitCode !== 0) return exitCode;
+      }
+    } else {
+      const exitCodes = await Promise.all(dependencies.map(runDependency));
+      const failed = exitCodes.find((code) => code !== 0);
+      if (failed !== undefined) return failed;
+    }
+
+    // A task that only groups its dependencies has nothing to run itself
+    if (!task.command) {
+      return 0;
+    }
+
+    if (!task.isBackground) {
+      return new Promise<number>((resolve, reject) => {
+        this.executeTask(task, workspacePath, window, { onExit: resolve }).catch(reject);
+      });
+    }
+
+    // Debug sessions of a compound often share a watch task; one instance serves them all
+    const key = `${workspacePath}::${label}`;
+    const running = this.backgroundTasks.get(key);
+    if (running) {
+      return running;
+    }
+
+    let taskId: string | undefined;
+    const ready: Promise<number> = new Promise<number>((resolve, reject) => {
+      const finish = () => {
+        clearTimeout(timeout);
+        if (this.backgroundTasks.get(key) === ready) this.backgroundTasks.delete(key);
+      };
+      const timeout = setTimeout(() => {
+        finish();
+        if (taskId) this.killTask(taskId);
+        reject(new Error(`Background task '${label}' did not report that it was ready within ${BACKGROUND_TASK_READY_TIMEOUT_MS / 1000}s`));
+      }, BACKGROUND_TASK_READY_TIMEOUT_MS);
+
+      this.executeTask(task, workspacePath, window, {
+        onReady: () => {
+          clearTimeout(timeout);
+          resolve(0);
+        },
+        onExit: (exitCode) => {
+          finish();
+          resolve(exitCode);
+        },
+      }).then((id) => {
+        taskId = id;
+      }).catch((error) => {
+        finish();
+        reject(error);
+      });
+    });
+    this.backgroundTasks.set(key, ready);
+    return ready;
+  }
+
   /**
    * Execute a task
    */
   async executeTask(
     task: Task,
     workspacePath: string,
-    window: BrowserWindow
+    window: BrowserWindow,
+    listener?: TaskListener
   ): Promise<string> {
     const taskId = `task-${++this.taskIdCounter}`;
 
@@ -297,6 +400,10 @@ class BuildTaskManager {
 
     // Create problem matcher
     const problemMatcher = this.createProblemMatcher(task.problemMatcher);
+    const endsPattern = task.isBackground ? this.getBackgroundEndsPattern(problemMatcher) : undefined;
+    if (task.isBackground && !endsPattern) {
+      listener?.onReady?.();
+    }
 
     // Handle stdout
     childProcess.stdout.on('data', (data: Buffer) => {
@@ -306,6 +413,9 @@ class BuildTaskManager {
         type: 'stdout',
         data: output,
       });
+      if (endsPattern?.test(output)) {
+        listener?.onReady?.();
+      }
 
       // Parse problems
       if (problemMatcher) {
@@ -328,6 +438,9 @@ class BuildTaskManager {
         type: 'stderr',
         data: output,
       });
+      if (endsPattern?.test(output)) {
+        listener?.onReady?.();
+      }
 
       // Parse problems from stderr too
       if (problemMatcher) {
@@ -364,6 +477,7 @@ class BuildTaskManager {
       });
 
       this.runningTasks.delete(taskId);
+      listener?.onExit?.(code ?? 1);
     });
 
     childProcess.on('error', (error) => {
@@ -380,6 +494,7 @@ class BuildTaskManager {
       });
 
       this.runningTasks.delete(taskId);
+      listener?.onExit?.(1);
     });
 
     return taskId;
@@ -436,6 +551,21 @@ class BuildTaskManager {
     return matcher;
   }
 
+  /**
+   * Pattern a background task prints when a pass is complete
+   */
+  private getBackgroundEndsPattern(matcher: ProblemMatcher | null): RegExp | undefined {
+    const pattern = matcher?.background?.endsPattern;
+    const source = typeof pattern === 'string' ? pattern : pattern?.regexp;
+    if (!source) return undefined;
+
+    try {
+      return new RegExp(source, 'm');
+    } catch {
+      return undefined;
+    }
+  }
+
   /**
    * Get built-in problem matchers
    */
@@ -633,8 +763,8 @@ class BuildTaskManager {
   }
 }
 
-// Singleton instance
-const buildTaskManager = new BuildTaskManager();
+// Singleton instance, also used by the debugger for preLaunchTask and postDebugTask
+export const buildTaskManager = new BuildTaskManager();
 
 export function setupBuildHandlers(
   ipc: typeof ipcMain,
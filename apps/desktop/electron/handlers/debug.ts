@@ -6,14 +6,30 @@ import { spawn, ChildProcessWithoutNullStreams } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as net from 'net';
+import * as crypto from 'crypto';
 import { binaryManager } from '../services/binary-manager';
+import { extensionHostManager } from '../extensions/extensionHostManager';
+import { buildTaskManager } from './build';
 import {
   DebugConfiguration,
   LaunchConfiguration,
+  CompoundDebugConfiguration,
   Breakpoint,
+  FunctionBreakpoint,
+  ExceptionBreakpointSetting,
+  WorkspaceBreakpoints,
+  DebugCapabilities,
+  DataBreakpoint,
+  DataBreakpointInfo,
   DebugSession,
+  DebugSessionSummary,
   StackFrame,
   Variable,
+  EvaluateContext,
+  EvaluateResult,
+  SetValueResult,
+  CompletionItem,
+  AttachableProcess,
   DAPRequest,
   DAPResponse,
   DAPEvent,
@@ -25,6 +41,15 @@ interface DebugAdapter {
   messageBuffer: string;
   sequenceNumber: number;
   pendingRequests: Map<number, { resolve: (response: DAPResponse) => void; reject: (error: Error) => void }>;
+  // Adapters running inside the extension host exchange messages over IPC instead of a stream
+  inline?: { send: (message: DAPRequest) => void; dispose: () => void };
+}
+
+// A running compound; stopAll ends every session once one of them ends
+interface CompoundRun {
+  name: string;
+  sessionIds: string[];
+  stopAll: boolean;
 }
 
 interface WatchExpression {
@@ -42,6 +67,11 @@ class DebugSessionManager {
   private sessionIdCounter = 0;
   private watchExpressions: Map<string, WatchExpression[]> = new Map();
   private eventListeners: Map<string, Map<string, ((event: DAPEvent) => void)[]>> = new Map();
+  private workspaceBreakpoints: Map<string, WorkspaceBreakpoints> = new Map();
+  // Window of each session that has not ended yet
+  private sessionWindows: Map<string, BrowserWindow> = new Map();
+  private compounds: Map<string, CompoundRun> = new Map();
+  private compoundIdCounter = 0;
 
   /**
    * Load launch.json from workspace
@@ -89,6 +119,26 @@ class DebugSessionManager {
           skipFiles: ['<node_internals>/**'],
         });
 
+        configs.push({
+          type: 'node',
+          request: 'attach',
+          name: 'Attach to Node.js Process',
+          processId: '${command:pickProcess}',
+          skipFiles: ['<node_internals>/**'],
+        });
+
+        // For a process started with --inspect=0.0.0.0:9229 inside a container
+        configs.push({
+          type: 'node',
+          request: 'attach',
+          name: 'Attach to Node.js in Container',
+          address: 'localhost',
+          port: 9229,
+          localRoot: '${workspaceFolder}',
+          remoteRoot: '/app',
+          skipFiles: ['<node_internals>/**'],
+        });
+
         // Check for TypeScript
         const tsconfigPath = path.join(workspacePath, 'tsconfig.json');
         if (fs.existsSync(tsconfigPath)) {
@@ -120,6 +170,20 @@ class DebugSessionManager {
         program: '${file}',
         console: 'integratedTerminal',
       });
+      configs.push({
+        type: 'debugpy',
+        request: 'attach',
+        name: 'Python: Attach to Process',
+        processId: '${command:pickProcess}',
+      });
+      // For `python -m debugpy --listen 0.0.0.0:5678` inside a container
+      configs.push({
+        type: 'debugpy',
+        request: 'attach',
+        name: 'Python: Attach to Container',
+        connect: { host: 'localhost', port: 5678 },
+        pathMappings: [{ localRoot: '${workspaceFolder}', remoteRoot: '/app' }],
+      });
     }
 
     // Detect Rust
@@ -134,6 +198,12 @@ class DebugSessionManager {
         cwd: '${workspaceFolder}',
         preLaunchTask: 'cargo build',
       });
+      configs.push({
+        type: 'lldb',
+        request: 'attach',
+        name: 'Attach to Rust Process',
+        pid: '${command:pickProcess}',
+      });
     }
 
     // Detect Go
@@ -146,6 +216,13 @@ class DebugSessionManager {
         mode: 'debug',
         program: '${workspaceFolder}',
       });
+      configs.push({
+        type: 'delve',
+        request: 'attach',
+        name: 'Attach to Go Process',
+        mode: 'local',
+        processId: '${command:pickProcess}',
+      });
     }
 
     // Detect C/C++
@@ -162,6 +239,14 @@ class DebugSessionManager {
         cwd: '${workspaceFolder}',
         MIMode: process.platform === 'darwin' ? 'lldb' : 'gdb',
       });
+      configs.push({
+        type: 'cppdbg',
+        request: 'attach',
+        name: 'Attach to C/C++ Process',
+        processId: '${command:pickProcess}',
+        program: '${workspaceFolder}/a.out',
+        MIMode: process.platform === 'darwin' ? 'lldb' : 'gdb',
+      });
     }
 
     return configs;
@@ -174,11 +259,84 @@ class DebugSessionManager {
     const autoDetected = await this.autoDetectConfigurations(workspacePath);
     const config = await this.loadLaunchConfiguration(workspacePath);
 
+    // Extension providers are optional; a broken one must not hide launch.json
+    let contributed: DebugConfiguration[] = [];
+    try {
+      contributed = (await extensionHostManager.provideDebugConfigurations(workspacePath))
+        .filter((c): c is Record<string, unknown> & DebugConfiguration =>
+          typeof c.type === 'string' && typeof c.name === 'string' && (c.request === 'launch' || c.request === 'attach'));
+    } catch (error) {
+      console.error('Failed to get extension debug configurations:', error);
+    }
+
     if (config && config.configurations) {
-      return [...config.configurations, ...autoDetected];
+      return [...config.configurations, ...autoDetected, ...contributed];
+    }
+
+    return [...autoDetected, ...contributed];
+  }
+
+  /**
+   * Compound configurations from launch.json
+   */
+  async getCompounds(workspacePath: string): Promise<CompoundDebugConfiguration[]> {
+    const config = await this.loadLaunchConfiguration(workspacePath);
+    return config?.compounds ?? [];
+  }
+
+  /**
+   * Start the configurations of a compound one after another. The compound's
+   * preLaunchTask runs first; if a configuration fails to start, the sessions
+   * already started are stopped again.
+   */
+  async startCompound(
+    name: string,
+    workspacePath: string,
+    window: BrowserWindow,
+    activeFile?: string,
+    commandValues: Record<string, Record<string, string>> = {}
+  ): Promise<{ compoundId: string; sessionIds: string[] }> {
+    const compound = (await this.getCompounds(workspacePath)).find(c => c.name === name);
+    if (!compound) {
+      throw new Error(`Could not find the compound configuration '${name}'`);
+    }
+
+    const configurations = await this.getAllConfigurations(workspacePath);
+    const members = compound.configurations.map(member => {
+      const configuration = configurations.find(c => c.name === member);
+      if (!configuration) {
+        throw new Error(`Compound '${name}' refers to the unknown configuration '${member}'`);
+      }
+      return configuration;
+    });
+
+    if (compound.preLaunchTask) {
+      await this.runDebugTask(compound.preLaunchTask, 'preLaunchTask', workspacePath, window);
+    }
+
+    const compoundId = `compound-${++this.compoundIdCounter}`;
+    const run: CompoundRun = { name, sessionIds: [], stopAll: compound.stopAll ?? false };
+    this.compounds.set(compoundId, run);
+
+    const sessionIds: string[] = [];
+    try {
+      for (const configuration of members) {
+        sessionIds.push(await this.startSession(
+          configuration,
+          workspacePath,
+          window,
+          activeFile,
+          commandValues[configuration.name],
+          compoundId
+        ));
+      }
+    } catch (error) {
+      this.compounds.delete(compoundId);
+      await Promise.all(run.sessionIds.map(id => this.stopSession(id)));
+      throw error;
     }
 
-    return autoDetected;
+    return { compoundId, sessionIds };
   }
 
   /**
@@ -188,7 +346,9 @@ class DebugSessionManager {
     configuration: DebugConfiguration,
     workspacePath: string,
     window: BrowserWindow,
-    activeFile?: string
+    activeFile?: string,
+    commandValues: Record<string, string> = {},
+    compoundId?: string
   ): Promise<string> {
     const sessionId = `debug-${++this.sessionIdCounter}`;
 
@@ -200,23 +360,39 @@ class DebugSessionManager {
       breakpoints: new Map(),
       variables: [],
       callStack: [],
+      workspacePath,
+      compoundId,
     };
 
     this.sessions.set(sessionId, session);
-
-    // Resolve configuration variables
-    const resolvedConfig = this.resolveConfigurationVariables(configuration, workspacePath, activeFile);
+    this.sessionWindows.set(sessionId, window);
+    if (compoundId) {
+      this.compounds.get(compoundId)?.sessionIds.push(sessionId);
+    }
+    this.broadcastSessions(window);
 
     try {
+      // Extension configuration providers get to rewrite the configuration before and after substitution
+      const provided = await this.resolveWithExtensions(configuration, workspacePath, false);
+      const substituted = this.normalizeAttachConfiguration(
+        this.resolveConfigurationVariables(provided, workspacePath, activeFile, commandValues)
+      );
+      const resolvedConfig = await this.resolveWithExtensions(substituted, workspacePath, true);
+      session.configuration = resolvedConfig;
+
+      if (resolvedConfig.preLaunchTask) {
+        await this.runDebugTask(resolvedConfig.preLaunchTask, 'preLaunchTask', workspacePath, window);
+      }
+
       // Launch debug adapter
-      const adapter = await this.launchDebugAdapter(resolvedConfig, workspacePath, window);
+      const adapter = await this.launchDebugAdapter(sessionId, resolvedConfig, workspacePath, window);
       this.adapters.set(sessionId, adapter);
 
       // Set up message handling with sessionId for response tracking
       this.setupAdapterCommunication(adapter, window, sessionId);
 
       // Send initialize request
-      await this.sendDAPRequest(sessionId, 'initialize', {
+      const initializeResponse = await this.sendDAPRequest(sessionId, 'initialize', {
         clientID: 'kalynt-ide',
         clientName: 'Kalynt IDE',
         adapterID: resolvedConfig.type,
@@ -228,6 +404,8 @@ class DebugSessionManager {
         supportsRunInTerminalRequest: true,
         locale: 'en-US',
       });
+      session.capabilities = initializeResponse.body || {};
+      window.webContents.send('debug:capabilities', { sessionId, capabilities: session.capabilities });
 
       // Prepare to wait for the initialized event before concluding configuration.
       // Some adapters fire this right after 'initialize', some fire it after 'launch'.
@@ -243,28 +421,138 @@ class DebugSessionManager {
       // Await initialized event to ensure adapter is ready for configuration
       await initializedPromise;
 
+      // Breakpoints have to be in place before configurationDone lets the program run
+      const verified = await this.applyBreakpoints(sessionId, this.loadWorkspaceBreakpoints(workspacePath));
+      window.webContents.send('debug:breakpoints-verified', { sessionId, verified });
+
       // Send configuration done
       await this.sendDAPRequest(sessionId, 'configurationDone', {});
 
       session.state = 'running';
 
       window.webContents.send('debug:started', { sessionId, configuration: resolvedConfig });
+      this.broadcastSessions(window);
 
       return sessionId;
     } catch (error: any) {
       session.state = 'error';
+      // A session that never started does not run its postDebugTask or stop its compound
+      this.sessionWindows.delete(sessionId);
+      const compound = compoundId ? this.compounds.get(compoundId) : undefined;
+      if (compound) {
+        compound.sessionIds = compound.sessionIds.filter(id => id !== sessionId);
+      }
       window.webContents.send('debug:error', {
         sessionId,
         error: error.message,
       });
+      this.broadcastSessions(window);
       throw error;
     }
   }
 
+  /**
+   * Run a preLaunchTask or postDebugTask and wait for it
+   */
+  private async runDebugTask(
+    label: string,
+    kind: 'preLaunchTask' | 'postDebugTask',
+    workspacePath: string,
+    window: BrowserWindow
+  ): Promise<void> {
+    const exitCode = await buildTaskManager.runTask(label, workspacePath, window);
+    if (exitCode !== 0) {
+      throw new Error(`${kind} '${label}' terminated with exit code ${exitCode}`);
+    }
+  }
+
+  /**
+   * A session is over, because it was stopped or its debuggee exited. Adapters
+   * report this several ways (terminated event, exit, socket close); only the
+   * first one counts. Runs the postDebugTask and applies the compound's stopAll.
+   */
+  private async endSession(sessionId: string, details: Record<string, unknown> = {}): Promise<void> {
+    const window = this.sessionWindows.get(sessionId);
+    const session = this.sessions.get(sessionId);
+    if (!window || !session) {
+      return;
+    }
+
+    this.sessionWindows.delete(sessionId);
+    session.state = 'terminated';
+    // Sessions stopped while the app quits have no window left to report to
+    const windowOpen = !window.isDestroyed();
+    if (windowOpen) {
+      window.webContents.send('debug:terminated', { ...details, sessionId });
+      this.broadcastSessions(window);
+    }
+
+    const postDebugTask = session.configuration.postDebugTask;
+    if (postDebugTask && session.workspacePath && windowOpen) {
+      this.runDebugTask(postDebugTask, 'postDebugTask', session.workspacePath, window).catch((error) => {
+        window.webContents.send('debug:error', { sessionId, error: error.message });
+      });
+    }
+
+    const compound = session.compoundId ? this.compounds.get(session.compoundId) : undefined;
+    if (compound) {
+      compound.sessionIds = compound.sessionIds.filter(id => id !== sessionId);
+      if (compound.stopAll || compound.sessionIds.length === 0) {
+        // Dropped first so the sessions stopped here do not cascade again
+        this.compounds.delete(session.compoundId!);
+        await Promise.all(compound.stopAll ? compound.sessionIds.map(id => this.stopSession(id)) : []);
+      }
+    }
+  }
+
+  /**
+   * Sessions that have not ended, for the sessions tree
+   */
+  getSessionSummaries(): DebugSessionSummary[] {
+    return Array.from(this.sessions.values())
+      .filter(session => session.state !== 'terminated' && session.state !== 'error')
+      .map(session => ({
+        id: session.id,
+        name: session.configuration.name,
+        type: session.configuration.type,
+        request: session.configuration.request,
+        state: session.state,
+        compoundId: session.compoundId,
+        compoundName: session.compoundId ? this.compounds.get(session.compoundId)?.name : undefined,
+      }));
+  }
+
+  private broadcastSessions(window: BrowserWindow): void {
+    if (!window.isDestroyed()) {
+      window.webContents.send('debug:sessions', this.getSessionSummaries());
+    }
+  }
+
+  /**
+   * Run the extension configuration resolvers for a configuration.
+   * A resolver returning nothing cancels the launch, as in VS Code.
+   */
+  private async resolveWithExtensions(
+    configuration: DebugConfiguration,
+    workspacePath: string,
+    substituted: boolean
+  ): Promise<DebugConfiguration> {
+    const resolved = await extensionHostManager.resolveDebugConfiguration(
+      configuration as unknown as Record<string, unknown>,
+      workspacePath,
+      substituted
+    );
+    if (!resolved) {
+      throw new Error(`Debug session '${configuration.name}' was cancelled by a configuration provider`);
+    }
+    return resolved as unknown as DebugConfiguration;
+  }
+
   /**
    * Launch debug adapter process
    */
   private async launchDebugAdapter(
+    sessionId: string,
     configuration: DebugConfiguration,
     workspacePath: string,
     _window: BrowserWindow
@@ -810,6 +1098,9 @@ class DebugSessionManager {
         break;
 
       default:
+        if (extensionHostManager.hasDebugger(type)) {
+          return this.launchExtensionDebugAdapter(sessionId, configuration, workspacePath, _window, adapter);
+        }
         requiredBinary = `${type}-debug-adapter`;
         installInstructions = `Debugging for '${type}' requires an external Debug Adapter Protocol (DAP) server.\nPlease install the appropriate DAP-compliant debugger for your system.`;
         _window.webContents.send('debug:adapter-missing', { 
@@ -863,6 +1154,116 @@ class DebugSessionManager {
     return adapter;
   }
 
+  /**
+   * Start the adapter an extension contributes for the configuration's type,
+   * as described by its descriptor factory or its package.json.
+   */
+  private async launchExtensionDebugAdapter(
+    sessionId: string,
+    configuration: DebugConfiguration,
+    workspacePath: string,
+    window: BrowserWindow,
+    adapter: DebugAdapter
+  ): Promise<DebugAdapter> {
+    const { type } = configuration;
+    const descriptor = await extensionHostManager.createDebugAdapter(
+      sessionId,
+      configuration as unknown as Record<string, unknown>,
+      workspacePath,
+      {
+        onMessage: (message) => this.handleAdapterMessage(message as DAPResponse | DAPEvent, window, sessionId),
+        onExit: () => void this.endSession(sessionId),
+      }
+    );
+
+    if (!descriptor) {
+      const installInstructions = `The extension contributing the '${type}' debugger did not provide a debug adapter.`;
+      window.webContents.send('debug:adapter-missing', { type, requiredBinary: `${type} debug adapter`, installInstructions });
+      throw new Error(installInstructions);
+    }
+
+    switch (descriptor.kind) {
+      case 'inline':
+        adapter.inline = {
+          send: (message) => extensionHostManager.sendDebugAdapterMessage(sessionId, message),
+          dispose: () => extensionHostManager.disposeDebugAdapter(sessionId),
+        };
+        return adapter;
+
+      case 'server':
+        adapter.socket = await this.connectToAdapter(
+          (socket) => socket.connect(descriptor.port, descriptor.host || '127.0.0.1'),
+          `${type} debug adapter on port ${descriptor.port}`
+        );
+        return adapter;
+
+      case 'pipe':
+        adapter.socket = await this.connectToAdapter(
+          (socket) => socket.connect(descriptor.path),
+          `${type} debug adapter at ${descriptor.path}`
+        );
+        return adapter;
+
+      case 'executable': {
+        const command = path.isAbsolute(descriptor.command)
+          ? descriptor.command
+          : await this.resolveBinaryPath(descriptor.command);
+        console.log(`[Debug] Using extension debug adapter for '${type}': ${command}`);
+
+        const childProcess = spawn(command, descriptor.args, {
+          cwd: descriptor.cwd || configuration.cwd || workspacePath,
+          env: this.getSafeDebugEnv(descriptor.env),
+        });
+
+        childProcess.on('error', (err) => {
+          console.error(`[Debug][Spawn Error] ${err.message}`);
+          window.webContents.send('debug:error', { sessionId: 'initializing', error: `Debugger failed to start: ${err.message}` });
+        });
+
+        adapter.process = childProcess;
+        return adapter;
+      }
+    }
+  }
+
+  /**
+   * Connect to an adapter that listens on a socket, retrying while it starts up
+   */
+  private async connectToAdapter(connect: (socket: net.Socket) => void, label: string): Promise<net.Socket> {
+    const maxRetries = 10;
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      const socket = new net.Socket();
+      try {
+        await new Promise<void>((resolve, reject) => {
+          const timeout = setTimeout(() => {
+            socket.destroy();
+            reject(new Error('Timeout'));
+          }, 2000);
+
+          socket.once('connect', () => {
+            clearTimeout(timeout);
+            resolve();
+          });
+
+          socket.once('error', (err) => {
+            clearTimeout(timeout);
+            reject(err);
+          });
+
+          connect(socket);
+        });
+        return socket;
+      } catch (e) {
+        socket.destroy();
+        if (attempt === maxRetries) {
+          throw new Error(`Failed to connect to ${label} after ${maxRetries} attempts: ${e instanceof Error ? e.message : String(e)}`);
+        }
+        await new Promise(resolve => setTimeout(resolve, 500));
+      }
+    }
+    throw new Error(`Failed to connect to ${label}`);
+  }
+
   /**
    * Platform-specific search paths for debuggers
    */
@@ -1218,7 +1619,7 @@ class DebugSessionManager {
       });
       adapter.socket.on('close', () => {
         console.log(`[Debug][${sessionId}] Socket closed`);
-        window.webContents.send('debug:terminated', { sessionId });
+        void this.endSession(sessionId);
       });
 
       // Forward pure console output
@@ -1229,7 +1630,7 @@ class DebugSessionManager {
         window.webContents.send('debug:output', { type: 'stderr', output: data.toString() });
       });
       adapter.process?.on('exit', (code) => {
-        window.webContents.send('debug:terminated', { exitCode: code });
+        void this.endSession(sessionId, { exitCode: code });
       });
 
     } else if (adapter.process) {
@@ -1246,7 +1647,7 @@ class DebugSessionManager {
 
       adapter.process.on('exit', (code) => {
         console.log('Debug adapter exited with code:', code);
-        window.webContents.send('debug:terminated', { exitCode: code });
+        void this.endSession(sessionId, { exitCode: code });
       });
     }
   }
@@ -1364,14 +1765,24 @@ class DebugSessionManager {
           if (session && event.body?.threadId !== undefined) {
             session.threadId = event.body.threadId;
           }
+          if (session) {
+            session.state = 'stopped';
+            this.broadcastSessions(window);
+          }
           window.webContents.send('debug:stopped', event.body);
           break;
         }
-        case 'continued':
+        case 'continued': {
+          const session = this.sessions.get(sessionId);
+          if (session?.state === 'stopped') {
+            session.state = 'running';
+            this.broadcastSessions(window);
+          }
           window.webContents.send('debug:continued', event.body);
           break;
+        }
         case 'terminated':
-          window.webContents.send('debug:terminated', event.body);
+          void this.endSession(sessionId, event.body ?? {});
           break;
         case 'output':
           window.webContents.send('debug:output', event.body);
@@ -1379,6 +1790,15 @@ class DebugSessionManager {
         case 'breakpoint':
           window.webContents.send('debug:breakpoint', event.body);
           break;
+        case 'capabilities': {
+          // Adapters may announce capabilities that only become known after launch
+          const session = this.sessions.get(sessionId);
+          if (session && event.body?.capabilities) {
+            session.capabilities = { ...session.capabilities, ...event.body.capabilities };
+            window.webContents.send('debug:capabilities', { sessionId, capabilities: session.capabilities });
+          }
+          break;
+        }
       }
     } else if (message.type === 'response') {
       const response = message as DAPResponse;
@@ -1446,7 +1866,9 @@ class DebugSessionManager {
       const header = `Content-Length: ${Buffer.byteLength(message, 'utf8')}\r\n\r\n`;
       const packet = header + message;
 
-      if (adapter.socket) {
+      if (adapter.inline) {
+        adapter.inline.send(request);
+      } else if (adapter.socket) {
         adapter.socket.write(packet);
       } else if (adapter.process?.stdin) {
         adapter.process.stdin.write(packet);
@@ -1509,12 +1931,14 @@ class DebugSessionManager {
 
   /**
    * Set breakpoints
+   * Returns the breakpoints with the adapter's verification. Disabled breakpoints
+   * and ones using a feature the adapter lacks are not sent and come back unverified.
    */
   async setBreakpoints(
     sessionId: string,
     file: string,
     breakpoints: Breakpoint[]
-  ): Promise<void> {
+  ): Promise<Breakpoint[]> {
     const session = this.sessions.get(sessionId);
     if (!session) {
       throw new Error('Debug session not found');
@@ -1522,16 +1946,231 @@ class DebugSessionManager {
 
     session.breakpoints.set(file, breakpoints);
 
-    await this.sendDAPRequest(sessionId, 'setBreakpoints', {
+    const results = breakpoints.map((bp): Breakpoint => {
+      const unsupported = bp.enabled ? this.getUnsupportedFeature(bp, session.capabilities) : undefined;
+      return { ...bp, verified: false, message: unsupported && `${unsupported} are not supported by this debug type` };
+    });
+    const sent = results.filter((bp) => bp.enabled && !bp.message);
+
+    const response = await this.sendDAPRequest(sessionId, 'setBreakpoints', {
       source: { path: file },
-      breakpoints: breakpoints.map((bp) => ({
+      breakpoints: sent.map((bp) => ({
         line: bp.line,
         column: bp.column,
-        condition: bp.condition,
-        hitCondition: bp.hitCondition,
-        logMessage: bp.logMessage,
+        condition: bp.condition || undefined,
+        hitCondition: bp.hitCondition || undefined,
+        logMessage: bp.logMessage || undefined,
+      })),
+    });
+
+    // The adapter answers in request order
+    const verified: any[] = response.body?.breakpoints || [];
+    sent.forEach((bp, index) => {
+      bp.verified = !!verified[index]?.verified;
+      bp.message = verified[index]?.message;
+    });
+    return results;
+  }
+
+  /**
+   * Set function breakpoints
+   */
+  async setFunctionBreakpoints(
+    sessionId: string,
+    breakpoints: FunctionBreakpoint[]
+  ): Promise<FunctionBreakpoint[]> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error('Debug session not found');
+    }
+
+    const results = breakpoints.map((bp): FunctionBreakpoint => ({ ...bp, verified: false }));
+    if (!session.capabilities?.supportsFunctionBreakpoints) {
+      return results;
+    }
+
+    const sent = results.filter((bp) => bp.enabled && bp.name.trim() && !this.getUnsupportedFeature(bp, session.capabilities));
+    const response = await this.sendDAPRequest(sessionId, 'setFunctionBreakpoints', {
+      breakpoints: sent.map((bp) => ({
+        name: bp.name.trim(),
+        condition: bp.condition || undefined,
+        hitCondition: bp.hitCondition || undefined,
       })),
     });
+
+    const verified: any[] = response.body?.breakpoints || [];
+    sent.forEach((bp, index) => {
+      bp.verified = !!verified[index]?.verified;
+    });
+    return results;
+  }
+
+  /**
+   * Set exception breakpoints
+   * Only filters the adapter offers are sent; filters the user never touched use the adapter's default.
+   */
+  async setExceptionBreakpoints(
+    sessionId: string,
+    settings: Record<string, ExceptionBreakpointSetting>
+  ): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error('Debug session not found');
+    }
+
+    const filters = session.capabilities?.exceptionBreakpointFilters || [];
+    if (filters.length === 0) {
+      return;
+    }
+
+    const active = filters.filter((filter) => settings[filter.filter]?.enabled ?? !!filter.default);
+    if (session.capabilities?.supportsExceptionFilterOptions) {
+      await this.sendDAPRequest(sessionId, 'setExceptionBreakpoints', {
+        filters: [],
+        filterOptions: active.map((filter) => ({
+          filterId: filter.filter,
+          condition: filter.supportsCondition ? settings[filter.filter]?.condition || undefined : undefined,
+        })),
+      });
+    } else {
+      await this.sendDAPRequest(sessionId, 'setExceptionBreakpoints', {
+        filters: active.map((filter) => filter.filter),
+      });
+    }
+  }
+
+  /**
+   * Name of the first breakpoint feature the adapter does not support, if any.
+   * Unknown capabilities (before 'initialize' answered) are given the benefit of the doubt.
+   */
+  private getUnsupportedFeature(
+    bp: { condition?: string; hitCondition?: string; logMessage?: string },
+    capabilities: DebugCapabilities | undefined
+  ): string | undefined {
+    if (!capabilities) return undefined;
+    if (bp.condition && !capabilities.supportsConditionalBreakpoints) return 'Conditional breakpoints';
+    if (bp.hitCondition && !capabilities.supportsHitConditionalBreakpoints) return 'Hit count conditions';
+    if (bp.logMessage && !capabilities.supportsLogPoints) return 'Logpoints';
+    return undefined;
+  }
+
+  /**
+   * Send a workspace's breakpoints to a session and return which ones the adapter verified, by id.
+   * Files that no longer have breakpoints are sent an empty list so the adapter clears them.
+   */
+  private async applyBreakpoints(sessionId: string, breakpoints: WorkspaceBreakpoints): Promise<Record<string, boolean>> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error('Debug session not found');
+    }
+
+    const byFile = new Map<string, Breakpoint[]>();
+    for (const file of Array.from(session.breakpoints.keys())) {
+      byFile.set(file, []);
+    }
+    for (const bp of breakpoints.source) {
+      byFile.set(bp.file, [...(byFile.get(bp.file) || []), bp]);
+    }
+
+    const verified: Record<string, boolean> = {};
+    for (const [file, fileBreakpoints] of Array.from(byFile)) {
+      try {
+        const results = await this.setBreakpoints(sessionId, file, fileBreakpoints);
+        results.forEach((bp) => { verified[bp.id] = !!bp.verified; });
+      } catch (error: any) {
+        console.warn(`[Debug][${sessionId}] Failed to set breakpoints in ${file}: ${error.message}`);
+      }
+    }
+
+    try {
+      const functions = await this.setFunctionBreakpoints(sessionId, breakpoints.functions);
+      functions.forEach((bp) => { verified[bp.id] = !!bp.verified; });
+      await this.setExceptionBreakpoints(sessionId, breakpoints.exceptions);
+    } catch (error: any) {
+      console.warn(`[Debug][${sessionId}] Failed to set function or exception breakpoints: ${error.message}`);
+    }
+
+    return verified;
+  }
+
+  /**
+   * Breakpoints saved for a workspace
+   */
+  loadWorkspaceBreakpoints(workspacePath: string): WorkspaceBreakpoints {
+    const key = path.resolve(workspacePath);
+    const cached = this.workspaceBreakpoints.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    let breakpoints: WorkspaceBreakpoints = { source: [], functions: [], exceptions: {}, exceptionFilters: [] };
+    const filePath = this.getBreakpointsFilePath(workspacePath);
+    try {
+      if (fs.existsSync(filePath)) {
+        const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+        breakpoints = {
+          source: Array.isArray(parsed.source) ? parsed.source : [],
+          functions: Array.isArray(parsed.functions) ? parsed.functions : [],
+          exceptions: parsed.exceptions && typeof parsed.exceptions === 'object' ? parsed.exceptions : {},
+          exceptionFilters: Array.isArray(parsed.exceptionFilters) ? parsed.exceptionFilters : [],
+        };
+      }
+    } catch (error) {
+      console.error(`[Debug] Failed to read breakpoints of ${workspacePath}:`, error);
+    }
+
+    this.workspaceBreakpoints.set(key, breakpoints);
+    return breakpoints;
+  }
+
+  /**
+   * Persist a workspace's breakpoints and push them to its running sessions.
+   * Returns the verification across sessions: a breakpoint counts as verified if any session verified it.
+   */
+  async saveWorkspaceBreakpoints(workspacePath: string, breakpoints: WorkspaceBreakpoints): Promise<Record<string, boolean>> {
+    const key = path.resolve(workspacePath);
+    // Verification belongs to a session, not to the stored breakpoint
+    const stored: WorkspaceBreakpoints = {
+      source: breakpoints.source.map(({ verified: _verified, message: _message, ...bp }) => bp),
+      functions: breakpoints.functions.map(({ verified: _verified, ...bp }) => bp),
+      exceptions: breakpoints.exceptions || {},
+      exceptionFilters: breakpoints.exceptionFilters || [],
+    };
+    this.workspaceBreakpoints.set(key, stored);
+
+    const filePath = this.getBreakpointsFilePath(workspacePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(stored, null, 2), 'utf-8');
+
+    // Sessions still waiting for 'initialize' pick the breakpoints up before configurationDone
+    const sessions = Array.from(this.sessions.values()).filter(
+      (session) => session.capabilities && session.workspacePath && path.resolve(session.workspacePath) === key && this.adapters.has(session.id)
+    );
+
+    const verified: Record<string, boolean> = {};
+    for (const session of sessions) {
+      const result = await this.applyBreakpoints(session.id, stored);
+      for (const [id, isVerified] of Object.entries(result)) {
+        verified[id] = verified[id] || isVerified;
+      }
+    }
+    return verified;
+  }
+
+  private getBreakpointsFilePath(workspacePath: string): string {
+    const workspaceId = crypto.createHash('sha256').update(path.resolve(workspacePath)).digest('hex').slice(0, 16);
+    return path.join(app.getPath('userData'), 'debug-breakpoints', `${workspaceId}.json`);
+  }
+
+  /**
+   * Capabilities the session's adapter reported
+   */
+  getCapabilities(sessionId: string): DebugCapabilities {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error('Debug session not found');
+    }
+    return session.capabilities || {};
   }
 
   /**
@@ -1632,6 +2271,7 @@ class DebugSessionManager {
       if (adapter.process) {
         adapter.process.kill();
       }
+      adapter.inline?.dispose();
       if (adapter.socket) {
         adapter.socket.destroy();
       }
@@ -1639,6 +2279,7 @@ class DebugSessionManager {
       this.adapters.delete(sessionId);
     }
 
+    await this.endSession(sessionId);
     this.sessions.delete(sessionId);
   }
 
@@ -1671,17 +2312,148 @@ class DebugSessionManager {
 
   /**
    * Evaluate expression
+   * Watches use the 'watch' context; the debug console uses 'repl', where adapters allow side effects.
    */
-  async evaluate(sessionId: string, expression: string, frameId?: number): Promise<any> {
+  async evaluate(
+    sessionId: string,
+    expression: string,
+    frameId?: number,
+    context: EvaluateContext = 'watch'
+  ): Promise<EvaluateResult> {
     const response = await this.sendDAPRequest(sessionId, 'evaluate', {
       expression,
       frameId,
-      context: 'watch',
+      context,
+    });
+
+    return response.body;
+  }
+
+  /**
+   * Completions for debug console input; `column` is the 1-based cursor position in `text`
+   */
+  async getCompletions(sessionId: string, text: string, column: number, frameId?: number): Promise<CompletionItem[]> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error('Debug session not found');
+    }
+    if (!session.capabilities?.supportsCompletionsRequest) {
+      return [];
+    }
+
+    const response = await this.sendDAPRequest(sessionId, 'completions', {
+      text,
+      column,
+      frameId,
+    });
+
+    return response.body?.targets || [];
+  }
+
+  /**
+   * Change the value of a variable in a variables container
+   */
+  async setVariable(
+    sessionId: string,
+    variablesReference: number,
+    name: string,
+    value: string
+  ): Promise<SetValueResult> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error('Debug session not found');
+    }
+    if (!session.capabilities?.supportsSetVariable) {
+      throw new Error('This debug type does not support changing variable values');
+    }
+
+    const response = await this.sendDAPRequest(sessionId, 'setVariable', {
+      variablesReference,
+      name,
+      value,
     });
 
     return response.body;
   }
 
+  /**
+   * Assign a value to an assignable expression, e.g. a watch or a nested member
+   */
+  async setExpression(
+    sessionId: string,
+    expression: string,
+    value: string,
+    frameId?: number
+  ): Promise<SetValueResult> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error('Debug session not found');
+    }
+    if (!session.capabilities?.supportsSetExpression) {
+      throw new Error('This debug type does not support assigning to expressions');
+    }
+
+    const response = await this.sendDAPRequest(sessionId, 'setExpression', {
+      expression,
+      value,
+      frameId,
+    });
+
+    return response.body;
+  }
+
+  /**
+   * Ask whether a data breakpoint can be set on a variable, or on an expression when no container is given
+   */
+  async getDataBreakpointInfo(
+    sessionId: string,
+    name: string,
+    variablesReference?: number,
+    frameId?: number
+  ): Promise<DataBreakpointInfo> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error('Debug session not found');
+    }
+    if (!session.capabilities?.supportsDataBreakpoints) {
+      return { dataId: null, description: 'Data breakpoints are not supported by this debug type' };
+    }
+
+    const response = await this.sendDAPRequest(sessionId, 'dataBreakpointInfo', {
+      name,
+      variablesReference,
+      frameId: variablesReference === undefined ? frameId : undefined,
+    });
+
+    return response.body;
+  }
+
+  /**
+   * Replace the session's data breakpoints; returns them with the adapter's verification
+   */
+  async setDataBreakpoints(sessionId: string, breakpoints: DataBreakpoint[]): Promise<DataBreakpoint[]> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error('Debug session not found');
+    }
+    if (!session.capabilities?.supportsDataBreakpoints) {
+      throw new Error('Data breakpoints are not supported by this debug type');
+    }
+
+    const response = await this.sendDAPRequest(sessionId, 'setDataBreakpoints', {
+      breakpoints: breakpoints.map((bp) => ({
+        dataId: bp.dataId,
+        accessType: bp.accessType,
+        condition: bp.condition || undefined,
+        hitCondition: bp.hitCondition || undefined,
+      })),
+    });
+
+    const verified: any[] = response.body?.breakpoints || [];
+    session.dataBreakpoints = breakpoints.map((bp, index) => ({ ...bp, verified: !!verified[index]?.verified }));
+    return session.dataBreakpoints;
+  }
+
   /**
    * Add a watch expression
    */
@@ -1745,12 +2517,15 @@ class DebugSessionManager {
   }
 
   /**
-   * Resolve configuration variables like ${workspaceFolder} and ${env:VAR}
+   * Resolve configuration variables like ${workspaceFolder} and ${env:VAR}.
+   * `${command:NAME}` takes the value the renderer collected before starting,
+   * such as the pid chosen for ${command:pickProcess}.
    */
   private resolveConfigurationVariables(
     config: DebugConfiguration,
     workspacePath: string,
-    activeFile?: string
+    activeFile?: string,
+    commandValues: Record<string, string> = {}
   ): DebugConfiguration {
     const resolved = structuredClone(config);
 
@@ -1788,6 +2563,13 @@ class DebugSessionManager {
             return process.env[name] || '';
         });
 
+        // Replace command variables: ${command:NAME}
+        result = result.replace(/\$\{command:([^}]+)\}/g, (match, name) => {
+          if (commandValues[name] !== undefined) return commandValues[name];
+          if (name === 'pickProcess') throw new Error('No process was selected to attach to');
+          return match;
+        });
+
         return result;
       } else if (Array.isArray(obj)) {
         return obj.map(replaceVariables);
@@ -1804,10 +2586,118 @@ class DebugSessionManager {
     return replaceVariables(resolved);
   }
 
+  /**
+   * Substituted values are strings, while adapters expect numbers for ports and process ids.
+   * Also maps `processId` to the `pid` that the LLDB based adapters read.
+   */
+  private normalizeAttachConfiguration(config: DebugConfiguration): DebugConfiguration {
+    if (config.request !== 'attach') {
+      return config;
+    }
+
+    const toNumber = <T>(value: T): T | number =>
+      typeof value === 'string' && /^\d+$/.test(value.trim()) ? Number(value) : value;
+    const normalized: DebugConfiguration = { ...config };
+
+    if (normalized.port !== undefined) normalized.port = toNumber(normalized.port);
+    if (normalized.pid !== undefined) normalized.pid = toNumber(normalized.pid);
+    if (normalized.connect) normalized.connect = { ...normalized.connect, port: toNumber(normalized.connect.port) };
+    // js-debug takes "pid" or "pid:port" strings; the other adapters want a number
+    if (normalized.processId !== undefined && config.type !== 'node' && config.type !== 'node-terminal') {
+      normalized.processId = toNumber(normalized.processId);
+    }
+    if (['lldb', 'rust-lldb', 'gdb', 'cppdbg'].includes(config.type) && normalized.pid === undefined && normalized.processId !== undefined) {
+      normalized.pid = normalized.processId;
+    }
+
+    return normalized;
+  }
+
+  /**
+   * Local processes for the attach picker. The debug endpoint a process exposes
+   * is filled in when its command line shows one.
+   */
+  async listProcesses(): Promise<AttachableProcess[]> {
+    const [command, args]: [string, string[]] = process.platform === 'win32'
+      ? ['powershell.exe', ['-NoProfile', '-NonInteractive', '-Command',
+          'Get-CimInstance Win32_Process | Select-Object ProcessId,ParentProcessId,Name,CommandLine | ConvertTo-Json -Compress']]
+      : ['ps', ['-axww', '-o', 'pid=,ppid=,args=']];
+
+    let listerPid: number | undefined;
+    const output = await new Promise<string>((resolve, reject) => {
+      const lister = spawn(command, args);
+      listerPid = lister.pid;
+      let stdout = '';
+      const timeout = setTimeout(() => {
+        lister.kill();
+        reject(new Error('Listing processes timed out'));
+      }, 10000);
+
+      lister.stdout.on('data', (data) => stdout += data.toString());
+      lister.on('error', (err) => {
+        clearTimeout(timeout);
+        reject(err);
+      });
+      lister.on('close', (code) => {
+        clearTimeout(timeout);
+        if (code === 0) {
+          resolve(stdout);
+        } else {
+          reject(new Error(`Listing processes failed with exit code ${code}`));
+        }
+      });
+    });
+
+    const entries: { pid: number; ppid?: number; name?: string; command: string }[] = [];
+    if (process.platform === 'win32') {
+      const parsed = JSON.parse(output.trim() || '[]');
+      for (const item of Array.isArray(parsed) ? parsed : [parsed]) {
+        if (typeof item?.ProcessId === 'number') {
+          entries.push({ pid: item.ProcessId, ppid: item.ParentProcessId, name: item.Name, command: item.CommandLine || item.Name || '' });
+        }
+      }
+    } else {
+      for (const line of output.split('\n')) {
+        const match = /^\s*(\d+)\s+(\d+)\s+(.+)$/.exec(line);
+        if (match) {
+          entries.push({ pid: Number(match[1]), ppid: Number(match[2]), command: match[3].trim() });
+        }
+      }
+    }
+
+    return entries
+      .filter((entry) => entry.command && entry.pid !== process.pid && entry.pid !== listerPid)
+      .map((entry) => ({
+        pid: entry.pid,
+        ppid: entry.ppid,
+        name: entry.name || path.basename(entry.command.split(/\s+/)[0]),
+        command: entry.command,
+        ...this.detectDebugEndpoint(entry.command),
+      }));
+  }
+
+  private detectDebugEndpoint(command: string): Pick<AttachableProcess, 'debugType' | 'debugHost' | 'debugPort'> {
+    // node --inspect, --inspect-brk or --inspect-wait, optionally =[host:]port; the default port is 9229
+    const inspect = /--inspect(?:-brk|-wait)?(?:=(?:([\w.-]+|\[[^\]]+\]):)?(\d+))?(?=\s|$)/.exec(command);
+    if (inspect) {
+      return { debugType: 'node', debugHost: inspect[1], debugPort: inspect[2] ? Number(inspect[2]) : 9229 };
+    }
+
+    // python -m debugpy --listen [host:]port
+    const debugpy = /debugpy\b.*?--listen\s+(?:([\w.-]+):)?(\d+)/.exec(command);
+    if (debugpy) {
+      return { debugType: 'debugpy', debugHost: debugpy[1], debugPort: Number(debugpy[2]) };
+    }
+
+    return {};
+  }
+
   /**
    * Stop all active debug sessions
    */
   async stopAllSessions(): Promise<void> {
+    // Every session is stopped here anyway; stopAll must not stop them a second time
+    this.compounds.clear();
     const sessionIds = Array.from(this.sessions.keys());
     await Promise.all(sessionIds.map(id => this.stopSession(id)));
   }
@@ -1830,17 +2720,35 @@ export function setupDebugHandlers(
   ipc.handle('debug:getConfigurations', async (_, workspacePath: string) => {
     try {
       const configurations = await debugSessionManager.getAllConfigurations(workspacePath);
-      return { success: true, configurations };
+      const compounds = await debugSessionManager.getCompounds(workspacePath);
+      return { success: true, configurations, compounds };
     } catch (error: any) {
       console.error('Failed to get debug configurations:', error);
       return { success: false, error: error.message };
     }
   });
 
+  // Local processes for attach configurations
+  ipc.handle('debug:listProcesses', async () => {
+    try {
+      const processes = await debugSessionManager.listProcesses();
+      return { success: true, processes };
+    } catch (error: any) {
+      console.error('Failed to list processes:', error);
+      return { success: false, error: error.message };
+    }
+  });
+
   // Start debug session
   ipc.handle(
     'debug:start',
-    async (_, configuration: DebugConfiguration, workspacePath: string, activeFile?: string) => {
+    async (
+      _,
+      configuration: DebugConfiguration,
+      workspacePath: string,
+      activeFile?: string,
+      commandValues?: Record<string, string>
+    ) => {
       try {
         const mainWindow = getMainWindow();
         if (!mainWindow) {
@@ -1851,7 +2759,8 @@ export function setupDebugHandlers(
           configuration,
           workspacePath,
           mainWindow,
-          activeFile
+          activeFile,
+          commandValues
         );
         return { success: true, sessionId };
       } catch (error: any) {
@@ -1861,6 +2770,57 @@ export function setupDebugHandlers(
     }
   );
 
+  // Start every configuration of a compound
+  ipc.handle(
+    'debug:startCompound',
+    async (
+      _,
+      name: string,
+      workspacePath: string,
+      activeFile?: string,
+      commandValues?: Record<string, Record<string, string>>
+    ) => {
+      try {
+        const mainWindow = getMainWindow();
+        if (!mainWindow) {
+          return { success: false, error: 'Main window not available' };
+        }
+
+        const { compoundId, sessionIds } = await debugSessionManager.startCompound(
+          name,
+          workspacePath,
+          mainWindow,
+          activeFile,
+          commandValues
+        );
+        return { success: true, compoundId, sessionIds };
+      } catch (error: any) {
+        console.error('Failed to start compound debug configuration:', error);
+        return { success: false, error: error.message };
+      }
+    }
+  );
+
+  // Sessions that are still running
+  ipc.handle('debug:getSessions', async () => {
+    try {
+      return { success: true, sessions: debugSessionManager.getSessionSummaries() };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  });
+
+  // Stop every debug session
+  ipc.handle('debug:stopAll', async () => {
+    try {
+      await debugSessionManager.stopAllSessions();
+      return { success: true };
+    } catch (error: any) {
+      console.error('Failed to stop debug sessions:', error);
+      return { success: false, error: error.message };
+    }
+  });
+
   // Stop debug session
   ipc.handle('debug:stop', async (_, sessionId: string) => {
     try {
@@ -1877,8 +2837,8 @@ export function setupDebugHandlers(
     'debug:setBreakpoints',
     async (_, sessionId: string, file: string, breakpoints: Breakpoint[]) => {
       try {
-        await debugSessionManager.setBreakpoints(sessionId, file, breakpoints);
-        return { success: true };
+        const result = await debugSessionManager.setBreakpoints(sessionId, file, breakpoints);
+        return { success: true, breakpoints: result };
       } catch (error: any) {
         console.error('Failed to set breakpoints:', error);
         return { success: false, error: error.message };
@@ -1886,6 +2846,60 @@ export function setupDebugHandlers(
     }
   );
 
+  ipc.handle(
+    'debug:setFunctionBreakpoints',
+    async (_, sessionId: string, breakpoints: FunctionBreakpoint[]) => {
+      try {
+        const result = await debugSessionManager.setFunctionBreakpoints(sessionId, breakpoints);
+        return { success: true, breakpoints: result };
+      } catch (error: any) {
+        console.error('Failed to set function breakpoints:', error);
+        return { success: false, error: error.message };
+      }
+    }
+  );
+
+  ipc.handle(
+    'debug:setExceptionBreakpoints',
+    async (_, sessionId: string, settings: Record<string, ExceptionBreakpointSetting>) => {
+      try {
+        await debugSessionManager.setExceptionBreakpoints(sessionId, settings);
+        return { success: true };
+      } catch (error: any) {
+        console.error('Failed to set exception breakpoints:', error);
+        return { success: false, error: error.message };
+      }
+    }
+  );
+
+  ipc.handle('debug:getCapabilities', async (_, sessionId: string) => {
+    try {
+      return { success: true, capabilities: debugSessionManager.getCapabilities(sessionId) };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  });
+
+  // Breakpoints persisted per workspace
+  ipc.handle('debug:loadBreakpoints', async (_, workspacePath: string) => {
+    try {
+      return { success: true, breakpoints: debugSessionManager.loadWorkspaceBreakpoints(workspacePath) };
+    } catch (error: any) {
+      console.error('Failed to load breakpoints:', error);
+      return { success: false, error: error.message };
+    }
+  });
+
+  ipc.handle('debug:saveBreakpoints', async (_, workspacePath: string, breakpoints: WorkspaceBreakpoints) => {
+    try {
+      const verified = await debugSessionManager.saveWorkspaceBreakpoints(workspacePath, breakpoints);
+      return { success: true, verified };
+    } catch (error: any) {
+      console.error('Failed to save breakpoints:', error);
+      return { success: false, error: error.message };
+    }
+  });
+
   // Debug controls
   ipc.handle('debug:continue', async (_, sessionId: string, threadId?: number) => {
     try {
@@ -1961,9 +2975,9 @@ export function setupDebugHandlers(
   // Evaluate expression
   ipc.handle(
     'debug:evaluate',
-    async (_, sessionId: string, expression: string, frameId?: number) => {
+    async (_, sessionId: string, expression: string, frameId?: number, context?: EvaluateContext) => {
       try {
-        const result = await debugSessionManager.evaluate(sessionId, expression, frameId);
+        const result = await debugSessionManager.evaluate(sessionId, expression, frameId, context);
         return { success: true, result };
       } catch (error: any) {
         return { success: false, error: error.message };
@@ -1971,6 +2985,65 @@ export function setupDebugHandlers(
     }
   );
 
+  ipc.handle(
+    'debug:completions',
+    async (_, sessionId: string, text: string, column: number, frameId?: number) => {
+      try {
+        const targets = await debugSessionManager.getCompletions(sessionId, text, column, frameId);
+        return { success: true, targets };
+      } catch (error: any) {
+        return { success: false, error: error.message };
+      }
+    }
+  );
+
+  ipc.handle(
+    'debug:setVariable',
+    async (_, sessionId: string, variablesReference: number, name: string, value: string) => {
+      try {
+        const result = await debugSessionManager.setVariable(sessionId, variablesReference, name, value);
+        return { success: true, result };
+      } catch (error: any) {
+        return { success: false, error: error.message };
+      }
+    }
+  );
+
+  ipc.handle(
+    'debug:setExpression',
+    async (_, sessionId: string, expression: string, value: string, frameId?: number) => {
+      try {
+        const result = await debugSessionManager.setExpression(sessionId, expression, value, frameId);
+        return { success: true, result };
+      } catch (error: any) {
+        return { success: false, error: error.message };
+      }
+    }
+  );
+
+  // Data breakpoints
+  ipc.handle(
+    'debug:dataBreakpointInfo',
+    async (_, sessionId: string, name: string, variablesReference?: number, frameId?: number) => {
+      try {
+        const info = await debugSessionManager.getDataBreakpointInfo(sessionId, name, variablesReference, frameId);
+        return { success: true, info };
+      } catch (error: any) {
+        return { success: false, error: error.message };
+      }
+    }
+  );
+
+  ipc.handle('debug:setDataBreakpoints', async (_, sessionId: string, breakpoints: DataBreakpoint[]) => {
+    try {
+      const result = await debugSessionManager.setDataBreakpoints(sessionId, breakpoints);
+      return { success: true, breakpoints: result };
+    } catch (error: any) {
+      console.error('Failed to set data breakpoints:', error);
+      return { success: false, error: error.message };
+    }
+  });
+
   // Watch Expressions
   ipc.handle('debug:addWatch', async (_, sessionId: string, expression: string) => {
     try {
@@ -4,45 +4,386 @@
 
 import path from 'node:path'
 import fs from 'node:fs'
+import os from 'node:os'
 import { spawn } from 'node:child_process'
 import * as chokidar from 'chokidar'
-import type { BrowserWindow as BrowserWindowType } from 'electron'
+import type { BrowserWindow as BrowserWindowType, WebContents } from 'electron'
 import { nativeHelperService } from '../services/native-helper-service'
 import { binaryManager } from '../services/binary-manager'
 
-// JavaScript search result type
-interface JSSearchResult {
+// Workspace search options, passed through to ripgrep
+interface SearchOptions {
+    searchPath: string
+    pattern: string
+    regex?: boolean
+    caseSensitive?: boolean
+    wholeWord?: boolean
+    // Let matches span lines
+    multiline?: boolean
+    // Globs relative to the search path; a glob without a slash matches a name at any depth
+    include?: string[]
+    exclude?: string[]
+    // Skip what .gitignore and other ignore files list (default)
+    useIgnoreFiles?: boolean
+    includeHidden?: boolean
+    contextLines?: number
+    maxResults?: number
+    // Single include glob, kept for older callers
+    filePattern?: string
+    // Stream matches to the renderer as `fs:searchResults` events under this id
+    searchId?: string
+}
+
+interface ReplaceOptions extends SearchOptions {
+    replacement: string
+    preserveCase?: boolean
+    // Limit the replace to these files, relative to the search path
+    files?: string[]
+    // Return the changes without writing anything
+    preview?: boolean
+}
+
+interface ContextLine {
+    line: number
+    text: string
+}
+
+interface SearchMatch {
     file: string
     line: number
+    column: number
+    // Trimmed preview of the line
     content: string
+    // The matched line, or lines in multiline mode
+    text: string
+    // Character offsets of each match within `text`
+    submatches: { start: number; end: number }[]
+    before: ContextLine[]
+    after: ContextLine[]
+}
+
+// Returns false once no more matches are wanted
+type MatchCollector = (match: SearchMatch) => boolean
+
+interface ReplaceChange {
+    line: number
+    before: string
+    after: string
+}
+
+// Files as they were before a project-wide replace, kept so it can be undone
+interface ReplaceRecord {
+    files: { path: string; original: string; replaced: string }[]
+}
+
+const MAX_SEARCH_FILE_SIZE = 5 * 1024 * 1024
+const MAX_REPLACE_HISTORY = 10
+const replaceHistory = new Map<string, ReplaceRecord>()
+const activeSearches = new Map<string, AbortController>()
+
+// Copies of unsaved content for checkers that only read files, one directory per copy
+const SHADOW_COPY_ROOT = path.join(os.tmpdir(), 'kalynt-shadow')
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+const stripLineEnd = (text: string) => text.replace(/\r?\n$/, '')
+
+const includeGlobs = (options: SearchOptions) => [...(options.include ?? []), ...(options.filePattern ? [options.filePattern] : [])]
+
+function buildSearchRegExp(options: SearchOptions): RegExp {
+    let source = options.regex ? options.pattern : escapeRegExp(options.pattern)
+    if (options.wholeWord) source = `\\b(?:${source})\\b`
+    return new RegExp(source, options.caseSensitive ? 'gm' : 'gim')
+}
+
+// Gitignore-style glob matching for the JavaScript fallback
+function matchesGlob(relativePath: string, glob: string): boolean {
+    const normalized = glob.replace(/^\.?\//, '').replace(/\/$/, '')
+    let source = ''
+    for (let i = 0; i < normalized.length; i++) {
+        const char = normalized[i]
+        if (char === '*' && normalized[i + 1] === '*') {
+            source += '.*'
+            i += normalized[i + 2] === '/' ? 2 : 1
+        } else if (char === '*') {
+            source += '[^/]*'
+        } else if (char === '?') {
+            source += '[^/]'
+        } else {
+            source += escapeRegExp(char)
+        }
+    }
+    const regex = new RegExp(`^${source}$`)
+    const segments = relativePath.split('/')
+    if (normalized.includes('/')) {
+        return segments.some((_, index) => regex.test(segments.slice(0, index + 1).join('/')))
+    }
+    return segments.some(segment => regex.test(segment))
+}
+
+function preserveCase(original: string, replacement: string): string {
+    if (original === original.toUpperCase()) return replacement.toUpperCase()
+    if (original === original.toLowerCase()) return replacement.toLowerCase()
+    if (original.startsWith(original[0].toUpperCase())) {
+        return replacement.charAt(0).toUpperCase() + replacement.slice(1).toLowerCase()
+    }
+    return replacement
+}
+
+// The pattern of a replace, compiled once for the preview and the writes alike
+interface ReplacePattern {
+    regex: RegExp
+    // Matches only at lastIndex, to expand the replacement of one match
+    sticky: RegExp
+}
+
+function compileReplacePattern(options: SearchOptions): ReplacePattern {
+    const regex = buildSearchRegExp(options)
+    return { regex, sticky: new RegExp(regex.source, regex.flags.replace('g', '') + 'y') }
+}
+
+// Expand `$1`-style references for a single match, exactly as String.replace would
+function expandReplacement(text: string, sticky: RegExp, offset: number, length: number, replacement: string): string {
+    sticky.lastIndex = offset
+    const replaced = text.replace(sticky, replacement)
+    return replaced.slice(offset, replaced.length - (text.length - offset - length))
+}
+
+/**
+ * Lines are matched without their line break, as search reports them, so `$`
+ * and `\s` behave the same in CRLF files.
+ */
+function replaceInContent(content: string, pattern: ReplacePattern, options: ReplaceOptions): { content: string; count: number; changes: ReplaceChange[] } {
+    const { regex, sticky } = pattern
+    const changes: ReplaceChange[] = []
+    let count = 0
+
+    const replaceIn = (text: string, onMatch: (offset: number, match: string, replaced: string) => void) =>
+        text.replace(regex, (match: string, ...args: any[]) => {
+            // Named groups add a trailing groups object after the offset and the input
+            const offset: number = typeof args[args.length - 1] === 'object' ? args[args.length - 3] : args[args.length - 2]
+            let replaced = options.replacement
+            if (options.regex) replaced = expandReplacement(text, sticky, offset, match.length, options.replacement)
+            else if (options.preserveCase) replaced = preserveCase(match, options.replacement)
+            count++
+            onMatch(offset, match, replaced)
+            return replaced
+        })
+
+    if (options.multiline) {
+        // CRLF files are matched with LF line breaks and written back with CRLF
+        const crlf = content.includes('\r\n')
+        const normalized = crlf ? content.replace(/\r\n/g, '\n') : content
+        const replaced = replaceIn(normalized, (offset, match, after) => {
+            changes.push({ line: normalized.slice(0, offset).split('\n').length, before: match, after })
+        })
+        return { content: crlf ? replaced.replace(/\n/g, '\r\n') : replaced, count, changes }
+    }
+
+    const lines = content.split('\n').map((line, index) => {
+        const lineEnd = line.endsWith('\r') ? '\r' : ''
+        const text = line.slice(0, line.length - lineEnd.length)
+        const before = count
+        const replaced = replaceIn(text, () => {})
+        if (count > before) changes.push({ line: index + 1, before: text, after: replaced })
+        return replaced + lineEnd
+    })
+    return { content: lines.join('\n'), count, changes }
+}
+
+function ripgrepArgs(options: SearchOptions): string[] {
+    // CRLF line breaks are not part of a line, as in the JavaScript search and replace
+    const args = ['--json', '--crlf', '--max-filesize', '5M', options.caseSensitive ? '--case-sensitive' : '--ignore-case']
+    if (!options.regex) args.push('--fixed-strings')
+    if (options.wholeWord) args.push('--word-regexp')
+    if (options.multiline) args.push('--multiline')
+    if (options.useIgnoreFiles === false) args.push('--no-ignore')
+    if (options.includeHidden) args.push('--hidden')
+    if (options.contextLines) args.push('--context', String(options.contextLines))
+    for (const glob of includeGlobs(options)) args.push('--glob', glob)
+    for (const glob of options.exclude ?? []) args.push('--glob', `!${glob}`)
+    args.push('--regexp', options.pattern)
+    return args
+}
+
+/**
+ * Search with ripgrep's JSON output. A match is held back until the next
+ * event so the context lines after it are attached first. Rejects only when
+ * ripgrep cannot be started.
+ */
+function runRipgrep(
+    rgPath: string,
+    searchPath: string,
+    options: SearchOptions,
+    collect: MatchCollector,
+    signal: AbortSignal
+): Promise<{ error?: string }> {
+    return new Promise((resolve, reject) => {
+        const rg = spawn(rgPath, [...ripgrepArgs(options), '--', searchPath])
+        const contextLines = options.contextLines ?? 0
+        let buffer = ''
+        let stderr = ''
+        let found = false
+        let stopped = false
+        let before: ContextLine[] = []
+        let pending: SearchMatch | null = null
+
+        const stop = () => {
+            if (stopped) return
+            stopped = true
+            rg.kill()
+        }
+        signal.addEventListener('abort', stop)
+
+        // Non-UTF-8 text arrives base64 encoded
+        const decode = (data: { text?: string; bytes?: string }) => data.text ?? Buffer.from(data.bytes ?? '', 'base64').toString()
+        // ripgrep reports byte offsets
+        const toCharOffset = (text: string, offset: number) => Buffer.from(text).subarray(0, offset).toString().length
+
+        const emit = () => {
+            if (pending && !stopped && !collect(pending)) stop()
+            pending = null
+        }
+
+        const handle = (entry: any) => {
+            if (entry.type === 'begin' || entry.type === 'end') {
+                emit()
+                before = []
+                return
+            }
+            if (entry.type !== 'match' && entry.type !== 'context') return
+
+            const text = decode(entry.data.lines)
+            if (entry.type === 'context') {
+                const line = { line: entry.data.line_number, text: stripLineEnd(text) }
+                const lastLine = pending ? pending.line + pending.text.split('\n').length - 1 : 0
+                if (pending && line.line > lastLine && pending.after.length < contextLines) pending.after.push(line)
+                else before = [...before, line].slice(-contextLines)
+                return
+            }
+
+            emit()
+            found = true
+            const submatches = entry.data.submatches.map((submatch: { start: number; end: number }) => ({
+                start: toCharOffset(text, submatch.start),
+                end: toCharOffset(text, submatch.end)
+            }))
+            pending = {
+                file: path.relative(searchPath, decode(entry.data.path)),
+                line: entry.data.line_number,
+                column: (submatches[0]?.start ?? 0) + 1,
+                content: text.trim().substring(0, 200),
+                text: stripLineEnd(text),
+                submatches,
+                before,
+                after: []
+            }
+            before = []
+        }
+
+        rg.stdout.on('data', (data) => {
+            buffer += data.toString()
+            const lines = buffer.split('\n')
+            buffer = lines.pop() || ''
+
+            for (const line of lines) {
+                if (stopped) return
+                try {
+                    handle(JSON.parse(line))
+                } catch (_e) {
+                    // Ignore malformed lines
+                }
+            }
+        })
+
+        rg.stderr.on('data', (data) => {
+            stderr += data.toString()
+        })
+
+        rg.on('close', (code) => {
+            signal.removeEventListener('abort', stop)
+            emit()
+            // Exit code 2 covers unreadable files as well as a bad pattern; only the latter finds nothing
+            resolve(code === 2 && !found && !signal.aborted && stderr ? { error: stderr.trim() } : {})
+        })
+
+        rg.on('error', (err) => {
+            signal.removeEventListener('abort', stop)
+            reject(err)
+        })
+    })
 }
 
 // JavaScript fallback search function - used when ripgrep is unavailable or fails
 async function performJSSearch(
     searchPath: string,
-    pattern: string,
-    filePattern: string | undefined,
-    maxResults: number
-): Promise<JSSearchResult[]> {
-    const results: JSSearchResult[] = []
-    const searchRegex = new RegExp(pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi')
-    
-    const shouldSearchFile = (filename: string): boolean => {
-        if (filePattern) {
-            const fp = filePattern.replace(/\*/g, '.*')
-            return new RegExp(fp, 'i').test(filename)
-        }
-        return true
+    options: SearchOptions,
+    collect: MatchCollector,
+    signal: AbortSignal
+): Promise<{ error?: string }> {
+    let searchRegex: RegExp
+    try {
+        searchRegex = buildSearchRegExp(options)
+    } catch (error) {
+        return { error: (error as Error).message }
     }
+
+    const contextLines = options.contextLines ?? 0
+    const include = includeGlobs(options)
+    const exclude = options.exclude ?? []
+    let stopped = false
     
     const binaryExts = new Set([
         '.exe', '.dll', '.so', '.dylib', '.bin', '.png', '.jpg', '.jpeg', '.gif',
         '.bmp', '.ico', '.pdf', '.zip', '.tar', '.gz', '.rar', '.7z', '.mp3',
         '.mp4', '.avi', '.mov', '.woff', '.woff2', '.ttf', '.otf'
     ])
+
+    const contextOf = (lines: string[], from: number, to: number): ContextLine[] =>
+        lines.slice(Math.max(0, from), Math.max(0, to)).map((text, index) => ({ line: Math.max(0, from) + index + 1, text }))
+
+    const searchContent = (content: string, file: string) => {
+        const lines = content.split('\n').map(line => line.replace(/\r$/, ''))
+        if (lines.at(-1) === '') lines.pop()
+        const report = (startLine: number, endLine: number, submatches: { start: number; end: number }[]) => {
+            const text = lines.slice(startLine, endLine + 1).join('\n')
+            if (!collect({
+                file,
+                line: startLine + 1,
+                column: submatches[0].start + 1,
+                content: text.trim().substring(0, 200),
+                text,
+                submatches,
+                before: contextOf(lines, startLine - contextLines, startLine),
+                after: contextOf(lines, endLine + 1, endLine + 1 + contextLines)
+            })) stopped = true
+        }
+
+        if (options.multiline) {
+            const normalized = lines.join('\n')
+            searchRegex.lastIndex = 0
+            for (const match of Array.from(normalized.matchAll(searchRegex))) {
+                if (stopped) return
+                if (match[0].length === 0) continue
+                const startLine = normalized.slice(0, match.index).split('\n').length - 1
+                const endLine = startLine + match[0].split('\n').length - 1
+                const lineStart = match.index === 0 ? 0 : normalized.lastIndexOf('\n', match.index - 1) + 1
+                const start = match.index - lineStart
+                report(startLine, endLine, [{ start, end: start + match[0].length }])
+            }
+            return
+        }
+
+        for (let index = 0; index < lines.length && !stopped; index++) {
+            const submatches = Array.from(lines[index].matchAll(searchRegex))
+                .filter(match => match[0].length > 0)
+                .map(match => ({ start: match.index, end: match.index + match[0].length }))
+            if (submatches.length > 0) report(index, index, submatches)
+        }
+    }
     
     const searchDirectory = async (dirPath: string, relativePath: string): Promise<void> => {
-        if (results.length >= maxResults) return
+        if (stopped || signal.aborted) return
         
         // Yield to event loop to keep UI responsive
         await new Promise(resolve => setImmediate(resolve))
@@ -50,19 +391,25 @@ async function performJSSearch(
         const entries = await fs.promises.readdir(dirPath, { withFileTypes: true })
         
         for (const entry of entries) {
-            if (results.length >= maxResults) break
+            if (stopped || signal.aborted) break
             
             const entryName = entry.name
             const entryRelativePath = path.join(relativePath, entryName)
             const entryFullPath = path.join(dirPath, entryName)
+            const globPath = entryRelativePath.split(path.sep).join('/')
+            if (exclude.some(glob => matchesGlob(globPath, glob))) continue
             
-            // Skip hidden dirs, node_modules, etc.
+            // Without ignore file support, skip the usual build and dependency folders instead
             if (entry.isDirectory()) {
-                if (entryName.startsWith('.') || entryName === 'node_modules' || entryName === 'dist' || entryName === 'build') {
+                if (!options.includeHidden && entryName.startsWith('.')) continue
+                if (options.useIgnoreFiles !== false && (entryName === 'node_modules' || entryName === 'dist' || entryName === 'build')) {
                     continue
                 }
                 await searchDirectory(entryFullPath, entryRelativePath)
-            } else if (entry.isFile() && shouldSearchFile(entryName)) {
+            } else if (entry.isFile()) {
+                if (include.length > 0 && !include.some(glob => matchesGlob(globPath, glob))) continue
+                if (!options.includeHidden && entryName.startsWith('.')) continue
+
                 // Skip binary files and very large files
                 const ext = path.extname(entryName).toLowerCase()
                 
@@ -70,21 +417,10 @@ async function performJSSearch(
                 
                 try {
                     const stats = await fs.promises.stat(entryFullPath)
-                    if (stats.size > 5 * 1024 * 1024) continue // Skip files > 5MB
+                    if (stats.size > MAX_SEARCH_FILE_SIZE) continue
                     
                     const content = await fs.promises.readFile(entryFullPath, 'utf-8')
-                    const lines = content.split('\n')
-                    
-                    lines.forEach((line, index) => {
-                        if (results.length >= maxResults) return
-                        if (searchRegex.test(line)) {
-                            results.push({
-                                file: entryRelativePath,
-                                line: index + 1,
-                                content: line.trim().substring(0, 200) // Limit line length
-                            })
-                        }
-                    })
+                    searchContent(content, entryRelativePath)
                 } catch {
                     // Skip files that can't be read
                 }
@@ -93,7 +429,49 @@ async function performJSSearch(
     }
     
     await searchDirectory(searchPath, '')
-    return results
+    return {}
+}
+
+// PRIORITY: Use Bundled Ripgrep (rg)
+async function runSearch(
+    searchPath: string,
+    options: SearchOptions,
+    collect: MatchCollector,
+    signal: AbortSignal
+): Promise<{ error?: string }> {
+    const rgPath = binaryManager.getRipgrepPath()
+    if (rgPath) {
+        try {
+            return await runRipgrep(rgPath, searchPath, options, collect, signal)
+        } catch (err) {
+            console.error('[FS] Ripgrep error:', err)
+            // FALLBACK: Use JS search when ripgrep fails
+            console.log('[FS] Falling back to JavaScript search')
+        }
+    }
+    return performJSSearch(searchPath, options, collect, signal)
+}
+
+// Sends streamed matches in batches so a broad search does not flood the renderer
+function createResultStream(sender: WebContents, searchId: string) {
+    let batch: SearchMatch[] = []
+    let timer: NodeJS.Timeout | null = null
+
+    const flush = () => {
+        if (timer) clearTimeout(timer)
+        timer = null
+        if (batch.length > 0 && !sender.isDestroyed()) sender.send('fs:searchResults', { searchId, results: batch })
+        batch = []
+    }
+
+    return {
+        push: (match: SearchMatch) => {
+            batch.push(match)
+            if (batch.length >= 200) flush()
+            else timer ??= setTimeout(flush, 50)
+        },
+        flush
+    }
 }
 
 // Stateful maps for file watchers
@@ -345,6 +723,39 @@ export function registerFileSystemHandlers(
         }
     })
 
+    // Copy content for a workspace file to a temp directory, under the same relative path
+    ipcMain.handle('fs:writeShadowCopy', async (_event, options: { path: string, content: string }) => {
+        try {
+            const currentWorkspacePath = getCurrentWorkspacePath()
+            if (!currentWorkspacePath) {
+                return { success: false, error: 'No workspace open' }
+            }
+            const safePath = validatePath(currentWorkspacePath, options.path)
+            await fs.promises.mkdir(SHADOW_COPY_ROOT, { recursive: true })
+            const copyRoot = await fs.promises.mkdtemp(path.join(SHADOW_COPY_ROOT, 'copy-'))
+            const shadowPath = path.join(copyRoot, path.relative(path.resolve(currentWorkspacePath), safePath))
+            await fs.promises.mkdir(path.dirname(shadowPath), { recursive: true })
+            await fs.promises.writeFile(shadowPath, options.content, 'utf-8')
+            return { success: true, shadowPath }
+        } catch (error) {
+            return { success: false, error: String(error) }
+        }
+    })
+
+    // Remove a copy made by fs:writeShadowCopy, with its temp directory
+    ipcMain.handle('fs:removeShadowCopy', async (_event, shadowPath: string) => {
+        try {
+            const copyDir = path.relative(SHADOW_COPY_ROOT, path.resolve(shadowPath)).split(path.sep)[0]
+            if (!copyDir.startsWith('copy-')) {
+                return { success: false, error: 'Not a shadow copy' }
+            }
+            await fs.promises.rm(path.join(SHADOW_COPY_ROOT, copyDir), { recursive: true, force: true })
+            return { success: true }
+        } catch (error) {
+            return { success: false, error: String(error) }
+        }
+    })
+
     // Create empty file
     ipcMain.handle('fs:createFile', async (_event, filePath: string) => {
         try {
@@ -514,12 +925,7 @@ export function registerFileSystemHandlers(
     })
 
     // NEW: Search files (cross-platform grep-like functionality)
-    ipcMain.handle('fs:search', async (_event, options: { 
-        searchPath: string
-        pattern: string
-        filePattern?: string
-        maxResults?: number
-    }) => {
+    ipcMain.handle('fs:search', async (event, options: SearchOptions) => {
         try {
             const currentWorkspacePath = getCurrentWorkspacePath()
             if (!currentWorkspacePath) {
@@ -528,72 +934,147 @@ export function registerFileSystemHandlers(
             
             const safePath = validatePath(currentWorkspacePath, options.searchPath)
             const maxResults = options.maxResults || 100
+            const stream = options.searchId ? createResultStream(event.sender, options.searchId) : null
 
-            // PRIORITY: Use Bundled Ripgrep (rg)
-            const rgPath = binaryManager.getRipgrepPath()
-            if (rgPath) {
-                return new Promise((resolve) => {
-                    const args = [
-                        '--json',
-                        '--max-count', maxResults.toString(),
-                        '--ignore-case',
-                        '--fixed-strings',
-                        options.pattern,
-                        safePath
-                    ]
-
-                    const rg = spawn(rgPath, args)
-                    const results: any[] = []
-                    let buffer = ''
-
-                    rg.stdout.on('data', (data) => {
-                        buffer += data.toString()
-                        const lines = buffer.split('\n')
-                        buffer = lines.pop() || ''
-
-                        for (const line of lines) {
-                            try {
-                                const entry = JSON.parse(line)
-                                if (entry.type === 'match') {
-                                    results.push({
-                                        file: path.relative(safePath, entry.data.path.text),
-                                        line: entry.data.line_number,
-                                        content: entry.data.lines.text.trim().substring(0, 200)
-                                    })
-                                }
-                            } catch (_e) {
-                                // Ignore malformed lines
-                            }
-                        }
-                    })
+            // A new search under the same id replaces the one still running
+            const controller = new AbortController()
+            if (options.searchId) {
+                activeSearches.get(options.searchId)?.abort()
+                activeSearches.set(options.searchId, controller)
+            }
 
-                    rg.on('close', () => {
-                        resolve({ success: true, results, truncated: results.length >= maxResults })
-                    })
+            const results: SearchMatch[] = []
+            const files = new Set<string>()
+            let matchCount = 0
+            const collect = (match: SearchMatch) => {
+                matchCount++
+                files.add(match.file)
+                if (stream) stream.push(match)
+                else results.push(match)
+                return matchCount < maxResults
+            }
 
-                    rg.on('error', async (err) => {
-                        console.error('[FS] Ripgrep error:', err)
-                        // FALLBACK: Use JS search when ripgrep fails
-                        console.log('[FS] Falling back to JavaScript search')
-                        try {
-                            const jsResults = await performJSSearch(safePath, options.pattern, options.filePattern, maxResults)
-                            resolve({ success: true, results: jsResults, truncated: jsResults.length >= maxResults })
-                        } catch (jsError) {
-                            console.error('[FS] JavaScript search also failed:', jsError)
-                            resolve({ success: false, error: `Search failed: ripgrep error (${err.message}), JS fallback also failed (${String(jsError)})` })
-                        }
-                    })
-                })
+            try {
+                const outcome = await runSearch(safePath, options, collect, controller.signal)
+                stream?.flush()
+                if (outcome.error) return { success: false, error: outcome.error }
+                return {
+                    success: true,
+                    results,
+                    matchCount,
+                    fileCount: files.size,
+                    truncated: matchCount >= maxResults,
+                    cancelled: controller.signal.aborted
+                }
+            } finally {
+                if (options.searchId && activeSearches.get(options.searchId) === controller) {
+                    activeSearches.delete(options.searchId)
+                }
             }
-            
-            // Use JavaScript fallback search when ripgrep is not available
-            const results = await performJSSearch(safePath, options.pattern, options.filePattern, maxResults)
-            
-            return {
-                success: true,
-                results,
-                truncated: results.length >= maxResults
+        } catch (error) {
+            return { success: false, error: String(error) }
+        }
+    })
+
+    ipcMain.handle('fs:cancelSearch', async (_event, searchId: string) => {
+        activeSearches.get(searchId)?.abort()
+        activeSearches.delete(searchId)
+        return { success: true }
+    })
+
+    // Project-wide replace: previews the changes, or writes them and keeps the originals for undo
+    ipcMain.handle('fs:replace', async (_event, options: ReplaceOptions) => {
+        try {
+            const currentWorkspacePath = getCurrentWorkspacePath()
+            if (!currentWorkspacePath) {
+                return { success: false, error: 'No workspace open' }
+            }
+
+            // Patterns only ripgrep understands would find files that the replace then leaves alone
+            let pattern: ReplacePattern
+            try {
+                pattern = compileReplacePattern(options)
+            } catch (error) {
+                return { success: false, error: `Pattern cannot be used to replace: ${(error as Error).message}` }
+            }
+
+            const safePath = validatePath(currentWorkspacePath, options.searchPath)
+            let files = options.files
+            if (!files) {
+                const matched = new Set<string>()
+                const outcome = await runSearch(safePath, { ...options, contextLines: 0 }, match => {
+                    matched.add(match.file)
+                    return true
+                }, new AbortController().signal)
+                if (outcome.error) return { success: false, error: outcome.error }
+                files = Array.from(matched)
+            }
+
+            const previews: { file: string; count: number; changes: ReplaceChange[] }[] = []
+            const record: ReplaceRecord = { files: [] }
+            let replacementCount = 0
+
+            try {
+                for (const file of files) {
+                    const filePath = validatePath(safePath, file)
+                    const stats = await fs.promises.stat(filePath)
+                    if (stats.size > MAX_SEARCH_FILE_SIZE) continue
+
+                    const original = await fs.promises.readFile(filePath, 'utf-8')
+                    const result = replaceInContent(original, pattern, options)
+                    if (result.count === 0 || result.content === original) continue
+
+                    replacementCount += result.count
+                    if (options.preview) {
+                        previews.push({ file, count: result.count, changes: result.changes })
+                    } else {
+                        await fs.promises.writeFile(filePath, result.content, 'utf-8')
+                        record.files.push({ path: filePath, original, replaced: result.content })
+                    }
+                }
+            } catch (error) {
+                // A replace is all or nothing, so files written before the failure are put back
+                const notRestored: string[] = []
+                for (const file of record.files) {
+                    await fs.promises.writeFile(file.path, file.original, 'utf-8').catch(() => notRestored.push(file.path))
+                }
+                const detail = notRestored.length > 0 ? `; could not restore ${notRestored.join(', ')}` : ''
+                return { success: false, error: `${String(error)}${detail}` }
+            }
+
+            if (options.preview) return { success: true, files: previews, replacementCount }
+            if (record.files.length === 0) return { success: true, fileCount: 0, replacementCount: 0 }
+
+            const replaceId = `replace-${Date.now()}`
+            replaceHistory.set(replaceId, record)
+            if (replaceHistory.size > MAX_REPLACE_HISTORY) {
+                replaceHistory.delete(replaceHistory.keys().next().value!)
+            }
+            return { success: true, replaceId, fileCount: record.files.length, replacementCount }
+        } catch (error) {
+            return { success: false, error: String(error) }
+        }
+    })
+
+    // Files edited since the replace are left alone
+    ipcMain.handle('fs:undoReplace', async (_event, replaceId: string) => {
+        try {
+            const record = replaceHistory.get(replaceId)
+            if (!record) return { success: false, error: 'Nothing to undo' }
+            replaceHistory.delete(replaceId)
+
+            const restored: string[] = []
+            const skipped: string[] = []
+            for (const file of record.files) {
+                const current = await fs.promises.readFile(file.path, 'utf-8').catch(() => null)
+                if (current !== file.replaced) {
+                    skipped.push(file.path)
+                    continue
+                }
+                await fs.promises.writeFile(file.path, file.original, 'utf-8')
+                restored.push(file.path)
             }
+            return { success: true, restored, skipped }
         } catch (error) {
             return { success: false, error: String(error) }
         }
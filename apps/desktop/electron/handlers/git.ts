@@ -3,6 +3,7 @@
  */
 import path from 'node:path'
 import fs from 'node:fs'
+import os from 'node:os'
 import simpleGit, { SimpleGit } from 'simple-git'
 import { safeStorage } from 'electron'
 
@@ -24,6 +25,36 @@ async function getGitHubToken(userDataPath: string): Promise<string | null> {
     return null
 }
 
+interface BlameLine {
+    line: number
+    hash: string
+    author: string
+    authorTime: number
+    summary: string
+}
+
+// Parse `git blame --line-porcelain`, where every line repeats the headers of its commit
+function parseBlame(output: string): BlameLine[] {
+    const lines: BlameLine[] = []
+    let current: BlameLine | null = null
+    for (const row of output.split('\n')) {
+        if (current === null) {
+            const header = /^([0-9a-f]{40}) \d+ (\d+)/.exec(row)
+            if (header) current = { line: Number(header[2]), hash: header[1], author: '', authorTime: 0, summary: '' }
+        } else if (row.startsWith('\t')) {
+            lines.push(current)
+            current = null
+        } else if (row.startsWith('author ')) {
+            current.author = row.slice(7)
+        } else if (row.startsWith('author-time ')) {
+            current.authorTime = Number(row.slice(12)) * 1000
+        } else if (row.startsWith('summary ')) {
+            current.summary = row.slice(8)
+        }
+    }
+    return lines
+}
+
 export function registerGitHandlers(ipcMain: Electron.IpcMain, getCurrentWorkspacePath: () => string | null, getUserDataPath: () => string) {
     // Helper to get git instance with auth
     const getGit = async (repoPath: string) => {
@@ -326,4 +357,402 @@ export function registerGitHandlers(ipcMain: Electron.IpcMain, getCurrentWorkspa
             return { success: false, error: String(error) }
         }
     })
+
+    // Checks shared by the handlers below, which all work on an existing repository
+    const validateRepo = (repoPath: string): string | null => {
+        const currentWorkspacePath = getCurrentWorkspacePath()
+        if (!currentWorkspacePath || !repoPath.startsWith(currentWorkspacePath)) return 'Invalid repo path'
+        if (!fs.existsSync(path.join(repoPath, '.git'))) return 'Not a git repository'
+        return null
+    }
+
+    // Path of a file relative to the repository root, or null when it lies outside
+    const toRepoPath = (repoPath: string, file: string): string | null => {
+        const relative = path.relative(repoPath, path.resolve(repoPath, file))
+        if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) return null
+        return relative.split(path.sep).join('/')
+    }
+
+    // Commands that stop on conflicts do not always exit with an error, so the index decides:
+    // conflicted files are returned, any other failure is thrown
+    const runUntilConflict = async (git: SimpleGit, task: () => Promise<unknown>): Promise<string[]> => {
+        let failure: unknown = null
+        await task().catch(error => { failure = error })
+        const { conflicted } = await git.status()
+        if (failure && conflicted.length === 0) throw failure
+        return conflicted
+    }
+
+    // Merge, rebase and cherry-pick continue without opening an editor for the message
+    const withoutEditor = (git: SimpleGit) => git.env({ ...process.env, GIT_EDITOR: 'true' })
+
+    // Revisions and names from the renderer go into git's arguments, where one starting
+    // with '-' would be read as an option, so they are checked first. Both checks print
+    // nothing for an invalid value.
+    const verifyRevision = async (git: SimpleGit, revision: string): Promise<string | null> => {
+        if (revision.startsWith('-')) return `Invalid revision: ${revision}`
+        const hash = await git.raw(['rev-parse', '--verify', '--quiet', '--end-of-options', `${revision}^{commit}`])
+        return hash.trim() ? null : `Unknown revision: ${revision}`
+    }
+
+    const verifyTagName = async (git: SimpleGit, name: string): Promise<string | null> => {
+        if (name.startsWith('-')) return `Invalid tag name: ${name}`
+        const ref = await git.raw(['check-ref-format', '--normalize', `refs/tags/${name}`]).catch(() => '')
+        return ref.trim() ? null : `Invalid tag name: ${name}`
+    }
+
+    // Commits with their parents and refs for the commit graph, optionally filtered
+    ipcMain.handle('git:history', async (_event, options: {
+        repoPath: string,
+        maxCount?: number,
+        all?: boolean,
+        author?: string,
+        message?: string,
+        file?: string
+    }) => {
+        try {
+            const invalid = validateRepo(options.repoPath)
+            if (invalid) return { success: false, error: invalid }
+
+            // Fields and records are split by the unit and record separators, which commit messages do not contain
+            const args = ['log', '--date-order', `--max-count=${options.maxCount || 200}`, '--format=%H%x1f%P%x1f%an%x1f%ae%x1f%aI%x1f%D%x1f%s%x1e']
+            if (options.all) args.push('--all')
+            if (options.author) args.push(`--author=${options.author}`)
+            if (options.message) args.push(`--grep=${options.message}`, '--regexp-ignore-case')
+            if (options.file) {
+                const file = toRepoPath(options.repoPath, options.file)
+                if (!file) return { success: false, error: 'File is outside the repository' }
+                // Rewrite parents so the graph of a file's history stays connected
+                args.push('--parents', '--', file)
+            }
+
+            const git = await getGit(options.repoPath)
+            const output = await git.raw(args)
+            const commits = output.split('\x1e').map(record => record.trim()).filter(Boolean).map(record => {
+                const [hash, parents, author, email, date, refs, subject] = record.split('\x1f')
+                return {
+                    hash,
+                    parents: parents ? parents.split(' ') : [],
+                    author,
+                    email,
+                    date,
+                    refs: refs ? refs.split(', ') : [],
+                    subject
+                }
+            })
+            return { success: true, commits }
+        } catch (error) {
+            return { success: false, error: String(error) }
+        }
+    })
+
+    // Files changed between two revisions
+    ipcMain.handle('git:diffCommits', async (_event, options: { repoPath: string, from: string, to: string }) => {
+        try {
+            const invalid = validateRepo(options.repoPath)
+            if (invalid) return { success: false, error: invalid }
+            const git = await getGit(options.repoPath)
+            const unknown = await verifyRevision(git, options.from) ?? await verifyRevision(git, options.to)
+            if (unknown) return { success: false, error: unknown }
+            const output = await git.raw(['diff', '--name-status', '-M', options.from, options.to])
+            const files = output.split('\n').filter(Boolean).map(line => {
+                const [status, first, second] = line.split('\t')
+                // Renames and copies list the old path first
+                return second
+                    ? { status: status.charAt(0), path: second, oldPath: first }
+                    : { status: status.charAt(0), path: first }
+            })
+            return { success: true, files }
+        } catch (error) {
+            return { success: false, error: String(error) }
+        }
+    })
+
+    // Content of a file as it was at a revision
+    ipcMain.handle('git:fileAtRevision', async (_event, options: { repoPath: string, file: string, revision: string }) => {
+        try {
+            const invalid = validateRepo(options.repoPath)
+            if (invalid) return { success: false, error: invalid }
+            const file = toRepoPath(options.repoPath, options.file)
+            if (!file) return { success: false, error: 'File is outside the repository' }
+
+            const git = await getGit(options.repoPath)
+            const unknown = await verifyRevision(git, options.revision)
+            if (unknown) return { success: false, error: unknown }
+            const content = await git.show([`${options.revision}:${file}`])
+            if (content.length > 5 * 1024 * 1024) {
+                return { success: false, error: 'File too large to display' }
+            }
+            return { success: true, content }
+        } catch (error) {
+            return { success: false, error: String(error) }
+        }
+    })
+
+    // Blame a file line by line
+    ipcMain.handle('git:blame', async (_event, options: { repoPath: string, file: string }) => {
+        try {
+            const invalid = validateRepo(options.repoPath)
+            if (invalid) return { success: false, error: invalid }
+            const file = toRepoPath(options.repoPath, options.file)
+            if (!file) return { success: false, error: 'File is outside the repository' }
+
+            const git = await getGit(options.repoPath)
+            const output = await git.raw(['blame', '--line-porcelain', '--', file])
+            return { success: true, lines: parseBlame(output) }
+        } catch (error) {
+            return { success: false, error: String(error) }
+        }
+    })
+
+    // List, create, apply or drop stashes
+    ipcMain.handle('git:stash', async (_event, options: {
+        repoPath: string,
+        action: 'list' | 'push' | 'pop' | 'apply' | 'drop',
+        index?: number,
+        message?: string,
+        includeUntracked?: boolean
+    }) => {
+        try {
+            const invalid = validateRepo(options.repoPath)
+            if (invalid) return { success: false, error: invalid }
+            const git = await getGit(options.repoPath)
+
+            if (options.action === 'list') {
+                const list = await git.stashList()
+                return {
+                    success: true,
+                    stashes: list.all.map((entry, index) => ({ index, hash: entry.hash, date: entry.date, message: entry.message }))
+                }
+            }
+            if (options.action === 'push') {
+                const args = ['push']
+                if (options.includeUntracked) args.push('--include-untracked')
+                if (options.message) args.push('-m', options.message)
+                await git.stash(args)
+                return { success: true, conflicts: [] }
+            }
+
+            const ref = `stash@{${options.index ?? 0}}`
+            if (options.action === 'drop') {
+                await git.stash(['drop', ref])
+                return { success: true, conflicts: [] }
+            }
+            // A stash that does not apply cleanly is kept, even by pop
+            const conflicts = await runUntilConflict(git, () => git.stash([options.action, ref]))
+            return { success: true, conflicts }
+        } catch (error) {
+            return { success: false, error: String(error) }
+        }
+    })
+
+    // Merge a branch into the current one, or continue or abort a merge in progress
+    ipcMain.handle('git:merge', async (_event, options: { repoPath: string, branch?: string, action?: 'continue' | 'abort' }) => {
+        try {
+            const invalid = validateRepo(options.repoPath)
+            if (invalid) return { success: false, error: invalid }
+            const git = await getGit(options.repoPath)
+
+            if (options.action === 'abort') {
+                await git.raw(['merge', '--abort'])
+                return { success: true, conflicts: [] }
+            }
+            if (options.action === 'continue') {
+                await withoutEditor(git).raw(['merge', '--continue'])
+                return { success: true, conflicts: [] }
+            }
+            if (!options.branch) return { success: false, error: 'No branch to merge' }
+
+            const branch = options.branch
+            const unknown = await verifyRevision(git, branch)
+            if (unknown) return { success: false, error: unknown }
+            const conflicts = await runUntilConflict(git, () => git.raw(['merge', '--no-edit', branch]))
+            return { success: true, conflicts }
+        } catch (error) {
+            return { success: false, error: String(error) }
+        }
+    })
+
+    // Rebase the current branch onto another, or continue, skip or abort a rebase in progress
+    ipcMain.handle('git:rebase', async (_event, options: { repoPath: string, onto?: string, action?: 'continue' | 'skip' | 'abort' }) => {
+        try {
+            const invalid = validateRepo(options.repoPath)
+            if (invalid) return { success: false, error: invalid }
+            const git = await getGit(options.repoPath)
+
+            if (options.action === 'abort') {
+                await git.rebase(['--abort'])
+                return { success: true, conflicts: [] }
+            }
+            if (!options.action && !options.onto) return { success: false, error: 'No branch to rebase onto' }
+            if (options.action && options.action !== 'continue' && options.action !== 'skip') {
+                return { success: false, error: `Unknown rebase action: ${options.action}` }
+            }
+            if (!options.action) {
+                const unknown = await verifyRevision(git, options.onto as string)
+                if (unknown) return { success: false, error: unknown }
+            }
+
+            // Continuing stops again at the next commit that conflicts
+            const args = options.action ? [`--${options.action}`] : [options.onto as string]
+            const conflicts = await runUntilConflict(git, () => withoutEditor(git).rebase(args))
+            return { success: true, conflicts }
+        } catch (error) {
+            return { success: false, error: String(error) }
+        }
+    })
+
+    // Apply a commit on top of the current branch, or continue or abort a cherry-pick in progress
+    ipcMain.handle('git:cherryPick', async (_event, options: { repoPath: string, commit?: string, action?: 'continue' | 'abort' }) => {
+        try {
+            const invalid = validateRepo(options.repoPath)
+            if (invalid) return { success: false, error: invalid }
+            const git = await getGit(options.repoPath)
+
+            if (options.action === 'abort') {
+                await git.raw(['cherry-pick', '--abort'])
+                return { success: true, conflicts: [] }
+            }
+            if (options.action === 'continue') {
+                await withoutEditor(git).raw(['cherry-pick', '--continue'])
+                return { success: true, conflicts: [] }
+            }
+            if (!options.commit) return { success: false, error: 'No commit to cherry-pick' }
+
+            const commit = options.commit
+            const unknown = await verifyRevision(git, commit)
+            if (unknown) return { success: false, error: unknown }
+            const conflicts = await runUntilConflict(git, () => git.raw(['cherry-pick', commit]))
+            return { success: true, conflicts }
+        } catch (error) {
+            return { success: false, error: String(error) }
+        }
+    })
+
+    // Operation in progress and the files it left conflicted
+    ipcMain.handle('git:conflicts', async (_event, repoPath: string) => {
+        try {
+            const invalid = validateRepo(repoPath)
+            if (invalid) return { success: false, error: invalid }
+            const git = await getGit(repoPath)
+            const status = await git.status()
+
+            const gitDir = path.join(repoPath, '.git')
+            let operation: 'merge' | 'rebase' | 'cherry-pick' | null = null
+            if (fs.existsSync(path.join(gitDir, 'rebase-merge')) || fs.existsSync(path.join(gitDir, 'rebase-apply'))) {
+                operation = 'rebase'
+            } else if (fs.existsSync(path.join(gitDir, 'CHERRY_PICK_HEAD'))) {
+                operation = 'cherry-pick'
+            } else if (fs.existsSync(path.join(gitDir, 'MERGE_HEAD'))) {
+                operation = 'merge'
+            }
+            return { success: true, operation, files: status.conflicted }
+        } catch (error) {
+            return { success: false, error: String(error) }
+        }
+    })
+
+    // Common ancestor, current and incoming versions of a conflicted file, with the working copy
+    ipcMain.handle('git:conflictVersions', async (_event, options: { repoPath: string, file: string }) => {
+        try {
+            const invalid = validateRepo(options.repoPath)
+            if (invalid) return { success: false, error: invalid }
+            const file = toRepoPath(options.repoPath, options.file)
+            if (!file) return { success: false, error: 'File is outside the repository' }
+
+            const git = await getGit(options.repoPath)
+            // A stage is missing when one side added or deleted the file
+            const stage = (index: number) => git.show([`:${index}:${file}`]).catch(() => '')
+            const [base, ours, theirs] = await Promise.all([stage(1), stage(2), stage(3)])
+            const fullPath = path.join(options.repoPath, file)
+            const merged = fs.existsSync(fullPath) ? await fs.promises.readFile(fullPath, 'utf-8') : ''
+            return { success: true, base, ours, theirs, merged }
+        } catch (error) {
+            return { success: false, error: String(error) }
+        }
+    })
+
+    // Write the resolved content of a conflicted file and mark it resolved
+    ipcMain.handle('git:resolveConflict', async (_event, options: { repoPath: string, file: string, content: string }) => {
+        try {
+            const invalid = validateRepo(options.repoPath)
+            if (invalid) return { success: false, error: invalid }
+            const file = toRepoPath(options.repoPath, options.file)
+            if (!file) return { success: false, error: 'File is outside the repository' }
+
+            await fs.promises.writeFile(path.join(options.repoPath, file), options.content, 'utf-8')
+            const git = await getGit(options.repoPath)
+            await git.add([file])
+            return { success: true }
+        } catch (error) {
+            return { success: false, error: String(error) }
+        }
+    })
+
+    // List, create or delete tags
+    ipcMain.handle('git:tags', async (_event, options: {
+        repoPath: string,
+        action: 'list' | 'create' | 'delete',
+        name?: string,
+        ref?: string,
+        message?: string
+    }) => {
+        try {
+            const invalid = validateRepo(options.repoPath)
+            if (invalid) return { success: false, error: invalid }
+            const git = await getGit(options.repoPath)
+
+            if (options.action === 'list') {
+                // Annotated tags point at a tag object, so show the commit they dereference to
+                const output = await git.raw([
+                    'tag', '--list', '--sort=-creatordate',
+                    '--format=%(refname:short)%09%(if)%(*objectname)%(then)%(*objectname:short)%(else)%(objectname:short)%(end)%09%(creatordate:iso-strict)%09%(contents:subject)'
+                ])
+                const tags = output.split('\n').filter(Boolean).map(line => {
+                    const [name, hash, date, ...subject] = line.split('\t')
+                    return { name, hash, date, message: subject.join('\t') }
+                })
+                return { success: true, tags }
+            }
+            if (!options.name) return { success: false, error: 'No tag name' }
+            const invalidName = await verifyTagName(git, options.name)
+            if (invalidName) return { success: false, error: invalidName }
+            if (options.ref) {
+                const unknown = await verifyRevision(git, options.ref)
+                if (unknown) return { success: false, error: unknown }
+            }
+
+            if (options.action === 'delete') {
+                await git.tag(['-d', options.name])
+            } else if (options.message) {
+                await git.tag(['-a', options.name, '-m', options.message, options.ref || 'HEAD'])
+            } else {
+                await git.tag([options.name, options.ref || 'HEAD'])
+            }
+            return { success: true }
+        } catch (error) {
+            return { success: false, error: String(error) }
+        }
+    })
+
+    // Apply a patch to the index or working tree, used to stage, unstage or discard single hunks
+    ipcMain.handle('git:applyPatch', async (_event, options: { repoPath: string, patch: string, cached?: boolean, reverse?: boolean }) => {
+        const patchFile = path.join(os.tmpdir(), `kalynt-hunk-${process.pid}-${Date.now()}.patch`)
+        try {
+            const invalid = validateRepo(options.repoPath)
+            if (invalid) return { success: false, error: invalid }
+
+            await fs.promises.writeFile(patchFile, options.patch, 'utf-8')
+            const git = await getGit(options.repoPath)
+            const args = ['--whitespace=nowarn']
+            if (options.cached) args.push('--cached')
+            if (options.reverse) args.push('--reverse')
+            await git.applyPatch(patchFile, args)
+            return { success: true }
+        } catch (error) {
+            return { success: false, error: String(error) }
+        } finally {
+            await fs.promises.rm(patchFile, { force: true })
+        }
+    })
 }
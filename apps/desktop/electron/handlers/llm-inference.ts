@@ -5,7 +5,7 @@
 import path from 'path'
 import fs from 'fs'
 import { pathToFileURL } from 'url'
-import type { Llama, LlamaModel, LlamaContext } from 'node-llama-cpp'
+import type { Llama, LlamaModel, LlamaContext, LlamaGrammarEvaluationState } from 'node-llama-cpp'
 import { nativeHelperService } from '../services/native-helper-service'
 
 function validatePath(base: string, target: string): string {
@@ -30,6 +30,85 @@ let draftModelId: string | null = null
 
 const activeGenerations = new Map<string, AbortController>()
 
+interface GrammarOptions {
+    // JSON schema the output has to match
+    jsonSchema?: object
+    // GBNF grammar, used when there is no schema
+    grammar?: string
+    // Leave the output free until it contains this text, then constrain what follows
+    grammarTrigger?: string
+}
+
+interface ConstrainedGeneration {
+    evaluationState: LlamaGrammarEvaluationState | (() => LlamaGrammarEvaluationState | undefined)
+    // Index in the output where the constrained part has ended, or -1
+    findEnd: (text: string) => number
+}
+
+/**
+ * Build the grammar state for a generation. With a trigger the grammar is
+ * lazy: it starts once the trigger appears, so models can still answer in
+ * prose and only the part after it (e.g. a tool call body) is forced valid.
+ */
+async function createConstrainedGeneration(
+    options: GrammarOptions,
+    model: LlamaModel,
+    getText: () => string
+): Promise<ConstrainedGeneration | null> {
+    if ((!options.jsonSchema && !options.grammar) || !llamaInstance || !nodeLlamaCpp) return null
+
+    try {
+        let grammar = options.jsonSchema
+            ? await llamaInstance.createGrammarForJsonSchema(options.jsonSchema as any)
+            : await llamaInstance.createGrammar({ grammar: options.grammar! })
+        // JSON schema grammars end in a run of newlines that marks the end of the value
+        const stopTriggers = grammar.stopGenerationTriggers
+            .map(trigger => Array.isArray(trigger)
+                ? trigger.filter((part): part is string => typeof part === 'string').join('')
+                : trigger.toString())
+            .filter(trigger => trigger.length > 0)
+
+        const trigger = options.grammarTrigger
+        if (!trigger) {
+            const evaluationState = new nodeLlamaCpp.LlamaGrammarEvaluationState({ model, grammar })
+            return { evaluationState, findEnd: text => firstIndexOf(text, stopTriggers, 0) }
+        }
+
+        // The trigger is usually followed by a newline that the grammar would not accept
+        grammar = await llamaInstance.createGrammar({
+            grammar: `${grammar.grammar}\nlazy-root ::= [ \\t\\n]* ${grammar.rootRuleName}`,
+            rootRuleName: 'lazy-root'
+        })
+
+        let state: LlamaGrammarEvaluationState | undefined
+        let startIndex = -1
+        let skipped = false
+        const evaluationState = () => {
+            if (state || skipped) return state
+            const text = getText()
+            const at = text.indexOf(trigger)
+            if (at === -1) return undefined
+            // A token that ran past the trigger already started the value; constraining now would corrupt it
+            if (text.slice(at + trigger.length).trim()) {
+                skipped = true
+                return undefined
+            }
+            startIndex = text.length
+            state = new nodeLlamaCpp.LlamaGrammarEvaluationState({ model, grammar })
+            return state
+        }
+        return { evaluationState, findEnd: text => startIndex === -1 ? -1 : firstIndexOf(text, stopTriggers, startIndex) }
+    } catch (grammarErr) {
+        console.warn('[Main] Failed to create grammar, falling back to unconstrained:', grammarErr)
+        return null
+    }
+}
+
+function firstIndexOf(text: string, needles: string[], from: number): number {
+    const found = needles.map(needle => text.indexOf(needle, from)).filter(index => index !== -1)
+    return found.length > 0 ? Math.min(...found) : -1
+}
+
 /**
  * ESM FIX: Create a dynamic import that bundlers can't transform to require()
  * The Function constructor creates a new scope where the import() is evaluated at runtime,
@@ -439,13 +518,12 @@ export function registerLLMInferenceHandlers(
         }
     })
 
-    ipcMain.handle('generate-completion', async (_event, options: {
+    ipcMain.handle('generate-completion', async (_event, options: GrammarOptions & {
         prompt: string
         maxTokens: number
         temperature: number
         topP: number
         stopSequences: string[]
-        jsonSchema?: object
     }) => {
         if (useNativeInference && nativeHelperService.isAvailable()) {
             try {
@@ -500,6 +578,7 @@ export function registerLLMInferenceHandlers(
             // Capture model reference at start to detect if it gets unloaded during generation
             const currentModel = llamaModel
             let sequence: any = null
+            let constrained: ConstrainedGeneration | null = null
             const draftContext: any = null
             let draftSequence: any = null
             try {
@@ -526,18 +605,7 @@ export function registerLLMInferenceHandlers(
                     }
                 }
 
-                let grammar: any = undefined
-                if (options.jsonSchema && nodeLlamaCpp) {
-                    try {
-                        const { LlamaJsonSchemaGrammar } = nodeLlamaCpp as any
-                        if (LlamaJsonSchemaGrammar) {
-                            grammar = new LlamaJsonSchemaGrammar(llamaInstance, options.jsonSchema)
-                            console.log('[Main] Using JSON schema grammar for constrained generation')
-                        }
-                    } catch (grammarErr) {
-                        console.warn('[Main] Failed to create grammar, falling back to unconstrained:', grammarErr)
-                    }
-                }
+                constrained = await createConstrainedGeneration(options, currentModel, () => accumulatedText)
 
                 const evaluateOptions: any = {
                     temperature: options.temperature,
@@ -545,8 +613,9 @@ export function registerLLMInferenceHandlers(
                     signal: abortController.signal
                 }
 
-                if (grammar) {
-                    evaluateOptions.grammar = grammar
+                if (constrained) {
+                    evaluateOptions.grammarEvaluationState = constrained.evaluationState
+                    console.log('[Main] Using grammar for constrained generation')
                 }
 
                 // Attach draft sequence for speculative decoding if available
@@ -565,6 +634,12 @@ export function registerLLMInferenceHandlers(
 
                     if (accumulatedText.length > options.maxTokens * 4) break
 
+                    const grammarEnd = constrained?.findEnd(accumulatedText) ?? -1
+                    if (grammarEnd !== -1) {
+                        accumulatedText = accumulatedText.slice(0, grammarEnd)
+                        break
+                    }
+
                     const foundStop = shouldStop(accumulatedText)
                     if (foundStop) {
                         console.log('[Main] Stop sequence detected:', foundStop)
@@ -608,13 +683,12 @@ export function registerLLMInferenceHandlers(
         }
     })
 
-    ipcMain.on('generate-completion-stream', async (event, options: {
+    ipcMain.on('generate-completion-stream', async (event, options: GrammarOptions & {
         prompt: string
         maxTokens: number
         temperature: number
         topP: number
         stopSequences: string[]
-        jsonSchema?: object
         requestId: string
     }) => {
         const { requestId } = options
@@ -682,18 +756,7 @@ export function registerLLMInferenceHandlers(
                     }
                 }
 
-                let grammar: any = undefined
-                if (options.jsonSchema && nodeLlamaCpp) {
-                    try {
-                        const { LlamaJsonSchemaGrammar } = nodeLlamaCpp as any
-                        if (LlamaJsonSchemaGrammar) {
-                            grammar = new LlamaJsonSchemaGrammar(llamaInstance, options.jsonSchema)
-                            console.log('[Main] Using JSON schema grammar for constrained generation')
-                        }
-                    } catch (grammarErr) {
-                        console.warn('[Main] Failed to create grammar, falling back to unconstrained:', grammarErr)
-                    }
-                }
+                const constrained = await createConstrainedGeneration(options, currentModel, () => accumulatedText)
 
                 const evaluateOptions: any = {
                     temperature: options.temperature,
@@ -701,8 +764,9 @@ export function registerLLMInferenceHandlers(
                     signal: abortController.signal
                 }
 
-                if (grammar) {
-                    evaluateOptions.grammar = grammar
+                if (constrained) {
+                    evaluateOptions.grammarEvaluationState = constrained.evaluationState
+                    console.log('[Main] Using grammar for constrained generation')
                 }
 
                 // Attach draft sequence for speculative decoding if available
@@ -723,6 +787,11 @@ export function registerLLMInferenceHandlers(
                         break
                     }
 
+                    // The grammar's end marker is whitespace, drop it rather than stream it
+                    if (constrained && constrained.findEnd(accumulatedText) !== -1) {
+                        break
+                    }
+
                     if (accumulatedText.length > options.maxTokens * 4) break
 
                     safeSend('generate-completion-token', { requestId, token: text })
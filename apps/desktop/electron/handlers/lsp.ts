@@ -0,0 +1,120 @@
+/*
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+import { fileURLToPath, pathToFileURL } from 'url'
+import { lspService, type LSPWorkspaceEdit } from '../services/lspService'
+import type {
+    LspCodeActionParams,
+    LspCodeActionsResult,
+    LspDocumentParams,
+    LspEditResult,
+    LspFileEdit,
+    LspRenameParams
+} from '../../src/types/lsp'
+
+// Session starts in flight, so concurrent requests share one server
+const startingSessions = new Map<string, Promise<string | null>>()
+
+/**
+ * Find the running server for a language, starting it on first use.
+ * Returns null when no server is configured or it cannot be started.
+ */
+async function ensureSession(languageId: string, workspacePath: string): Promise<string | null> {
+    if (!lspService.hasServer(languageId)) return null
+
+    const existing = lspService.findSession(languageId, workspacePath)
+    if (existing) return existing
+
+    const key = `${languageId}:${workspacePath}`
+    let starting = startingSessions.get(key)
+    if (!starting) {
+        const sessionId = `lsp-${languageId}-${Date.now()}`
+        starting = lspService.startSession(sessionId, languageId, workspacePath)
+            .then(result => result.success ? sessionId : null)
+            .finally(() => startingSessions.delete(key))
+        startingSessions.set(key, starting)
+    }
+    return starting
+}
+
+async function prepareDocument(params: LspDocumentParams): Promise<{ sessionId: string; uri: string } | null> {
+    const sessionId = await ensureSession(params.languageId, params.workspacePath)
+    if (!sessionId) return null
+
+    // One server covers both flavours, but documents with JSX need their own id
+    const extension = params.filePath.split('.').pop()?.toLowerCase()
+    const documentLanguageId = extension === 'tsx' || extension === 'jsx' ? `${params.languageId}react` : params.languageId
+
+    const uri = pathToFileURL(params.filePath).href
+    lspService.syncDocument(sessionId, uri, documentLanguageId, params.content)
+    return { sessionId, uri }
+}
+
+function toFileEdits(edit: LSPWorkspaceEdit | null): LspFileEdit[] {
+    if (!edit) return []
+
+    const files = new Map<string, LspFileEdit>()
+    const fileFor = (uri: string) => {
+        const filePath = fileURLToPath(uri)
+        let file = files.get(filePath)
+        if (!file) {
+            file = { path: filePath, edits: [] }
+            files.set(filePath, file)
+        }
+        return file
+    }
+
+    if (edit.documentChanges) {
+        for (const change of edit.documentChanges) {
+            if ('textDocument' in change) {
+                fileFor(change.textDocument.uri).edits.push(...change.edits)
+            } else if (change.kind === 'create') {
+                fileFor(change.uri).create = true
+            } else if (change.kind === 'delete') {
+                fileFor(change.uri).delete = true
+            } else {
+                throw new Error('File renames in refactoring edits are not supported')
+            }
+        }
+    } else {
+        for (const [uri, edits] of Object.entries(edit.changes ?? {})) {
+            fileFor(uri).edits.push(...edits)
+        }
+    }
+    return Array.from(files.values())
+}
+
+export function registerLspHandlers(ipcMain: Electron.IpcMain) {
+    ipcMain.handle('lsp:rename', async (_event, params: LspRenameParams): Promise<LspEditResult> => {
+        try {
+            const document = await prepareDocument(params)
+            if (!document) {
+                return { success: false, unavailable: true, error: `No language server for ${params.languageId}` }
+            }
+
+            const edit = await lspService.rename(document.sessionId, document.uri, params.position, params.newName)
+            return { success: true, files: toFileEdits(edit) }
+        } catch (error: any) {
+            console.error('[LSP] Rename failed:', error)
+            return { success: false, error: error?.message || String(error) }
+        }
+    })
+
+    ipcMain.handle('lsp:codeActions', async (_event, params: LspCodeActionParams): Promise<LspCodeActionsResult> => {
+        try {
+            const document = await prepareDocument(params)
+            if (!document) {
+                return { success: false, unavailable: true, error: `No language server for ${params.languageId}` }
+            }
+
+            const actions = await lspService.getCodeActions(document.sessionId, document.uri, params.range, params.only)
+            return {
+                success: true,
+                actions: actions.map(action => ({ title: action.title, kind: action.kind, files: toFileEdits(action.edit ?? null) }))
+            }
+        } catch (error: any) {
+            console.error('[LSP] Code actions failed:', error)
+            return { success: false, error: error?.message || String(error) }
+        }
+    })
+}
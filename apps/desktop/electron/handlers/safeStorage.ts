@@ -47,6 +47,103 @@ function saveKeys(userDataPath: string, keys: EncryptedKeys): void {
     }
 }
 
+export interface SafeStorageResult {
+    success: boolean
+    value?: string | null
+    keys?: string[]
+    error?: string
+    encrypted?: boolean
+}
+
+// Store an encrypted value
+// SECURITY FIX: Refuse to store credentials when encryption is unavailable
+// Base64 encoding is NOT encryption and provides no security
+export function setSecureValue(userDataPath: string, key: string, value: string): SafeStorageResult {
+    try {
+        if (!safeStorage.isEncryptionAvailable()) {
+            // SECURITY: Do not fall back to insecure storage
+            console.error('[SafeStorage] Encryption not available - refusing to store credentials insecurely')
+            return {
+                success: false,
+                error: 'Secure storage is not available on this system. Cannot store credentials securely.',
+                encrypted: false
+            }
+        }
+
+        const encrypted = safeStorage.encryptString(value)
+        const keys = loadKeys(userDataPath)
+        keys[key] = encrypted.toString('base64')
+        saveKeys(userDataPath, keys)
+
+        console.log(`[SafeStorage] Stored encrypted key: ${key}`)
+        return { success: true, encrypted: true }
+    } catch (error) {
+        console.error('[SafeStorage] Set error:', error)
+        return { success: false, error: String(error) }
+    }
+}
+
+// Retrieve and decrypt a value
+// SECURITY FIX: Refuse to retrieve when encryption is unavailable
+export function getSecureValue(userDataPath: string, key: string): SafeStorageResult {
+    try {
+        const keys = loadKeys(userDataPath)
+        const encryptedBase64 = keys[key]
+
+        if (!encryptedBase64) {
+            return { success: true, value: null }
+        }
+
+        if (!safeStorage.isEncryptionAvailable()) {
+            // SECURITY: Do not attempt to decode potentially encrypted data
+            // This prevents misuse of unencrypted fallback data
+            console.error('[SafeStorage] Encryption not available - cannot retrieve credentials')
+            return {
+                success: false,
+                value: null,
+                error: 'Secure storage is not available on this system. Cannot retrieve credentials.',
+                encrypted: false
+            }
+        }
+
+        const encrypted = Buffer.from(encryptedBase64, 'base64')
+        const decrypted = safeStorage.decryptString(encrypted)
+
+        return { success: true, value: decrypted, encrypted: true }
+    } catch (error) {
+        console.error('[SafeStorage] Get error:', error)
+        return { success: false, error: String(error) }
+    }
+}
+
+// Delete stored keys
+export function deleteSecureValues(userDataPath: string, keysToDelete: string[]): SafeStorageResult {
+    try {
+        const keys = loadKeys(userDataPath)
+        for (const key of keysToDelete) {
+            delete keys[key]
+        }
+        saveKeys(userDataPath, keys)
+
+        console.log(`[SafeStorage] Deleted key: ${keysToDelete.join(', ')}`)
+        return { success: true }
+    } catch (error) {
+        console.error('[SafeStorage] Delete error:', error)
+        return { success: false, error: String(error) }
+    }
+}
+
+// Get all stored key names (not values)
+export function listSecureKeys(userDataPath: string): SafeStorageResult {
+    try {
+        const keys = loadKeys(userDataPath)
+        return { success: true, keys: Object.keys(keys) }
+    } catch (error) {
+        console.error('[SafeStorage] ListKeys error:', error)
+        return { success: false, error: String(error) }
+    }
+}
+
 export function registerSafeStorageHandlers(
     ipcMain: IpcMain,
     getUserDataPath: () => string
@@ -56,90 +153,19 @@ export function registerSafeStorageHandlers(
         return safeStorage.isEncryptionAvailable()
     })
 
-    // Store an encrypted value
-    // SECURITY FIX: Refuse to store credentials when encryption is unavailable
-    // Base64 encoding is NOT encryption and provides no security
     ipcMain.handle('safeStorage:set', async (_event, options: { key: string; value: string }) => {
-        try {
-            if (!safeStorage.isEncryptionAvailable()) {
-                // SECURITY: Do not fall back to insecure storage
-                console.error('[SafeStorage] Encryption not available - refusing to store credentials insecurely')
-                return {
-                    success: false,
-                    error: 'Secure storage is not available on this system. Cannot store credentials securely.',
-                    encrypted: false
-                }
-            }
-
-            const encrypted = safeStorage.encryptString(options.value)
-            const keys = loadKeys(getUserDataPath())
-            keys[options.key] = encrypted.toString('base64')
-            saveKeys(getUserDataPath(), keys)
-
-            console.log(`[SafeStorage] Stored encrypted key: ${options.key}`)
-            return { success: true, encrypted: true }
-        } catch (error) {
-            console.error('[SafeStorage] Set error:', error)
-            return { success: false, error: String(error) }
-        }
+        return setSecureValue(getUserDataPath(), options.key, options.value)
     })
 
-    // Retrieve and decrypt a value
-    // SECURITY FIX: Refuse to retrieve when encryption is unavailable
     ipcMain.handle('safeStorage:get', async (_event, key: string) => {
-        try {
-            const keys = loadKeys(getUserDataPath())
-            const encryptedBase64 = keys[key]
-
-            if (!encryptedBase64) {
-                return { success: true, value: null }
-            }
-
-            if (!safeStorage.isEncryptionAvailable()) {
-                // SECURITY: Do not attempt to decode potentially encrypted data
-                // This prevents misuse of unencrypted fallback data
-                console.error('[SafeStorage] Encryption not available - cannot retrieve credentials')
-                return {
-                    success: false,
-                    value: null,
-                    error: 'Secure storage is not available on this system. Cannot retrieve credentials.',
-                    encrypted: false
-                }
-            }
-
-            const encrypted = Buffer.from(encryptedBase64, 'base64')
-            const decrypted = safeStorage.decryptString(encrypted)
-
-            return { success: true, value: decrypted, encrypted: true }
-        } catch (error) {
-            console.error('[SafeStorage] Get error:', error)
-            return { success: false, error: String(error) }
-        }
+        return getSecureValue(getUserDataPath(), key)
     })
 
-    // Delete a stored key
     ipcMain.handle('safeStorage:delete', async (_event, key: string) => {
-        try {
-            const keys = loadKeys(getUserDataPath())
-            delete keys[key]
-            saveKeys(getUserDataPath(), keys)
-
-            console.log(`[SafeStorage] Deleted key: ${key}`)
-            return { success: true }
-        } catch (error) {
-            console.error('[SafeStorage] Delete error:', error)
-            return { success: false, error: String(error) }
-        }
+        return deleteSecureValues(getUserDataPath(), [key])
     })
 
-    // Get all stored key names (not values)
     ipcMain.handle('safeStorage:listKeys', async () => {
-        try {
-            const keys = loadKeys(getUserDataPath())
-            return { success: true, keys: Object.keys(keys) }
-        } catch (error) {
-            console.error('[SafeStorage] ListKeys error:', error)
-            return { success: false, error: String(error) }
-        }
+        return listSecureKeys(getUserDataPath())
     })
 }
@@ -24,10 +24,13 @@ import { registerCodeExecutionHandlers } from './handlers/code-execution'
 import { registerModelDownloadHandlers } from './handlers/model-download'
 import { registerLLMInferenceHandlers } from './handlers/llm-inference'
 import { registerSafeStorageHandlers } from './handlers/safeStorage'
+import { registerAIEndpointHandlers } from './handlers/ai-endpoint'
 import { registerNukeHandlers } from './handlers/nuke-handler'
 import { registerDependencyHandlers } from './handlers/dependency'
 import { setupBuildHandlers } from './handlers/build'
 import { setupDebugHandlers } from './handlers/debug'
+import { registerLspHandlers } from './handlers/lsp'
+import { lspService } from './services/lspService'
 import { registerUpdateHandlers, initializeAutoUpdater } from './handlers/update-handler'
 import { extensionHostManager } from './extensions/extensionHostManager'
 import { startSignalingServer } from './signalingServer'
@@ -277,7 +280,10 @@ function registerAllHandlers() {
         dialog,
         () => mainWindow,
         () => currentWorkspacePath,
-        (path) => currentWorkspacePath = path,
+        (path) => {
+            currentWorkspacePath = path
+            extensionHostManager.setWorkspaceFolder(path)
+        },
         () => MODELS_DIR
     )
 
@@ -302,6 +308,9 @@ function registerAllHandlers() {
     // Secure storage for API keys
     registerSafeStorageHandlers(ipcMain, () => app.getPath('userData'))
 
+    // Self-hosted OpenAI-compatible inference servers
+    registerAIEndpointHandlers(ipcMain)
+
     // Nuke Button (Emergency Process Cleanup)
     registerNukeHandlers()
 
@@ -314,6 +323,9 @@ function registerAllHandlers() {
     // Debug system
     setupDebugHandlers(ipcMain, () => mainWindow, () => currentWorkspacePath)
 
+    // Language server refactorings (rename, code actions)
+    registerLspHandlers(ipcMain)
+
     // Auto-update system
     registerUpdateHandlers(ipcMain, () => mainWindow)
 
@@ -502,6 +514,7 @@ app.on('open-url', (event, url) => {
 })
 
 app.on('before-quit', () => {
+    void lspService.stopAllSessions()
     if (signalingServer) {
         signalingServer.close()
         signalingServer = null
@@ -392,6 +392,8 @@ contextBridge.exposeInMainWorld('electronAPI', {
         readFile: (filePath: string) => ipcRenderer.invoke('fs:readFile', filePath),
         readBinaryFile: (filePath: string) => ipcRenderer.invoke('fs:readBinaryFile', filePath),
         writeFile: (options: any) => ipcRenderer.invoke('fs:writeFile', options),
+        writeShadowCopy: (options: { path: string; content: string }) => ipcRenderer.invoke('fs:writeShadowCopy', options),
+        removeShadowCopy: (shadowPath: string) => ipcRenderer.invoke('fs:removeShadowCopy', shadowPath),
         createFile: (filePath: string) => ipcRenderer.invoke('fs:createFile', filePath),
         createDir: (dirPath: string) => ipcRenderer.invoke('fs:createDir', dirPath),
         delete: (itemPath: string) => ipcRenderer.invoke('fs:delete', itemPath),
@@ -409,8 +411,18 @@ contextBridge.exposeInMainWorld('electronAPI', {
             ipcRenderer.removeAllListeners('fs:change')
         },
         backupWorkspace: () => ipcRenderer.invoke('fs:backup'),
-        search: (options: { searchPath: string; pattern: string; filePattern?: string; maxResults?: number }) => 
-            ipcRenderer.invoke('fs:search', options)
+        search: (options: { searchPath: string; pattern: string; filePattern?: string; maxResults?: number; [option: string]: any }) => 
+            ipcRenderer.invoke('fs:search', options),
+        cancelSearch: (searchId: string) => ipcRenderer.invoke('fs:cancelSearch', searchId),
+        onSearchResults: (callback: (data: any) => void) => {
+            const subscription = (_event: IpcRendererEvent, data: any) => callback(data)
+            ipcRenderer.on('fs:searchResults', subscription)
+            return () => {
+                ipcRenderer.removeListener('fs:searchResults', subscription)
+            }
+        },
+        replace: (options: any) => ipcRenderer.invoke('fs:replace', options),
+        undoReplace: (replaceId: string) => ipcRenderer.invoke('fs:undoReplace', replaceId)
     },
 
     // ==========================================
@@ -478,7 +490,20 @@ contextBridge.exposeInMainWorld('electronAPI', {
         discard: (options: any) => ipcRenderer.invoke('git:discard', options),
         createBranch: (options: any) => ipcRenderer.invoke('git:createBranch', options),
         fetch: (repoPath: string) => ipcRenderer.invoke('git:fetch', repoPath),
-        remote: (repoPath: string) => ipcRenderer.invoke('git:remote', repoPath)
+        remote: (repoPath: string) => ipcRenderer.invoke('git:remote', repoPath),
+        blame: (options: any) => ipcRenderer.invoke('git:blame', options),
+        stash: (options: any) => ipcRenderer.invoke('git:stash', options),
+        merge: (options: any) => ipcRenderer.invoke('git:merge', options),
+        rebase: (options: any) => ipcRenderer.invoke('git:rebase', options),
+        cherryPick: (options: any) => ipcRenderer.invoke('git:cherryPick', options),
+        conflicts: (repoPath: string) => ipcRenderer.invoke('git:conflicts', repoPath),
+        conflictVersions: (options: any) => ipcRenderer.invoke('git:conflictVersions', options),
+        resolveConflict: (options: any) => ipcRenderer.invoke('git:resolveConflict', options),
+        tags: (options: any) => ipcRenderer.invoke('git:tags', options),
+        applyPatch: (options: any) => ipcRenderer.invoke('git:applyPatch', options),
+        history: (options: any) => ipcRenderer.invoke('git:history', options),
+        diffCommits: (options: any) => ipcRenderer.invoke('git:diffCommits', options),
+        fileAtRevision: (options: any) => ipcRenderer.invoke('git:fileAtRevision', options)
     },
 
 
@@ -542,9 +567,20 @@ contextBridge.exposeInMainWorld('electronAPI', {
     // ==========================================
     debug: {
         getConfigurations: (workspacePath: string) => ipcRenderer.invoke('debug:getConfigurations', workspacePath),
-        start: (configuration: any, workspacePath: string, activeFile?: string) => ipcRenderer.invoke('debug:start', configuration, workspacePath, activeFile),
+        start: (configuration: any, workspacePath: string, activeFile?: string, commandValues?: Record<string, string>) =>
+            ipcRenderer.invoke('debug:start', configuration, workspacePath, activeFile, commandValues),
+        listProcesses: () => ipcRenderer.invoke('debug:listProcesses'),
+        startCompound: (name: string, workspacePath: string, activeFile?: string, commandValues?: Record<string, Record<string, string>>) =>
+            ipcRenderer.invoke('debug:startCompound', name, workspacePath, activeFile, commandValues),
         stop: (sessionId: string) => ipcRenderer.invoke('debug:stop', sessionId),
+        stopAll: () => ipcRenderer.invoke('debug:stopAll'),
+        getSessions: () => ipcRenderer.invoke('debug:getSessions'),
         setBreakpoints: (sessionId: string, file: string, breakpoints: any) => ipcRenderer.invoke('debug:setBreakpoints', sessionId, file, breakpoints),
+        setFunctionBreakpoints: (sessionId: string, breakpoints: any) => ipcRenderer.invoke('debug:setFunctionBreakpoints', sessionId, breakpoints),
+        setExceptionBreakpoints: (sessionId: string, settings: any) => ipcRenderer.invoke('debug:setExceptionBreakpoints', sessionId, settings),
+        getCapabilities: (sessionId: string) => ipcRenderer.invoke('debug:getCapabilities', sessionId),
+        loadBreakpoints: (workspacePath: string) => ipcRenderer.invoke('debug:loadBreakpoints', workspacePath),
+        saveBreakpoints: (workspacePath: string, breakpoints: any) => ipcRenderer.invoke('debug:saveBreakpoints', workspacePath, breakpoints),
         continue: (sessionId: string, threadId?: number) => ipcRenderer.invoke('debug:continue', sessionId, threadId),
         stepOver: (sessionId: string, threadId?: number) => ipcRenderer.invoke('debug:stepOver', sessionId, threadId),
         stepInto: (sessionId: string, threadId?: number) => ipcRenderer.invoke('debug:stepInto', sessionId, threadId),
@@ -552,7 +588,12 @@ contextBridge.exposeInMainWorld('electronAPI', {
         pause: (sessionId: string, threadId?: number) => ipcRenderer.invoke('debug:pause', sessionId, threadId),
         getCallStack: (sessionId: string, threadId?: number) => ipcRenderer.invoke('debug:getCallStack', sessionId, threadId),
         getVariables: (sessionId: string, variablesReference: number) => ipcRenderer.invoke('debug:getVariables', sessionId, variablesReference),
-        evaluate: (sessionId: string, expression: string, frameId?: number) => ipcRenderer.invoke('debug:evaluate', sessionId, expression, frameId),
+        evaluate: (sessionId: string, expression: string, frameId?: number, context?: string) => ipcRenderer.invoke('debug:evaluate', sessionId, expression, frameId, context),
+        completions: (sessionId: string, text: string, column: number, frameId?: number) => ipcRenderer.invoke('debug:completions', sessionId, text, column, frameId),
+        setVariable: (sessionId: string, variablesReference: number, name: string, value: string) => ipcRenderer.invoke('debug:setVariable', sessionId, variablesReference, name, value),
+        setExpression: (sessionId: string, expression: string, value: string, frameId?: number) => ipcRenderer.invoke('debug:setExpression', sessionId, expression, value, frameId),
+        dataBreakpointInfo: (sessionId: string, name: string, variablesReference?: number, frameId?: number) => ipcRenderer.invoke('debug:dataBreakpointInfo', sessionId, name, variablesReference, frameId),
+        setDataBreakpoints: (sessionId: string, breakpoints: any) => ipcRenderer.invoke('debug:setDataBreakpoints', sessionId, breakpoints),
         addWatch: (sessionId: string, expression: string) => ipcRenderer.invoke('debug:addWatch', sessionId, expression),
         removeWatch: (sessionId: string, watchId: string) => ipcRenderer.invoke('debug:removeWatch', sessionId, watchId),
         getWatches: (sessionId: string) => ipcRenderer.invoke('debug:getWatches', sessionId),
@@ -628,6 +669,27 @@ contextBridge.exposeInMainWorld('electronAPI', {
                 ipcRenderer.removeListener('debug:adapter-missing', subscription)
             }
         },
+        onCapabilities: (callback: (data: { sessionId: string, capabilities: any }) => void) => {
+            const subscription = (_event: IpcRendererEvent, data: any) => callback(data)
+            ipcRenderer.on('debug:capabilities', subscription)
+            return () => {
+                ipcRenderer.removeListener('debug:capabilities', subscription)
+            }
+        },
+        onBreakpointsVerified: (callback: (data: { sessionId: string, verified: Record<string, boolean> }) => void) => {
+            const subscription = (_event: IpcRendererEvent, data: any) => callback(data)
+            ipcRenderer.on('debug:breakpoints-verified', subscription)
+            return () => {
+                ipcRenderer.removeListener('debug:breakpoints-verified', subscription)
+            }
+        },
+        onSessions: (callback: (sessions: any[]) => void) => {
+            const subscription = (_event: IpcRendererEvent, sessions: any[]) => callback(sessions)
+            ipcRenderer.on('debug:sessions', subscription)
+            return () => {
+                ipcRenderer.removeListener('debug:sessions', subscription)
+            }
+        },
         removeListeners: () => {
             ipcRenderer.removeAllListeners('debug:started')
             ipcRenderer.removeAllListeners('debug:stopped')
@@ -639,9 +701,20 @@ contextBridge.exposeInMainWorld('electronAPI', {
             ipcRenderer.removeAllListeners('debug:response')
             ipcRenderer.removeAllListeners('debug:error')
             ipcRenderer.removeAllListeners('debug:adapter-missing')
+            ipcRenderer.removeAllListeners('debug:capabilities')
+            ipcRenderer.removeAllListeners('debug:breakpoints-verified')
+            ipcRenderer.removeAllListeners('debug:sessions')
         }
     },
 
+    // ==========================================
+    // Language Server Refactoring APIs
+    // ==========================================
+    lsp: {
+        rename: (params: any) => ipcRenderer.invoke('lsp:rename', params),
+        codeActions: (params: any) => ipcRenderer.invoke('lsp:codeActions', params)
+    },
+
     // ==========================================
     // Secure Storage APIs
     // ==========================================
@@ -653,6 +726,39 @@ contextBridge.exposeInMainWorld('electronAPI', {
         listKeys: () => ipcRenderer.invoke('safeStorage:listKeys')
     },
 
+    // ==========================================
+    // Custom AI Endpoint APIs
+    // ==========================================
+    aiEndpoint: {
+        request: (request: any, handlers: {
+            onResponse: (status: number, statusText: string) => void
+            onChunk: (chunk: string) => void
+            onDone: (error?: string) => void
+        }) => {
+            const requestId = Math.random().toString(36).substring(7)
+            const responseListener = (_event: IpcRendererEvent, data: { requestId: string; status: number; statusText: string }) => {
+                if (data.requestId === requestId) handlers.onResponse(data.status, data.statusText)
+            }
+            const chunkListener = (_event: IpcRendererEvent, data: { requestId: string; chunk: string }) => {
+                if (data.requestId === requestId) handlers.onChunk(data.chunk)
+            }
+            const doneListener = (_event: IpcRendererEvent, data: { requestId: string; error?: string }) => {
+                if (data.requestId === requestId) {
+                    ipcRenderer.removeListener('ai-endpoint:response', responseListener)
+                    ipcRenderer.removeListener('ai-endpoint:chunk', chunkListener)
+                    ipcRenderer.removeListener('ai-endpoint:done', doneListener)
+                    handlers.onDone(data.error)
+                }
+            }
+            ipcRenderer.on('ai-endpoint:response', responseListener)
+            ipcRenderer.on('ai-endpoint:chunk', chunkListener)
+            ipcRenderer.on('ai-endpoint:done', doneListener)
+            ipcRenderer.send('ai-endpoint:request', { ...request, requestId })
+            return requestId
+        },
+        cancel: (requestId: string) => ipcRenderer.invoke('ai-endpoint:cancel', requestId)
+    },
+
     // ==========================================
     // Runtime Management APIs
     // ==========================================
@@ -733,6 +839,96 @@ contextBridge.exposeInMainWorld('electronAPI', {
         startHost: () => ipcRenderer.invoke('extensions:start-host'),
         stopHost: () => ipcRenderer.invoke('extensions:stop-host'),
         download: (url: string, targetPath: string) => ipcRenderer.invoke('extensions:download', url, targetPath),
+        getConfiguration: () => ipcRenderer.invoke('extensions:get-configuration'),
+        updateConfiguration: (key: string, value: unknown, target?: 'user' | 'workspace') => ipcRenderer.invoke('extensions:update-configuration', key, value, target),
+        reloadConfiguration: () => ipcRenderer.invoke('extensions:reload-configuration'),
+        languageProviders: () => ipcRenderer.invoke('extensions:language-providers'),
+        provideLanguageFeature: (request: any) => ipcRenderer.invoke('extensions:provide-language-feature', request),
+        cancelLanguageFeature: (requestId: string) => ipcRenderer.invoke('extensions:cancel-language-feature', requestId),
+        commands: () => ipcRenderer.invoke('extensions:commands'),
+        executeCommand: (command: string, args?: unknown[]) => ipcRenderer.invoke('extensions:execute-command', command, args),
+        onCommandsChanged: (callback: (commands: any[]) => void) => {
+            const subscription = (_event: IpcRendererEvent, commands: any[]) => callback(commands)
+            ipcRenderer.on('extension:commands-changed', subscription)
+            return () => {
+                ipcRenderer.removeListener('extension:commands-changed', subscription)
+            }
+        },
+        views: () => ipcRenderer.invoke('extensions:views'),
+        treeChildren: (viewId: string, parentHandle?: string) => ipcRenderer.invoke('extensions:tree-children', viewId, parentHandle),
+        activateTreeItem: (viewId: string, handle: string) => ipcRenderer.invoke('extensions:tree-item-activate', viewId, handle),
+        sendTreeViewEvent: (event: any) => ipcRenderer.invoke('extensions:tree-view-event', event),
+        webviewPanels: () => ipcRenderer.invoke('extensions:webview-panels'),
+        postWebviewMessage: (handle: string, message: unknown) => ipcRenderer.invoke('extensions:webview-message', handle, message),
+        setWebviewViewState: (handle: string, active: boolean, visible: boolean) => ipcRenderer.invoke('extensions:webview-view-state', handle, active, visible),
+        closeWebviewPanel: (handle: string) => ipcRenderer.invoke('extensions:webview-close', handle),
+        onViewsChanged: (callback: (containers: any[]) => void) => {
+            const subscription = (_event: IpcRendererEvent, containers: any[]) => callback(containers)
+            ipcRenderer.on('extension:views-changed', subscription)
+            return () => {
+                ipcRenderer.removeListener('extension:views-changed', subscription)
+            }
+        },
+        onTreeDataChanged: (callback: (data: any) => void) => {
+            const subscription = (_event: IpcRendererEvent, data: any) => callback(data)
+            ipcRenderer.on('extension:tree-data-changed', subscription)
+            return () => {
+                ipcRenderer.removeListener('extension:tree-data-changed', subscription)
+            }
+        },
+        onWebviewPanelCreated: (callback: (panel: any) => void) => {
+            const subscription = (_event: IpcRendererEvent, panel: any) => callback(panel)
+            ipcRenderer.on('extension:webview-panel-created', subscription)
+            return () => {
+                ipcRenderer.removeListener('extension:webview-panel-created', subscription)
+            }
+        },
+        onWebviewPanelUpdated: (callback: (panel: any) => void) => {
+            const subscription = (_event: IpcRendererEvent, panel: any) => callback(panel)
+            ipcRenderer.on('extension:webview-panel-updated', subscription)
+            return () => {
+                ipcRenderer.removeListener('extension:webview-panel-updated', subscription)
+            }
+        },
+        onWebviewPanelRevealed: (callback: (data: any) => void) => {
+            const subscription = (_event: IpcRendererEvent, data: any) => callback(data)
+            ipcRenderer.on('extension:webview-panel-revealed', subscription)
+            return () => {
+                ipcRenderer.removeListener('extension:webview-panel-revealed', subscription)
+            }
+        },
+        onWebviewPanelDisposed: (callback: (data: any) => void) => {
+            const subscription = (_event: IpcRendererEvent, data: any) => callback(data)
+            ipcRenderer.on('extension:webview-panel-disposed', subscription)
+            return () => {
+                ipcRenderer.removeListener('extension:webview-panel-disposed', subscription)
+            }
+        },
+        onWebviewPostMessage: (callback: (data: any) => void) => {
+            const subscription = (_event: IpcRendererEvent, data: any) => callback(data)
+            ipcRenderer.on('extension:webview-post-message', subscription)
+            return () => {
+                ipcRenderer.removeListener('extension:webview-post-message', subscription)
+            }
+        },
+        debuggers: () => ipcRenderer.invoke('extensions:debuggers'),
+        hostStats: () => ipcRenderer.invoke('extensions:host-stats'),
+        setEnabled: (id: string, enabled: boolean) => ipcRenderer.invoke('extensions:set-enabled', id, enabled),
+        restartHost: () => ipcRenderer.invoke('extensions:restart-host'),
+        onHostStatus: (callback: (stats: any) => void) => {
+            const subscription = (_event: IpcRendererEvent, stats: any) => callback(stats)
+            ipcRenderer.on('extension:host-status', subscription)
+            return () => {
+                ipcRenderer.removeListener('extension:host-status', subscription)
+            }
+        },
+        onLanguageProvidersChanged: (callback: (providers: any[]) => void) => {
+            const subscription = (_event: IpcRendererEvent, providers: any[]) => callback(providers)
+            ipcRenderer.on('extension:language-providers-changed', subscription)
+            return () => {
+                ipcRenderer.removeListener('extension:language-providers-changed', subscription)
+            }
+        },
 
         // Events
         onExtensionActivated: (callback: (data: { id: string }) => void) => {
@@ -744,10 +940,24 @@ contextBridge.exposeInMainWorld('electronAPI', {
         onShowMessage: (callback: (data: { type: string; message: string }) => void) => {
             ipcRenderer.on('extension:show-message', (_event: IpcRendererEvent, data: any) => callback(data))
         },
+        onConfigurationChanged: (callback: (data: { keys: string[] }) => void) => {
+            ipcRenderer.on('extension:configuration-changed', (_event: IpcRendererEvent, data: any) => callback(data))
+        },
         removeListeners: () => {
             ipcRenderer.removeAllListeners('extension:extension-activated')
             ipcRenderer.removeAllListeners('extension:extension-deactivated')
             ipcRenderer.removeAllListeners('extension:show-message')
+            ipcRenderer.removeAllListeners('extension:configuration-changed')
+            ipcRenderer.removeAllListeners('extension:language-providers-changed')
+            ipcRenderer.removeAllListeners('extension:commands-changed')
+            ipcRenderer.removeAllListeners('extension:views-changed')
+            ipcRenderer.removeAllListeners('extension:tree-data-changed')
+            ipcRenderer.removeAllListeners('extension:webview-panel-created')
+            ipcRenderer.removeAllListeners('extension:webview-panel-updated')
+            ipcRenderer.removeAllListeners('extension:webview-panel-revealed')
+            ipcRenderer.removeAllListeners('extension:webview-panel-disposed')
+            ipcRenderer.removeAllListeners('extension:webview-post-message')
+            ipcRenderer.removeAllListeners('extension:host-status')
         }
     },
 
@@ -42,6 +42,43 @@ export interface LSPResponse {
     }
 }
 
+export interface LSPPosition {
+    line: number       // 0-based
+    character: number  // 0-based
+}
+
+export interface LSPRange {
+    start: LSPPosition
+    end: LSPPosition
+}
+
+export interface LSPTextEdit {
+    range: LSPRange
+    newText: string
+}
+
+/**
+ * Edits returned by rename and refactoring code actions. Servers use either
+ * `changes` or `documentChanges`; resource operations carry a `kind`.
+ */
+export interface LSPWorkspaceEdit {
+    changes?: Record<string, LSPTextEdit[]>
+    documentChanges?: Array<
+        | { textDocument: { uri: string; version?: number | null }; edits: LSPTextEdit[] }
+        | { kind: 'create'; uri: string }
+        | { kind: 'rename'; oldUri: string; newUri: string }
+        | { kind: 'delete'; uri: string }
+    >
+}
+
+export interface LSPCodeAction {
+    title: string
+    kind?: string
+    edit?: LSPWorkspaceEdit
+    disabled?: { reason: string }
+    data?: unknown
+}
+
 export interface LSPDiagnostic {
     range: {
         start: { line: number; character: number }
@@ -58,6 +95,8 @@ class LSPService {
     private requestId = 0
     private pendingRequests = new Map<number, { resolve: (value: any) => void; reject: (error: any) => void }>()
     private messageBuffers = new Map<string, string>()
+    // Version of every document synced to a session, keyed by `${sessionId}:${uri}`
+    private documentVersions = new Map<string, number>()
 
     // Language server command mappings
     private readonly languageServers: Record<string, { command: string; args: string[]; initOptions?: any }> = {
@@ -134,8 +173,11 @@ class LSPService {
             // Store session
             this.sessions.set(sessionId, session)
 
+            // A missing server binary fails right away instead of timing out the initialize request
+            const spawnFailed = new Promise<never>((_, reject) => proc.once('error', reject))
+
             // Send initialize request
-            const initResult = await this.sendRequest(sessionId, 'initialize', {
+            const initResult = await Promise.race([spawnFailed, this.sendRequest(sessionId, 'initialize', {
                 processId: process.pid,
                 rootUri: `file://${workspacePath}`,
                 capabilities: {
@@ -153,6 +195,20 @@ class LSPService {
                         identifier: 'kalynt-lsp',
                         interFileDependencies: true,
                         workspaceDiagnostics: true
+                    },
+                    textDocument: {
+                        rename: { prepareSupport: false },
+                        codeAction: {
+                            codeActionLiteralSupport: {
+                                codeActionKind: {
+                                    valueSet: ['refactor', 'refactor.extract', 'refactor.inline', 'refactor.move', 'refactor.rewrite']
+                                }
+                            },
+                            resolveSupport: { properties: ['edit'] }
+                        }
+                    },
+                    workspace: {
+                        workspaceEdit: { documentChanges: true, resourceOperations: ['create', 'rename', 'delete'] }
                     }
                 },
                 workspaceFolders: [{
@@ -160,7 +216,7 @@ class LSPService {
                     name: path.basename(workspacePath)
                 }],
                 initializationOptions: serverConfig.initOptions
-            })
+            })])
 
             session.capabilities = initResult?.capabilities || {}
             session.initialized = true
@@ -175,10 +231,87 @@ class LSPService {
         } catch (error) {
             const errorMsg = error instanceof Error ? error.message : String(error)
             console.error(`[LSP] Failed to start session ${sessionId}:`, errorMsg)
+            this.sessions.get(sessionId)?.process.kill()
+            this.sessions.delete(sessionId)
+            this.messageBuffers.delete(sessionId)
             return { success: false, error: errorMsg }
         }
     }
 
+    /**
+     * Find an initialized session for a language in a workspace
+     */
+    findSession(language: string, workspacePath: string): string | undefined {
+        for (const session of Array.from(this.sessions.values())) {
+            if (session.language === language && session.workspacePath === workspacePath && session.initialized) {
+                return session.id
+            }
+        }
+        return undefined
+    }
+
+    /**
+     * Whether a language has a configured server
+     */
+    hasServer(language: string): boolean {
+        return language in this.languageServers
+    }
+
+    /**
+     * Open a document, or replace its content if it is already open
+     */
+    syncDocument(sessionId: string, uri: string, languageId: string, content: string): void {
+        const key = `${sessionId}:${uri}`
+        const version = this.documentVersions.get(key)
+        if (version === undefined) {
+            this.openDocument(sessionId, uri, languageId, content)
+            this.documentVersions.set(key, 1)
+            return
+        }
+        this.sendNotification(sessionId, 'textDocument/didChange', {
+            textDocument: { uri, version: version + 1 },
+            contentChanges: [{ text: content }]
+        })
+        this.documentVersions.set(key, version + 1)
+    }
+
+    /**
+     * Ask the server for the edits of renaming the symbol at a position
+     */
+    async rename(sessionId: string, uri: string, position: LSPPosition, newName: string): Promise<LSPWorkspaceEdit | null> {
+        return this.sendRequest(sessionId, 'textDocument/rename', {
+            textDocument: { uri },
+            position,
+            newName
+        })
+    }
+
+    /**
+     * Get the code actions of the given kinds for a range, with their edits resolved.
+     * Actions that are disabled or only run a command are left out.
+     */
+    async getCodeActions(sessionId: string, uri: string, range: LSPRange, only: string[]): Promise<LSPCodeAction[]> {
+        const result: Array<LSPCodeAction & { command?: unknown }> | null = await this.sendRequest(sessionId, 'textDocument/codeAction', {
+            textDocument: { uri },
+            range,
+            context: { diagnostics: [], only, triggerKind: 1 }
+        })
+
+        const canResolve = Boolean(this.sessions.get(sessionId)?.capabilities?.codeActionProvider?.resolveProvider)
+        const actions: LSPCodeAction[] = []
+        for (const action of result ?? []) {
+            // Plain Command objects have a string `command` and no kind
+            if (typeof action.command === 'string' || action.disabled) continue
+
+            let resolved: LSPCodeAction = action
+            if (!resolved.edit && canResolve) {
+                resolved = await this.sendRequest(sessionId, 'codeAction/resolve', action)
+            }
+            if (resolved.edit) actions.push(resolved)
+        }
+        return actions
+    }
+
     /**
      * Send a request to the language server
      */
@@ -312,6 +445,9 @@ class LSPService {
         } finally {
             this.sessions.delete(sessionId)
             this.messageBuffers.delete(sessionId)
+            for (const key of Array.from(this.documentVersions.keys())) {
+                if (key.startsWith(`${sessionId}:`)) this.documentVersions.delete(key)
+            }
         }
     }
 
@@ -0,0 +1,189 @@
+/*
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+import { useState, useEffect } from 'react'
+import { DiffEditor } from '@monaco-editor/react'
+import { AlertCircle, AlertTriangle, Check, FileMinus, FilePlus, FileText, X } from 'lucide-react'
+import type { AgentChangeSet, AgentFileChange } from '../types/agentTypes'
+
+interface ChangesReviewProps {
+    readonly title: string
+    readonly changes: Pick<AgentChangeSet, 'files' | 'errors' | 'warnings'>
+    readonly onApply: () => void
+    readonly onDiscard: () => void
+}
+
+const LANGUAGES: Record<string, string> = {
+    ts: 'typescript', tsx: 'typescript', js: 'javascript', jsx: 'javascript', mjs: 'javascript',
+    json: 'json', py: 'python', rs: 'rust', go: 'go', java: 'java', cs: 'csharp',
+    c: 'c', h: 'c', cpp: 'cpp', hpp: 'cpp', css: 'css', scss: 'scss', html: 'html',
+    md: 'markdown', yml: 'yaml', yaml: 'yaml', sh: 'shell', sql: 'sql'
+}
+
+const languageOf = (path: string) => LANGUAGES[path.split('.').pop()?.toLowerCase() || ''] || 'plaintext'
+
+const fileName = (path: string) => path.split(/[\\/]/).pop() || path
+
+function FileIcon({ change }: { readonly change: AgentFileChange }) {
+    if (change.operation === 'create') return <FilePlus size={14} className="acr-icon create" />
+    if (change.operation === 'delete') return <FileMinus size={14} className="acr-icon delete" />
+    return <FileText size={14} className="acr-icon" />
+}
+
+/**
+ * Combined diff of a multi-file change, e.g. everything an agent run staged
+ * or a refactoring preview. All files are applied or discarded together, so
+ * there is no per-file approval.
+ */
+export default function ChangesReview({ title, changes, onApply, onDiscard }: ChangesReviewProps) {
+    const [selectedPath, setSelectedPath] = useState(changes.files[0]?.path)
+
+    useEffect(() => {
+        setSelectedPath(changes.files[0]?.path)
+    }, [changes])
+
+    const selected = changes.files.find(f => f.path === selectedPath) ?? changes.files[0]
+    const problemsOf = (path: string) =>
+        changes.errors.filter(e => e.path === path).length + changes.warnings.filter(w => w.path === path).length
+
+    return (
+        <div className="acr-overlay">
+            <div className="acr-dialog">
+                <div className="acr-header">
+                    <span className="acr-title">{title}</span>
+                    <span className="acr-summary">{changes.files.length} file{changes.files.length === 1 ? '' : 's'}</span>
+                    <button className="acr-close" onClick={onDiscard} title="Discard all changes"><X size={16} /></button>
+                </div>
+
+                {(changes.errors.length > 0 || changes.warnings.length > 0) && (
+                    <div className="acr-problems">
+                        {changes.errors.map((e, i) => (
+                            <div key={`e${i}`} className="acr-problem error">
+                                <AlertCircle size={12} /> <span className="acr-problem-file">{fileName(e.path)}</span> {e.message}
+                            </div>
+                        ))}
+                        {changes.warnings.map((w, i) => (
+                            <div key={`w${i}`} className="acr-problem warning">
+                                <AlertTriangle size={12} /> <span className="acr-problem-file">{fileName(w.path)}</span> {w.message}
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                <div className="acr-body">
+                    <div className="acr-files">
+                        {changes.files.map(change => (
+                            <button
+                                key={change.path}
+                                className={`acr-file ${change.path === selected?.path ? 'selected' : ''}`}
+                                onClick={() => setSelectedPath(change.path)}
+                                title={change.path}
+                            >
+                                <FileIcon change={change} />
+                                <span className="acr-file-name">{fileName(change.path)}</span>
+                                {problemsOf(change.path) > 0 && <span className="acr-file-problems">{problemsOf(change.path)}</span>}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="acr-diff">
+                        {selected && (
+                            <DiffEditor
+                                height="100%"
+                                original={selected.originalContent ?? ''}
+                                modified={selected.newContent ?? ''}
+                                language={languageOf(selected.path)}
+                                theme="vs-dark"
+                                options={{
+                                    readOnly: true,
+                                    renderSideBySide: true,
+                                    minimap: { enabled: false },
+                                    fontSize: 12,
+                                    automaticLayout: true
+                                }}
+                            />
+                        )}
+                    </div>
+                </div>
+
+                <div className="acr-actions">
+                    <button className="acr-btn discard" onClick={onDiscard}><X size={14} /> Discard all</button>
+                    <button className="acr-btn apply" onClick={onApply}>
+                        <Check size={14} /> {changes.errors.length > 0 ? 'Apply anyway' : 'Apply all'}
+                    </button>
+                </div>
+            </div>
+
+            <style>{`
+                .acr-overlay {
+                    position: fixed; inset: 0; z-index: 10000;
+                    background: rgba(0, 0, 0, 0.6);
+                    display: flex; align-items: center; justify-content: center;
+                }
+
+                .acr-dialog {
+                    width: 90vw; height: 80vh; max-width: 1400px;
+                    display: flex; flex-direction: column;
+                    background: var(--color-surface-elevated, #1e1e1e);
+                    border: 1px solid var(--color-border, #3c3c3c);
+                    border-radius: 10px; overflow: hidden;
+                    box-shadow: 0 24px 64px rgba(0, 0, 0, 0.6);
+                }
+
+                .acr-header {
+                    display: flex; align-items: center; gap: 10px;
+                    padding: 10px 14px; border-bottom: 1px solid var(--color-border, #3c3c3c);
+                }
+                .acr-title { font-size: 13px; font-weight: 600; color: var(--color-text, #ccc); }
+                .acr-summary { font-size: 11px; color: var(--color-text-muted, #888); flex: 1; }
+                .acr-close { background: none; border: none; color: var(--color-text-muted, #888); cursor: pointer; display: flex; }
+                .acr-close:hover { color: var(--color-text, #ccc); }
+
+                .acr-problems {
+                    max-height: 96px; overflow-y: auto;
+                    padding: 6px 14px; border-bottom: 1px solid var(--color-border, #3c3c3c);
+                    font-size: 11px; font-family: var(--font-mono, monospace);
+                }
+                .acr-problem { display: flex; align-items: center; gap: 6px; padding: 1px 0; }
+                .acr-problem.error { color: #f48771; }
+                .acr-problem.warning { color: #cca700; }
+                .acr-problem-file { font-weight: 600; }
+
+                .acr-body { flex: 1; display: flex; min-height: 0; }
+                .acr-files {
+                    width: 220px; overflow-y: auto; padding: 6px;
+                    border-right: 1px solid var(--color-border, #3c3c3c);
+                }
+                .acr-file {
+                    width: 100%; display: flex; align-items: center; gap: 6px;
+                    padding: 5px 8px; border: none; border-radius: 4px;
+                    background: none; color: var(--color-text, #ccc);
+                    font-size: 12px; text-align: left; cursor: pointer;
+                }
+                .acr-file:hover { background: rgba(255, 255, 255, 0.05); }
+                .acr-file.selected { background: rgba(255, 255, 255, 0.1); }
+                .acr-file-name { flex: 1; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+                .acr-file-problems {
+                    font-size: 10px; padding: 0 5px; border-radius: 8px;
+                    background: rgba(244, 135, 113, 0.2); color: #f48771;
+                }
+                .acr-icon { flex-shrink: 0; color: var(--color-text-muted, #888); }
+                .acr-icon.create { color: #73c991; }
+                .acr-icon.delete { color: #f48771; }
+
+                .acr-diff { flex: 1; min-width: 0; }
+
+                .acr-actions {
+                    display: flex; justify-content: flex-end; gap: 8px;
+                    padding: 10px 14px; border-top: 1px solid var(--color-border, #3c3c3c);
+                }
+                .acr-btn {
+                    display: flex; align-items: center; gap: 6px;
+                    padding: 6px 14px; border-radius: 6px; border: none;
+                    font-size: 12px; font-weight: 600; cursor: pointer;
+                }
+                .acr-btn.discard { background: rgba(255, 255, 255, 0.08); color: var(--color-text, #ccc); }
+                .acr-btn.apply { background: var(--color-accent, #0e639c); color: white; }
+            `}</style>
+        </div>
+    )
+}
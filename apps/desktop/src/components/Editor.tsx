@@ -19,7 +19,9 @@ export default function Editor() {
   const { doc, provider, synced, peerCount } = useYDoc(currentSpace?.id ?? null)
   const { text, updateText } = useYText(doc, 'editor-content')
   const { setLocalState } = useAwareness(provider)
-  const { canEdit, canUseAgent } = usePermissions()
+  const { isPathAllowed, canUseAgent } = usePermissions()
+  // The shared editor text is a document that restricted paths can cover
+  const canEdit = isPathAllowed('editor-content')
 
   const editorRef = useRef<HTMLDivElement>(null)
   const isLocalChange = useRef(false)
@@ -156,6 +156,8 @@ export default function FilesPanel() {
     if (fileTransferService.removeFile(fileId, isAdmin)) {
       setFiles(fileTransferService.getFiles())
       addNotification('File removed', 'info')
+    } else {
+      addNotification('You do not have permission to remove this file', 'error')
     }
   }
 
@@ -1,88 +1,136 @@
 /*
  * SPDX-License-Identifier: AGPL-3.0-only
  */
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useMemo } from 'react'
 import { useAppStore } from '../stores/appStore'
+import { useMemberStore } from '../stores/memberStore'
 import { useYDoc, useYArray } from '../hooks/useYjs'
 import { offlineLLMService, type ChatMessage } from '../services/offlineLLMService'
+import { taskService, type Task, type TaskStatus, type TaskPriority, type TaskUpdate, type Subtask } from '../services/taskService'
 import { useModelStore } from '../stores/modelStore'
+import type { WorkspaceMember } from '../types/permissions'
 import UnifiedSettingsPanel from './UnifiedSettingsPanel'
-import { 
-  Plus, X, Sparkles, CheckCircle2, Clock, Trash2, 
-  CheckSquare, ListTodo, User
+import {
+  Plus, X, Sparkles, CheckCircle2, Clock, Trash2,
+  CheckSquare, ListTodo, User, Eye, Calendar, MessageSquare, Rows3
 } from 'lucide-react'
 
-interface Task {
-  id: string
-  title: string
-  description?: string
-  status: 'todo' | 'in-progress' | 'done'
-  priority: 'low' | 'medium' | 'high'
-  tags: string[]
-  createdAt: number
-  dueDate?: number
-  subtasks?: { id: string; title: string; completed: boolean }[]
-}
-
-const COLUMNS = [
+const COLUMNS: { id: TaskStatus; title: string; icon: JSX.Element; color: string }[] = [
   { id: 'todo', title: 'Strategy', icon: <ListTodo size={14} />, color: '#6b7280' },
   { id: 'in-progress', title: 'Execution', icon: <Clock size={14} />, color: '#3b82f6' },
+  { id: 'review', title: 'Review', icon: <Eye size={14} />, color: '#f59e0b' },
   { id: 'done', title: 'Verified', icon: <CheckCircle2 size={14} />, color: '#10b981' },
-] as const
+]
+
+const PRIORITIES: TaskPriority[] = ['urgent', 'high', 'medium', 'low']
+
+type Swimlane = 'none' | 'assignee' | 'priority'
+
+// A row of the board. Dropping a card into it applies the lane's fields.
+interface Lane {
+  key: string
+  title: string
+  matches: (task: Task) => boolean
+  fields: TaskUpdate
+}
+
+const initialsOf = (name: string) => name.split(/\s+/).map(part => part[0]).join('').slice(0, 2).toUpperCase()
+
+function buildLanes(swimlane: Swimlane, tasks: Task[], members: WorkspaceMember[]): Lane[] {
+  if (swimlane === 'priority') {
+    return PRIORITIES.map(priority => ({
+      key: priority,
+      title: priority,
+      matches: task => task.priority === priority,
+      fields: { priority }
+    }))
+  }
+
+  if (swimlane === 'assignee') {
+    const assignees = new Map(members.map(member => [member.userId, member.displayName]))
+    // Members who left keep their tasks until they are reassigned
+    for (const task of tasks) {
+      if (task.assigneeId && !assignees.has(task.assigneeId)) assignees.set(task.assigneeId, 'Former member')
+    }
+    return [
+      ...[...assignees].map(([userId, name]) => ({
+        key: userId,
+        title: name,
+        matches: (task: Task) => task.assigneeId === userId,
+        fields: { assigneeId: userId }
+      })),
+      { key: 'unassigned', title: 'Unassigned', matches: task => !task.assigneeId, fields: { assigneeId: undefined } }
+    ]
+  }
+
+  return [{ key: 'all', title: '', matches: () => true, fields: {} }]
+}
 
 export default function TaskBoard() {
-  const { currentSpace, userName } = useAppStore()
+  const { currentSpace } = useAppStore()
+  const { userId, displayName, spaceMembers } = useMemberStore()
   const { doc, peerCount } = useYDoc(currentSpace?.id ?? null)
-  const { items: tasks, push, update, remove } = useYArray<Task>(doc, 'tasks')
+  const { items } = useYArray<Partial<Task>>(doc, 'tasks')
   const { loadedModelId } = useModelStore()
 
   const [draggingTask, setDraggingTask] = useState<string | null>(null)
-  const [editingTask, setEditingTask] = useState<Task | null>(null)
+  const [editingTaskId, setEditingTaskId] = useState<string | null>(null)
   const [isAiLoading, setIsAiLoading] = useState(false)
   const [showModelSelector, setShowModelSelector] = useState(false)
+  const [tagFilter, setTagFilter] = useState<string[]>([])
+  const [swimlane, setSwimlane] = useState<Swimlane>('none')
+
+  const tasks = useMemo(() => taskService.normalizeTasks(items), [items])
+  const members = useMemo(
+    () => (currentSpace ? spaceMembers[currentSpace.id]?.members ?? [] : []).filter(member => !member.isBanned),
+    [currentSpace, spaceMembers]
+  )
+  const allTags = useMemo(() => [...new Set(tasks.flatMap(task => task.tags))].sort(), [tasks])
+  const visibleTasks = useMemo(
+    () => tagFilter.length === 0 ? tasks : tasks.filter(task => task.tags.some(tag => tagFilter.includes(tag))),
+    [tasks, tagFilter]
+  )
+  const lanes = useMemo(() => buildLanes(swimlane, tasks, members), [swimlane, tasks, members])
+  const editingTask = tasks.find(task => task.id === editingTaskId) ?? null
+  const actor = { id: userId, name: displayName }
 
   const handleDragStart = (taskId: string) => setDraggingTask(taskId)
   const handleDragOver = (e: React.DragEvent) => e.preventDefault()
 
-  const handleDrop = useCallback((status: Task['status']) => {
-    if (!draggingTask) return
-    const taskIndex = tasks.findIndex(t => t.id === draggingTask)
-    if (taskIndex !== -1) {
-      const task = tasks[taskIndex]
-      if (task.status !== status) {
-        update(taskIndex, { ...task, status })
-      }
-    }
+  const handleDrop = useCallback((status: TaskStatus, lane: Lane) => {
+    const task = tasks.find(t => t.id === draggingTask)
     setDraggingTask(null)
-  }, [draggingTask, tasks, update])
-
-  const handleAddTask = (status: Task['status'] = 'todo') => {
-    const newTask: Task = {
-      id: crypto.randomUUID(),
-      title: 'New Workspace Objective',
-      status,
-      priority: 'medium',
-      tags: [],
-      createdAt: Date.now(),
-      subtasks: []
+    if (!doc || !task) return
+    if (task.status !== status || !lane.matches(task)) {
+      taskService.updateTask(doc, task.id, { status, ...lane.fields })
     }
-    push(newTask)
-    setEditingTask(newTask)
+  }, [doc, draggingTask, tasks])
+
+  const handleAddTask = (status: TaskStatus = 'todo') => {
+    if (!doc) return
+    const task = taskService.createTask(doc, { title: 'New Workspace Objective', status }, actor)
+    setEditingTaskId(task.id)
   }
 
   const handleDeleteTask = (taskId: string) => {
-    const index = tasks.findIndex(t => t.id === taskId)
-    if (index !== -1) remove(index)
-    if (editingTask?.id === taskId) setEditingTask(null)
+    if (doc) taskService.deleteTask(doc, taskId)
+    if (editingTaskId === taskId) setEditingTaskId(null)
+  }
+
+  const handleSaveTask = (taskId: string, updates: TaskUpdate) => {
+    if (doc) taskService.updateTask(doc, taskId, updates)
+    setEditingTaskId(null)
   }
 
-  const handleSaveTask = (updatedTask: Task) => {
-    const index = tasks.findIndex(t => t.id === updatedTask.id)
-    if (index !== -1) update(index, updatedTask)
-    setEditingTask(null)
+  const handleAddComment = (taskId: string, content: string) => {
+    if (doc) taskService.addComment(doc, taskId, content, actor)
   }
 
-  const handleAiBreakdown = async (task: Task): Promise<{ id: string; title: string; completed: boolean }[]> => {
+  const toggleTag = (tag: string) => {
+    setTagFilter(current => current.includes(tag) ? current.filter(t => t !== tag) : [...current, tag])
+  }
+
+  const handleAiBreakdown = async (task: Task): Promise<Subtask[]> => {
     if (!loadedModelId) {
       setShowModelSelector(true)
       return []
@@ -90,7 +138,7 @@ export default function TaskBoard() {
 
     setIsAiLoading(true)
     try {
-      const prompt = `Break down this task into 3-5 actionable subtasks: "${task.title}". 
+      const prompt = `Break down this task into 3-5 actionable subtasks: "${task.title}".
 ${task.description ? `Context: ${task.description}` : ''}
 
 Return ONLY a JSON array of strings, for example:
@@ -125,59 +173,106 @@ Return ONLY a JSON array of strings, for example:
       <header className="board-header">
         <div className="header-info">
           <h2>Mission Objectives</h2>
-          <span className="subtitle">{tasks.length} Active Targets â€¢ {peerCount + 1} Authorized Nodes</span>
+          <span className="subtitle">{tasks.length} Active Targets • {peerCount + 1} Authorized Nodes</span>
+        </div>
+        <div className="header-actions">
+          <label className="lane-select">
+            <Rows3 size={14} />
+            <select value={swimlane} onChange={e => setSwimlane(e.target.value as Swimlane)}>
+              <option value="none">No swimlanes</option>
+              <option value="assignee">By assignee</option>
+              <option value="priority">By priority</option>
+            </select>
+          </label>
+          <button className="btn-premium-action" onClick={() => handleAddTask('todo')}>
+            <Plus size={16} />
+            <span>New Objective</span>
+          </button>
         </div>
-        <button className="btn-premium-action" onClick={() => handleAddTask('todo')}>
-          <Plus size={16} />
-          <span>New Objective</span>
-        </button>
       </header>
 
-      <div className="board-container">
-        {COLUMNS.map(column => (
-          <div
-            key={column.id}
-            className="column-premium"
-            onDragOver={handleDragOver}
-            onDrop={() => handleDrop(column.id)}
-          >
-            <div className="column-header">
+      {allTags.length > 0 && (
+        <div className="tag-filter-bar">
+          {allTags.map(tag => (
+            <button
+              key={tag}
+              className={`tag-chip ${tagFilter.includes(tag) ? 'active' : ''}`}
+              onClick={() => toggleTag(tag)}
+            >
+              #{tag}
+            </button>
+          ))}
+          {tagFilter.length > 0 && (
+            <button className="tag-clear" onClick={() => setTagFilter([])}>Clear</button>
+          )}
+        </div>
+      )}
+
+      <div className={`board-container ${swimlane === 'none' ? '' : 'with-lanes'}`}>
+        <div className="board-grid">
+          {COLUMNS.map(column => (
+            <div key={column.id} className="column-header">
               <div className="col-title">
                 <div className="col-icon" style={{ color: column.color }}>{column.icon}</div>
                 <h3>{column.title}</h3>
-                <span className="col-count">{tasks.filter(t => t.status === column.id).length}</span>
+                <span className="col-count">{visibleTasks.filter(t => t.status === column.id).length}</span>
               </div>
               <button className="btn-add-subtle" onClick={() => handleAddTask(column.id)}>
                 <Plus size={14} />
               </button>
             </div>
+          ))}
+        </div>
 
-            <div className="column-scroll">
-              {tasks
-                .filter(task => task.status === column.id)
-                .map(task => (
-                  <TaskCard
-                    key={task.id}
-                    task={task}
-                    onClick={() => setEditingTask(task)}
-                    onDragStart={() => handleDragStart(task.id)}
-                    isDragging={draggingTask === task.id}
-                  />
+        {lanes.map(lane => {
+          const laneTasks = visibleTasks.filter(lane.matches)
+          return (
+            <div key={lane.key} className="swimlane">
+              {swimlane !== 'none' && (
+                <div className="lane-header">
+                  <span className="lane-title">{lane.title}</span>
+                  <span className="col-count">{laneTasks.length}</span>
+                </div>
+              )}
+              <div className="board-grid lane-grid">
+                {COLUMNS.map(column => (
+                  <div
+                    key={column.id}
+                    className="column-scroll"
+                    onDragOver={handleDragOver}
+                    onDrop={() => handleDrop(column.id, lane)}
+                  >
+                    {laneTasks
+                      .filter(task => task.status === column.id)
+                      .map(task => (
+                        <TaskCard
+                          key={task.id}
+                          task={task}
+                          members={members}
+                          onClick={() => setEditingTaskId(task.id)}
+                          onDragStart={() => handleDragStart(task.id)}
+                          isDragging={draggingTask === task.id}
+                        />
+                      ))}
+                  </div>
                 ))}
+              </div>
             </div>
-          </div>
-        ))}
+          )
+        })}
       </div>
 
       {editingTask && (
         <TaskModal
+          key={editingTask.id}
           task={editingTask}
-          onClose={() => setEditingTask(null)}
-          onSave={handleSaveTask}
+          members={members}
+          onClose={() => setEditingTaskId(null)}
+          onSave={(updates: TaskUpdate) => handleSaveTask(editingTask.id, updates)}
           onDelete={() => handleDeleteTask(editingTask.id)}
+          onAddComment={(content: string) => handleAddComment(editingTask.id, content)}
           onAiBreakdown={handleAiBreakdown}
           isAiLoading={isAiLoading}
-          userName={userName}
         />
       )}
 
@@ -204,6 +299,28 @@ Return ONLY a JSON array of strings, for example:
         .header-info h2 { font-size: 20px; font-weight: 800; letter-spacing: -0.02em; }
         .subtitle { font-size: 11px; font-weight: 700; color: var(--color-text-tertiary); text-transform: uppercase; letter-spacing: 0.05em; }
 
+        .header-actions { display: flex; align-items: center; gap: 12px; }
+
+        .lane-select {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+          height: 36px;
+          padding: 0 12px;
+          border: 1px solid var(--color-border);
+          border-radius: 10px;
+          color: var(--color-text-tertiary);
+        }
+
+        .lane-select select {
+          background: none;
+          border: none;
+          outline: none;
+          color: var(--color-text);
+          font-size: 12px;
+          font-weight: 700;
+        }
+
         .btn-premium-action {
           display: flex;
           align-items: center;
@@ -220,33 +337,63 @@ Return ONLY a JSON array of strings, for example:
 
         .btn-premium-action:hover { transform: translateY(-1px); box-shadow: 0 4px 15px var(--color-glass); }
 
+        .tag-filter-bar {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 6px;
+          padding: 12px 32px;
+          border-bottom: 1px solid var(--color-border-subtle);
+        }
+
+        .tag-chip, .tag-clear {
+          padding: 2px 10px;
+          border-radius: 100px;
+          font-size: 11px;
+          font-weight: 700;
+          color: var(--color-text-tertiary);
+          border: 1px solid var(--color-border);
+          transition: all 0.2s;
+        }
+
+        .tag-chip.active { color: var(--color-accent); border-color: var(--color-accent); background: var(--color-glass); }
+        .tag-clear { border-color: transparent; }
+
         .board-container {
           flex: 1;
           display: flex;
-          gap: 24px;
+          flex-direction: column;
+          gap: 16px;
           padding: 24px;
-          overflow-x: auto;
+          overflow: auto;
         }
 
-        .column-premium {
-          flex: 1;
-          min-width: 320px;
-          max-width: 400px;
-          background: var(--color-surface-subtle);
-          border: 1px solid var(--color-border);
-          border-radius: 20px;
+        .board-grid {
+          display: grid;
+          grid-template-columns: repeat(${COLUMNS.length}, minmax(280px, 1fr));
+          gap: 24px;
+        }
+
+        .swimlane { display: flex; flex-direction: column; gap: 8px; }
+        .board-container:not(.with-lanes) .swimlane { flex: 1; }
+        .board-container:not(.with-lanes) .lane-grid { flex: 1; }
+
+        .lane-header {
           display: flex;
-          flex-direction: column;
-          overflow: hidden;
+          align-items: center;
+          gap: 12px;
+          padding: 0 8px;
         }
 
+        .lane-title { font-size: 12px; font-weight: 800; text-transform: uppercase; letter-spacing: 0.02em; }
+
         .column-header {
           padding: 16px 20px;
           display: flex;
           justify-content: space-between;
           align-items: center;
           background: var(--color-surface-elevated);
-          border-bottom: 1px solid var(--color-border-subtle);
+          border: 1px solid var(--color-border);
+          border-radius: 16px;
         }
 
         .col-title {
@@ -256,7 +403,7 @@ Return ONLY a JSON array of strings, for example:
         }
 
         .col-title h3 { font-size: 13px; font-weight: 800; text-transform: uppercase; letter-spacing: 0.02em; }
-        
+
         .col-count {
           padding: 2px 8px;
           background: var(--color-glass);
@@ -280,8 +427,11 @@ Return ONLY a JSON array of strings, for example:
         .btn-add-subtle:hover { background: var(--color-glass); color: var(--color-text); }
 
         .column-scroll {
-          flex: 1;
+          min-height: 96px;
           padding: 16px;
+          background: var(--color-surface-subtle);
+          border: 1px solid var(--color-border);
+          border-radius: 20px;
           overflow-y: auto;
           display: flex;
           flex-direction: column;
@@ -292,9 +442,21 @@ Return ONLY a JSON array of strings, for example:
   )
 }
 
-function TaskCard({ task, onClick, onDragStart, isDragging }: any) {
-  const completedCount = task.subtasks?.filter((s: any) => s.completed).length || 0
-  const totalCount = task.subtasks?.length || 0
+interface TaskCardProps {
+  task: Task
+  members: WorkspaceMember[]
+  onClick: () => void
+  onDragStart: () => void
+  isDragging: boolean
+}
+
+function TaskCard({ task, members, onClick, onDragStart, isDragging }: TaskCardProps) {
+  const completedCount = task.subtasks.filter(s => s.completed).length
+  const totalCount = task.subtasks.length
+  const assignee = task.assigneeId ? members.find(m => m.userId === task.assigneeId)?.displayName ?? 'Former member' : null
+  // Due dates are whole days stored as UTC midnight, so a task is overdue from the local day after
+  const now = new Date()
+  const overdue = task.dueDate !== undefined && task.status !== 'done' && task.dueDate < Date.UTC(now.getFullYear(), now.getMonth(), now.getDate())
 
   return (
     <div
@@ -305,28 +467,44 @@ function TaskCard({ task, onClick, onDragStart, isDragging }: any) {
     >
       <div className="card-header">
         <div className={`p-badge ${task.priority}`}>{task.priority}</div>
-        <div className="card-user"><User size={10} /></div>
+        <div className="card-user" title={assignee ?? 'Unassigned'}>
+          {assignee ? initialsOf(assignee) : <User size={10} />}
+        </div>
       </div>
 
       <div className="card-title">{task.title}</div>
-      
+
       {task.description && (
         <div className="card-desc">{task.description.slice(0, 80)}{task.description.length > 80 && '...'}</div>
       )}
 
-      {(task.tags.length > 0 || totalCount > 0) && (
+      {(task.tags.length > 0 || totalCount > 0 || task.dueDate !== undefined || task.comments.length > 0) && (
         <div className="card-footer">
           <div className="tag-strip">
-            {task.tags.slice(0, 2).map((t: string) => (
+            {task.tags.slice(0, 2).map(t => (
               <span key={t} className="mini-tag">#{t}</span>
             ))}
           </div>
-          {totalCount > 0 && (
-            <div className="subtask-badge">
-              <CheckSquare size={10} />
-              <span>{completedCount}/{totalCount}</span>
-            </div>
-          )}
+          <div className="card-badges">
+            {task.dueDate !== undefined && (
+              <div className={`subtask-badge ${overdue ? 'overdue' : ''}`}>
+                <Calendar size={10} />
+                <span>{new Date(task.dueDate).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' })}</span>
+              </div>
+            )}
+            {task.comments.length > 0 && (
+              <div className="subtask-badge">
+                <MessageSquare size={10} />
+                <span>{task.comments.length}</span>
+              </div>
+            )}
+            {totalCount > 0 && (
+              <div className="subtask-badge">
+                <CheckSquare size={10} />
+                <span>{completedCount}/{totalCount}</span>
+              </div>
+            )}
+          </div>
         </div>
       )}
 
@@ -364,6 +542,7 @@ function TaskCard({ task, onClick, onDragStart, isDragging }: any) {
           border-radius: 100px;
         }
 
+        .p-badge.urgent { background: #ef4444; color: white; }
         .p-badge.high { background: rgba(239, 68, 68, 0.1); color: #ef4444; }
         .p-badge.medium { background: rgba(245, 158, 11, 0.1); color: #f59e0b; }
         .p-badge.low { background: rgba(16, 185, 129, 0.1); color: #10b981; }
@@ -373,6 +552,7 @@ function TaskCard({ task, onClick, onDragStart, isDragging }: any) {
           background: var(--color-glass);
           border-radius: 50%;
           display: flex; align-items: center; justify-content: center;
+          font-size: 8px; font-weight: 800;
           color: var(--color-text-tertiary);
         }
 
@@ -390,32 +570,61 @@ function TaskCard({ task, onClick, onDragStart, isDragging }: any) {
         .tag-strip { display: flex; gap: 4px; }
         .mini-tag { font-size: 10px; font-weight: 700; color: var(--color-accent); opacity: 0.8; }
 
+        .card-badges { display: flex; gap: 10px; }
+
         .subtask-badge {
           display: flex; align-items: center; gap: 6px;
           font-size: 10px; font-weight: 800; color: var(--color-text-tertiary);
         }
+
+        .subtask-badge.overdue { color: #ef4444; }
       `}</style>
     </div>
   )
 }
 
-function TaskModal({ task, onClose, onSave, onDelete, onAiBreakdown, isAiLoading }: any) {
+interface TaskModalProps {
+  task: Task
+  members: WorkspaceMember[]
+  onClose: () => void
+  onSave: (updates: TaskUpdate) => void
+  onDelete: () => void
+  onAddComment: (content: string) => void
+  onAiBreakdown: (task: Task) => Promise<Subtask[]>
+  isAiLoading: boolean
+}
+
+function TaskModal({ task, members, onClose, onSave, onDelete, onAddComment, onAiBreakdown, isAiLoading }: TaskModalProps) {
   const [local, setLocal] = useState<Task>(task)
+  const [comment, setComment] = useState('')
+  const assigneeMissing = !!local.assigneeId && !members.some(m => m.userId === local.assigneeId)
 
   const handleAiAction = async () => {
     const subtasks = await onAiBreakdown(local)
     if (subtasks.length > 0) {
-      setLocal({ ...local, subtasks: [...(local.subtasks || []), ...subtasks] })
+      setLocal({ ...local, subtasks: [...local.subtasks, ...subtasks] })
     }
   }
 
+  // Comments are posted right away; the rest waits for Save Changes
+  const handlePostComment = () => {
+    if (!comment.trim()) return
+    onAddComment(comment.trim())
+    setComment('')
+  }
+
+  const handleSave = () => {
+    const { title, description, status, priority, assigneeId, dueDate, tags, subtasks } = local
+    onSave({ title, description, status, priority, assigneeId, dueDate, tags, subtasks })
+  }
+
   return (
     <div className="premium-modal-overlay" onClick={onClose}>
       <div className="premium-modal" onClick={e => e.stopPropagation()}>
         <div className="modal-top">
-          <input 
-            className="title-field" 
-            value={local.title} 
+          <input
+            className="title-field"
+            value={local.title}
             onChange={e => setLocal({...local, title: e.target.value})}
           />
           <button className="btn-close" onClick={onClose}><X size={20} /></button>
@@ -424,7 +633,7 @@ function TaskModal({ task, onClose, onSave, onDelete, onAiBreakdown, isAiLoading
         <div className="modal-main">
           <div className="field-group">
             <label>Context & Requirements</label>
-            <textarea 
+            <textarea
               rows={4}
               value={local.description}
               onChange={e => setLocal({...local, description: e.target.value})}
@@ -432,13 +641,31 @@ function TaskModal({ task, onClose, onSave, onDelete, onAiBreakdown, isAiLoading
             />
           </div>
 
+          <div className="field-row">
+            <div className="field-group">
+              <label>Status</label>
+              <select value={local.status} onChange={e => setLocal({...local, status: e.target.value as TaskStatus})}>
+                {COLUMNS.map(column => <option key={column.id} value={column.id}>{column.title}</option>)}
+              </select>
+            </div>
+            <div className="field-group">
+              <label>Assignee</label>
+              <select value={local.assigneeId ?? ''} onChange={e => setLocal({...local, assigneeId: e.target.value || undefined})}>
+                <option value="">Unassigned</option>
+                {members.map(member => <option key={member.userId} value={member.userId}>{member.displayName}</option>)}
+                {assigneeMissing && <option value={local.assigneeId}>Former member</option>}
+              </select>
+            </div>
+          </div>
+
           <div className="field-row">
             <div className="field-group">
               <label>Priority</label>
-              <select value={local.priority} onChange={e => setLocal({...local, priority: e.target.value as any})}>
+              <select value={local.priority} onChange={e => setLocal({...local, priority: e.target.value as TaskPriority})}>
                 <option value="low">Low</option>
                 <option value="medium">Medium</option>
                 <option value="high">High</option>
+                <option value="urgent">Urgent</option>
               </select>
             </div>
             <div className="field-group">
@@ -447,6 +674,29 @@ function TaskModal({ task, onClose, onSave, onDelete, onAiBreakdown, isAiLoading
             </div>
           </div>
 
+          <div className="field-group">
+            <label>Tags</label>
+            <div className="tag-editor">
+              {local.tags.map(tag => (
+                <span key={tag} className="tag-pill">
+                  #{tag}
+                  <button onClick={() => setLocal({...local, tags: local.tags.filter(t => t !== tag)})}><X size={10} /></button>
+                </span>
+              ))}
+              <input
+                className="add-tag-input"
+                placeholder="+ Tag"
+                onKeyDown={e => {
+                  const tag = e.currentTarget.value.trim().replace(/^#/, '')
+                  if (e.key === 'Enter' && tag) {
+                    if (!local.tags.includes(tag)) setLocal({...local, tags: [...local.tags, tag]})
+                    e.currentTarget.value = ''
+                  }
+                }}
+              />
+            </div>
+          </div>
+
           <div className="subtask-section">
             <div className="sub-header">
               <label>Execution Steps</label>
@@ -455,38 +705,62 @@ function TaskModal({ task, onClose, onSave, onDelete, onAiBreakdown, isAiLoading
                 <span>{isAiLoading ? 'Analyzing...' : 'AI Blueprint'}</span>
               </button>
             </div>
-            
+
             <div className="sub-list">
-              {local.subtasks?.map(s => (
+              {local.subtasks.map(s => (
                 <div key={s.id} className="sub-item">
-                  <button 
+                  <button
                     className={`sub-check ${s.completed ? 'active' : ''}`}
-                    onClick={() => setLocal({...local, subtasks: local.subtasks?.map(st => st.id === s.id ? {...st, completed: !st.completed} : st)})}
+                    onClick={() => setLocal({...local, subtasks: local.subtasks.map(st => st.id === s.id ? {...st, completed: !st.completed} : st)})}
                   >
                     {s.completed && <Check size={12} />}
                   </button>
                   <span className={s.completed ? 'completed' : ''}>{s.title}</span>
                 </div>
               ))}
-              <input 
+              <input
                 className="add-sub-input"
                 placeholder="+ Add execution step..."
                 onKeyDown={e => {
                   if (e.key === 'Enter' && (e.target as any).value.trim()) {
-                    setLocal({...local, subtasks: [...(local.subtasks || []), { id: crypto.randomUUID(), title: (e.target as any).value.trim(), completed: false }]});
+                    setLocal({...local, subtasks: [...local.subtasks, { id: crypto.randomUUID(), title: (e.target as any).value.trim(), completed: false }]});
                     (e.target as any).value = ''
                   }
                 }}
               />
             </div>
           </div>
+
+          <div className="field-group">
+            <label>Discussion</label>
+            <div className="comment-list">
+              {task.comments.map(c => (
+                <div key={c.id} className="comment-item">
+                  <div className="comment-meta">
+                    <span className="comment-author">{c.userName}</span>
+                    <span>{new Date(c.timestamp).toLocaleString()}</span>
+                  </div>
+                  <div className="comment-body">{c.content}</div>
+                </div>
+              ))}
+            </div>
+            <div className="comment-compose">
+              <input
+                value={comment}
+                onChange={e => setComment(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && handlePostComment()}
+                placeholder="Add a comment..."
+              />
+              <button className="btn-glass" onClick={handlePostComment} disabled={!comment.trim()}>Post</button>
+            </div>
+          </div>
         </div>
 
         <div className="modal-footer-premium">
           <button className="btn-purge" onClick={onDelete}><Trash2 size={16} /> Purge</button>
           <div className="footer-actions">
             <button className="btn-glass" onClick={onClose}>Cancel</button>
-            <button className="btn-solid" onClick={() => onSave(local)}>Save Changes</button>
+            <button className="btn-solid" onClick={handleSave}>Save Changes</button>
           </div>
         </div>
       </div>
@@ -532,7 +806,7 @@ function TaskModal({ task, onClose, onSave, onDelete, onAiBreakdown, isAiLoading
 
         .field-group { display: flex; flex-direction: column; gap: 8px; }
         .field-group label { font-size: 10px; font-weight: 800; text-transform: uppercase; color: var(--color-text-tertiary); letter-spacing: 0.05em; }
-        
+
         .field-group textarea, .field-group select, .field-group input {
           background: var(--color-surface-subtle);
           border: 1px solid var(--color-border);
@@ -543,8 +817,25 @@ function TaskModal({ task, onClose, onSave, onDelete, onAiBreakdown, isAiLoading
 
         .field-row { display: grid; grid-template-columns: 1fr 1fr; gap: 16px; }
 
+        .tag-editor { display: flex; flex-wrap: wrap; align-items: center; gap: 6px; }
+
+        .tag-pill {
+          display: flex; align-items: center; gap: 4px;
+          padding: 4px 10px; border-radius: 100px;
+          background: var(--color-glass);
+          font-size: 12px; font-weight: 700; color: var(--color-accent);
+        }
+
+        .tag-pill button { display: flex; color: var(--color-text-tertiary); }
+
+        .field-group .add-tag-input {
+          flex: 1; min-width: 80px;
+          padding: 4px 8px; font-size: 12px;
+          background: none; border: none; border-bottom: 1px solid var(--color-border-subtle); border-radius: 0;
+        }
+
         .sub-header { display: flex; justify-content: space-between; align-items: center; margin-bottom: 16px; }
-        
+
         .btn-ai-magic {
           display: flex; align-items: center; gap: 8px;
           padding: 6px 14px; background: var(--color-glass);
@@ -553,7 +844,7 @@ function TaskModal({ task, onClose, onSave, onDelete, onAiBreakdown, isAiLoading
         }
 
         .sub-list { display: flex; flex-direction: column; gap: 8px; }
-        
+
         .sub-item {
           display: flex; align-items: center; gap: 12px;
           padding: 10px 14px; background: var(--color-surface-subtle);
@@ -574,6 +865,21 @@ function TaskModal({ task, onClose, onSave, onDelete, onAiBreakdown, isAiLoading
           padding: 8px 0; color: var(--color-text); font-size: 13px; outline: none;
         }
 
+        .comment-list { display: flex; flex-direction: column; gap: 8px; }
+
+        .comment-item {
+          padding: 10px 14px;
+          background: var(--color-surface-subtle);
+          border-radius: 12px;
+        }
+
+        .comment-meta { display: flex; justify-content: space-between; font-size: 10px; color: var(--color-text-tertiary); margin-bottom: 4px; }
+        .comment-author { font-weight: 800; color: var(--color-text-secondary); }
+        .comment-body { font-size: 13px; line-height: 1.5; white-space: pre-wrap; }
+
+        .comment-compose { display: flex; gap: 8px; }
+        .comment-compose input { flex: 1; }
+
         .modal-footer-premium {
           padding: 24px 32px;
           background: var(--color-surface-subtle);
@@ -12,9 +12,10 @@ import { useModelStore } from '../stores/modelStore'
 import { useAgent } from '../hooks/useAgent'
 import { toolPermissionManager, stopActiveTool, type ToolCallRequest } from '../services/ideAgentTools'
 import { agentLoopService } from '../services/agentLoopService'
-import type { AgentStep, AgentLoopEvent } from '../types/agentTypes'
+import type { AgentStep, AgentLoopEvent, AgentChangeSet } from '../types/agentTypes'
 import { getModelById } from '../types/offlineModels'
 import UnifiedSettingsPanel from './UnifiedSettingsPanel'
+import ChangesReview from './ChangesReview'
 import WorkspaceScanTab from './aiscan/WorkspaceScanTab'
 import CollaborationPanel from './collaboration'
 import { workspaceScanService } from '../services/workspaceScanService'
@@ -27,7 +28,7 @@ import {
     ChevronDown, Monitor, Loader2, Square,
     Brain, Info, Wrench, CheckCircle2,
     Play, FileCode, Users, CornerUpLeft, User, File, Globe,
-    Settings, History, Plus
+    Settings, History, Plus, Undo2
 } from 'lucide-react'
 import { useChatStore } from '../stores/chatStore'
 
@@ -35,6 +36,17 @@ import { useChatStore } from '../stores/chatStore'
 type PanelMode = 'collaboration' | 'agent'
 type AIMode = 'cloud' | 'offline'
 
+const CLOUD_PROVIDER_LABELS: Record<AIProvider, string> = {
+    openai: 'OpenAI',
+    anthropic: 'Anthropic',
+    google: 'Google',
+    custom: 'Custom Endpoint'
+}
+
+function formatStepDuration(ms: number): string {
+    return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`
+}
+
 /**
  * Clean model output by removing special tokens, raw JSON tool calls, and formatting artifacts
  * This ensures users see clean, readable messages
@@ -129,6 +141,7 @@ export default function UnifiedAgentPanel({
     const [showModelManager, setShowModelManager] = useState(false)
     const [currentProvider, setCurrentProvider] = useState<AIProvider>('openai')
     const [cloudModel, setCloudModel] = useState<string>('')
+    const [endpointModels, setEndpointModels] = useState<string[]>([])
     const [showLog, setShowLog] = useState(false)
     const [showAutonomous, setShowAutonomous] = useState(false)
     const [showTeamPanel, setShowTeamPanel] = useState(false)
@@ -162,6 +175,12 @@ export default function UnifiedAgentPanel({
         resolve: (value: { approved: boolean; alwaysAllow: boolean }) => void
     } | null>(null)
 
+    // Combined diff of the running agent's staged edits, and the last run whose edits were applied
+    const [pendingChanges, setPendingChanges] = useState<AgentChangeSet | null>(null)
+    const changesResolverRef = useRef<((apply: boolean) => void) | null>(null)
+    const [appliedRun, setAppliedRun] = useState<{ runId: string; files: string[] } | null>(null)
+    const [isUndoingRun, setIsUndoingRun] = useState(false)
+
     const messagesEndRef = useRef<HTMLDivElement>(null)
     const inputRef = useRef<HTMLTextAreaElement>(null)
     const typingTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
@@ -178,7 +197,7 @@ export default function UnifiedAgentPanel({
     })())
 
     // --- Custom Hooks ---
-    const { currentSpace, apiKeys, userName, setShowSettings, setSettingsTab } = useAppStore()
+    const { currentSpace, apiKeys, customEndpoint, userName, setShowSettings, setSettingsTab } = useAppStore()
     const { addNotification } = useNotificationStore()
     const { doc, provider, synced } = useYDoc(currentSpace?.id ?? null)
     const { items: p2pMessages, push: pushP2P } = useYArray<any>(doc, 'messages')
@@ -409,6 +428,19 @@ export default function UnifiedAgentPanel({
         else aiService.removeAPIKey('google')
     }, [apiKeys])
 
+    // Sync the custom endpoint and discover the models it serves
+    useEffect(() => {
+        aiService.setCustomEndpoint(customEndpoint ? { ...customEndpoint, apiKey: apiKeys.custom } : null)
+        setEndpointModels([])
+        if (!customEndpoint) return
+
+        let cancelled = false
+        aiService.discoverModels()
+            .then(models => { if (!cancelled) setEndpointModels(models) })
+            .catch(error => console.warn('[Agent] Custom endpoint model discovery failed:', error))
+        return () => { cancelled = true }
+    }, [customEndpoint, apiKeys.custom])
+
     // FIX BUG-008: Set mounted state on component lifecycle
     useEffect(() => {
         isMountedRef.current = true
@@ -538,11 +570,58 @@ export default function UnifiedAgentPanel({
                     setIsThinking(false)
                     setThinkingContent('')
                     break
+                case 'changes-applied':
+                    setAppliedRun({ runId: event.runId, files: event.files })
+                    break
+                case 'changes-discarded':
+                    // The run may have been aborted while the review was open
+                    changesResolverRef.current = null
+                    setPendingChanges(null)
+                    addNotification(`Agent changes discarded: ${event.reason}`, 'info')
+                    break
+                case 'run-undone':
+                    setAppliedRun(prev => prev?.runId === event.runId ? null : prev)
+                    addNotification(`Reverted agent changes to ${event.files.length} file(s)`, 'success')
+                    break
             }
         })
 
         return unsubscribe
-    }, [loadedModelId, currentSessionId, addMessageToSession])
+    }, [loadedModelId, currentSessionId, addMessageToSession, addNotification])
+
+    // Register the approval of an agent run's combined changes
+    useEffect(() => {
+        agentLoopService.setChangeApprovalHandler(changes => new Promise<boolean>(resolve => {
+            changesResolverRef.current = resolve
+            setPendingChanges(changes)
+        }))
+
+        return () => {
+            // Unblock a run still waiting for review; its changes are discarded
+            changesResolverRef.current?.(false)
+            changesResolverRef.current = null
+            agentLoopService.setChangeApprovalHandler(null)
+        }
+    }, [])
+
+    const resolvePendingChanges = useCallback((apply: boolean) => {
+        changesResolverRef.current?.(apply)
+        changesResolverRef.current = null
+        setPendingChanges(null)
+    }, [])
+
+    const handleUndoRun = useCallback(async () => {
+        if (!appliedRun) return
+        setIsUndoingRun(true)
+        try {
+            const result = await agentLoopService.undoRun(appliedRun.runId)
+            if (!result.success) {
+                addNotification(`Cannot undo agent run: ${result.error}`, 'error')
+            }
+        } finally {
+            setIsUndoingRun(false)
+        }
+    }, [appliedRun, addNotification])
 
     // Register Tool Confirmation Handler
     useEffect(() => {
@@ -671,13 +750,15 @@ export default function UnifiedAgentPanel({
         if (apiKeys.openai) providers.push('openai')
         if (apiKeys.anthropic) providers.push('anthropic')
         if (apiKeys.google) providers.push('google')
+        if (customEndpoint) providers.push('custom')
         return providers
-    }, [apiKeys])
+    }, [apiKeys, customEndpoint])
 
     // Get available models for current provider
     const availableCloudModels = useMemo(() => {
+        if (currentProvider === 'custom') return endpointModels
         return PROVIDER_MODELS[currentProvider] || []
-    }, [currentProvider])
+    }, [currentProvider, endpointModels])
 
     // FIX BUG-011: Auto-select available provider if current is invalid
     useEffect(() => {
@@ -686,15 +767,15 @@ export default function UnifiedAgentPanel({
         }
     }, [availableCloudProviders, currentProvider])
 
-    // Default cloud model when provider changes
+    // Default cloud model when provider changes, keeping a model the user picked
     useEffect(() => {
-        if (availableCloudModels.length > 0) {
+        if (availableCloudModels.length > 0 && !availableCloudModels.includes(cloudModel)) {
             // Pick a reasonable default (prefer Ultra/Pro models if available)
             const defaultModel = availableCloudModels.find(m => m.includes('pro') || m.includes('ultra') || m.includes('sonnet') || m.includes('preview'))
                 || availableCloudModels[0]
             setCloudModel(defaultModel)
         }
-    }, [currentProvider, availableCloudModels])
+    }, [currentProvider, availableCloudModels, cloudModel])
 
     const handleStop = async () => {
         if (!isProcessing && !agentLoopRunning) return
@@ -1069,6 +1150,32 @@ export default function UnifiedAgentPanel({
                                         <Monitor size={12} /> Local
                                     </button>
                                 </div>
+                                {!showAutonomous && aiMode === 'cloud' && availableCloudProviders.length > 0 && (
+                                    <div className="cloud-config">
+                                        <select
+                                            className="minimal-select"
+                                            value={currentProvider}
+                                            onChange={e => setCurrentProvider(e.target.value as AIProvider)}
+                                            title="Provider"
+                                        >
+                                            {availableCloudProviders.map(p => (
+                                                <option key={p} value={p}>{CLOUD_PROVIDER_LABELS[p]}</option>
+                                            ))}
+                                        </select>
+                                        <select
+                                            className="minimal-select model-sel"
+                                            value={cloudModel}
+                                            onChange={e => setCloudModel(e.target.value)}
+                                            disabled={availableCloudModels.length === 0}
+                                            title={currentProvider === 'custom' && availableCloudModels.length === 0
+                                                ? 'No models discovered on the custom endpoint'
+                                                : 'Model'}
+                                        >
+                                            {availableCloudModels.length === 0 && <option value="">No models</option>}
+                                            {availableCloudModels.map(m => <option key={m} value={m}>{m}</option>)}
+                                        </select>
+                                    </div>
+                                )}
                                 <button
                                     className="header-settings-btn"
                                     onClick={() => { setSettingsTab('agents'); setShowSettings(true); }}
@@ -1162,6 +1269,11 @@ export default function UnifiedAgentPanel({
                                                         {step.type === 'tool-call' && (
                                                             <div className="step-tool-header">
                                                                 <span className="tool-badge">{step.name}</span>
+                                                                {step.batch && step.batch.size > 1 && (
+                                                                    <span className="step-parallel" title={`Ran concurrently with ${step.batch.size - 1} other call(s) in batch ${step.batch.index + 1}`}>
+                                                                        parallel ×{step.batch.size}
+                                                                    </span>
+                                                                )}
                                                                 {step.params && (
                                                                     <span className="tool-params-summary">
                                                                         {Object.entries(step.params)
@@ -1181,11 +1293,19 @@ export default function UnifiedAgentPanel({
                                                                         ? step.data.slice(0, 500)
                                                                         : JSON.stringify(step.data).slice(0, 500)
                                                                 }</pre>
-                                                                {step.duration && <span className="step-duration">{step.duration}ms</span>}
+                                                                {step.duration !== undefined && (
+                                                                    <span className="step-duration">
+                                                                        {step.batch && step.batch.size > 1 && `batch ${step.batch.index + 1} · `}
+                                                                        {formatStepDuration(step.duration)}
+                                                                    </span>
+                                                                )}
                                                             </div>
                                                         )}
                                                         {step.type === 'thinking' && (
-                                                            <div className="step-thinking">{step.content.slice(0, 300)}{step.content.length > 300 ? '...' : ''}</div>
+                                                            <div className="step-thinking">
+                                                                {step.content.slice(0, 300)}{step.content.length > 300 ? '...' : ''}
+                                                                {step.duration !== undefined && <span className="step-duration"> · {formatStepDuration(step.duration)}</span>}
+                                                            </div>
                                                         )}
                                                         {step.type === 'error' && (
                                                             <div className="step-error">{step.content}</div>
@@ -1211,6 +1331,18 @@ export default function UnifiedAgentPanel({
                                         </div>
                                     )}
 
+                                    {appliedRun && !agentLoopRunning && (
+                                        <div className="agent-applied-run">
+                                            <CheckCircle2 size={14} />
+                                            <span className="applied-run-text" title={appliedRun.files.join('\n')}>
+                                                Agent changed {appliedRun.files.length} file{appliedRun.files.length === 1 ? '' : 's'}
+                                            </span>
+                                            <button className="applied-run-undo" onClick={handleUndoRun} disabled={isUndoingRun}>
+                                                {isUndoingRun ? <Loader2 size={12} className="animate-spin" /> : <Undo2 size={12} />} Undo run
+                                            </button>
+                                        </div>
+                                    )}
+
                                     {/* Real-time Thinking Bubble during generation */}
                                     {(isThinking || thinkingContent) && (
                                         <div className={`thinking-bubble-v2 ${isThinking ? 'active' : ''}`}>
@@ -1264,6 +1396,15 @@ export default function UnifiedAgentPanel({
                     </div>
                 )}
 
+                {pendingChanges && (
+                    <ChangesReview
+                        title="Review agent changes"
+                        changes={pendingChanges}
+                        onApply={() => resolvePendingChanges(true)}
+                        onDiscard={() => resolvePendingChanges(false)}
+                    />
+                )}
+
                 {/* Shared Inline Tool Approval Card */}
                 {pendingToolRequest && (
                     <div className="shared-tool-approval">
@@ -2867,6 +3008,42 @@ export default function UnifiedAgentPanel({
                     gap: 2px;
                 }
 
+                .agent-applied-run {
+                    display: flex;
+                    align-items: center;
+                    gap: 8px;
+                    margin: 8px 0;
+                    padding: 8px 12px;
+                    border-radius: 8px;
+                    background: rgba(34, 197, 94, 0.08);
+                    border: 1px solid rgba(34, 197, 94, 0.2);
+                    color: #22c55e;
+                    font-size: 12px;
+                }
+
+                .applied-run-text {
+                    flex: 1;
+                    color: var(--color-text);
+                }
+
+                .applied-run-undo {
+                    display: flex;
+                    align-items: center;
+                    gap: 4px;
+                    padding: 3px 10px;
+                    border-radius: 6px;
+                    border: 1px solid var(--color-border);
+                    background: var(--color-surface);
+                    color: var(--color-text);
+                    font-size: 11px;
+                    cursor: pointer;
+                }
+
+                .applied-run-undo:disabled {
+                    opacity: 0.5;
+                    cursor: default;
+                }
+
                 .agent-iteration-badge {
                     font-size: 10px;
                     color: var(--color-text-tertiary);
@@ -2962,6 +3139,16 @@ export default function UnifiedAgentPanel({
                     font-size: 9px;
                     color: var(--color-text-tertiary);
                     align-self: flex-end;
+                    font-style: normal;
+                }
+
+                .step-parallel {
+                    font-size: 9px;
+                    padding: 1px 5px;
+                    border-radius: var(--radius-sm);
+                    background: rgba(168, 85, 247, 0.12);
+                    color: var(--color-text-secondary);
+                    white-space: nowrap;
                 }
 
                 .step-error {
@@ -8,7 +8,7 @@ import { useModelStore } from '../stores/modelStore'
 import { encryptionService } from '../services/encryptionService'
 import { p2pService } from '../services/p2pService'
 import { offlineLLMService } from '../services/offlineLLMService'
-import { aiService } from '../services/aiService'
+import { aiService, normalizeEndpointUrl } from '../services/aiService'
 import {
   downloadModel,
   cancelDownload
@@ -64,7 +64,8 @@ import {
   Sun,
   Moon,
   Sparkles,
-  CheckCircle2
+  CheckCircle2,
+  Server
 } from 'lucide-react'
 
 type TabId = 'general' | 'agents' | 'security' | 'members' | 'advanced' | 'credits' | 'support' | 'performance'
@@ -342,6 +343,7 @@ function AgentsTab({ apiKeys, setAPIKey, removeAPIKey }: any) {
               setAPIKey={setAPIKey}
               removeAPIKey={removeAPIKey}
             />
+            <CustomEndpointCard apiKeys={apiKeys} setAPIKey={setAPIKey} removeAPIKey={removeAPIKey} />
           </div>
         </section>
 
@@ -530,6 +532,142 @@ function ModernApiKeyInput({ provider, name, description, placeholder, apiKeys,
   )
 }
 
+// Self-hosted OpenAI-compatible server (Ollama, llama.cpp server, vLLM)
+function CustomEndpointCard({ apiKeys, setAPIKey, removeAPIKey }: any) {
+  const { customEndpoint, setCustomEndpoint } = useAppStore()
+  const [isEditing, setIsEditing] = useState(false)
+  const [baseUrl, setBaseUrl] = useState('')
+  const [key, setKey] = useState('')
+  const [contextWindow, setContextWindow] = useState('')
+  const [nativeTools, setNativeTools] = useState(false)
+  const [testing, setTesting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [modelCount, setModelCount] = useState<number | null>(null)
+
+  const startEditing = () => {
+    setBaseUrl(customEndpoint?.baseUrl ?? 'http://localhost:11434/v1')
+    setKey('')
+    setContextWindow(customEndpoint?.contextWindow ? String(customEndpoint.contextWindow) : '')
+    setNativeTools(!!customEndpoint?.nativeTools)
+    setError(null)
+    setIsEditing(true)
+  }
+
+  // Only save an endpoint that answers the model listing
+  const handleSave = async () => {
+    const url = normalizeEndpointUrl(baseUrl)
+    // Keep the stored key unless a new one was typed
+    const apiKey = key.trim() || apiKeys.custom
+    const settings = {
+      baseUrl: url,
+      contextWindow: Number.parseInt(contextWindow, 10) || undefined,
+      nativeTools
+    }
+
+    setTesting(true)
+    setError(null)
+    try {
+      const models = await aiService.discoverModels({ ...settings, apiKey })
+      if (key.trim()) await setAPIKey('custom', key.trim())
+      setCustomEndpoint(settings)
+      setModelCount(models.length)
+      setIsEditing(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Endpoint unreachable')
+    } finally {
+      setTesting(false)
+    }
+  }
+
+  const handleDisconnect = async () => {
+    setCustomEndpoint(null)
+    setModelCount(null)
+    if (apiKeys.custom) await removeAPIKey('custom')
+  }
+
+  return (
+    <div className={`modern-key-card ${customEndpoint ? 'active' : ''} ${error ? 'error' : ''}`}>
+      <div className="provider-branding">
+         <div className="provider-logo-box custom">
+            <Server size={18} />
+         </div>
+         <div className="provider-info">
+            <span className="name">Custom Endpoint</span>
+            <span className="desc">Ollama, llama.cpp server, vLLM or any OpenAI-compatible API</span>
+         </div>
+         {customEndpoint && !isEditing && (
+            <div className="status-pill-success">
+               <Check size={10} />
+               <span>{modelCount === null ? 'CONNECTED' : `${modelCount} MODELS`}</span>
+            </div>
+         )}
+      </div>
+
+      <div className="key-input-area">
+         {isEditing ? (
+            <div className="input-group-modern">
+               <input
+                  type="text"
+                  placeholder="http://localhost:11434/v1"
+                  value={baseUrl}
+                  onChange={(e) => setBaseUrl(e.target.value)}
+                  autoFocus
+                  disabled={testing}
+               />
+               <input
+                  type="password"
+                  placeholder={apiKeys.custom ? 'API key (leave empty to keep)' : 'API key (optional)'}
+                  value={key}
+                  onChange={(e) => setKey(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+                  disabled={testing}
+               />
+               <div className="endpoint-options">
+                  <input
+                     type="number"
+                     min={1024}
+                     step={1024}
+                     placeholder="Context window (32768)"
+                     value={contextWindow}
+                     onChange={(e) => setContextWindow(e.target.value)}
+                     disabled={testing}
+                  />
+                  <label title="Offer agent tools through the server's function calling API instead of text tool blocks">
+                     <input
+                        type="checkbox"
+                        checked={nativeTools}
+                        onChange={(e) => setNativeTools(e.target.checked)}
+                        disabled={testing}
+                     />
+                     <span>Native tool calls</span>
+                  </label>
+               </div>
+               <div className="input-actions">
+                  <button onClick={() => setIsEditing(false)} className="btn-cancel" disabled={testing}>Cancel</button>
+                  <button onClick={handleSave} className="btn-save" disabled={!baseUrl.trim() || testing}>
+                     {testing ? <Loader2 size={14} className="animate-spin" /> : 'Test & Save'}
+                  </button>
+               </div>
+               {error && <span className="error-msg-mini">{error}</span>}
+            </div>
+         ) : customEndpoint ? (
+            <div className="key-management-row">
+               <span className="endpoint-url" title={customEndpoint.baseUrl}>{customEndpoint.baseUrl}</span>
+               <div className="management-btns">
+                  <button className="btn-minor" onClick={startEditing}>Change</button>
+                  <button className="btn-minor danger" onClick={handleDisconnect}>Disconnect</button>
+               </div>
+            </div>
+         ) : (
+            <button className="btn-connect-modern" onClick={startEditing}>
+               Connect Custom Endpoint
+            </button>
+         )}
+      </div>
+    </div>
+  )
+}
+
 function SecurityTab({ settings, setSettings, showPassword, setShowPassword }: any) {
   const [githubToken, setGithubToken] = useState('')
   const [showGithubToken, setShowGithubToken] = useState(false)
@@ -3,17 +3,23 @@
  */
 import { useState, useEffect } from 'react'
 import { useNotificationStore } from '../../stores/notificationStore'
-import { Download, AlertCircle, Loader2 } from 'lucide-react'
+import { useBreakpointStore } from '../../stores/breakpointStore'
+import { Download, AlertCircle, Loader2, Pencil, Plus, Trash2, X, Square, ChevronDown, ChevronRight, Layers } from 'lucide-react'
+import type { DebugSessionSummary } from '../../types/debug'
 
 /**
  * DebuggerManager
  * 
- * Component to handle automated debugger installation and updates.
+ * Component to handle automated debugger installation and updates,
+ * the breakpoints panel ("Debug: Show Breakpoints") and the tree of
+ * running debug sessions.
  */
 export const DebuggerManager = () => {
     const { addNotification } = useNotificationStore()
     const [missingAdapter, setMissingAdapter] = useState<any>(null)
     const [installing, setInstalling] = useState(false)
+    const [showBreakpoints, setShowBreakpoints] = useState(false)
+    const [sessions, setSessions] = useState<DebugSessionSummary[]>([])
 
     useEffect(() => {
         if (!window.electronAPI?.on) return
@@ -25,6 +31,36 @@ export const DebuggerManager = () => {
         return () => removeListener()
     }, [])
 
+    // Session feedback for the breakpoint store: exception filters and verification
+    useEffect(() => {
+        const debug = window.electronAPI?.debug
+        if (!debug?.onCapabilities) return
+
+        const store = useBreakpointStore.getState()
+        const unsubscribers = [
+            debug.onCapabilities(({ capabilities }: { capabilities: { exceptionBreakpointFilters?: any[] } }) => {
+                store.setExceptionFilters(capabilities.exceptionBreakpointFilters || [])
+            }),
+            debug.onBreakpointsVerified(({ verified }: { verified: Record<string, boolean> }) => {
+                store.setVerified(verified)
+            }),
+            debug.onSessions((running: DebugSessionSummary[]) => {
+                setSessions(running)
+                if (running.length === 0) store.clearVerified()
+            })
+        ]
+        debug.getSessions().then((result: { success: boolean; sessions?: DebugSessionSummary[] }) => {
+            if (result?.success && result.sessions) setSessions(result.sessions)
+        })
+        return () => unsubscribers.forEach(unsubscribe => unsubscribe())
+    }, [])
+
+    useEffect(() => {
+        const handleShow = () => setShowBreakpoints(true)
+        window.addEventListener('kalynt-show-breakpoints', handleShow)
+        return () => window.removeEventListener('kalynt-show-breakpoints', handleShow)
+    }, [])
+
     const handleInstall = async () => {
         if (!missingAdapter) return
         setInstalling(true)
@@ -66,13 +102,22 @@ export const DebuggerManager = () => {
         }
     }
 
-    if (!missingAdapter) return null
+    const breakpointsPanel = (
+        <>
+            {sessions.length > 0 && <DebugSessionsPanel sessions={sessions} />}
+            {showBreakpoints && <BreakpointsPanel onClose={() => setShowBreakpoints(false)} />}
+        </>
+    )
+
+    if (!missingAdapter) return breakpointsPanel
 
     // Disable automated installation for all debuggers currently since runtimeMgmt 
     // installs runtimes (Python/Go) instead of DAP adapters (debugpy/delve).
     const isAutomated = false;
 
     return (
+        <>
+        {breakpointsPanel}
         <div className="debugger-install-banner animate-reveal-up">
             <div className="banner-content">
                 <AlertCircle size={18} className="text-blue-400" />
@@ -132,5 +177,362 @@ export const DebuggerManager = () => {
                 .btn-install-debug:disabled { opacity: 0.6; cursor: not-allowed; }
             `}</style>
         </div>
+        </>
+    )
+}
+
+/**
+ * Running sessions, with the members of a compound grouped under it.
+ * Clicking a session makes it the one the toolbar and debug console act on.
+ */
+const DebugSessionsPanel = ({ sessions }: { sessions: DebugSessionSummary[] }) => {
+    const [collapsed, setCollapsed] = useState(false)
+    const [focused, setFocused] = useState<string | null>(null)
+
+    const focus = (sessionId: string) => {
+        setFocused(sessionId)
+        window.dispatchEvent(new CustomEvent('kalynt-focus-debug-session', { detail: { sessionId } }))
+    }
+    const stop = (sessionIds: string[]) => {
+        sessionIds.forEach(id => window.electronAPI?.debug.stop(id))
+    }
+
+    // Compounds keep the position of their first session
+    const groups: { compoundId?: string; name?: string; sessions: DebugSessionSummary[] }[] = []
+    for (const session of sessions) {
+        const group = session.compoundId && groups.find(g => g.compoundId === session.compoundId)
+        if (group) {
+            group.sessions.push(session)
+        } else {
+            groups.push({ compoundId: session.compoundId, name: session.compoundName, sessions: [session] })
+        }
+    }
+
+    const renderSession = (session: DebugSessionSummary, nested: boolean) => (
+        <div
+            key={session.id}
+            className={`ds-row ${nested ? 'nested' : ''} ${focused === session.id ? 'focused' : ''}`}
+            onClick={() => focus(session.id)}
+        >
+            <span className={`ds-state ${session.state}`} title={session.state} />
+            <span className="ds-name">{session.name}</span>
+            <span className="ds-detail">{session.type} · {session.state}</span>
+            <button className="ds-icon-btn" title="Stop" onClick={e => { e.stopPropagation(); stop([session.id]) }}>
+                <Square size={11} />
+            </button>
+        </div>
+    )
+
+    return (
+        <div className="debug-sessions-panel animate-reveal-up">
+            <div className="ds-header">
+                <button className="ds-icon-btn" onClick={() => setCollapsed(!collapsed)}>
+                    {collapsed ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+                </button>
+                <span className="ds-title">Debug Sessions ({sessions.length})</span>
+                <button className="ds-icon-btn" title="Stop All" onClick={() => window.electronAPI?.debug.stopAll()}>
+                    <Square size={12} />
+                </button>
+            </div>
+
+            {!collapsed && (
+                <div className="ds-body">
+                    {groups.map(group => group.compoundId ? (
+                        <div key={group.compoundId}>
+                            <div className="ds-row">
+                                <Layers size={12} />
+                                <span className="ds-name">{group.name || 'Compound'}</span>
+                                <span className="ds-detail">{group.sessions.length} sessions</span>
+                                <button className="ds-icon-btn" title="Stop Compound" onClick={() => stop(group.sessions.map(s => s.id))}>
+                                    <Square size={11} />
+                                </button>
+                            </div>
+                            {group.sessions.map(session => renderSession(session, true))}
+                        </div>
+                    ) : renderSession(group.sessions[0], false))}
+                </div>
+            )}
+
+            <style>{`
+                .debug-sessions-panel {
+                    position: fixed;
+                    right: 24px;
+                    top: 64px;
+                    z-index: 1900;
+                    width: 320px;
+                    max-height: 40vh;
+                    display: flex;
+                    flex-direction: column;
+                    background: rgba(10, 10, 15, 0.95);
+                    backdrop-filter: blur(20px);
+                    border: 1px solid rgba(255, 255, 255, 0.1);
+                    border-radius: 12px;
+                    box-shadow: 0 10px 30px rgba(0, 0, 0, 0.5);
+                    color: white;
+                }
+                .ds-header { display: flex; align-items: center; gap: 6px; padding: 10px 14px; border-bottom: 1px solid rgba(255, 255, 255, 0.08); }
+                .ds-title { flex: 1; font-size: 13px; font-weight: 700; }
+                .ds-body { overflow-y: auto; padding: 6px 0 10px; }
+                .ds-icon-btn { background: transparent; border: none; color: rgba(255, 255, 255, 0.5); cursor: pointer; display: flex; align-items: center; padding: 2px; }
+                .ds-icon-btn:hover { color: white; }
+                .ds-row { display: flex; align-items: center; gap: 8px; min-height: 24px; padding: 0 14px; font-size: 12px; cursor: pointer; }
+                .ds-row.nested { padding-left: 34px; }
+                .ds-row:hover { background: rgba(255, 255, 255, 0.04); }
+                .ds-row.focused { background: rgba(59, 130, 246, 0.15); }
+                .ds-name { white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+                .ds-detail { flex: 1; min-width: 0; font-size: 11px; color: rgba(255, 255, 255, 0.45); white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+                .ds-state { flex-shrink: 0; width: 8px; height: 8px; border-radius: 50%; background: #848484; }
+                .ds-state.running { background: #22c55e; }
+                .ds-state.stopped { background: #eab308; }
+            `}</style>
+        </div>
+    )
+}
+
+/**
+ * Text field that commits on Enter or blur, so the breakpoints are not saved on every keystroke
+ */
+const BreakpointField = ({ label, value, placeholder, onCommit }: {
+    label: string
+    value: string | undefined
+    placeholder: string
+    onCommit: (value: string) => void
+}) => {
+    const [draft, setDraft] = useState(value || '')
+
+    useEffect(() => setDraft(value || ''), [value])
+
+    const commit = () => {
+        if (draft !== (value || '')) onCommit(draft)
+    }
+
+    return (
+        <label className="bp-field">
+            <span>{label}</span>
+            <input
+                value={draft}
+                placeholder={placeholder}
+                spellCheck={false}
+                onChange={e => setDraft(e.target.value)}
+                onBlur={commit}
+                onKeyDown={e => {
+                    if (e.key === 'Enter') commit()
+                    if (e.key === 'Escape') setDraft(value || '')
+                }}
+            />
+        </label>
+    )
+}
+
+const describeBreakpoint = (bp: { condition?: string; hitCondition?: string; logMessage?: string }) =>
+    [
+        bp.condition && `when ${bp.condition}`,
+        bp.hitCondition && `hits ${bp.hitCondition}`,
+        bp.logMessage && `log "${bp.logMessage}"`
+    ].filter(Boolean).join(', ')
+
+const BreakpointsPanel = ({ onClose }: { onClose: () => void }) => {
+    const {
+        workspacePath, source, functions, exceptions, exceptionFilters, verified,
+        updateBreakpoint, removeBreakpoint, removeAllBreakpoints,
+        addFunctionBreakpoint, updateFunctionBreakpoint, removeFunctionBreakpoint,
+        setExceptionBreakpoint
+    } = useBreakpointStore()
+    const [expanded, setExpanded] = useState<string | null>(null)
+    const [newFunction, setNewFunction] = useState('')
+
+    const toDisplayPath = (file: string) => {
+        if (workspacePath && file.startsWith(workspacePath)) {
+            return file.slice(workspacePath.length).replace(/^[/\\]+/, '')
+        }
+        return file
+    }
+
+    const glyphClass = (bp: { id: string; enabled: boolean; condition?: string; hitCondition?: string; logMessage?: string }) =>
+        ['bp-glyph', bp.logMessage ? 'logpoint' : (bp.condition || bp.hitCondition) && 'conditional', !bp.enabled && 'disabled', verified[bp.id] === false && 'unverified']
+            .filter(Boolean)
+            .join(' ')
+
+    return (
+        <div className="breakpoints-panel animate-reveal-up">
+            <div className="bp-header">
+                <span className="bp-title">Breakpoints</span>
+                <button
+                    className="bp-icon-btn"
+                    title="Remove All Breakpoints"
+                    disabled={source.length === 0 && functions.length === 0}
+                    onClick={removeAllBreakpoints}
+                >
+                    <Trash2 size={13} />
+                </button>
+                <button className="bp-icon-btn" title="Close" onClick={onClose}><X size={14} /></button>
+            </div>
+
+            <div className="bp-body">
+                {!workspacePath && <div className="bp-empty">Open a folder to set breakpoints.</div>}
+
+                <div className="bp-section">Exceptions</div>
+                {exceptionFilters.length === 0 ? (
+                    <div className="bp-empty">Exception filters appear once a debugger that offers them has started.</div>
+                ) : exceptionFilters.map(filter => {
+                    const setting = exceptions[filter.filter]
+                    const enabled = setting?.enabled ?? !!filter.default
+                    return (
+                        <div key={filter.filter} className="bp-item">
+                            <div className="bp-row" title={filter.description}>
+                                <input
+                                    type="checkbox"
+                                    checked={enabled}
+                                    onChange={e => setExceptionBreakpoint(filter.filter, { enabled: e.target.checked, condition: setting?.condition })}
+                                />
+                                <span className="bp-name">{filter.label}</span>
+                                {setting?.condition && <span className="bp-detail">when {setting.condition}</span>}
+                            </div>
+                            {enabled && filter.supportsCondition && (
+                                <BreakpointField
+                                    label="Condition"
+                                    value={setting?.condition}
+                                    placeholder={filter.conditionDescription || 'Break only when this condition is met'}
+                                    onCommit={condition => setExceptionBreakpoint(filter.filter, { enabled, condition })}
+                                />
+                            )}
+                        </div>
+                    )
+                })}
+
+                <div className="bp-section">Functions</div>
+                {functions.map(bp => (
+                    <div key={bp.id} className="bp-item">
+                        <div className="bp-row">
+                            <input
+                                type="checkbox"
+                                checked={bp.enabled}
+                                onChange={e => updateFunctionBreakpoint(bp.id, { enabled: e.target.checked })}
+                            />
+                            <span className={glyphClass(bp)} />
+                            <span className="bp-name">{bp.name}</span>
+                            <span className="bp-detail">{describeBreakpoint(bp)}</span>
+                            <button className="bp-icon-btn" title="Edit Breakpoint" onClick={() => setExpanded(expanded === bp.id ? null : bp.id)}>
+                                <Pencil size={12} />
+                            </button>
+                            <button className="bp-icon-btn" title="Remove Breakpoint" onClick={() => removeFunctionBreakpoint(bp.id)}>
+                                <X size={13} />
+                            </button>
+                        </div>
+                        {expanded === bp.id && (
+                            <>
+                                <BreakpointField label="Expression" value={bp.condition} placeholder="Break when expression evaluates to true"
+                                    onCommit={condition => updateFunctionBreakpoint(bp.id, { condition })} />
+                                <BreakpointField label="Hit Count" value={bp.hitCondition} placeholder="e.g. '>= 5' or '% 2'"
+                                    onCommit={hitCondition => updateFunctionBreakpoint(bp.id, { hitCondition })} />
+                            </>
+                        )}
+                    </div>
+                ))}
+                <div className="bp-add">
+                    <Plus size={13} />
+                    <input
+                        value={newFunction}
+                        placeholder="Add function breakpoint"
+                        spellCheck={false}
+                        disabled={!workspacePath}
+                        onChange={e => setNewFunction(e.target.value)}
+                        onKeyDown={e => {
+                            if (e.key === 'Enter' && newFunction.trim()) {
+                                addFunctionBreakpoint(newFunction)
+                                setNewFunction('')
+                            }
+                        }}
+                    />
+                </div>
+
+                <div className="bp-section">Source</div>
+                {source.length === 0 && <div className="bp-empty">Click the editor gutter to add a breakpoint; right-click it for a condition or logpoint.</div>}
+                {source.map(bp => (
+                    <div key={bp.id} className="bp-item">
+                        <div className="bp-row">
+                            <input
+                                type="checkbox"
+                                checked={bp.enabled}
+                                onChange={e => updateBreakpoint(bp.id, { enabled: e.target.checked })}
+                            />
+                            <span className={glyphClass(bp)} />
+                            <span
+                                className="bp-name bp-link"
+                                title={bp.file}
+                                onClick={() => window.dispatchEvent(new CustomEvent('kalynt-open-file', { detail: { path: bp.file, line: bp.line } }))}
+                            >
+                                {toDisplayPath(bp.file)}:{bp.line}
+                            </span>
+                            <span className="bp-detail">{describeBreakpoint(bp)}</span>
+                            <button className="bp-icon-btn" title="Edit Breakpoint" onClick={() => setExpanded(expanded === bp.id ? null : bp.id)}>
+                                <Pencil size={12} />
+                            </button>
+                            <button className="bp-icon-btn" title="Remove Breakpoint" onClick={() => removeBreakpoint(bp.id)}>
+                                <X size={13} />
+                            </button>
+                        </div>
+                        {expanded === bp.id && (
+                            <>
+                                <BreakpointField label="Expression" value={bp.condition} placeholder="Break when expression evaluates to true"
+                                    onCommit={condition => updateBreakpoint(bp.id, { condition })} />
+                                <BreakpointField label="Hit Count" value={bp.hitCondition} placeholder="e.g. '>= 5' or '% 2'"
+                                    onCommit={hitCondition => updateBreakpoint(bp.id, { hitCondition })} />
+                                <BreakpointField label="Log Message" value={bp.logMessage} placeholder="Logs instead of breaking; {expressions} are interpolated"
+                                    onCommit={logMessage => updateBreakpoint(bp.id, { logMessage })} />
+                            </>
+                        )}
+                    </div>
+                ))}
+            </div>
+
+            <style>{`
+                .breakpoints-panel {
+                    position: fixed;
+                    right: 24px;
+                    bottom: 24px;
+                    z-index: 1900;
+                    width: 420px;
+                    max-height: 60vh;
+                    display: flex;
+                    flex-direction: column;
+                    background: rgba(10, 10, 15, 0.95);
+                    backdrop-filter: blur(20px);
+                    border: 1px solid rgba(255, 255, 255, 0.1);
+                    border-radius: 12px;
+                    box-shadow: 0 10px 30px rgba(0, 0, 0, 0.5);
+                    color: white;
+                }
+                .bp-header { display: flex; align-items: center; gap: 6px; padding: 10px 14px; border-bottom: 1px solid rgba(255, 255, 255, 0.08); }
+                .bp-title { flex: 1; font-size: 13px; font-weight: 700; }
+                .bp-body { overflow-y: auto; padding: 6px 0 10px; }
+                .bp-section { padding: 8px 14px 4px; font-size: 10px; font-weight: 700; letter-spacing: 0.06em; text-transform: uppercase; color: rgba(255, 255, 255, 0.4); }
+                .bp-empty { padding: 2px 14px 6px; font-size: 11px; color: rgba(255, 255, 255, 0.35); }
+                .bp-item { padding: 0 14px; }
+                .bp-row { display: flex; align-items: center; gap: 8px; min-height: 24px; font-size: 12px; }
+                .bp-name { white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+                .bp-link { cursor: pointer; }
+                .bp-link:hover { text-decoration: underline; }
+                .bp-detail { flex: 1; min-width: 0; font-size: 11px; color: rgba(255, 255, 255, 0.45); white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+                .bp-icon-btn { background: transparent; border: none; color: rgba(255, 255, 255, 0.5); cursor: pointer; display: flex; align-items: center; padding: 2px; }
+                .bp-icon-btn:hover { color: white; }
+                .bp-icon-btn:disabled { opacity: 0.3; cursor: default; }
+                .bp-glyph { flex-shrink: 0; width: 9px; height: 9px; border-radius: 50%; background: #e51400; }
+                .bp-glyph.conditional { background: linear-gradient(#e51400 35%, #fff 35%, #fff 65%, #e51400 65%); }
+                .bp-glyph.logpoint { border-radius: 1px; transform: rotate(45deg) scale(0.85); }
+                .bp-glyph.disabled { background: #848484; }
+                .bp-glyph.unverified { background: transparent; border: 2px solid #848484; }
+                .bp-field { display: flex; align-items: center; gap: 8px; padding: 2px 0 2px 24px; font-size: 11px; color: rgba(255, 255, 255, 0.5); }
+                .bp-field span { width: 72px; flex-shrink: 0; }
+                .bp-field input, .bp-add input {
+                    flex: 1; min-width: 0; padding: 3px 6px;
+                    background: rgba(255, 255, 255, 0.05); color: white;
+                    border: 1px solid rgba(255, 255, 255, 0.1); border-radius: 4px;
+                    font-family: var(--font-mono, monospace); font-size: 11px; outline: none;
+                }
+                .bp-field input:focus, .bp-add input:focus { border-color: #3b82f6; }
+                .bp-add { display: flex; align-items: center; gap: 8px; padding: 4px 14px; color: rgba(255, 255, 255, 0.4); }
+            `}</style>
+        </div>
     )
 }
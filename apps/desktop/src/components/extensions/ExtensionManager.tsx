@@ -8,14 +8,19 @@ import {
   Puzzle, Search, Download, Trash2, RefreshCw, 
   CheckCircle, XCircle, AlertCircle, Star, 
   TrendingUp, Package, ExternalLink,
-  Play, Square, ChevronDown, ChevronRight
+  Play, Square, ChevronDown, ChevronRight, Activity, Ban
 } from 'lucide-react'
 import { extensionService } from '../../services/extensions/extensionService'
-import { marketplaceService } from '../../services/extensions/marketplaceService'
+import { marketplaceService, DEFAULT_REGISTRY_URL } from '../../services/extensions/marketplaceService'
+import { formatKeybinding } from '../../services/ideCommands'
+import { getPlatform } from '../../utils/keybindings'
 import { ExtensionGallery, ExtensionContributes, ExtensionMetadata } from '../../types/extensions'
+import type { ExtensionHostStats } from '../../types/extensionHost'
 import './ExtensionManager.css'
 
-type ViewMode = 'installed' | 'marketplace' | 'recommended'
+type ViewMode = 'installed' | 'marketplace' | 'recommended' | 'running'
+
+const HOST_STATS_POLL_INTERVAL = 2000
 
 interface ExtensionManagerProps {
   onClose?: () => void
@@ -36,6 +41,7 @@ export const ExtensionManager: React.FC<ExtensionManagerProps> = ({ onClose }) =
   const [expandedSections, setExpandedSections] = useState<Set<string>>(new Set(['commands']))
   const [installing, setInstalling] = useState<Set<string>>(new Set())
   const [activating, setActivating] = useState<Set<string>>(new Set())
+  const [hostStats, setHostStats] = useState<ExtensionHostStats | null>(null)
 
   // Load initial data
   useEffect(() => {
@@ -60,12 +66,28 @@ export const ExtensionManager: React.FC<ExtensionManagerProps> = ({ onClose }) =
       })
     })
 
+    const unsubHostStatus = extensionService.onHostStatus(setHostStats)
+
     return () => {
       unsubActivate()
       unsubDeactivate()
+      unsubHostStatus()
     }
   }, [])
 
+  // Resource usage is only sampled while the Running tab is open
+  useEffect(() => {
+    if (viewMode !== 'running') return
+    const refresh = () => {
+      void extensionService.getHostStats().then(stats => {
+        if (stats) setHostStats(stats)
+      })
+    }
+    refresh()
+    const interval = setInterval(refresh, HOST_STATS_POLL_INTERVAL)
+    return () => clearInterval(interval)
+  }, [viewMode])
+
   // Load installed extensions
   const loadInstalledExtensions = async () => {
     setIsLoading(true)
@@ -161,6 +183,11 @@ export const ExtensionManager: React.FC<ExtensionManagerProps> = ({ onClose }) =
     }
   }
 
+  const dependentsTitle = (id: string): string | undefined => {
+    const dependents = extensionService.getDependents(id)
+    return dependents.length > 0 ? `Required by ${dependents.join(', ')}` : undefined
+  }
+
   // Activate extension
   const activateExtension = async (id: string) => {
     setActivating(prev => new Set([...prev, id]))
@@ -185,6 +212,27 @@ export const ExtensionManager: React.FC<ExtensionManagerProps> = ({ onClose }) =
     }
   }
 
+  const setExtensionEnabled = async (id: string, enabled: boolean) => {
+    try {
+      await extensionService.setExtensionEnabled(id, enabled)
+      setInstalled(extensionService.getExtensions())
+      const stats = await extensionService.getHostStats()
+      if (stats) setHostStats(stats)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${enabled ? 'enable' : 'disable'} extension`)
+    }
+  }
+
+  const restartHost = async () => {
+    try {
+      await extensionService.restartExtensionHost()
+      const stats = await extensionService.getHostStats()
+      if (stats) setHostStats(stats)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restart extension host')
+    }
+  }
+
   // Toggle section expansion
   const toggleSection = (section: string) => {
     setExpandedSections(prev => {
@@ -280,6 +328,13 @@ export const ExtensionManager: React.FC<ExtensionManagerProps> = ({ onClose }) =
           <Star size={16} />
           Recommended
         </button>
+        <button
+          className={viewMode === 'running' ? 'active' : ''}
+          onClick={() => setViewMode('running')}
+        >
+          <Activity size={16} />
+          Running
+        </button>
       </div>
 
       {/* Search */}
@@ -330,6 +385,12 @@ export const ExtensionManager: React.FC<ExtensionManagerProps> = ({ onClose }) =
                           Active
                         </span>
                       )}
+                      {ext.isDisabled && (
+                        <span className="badge disabled">
+                          <Ban size={12} />
+                          Disabled
+                        </span>
+                      )}
                       {ext.isBuiltin && (
                         <span className="badge builtin">Built-in</span>
                       )}
@@ -355,7 +416,8 @@ export const ExtensionManager: React.FC<ExtensionManagerProps> = ({ onClose }) =
                           e.stopPropagation()
                           activateExtension(ext.id)
                         }}
-                        disabled={activating.has(ext.id)}
+                        disabled={activating.has(ext.id) || ext.isDisabled}
+                        title={ext.isDisabled ? 'Enable the extension from the Running tab first' : undefined}
                       >
                         <Play size={14} />
                         Start
@@ -367,6 +429,8 @@ export const ExtensionManager: React.FC<ExtensionManagerProps> = ({ onClose }) =
                         e.stopPropagation()
                         uninstallExtension(ext.id)
                       }}
+                      disabled={extensionService.getDependents(ext.id).length > 0}
+                      title={dependentsTitle(ext.id) || 'Uninstall'}
                     >
                       <Trash2 size={14} />
                     </button>
@@ -460,6 +524,17 @@ export const ExtensionManager: React.FC<ExtensionManagerProps> = ({ onClose }) =
           </div>
         )}
 
+        {/* Running View */}
+        {viewMode === 'running' && (
+          <RunningExtensions
+            stats={hostStats}
+            names={new Map(installed.map(ext => [ext.id, ext.displayName || ext.name]))}
+            filter={searchQuery}
+            onSetEnabled={setExtensionEnabled}
+            onRestart={restartHost}
+          />
+        )}
+
         {/* Details Panel */}
         {selectedExtension && (
           <div className="extension-details">
@@ -497,6 +572,16 @@ export const ExtensionManager: React.FC<ExtensionManagerProps> = ({ onClose }) =
                 </div>
               </div>
 
+              {/* Dependencies */}
+              {'isActive' in selectedExtension && (
+                <DependencyList
+                  dependencies={selectedExtension.extensionDependencies}
+                  pack={selectedExtension.extensionPack}
+                  dependents={extensionService.getDependents(selectedExtension.id)}
+                  isInstalled={(id) => installed.some(ext => ext.id.toLowerCase() === id.toLowerCase())}
+                />
+              )}
+
               {/* Contributions */}
               {'contributes' in selectedExtension && selectedExtension.contributes && (
                 <div className="extension-contributions">
@@ -511,12 +596,16 @@ export const ExtensionManager: React.FC<ExtensionManagerProps> = ({ onClose }) =
                       </button>
                       {expandedSections.has('commands') && (
                         <ul className="section-content">
-                          {selectedExtension.contributes.commands.map((cmd: { command: string; title: string }) => (
-                            <li key={cmd.command}>
-                              <code>{cmd.command}</code>
-                              <span>{cmd.title}</span>
-                            </li>
-                          ))}
+                          {selectedExtension.contributes.commands.map((cmd: { command: string; title: string; category?: string }) => {
+                            const keybinding = selectedExtension.contributes?.keybindings?.find(kb => kb.command === cmd.command)
+                            return (
+                              <li key={cmd.command}>
+                                <code>{cmd.command}</code>
+                                <span>{cmd.category ? `${cmd.category}: ${cmd.title}` : cmd.title}</span>
+                                {keybinding && <kbd className="command-keybinding">{formatKeybinding(keybinding[getPlatform()] || keybinding.key)}</kbd>}
+                              </li>
+                            )
+                          })}
                         </ul>
                       )}
                     </div>
@@ -596,6 +685,8 @@ export const ExtensionManager: React.FC<ExtensionManagerProps> = ({ onClose }) =
                     <button 
                       className="btn-uninstall"
                       onClick={() => uninstallExtension(selectedExtension.id)}
+                      disabled={extensionService.getDependents(selectedExtension.id).length > 0}
+                      title={dependentsTitle(selectedExtension.id)}
                     >
                       <Trash2 size={16} />
                       Uninstall
@@ -622,8 +713,9 @@ export const ExtensionManager: React.FC<ExtensionManagerProps> = ({ onClose }) =
                 )}
               </div>
 
-              {/* Open in marketplace */}
-              {'publisher' in selectedExtension && 'name' in selectedExtension && (
+              {/* Open in marketplace (private registries have no public page) */}
+              {'publisher' in selectedExtension && 'name' in selectedExtension &&
+                marketplaceService.getRegistryUrl() === DEFAULT_REGISTRY_URL && (
                 <a 
                   href={`https://open-vsx.org/extension/${selectedExtension.id.replace('.', '/')}`}
                   target="_blank"
@@ -642,6 +734,167 @@ export const ExtensionManager: React.FC<ExtensionManagerProps> = ({ onClose }) =
   )
 }
 
+// Dependency List Component
+interface DependencyListProps {
+  dependencies?: string[]
+  pack?: string[]
+  dependents: string[]
+  isInstalled: (id: string) => boolean
+}
+
+const DependencyList: React.FC<DependencyListProps> = ({ dependencies = [], pack = [], dependents, isInstalled }) => {
+  const groups = [
+    { label: 'Dependencies', ids: dependencies },
+    { label: 'Extension Pack', ids: pack },
+    { label: 'Required By', ids: dependents }
+  ].filter(group => group.ids.length > 0)
+
+  if (groups.length === 0) return null
+
+  return (
+    <div className="extension-dependencies">
+      {groups.map(group => (
+        <div key={group.label} className="dependency-group">
+          <label>{group.label}</label>
+          <ul>
+            {group.ids.map(id => (
+              <li key={id} className={isInstalled(id) ? '' : 'missing'}>
+                <code>{id}</code>
+                {!isInstalled(id) && <span>not installed</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+// Running Extensions Component
+interface RunningExtensionsProps {
+  stats: ExtensionHostStats | null
+  names: Map<string, string>
+  filter: string
+  onSetEnabled: (id: string, enabled: boolean) => void
+  onRestart: () => void
+}
+
+const formatBytes = (bytes?: number): string => {
+  if (bytes === undefined) return '-'
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+const formatDuration = (ms: number): string => {
+  const seconds = Math.floor(ms / 1000)
+  if (seconds < 60) return `${seconds}s`
+  const minutes = Math.floor(seconds / 60)
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+}
+
+const RunningExtensions: React.FC<RunningExtensionsProps> = ({ stats, names, filter, onSetEnabled, onRestart }) => {
+  if (!stats) {
+    return (
+      <div className="extension-empty">
+        <Activity size={48} />
+        <p>Extension host statistics are not available</p>
+      </div>
+    )
+  }
+
+  const query = filter.toLowerCase()
+  const rows = stats.extensions
+    .filter(ext => ext.isActive || ext.isDisabled || ext.calls > 0 || ext.hangs > 0 || ext.crashes > 0)
+    .filter(ext => query === '' || ext.extensionId.toLowerCase().includes(query) || (names.get(ext.extensionId) || '').toLowerCase().includes(query))
+    .sort((a, b) => (b.hangs + b.crashes) - (a.hangs + a.crashes) || b.cpuTime - a.cpuTime)
+
+  return (
+    <div className="running-extensions">
+      <div className="host-summary">
+        <div className={`host-status ${stats.running ? 'running' : 'stopped'}`}>
+          {stats.running ? 'Running' : stats.restartPending ? 'Restarting...' : 'Stopped'}
+          {stats.pid !== undefined && <span>pid {stats.pid}</span>}
+        </div>
+        <div><label>Memory</label><span>{formatBytes(stats.memory?.rss)}</span></div>
+        <div><label>CPU</label><span>{stats.cpuPercent !== undefined ? `${stats.cpuPercent}%` : '-'}</span></div>
+        <div><label>Uptime</label><span>{stats.running ? formatDuration(stats.uptime) : '-'}</span></div>
+        <div><label>Restarts</label><span>{stats.restarts}</span></div>
+        <button className="btn-restart-host" onClick={onRestart} disabled={stats.restartPending}>
+          <RefreshCw size={14} />
+          Restart Host
+        </button>
+      </div>
+
+      {stats.lastIncident && (
+        <div className="host-incident">
+          <AlertCircle size={14} />
+          <span>
+            {stats.lastIncident.kind === 'crash' ? 'Host crashed' : 'Host was unresponsive'} at {new Date(stats.lastIncident.at).toLocaleTimeString()}
+            {' '}({stats.lastIncident.detail})
+            {stats.lastIncident.extensionId && <> while running <code>{stats.lastIncident.extensionId}</code></>}
+          </span>
+          {stats.lastIncident.extensionId && !stats.extensions.find(ext => ext.extensionId === stats.lastIncident?.extensionId)?.isDisabled && (
+            <button onClick={() => onSetEnabled(stats.lastIncident!.extensionId!, false)}>Disable</button>
+          )}
+        </div>
+      )}
+
+      <table className="running-extensions-table">
+        <thead>
+          <tr>
+            <th>Extension</th>
+            <th title="Time spent in activate()">Activation</th>
+            <th title="Heap growth during activate()">Act. Memory</th>
+            <th title="CPU time spent in commands, providers and activation">CPU</th>
+            <th>Calls</th>
+            <th>Errors</th>
+            <th title="Times the host stopped responding while running this extension">Hangs</th>
+            <th title="Host crashes while running this extension">Crashes</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(ext => (
+            <tr key={ext.extensionId} className={ext.hangs + ext.crashes > 0 ? 'offender' : ''}>
+              <td>
+                <div className="extension-item-name">{names.get(ext.extensionId) || ext.extensionId}</div>
+                <div className="extension-item-id">
+                  {ext.extensionId}
+                  {ext.isDisabled ? ' · disabled' : ext.isActive ? '' : ' · inactive'}
+                </div>
+              </td>
+              <td>{ext.activationTime !== undefined ? `${ext.activationTime} ms` : '-'}</td>
+              <td>{ext.activationMemory !== undefined ? formatBytes(ext.activationMemory) : '-'}</td>
+              <td>{ext.cpuTime} ms</td>
+              <td>{ext.calls}</td>
+              <td>{ext.errors}</td>
+              <td>{ext.hangs}</td>
+              <td>{ext.crashes}</td>
+              <td>
+                {ext.isDisabled ? (
+                  <button className="btn-activate" onClick={() => onSetEnabled(ext.extensionId, true)}>Enable</button>
+                ) : (
+                  <button className="btn-deactivate" onClick={() => onSetEnabled(ext.extensionId, false)}>
+                    <Ban size={14} />
+                    Disable
+                  </button>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {rows.length === 0 && (
+        <div className="extension-empty">
+          <Activity size={48} />
+          <p>No extensions have run yet</p>
+        </div>
+      )}
+    </div>
+  )
+}
+
 // Marketplace Item Component
 interface MarketplaceItemProps {
   extension: ExtensionGallery
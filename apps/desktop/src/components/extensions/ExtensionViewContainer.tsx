@@ -0,0 +1,235 @@
+/**
+ * Extension View Container Component
+ * Renders the tree views an extension contributes to an activity bar container.
+ * Tree data lives in the extension host; items are fetched lazily per node.
+ */
+
+import React, { useState, useEffect, useCallback, useRef } from 'react'
+import {
+  ChevronDown, ChevronRight, ChevronsDownUp, RefreshCw,
+  File, Folder, Circle
+} from 'lucide-react'
+import type { TreeItemDTO, TreeViewDTO, ViewContainerDTO } from '../../types/extensionHost'
+import { logger } from '../../utils/logger'
+import './ExtensionViews.css'
+
+const ROOT = ''
+
+const THEME_ICONS: Record<string, React.ReactNode> = {
+  file: <File size={14} />,
+  folder: <Folder size={14} />,
+  'circle-filled': <Circle size={10} fill="currentColor" />,
+  'circle-outline': <Circle size={10} />
+}
+
+interface ExtensionViewContainerProps {
+  container: ViewContainerDTO
+}
+
+export const ExtensionViewContainer: React.FC<ExtensionViewContainerProps> = ({ container }) => {
+  const [collapsedViews, setCollapsedViews] = useState<Set<string>>(new Set())
+
+  const toggleView = (id: string) => {
+    setCollapsedViews(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  return (
+    <div className="extension-view-container">
+      <div className="extension-view-container-title">{container.title}</div>
+      {container.views.map(view => (
+        <ExtensionTreeView
+          key={view.id}
+          view={view}
+          collapsed={collapsedViews.has(view.id)}
+          onToggle={() => toggleView(view.id)}
+        />
+      ))}
+    </div>
+  )
+}
+
+interface ExtensionTreeViewProps {
+  view: TreeViewDTO
+  collapsed: boolean
+  onToggle: () => void
+}
+
+const ExtensionTreeView: React.FC<ExtensionTreeViewProps> = ({ view, collapsed, onToggle }) => {
+  const [children, setChildren] = useState<Map<string, TreeItemDTO[]>>(new Map())
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+  const [selected, setSelected] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const expandedRef = useRef(expanded)
+  expandedRef.current = expanded
+  const childrenRef = useRef(children)
+  childrenRef.current = children
+
+  const loadChildren = useCallback(async (parentHandle: string) => {
+    const api = window.electronAPI?.extensions
+    if (!api?.treeChildren) return []
+    try {
+      const items = await api.treeChildren(view.id, parentHandle || undefined)
+      setChildren(prev => new Map(prev).set(parentHandle, items))
+      return items
+    } catch (error) {
+      logger.ide.warn(`Failed to load tree view ${view.id}`, error)
+      return []
+    }
+  }, [view.id])
+
+  // Reload the roots and every node the user still has open
+  const refresh = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const roots = await loadChildren(ROOT)
+      const initiallyExpanded = roots.filter(item => item.collapsibleState === 2).map(item => item.handle)
+      const open = new Set([...expandedRef.current, ...initiallyExpanded])
+      setExpanded(open)
+      await Promise.all(Array.from(open).map(handle => loadChildren(handle)))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [loadChildren])
+
+  useEffect(() => {
+    if (collapsed) return
+    void refresh()
+  }, [collapsed, view.registered, refresh])
+
+  useEffect(() => {
+    const api = window.electronAPI?.extensions
+    if (!api?.onTreeDataChanged) return
+
+    return api.onTreeDataChanged(({ viewId, handles }) => {
+      if (viewId !== view.id) return
+      if (!handles) {
+        void refresh()
+        return
+      }
+      // A changed element may have a new label, so reload the list it appears in as well
+      const parents = new Set<string>()
+      for (const [parent, items] of childrenRef.current) {
+        if (items.some(item => handles.includes(item.handle))) parents.add(parent)
+      }
+      handles.forEach(handle => { if (childrenRef.current.has(handle)) parents.add(handle) })
+      parents.forEach(parent => { void loadChildren(parent) })
+    })
+  }, [view.id, refresh, loadChildren])
+
+  useEffect(() => {
+    const api = window.electronAPI?.extensions
+    void api?.sendTreeViewEvent?.({ viewId: view.id, kind: 'visibility', visible: !collapsed })
+    return () => {
+      void api?.sendTreeViewEvent?.({ viewId: view.id, kind: 'visibility', visible: false })
+    }
+  }, [view.id, view.registered, collapsed])
+
+  const toggleItem = (item: TreeItemDTO) => {
+    const api = window.electronAPI?.extensions
+    const isOpen = expanded.has(item.handle)
+    setExpanded(prev => {
+      const next = new Set(prev)
+      if (isOpen) {
+        next.delete(item.handle)
+      } else {
+        next.add(item.handle)
+      }
+      return next
+    })
+    if (!isOpen && !children.has(item.handle)) {
+      void loadChildren(item.handle)
+    }
+    void api?.sendTreeViewEvent({ viewId: view.id, kind: isOpen ? 'collapse' : 'expand', handles: [item.handle] })
+  }
+
+  const selectItem = (item: TreeItemDTO) => {
+    const api = window.electronAPI?.extensions
+    setSelected(item.handle)
+    void api?.sendTreeViewEvent({ viewId: view.id, kind: 'selection', handles: [item.handle] })
+    if (item.command) {
+      void api?.activateTreeItem(view.id, item.handle)
+    } else if (item.collapsibleState !== 0) {
+      toggleItem(item)
+    }
+  }
+
+  const renderItems = (parentHandle: string, depth: number): React.ReactNode => {
+    const items = children.get(parentHandle) || []
+    return items.map(item => {
+      const isOpen = expanded.has(item.handle)
+      const isExpandable = item.collapsibleState !== 0
+      return (
+        <React.Fragment key={item.handle}>
+          <div
+            className={`extension-tree-item ${selected === item.handle ? 'selected' : ''}`}
+            style={{ paddingLeft: 8 + depth * 12 }}
+            title={item.tooltip || item.label}
+            onClick={() => selectItem(item)}
+          >
+            <span
+              className="extension-tree-twistie"
+              onClick={(e) => {
+                if (!isExpandable) return
+                e.stopPropagation()
+                toggleItem(item)
+              }}
+            >
+              {isExpandable && (isOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />)}
+            </span>
+            {item.themeIcon && THEME_ICONS[item.themeIcon] && (
+              <span className="extension-tree-icon">{THEME_ICONS[item.themeIcon]}</span>
+            )}
+            <span className="extension-tree-label">{item.label}</span>
+            {item.description && <span className="extension-tree-description">{item.description}</span>}
+          </div>
+          {isExpandable && isOpen && renderItems(item.handle, depth + 1)}
+        </React.Fragment>
+      )
+    })
+  }
+
+  const roots = children.get(ROOT) || []
+
+  return (
+    <div className={`extension-tree-view ${collapsed ? 'collapsed' : ''}`}>
+      <div className="extension-tree-view-header" onClick={onToggle}>
+        {collapsed ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+        <span className="extension-tree-view-name">{view.title || view.name}</span>
+        {view.description && <span className="extension-tree-description">{view.description}</span>}
+        {!collapsed && (
+          <div className="extension-tree-view-actions" onClick={(e) => e.stopPropagation()}>
+            {view.showCollapseAll && (
+              <button title="Collapse All" onClick={() => setExpanded(new Set())}>
+                <ChevronsDownUp size={14} />
+              </button>
+            )}
+            <button title="Refresh" onClick={() => void refresh()} disabled={isLoading}>
+              <RefreshCw size={14} className={isLoading ? 'spinning' : ''} />
+            </button>
+          </div>
+        )}
+      </div>
+      {!collapsed && (
+        <div className="extension-tree-view-body">
+          {view.message && <div className="extension-tree-message">{view.message}</div>}
+          {renderItems(ROOT, 0)}
+          {roots.length === 0 && !isLoading && !view.message && (
+            <div className="extension-tree-message">
+              {view.registered ? 'No items' : 'Waiting for the extension to provide data...'}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ExtensionViewContainer
@@ -0,0 +1,207 @@
+/**
+ * Extension Webview Panels Component
+ * Hosts the webview panels extensions open with `vscode.window.createWebviewPanel`.
+ * Each panel is an iframe sandboxed without same-origin access; the only channel
+ * to the extension is the `acquireVsCodeApi()` postMessage bridge injected below.
+ */
+
+import React, { useState, useEffect, useRef, useCallback } from 'react'
+import { X, Minimize2 } from 'lucide-react'
+import type { WebviewPanelDTO } from '../../types/extensionHost'
+import './ExtensionViews.css'
+
+interface BridgeMessage {
+  kalyntWebview: string
+  message?: unknown
+  state?: unknown
+}
+
+// JSON embedded in a <script> must not be able to close the tag
+function toScriptLiteral(value: unknown): string {
+  return JSON.stringify(value ?? null).replace(/</g, '\\u003c')
+}
+
+function buildWebviewDocument(panel: WebviewPanelDTO, state: unknown): string {
+  if (!panel.enableScripts) return panel.html
+
+  const bridge = `<script>(function () {
+  var handle = ${toScriptLiteral(panel.handle)};
+  var state = ${toScriptLiteral(state)};
+  var acquired = false;
+  window.acquireVsCodeApi = function () {
+    if (acquired) throw new Error('An instance of the VS Code API has already been acquired');
+    acquired = true;
+    return Object.freeze({
+      postMessage: function (message) { window.parent.postMessage({ kalyntWebview: handle, message: message }, '*'); },
+      getState: function () { return state; },
+      setState: function (value) { state = value; window.parent.postMessage({ kalyntWebview: handle, state: value }, '*'); return value; }
+    });
+  };
+})();</script>`
+
+  const headMatch = /<head[^>]*>/i.exec(panel.html)
+  if (headMatch) {
+    const index = headMatch.index + headMatch[0].length
+    return panel.html.slice(0, index) + bridge + panel.html.slice(index)
+  }
+  return bridge + panel.html
+}
+
+export const ExtensionWebviewPanels: React.FC = () => {
+  const [panels, setPanels] = useState<WebviewPanelDTO[]>([])
+  const [activeHandle, setActiveHandle] = useState<string | null>(null)
+  const [minimized, setMinimized] = useState(false)
+  const frames = useRef<Map<string, HTMLIFrameElement>>(new Map())
+  const states = useRef<Map<string, unknown>>(new Map())
+  const documents = useRef<Map<string, { html: string; enableScripts: boolean; srcDoc: string }>>(new Map())
+
+  // Rebuilding srcDoc reloads the frame, so only do it when the content actually changed
+  const getDocument = (panel: WebviewPanelDTO): string => {
+    const cached = documents.current.get(panel.handle)
+    if (cached && cached.html === panel.html && cached.enableScripts === panel.enableScripts) {
+      return cached.srcDoc
+    }
+    const srcDoc = buildWebviewDocument(panel, states.current.get(panel.handle))
+    documents.current.set(panel.handle, { html: panel.html, enableScripts: panel.enableScripts, srcDoc })
+    return srcDoc
+  }
+
+  useEffect(() => {
+    const api = window.electronAPI?.extensions
+    if (!api?.webviewPanels) return
+
+    api.webviewPanels().then(existing => {
+      setPanels(existing)
+      if (existing.length > 0) setActiveHandle(existing[existing.length - 1].handle)
+    }).catch(() => {})
+
+    const unsubscribers = [
+      api.onWebviewPanelCreated(panel => {
+        setPanels(prev => [...prev.filter(p => p.handle !== panel.handle), panel])
+        setActiveHandle(panel.handle)
+        setMinimized(false)
+      }),
+      api.onWebviewPanelUpdated(change => {
+        setPanels(prev => prev.map(p => p.handle === change.handle ? { ...p, ...change } : p))
+      }),
+      api.onWebviewPanelRevealed(({ handle }) => {
+        setActiveHandle(handle)
+        setMinimized(false)
+      }),
+      api.onWebviewPanelDisposed(({ handle }) => {
+        states.current.delete(handle)
+        documents.current.delete(handle)
+        setPanels(prev => prev.filter(p => p.handle !== handle))
+      }),
+      api.onWebviewPostMessage(({ handle, message }) => {
+        frames.current.get(handle)?.contentWindow?.postMessage(message, '*')
+      })
+    ]
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe())
+  }, [])
+
+  // Keep the active tab valid when panels close
+  useEffect(() => {
+    if (panels.length === 0) {
+      setActiveHandle(null)
+    } else if (!panels.some(p => p.handle === activeHandle)) {
+      setActiveHandle(panels[panels.length - 1].handle)
+    }
+  }, [panels, activeHandle])
+
+  // Messages from webviews; only frames we created are trusted
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      const data = event.data as BridgeMessage | undefined
+      if (!data || typeof data.kalyntWebview !== 'string') return
+      const frame = frames.current.get(data.kalyntWebview)
+      if (!frame || event.source !== frame.contentWindow) return
+
+      if ('state' in data) {
+        states.current.set(data.kalyntWebview, data.state)
+      } else {
+        void window.electronAPI?.extensions?.postWebviewMessage(data.kalyntWebview, data.message)
+      }
+    }
+    window.addEventListener('message', handleMessage)
+    return () => window.removeEventListener('message', handleMessage)
+  }, [])
+
+  useEffect(() => {
+    const api = window.electronAPI?.extensions
+    panels.forEach(panel => {
+      const isActive = panel.handle === activeHandle && !minimized
+      void api?.setWebviewViewState(panel.handle, isActive, isActive)
+    })
+  }, [panels, activeHandle, minimized])
+
+  const closePanel = useCallback((handle: string) => {
+    states.current.delete(handle)
+    documents.current.delete(handle)
+    setPanels(prev => prev.filter(p => p.handle !== handle))
+    void window.electronAPI?.extensions?.closeWebviewPanel(handle)
+  }, [])
+
+  if (panels.length === 0) return null
+
+  return (
+    <div className={`extension-webview-panels ${minimized ? 'minimized' : ''}`}>
+      <div className="extension-webview-tabs">
+        {panels.map(panel => (
+          <div
+            key={panel.handle}
+            className={`extension-webview-tab ${panel.handle === activeHandle ? 'active' : ''}`}
+            onClick={() => { setActiveHandle(panel.handle); setMinimized(false) }}
+            title={`${panel.title} (${panel.extensionId})`}
+          >
+            <span>{panel.title}</span>
+            <button
+              onClick={(e) => {
+                e.stopPropagation()
+                closePanel(panel.handle)
+              }}
+              title="Close"
+            >
+              <X size={12} />
+            </button>
+          </div>
+        ))}
+        <button className="extension-webview-minimize" onClick={() => setMinimized(true)} title="Back to Editor">
+          <Minimize2 size={14} />
+        </button>
+      </div>
+      <div className="extension-webview-body">
+        {panels.map(panel => {
+          const isActive = panel.handle === activeHandle && !minimized
+          // Hidden panels are torn down unless the extension asked to keep their context
+          if (!isActive && !panel.retainContextWhenHidden) {
+            documents.current.delete(panel.handle)
+            return null
+          }
+          const sandbox = [panel.enableScripts && 'allow-scripts', panel.enableForms && 'allow-forms']
+            .filter(Boolean)
+            .join(' ')
+          return (
+            <iframe
+              key={panel.handle}
+              ref={(frame) => {
+                if (frame) {
+                  frames.current.set(panel.handle, frame)
+                } else {
+                  frames.current.delete(panel.handle)
+                }
+              }}
+              className="extension-webview-frame"
+              style={{ display: isActive ? 'block' : 'none' }}
+              title={panel.title}
+              sandbox={sandbox}
+              srcDoc={getDocument(panel)}
+            />
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+export default ExtensionWebviewPanels
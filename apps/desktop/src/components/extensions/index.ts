@@ -4,3 +4,5 @@
 
 export { ExtensionManager } from './ExtensionManager'
 export { DebuggerManager } from './DebuggerManager'
+export { ExtensionViewContainer } from './ExtensionViewContainer'
+export { ExtensionWebviewPanels } from './ExtensionWebviewPanels'
@@ -1,15 +1,16 @@
 /*
  * SPDX-License-Identifier: AGPL-3.0-only
  */
-import { Folder, FileCode, FileJson, FileText, FileEdit, Palette, Globe, FileImage, Terminal, ChevronRight } from 'lucide-react'
+import { Folder, FileCode, FileJson, FileText, FileEdit, Palette, Globe, FileImage, Terminal, ChevronRight, History } from 'lucide-react'
 
 interface BreadcrumbsProps {
   filePath: string | null
   workspacePath: string | null
   onNavigate?: (path: string) => void
+  onShowHistory?: () => void
 }
 
-export default function Breadcrumbs({ filePath, workspacePath, onNavigate }: BreadcrumbsProps) {
+export default function Breadcrumbs({ filePath, workspacePath, onNavigate, onShowHistory }: BreadcrumbsProps) {
   if (!filePath) return null
 
   // Get relative path from workspace
@@ -97,6 +98,12 @@ export default function Breadcrumbs({ filePath, workspacePath, onNavigate }: Bre
         </span>
       ))}
 
+      {onShowHistory && workspacePath && (
+        <button className="breadcrumb-history" onClick={onShowHistory} title="File History">
+          <History size={14} />
+        </button>
+      )}
+
       <style>{`
         .breadcrumbs {
           display: flex;
@@ -158,6 +165,22 @@ export default function Breadcrumbs({ filePath, workspacePath, onNavigate }: Bre
           text-overflow: ellipsis;
         }
 
+        .breadcrumb-history {
+          display: flex;
+          margin-left: auto;
+          padding: 3px 6px;
+          border: none;
+          border-radius: 4px;
+          background: none;
+          color: var(--color-text-muted, #888);
+          cursor: pointer;
+        }
+
+        .breadcrumb-history:hover {
+          background: var(--color-bg, #1e1e1e);
+          color: var(--color-text, #ccc);
+        }
+
         .separator {
           margin: 0 2px;
           color: var(--color-text-muted, #555);
@@ -0,0 +1,162 @@
+/*
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+import { useState, useRef, useEffect } from 'react'
+import { Circle, X } from 'lucide-react'
+import type { BreakpointChanges } from '../../stores/breakpointStore'
+
+export type BreakpointEditField = 'condition' | 'hitCondition' | 'logMessage'
+
+interface BreakpointEditWidgetProps {
+  visible: boolean
+  line: number
+  // The field to show first; the others keep their values while switching
+  initialField: BreakpointEditField
+  values: BreakpointChanges
+  position: { top: number; left: number }
+  onSave: (changes: BreakpointChanges) => void
+  onCancel: () => void
+}
+
+const FIELDS: Record<BreakpointEditField, { label: string; placeholder: string }> = {
+  condition: { label: 'Expression', placeholder: "Break when expression evaluates to true, e.g. 'i > 10'" },
+  hitCondition: { label: 'Hit Count', placeholder: "Break when hit count condition is met, e.g. '>= 5' or '% 2'" },
+  logMessage: { label: 'Log Message', placeholder: "Message to log when breakpoint is hit. Expressions within {} are interpolated" }
+}
+
+export default function BreakpointEditWidget({
+  visible,
+  line,
+  initialField,
+  values,
+  position,
+  onSave,
+  onCancel
+}: BreakpointEditWidgetProps) {
+  const [field, setField] = useState<BreakpointEditField>(initialField)
+  const [draft, setDraft] = useState<Record<BreakpointEditField, string>>({ condition: '', hitCondition: '', logMessage: '' })
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  // Reset state when widget opens
+  useEffect(() => {
+    if (visible) {
+      setField(initialField)
+      setDraft({
+        condition: values.condition || '',
+        hitCondition: values.hitCondition || '',
+        logMessage: values.logMessage || ''
+      })
+    }
+  }, [visible, line, initialField, values])
+
+  useEffect(() => {
+    if (visible && inputRef.current) {
+      inputRef.current.focus()
+    }
+  }, [visible, field])
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      onSave({ ...draft })
+    }
+    if (e.key === 'Escape') {
+      onCancel()
+    }
+  }
+
+  if (!visible) return null
+
+  return (
+    <div
+      className="breakpoint-edit-widget"
+      style={{ top: position.top, left: position.left }}
+    >
+      <span className="breakpoint-edit-line"><Circle size={10} /> Line {line}</span>
+      <select
+        className="breakpoint-edit-kind"
+        value={field}
+        onChange={e => setField(e.target.value as BreakpointEditField)}
+      >
+        {(Object.keys(FIELDS) as BreakpointEditField[]).map(key => (
+          <option key={key} value={key}>{FIELDS[key].label}</option>
+        ))}
+      </select>
+      <input
+        ref={inputRef}
+        type="text"
+        value={draft[field]}
+        onChange={e => setDraft(prev => ({ ...prev, [field]: e.target.value }))}
+        onKeyDown={handleKeyDown}
+        placeholder={FIELDS[field].placeholder}
+        className="breakpoint-edit-input"
+        spellCheck={false}
+      />
+      <button className="breakpoint-edit-close" onClick={onCancel} title="Cancel (Esc)"><X size={14} /></button>
+
+      <style>{`
+        .breakpoint-edit-widget {
+          position: fixed;
+          z-index: 1000;
+          display: flex;
+          align-items: center;
+          gap: 8px;
+          width: 560px;
+          padding: 6px 8px;
+          background: var(--color-surface, #252526);
+          border: 1px solid #e51400;
+          border-radius: 6px;
+          box-shadow: 0 8px 32px rgba(0, 0, 0, 0.5);
+        }
+
+        .breakpoint-edit-line {
+          display: flex;
+          align-items: center;
+          gap: 4px;
+          font-size: 11px;
+          color: #e51400;
+          white-space: nowrap;
+        }
+
+        .breakpoint-edit-kind {
+          background: var(--color-bg, #1e1e1e);
+          color: var(--color-text, #ccc);
+          border: 1px solid var(--color-border, #3c3c3c);
+          border-radius: 4px;
+          font-size: 12px;
+          padding: 3px 4px;
+        }
+
+        .breakpoint-edit-input {
+          flex: 1;
+          min-width: 0;
+          background: var(--color-bg, #1e1e1e);
+          color: var(--color-text, #ccc);
+          border: 1px solid var(--color-border, #3c3c3c);
+          border-radius: 4px;
+          font-family: var(--font-mono, monospace);
+          font-size: 12px;
+          padding: 4px 8px;
+          outline: none;
+        }
+
+        .breakpoint-edit-input:focus {
+          border-color: var(--color-accent, #0e639c);
+        }
+
+        .breakpoint-edit-close {
+          background: none;
+          border: none;
+          color: var(--color-text-muted, #888);
+          cursor: pointer;
+          display: flex;
+          align-items: center;
+        }
+
+        .breakpoint-edit-close:hover {
+          color: var(--color-text, #ccc);
+        }
+      `}</style>
+    </div>
+  )
+}
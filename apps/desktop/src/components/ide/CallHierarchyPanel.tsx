@@ -0,0 +1,234 @@
+/*
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+import { useState, useEffect } from 'react'
+import { ArrowDownLeft, ArrowUpRight, ChevronRight, ChevronDown, Network, RefreshCw } from 'lucide-react'
+import { symbolService, type Symbol, type CallHierarchyItem } from '../../services/symbolService'
+
+type Direction = 'incoming' | 'outgoing'
+
+interface CallHierarchyPanelProps {
+    readonly root: Symbol | null
+    readonly workspacePath: string | null
+    readonly onOpenLocation: (path: string, line: number) => void
+}
+
+function displayPath(filePath: string, workspacePath: string | null): string {
+    const normalized = filePath.replace(/\\/g, '/')
+    const base = workspacePath?.replace(/\\/g, '/').replace(/\/$/, '')
+    return base && normalized.startsWith(base + '/') ? normalized.slice(base.length + 1) : normalized
+}
+
+interface HierarchyNodeProps {
+    readonly item: CallHierarchyItem
+    readonly direction: Direction
+    readonly depth: number
+    // Ids on the path from the root, so recursive calls stop expanding
+    readonly ancestors: ReadonlySet<string>
+    readonly workspacePath: string | null
+    readonly onOpenLocation: (path: string, line: number) => void
+}
+
+function HierarchyNode({ item, direction, depth, ancestors, workspacePath, onOpenLocation }: HierarchyNodeProps) {
+    const [expanded, setExpanded] = useState(false)
+    const { symbol, calls } = item
+    const recursive = ancestors.has(symbol.id)
+    // Children are only looked up once the node is opened
+    const children = expanded && !recursive ? symbolService.getCallHierarchy(symbol.id, direction) : []
+    // Incoming calls live in the caller, outgoing ones in the parent
+    const site = calls[0]
+
+    return (
+        <>
+            <div
+                className="call-hierarchy-row"
+                style={{ paddingLeft: 8 + depth * 14 }}
+                onClick={() => site ? onOpenLocation(site.filePath, site.line) : onOpenLocation(symbol.filePath, symbol.location.line)}
+                onDoubleClick={() => onOpenLocation(symbol.filePath, symbol.location.line)}
+                title={`${displayPath(symbol.filePath, workspacePath)}:${symbol.location.line}\nClick to open the call site, double-click for the definition`}
+            >
+                <button
+                    className="call-hierarchy-toggle"
+                    onClick={e => { e.stopPropagation(); setExpanded(prev => !prev) }}
+                    disabled={recursive}
+                >
+                    {recursive ? null : expanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                </button>
+                <span className="call-hierarchy-name">{symbol.name}</span>
+                <span className="call-hierarchy-type">{symbol.type}</span>
+                <span className="call-hierarchy-location">
+                    {displayPath(symbol.filePath, workspacePath)}:{symbol.location.line}
+                </span>
+                {calls.length > 1 && <span className="call-hierarchy-count">{calls.length}</span>}
+            </div>
+            {expanded && children.length === 0 && !recursive && (
+                <div className="call-hierarchy-leaf" style={{ paddingLeft: 30 + depth * 14 }}>
+                    {direction === 'incoming' ? 'No callers' : 'No calls'}
+                </div>
+            )}
+            {children.map(child => (
+                <HierarchyNode
+                    key={child.symbol.id}
+                    item={child}
+                    direction={direction}
+                    depth={depth + 1}
+                    ancestors={new Set([...ancestors, symbol.id])}
+                    workspacePath={workspacePath}
+                    onOpenLocation={onOpenLocation}
+                />
+            ))}
+        </>
+    )
+}
+
+/**
+ * Callers and callees of one symbol, read from the symbol graph that the
+ * AIME index keeps up to date. Nodes expand lazily so large graphs stay cheap.
+ */
+export default function CallHierarchyPanel({ root, workspacePath, onOpenLocation }: CallHierarchyPanelProps) {
+    const [direction, setDirection] = useState<Direction>('incoming')
+    const [items, setItems] = useState<CallHierarchyItem[]>([])
+    const [generation, setGeneration] = useState(0)
+
+    useEffect(() => {
+        setItems(root ? symbolService.getCallHierarchy(root.id, direction) : [])
+    }, [root, direction, generation])
+
+    return (
+        <div className="call-hierarchy-panel">
+            <div className="call-hierarchy-header">
+                <span className="call-hierarchy-heading">Call Hierarchy</span>
+                <div className="call-hierarchy-actions">
+                    <button
+                        className={`call-hierarchy-action ${direction === 'incoming' ? 'active' : ''}`}
+                        onClick={() => setDirection('incoming')}
+                        title="Show Incoming Calls"
+                    >
+                        <ArrowDownLeft size={14} />
+                    </button>
+                    <button
+                        className={`call-hierarchy-action ${direction === 'outgoing' ? 'active' : ''}`}
+                        onClick={() => setDirection('outgoing')}
+                        title="Show Outgoing Calls"
+                    >
+                        <ArrowUpRight size={14} />
+                    </button>
+                    <button
+                        className="call-hierarchy-action"
+                        onClick={() => setGeneration(prev => prev + 1)}
+                        title="Refresh"
+                        disabled={!root}
+                    >
+                        <RefreshCw size={14} />
+                    </button>
+                </div>
+            </div>
+
+            {!root ? (
+                <div className="call-hierarchy-empty">
+                    <Network size={28} />
+                    <p>Run &quot;Show Call Hierarchy&quot; on a function to see its callers and callees.</p>
+                </div>
+            ) : (
+                <div className="call-hierarchy-tree" key={`${root.id}:${direction}:${generation}`}>
+                    <div
+                        className="call-hierarchy-row root"
+                        onClick={() => onOpenLocation(root.filePath, root.location.line)}
+                        title={`${displayPath(root.filePath, workspacePath)}:${root.location.line}`}
+                    >
+                        {direction === 'incoming' ? <ArrowDownLeft size={14} /> : <ArrowUpRight size={14} />}
+                        <span className="call-hierarchy-name">{root.name}</span>
+                        <span className="call-hierarchy-type">{root.type}</span>
+                        <span className="call-hierarchy-location">
+                            {displayPath(root.filePath, workspacePath)}:{root.location.line}
+                        </span>
+                    </div>
+                    {items.length === 0 && (
+                        <div className="call-hierarchy-leaf" style={{ paddingLeft: 22 }}>
+                            {direction === 'incoming' ? 'No callers found in the index' : 'No calls found in the index'}
+                        </div>
+                    )}
+                    {items.map(item => (
+                        <HierarchyNode
+                            key={item.symbol.id}
+                            item={item}
+                            direction={direction}
+                            depth={1}
+                            ancestors={new Set([root.id])}
+                            workspacePath={workspacePath}
+                            onOpenLocation={onOpenLocation}
+                        />
+                    ))}
+                </div>
+            )}
+
+            <style>{callHierarchyStyles}</style>
+        </div>
+    )
+}
+
+const callHierarchyStyles = `
+    .call-hierarchy-panel {
+        display: flex; flex-direction: column; height: 100%;
+        background: var(--color-surface); font-size: 13px;
+    }
+
+    .call-hierarchy-header {
+        display: flex; align-items: center; justify-content: space-between;
+        padding: 8px 12px; border-bottom: 1px solid var(--color-border-subtle);
+    }
+
+    .call-hierarchy-heading {
+        font-size: 11px; font-weight: 700; text-transform: uppercase;
+        color: var(--color-text-muted); letter-spacing: 0.04em;
+    }
+
+    .call-hierarchy-actions { display: flex; gap: 2px; }
+
+    .call-hierarchy-action {
+        display: flex; align-items: center; justify-content: center;
+        width: 24px; height: 24px; border-radius: 4px;
+        background: none; border: none; color: var(--color-text-muted); cursor: pointer;
+    }
+
+    .call-hierarchy-action:hover:not(:disabled) { background: rgba(255, 255, 255, 0.06); }
+    .call-hierarchy-action.active { color: var(--color-accent); background: rgba(255, 255, 255, 0.06); }
+    .call-hierarchy-action:disabled { opacity: 0.4; cursor: default; }
+
+    .call-hierarchy-tree { flex: 1; overflow-y: auto; padding: 4px 0; }
+
+    .call-hierarchy-row {
+        display: flex; align-items: center; gap: 6px;
+        padding: 3px 8px; cursor: pointer; white-space: nowrap; min-width: 0;
+    }
+
+    .call-hierarchy-row:hover { background: rgba(255, 255, 255, 0.04); }
+    .call-hierarchy-row.root { color: var(--color-accent); }
+
+    .call-hierarchy-toggle {
+        display: flex; align-items: center; justify-content: center;
+        width: 16px; height: 16px; padding: 0; flex-shrink: 0;
+        background: none; border: none; color: var(--color-text-muted); cursor: pointer;
+    }
+
+    .call-hierarchy-name { font-family: var(--font-mono, monospace); font-weight: 600; }
+    .call-hierarchy-type { font-size: 11px; color: var(--color-text-muted); }
+    .call-hierarchy-location {
+        font-size: 11px; color: var(--color-text-muted); opacity: 0.7;
+        overflow: hidden; text-overflow: ellipsis;
+    }
+
+    .call-hierarchy-count {
+        margin-left: auto; padding: 0 6px; border-radius: 8px;
+        font-size: 10px; background: rgba(255, 255, 255, 0.08); color: var(--color-text-muted);
+    }
+
+    .call-hierarchy-leaf { padding: 3px 8px; font-size: 12px; font-style: italic; color: var(--color-text-muted); }
+
+    .call-hierarchy-empty {
+        flex: 1; display: flex; flex-direction: column; align-items: center; justify-content: center;
+        gap: 10px; padding: 24px; text-align: center; color: var(--color-text-muted);
+    }
+
+    .call-hierarchy-empty p { margin: 0; font-size: 12px; }
+`
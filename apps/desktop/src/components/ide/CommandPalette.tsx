@@ -14,8 +14,10 @@ export interface IDECommand {
     id: string
     title: string
     shortcut?: string
-    category: 'file' | 'edit' | 'view' | 'terminal' | 'git' | 'ai'
-    action: () => void | Promise<void>
+    // Keybinding `when` clause of extension commands
+    when?: string
+    category: 'file' | 'edit' | 'view' | 'terminal' | 'git' | 'ai' | 'extension'
+    action: (...args: unknown[]) => void | Promise<void>
     icon?: string | React.ReactNode
 }
 
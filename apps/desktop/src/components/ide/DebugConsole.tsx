@@ -0,0 +1,476 @@
+/*
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+import React, { useState, useEffect, useRef, useCallback } from 'react'
+import { ChevronRight, ChevronDown, Eye, X } from 'lucide-react'
+import { useNotificationStore } from '../../stores/notificationStore'
+import type {
+    CompletionItem,
+    DataBreakpoint,
+    DebugCapabilities,
+    EvaluateResult,
+    StackFrame,
+    Variable
+} from '../../types/debug'
+
+/**
+ * Debug Console
+ * REPL for the running debug session: evaluates in the 'repl' context of the
+ * selected stack frame, offers the adapter's completions, lets values be edited
+ * and sets data breakpoints ("Break on Value Change") on variables.
+ */
+
+interface DebugConsoleProps {
+    sessionId: string | null
+}
+
+interface ConsoleEntry {
+    id: number
+    expression: string
+    result?: EvaluateResult
+    error?: string
+}
+
+interface ValueNodeProps {
+    sessionId: string
+    name: string
+    value: string
+    type?: string
+    // Children of this value, 0 when it has none
+    variablesReference: number
+    // Container holding this value, needed for setVariable and dataBreakpointInfo
+    containerReference?: number
+    // Expression that evaluates to this value, needed for setExpression
+    expression?: string
+    frameId?: number
+    capabilities: DebugCapabilities
+    depth: number
+    onAddDataBreakpoint: (name: string, containerReference: number) => void
+}
+
+const debugApi = () => window.electronAPI?.debug
+
+const ValueNode: React.FC<ValueNodeProps> = ({
+    sessionId,
+    name,
+    value: initialValue,
+    type,
+    variablesReference: initialReference,
+    containerReference,
+    expression,
+    frameId,
+    capabilities,
+    depth,
+    onAddDataBreakpoint
+}) => {
+    const { addNotification } = useNotificationStore()
+    const [value, setValue] = useState(initialValue)
+    const [variablesReference, setVariablesReference] = useState(initialReference)
+    const [expanded, setExpanded] = useState(false)
+    const [children, setChildren] = useState<Variable[] | null>(null)
+    const [editing, setEditing] = useState<string | null>(null)
+
+    const canSetVariable = containerReference !== undefined && !!capabilities.supportsSetVariable
+    const canSetExpression = !!expression && !!capabilities.supportsSetExpression
+    const canEdit = canSetVariable || canSetExpression
+
+    const toggle = async () => {
+        if (!variablesReference) return
+        if (!expanded && children === null) {
+            const result = await debugApi()?.getVariables(sessionId, variablesReference)
+            if (result?.success) {
+                setChildren(result.variables || [])
+            } else {
+                addNotification(`Failed to load variables: ${result?.error}`, 'error')
+                return
+            }
+        }
+        setExpanded(prev => !prev)
+    }
+
+    const commitEdit = async () => {
+        if (editing === null) return
+        const newValue = editing
+        setEditing(null)
+        if (newValue === value) return
+
+        // Variables in a container go through setVariable; evaluated expressions through setExpression
+        const result = canSetVariable
+            ? await debugApi()?.setVariable(sessionId, containerReference!, name, newValue)
+            : await debugApi()?.setExpression(sessionId, expression!, newValue, frameId)
+
+        if (result?.success && result.result) {
+            setValue(result.result.value)
+            setVariablesReference(result.result.variablesReference || 0)
+            setChildren(null)
+            setExpanded(false)
+        } else {
+            addNotification(`Failed to set value: ${result?.error}`, 'error')
+        }
+    }
+
+    return (
+        <div className="debug-value">
+            <div className="debug-value-row" style={{ paddingLeft: depth * 14 }}>
+                <span className="debug-value-toggle" onClick={toggle}>
+                    {variablesReference > 0 && (expanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />)}
+                </span>
+                {name && <span className="debug-value-name">{name}:</span>}
+                {editing !== null ? (
+                    <input
+                        className="debug-value-input"
+                        autoFocus
+                        value={editing}
+                        spellCheck={false}
+                        onChange={e => setEditing(e.target.value)}
+                        onBlur={() => setEditing(null)}
+                        onKeyDown={e => {
+                            if (e.key === 'Enter') void commitEdit()
+                            if (e.key === 'Escape') setEditing(null)
+                        }}
+                    />
+                ) : (
+                    <span
+                        className={`debug-value-text ${canEdit ? 'editable' : ''}`}
+                        title={canEdit ? `${type ? `${type} - ` : ''}Double-click to edit` : type}
+                        onDoubleClick={() => canEdit && setEditing(value)}
+                    >
+                        {value}
+                    </span>
+                )}
+                {capabilities.supportsDataBreakpoints && containerReference !== undefined && (
+                    <button
+                        className="debug-value-action"
+                        title="Break on Value Change"
+                        onClick={() => onAddDataBreakpoint(name, containerReference)}
+                    >
+                        <Eye size={12} />
+                    </button>
+                )}
+            </div>
+            {expanded && children?.map(child => (
+                <ValueNode
+                    key={`${child.name}-${child.variablesReference ?? 0}`}
+                    sessionId={sessionId}
+                    name={child.name}
+                    value={child.value}
+                    type={child.type}
+                    variablesReference={child.variablesReference || 0}
+                    containerReference={variablesReference}
+                    expression={child.evaluateName}
+                    frameId={frameId}
+                    capabilities={capabilities}
+                    depth={depth + 1}
+                    onAddDataBreakpoint={onAddDataBreakpoint}
+                />
+            ))}
+        </div>
+    )
+}
+
+export const DebugConsole: React.FC<DebugConsoleProps> = ({ sessionId }) => {
+    const { addNotification } = useNotificationStore()
+    const [entries, setEntries] = useState<ConsoleEntry[]>([])
+    const [input, setInput] = useState('')
+    const [history, setHistory] = useState<string[]>([])
+    const [historyIndex, setHistoryIndex] = useState(-1)
+    const [frames, setFrames] = useState<StackFrame[]>([])
+    const [frameId, setFrameId] = useState<number | undefined>(undefined)
+    const [capabilities, setCapabilities] = useState<DebugCapabilities>({})
+    const [completions, setCompletions] = useState<CompletionItem[]>([])
+    const [selectedCompletion, setSelectedCompletion] = useState(0)
+    const [dataBreakpoints, setDataBreakpoints] = useState<DataBreakpoint[]>([])
+    const inputRef = useRef<HTMLInputElement>(null)
+    const listRef = useRef<HTMLDivElement>(null)
+    const entryIdRef = useRef(0)
+    const completionTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+    // Reset per session; capabilities may also arrive later through the 'capabilities' event
+    useEffect(() => {
+        setFrames([])
+        setFrameId(undefined)
+        setCompletions([])
+        setDataBreakpoints([])
+        setCapabilities({})
+        if (!sessionId) return
+
+        debugApi()?.getCapabilities(sessionId).then((result: { success: boolean; capabilities?: DebugCapabilities }) => {
+            if (result?.success && result.capabilities) setCapabilities(result.capabilities)
+        }).catch(() => {})
+
+        const unsubscribers = [
+            debugApi()?.onCapabilities((data: { sessionId: string; capabilities: DebugCapabilities }) => {
+                if (data.sessionId === sessionId) setCapabilities(data.capabilities)
+            }),
+            debugApi()?.onStopped(async (data: { threadId?: number }) => {
+                const result = await debugApi()?.getCallStack(sessionId, data?.threadId)
+                const stack: StackFrame[] = result?.success ? result.callStack || [] : []
+                setFrames(stack)
+                setFrameId(stack[0]?.id)
+            }),
+            // Frame ids are only valid while the program is stopped
+            debugApi()?.onContinued(() => {
+                setFrames([])
+                setFrameId(undefined)
+            })
+        ]
+        return () => unsubscribers.forEach(unsubscribe => unsubscribe?.())
+    }, [sessionId])
+
+    useEffect(() => {
+        listRef.current?.scrollTo({ top: listRef.current.scrollHeight })
+    }, [entries])
+
+    const requestCompletions = useCallback((text: string, cursor: number) => {
+        if (completionTimerRef.current) clearTimeout(completionTimerRef.current)
+        if (!sessionId || !capabilities.supportsCompletionsRequest || !text.trim()) {
+            setCompletions([])
+            return
+        }
+
+        completionTimerRef.current = setTimeout(async () => {
+            const result = await debugApi()?.completions(sessionId, text, cursor + 1, frameId)
+            const targets: CompletionItem[] = result?.success ? result.targets || [] : []
+            setCompletions(targets
+                .slice()
+                .sort((a, b) => (a.sortText || a.label).localeCompare(b.sortText || b.label))
+                .slice(0, 50))
+            setSelectedCompletion(0)
+        }, 150)
+    }, [sessionId, capabilities.supportsCompletionsRequest, frameId])
+
+    useEffect(() => () => {
+        if (completionTimerRef.current) clearTimeout(completionTimerRef.current)
+    }, [])
+
+    const applyCompletion = (item: CompletionItem) => {
+        const cursor = inputRef.current?.selectionStart ?? input.length
+        const text = item.text ?? item.label
+        let from: number
+        let to: number
+        if (item.start !== undefined) {
+            from = item.start - 1
+            to = from + (item.length ?? 0)
+        } else {
+            // Without a range, replace the word being typed
+            const word = /[\w$]*$/.exec(input.slice(0, cursor))?.[0] || ''
+            from = cursor - word.length
+            to = cursor
+        }
+        const next = input.slice(0, from) + text + input.slice(to)
+        const caret = from + (item.selectionStart ?? text.length)
+        setInput(next)
+        setCompletions([])
+        requestAnimationFrame(() => inputRef.current?.setSelectionRange(caret, caret))
+    }
+
+    const evaluate = async () => {
+        const expression = input.trim()
+        if (!expression || !sessionId) return
+
+        setInput('')
+        setCompletions([])
+        setHistory(prev => [...prev.filter(item => item !== expression), expression])
+        setHistoryIndex(-1)
+
+        const id = ++entryIdRef.current
+        const result = await debugApi()?.evaluate(sessionId, expression, frameId, 'repl')
+        setEntries(prev => [
+            ...prev,
+            result?.success ? { id, expression, result: result.result } : { id, expression, error: result?.error || 'Evaluation failed' }
+        ])
+    }
+
+    const addDataBreakpoint = useCallback(async (name: string, containerReference: number) => {
+        if (!sessionId) return
+        const infoResult = await debugApi()?.dataBreakpointInfo(sessionId, name, containerReference)
+        const info = infoResult?.info
+        if (!infoResult?.success || !info?.dataId) {
+            addNotification(info?.description || infoResult?.error || `Cannot break on changes of ${name}`, 'warning')
+            return
+        }
+        if (dataBreakpoints.some(bp => bp.dataId === info.dataId)) return
+
+        const accessType = !info.accessTypes || info.accessTypes.includes('write') ? 'write' : info.accessTypes[0]
+        const next = [...dataBreakpoints, { dataId: info.dataId, description: info.description, accessType }]
+        const result = await debugApi()?.setDataBreakpoints(sessionId, next)
+        if (result?.success) {
+            setDataBreakpoints(result.breakpoints || next)
+        } else {
+            addNotification(`Failed to set data breakpoint: ${result?.error}`, 'error')
+        }
+    }, [sessionId, dataBreakpoints, addNotification])
+
+    const removeDataBreakpoint = async (dataId: string) => {
+        if (!sessionId) return
+        const next = dataBreakpoints.filter(bp => bp.dataId !== dataId)
+        const result = await debugApi()?.setDataBreakpoints(sessionId, next)
+        if (result?.success) {
+            setDataBreakpoints(result.breakpoints || next)
+        }
+    }
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (completions.length > 0) {
+            if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                e.preventDefault()
+                const delta = e.key === 'ArrowDown' ? 1 : -1
+                setSelectedCompletion(prev => (prev + delta + completions.length) % completions.length)
+                return
+            }
+            if (e.key === 'Tab' || e.key === 'Enter') {
+                e.preventDefault()
+                applyCompletion(completions[selectedCompletion])
+                return
+            }
+            if (e.key === 'Escape') {
+                setCompletions([])
+                return
+            }
+        }
+
+        if (e.key === 'Enter') {
+            e.preventDefault()
+            void evaluate()
+        } else if (e.key === 'ArrowUp' && history.length > 0) {
+            e.preventDefault()
+            const index = historyIndex === -1 ? history.length - 1 : Math.max(0, historyIndex - 1)
+            setHistoryIndex(index)
+            setInput(history[index])
+        } else if (e.key === 'ArrowDown' && historyIndex !== -1) {
+            e.preventDefault()
+            const index = historyIndex + 1
+            setHistoryIndex(index >= history.length ? -1 : index)
+            setInput(index >= history.length ? '' : history[index])
+        }
+    }
+
+    return (
+        <div className="debug-console">
+            <div className="debug-console-header">
+                <span>Debug Console</span>
+                {frames.length > 0 && (
+                    <select
+                        className="debug-console-frame"
+                        value={frameId ?? ''}
+                        onChange={e => setFrameId(Number(e.target.value))}
+                        title="Evaluate in this stack frame"
+                    >
+                        {frames.map(frame => (
+                            <option key={frame.id} value={frame.id}>
+                                {frame.name}{frame.source?.name ? ` (${frame.source.name}:${frame.line})` : ''}
+                            </option>
+                        ))}
+                    </select>
+                )}
+                <button className="debug-console-clear" onClick={() => setEntries([])} title="Clear Console">
+                    <X size={12} />
+                </button>
+            </div>
+
+            {dataBreakpoints.length > 0 && (
+                <div className="debug-console-data-breakpoints">
+                    {dataBreakpoints.map(bp => (
+                        <span
+                            key={bp.dataId}
+                            className={`debug-data-breakpoint ${bp.verified === false ? 'unverified' : ''}`}
+                            title={bp.verified === false ? 'Unverified data breakpoint' : `Breaks when ${bp.description} changes`}
+                        >
+                            <Eye size={11} /> {bp.description}
+                            <button onClick={() => removeDataBreakpoint(bp.dataId)} title="Remove Data Breakpoint"><X size={10} /></button>
+                        </span>
+                    ))}
+                </div>
+            )}
+
+            <div className="debug-console-entries" ref={listRef}>
+                {entries.map(entry => (
+                    <div key={entry.id} className="debug-console-entry">
+                        <div className="debug-console-input-echo">{'>'} {entry.expression}</div>
+                        {entry.error !== undefined ? (
+                            <div className="debug-console-error">{entry.error}</div>
+                        ) : sessionId && entry.result && (
+                            <ValueNode
+                                sessionId={sessionId}
+                                name=""
+                                value={entry.result.result}
+                                type={entry.result.type}
+                                variablesReference={entry.result.variablesReference || 0}
+                                expression={entry.expression}
+                                frameId={frameId}
+                                capabilities={capabilities}
+                                depth={0}
+                                onAddDataBreakpoint={addDataBreakpoint}
+                            />
+                        )}
+                    </div>
+                ))}
+            </div>
+
+            <div className="debug-console-prompt">
+                {completions.length > 0 && (
+                    <div className="debug-console-completions">
+                        {completions.map((item, index) => (
+                            <div
+                                key={`${item.label}-${index}`}
+                                className={`debug-console-completion ${index === selectedCompletion ? 'selected' : ''}`}
+                                onMouseDown={e => {
+                                    e.preventDefault()
+                                    applyCompletion(item)
+                                }}
+                            >
+                                <span>{item.label}</span>
+                                {(item.detail || item.type) && <span className="debug-console-completion-type">{item.detail || item.type}</span>}
+                            </div>
+                        ))}
+                    </div>
+                )}
+                <span className="debug-console-caret">{'>'}</span>
+                <input
+                    ref={inputRef}
+                    value={input}
+                    disabled={!sessionId}
+                    placeholder={sessionId ? 'Evaluate expression' : 'Start a debug session to evaluate expressions'}
+                    spellCheck={false}
+                    onChange={e => {
+                        setInput(e.target.value)
+                        requestCompletions(e.target.value, e.target.selectionStart ?? e.target.value.length)
+                    }}
+                    onBlur={() => setCompletions([])}
+                    onKeyDown={handleKeyDown}
+                />
+            </div>
+
+            <style>{`
+                .debug-console { display: flex; flex-direction: column; height: 100%; min-width: 0; font-family: 'JetBrains Mono', 'Fira Code', monospace; font-size: 12px; color: var(--text-primary, #cdd6f4); }
+                .debug-console-header { display: flex; align-items: center; gap: 8px; padding: 4px 8px; font-family: inherit; font-size: 11px; color: var(--text-secondary, #a6adc8); border-bottom: 1px solid var(--border-color, #313244); }
+                .debug-console-header > span { flex: 1; }
+                .debug-console-frame { max-width: 60%; background: transparent; color: inherit; border: 1px solid var(--border-color, #313244); border-radius: 4px; font-size: 11px; }
+                .debug-console-clear { background: none; border: none; color: inherit; cursor: pointer; display: flex; }
+                .debug-console-data-breakpoints { display: flex; flex-wrap: wrap; gap: 4px; padding: 4px 8px; border-bottom: 1px solid var(--border-color, #313244); }
+                .debug-data-breakpoint { display: inline-flex; align-items: center; gap: 4px; padding: 1px 6px; border-radius: 10px; background: rgba(229, 20, 0, 0.15); font-size: 11px; }
+                .debug-data-breakpoint.unverified { background: rgba(132, 132, 132, 0.2); }
+                .debug-data-breakpoint button { background: none; border: none; color: inherit; cursor: pointer; display: flex; padding: 0; }
+                .debug-console-entries { flex: 1; overflow-y: auto; padding: 4px 8px; }
+                .debug-console-entry { padding: 2px 0; }
+                .debug-console-input-echo { color: var(--text-secondary, #a6adc8); }
+                .debug-console-error { color: #f38ba8; white-space: pre-wrap; }
+                .debug-value-row { display: flex; align-items: center; gap: 4px; min-height: 18px; }
+                .debug-value-toggle { width: 12px; display: flex; cursor: pointer; flex-shrink: 0; }
+                .debug-value-name { color: #89b4fa; white-space: nowrap; }
+                .debug-value-text { white-space: pre; overflow: hidden; text-overflow: ellipsis; }
+                .debug-value-text.editable { cursor: text; }
+                .debug-value-input { flex: 1; background: transparent; color: inherit; border: 1px solid #89b4fa; font: inherit; padding: 0 4px; outline: none; }
+                .debug-value-action { visibility: hidden; background: none; border: none; color: inherit; cursor: pointer; display: flex; opacity: 0.6; }
+                .debug-value-row:hover .debug-value-action { visibility: visible; }
+                .debug-console-prompt { position: relative; display: flex; align-items: center; gap: 6px; padding: 4px 8px; border-top: 1px solid var(--border-color, #313244); }
+                .debug-console-caret { color: #89b4fa; }
+                .debug-console-prompt input { flex: 1; background: transparent; border: none; color: inherit; font: inherit; outline: none; }
+                .debug-console-completions { position: absolute; left: 24px; bottom: 100%; z-index: 10; max-height: 180px; min-width: 240px; overflow-y: auto; background: var(--panel-header-bg, #1e1e2e); border: 1px solid var(--border-color, #313244); border-radius: 4px; box-shadow: 0 4px 16px rgba(0, 0, 0, 0.4); }
+                .debug-console-completion { display: flex; justify-content: space-between; gap: 12px; padding: 2px 8px; cursor: pointer; }
+                .debug-console-completion.selected { background: var(--bg-active, #45475a); }
+                .debug-console-completion-type { color: var(--text-secondary, #a6adc8); font-size: 11px; }
+            `}</style>
+        </div>
+    )
+}
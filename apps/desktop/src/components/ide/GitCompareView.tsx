@@ -0,0 +1,224 @@
+/*
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+import { useState, useEffect } from 'react'
+import { DiffEditor } from '@monaco-editor/react'
+import { GitCompare, X, FileText, FilePlus, FileMinus, ExternalLink } from 'lucide-react'
+import { useAppStore } from '../../stores/appStore'
+
+// Hash of the empty tree, the "parent" of a root commit
+export const EMPTY_TREE = '4b825dc642cb6eb9a060e54bf8d69288fbee4904'
+
+interface ChangedFile {
+    status: string
+    path: string
+    oldPath?: string
+}
+
+interface GitCompareViewProps {
+    readonly workspacePath: string
+    readonly from: string
+    readonly to: string
+    readonly onClose: () => void
+}
+
+const LANGUAGES: Record<string, string> = {
+    ts: 'typescript', tsx: 'typescript', js: 'javascript', jsx: 'javascript', mjs: 'javascript',
+    json: 'json', py: 'python', rs: 'rust', go: 'go', java: 'java', cs: 'csharp',
+    c: 'c', h: 'c', cpp: 'cpp', hpp: 'cpp', css: 'css', scss: 'scss', html: 'html',
+    md: 'markdown', yml: 'yaml', yaml: 'yaml', sh: 'shell', sql: 'sql'
+}
+
+const languageOf = (path: string) => LANGUAGES[path.split('.').pop()?.toLowerCase() || ''] || 'plaintext'
+
+const shortRevision = (revision: string) => revision === EMPTY_TREE ? 'empty' : revision.slice(0, 7)
+
+function StatusIcon({ status }: { readonly status: string }) {
+    if (status === 'A') return <FilePlus size={14} className="compare-icon added" />
+    if (status === 'D') return <FileMinus size={14} className="compare-icon deleted" />
+    return <FileText size={14} className="compare-icon" />
+}
+
+/**
+ * Side-by-side diff of two revisions, file by file. The older revision is on
+ * the left; files are read from git on demand.
+ */
+export default function GitCompareView({ workspacePath, from, to, onClose }: GitCompareViewProps) {
+    const [files, setFiles] = useState<ChangedFile[]>([])
+    const [selected, setSelected] = useState<ChangedFile | null>(null)
+    const [contents, setContents] = useState<{ original: string; modified: string } | null>(null)
+    const [error, setError] = useState<string | null>(null)
+
+    useEffect(() => {
+        let cancelled = false
+        globalThis.window.electronAPI?.git.diffCommits({ repoPath: workspacePath, from, to }).then((result: any) => {
+            if (cancelled) return
+            if (result?.success) {
+                setFiles(result.files)
+                setSelected(result.files[0] ?? null)
+            } else {
+                setError(result?.error || 'Failed to compare revisions')
+            }
+        })
+        return () => { cancelled = true }
+    }, [workspacePath, from, to])
+
+    useEffect(() => {
+        if (!selected) return
+        let cancelled = false
+        setContents(null)
+
+        const read = async (revision: string, file: string) => {
+            const result = await globalThis.window.electronAPI?.git.fileAtRevision({ repoPath: workspacePath, file, revision })
+            return result?.success ? result.content as string : ''
+        }
+        // Added files have nothing on the left, deleted ones nothing on the right
+        Promise.all([
+            selected.status === 'A' ? '' : read(from, selected.oldPath ?? selected.path),
+            selected.status === 'D' ? '' : read(to, selected.path)
+        ]).then(([original, modified]) => {
+            if (!cancelled) setContents({ original, modified })
+        })
+        return () => { cancelled = true }
+    }, [workspacePath, from, to, selected])
+
+    const openAtRevision = (file: ChangedFile) => {
+        window.dispatchEvent(new CustomEvent('kalynt-open-revision', {
+            detail: { path: `${workspacePath}/${file.path}`, revision: to }
+        }))
+        onClose()
+    }
+
+    return (
+        <div className="floating-diff-overlay" onClick={onClose}>
+            <div className="floating-diff-content animate-reveal-up" onClick={e => e.stopPropagation()}>
+                <div className="diff-header-bar">
+                    <div className="diff-title-group">
+                        <GitCompare size={16} className="text-blue-400" />
+                        <span className="diff-file-name">
+                            {shortRevision(from)} → {shortRevision(to)}
+                        </span>
+                        <span className="compare-count">{files.length} file{files.length === 1 ? '' : 's'} changed</span>
+                    </div>
+                    <button className="close-diff-btn" onClick={onClose}>
+                        <X size={20} />
+                    </button>
+                </div>
+
+                {error && <div className="git-error-banner">{error}</div>}
+
+                <div className="compare-body">
+                    <div className="compare-files">
+                        {files.map(file => (
+                            <div
+                                key={file.path}
+                                className={`compare-file ${selected?.path === file.path ? 'active' : ''}`}
+                                onClick={() => setSelected(file)}
+                                title={file.oldPath ? `${file.oldPath} → ${file.path}` : file.path}
+                            >
+                                <StatusIcon status={file.status} />
+                                <span className="compare-file-name">{file.path}</span>
+                                {file.status !== 'D' && (
+                                    <button
+                                        className="compare-open"
+                                        onClick={(e) => { e.stopPropagation(); openAtRevision(file) }}
+                                        title={`Open at ${shortRevision(to)}`}
+                                    >
+                                        <ExternalLink size={12} />
+                                    </button>
+                                )}
+                            </div>
+                        ))}
+                        {files.length === 0 && !error && <div className="empty-hint">No differences.</div>}
+                    </div>
+                    <div className="compare-diff">
+                        {selected && contents && (
+                            <DiffEditor
+                                height="100%"
+                                original={contents.original}
+                                modified={contents.modified}
+                                language={languageOf(selected.path)}
+                                theme={useAppStore.getState().theme === 'light' ? 'light' : 'vs-dark'}
+                                options={{
+                                    readOnly: true,
+                                    renderSideBySide: true,
+                                    minimap: { enabled: false },
+                                    fontSize: 12,
+                                    automaticLayout: true
+                                }}
+                            />
+                        )}
+                    </div>
+                </div>
+            </div>
+            <style>{compareViewStyles}</style>
+        </div>
+    )
+}
+
+const compareViewStyles = `
+    .compare-count {
+        font-size: 11px;
+        font-weight: 700;
+        color: var(--color-text-tertiary);
+    }
+
+    .compare-body {
+        flex: 1;
+        display: flex;
+        min-height: 0;
+    }
+
+    .compare-files {
+        width: 260px;
+        flex-shrink: 0;
+        overflow-y: auto;
+        padding: 8px 0;
+        border-right: 1px solid var(--color-border-subtle);
+    }
+
+    .compare-file {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        padding: 6px 16px;
+        font-size: 12px;
+        color: var(--color-text-secondary);
+        cursor: pointer;
+    }
+
+    .compare-file:hover,
+    .compare-file.active {
+        background: var(--color-glass);
+        color: var(--color-text);
+    }
+
+    .compare-file-name {
+        flex: 1;
+        overflow: hidden;
+        text-overflow: ellipsis;
+        white-space: nowrap;
+        direction: rtl;
+        text-align: left;
+    }
+
+    .compare-icon { flex-shrink: 0; color: #3b82f6; }
+    .compare-icon.added { color: #10b981; }
+    .compare-icon.deleted { color: #ef4444; }
+
+    .compare-open {
+        display: flex;
+        background: none;
+        border: none;
+        color: var(--color-text-tertiary);
+        opacity: 0;
+        cursor: pointer;
+    }
+
+    .compare-file:hover .compare-open { opacity: 1; }
+
+    .compare-diff {
+        flex: 1;
+        min-width: 0;
+    }
+`
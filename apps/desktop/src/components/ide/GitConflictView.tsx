@@ -0,0 +1,307 @@
+/*
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+import { useState, useEffect, useMemo } from 'react'
+import { GitMerge, X, Check, AlertCircle } from 'lucide-react'
+
+export type GitOperation = 'merge' | 'rebase' | 'cherry-pick' | null
+
+interface ConflictVersions {
+    base: string
+    ours: string
+    theirs: string
+}
+
+// One `<<<<<<<` ... `>>>>>>>` block of the working copy, by character offsets
+interface ConflictBlock {
+    start: number
+    end: number
+    ours: string
+    theirs: string
+}
+
+interface GitConflictViewProps {
+    readonly workspacePath: string
+    readonly file: string
+    readonly operation: GitOperation
+    readonly onClose: () => void
+    readonly onResolved: (file: string) => void
+}
+
+// A rebase replays your commits onto the other branch, so the sides swap
+function sideLabels(operation: GitOperation): { ours: string; theirs: string } {
+    if (operation === 'rebase') return { ours: 'Upstream', theirs: 'Your Commit' }
+    return { ours: 'Current', theirs: 'Incoming' }
+}
+
+function parseConflictBlocks(text: string): ConflictBlock[] {
+    const blocks: ConflictBlock[] = []
+    const lines = text.split(/(?<=\n)/)
+    let offset = 0
+    let block: { start: number; ours: string; base: string; theirs: string; section: 'ours' | 'base' | 'theirs' } | null = null
+
+    for (const line of lines) {
+        if (line.startsWith('<<<<<<<')) {
+            block = { start: offset, ours: '', base: '', theirs: '', section: 'ours' }
+        } else if (block && line.startsWith('|||||||')) {
+            block.section = 'base'
+        } else if (block && line.startsWith('=======')) {
+            block.section = 'theirs'
+        } else if (block && line.startsWith('>>>>>>>')) {
+            blocks.push({ start: block.start, end: offset + line.length, ours: block.ours, theirs: block.theirs })
+            block = null
+        } else if (block) {
+            block[block.section] += line
+        }
+        offset += line.length
+    }
+    return blocks
+}
+
+/**
+ * Three-way view of a conflicted file: the common ancestor and both sides as
+ * git recorded them, above an editable result that starts out as the working
+ * copy with its conflict markers.
+ */
+export default function GitConflictView({ workspacePath, file, operation, onClose, onResolved }: GitConflictViewProps) {
+    const [versions, setVersions] = useState<ConflictVersions | null>(null)
+    const [result, setResult] = useState<string>('')
+    const [error, setError] = useState<string | null>(null)
+    const [saving, setSaving] = useState<boolean>(false)
+    const labels = sideLabels(operation)
+    const blocks = useMemo(() => parseConflictBlocks(result), [result])
+
+    useEffect(() => {
+        let cancelled = false
+        globalThis.window.electronAPI?.git.conflictVersions({ repoPath: workspacePath, file }).then((response: any) => {
+            if (cancelled) return
+            if (response?.success) {
+                setVersions({ base: response.base, ours: response.ours, theirs: response.theirs })
+                setResult(response.merged)
+            } else {
+                setError(response?.error || 'Failed to load conflict')
+            }
+        })
+        return () => { cancelled = true }
+    }, [workspacePath, file])
+
+    const resolveBlock = (block: ConflictBlock, content: string) => {
+        setResult(result.slice(0, block.start) + content + result.slice(block.end))
+    }
+
+    const markResolved = async () => {
+        if (blocks.length > 0 && !confirm(`${blocks.length} conflict(s) still have markers. Mark ${file} as resolved anyway?`)) return
+        setSaving(true)
+        const response = await globalThis.window.electronAPI?.git.resolveConflict({ repoPath: workspacePath, file, content: result })
+        setSaving(false)
+        if (response?.success) {
+            onResolved(file)
+        } else {
+            setError(response?.error || 'Failed to resolve conflict')
+        }
+    }
+
+    const renderVersion = (title: string, content: string) => (
+        <div className="conflict-pane">
+            <div className="conflict-pane-title">{title}</div>
+            <pre className="conflict-pane-body">{content || <span className="conflict-missing">File does not exist on this side</span>}</pre>
+        </div>
+    )
+
+    return (
+        <div className="floating-diff-overlay" onClick={onClose}>
+            <div className="floating-diff-content conflict-view animate-reveal-up" onClick={e => e.stopPropagation()}>
+                <div className="diff-header-bar">
+                    <div className="diff-title-group">
+                        <GitMerge size={16} className="text-blue-400" />
+                        <span className="diff-file-name">{file}</span>
+                        <span className="conflict-count">
+                            {blocks.length > 0 ? `${blocks.length} conflict${blocks.length > 1 ? 's' : ''} left` : 'No conflict markers'}
+                        </span>
+                    </div>
+                    <button className="close-diff-btn" onClick={onClose}>
+                        <X size={20} />
+                    </button>
+                </div>
+
+                {error && <div className="git-error-banner">{error}</div>}
+
+                {!versions ? (
+                    <div className="binary-preview">
+                        <AlertCircle size={40} className="opacity-20 mb-4" />
+                        <p>Loading conflict...</p>
+                    </div>
+                ) : (
+                    <div className="conflict-body">
+                        <div className="conflict-panes">
+                            {renderVersion(labels.ours, versions.ours)}
+                            {renderVersion('Base', versions.base)}
+                            {renderVersion(labels.theirs, versions.theirs)}
+                        </div>
+
+                        <div className="conflict-result">
+                            <div className="conflict-result-toolbar">
+                                <span className="conflict-pane-title">Result</span>
+                                <button onClick={() => setResult(versions.ours)}>Take {labels.ours}</button>
+                                <button onClick={() => setResult(versions.theirs)}>Take {labels.theirs}</button>
+                            </div>
+                            {blocks.length > 0 && (
+                                <div className="conflict-blocks">
+                                    {blocks.map((block, index) => (
+                                        <div key={block.start} className="conflict-block-row">
+                                            <span>Conflict {index + 1}</span>
+                                            <button onClick={() => resolveBlock(block, block.ours)}>{labels.ours}</button>
+                                            <button onClick={() => resolveBlock(block, block.theirs)}>{labels.theirs}</button>
+                                            <button onClick={() => resolveBlock(block, block.ours + block.theirs)}>Both</button>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                            <textarea
+                                className="conflict-result-editor"
+                                value={result}
+                                onChange={(e) => setResult(e.target.value)}
+                                spellCheck={false}
+                            />
+                        </div>
+
+                        <div className="conflict-footer">
+                            <button className="btn-premium" onClick={markResolved} disabled={saving}>
+                                <Check size={16} />
+                                <span>{saving ? 'Saving...' : 'Mark as Resolved'}</span>
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </div>
+            <style>{conflictViewStyles}</style>
+        </div>
+    )
+}
+
+const conflictViewStyles = `
+    .conflict-body {
+        flex: 1;
+        display: flex;
+        flex-direction: column;
+        gap: 16px;
+        padding: 20px 32px;
+        overflow: hidden;
+    }
+
+    .conflict-count {
+        font-size: 11px;
+        font-weight: 700;
+        color: var(--color-text-tertiary);
+    }
+
+    .conflict-panes {
+        display: grid;
+        grid-template-columns: repeat(3, 1fr);
+        gap: 12px;
+        flex: 1;
+        min-height: 0;
+    }
+
+    .conflict-pane {
+        display: flex;
+        flex-direction: column;
+        min-height: 0;
+        border: 1px solid var(--color-border);
+        border-radius: 12px;
+        overflow: hidden;
+    }
+
+    .conflict-pane-title {
+        padding: 8px 12px;
+        font-size: 10px;
+        font-weight: 800;
+        text-transform: uppercase;
+        letter-spacing: 0.1em;
+        color: var(--color-text-tertiary);
+    }
+
+    .conflict-pane-body {
+        flex: 1;
+        margin: 0;
+        padding: 8px 12px;
+        overflow: auto;
+        font-family: 'SF Mono', monospace;
+        font-size: 12px;
+        line-height: 1.6;
+        background: var(--color-surface-subtle);
+    }
+
+    .conflict-missing {
+        font-style: italic;
+        color: var(--color-text-tertiary);
+    }
+
+    .conflict-result {
+        display: flex;
+        flex-direction: column;
+        flex: 1;
+        min-height: 0;
+        border: 1px solid var(--color-border);
+        border-radius: 12px;
+        overflow: hidden;
+    }
+
+    .conflict-result-toolbar,
+    .conflict-block-row {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        padding: 4px 12px;
+    }
+
+    .conflict-block-row {
+        font-size: 12px;
+        color: var(--color-text-secondary);
+    }
+
+    .conflict-result-toolbar button,
+    .conflict-block-row button {
+        padding: 2px 10px;
+        font-size: 11px;
+        font-weight: 700;
+        border-radius: 6px;
+        border: 1px solid var(--color-border);
+        background: var(--color-surface-elevated);
+        color: var(--color-text);
+        cursor: pointer;
+    }
+
+    .conflict-result-toolbar button:hover,
+    .conflict-block-row button:hover {
+        border-color: var(--color-accent);
+    }
+
+    .conflict-blocks {
+        max-height: 96px;
+        overflow-y: auto;
+        border-bottom: 1px solid var(--color-border-subtle);
+    }
+
+    .conflict-result-editor {
+        flex: 1;
+        padding: 8px 12px;
+        border: none;
+        outline: none;
+        resize: none;
+        font-family: 'SF Mono', monospace;
+        font-size: 12px;
+        line-height: 1.6;
+        background: var(--color-surface-subtle);
+        color: var(--color-text);
+    }
+
+    .conflict-footer {
+        display: flex;
+        justify-content: flex-end;
+    }
+
+    .conflict-footer .btn-premium {
+        padding: 10px 20px;
+    }
+`
@@ -1,33 +1,113 @@
 /*
  * SPDX-License-Identifier: AGPL-3.0-only
  */
-import { useState, useEffect, useCallback, useRef } from 'react'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import {
     GitBranch, RefreshCw, Check, X, Folder,
     ChevronDown, Plus, ArrowUp, ArrowDown, RotateCcw,
-    AlertCircle, FileText, Layers, Clock
+    AlertCircle, FileText, Layers, Clock, GitMerge,
+    GitPullRequestArrow, Cherry, Tag, Archive, ArchiveRestore,
+    Undo2, Trash2, GitCompare
 } from 'lucide-react'
 import { useNotificationStore } from '../../stores/notificationStore'
+import { layoutGraph, type GraphRow } from '../../utils/gitGraph'
+import GitConflictView, { type GitOperation } from './GitConflictView'
+import GitCompareView, { EMPTY_TREE } from './GitCompareView'
 
 interface GitFile {
     path: string
-    status: 'modified' | 'added' | 'deleted' | 'renamed' | 'untracked'
+    status: 'modified' | 'added' | 'deleted' | 'renamed' | 'untracked' | 'conflicted'
     staged: boolean
 }
 
 interface CommitInfo {
     hash: string
+    parents: string[]
     date: string
     message: string
     author_name: string
+    branches: string[]
+    tags: string[]
+}
+
+interface HistoryFilter {
+    message: string
+    author: string
+    file: string
+    all: boolean
+}
+
+interface StashEntry {
+    index: number
+    hash: string
+    message: string
+}
+
+interface TagInfo {
+    name: string
+    hash: string
+    date: string
+    message: string
+}
+
+interface DiffHunk {
+    header: string
+    lines: string[]
+}
+
+const OPERATION_LABELS: Record<NonNullable<GitOperation>, string> = {
+    merge: 'Merge',
+    rebase: 'Rebase',
+    'cherry-pick': 'Cherry-pick'
+}
+
+const LANE_WIDTH = 14
+const ROW_HEIGHT = 52
+const LANE_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899', '#14b8a6', '#ef4444']
+
+const laneX = (lane: number) => LANE_WIDTH / 2 + lane * LANE_WIDTH
+const laneColor = (lane: number) => LANE_COLORS[lane % LANE_COLORS.length]
+
+// Lanes of one commit row: lines from the top edge into the commit and from it to the bottom edge
+function GraphCell({ row, lanes }: { readonly row: GraphRow; readonly lanes: number }) {
+    const mid = ROW_HEIGHT / 2
+    const curve = (from: number, to: number, top: number, bottom: number) => {
+        const half = (top + bottom) / 2
+        return `M ${laneX(from)} ${top} C ${laneX(from)} ${half}, ${laneX(to)} ${half}, ${laneX(to)} ${bottom}`
+    }
+    return (
+        <svg className="graph-cell" width={lanes * LANE_WIDTH} height={ROW_HEIGHT}>
+            {row.up.map((edge, i) => (
+                <path key={`up-${i}`} d={curve(edge.from, edge.to, 0, mid)} stroke={laneColor(edge.lane)} />
+            ))}
+            {row.down.map((edge, i) => (
+                <path key={`down-${i}`} d={curve(edge.from, edge.to, mid, ROW_HEIGHT)} stroke={laneColor(edge.lane)} />
+            ))}
+            <circle cx={laneX(row.column)} cy={mid} r={4} fill={laneColor(row.column)} />
+        </svg>
+    )
+}
+
+// Split a single-file diff into the lines before its first hunk and the hunks themselves
+function parseDiff(diffText: string): { header: string[]; hunks: DiffHunk[] } {
+    const header: string[] = []
+    const hunks: DiffHunk[] = []
+    for (const line of diffText.replace(/\n$/, '').split('\n')) {
+        if (line.startsWith('@@')) hunks.push({ header: line, lines: [] })
+        else if (hunks.length > 0) hunks[hunks.length - 1].lines.push(line)
+        else header.push(line)
+    }
+    return { header, hunks }
 }
 
 interface GitPanelProps {
     readonly workspacePath: string | null
     readonly isVisible?: boolean
+    // A new object each time, so asking for the same file again still applies
+    readonly fileHistoryRequest?: { path: string } | null
 }
 
-export default function GitPanel({ workspacePath, isVisible = true }: GitPanelProps) {
+export default function GitPanel({ workspacePath, isVisible = true, fileHistoryRequest = null }: GitPanelProps) {
     const [branch, setBranch] = useState<string>('main')
     const [branches, setBranches] = useState<string[]>([])
     const [files, setFiles] = useState<GitFile[]>([])
@@ -43,7 +123,21 @@ export default function GitPanel({ workspacePath, isVisible = true }: GitPanelPr
     const [ahead, setAhead] = useState<number>(0)
     const [behind, setBehind] = useState<number>(0)
     const [commits, setCommits] = useState<CommitInfo[]>([])
-    const [activeTab, setActiveTab] = useState<'changes' | 'history'>('changes')
+    const [activeTab, setActiveTab] = useState<'changes' | 'history' | 'stashes' | 'tags'>('changes')
+    const [diffStaged, setDiffStaged] = useState<boolean>(false)
+    const [operation, setOperation] = useState<GitOperation>(null)
+    const [conflictFile, setConflictFile] = useState<string | null>(null)
+    const [stashes, setStashes] = useState<StashEntry[]>([])
+    const [stashMessage, setStashMessage] = useState<string>('')
+    const [stashUntracked, setStashUntracked] = useState<boolean>(true)
+    const [tags, setTags] = useState<TagInfo[]>([])
+    const [newTagName, setNewTagName] = useState<string>('')
+    const [newTagMessage, setNewTagMessage] = useState<string>('')
+    const [tagTarget, setTagTarget] = useState<string | null>(null)
+    const [historyFilter, setHistoryFilter] = useState<HistoryFilter>({ message: '', author: '', file: '', all: false })
+    const [historyGeneration, setHistoryGeneration] = useState<number>(0)
+    const [selectedCommits, setSelectedCommits] = useState<string[]>([])
+    const [compare, setCompare] = useState<{ from: string; to: string } | null>(null)
     const [pushing, setPushing] = useState<boolean>(false)
     const [pulling, setPulling] = useState<boolean>(false)
     const [initializing, setInitializing] = useState<boolean>(false)
@@ -124,18 +218,30 @@ export default function GitPanel({ workspacePath, isVisible = true }: GitPanelPr
                     gitFiles.push({ path, status: 'deleted', staged: false })
                 })
 
+                // Left conflicted by a merge, rebase, cherry-pick or stash
+                statusResult.status.conflicted?.forEach((path: string) => {
+                    gitFiles.push({ path, status: 'conflicted', staged: false })
+                })
+
                 setFiles(gitFiles)
             }
 
-            // Get recent commits
-            const logResult = await globalThis.window.electronAPI?.git.log({ repoPath: workspacePath, maxCount: 10 })
-            if (logResult?.success && logResult.log?.all) {
-                setCommits(logResult.log.all.map((c: any) => ({
-                    hash: c.hash?.substring(0, 7) || '',
-                    date: c.date || '',
-                    message: c.message || '',
-                    author_name: c.author_name || ''
-                })))
+            const conflictsResult = await globalThis.window.electronAPI?.git.conflicts(workspacePath)
+            if (conflictsResult?.success) {
+                setOperation(conflictsResult.operation)
+            }
+
+            // Commit graph reloads on its own
+            setHistoryGeneration(generation => generation + 1)
+
+            const stashResult = await globalThis.window.electronAPI?.git.stash({ repoPath: workspacePath, action: 'list' })
+            if (stashResult?.success) {
+                setStashes(stashResult.stashes || [])
+            }
+
+            const tagsResult = await globalThis.window.electronAPI?.git.tags({ repoPath: workspacePath, action: 'list' })
+            if (tagsResult?.success) {
+                setTags(tagsResult.tags || [])
             }
         } catch (err) {
             addNotification(`Failed to refresh Git: ${err instanceof Error ? err.message : 'Unknown error'}`, 'error')
@@ -182,6 +288,58 @@ export default function GitPanel({ workspacePath, isVisible = true }: GitPanelPr
         }
     }, [workspacePath, isVisible, fetchStatus])
 
+    // Load the commit graph when the log is open, debounced while filters are typed
+    useEffect(() => {
+        if (!workspacePath || !isRepo || activeTab !== 'history') return
+
+        let cancelled = false
+        const timeout = setTimeout(async () => {
+            try {
+                const result = await globalThis.window.electronAPI?.git.history({
+                    repoPath: workspacePath,
+                    maxCount: 300,
+                    all: historyFilter.all,
+                    message: historyFilter.message.trim() || undefined,
+                    author: historyFilter.author.trim() || undefined,
+                    file: historyFilter.file.trim() || undefined
+                })
+                if (cancelled) return
+                if (result?.success) {
+                    setCommits(result.commits.map((c: any) => ({
+                        hash: c.hash,
+                        parents: c.parents,
+                        date: c.date,
+                        message: c.subject,
+                        author_name: c.author,
+                        // Decorations look like "HEAD -> main", "origin/main" or "tag: v1.0"
+                        branches: c.refs.filter((ref: string) => ref !== 'HEAD' && !ref.startsWith('tag: ')).map((ref: string) => ref.replace('HEAD -> ', '')),
+                        tags: c.refs.filter((ref: string) => ref.startsWith('tag: ')).map((ref: string) => ref.slice(5))
+                    })))
+                } else {
+                    setError(result?.error || 'Failed to load history')
+                }
+            } catch (err) {
+                if (!cancelled) setError('Failed to load history')
+            }
+        }, 300)
+
+        return () => {
+            cancelled = true
+            clearTimeout(timeout)
+        }
+    }, [workspacePath, isRepo, activeTab, historyFilter, historyGeneration])
+
+    // History of one file, requested from the editor breadcrumbs
+    useEffect(() => {
+        if (!fileHistoryRequest || !workspacePath) return
+        const normalized = fileHistoryRequest.path.replace(/\\/g, '/')
+        const root = workspacePath.replace(/\\/g, '/').replace(/\/$/, '')
+        const file = normalized.startsWith(root + '/') ? normalized.slice(root.length + 1) : normalized
+        setHistoryFilter(prev => ({ ...prev, file }))
+        setSelectedCommits([])
+        setActiveTab('history')
+    }, [fileHistoryRequest, workspacePath])
+
     // Initialize repository
     const initRepository = async () => {
         if (!workspacePath) return
@@ -214,7 +372,8 @@ export default function GitPanel({ workspacePath, isVisible = true }: GitPanelPr
     // Stage all files
     const stageAll = async () => {
         if (!workspacePath) return
-        const unstaged = files.filter(f => !f.staged).map(f => f.path)
+        // Conflicted files are marked resolved one by one from the conflict view
+        const unstaged = files.filter(f => !f.staged && f.status !== 'conflicted').map(f => f.path)
         if (unstaged.length > 0) {
             try {
                 await globalThis.window.electronAPI?.git.add({ repoPath: workspacePath, files: unstaged })
@@ -363,16 +522,17 @@ export default function GitPanel({ workspacePath, isVisible = true }: GitPanelPr
     }
 
     // View diff
-    const viewDiff = async (path: string) => {
+    const viewDiff = async (path: string, staged: boolean = false) => {
         if (!workspacePath) return
         try {
             setSelectedFile(path)
+            setDiffStaged(staged)
             const binaryExts = ['.png', '.jpg', '.jpeg', '.gif', '.ico', '.pdf', '.zip', '.tar', '.gz', '.mp3', '.mp4', '.woff', '.woff2', '.ttf', '.exe', '.dll', '.so', '.dylib', '.bin', '.pyc', '.wasm']
             if (binaryExts.some(ext => path.toLowerCase().endsWith(ext))) {
                 setDiff('BINARY_FILE')
                 return
             }
-            const result = await globalThis.window.electronAPI?.git.diff({ repoPath: workspacePath, file: path })
+            const result = await globalThis.window.electronAPI?.git.diff({ repoPath: workspacePath, file: path, staged })
             if (result?.success) {
                 setDiff(result.diff || 'No changes')
             } else {
@@ -383,6 +543,200 @@ export default function GitPanel({ workspacePath, isVisible = true }: GitPanelPr
         }
     }
 
+    // Stage or unstage a single hunk of the diff that is open
+    const applyHunk = async (header: string[], hunk: DiffHunk) => {
+        if (!workspacePath || !selectedFile) return
+        const patch = [...header, hunk.header, ...hunk.lines].join('\n') + '\n'
+        try {
+            const result = await globalThis.window.electronAPI?.git.applyPatch({
+                repoPath: workspacePath,
+                patch,
+                cached: true,
+                reverse: diffStaged
+            })
+            if (result?.success) {
+                await viewDiff(selectedFile, diffStaged)
+                await fetchStatus()
+            } else {
+                setError(result?.error || 'Failed to apply hunk')
+            }
+        } catch (err) {
+            setError('Failed to apply hunk')
+        }
+    }
+
+    // Merge, rebase, cherry-pick and stash apply stop on conflicts instead of failing
+    const runOperation = async (run: () => Promise<any>, successMessage: string, failureMessage: string) => {
+        if (!workspacePath) return
+        try {
+            const result = await run()
+            if (!result?.success) {
+                setError(result?.error || failureMessage)
+            } else if (result.conflicts?.length > 0) {
+                addNotification(`Stopped on ${result.conflicts.length} conflicted file(s). Resolve them to continue.`, 'warning')
+            } else {
+                addNotification(successMessage, 'success')
+            }
+        } catch (err) {
+            setError(failureMessage)
+        }
+        await fetchStatus()
+    }
+
+    const mergeBranch = (branchName: string) => {
+        if (!workspacePath) return
+        setShowBranchDropdown(false)
+        runOperation(
+            () => globalThis.window.electronAPI?.git.merge({ repoPath: workspacePath, branch: branchName }),
+            `Merged ${branchName} into ${branch}`,
+            'Merge failed'
+        )
+    }
+
+    const rebaseOnto = (branchName: string) => {
+        if (!workspacePath) return
+        if (!confirm(`Rebase ${branch} onto ${branchName}? This rewrites the commits of ${branch}.`)) return
+        setShowBranchDropdown(false)
+        runOperation(
+            () => globalThis.window.electronAPI?.git.rebase({ repoPath: workspacePath, onto: branchName }),
+            `Rebased ${branch} onto ${branchName}`,
+            'Rebase failed'
+        )
+    }
+
+    const cherryPick = (hash: string) => {
+        if (!workspacePath) return
+        runOperation(
+            () => globalThis.window.electronAPI?.git.cherryPick({ repoPath: workspacePath, commit: hash }),
+            `Cherry-picked ${hash} onto ${branch}`,
+            'Cherry-pick failed'
+        )
+    }
+
+    // Continue, skip or abort the merge, rebase or cherry-pick in progress
+    const controlOperation = (action: 'continue' | 'skip' | 'abort') => {
+        if (!workspacePath || !operation) return
+        const label = OPERATION_LABELS[operation]
+        if (action === 'abort' && !confirm(`Abort the ${label.toLowerCase()}? Resolved conflicts will be lost.`)) return
+        const git = globalThis.window.electronAPI?.git
+        const run = operation === 'merge' ? git?.merge : operation === 'rebase' ? git?.rebase : git?.cherryPick
+        runOperation(
+            () => run({ repoPath: workspacePath, action }),
+            action === 'abort' ? `${label} aborted` : `${label} ${action === 'skip' ? 'skipped a commit' : 'completed'}`,
+            `${label} ${action} failed`
+        )
+    }
+
+    const stashChanges = async () => {
+        if (!workspacePath) return
+        try {
+            const result = await globalThis.window.electronAPI?.git.stash({
+                repoPath: workspacePath,
+                action: 'push',
+                message: stashMessage.trim() || undefined,
+                includeUntracked: stashUntracked
+            })
+            if (result?.success) {
+                setStashMessage('')
+                addNotification('Changes stashed', 'success')
+                await fetchStatus()
+            } else {
+                setError(result?.error || 'Failed to stash changes')
+            }
+        } catch (err) {
+            setError('Failed to stash changes')
+        }
+    }
+
+    const applyStash = (index: number, pop: boolean) => {
+        if (!workspacePath) return
+        runOperation(
+            () => globalThis.window.electronAPI?.git.stash({ repoPath: workspacePath, action: pop ? 'pop' : 'apply', index }),
+            pop ? 'Stash popped' : 'Stash applied',
+            'Failed to apply stash'
+        )
+    }
+
+    const dropStash = async (index: number) => {
+        if (!workspacePath) return
+        if (!confirm(`Drop stash@{${index}}? This cannot be undone.`)) return
+        try {
+            const result = await globalThis.window.electronAPI?.git.stash({ repoPath: workspacePath, action: 'drop', index })
+            if (result?.success) {
+                await fetchStatus()
+            } else {
+                setError(result?.error || 'Failed to drop stash')
+            }
+        } catch (err) {
+            setError('Failed to drop stash')
+        }
+    }
+
+    const createTag = async () => {
+        if (!workspacePath || !newTagName.trim()) return
+        try {
+            const result = await globalThis.window.electronAPI?.git.tags({
+                repoPath: workspacePath,
+                action: 'create',
+                name: newTagName.trim(),
+                ref: tagTarget || undefined,
+                message: newTagMessage.trim() || undefined
+            })
+            if (result?.success) {
+                addNotification(`Created tag ${newTagName.trim()}`, 'success')
+                setNewTagName('')
+                setNewTagMessage('')
+                setTagTarget(null)
+                await fetchStatus()
+            } else {
+                setError(result?.error || 'Failed to create tag')
+            }
+        } catch (err) {
+            setError('Failed to create tag')
+        }
+    }
+
+    const deleteTag = async (name: string) => {
+        if (!workspacePath) return
+        if (!confirm(`Delete tag ${name}?`)) return
+        try {
+            const result = await globalThis.window.electronAPI?.git.tags({ repoPath: workspacePath, action: 'delete', name })
+            if (result?.success) {
+                await fetchStatus()
+            } else {
+                setError(result?.error || 'Failed to delete tag')
+            }
+        } catch (err) {
+            setError('Failed to delete tag')
+        }
+    }
+
+    // Click selects a commit, Ctrl/Cmd-click adds a second one to compare against
+    const selectCommit = (hash: string, additive: boolean) => {
+        if (!additive) {
+            setSelectedCommits(prev => prev.length === 1 && prev[0] === hash ? [] : [hash])
+            return
+        }
+        setSelectedCommits(prev => prev.includes(hash) ? prev.filter(h => h !== hash) : [...prev, hash].slice(-2))
+    }
+
+    // One commit compares with its parent; of two, the older one is the base
+    const openCompare = () => {
+        const selected = commits.filter(c => selectedCommits.includes(c.hash))
+        if (selected.length === 1) {
+            setCompare({ from: selected[0].parents[0] ?? EMPTY_TREE, to: selected[0].hash })
+        } else if (selected.length === 2) {
+            setCompare({ from: selected[1].hash, to: selected[0].hash })
+        }
+    }
+
+    const openFileAtRevision = (hash: string) => {
+        if (!workspacePath || !historyFilter.file) return
+        window.dispatchEvent(new CustomEvent('kalynt-open-revision', {
+            detail: { path: `${workspacePath}/${historyFilter.file}`, revision: hash }
+        }))
+    }
+
     // Get status icon and color
     const getStatusBadge = (status: GitFile['status']) => {
         const badges: Record<string, { icon: string; color: string }> = {
@@ -390,13 +744,18 @@ export default function GitPanel({ workspacePath, isVisible = true }: GitPanelPr
             added: { icon: 'A', color: '#10b981' },
             deleted: { icon: 'D', color: '#ef4444' },
             renamed: { icon: 'R', color: '#8b5cf6' },
-            untracked: { icon: 'U', color: '#6b7280' }
+            untracked: { icon: 'U', color: '#6b7280' },
+            conflicted: { icon: '!', color: '#f59e0b' }
         }
         return badges[status] || badges.modified
     }
 
+    const graphRows = useMemo(() => layoutGraph(commits), [commits])
+    const graphLanes = Math.max(1, ...graphRows.map(row => row.width))
+
     const stagedFiles = files.filter(f => f.staged)
-    const unstagedFiles = files.filter(f => !f.staged)
+    const unstagedFiles = files.filter(f => !f.staged && f.status !== 'conflicted')
+    const conflictedFiles = files.filter(f => f.status === 'conflicted')
 
     // Format relative time
     const formatTime = (dateStr: string) => {
@@ -412,8 +771,8 @@ export default function GitPanel({ workspacePath, isVisible = true }: GitPanelPr
     }
 
     // Render diff with syntax highlighting
-    const renderDiff = (diffText: string) => {
-        return diffText.split('\n').map((line, i) => {
+    const renderDiffLines = (lines: string[]) => {
+        return lines.map((line, i) => {
             let className = 'diff-line'
             if (line.startsWith('+') && !line.startsWith('+++')) className += ' diff-add'
             else if (line.startsWith('-') && !line.startsWith('---')) className += ' diff-remove'
@@ -422,6 +781,27 @@ export default function GitPanel({ workspacePath, isVisible = true }: GitPanelPr
         })
     }
 
+    const renderDiff = (diffText: string) => {
+        const { header, hunks } = parseDiff(diffText)
+        if (hunks.length === 0) return renderDiffLines(diffText.split('\n'))
+        return (
+            <>
+                {renderDiffLines(header)}
+                {hunks.map((hunk, i) => (
+                    <div key={`${i}:${hunk.header}`} className="diff-hunk-block">
+                        <div className="diff-line diff-hunk">
+                            <span>{hunk.header}</span>
+                            <button className="hunk-action" onClick={() => applyHunk(header, hunk)}>
+                                {diffStaged ? 'Unstage Hunk' : 'Stage Hunk'}
+                            </button>
+                        </div>
+                        {renderDiffLines(hunk.lines)}
+                    </div>
+                ))}
+            </>
+        )
+    }
+
     if (!workspacePath) {
         return (
             <div className="git-panel empty-state">
@@ -476,14 +856,25 @@ export default function GitPanel({ workspacePath, isVisible = true }: GitPanelPr
                             </div>
                             <div className="branch-list">
                                 {branches.map(b => (
-                                    <button
-                                        key={b}
-                                        className={`branch-option ${b === branch ? 'active' : ''}`}
-                                        onClick={() => switchBranch(b)}
-                                    >
-                                        {b === branch && <Check size={12} />}
-                                        <span>{b.replace('remotes/origin/', '')}</span>
-                                    </button>
+                                    <div key={b} className="branch-option-row">
+                                        <button
+                                            className={`branch-option ${b === branch ? 'active' : ''}`}
+                                            onClick={() => switchBranch(b)}
+                                        >
+                                            {b === branch && <Check size={12} />}
+                                            <span>{b.replace('remotes/origin/', '')}</span>
+                                        </button>
+                                        {b !== branch && !operation && (
+                                            <div className="branch-ops">
+                                                <button className="branch-op" onClick={() => mergeBranch(b)} title={`Merge into ${branch}`}>
+                                                    <GitMerge size={12} />
+                                                </button>
+                                                <button className="branch-op" onClick={() => rebaseOnto(b)} title={`Rebase ${branch} onto this branch`}>
+                                                    <GitPullRequestArrow size={12} />
+                                                </button>
+                                            </div>
+                                        )}
+                                    </div>
                                 ))}
                             </div>
                         </div>
@@ -538,6 +929,23 @@ export default function GitPanel({ workspacePath, isVisible = true }: GitPanelPr
 
             {error && <div className="git-error-banner">{error}</div>}
 
+            {(operation || conflictedFiles.length > 0) && (
+                <div className="git-operation-banner">
+                    <GitMerge size={14} />
+                    <span className="operation-status">
+                        {operation ? `${OPERATION_LABELS[operation]} in progress` : 'Unresolved conflicts'}
+                        {conflictedFiles.length > 0 && ` · ${conflictedFiles.length} conflicted`}
+                    </span>
+                    {operation && (
+                        <div className="operation-actions">
+                            <button onClick={() => controlOperation('continue')} disabled={conflictedFiles.length > 0}>Continue</button>
+                            {operation === 'rebase' && <button onClick={() => controlOperation('skip')}>Skip</button>}
+                            <button className="abort" onClick={() => controlOperation('abort')}>Abort</button>
+                        </div>
+                    )}
+                </div>
+            )}
+
             {/* Premium Tabs */}
             <div className="git-tabs-strip">
                 <button
@@ -552,11 +960,43 @@ export default function GitPanel({ workspacePath, isVisible = true }: GitPanelPr
                 >
                     Log
                 </button>
+                <button
+                    className={`git-tab ${activeTab === 'stashes' ? 'active' : ''}`}
+                    onClick={() => setActiveTab('stashes')}
+                >
+                    Stashes {stashes.length > 0 && <span className="tab-badge">{stashes.length}</span>}
+                </button>
+                <button
+                    className={`git-tab ${activeTab === 'tags' ? 'active' : ''}`}
+                    onClick={() => setActiveTab('tags')}
+                >
+                    Tags
+                </button>
             </div>
 
             <div className="git-content-area">
                 {activeTab === 'changes' ? (
                     <div className="changes-view">
+                        {/* Merge Conflicts */}
+                        {conflictedFiles.length > 0 && (
+                            <div className="change-section">
+                                <div className="section-title">
+                                    <GitMerge size={12} />
+                                    <span>Merge Conflicts ({conflictedFiles.length})</span>
+                                </div>
+                                <div className="file-list">
+                                    {conflictedFiles.map(file => (
+                                        <div key={file.path} className="file-row" onClick={() => setConflictFile(file.path)}>
+                                            <div className="file-info">
+                                                <span className="file-badge" style={{ color: getStatusBadge(file.status).color }}>{getStatusBadge(file.status).icon}</span>
+                                                <span className="file-name">{file.path}</span>
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
                         {/* Staged Changes */}
                         <div className="change-section">
                             <div className="section-title">
@@ -565,7 +1005,7 @@ export default function GitPanel({ workspacePath, isVisible = true }: GitPanelPr
                             </div>
                             <div className="file-list">
                                 {stagedFiles.map(file => (
-                                    <div key={file.path} className="file-row staged" onClick={() => viewDiff(file.path)}>
+                                    <div key={file.path} className="file-row staged" onClick={() => viewDiff(file.path, true)}>
                                         <div className="file-info">
                                             <span className="file-badge" style={{ backgroundColor: getStatusBadge(file.status).color }}>{getStatusBadge(file.status).icon}</span>
                                             <span className="file-name">{file.path}</span>
@@ -633,24 +1073,185 @@ export default function GitPanel({ workspacePath, isVisible = true }: GitPanelPr
                             </div>
                         )}
                     </div>
-                ) : (
+                ) : activeTab === 'history' ? (
                     /* History Tab */
                     <div className="history-view">
-                        {commits.map(c => (
-                            <div key={c.hash} className="log-item">
-                                <div className="log-marker"><div className="log-dot" /></div>
+                        <div className="history-filters">
+                            <input
+                                type="text"
+                                placeholder="Message"
+                                value={historyFilter.message}
+                                onChange={(e) => setHistoryFilter(prev => ({ ...prev, message: e.target.value }))}
+                            />
+                            <input
+                                type="text"
+                                placeholder="Author"
+                                value={historyFilter.author}
+                                onChange={(e) => setHistoryFilter(prev => ({ ...prev, author: e.target.value }))}
+                            />
+                            <div className="history-file-filter">
+                                <input
+                                    type="text"
+                                    placeholder="Path"
+                                    value={historyFilter.file}
+                                    onChange={(e) => setHistoryFilter(prev => ({ ...prev, file: e.target.value }))}
+                                />
+                                {historyFilter.file && (
+                                    <button onClick={() => setHistoryFilter(prev => ({ ...prev, file: '' }))} title="Clear path">
+                                        <X size={12} />
+                                    </button>
+                                )}
+                            </div>
+                            <label className="git-checkbox">
+                                <input
+                                    type="checkbox"
+                                    checked={historyFilter.all}
+                                    onChange={(e) => setHistoryFilter(prev => ({ ...prev, all: e.target.checked }))}
+                                />
+                                <span>All branches</span>
+                            </label>
+                        </div>
+
+                        {selectedCommits.length > 0 && (
+                            <div className="compare-bar">
+                                <span>
+                                    {selectedCommits.map(h => h.slice(0, 7)).join(' ↔ ')}
+                                    {selectedCommits.length === 1 && <em> · Ctrl+click another commit to compare</em>}
+                                </span>
+                                <button onClick={openCompare}>
+                                    <GitCompare size={12} />
+                                    {selectedCommits.length === 1 ? 'Changes' : 'Compare'}
+                                </button>
+                            </div>
+                        )}
+
+                        {commits.map((c, index) => (
+                            <div
+                                key={c.hash}
+                                className={`graph-row ${selectedCommits.includes(c.hash) ? 'selected' : ''}`}
+                                onClick={(e) => selectCommit(c.hash, e.ctrlKey || e.metaKey)}
+                            >
+                                <GraphCell row={graphRows[index]} lanes={graphLanes} />
                                 <div className="log-body">
-                                    <div className="log-message">{c.message}</div>
+                                    <div className="log-message">
+                                        {c.branches.map(b => (
+                                            <span key={b} className="log-ref"><GitBranch size={10} />{b}</span>
+                                        ))}
+                                        {c.tags.map(t => (
+                                            <span key={t} className="log-tag"><Tag size={10} />{t}</span>
+                                        ))}
+                                        {c.message}
+                                    </div>
                                     <div className="log-meta">
-                                        <span className="log-hash">{c.hash}</span>
+                                        <span className="log-hash">{c.hash.slice(0, 7)}</span>
                                         <span className="log-author">{c.author_name}</span>
                                         <span className="log-time">{formatTime(c.date)}</span>
                                     </div>
                                 </div>
+                                <div className="log-actions" onClick={e => e.stopPropagation()}>
+                                    {historyFilter.file && (
+                                        <button className="file-control" onClick={() => openFileAtRevision(c.hash)} title="Open file at this revision">
+                                            <FileText size={14} />
+                                        </button>
+                                    )}
+                                    <button className="file-control" onClick={() => cherryPick(c.hash.slice(0, 7))} disabled={!!operation} title={`Cherry-pick onto ${branch}`}>
+                                        <Cherry size={14} />
+                                    </button>
+                                    <button className="file-control" onClick={() => { setTagTarget(c.hash.slice(0, 7)); setActiveTab('tags') }} title="Tag this commit">
+                                        <Tag size={14} />
+                                    </button>
+                                </div>
                             </div>
                         ))}
                         {commits.length === 0 && <div className="empty-state-subtle">No commit history found.</div>}
                     </div>
+                ) : activeTab === 'stashes' ? (
+                    /* Stashes Tab */
+                    <div className="stash-view">
+                        <div className="git-form">
+                            <input
+                                type="text"
+                                placeholder="Stash message (optional)"
+                                value={stashMessage}
+                                onChange={(e) => setStashMessage(e.target.value)}
+                                onKeyDown={(e) => e.key === 'Enter' && stashChanges()}
+                            />
+                            <label className="git-checkbox">
+                                <input type="checkbox" checked={stashUntracked} onChange={(e) => setStashUntracked(e.target.checked)} />
+                                <span>Include untracked files</span>
+                            </label>
+                            <button className="btn-premium w-full" onClick={stashChanges} disabled={files.length === 0}>
+                                <Archive size={16} />
+                                <span>Stash Changes</span>
+                            </button>
+                        </div>
+                        <div className="file-list">
+                            {stashes.map(s => (
+                                <div key={s.hash} className="file-row">
+                                    <div className="file-info">
+                                        <span className="log-hash">{`stash@{${s.index}}`}</span>
+                                        <span className="file-name">{s.message}</span>
+                                    </div>
+                                    <div className="file-row-actions">
+                                        <button className="file-control" onClick={() => applyStash(s.index, false)} title="Apply">
+                                            <ArchiveRestore size={14} />
+                                        </button>
+                                        <button className="file-control" onClick={() => applyStash(s.index, true)} title="Pop">
+                                            <Undo2 size={14} />
+                                        </button>
+                                        <button className="file-control discard" onClick={() => dropStash(s.index)} title="Drop">
+                                            <Trash2 size={14} />
+                                        </button>
+                                    </div>
+                                </div>
+                            ))}
+                            {stashes.length === 0 && <div className="empty-hint">No stashes.</div>}
+                        </div>
+                    </div>
+                ) : (
+                    /* Tags Tab */
+                    <div className="tags-view">
+                        <div className="git-form">
+                            <input
+                                type="text"
+                                placeholder="Tag name, e.g. v1.2.0"
+                                value={newTagName}
+                                onChange={(e) => setNewTagName(e.target.value)}
+                                onKeyDown={(e) => e.key === 'Enter' && createTag()}
+                            />
+                            <input
+                                type="text"
+                                placeholder="Message (makes an annotated tag)"
+                                value={newTagMessage}
+                                onChange={(e) => setNewTagMessage(e.target.value)}
+                            />
+                            <div className="tag-target">
+                                <span>At {tagTarget ?? 'HEAD'}</span>
+                                {tagTarget && <button onClick={() => setTagTarget(null)}><X size={12} /></button>}
+                            </div>
+                            <button className="btn-premium w-full" onClick={createTag} disabled={!newTagName.trim()}>
+                                <Tag size={16} />
+                                <span>Create Tag</span>
+                            </button>
+                        </div>
+                        <div className="file-list">
+                            {tags.map(t => (
+                                <div key={t.name} className="file-row" title={t.message}>
+                                    <div className="file-info">
+                                        <Tag size={12} className="text-blue-400" />
+                                        <span className="file-name">{t.name}</span>
+                                        <span className="log-hash">{t.hash}</span>
+                                    </div>
+                                    <div className="file-row-actions">
+                                        <button className="file-control discard" onClick={() => deleteTag(t.name)} title="Delete">
+                                            <Trash2 size={14} />
+                                        </button>
+                                    </div>
+                                </div>
+                            ))}
+                            {tags.length === 0 && <div className="empty-hint">No tags.</div>}
+                        </div>
+                    </div>
                 )}
             </div>
 
@@ -684,6 +1285,29 @@ export default function GitPanel({ workspacePath, isVisible = true }: GitPanelPr
                 </div>
             )}
 
+            {compare && (
+                <GitCompareView
+                    workspacePath={workspacePath}
+                    from={compare.from}
+                    to={compare.to}
+                    onClose={() => setCompare(null)}
+                />
+            )}
+
+            {conflictFile && (
+                <GitConflictView
+                    workspacePath={workspacePath}
+                    file={conflictFile}
+                    operation={operation}
+                    onClose={() => setConflictFile(null)}
+                    onResolved={(file) => {
+                        setConflictFile(null)
+                        addNotification(`Marked ${file} as resolved`, 'success')
+                        fetchStatus()
+                    }}
+                />
+            )}
+
             <style>{gitPanelStyles}</style>
         </div>
     )
@@ -977,46 +1601,147 @@ const gitPanelStyles = `
     }
 
     .history-view {
-        padding: 20px;
+        padding: 12px 20px 20px;
     }
 
-    .log-item {
-        display: flex;
-        gap: 16px;
-        padding-bottom: 24px;
+    .history-filters {
+        display: grid;
+        grid-template-columns: 1fr 1fr;
+        gap: 6px;
+        margin-bottom: 12px;
+    }
+
+    .history-filters input[type='text'] {
+        width: 100%;
+        background: var(--color-surface-subtle);
+        border: 1px solid var(--color-border);
+        border-radius: 8px;
+        padding: 6px 10px;
+        color: var(--color-text);
+        font-size: 12px;
+        outline: none;
+    }
+
+    .history-file-filter {
         position: relative;
+        grid-column: 1 / -1;
     }
 
-    .log-marker {
+    .history-file-filter button {
+        position: absolute;
+        right: 6px;
+        top: 50%;
+        transform: translateY(-50%);
+        display: flex;
+        background: none;
+        border: none;
+        color: var(--color-text-tertiary);
+        cursor: pointer;
+    }
+
+    .compare-bar {
         display: flex;
-        flex-direction: column;
         align-items: center;
-        padding-top: 6px;
+        justify-content: space-between;
+        gap: 8px;
+        margin-bottom: 8px;
+        padding: 6px 10px;
+        border-radius: 8px;
+        background: var(--color-surface-subtle);
+        font-size: 11px;
+        font-family: monospace;
+        color: var(--color-accent);
     }
 
-    .log-dot {
-        width: 8px;
-        height: 8px;
-        border-radius: 50%;
-        background: var(--color-accent);
-        box-shadow: 0 0 10px rgba(59, 130, 246, 0.5);
+    .compare-bar em {
+        font-family: var(--font-sans);
+        font-style: normal;
+        color: var(--color-text-tertiary);
     }
 
-    .log-item:not(:last-child)::after {
-        content: '';
-        position: absolute;
-        left: 3px;
-        top: 14px;
-        bottom: 0;
-        width: 2px;
-        background: var(--color-border);
+    .compare-bar button {
+        display: flex;
+        align-items: center;
+        gap: 4px;
+        padding: 3px 10px;
+        font-size: 11px;
+        font-weight: 700;
+        border-radius: 6px;
+        border: 1px solid var(--color-border);
+        background: var(--color-surface-elevated);
+        color: var(--color-text);
+        cursor: pointer;
+    }
+
+    .graph-row {
+        display: flex;
+        align-items: center;
+        gap: 10px;
+        height: 52px;
+        border-radius: 8px;
+        cursor: pointer;
+    }
+
+    .graph-row:hover { background: var(--color-glass); }
+    .graph-row.selected { background: rgba(59, 130, 246, 0.12); }
+
+    .graph-cell {
+        flex-shrink: 0;
+        fill: none;
+        stroke-width: 2;
+    }
+
+    .log-body {
+        min-width: 0;
+    }
+
+    .log-ref {
+        display: inline-flex;
+        align-items: center;
+        gap: 4px;
+        margin-right: 6px;
+        padding: 1px 6px;
+        border-radius: 100px;
+        font-size: 10px;
+        font-weight: 800;
+        vertical-align: middle;
+        background: rgba(16, 185, 129, 0.1);
+        color: #10b981;
+    }
+
+    .log-actions {
+        display: flex;
+        gap: 4px;
+        margin-left: auto;
+        opacity: 0;
+    }
+
+    .graph-row:hover .log-actions {
+        opacity: 1;
+    }
+
+    .log-tag {
+        display: inline-flex;
+        align-items: center;
+        gap: 4px;
+        margin-right: 6px;
+        padding: 1px 6px;
+        border-radius: 100px;
+        font-size: 10px;
+        font-weight: 800;
+        vertical-align: middle;
+        background: rgba(59, 130, 246, 0.1);
+        color: var(--color-accent);
     }
 
     .log-message {
-        font-size: 14px;
+        font-size: 13px;
         font-weight: 600;
         color: var(--color-text);
         margin-bottom: 4px;
+        white-space: nowrap;
+        overflow: hidden;
+        text-overflow: ellipsis;
     }
 
     .log-meta {
@@ -1032,6 +1757,116 @@ const gitPanelStyles = `
         color: var(--color-accent);
     }
 
+    .branch-option-row {
+        display: flex;
+        align-items: center;
+    }
+
+    .branch-ops {
+        display: flex;
+        gap: 2px;
+        margin-left: auto;
+        opacity: 0;
+    }
+
+    .branch-option-row:hover .branch-ops {
+        opacity: 1;
+    }
+
+    .branch-op {
+        width: 22px;
+        height: 22px;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        border-radius: 6px;
+        background: none;
+        border: none;
+        color: var(--color-text-tertiary);
+        cursor: pointer;
+    }
+
+    .branch-op:hover {
+        background: var(--color-glass);
+        color: var(--color-text);
+    }
+
+    .git-operation-banner {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        padding: 10px 20px;
+        font-size: 12px;
+        font-weight: 700;
+        background: rgba(245, 158, 11, 0.1);
+        color: #f59e0b;
+        border-bottom: 1px solid var(--color-border-subtle);
+    }
+
+    .operation-actions {
+        display: flex;
+        gap: 6px;
+        margin-left: auto;
+    }
+
+    .operation-actions button {
+        padding: 3px 10px;
+        font-size: 11px;
+        font-weight: 700;
+        border-radius: 6px;
+        border: 1px solid var(--color-border);
+        background: var(--color-surface-elevated);
+        color: var(--color-text);
+        cursor: pointer;
+    }
+
+    .operation-actions button:disabled {
+        opacity: 0.4;
+        cursor: default;
+    }
+
+    .operation-actions button.abort:hover {
+        background: #ef4444;
+        border-color: #ef4444;
+        color: white;
+    }
+
+    .git-form {
+        display: flex;
+        flex-direction: column;
+        gap: 10px;
+        padding: 20px;
+        border-bottom: 1px solid var(--color-border-subtle);
+    }
+
+    .git-form input[type='text'] {
+        width: 100%;
+        background: var(--color-surface-subtle);
+        border: 1px solid var(--color-border);
+        border-radius: 10px;
+        padding: 8px 12px;
+        color: var(--color-text);
+        font-size: 13px;
+        outline: none;
+    }
+
+    .git-checkbox,
+    .tag-target {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        font-size: 12px;
+        color: var(--color-text-secondary);
+    }
+
+    .tag-target button {
+        display: flex;
+        background: none;
+        border: none;
+        color: var(--color-text-tertiary);
+        cursor: pointer;
+    }
+
     .floating-diff-overlay {
         position: fixed;
         inset: 0;
@@ -1094,6 +1929,28 @@ const gitPanelStyles = `
     .diff-remove { background: rgba(239, 68, 68, 0.1); color: #ef4444; }
     .diff-hunk { color: var(--color-accent); opacity: 0.6; padding: 8px 16px; }
 
+    .diff-hunk-block .diff-hunk {
+        display: flex;
+        align-items: center;
+        justify-content: space-between;
+        opacity: 1;
+    }
+
+    .hunk-action {
+        padding: 2px 10px;
+        font-size: 11px;
+        font-weight: 700;
+        border-radius: 6px;
+        border: 1px solid var(--color-border);
+        background: var(--color-surface-elevated);
+        color: var(--color-text);
+        opacity: 0;
+        cursor: pointer;
+        transition: opacity 0.2s;
+    }
+
+    .diff-hunk-block:hover .hunk-action { opacity: 1; }
+
     .binary-preview {
         height: 100%;
         display: flex;
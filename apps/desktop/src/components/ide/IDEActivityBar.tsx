@@ -2,14 +2,19 @@
  * SPDX-License-Identifier: AGPL-3.0-only
  */
 import React from 'react'
-import { Files, Search, GitBranch, MessageSquare } from 'lucide-react'
+import { Files, Search, GitBranch, MessageSquare, Network, Puzzle } from 'lucide-react'
+import type { ViewContainerDTO } from '../../types/extensionHost'
+
+// Extension view containers are addressed as `extension:<containerId>`
+export type IDEPanel = 'files' | 'search' | 'git' | 'callHierarchy' | 'collaboration' | `extension:${string}`
 
 interface IDEActivityBarProps {
     activePanel: string
-    onPanelChange: (panel: 'files' | 'search' | 'git' | 'collaboration') => void
+    onPanelChange: (panel: IDEPanel) => void
+    extensionContainers?: ViewContainerDTO[]
 }
 
-export const IDEActivityBar: React.FC<IDEActivityBarProps> = ({ activePanel, onPanelChange }) => {
+export const IDEActivityBar: React.FC<IDEActivityBarProps> = ({ activePanel, onPanelChange, extensionContainers = [] }) => {
     return (
         <div className="activity-bar">
             <button
@@ -33,6 +38,13 @@ export const IDEActivityBar: React.FC<IDEActivityBarProps> = ({ activePanel, onP
             >
                 <GitBranch size={20} />
             </button>
+            <button
+                className={`activity-btn ${activePanel === 'callHierarchy' ? 'active' : ''}`}
+                onClick={() => onPanelChange('callHierarchy')}
+                title="Call Hierarchy"
+            >
+                <Network size={20} />
+            </button>
             <button
                 className={`activity-btn ${activePanel === 'collaboration' ? 'active' : ''}`}
                 onClick={() => onPanelChange('collaboration')}
@@ -40,6 +52,19 @@ export const IDEActivityBar: React.FC<IDEActivityBarProps> = ({ activePanel, onP
             >
                 <MessageSquare size={20} />
             </button>
+            {extensionContainers.map(container => (
+                <button
+                    key={container.id}
+                    className={`activity-btn ${activePanel === `extension:${container.id}` ? 'active' : ''}`}
+                    onClick={() => onPanelChange(`extension:${container.id}`)}
+                    title={container.title}
+                >
+                    {container.icon
+                        // Contributed icons are monochrome masks tinted with the theme color, as in VS Code
+                        ? <span className="activity-icon-mask" style={{ maskImage: `url("${container.icon}")`, WebkitMaskImage: `url("${container.icon}")` }} />
+                        : <Puzzle size={20} />}
+                </button>
+            ))}
         </div>
     )
 }
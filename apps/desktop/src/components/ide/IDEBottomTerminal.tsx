@@ -4,6 +4,7 @@
 import React, { useState, useEffect } from 'react'
 import Terminal from './Terminal'
 import { OutputTerminal } from './terminal/OutputTerminal'
+import { DebugConsole } from './DebugConsole'
 import { useAppStore } from '../../stores/appStore'
 
 interface IDEBottomTerminalProps {
@@ -17,6 +18,7 @@ interface IDEBottomTerminalProps {
     isRunning?: boolean
     isBuilding?: boolean
     isDebugging?: boolean
+    debugSessionId?: string | null
     onActiveTerminalChange?: (id: string) => void
     onOutputInput?: (data: string) => void
 }
@@ -32,6 +34,7 @@ export const IDEBottomTerminal: React.FC<IDEBottomTerminalProps> = ({
     isRunning = false,
     isBuilding = false,
     isDebugging = false,
+    debugSessionId = null,
     onActiveTerminalChange,
     onOutputInput
 }) => {
@@ -210,15 +213,24 @@ export const IDEBottomTerminal: React.FC<IDEBottomTerminalProps> = ({
                 style={{
                     flex: 1,
                     display: activeTab === 'debug' ? 'flex' : 'none',
-                    flexDirection: 'column',
+                    flexDirection: 'row',
                     background: theme === 'light' ? '#ffffff' : '#11111b',
                     overflow: 'hidden'
                 }}
             >
-                <OutputTerminal 
-                    content={debugOutput} 
-                    isRunning={isDebugging}
-                />
+                <div style={{ flex: 1, minWidth: 0, display: 'flex', flexDirection: 'column' }}>
+                    <OutputTerminal 
+                        content={debugOutput} 
+                        isRunning={isDebugging}
+                    />
+                </div>
+                <div style={{
+                    width: '40%',
+                    minWidth: 280,
+                    borderLeft: `1px solid ${theme === 'light' ? '#e5e7eb' : 'var(--border-color, #313244)'}`
+                }}>
+                    <DebugConsole sessionId={isDebugging ? debugSessionId : null} />
+                </div>
             </div>
         </div>
     )
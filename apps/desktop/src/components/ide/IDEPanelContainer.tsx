@@ -5,6 +5,10 @@ import React from 'react'
 import FileExplorer from './FileExplorer'
 import SearchPanel from './SearchPanel'
 import GitPanel from './GitPanel'
+import CallHierarchyPanel from './CallHierarchyPanel'
+import { ExtensionViewContainer } from '../extensions'
+import type { ViewContainerDTO } from '../../types/extensionHost'
+import type { Symbol } from '../../services/symbolService'
 
 interface OpenFile {
     path: string
@@ -28,6 +32,9 @@ interface IDEPanelContainerProps {
     onFileRename: (oldPath: string, newPath: string) => void
     requestedExpansion: string | null
     onExpansionComplete: () => void
+    extensionContainers?: ViewContainerDTO[]
+    callHierarchyRoot?: Symbol | null
+    fileHistoryRequest?: { path: string } | null
 }
 
 export const IDEPanelContainer: React.FC<IDEPanelContainerProps> = ({
@@ -45,7 +52,10 @@ export const IDEPanelContainer: React.FC<IDEPanelContainerProps> = ({
     onFileDelete,
     onFileRename,
     requestedExpansion,
-    onExpansionComplete
+    onExpansionComplete,
+    extensionContainers = [],
+    callHierarchyRoot = null,
+    fileHistoryRequest = null
 }) => {
     if (!sidebarOpen) return null
 
@@ -74,8 +84,22 @@ export const IDEPanelContainer: React.FC<IDEPanelContainerProps> = ({
                 />
             </div>
             <div style={{ display: activePanel === 'git' ? 'block' : 'none', height: '100%' }}>
-                <GitPanel workspacePath={workspacePath} isVisible={activePanel === 'git'} />
+                <GitPanel workspacePath={workspacePath} isVisible={activePanel === 'git'} fileHistoryRequest={fileHistoryRequest} />
             </div>
+            <div style={{ display: activePanel === 'callHierarchy' ? 'block' : 'none', height: '100%' }}>
+                <CallHierarchyPanel
+                    root={callHierarchyRoot}
+                    workspacePath={workspacePath}
+                    onOpenLocation={onSelectFile}
+                />
+            </div>
+            {extensionContainers
+                .filter(container => activePanel === `extension:${container.id}`)
+                .map(container => (
+                    <div key={container.id} style={{ height: '100%' }}>
+                        <ExtensionViewContainer container={container} />
+                    </div>
+                ))}
         </aside>
     )
 }
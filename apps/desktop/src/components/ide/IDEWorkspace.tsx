@@ -6,21 +6,38 @@ import Editor from '@monaco-editor/react'
 import UnifiedAgentPanel from '../UnifiedAgentPanel'
 
 import InlineEditWidget from './InlineEditWidget'
+import BreakpointEditWidget, { BreakpointEditField } from './BreakpointEditWidget'
 import Breadcrumbs from './Breadcrumbs'
 import CommandPalette, { FileItem, IDECommand } from './CommandPalette'
-import { createDefaultCommands } from '../../services/ideCommands'
+import QuickPick, { QuickPickItem } from './QuickPick'
+import InputBox from './InputBox'
+import ChangesReview from '../ChangesReview'
+import { commandRegistry, createDefaultCommands, createExtensionCommands, matchesKeybinding, matchesWhenClause } from '../../services/ideCommands'
 import type { FileSystemItem } from '../../vite-env'
+import type { DebugConfiguration } from '../../types/electron-api'
+import type { CompoundDebugConfiguration, DebugSessionSummary } from '../../types/debug'
+import type { ExtensionCommandDescriptor, ViewContainerDTO } from '../../types/extensionHost'
 import {
     FolderOpen, Wand2, Puzzle
 } from 'lucide-react'
-import { ExtensionManager } from '../extensions'
+import { ExtensionManager, ExtensionWebviewPanels } from '../extensions'
+import { extensionService, languageFeatureBridge } from '../../services/extensions'
+import {
+    semanticOperationService,
+    type SemanticContext,
+    type SemanticOperationResult,
+    type SemanticPreview
+} from '../../services/semanticOperationService'
+import { symbolService, type Symbol } from '../../services/symbolService'
+import { aimeService } from '../../services/aimeService'
 import { useAppStore } from '../../stores/appStore'
 import { useNotificationStore } from '../../stores/notificationStore'
+import { useBreakpointStore, BreakpointChanges } from '../../stores/breakpointStore'
 import { logger } from '../../utils/logger'
 import { validatePath } from '../../utils/path-validator'
 
 // Modular Components
-import { IDEActivityBar } from './IDEActivityBar'
+import { IDEActivityBar, IDEPanel } from './IDEActivityBar'
 import { IDETabList } from './IDETabList'
 import { IDEPanelContainer } from './IDEPanelContainer'
 import { IDEToolbar } from './IDEToolbar'
@@ -30,11 +47,13 @@ import './IDEWorkspace.css'
 
 interface ICodeEditor {
     getSelection(): any
+    getPosition(): any
     getModel(): any
     getAction(id: string): any
     revealLineInCenter(lineNumber: number): void
     setPosition(position: { lineNumber: number; column: number }): void
     focus(): void
+    hasTextFocus(): boolean
     executeEdits(source: string, edits: any[]): boolean
 }
 
@@ -44,9 +63,26 @@ interface OpenFile {
     content: string
     language: string
     isDirty: boolean
+    // Read-only tab of the file at `path` as of commit `hash`
+    revision?: { hash: string; path: string }
+}
+
+// One line of `git:blame`
+interface GitBlameLine {
+    line: number
+    hash: string
+    author: string
+    authorTime: number
+    summary: string
 }
 
+// Monaco model URI for a file, so models (and extension language providers) map back to disk paths
+const toModelPath = (filePath: string) =>
+    `file:///${filePath.replace(/\\/g, '/').replace(/^\/+/, '')}`
+
+
 
+const EMPTY_BREAKPOINT_VALUES: BreakpointChanges = {}
 
 // Storage keys for persistence
 const STORAGE_KEYS = {
@@ -60,6 +96,7 @@ const STORAGE_KEYS = {
     WORD_WRAP: 'kalynt-word-wrap',
     MINIMAP_ENABLED: 'kalynt-minimap-enabled',
     STICKY_SCROLL_ENABLED: 'kalynt-sticky-scroll-enabled',
+    GIT_BLAME_ENABLED: 'kalynt-git-blame-enabled',
     SPLIT_EDITOR_ENABLED: 'kalynt-split-editor-enabled',
     SPLIT_EDITOR_RATIO: 'kalynt-split-editor-ratio',
     SECONDARY_ACTIVE_FILE: 'kalynt-secondary-active-file',
@@ -147,6 +184,12 @@ export default function IDEWorkspace() {
     const [debugOutput, setDebugOutput] = useState<string>('')
     const [isDebugging, setIsDebugging] = useState(false)
     const debugSessionIdRef = useRef<string | null>(null)
+    // The session that the toolbar, stepping commands and debug console act on
+    const [focusedDebugSessionId, setFocusedDebugSessionId] = useState<string | null>(null)
+    const focusDebugSession = useCallback((sessionId: string | null) => {
+        debugSessionIdRef.current = sessionId
+        setFocusedDebugSessionId(sessionId)
+    }, [])
     const [isBuilding, setIsBuilding] = useState(false)
     const buildTaskIdRef = useRef<string | null>(null)
 
@@ -170,7 +213,7 @@ export default function IDEWorkspace() {
         }
     }, [])
 
-    const [activePanel, setActivePanel] = useState<'files' | 'search' | 'git' | 'collaboration'>('files')
+    const [activePanel, setActivePanel] = useState<IDEPanel>('files')
     const [requestedExpansion, setRequestedExpansion] = useState<string | null>(null)
 
     // Split Editor state
@@ -208,6 +251,8 @@ export default function IDEWorkspace() {
 
     // Extension Manager state
     const [showExtensions, setShowExtensions] = useState(false)
+    const [extensionCommands, setExtensionCommands] = useState<IDECommand[]>([])
+    const [extensionViewContainers, setExtensionViewContainers] = useState<ViewContainerDTO[]>([])
     const [unsavedDialog, setUnsavedDialog] = useState<{ isOpen: boolean, filePath: string | null }>({ isOpen: false, filePath: null })
     const [deletedFileDialog, setDeletedFileDialog] = useState<{ isOpen: boolean, filePath: string | null }>({ isOpen: false, filePath: null })
     const [workspaceFiles, setWorkspaceFiles] = useState<FileItem[]>([])
@@ -243,6 +288,14 @@ export default function IDEWorkspace() {
         }
     })
 
+    const [gitBlameEnabled, setGitBlameEnabled] = useState(() => {
+        try {
+            return localStorage.getItem(STORAGE_KEYS.GIT_BLAME_ENABLED) === 'true'
+        } catch {
+            return false
+        }
+    })
+
     const [performanceOptions, setPerformanceOptions] = useState<any>({})
 
     useEffect(() => {
@@ -269,10 +322,51 @@ export default function IDEWorkspace() {
     const secondaryEditorRef = useRef<ICodeEditor | null>(null)
     const monacoRef = useRef<any>(null)
 
-    // Breakpoints state: Map of file path -> array of line numbers
-    const [breakpoints, setBreakpoints] = useState<Map<string, number[]>>(new Map())
+    // Breakpoints of the workspace, shared with the breakpoints panel
+    const breakpoints = useBreakpointStore(state => state.source)
+    const verifiedBreakpoints = useBreakpointStore(state => state.verified)
     const breakpointDecorationsRef = useRef<string[]>([])
 
+    // Blame of the active file as saved on disk, shown for the line under the cursor
+    const blameLinesRef = useRef<Map<number, GitBlameLine> | null>(null)
+    const blameDecorationsRef = useRef<string[]>([])
+    const [breakpointEditor, setBreakpointEditor] = useState<{
+        file: string
+        line: number
+        field: BreakpointEditField
+        values: BreakpointChanges
+        position: { top: number; left: number }
+    } | null>(null)
+    // Choosing a debug configuration or the process to attach to
+    const [quickPick, setQuickPick] = useState<{
+        title: string
+        placeholder?: string
+        items: QuickPickItem[]
+        resolve: (item: QuickPickItem | undefined) => void
+    } | null>(null)
+    // Prompting for a value, e.g. the new name of a symbol
+    const [inputBox, setInputBox] = useState<{
+        title: string
+        placeholder?: string
+        value?: string
+        validate?: (value: string) => string | undefined
+        resolve: (value: string | undefined) => void
+    } | null>(null)
+    // A refactoring waiting for the user to review its changes
+    const [refactorPreview, setRefactorPreview] = useState<SemanticPreview | null>(null)
+    const [callHierarchyRoot, setCallHierarchyRoot] = useState<Symbol | null>(null)
+    const [fileHistoryRequest, setFileHistoryRequest] = useState<{ path: string } | null>(null)
+    // The gutter handlers are registered once per editor, so they read the active file from here
+    const activeFileRef = useRef<string | null>(activeFile)
+    activeFileRef.current = activeFile
+    // Refactorings read open tabs from here so they see unsaved edits
+    const openFilesRef = useRef<OpenFile[]>(openFiles)
+    openFilesRef.current = openFiles
+
+    useEffect(() => {
+        void useBreakpointStore.getState().loadWorkspace(workspacePath)
+    }, [workspacePath])
+
     // Get active file object
     const activeFileObj = openFiles.find(f => f.path === activeFile)
     const secondaryFileObj = openFiles.find(f => f.path === secondaryActiveFile)
@@ -315,6 +409,14 @@ export default function IDEWorkspace() {
         }
     }, [stickyScrollEnabled])
 
+    useEffect(() => {
+        try {
+            localStorage.setItem(STORAGE_KEYS.GIT_BLAME_ENABLED, String(gitBlameEnabled))
+        } catch (error) {
+            logger.ide.warn('Failed to persist git blame state', error)
+        }
+    }, [gitBlameEnabled])
+
     useEffect(() => {
         try {
             localStorage.setItem(STORAGE_KEYS.SPLIT_EDITOR_ENABLED, String(splitEditorEnabled))
@@ -529,90 +631,177 @@ export default function IDEWorkspace() {
         }
         editorRef.current = editor as ICodeEditor
         monacoRef.current = monaco
+        void languageFeatureBridge.attach(monaco)
 
-        // Add breakpoint gutter click handler
+        // Gutter: click toggles a breakpoint, right-click edits its condition, hit count or log message
         const monacoEditor = editor as any
         monacoEditor.onMouseDown((e: any) => {
             // Check if click is on the gutter (line number margin)
             if (e.target.type === 2 || e.target.type === 3) { // GUTTER_GLYPH_MARGIN or GUTTER_LINE_NUMBERS
                 const lineNumber = e.target.position?.lineNumber
-                if (lineNumber && activeFile) {
-                    toggleBreakpoint(activeFile, lineNumber)
+                const filePath = activeFileRef.current
+                if (!lineNumber || !filePath) return
+                if (e.event.rightButton) {
+                    openBreakpointEditor(filePath, lineNumber)
+                } else {
+                    useBreakpointStore.getState().toggleBreakpoint(filePath, lineNumber)
                 }
             }
         })
-    }
 
-    // Toggle breakpoint at a specific line
-    const toggleBreakpoint = useCallback((filePath: string, lineNumber: number) => {
-        setBreakpoints(prev => {
-            const newMap = new Map(prev)
-            const fileBreakpoints = newMap.get(filePath) || []
-
-            if (fileBreakpoints.includes(lineNumber)) {
-                // Remove breakpoint
-                newMap.set(filePath, fileBreakpoints.filter(l => l !== lineNumber))
-            } else {
-                // Add breakpoint
-                newMap.set(filePath, [...fileBreakpoints, lineNumber].sort((a, b) => a - b))
+        const m = monaco as any
+        monacoEditor.addAction({
+            id: 'kalynt.debug.addConditionalBreakpoint',
+            label: 'Add Conditional Breakpoint...',
+            contextMenuGroupId: 'debug',
+            run: (ed: any) => {
+                const filePath = activeFileRef.current
+                if (filePath) openBreakpointEditor(filePath, ed.getPosition().lineNumber, 'condition')
+            }
+        })
+        monacoEditor.addAction({
+            id: 'kalynt.debug.addLogpoint',
+            label: 'Add Logpoint...',
+            contextMenuGroupId: 'debug',
+            run: (ed: any) => {
+                const filePath = activeFileRef.current
+                if (filePath) openBreakpointEditor(filePath, ed.getPosition().lineNumber, 'logMessage')
             }
+        })
+        // Blame follows the cursor without going through React state
+        monacoEditor.onDidChangeCursorPosition(() => renderBlame())
+
+        monacoEditor.addAction({
+            id: 'kalynt.debug.toggleBreakpoint',
+            label: 'Toggle Breakpoint',
+            keybindings: m?.KeyCode ? [m.KeyCode.F8] : undefined,
+            run: (ed: any) => {
+                const filePath = activeFileRef.current
+                if (filePath) useBreakpointStore.getState().toggleBreakpoint(filePath, ed.getPosition().lineNumber)
+            }
+        })
+    }
 
-            return newMap
+    // Open the inline breakpoint editor below a line of the primary editor
+    const openBreakpointEditor = useCallback((filePath: string, lineNumber: number, field?: BreakpointEditField) => {
+        const editor = editorRef.current as any
+        if (!editor) return
+
+        const existing = useBreakpointStore.getState().source.find(bp => bp.file === filePath && bp.line === lineNumber)
+        const visible = editor.getScrolledVisiblePosition({ lineNumber, column: 1 })
+        const rect = editor.getDomNode()?.getBoundingClientRect()
+        const lineHeight = visible?.height || 19
+
+        setBreakpointEditor({
+            file: filePath,
+            line: lineNumber,
+            field: field || (existing?.logMessage ? 'logMessage' : existing?.hitCondition && !existing.condition ? 'hitCondition' : 'condition'),
+            values: {
+                condition: existing?.condition,
+                hitCondition: existing?.hitCondition,
+                logMessage: existing?.logMessage
+            },
+            position: {
+                top: (rect?.top || 0) + (visible?.top || 0) + lineHeight,
+                left: (rect?.left || 0) + 40
+            }
         })
     }, [])
 
-    // Update breakpoint decorations when breakpoints or active file changes
+    const handleSaveBreakpointEdit = useCallback((changes: BreakpointChanges) => {
+        if (!breakpointEditor) return
+        const store = useBreakpointStore.getState()
+        const existing = store.source.find(bp => bp.file === breakpointEditor.file && bp.line === breakpointEditor.line)
+        if (existing) {
+            store.updateBreakpoint(existing.id, changes)
+        } else {
+            store.addBreakpoint(breakpointEditor.file, breakpointEditor.line, changes)
+        }
+        setBreakpointEditor(null)
+        editorRef.current?.focus()
+    }, [breakpointEditor])
+
+    // Update breakpoint decorations when breakpoints, their verification or the active file change
     useEffect(() => {
         if (!editorRef.current || !monacoRef.current || !activeFile) return
 
         const monaco = monacoRef.current
         const editor = editorRef.current as any
-        const fileBreakpoints = breakpoints.get(activeFile) || []
+        const fileBreakpoints = breakpoints.filter(bp => bp.file === activeFile)
 
-        // Clear old decorations
         breakpointDecorationsRef.current = editor.deltaDecorations(
             breakpointDecorationsRef.current,
-            fileBreakpoints.map((lineNumber: number) => ({
-                range: new monaco.Range(lineNumber, 1, lineNumber, 1),
-                options: {
-                    isWholeLine: true,
-                    glyphMarginClassName: 'breakpoint-glyph',
-                    glyphMarginHoverMessage: { value: 'Breakpoint' },
-                    linesDecorationsClassName: 'breakpoint-line-decoration',
+            fileBreakpoints.map(bp => {
+                const kind = bp.logMessage ? 'logpoint' : bp.condition || bp.hitCondition ? 'conditional' : ''
+                // Only sessions report verification; outside a session every breakpoint looks verified
+                const unverified = isDebugging && verifiedBreakpoints[bp.id] === false
+                const details = [
+                    bp.condition && `Expression: ${bp.condition}`,
+                    bp.hitCondition && `Hit Count: ${bp.hitCondition}`,
+                    bp.logMessage && `Log Message: ${bp.logMessage}`,
+                    !bp.enabled && 'Disabled',
+                    unverified && (bp.message || 'Unverified breakpoint')
+                ].filter(Boolean)
+
+                return {
+                    range: new monaco.Range(bp.line, 1, bp.line, 1),
+                    options: {
+                        isWholeLine: true,
+                        glyphMarginClassName: ['breakpoint-glyph', kind, !bp.enabled && 'disabled', unverified && 'unverified'].filter(Boolean).join(' '),
+                        glyphMarginHoverMessage: { value: details.length > 0 ? details.join('  \n') : 'Breakpoint' },
+                        linesDecorationsClassName: bp.enabled ? 'breakpoint-line-decoration' : undefined,
+                    }
                 }
-            }))
+            })
         )
-    }, [breakpoints, activeFile])
+    }, [breakpoints, verifiedBreakpoints, isDebugging, activeFile])
 
-    // Sync breakpoints to debug session when debugging
-    useEffect(() => {
-        if (!isDebugging || !debugSessionIdRef.current) return
-
-        // Send all breakpoints to the debug session
-        const syncBreakpoints = async () => {
-            for (const [filePath, lines] of breakpoints.entries()) {
-                if (lines.length > 0) {
-                    try {
-                        await window.electronAPI?.debug.setBreakpoints(
-                            debugSessionIdRef.current!,
-                            filePath,
-                            lines.map((line, index) => ({
-                                id: `bp-${filePath}-${line}-${index}`,
-                                file: filePath,
-                                line,
-                                enabled: true,
-                                verified: false
-                            }))
-                        )
-                    } catch (error) {
-                        console.error('Failed to sync breakpoints for', filePath, error)
-                    }
-                }
-            }
+    // Annotate the cursor line with the commit that last changed it
+    const renderBlame = useCallback(() => {
+        const editor = editorRef.current as any
+        const monaco = monacoRef.current
+        if (!editor || !monaco) return
+
+        const lineNumber = editor.getPosition()?.lineNumber
+        const blame = lineNumber ? blameLinesRef.current?.get(lineNumber) : undefined
+        const model = editor.getModel()
+        if (!blame || !model) {
+            blameDecorationsRef.current = editor.deltaDecorations(blameDecorationsRef.current, [])
+            return
         }
 
-        syncBreakpoints()
-    }, [isDebugging, breakpoints])
+        const uncommitted = /^0+$/.test(blame.hash)
+        const date = new Date(blame.authorTime).toLocaleDateString()
+        const column = model.getLineMaxColumn(lineNumber)
+        blameDecorationsRef.current = editor.deltaDecorations(blameDecorationsRef.current, [{
+            range: new monaco.Range(lineNumber, column, lineNumber, column),
+            options: {
+                after: {
+                    content: uncommitted ? '    You, uncommitted changes' : `    ${blame.author}, ${date} · ${blame.summary}`,
+                    inlineClassName: 'git-blame-annotation'
+                },
+                hoverMessage: uncommitted ? undefined : { value: `**${blame.hash.slice(0, 7)}** ${blame.author}, ${date}\n\n${blame.summary}` }
+            }
+        }])
+    }, [])
+
+    // Blame is read from disk, so it is only shown while the buffer matches the saved file
+    const activeFileDirty = !!activeFileObj?.isDirty
+    const activeFileIsRevision = !!activeFileObj?.revision
+    useEffect(() => {
+        blameLinesRef.current = null
+        renderBlame()
+        if (!gitBlameEnabled || !workspacePath || !activeFile || activeFileDirty || activeFileIsRevision) return
+
+        let cancelled = false
+        globalThis.window.electronAPI?.git.blame({ repoPath: workspacePath, file: activeFile }).then((result: any) => {
+            // Untracked files and workspaces without git have no blame
+            if (cancelled || !result?.success) return
+            blameLinesRef.current = new Map((result.lines as GitBlameLine[]).map(line => [line.line, line]))
+            renderBlame()
+        })
+        return () => { cancelled = true }
+    }, [gitBlameEnabled, workspacePath, activeFile, activeFileDirty, activeFileIsRevision, renderBlame])
 
     const handleEditorChange = (value: string | undefined) => {
         if (!activeFile || value === undefined) return
@@ -622,7 +811,7 @@ export default function IDEWorkspace() {
     }
 
     const handleSaveFile = useCallback(async () => {
-        if (!activeFile || !activeFileObj) return
+        if (!activeFile || !activeFileObj || activeFileObj.revision) return
 
         // SECURITY FIX: Validate path to prevent traversal attacks
         const validation = validatePath(activeFile, workspacePath)
@@ -783,6 +972,89 @@ export default function IDEWorkspace() {
         }
     }, [])
 
+    const showQuickPick = useCallback((title: string, items: QuickPickItem[], placeholder?: string) => {
+        return new Promise<QuickPickItem | undefined>(resolve => {
+            setQuickPick({ title, placeholder, items, resolve })
+        })
+    }, [])
+
+    const showInputBox = useCallback((title: string, options: {
+        placeholder?: string
+        value?: string
+        validate?: (value: string) => string | undefined
+    } = {}) => {
+        return new Promise<string | undefined>(resolve => {
+            setInputBox({ title, ...options, resolve })
+        })
+    }, [])
+
+    // Asks which configuration or compound to start when there are several; the last one used is offered first
+    const pickDebugTarget = useCallback(async (
+        configurations: DebugConfiguration[],
+        compounds: CompoundDebugConfiguration[]
+    ): Promise<{ config: DebugConfiguration } | { compound: CompoundDebugConfiguration } | undefined> => {
+        if (configurations.length === 1 && compounds.length === 0) return { config: configurations[0] }
+
+        const storageKey = `debug-last-configuration-${workspacePath}`
+        const lastUsed = localStorage.getItem(storageKey)
+        const items: QuickPickItem[] = [
+            ...compounds.map((compound, index) => ({
+                id: `compound:${index}`,
+                label: compound.name,
+                description: `compound · ${compound.configurations.join(', ')}`
+            })),
+            ...configurations.map((config, index) => ({
+                id: `config:${index}`,
+                label: config.name,
+                description: `${config.type} · ${config.request}`
+            }))
+        ].sort((a, b) => Number(b.label === lastUsed) - Number(a.label === lastUsed))
+
+        const picked = await showQuickPick('Select Debug Configuration', items)
+        if (!picked) return undefined
+
+        localStorage.setItem(storageKey, picked.label)
+        const [kind, index] = picked.id.split(':')
+        return kind === 'compound'
+            ? { compound: compounds[Number(index)] }
+            : { config: configurations[Number(index)] }
+    }, [workspacePath, showQuickPick])
+
+    // Values for `${command:...}` variables in the configuration; undefined when the user cancels
+    const collectCommandValues = useCallback(async (config: DebugConfiguration): Promise<Record<string, string> | undefined> => {
+        if (!JSON.stringify(config).includes('${command:pickProcess}')) return {}
+
+        const result = await window.electronAPI?.debug.listProcesses()
+        if (!result?.success || !result.processes) {
+            addNotification(result?.error || 'Failed to list processes', 'error')
+            return undefined
+        }
+
+        // Processes that already opened an endpoint for this debugger come first
+        const debugType = ['node', 'pwa-node'].includes(config.type) ? 'node'
+            : ['debugpy', 'python'].includes(config.type) ? 'debugpy'
+            : undefined
+        const matches = (proc: { debugType?: string }) => Number(debugType !== undefined && proc.debugType === debugType)
+        const processes = [...result.processes].sort((a, b) => matches(b) - matches(a))
+
+        const picked = await showQuickPick('Attach to Process', processes.map(proc => ({
+            id: String(proc.pid),
+            label: proc.name,
+            description: proc.debugPort
+                ? `pid ${proc.pid} · ${proc.debugType} on ${proc.debugHost || 'localhost'}:${proc.debugPort}`
+                : `pid ${proc.pid}`,
+            detail: proc.command
+        })), 'Pick the process to attach to')
+        if (!picked) return undefined
+
+        const target = processes.find(proc => String(proc.pid) === picked.id)
+        // js-debug takes "pid:port" and connects to the inspector the process already opened
+        if (debugType === 'node' && target?.debugType === 'node' && target.debugPort) {
+            return { pickProcess: `${target.pid}:${target.debugPort}` }
+        }
+        return { pickProcess: picked.id }
+    }, [addNotification, showQuickPick])
+
     const handleDebugCode = useCallback(async () => {
         if (!activeFileObj || !workspacePath || !activeFile) return
 
@@ -882,7 +1154,7 @@ export default function IDEWorkspace() {
                 const result = await window.electronAPI?.debug.start(autoConfig, workspacePath, activeFile)
 
                 if (result?.success && result.sessionId) {
-                    debugSessionIdRef.current = result.sessionId
+                    focusDebugSession(result.sessionId)
                     setIsDebugging(true)
 
                     writeToActiveTerminal(`\r\n\x1b[1m\x1b[36m▶ Starting debug session...\x1b[0m\r\n`)
@@ -890,12 +1162,39 @@ export default function IDEWorkspace() {
                     addNotification(result?.error || 'Failed to start debug session', 'error')
                 }
             } else {
-                // Use first available configuration
-                const config = configsResult.configurations[0]
-                const result = await window.electronAPI?.debug.start(config, workspacePath, activeFile)
+                const target = await pickDebugTarget(configsResult.configurations, configsResult.compounds || [])
+                if (!target) return
+
+                if ('compound' in target) {
+                    // Every member that attaches to a process asks for its own
+                    const commandValues: Record<string, Record<string, string>> = {}
+                    for (const name of target.compound.configurations) {
+                        const member = configsResult.configurations.find((config: DebugConfiguration) => config.name === name)
+                        if (!member) continue
+                        const values = await collectCommandValues(member)
+                        if (!values) return
+                        commandValues[name] = values
+                    }
+
+                    writeToActiveTerminal(`\r\n\x1b[1m\x1b[36m▶ Starting compound: ${target.compound.name}\x1b[0m\r\n`)
+                    const result = await window.electronAPI?.debug.startCompound(target.compound.name, workspacePath, activeFile, commandValues)
+                    if (result?.success && result.sessionIds?.length) {
+                        focusDebugSession(result.sessionIds[0])
+                        setIsDebugging(true)
+                    } else if (!result?.success) {
+                        addNotification(result?.error || 'Failed to start compound debug configuration', 'error')
+                    }
+                    return
+                }
+
+                const config = target.config
+                const commandValues = await collectCommandValues(config)
+                if (!commandValues) return
+
+                const result = await window.electronAPI?.debug.start(config, workspacePath, activeFile, commandValues)
 
                 if (result?.success && result.sessionId) {
-                    debugSessionIdRef.current = result.sessionId
+                    focusDebugSession(result.sessionId)
                     setIsDebugging(true)
 
                     writeToActiveTerminal(`\r\n\x1b[1m\x1b[36m▶ Starting debug session: ${config.name}\x1b[0m\r\n`)
@@ -906,17 +1205,15 @@ export default function IDEWorkspace() {
         } catch (error: any) {
             addNotification(`Debug error: ${error.message}`, 'error')
         }
-    }, [activeFileObj, activeFile, handleSaveFile, workspacePath, showTerminal, addNotification, writeToActiveTerminal])
+    }, [activeFileObj, activeFile, handleSaveFile, workspacePath, showTerminal, addNotification, writeToActiveTerminal, pickDebugTarget, collectCommandValues, focusDebugSession])
 
     const handleStopDebug = useCallback(async () => {
         if (debugSessionIdRef.current) {
             try {
+                // Other sessions keep running unless a compound's stopAll ends them; the sessions listener updates the focus
                 await window.electronAPI?.debug.stop(debugSessionIdRef.current)
 
                 writeToActiveTerminal(`\r\n\x1b[33m⚠ Debug session stopped by user\x1b[0m\r\n`)
-
-                setIsDebugging(false)
-                debugSessionIdRef.current = null
             } catch (error: any) {
                 addNotification(`Failed to stop debug session: ${error.message}`, 'error')
             }
@@ -1083,7 +1380,11 @@ export default function IDEWorkspace() {
         const watchId = 'workspace-root'
         window.electronAPI?.fs.watchDir({ id: watchId, dirPath: workspacePath })
         const removeListener = window.electronAPI?.fs.onChange((data: { id: string; event: string; path: string }) => {
-            if (data.id === watchId && (data.event === 'unlink' || data.event === 'unlinkDir')) {
+            if (data.id !== watchId) return
+            // Keep the symbol graph in step with edits made outside the editor too
+            if (data.event === 'add' || data.event === 'change') void aimeService.updateFile(data.path)
+            if (data.event === 'unlink' || data.event === 'unlinkDir') {
+                aimeService.removePath(data.path)
                 const normalizedDeletedPath = data.path.replace(/\\/g, '/')
                 setOpenFiles(prev => prev.filter(f => f.path.replace(/\\/g, '/') !== normalizedDeletedPath))
                 setActiveFile(prev => prev && prev.replace(/\\/g, '/') === normalizedDeletedPath ? null : prev)
@@ -1137,9 +1438,6 @@ export default function IDEWorkspace() {
         })
 
         const removeTerminatedListener = window.electronAPI?.debug.onTerminated(() => {
-            setIsDebugging(false)
-            debugSessionIdRef.current = null
-
             setDebugOutput(prev => prev + `\r\n\x1b[36m✓ Debug session terminated\x1b[0m\r\n`)
             addNotification('Debug session ended', 'info')
         })
@@ -1156,10 +1454,22 @@ export default function IDEWorkspace() {
             const errorText = typeof data.error === 'string' ? data.error : JSON.stringify(data.error)
             addNotification(`Debug error: ${errorText}`, 'error')
             setDebugOutput(prev => prev + `\r\n\x1b[31mError: ${errorText}\x1b[0m\r\n`)
-            setIsDebugging(false)
-            debugSessionIdRef.current = null
         })
 
+        // Debugging lasts as long as any session runs; when the focused one ends, the next one takes over
+        const removeSessionsListener = window.electronAPI?.debug.onSessions((sessions: DebugSessionSummary[]) => {
+            setIsDebugging(sessions.length > 0)
+            if (!sessions.some(session => session.id === debugSessionIdRef.current)) {
+                focusDebugSession(sessions[0]?.id ?? null)
+            }
+        })
+
+        const handleFocusSession = (e: Event) => {
+            const { sessionId } = (e as CustomEvent<{ sessionId: string }>).detail
+            focusDebugSession(sessionId)
+        }
+        window.addEventListener('kalynt-focus-debug-session', handleFocusSession)
+
         const removeMissingAdapterListener = window.electronAPI?.debug.onAdapterMissing((data: { type: string, requiredBinary: string, installInstructions: string }) => {
             addNotification(`Debugger Missing: ${data.requiredBinary}`, 'warning')
             setDebugOutput(prev => prev + `\r\n\x1b[33mWarning: Debug adapter '${data.requiredBinary}' not found.\x1b[0m\r\n\x1b[36m${data.installInstructions}\x1b[0m\r\n`)
@@ -1172,8 +1482,10 @@ export default function IDEWorkspace() {
             removeOutputListener?.()
             removeErrorListener?.()
             removeMissingAdapterListener?.()
+            removeSessionsListener?.()
+            window.removeEventListener('kalynt-focus-debug-session', handleFocusSession)
         }
-    }, [addNotification])
+    }, [addNotification, focusDebugSession])
 
     const handleNewFile = useCallback(async () => {
         if (!workspacePath) return
@@ -1205,6 +1517,223 @@ export default function IDEWorkspace() {
         setShowExtensions(true)
     }, [])
 
+    // Commands contributed by extensions, kept in sync with the extension host
+    useEffect(() => {
+        let disposed = false
+        const apply = (descriptors: ExtensionCommandDescriptor[]) => {
+            if (disposed) return
+            const commands = createExtensionCommands(descriptors, (descriptor, error) => {
+                addNotification(`${descriptor.title}: ${error.message}`, 'error')
+            })
+            commandRegistry.setExtensionCommands(commands)
+            setExtensionCommands(commands)
+        }
+        const refresh = () => { extensionService.getCommands().then(apply) }
+
+        refresh()
+        const unsubCommands = extensionService.onCommandsChanged(apply)
+        const unsubInstalled = extensionService.onInstalledChange(refresh)
+        return () => {
+            disposed = true
+            unsubCommands()
+            unsubInstalled()
+        }
+    }, [addNotification])
+
+    // View containers contributed by extensions for the activity bar
+    useEffect(() => {
+        const api = window.electronAPI?.extensions
+        if (!api?.views) return
+
+        const refresh = () => {
+            api.views().then(setExtensionViewContainers).catch(error => {
+                logger.ide.warn('Failed to load extension views', error)
+            })
+        }
+        refresh()
+        const unsubViews = api.onViewsChanged(setExtensionViewContainers)
+        const unsubInstalled = extensionService.onInstalledChange(refresh)
+        return () => {
+            unsubViews()
+            unsubInstalled()
+        }
+    }, [])
+
+    // Fall back to the explorer when the active extension container goes away
+    useEffect(() => {
+        if (activePanel.startsWith('extension:') &&
+            !extensionViewContainers.some(container => `extension:${container.id}` === activePanel)) {
+            setActivePanel('files')
+        }
+    }, [activePanel, extensionViewContainers])
+
+    const refactorContext = useCallback((): SemanticContext => ({
+        workspacePath: workspacePath || '',
+        readFile: async (filePath) => {
+            const open = openFilesRef.current.find(f => f.path === filePath)
+            if (open) return open.content
+            const result = await globalThis.window.electronAPI?.fs.readFile(filePath)
+            return result?.success ? result.content as string : null
+        }
+    }), [workspacePath])
+
+    const showRefactorResult = useCallback((result: SemanticOperationResult) => {
+        if (result.success && result.preview) setRefactorPreview(result.preview)
+        else addNotification(result.error || 'Refactoring failed', 'error')
+    }, [addNotification])
+
+    // The selected identifier, or the word under the cursor
+    const getEditorSymbol = useCallback(() => {
+        const editor = editorRef.current
+        const model = editor?.getModel()
+        const position = editor?.getPosition()
+        if (!activeFile || !model || !position) return null
+
+        const selection = editor?.getSelection()
+        const selected = selection && !selection.isEmpty() ? model.getValueInRange(selection).trim() : ''
+        const name = /^[A-Za-z_$][\w$]*$/.test(selected) ? selected : model.getWordAtPosition(position)?.word
+        if (!name) return null
+        return { filePath: activeFile, name, line: selected ? selection.startLineNumber : position.lineNumber as number }
+    }, [activeFile])
+
+    const handleRefactorRename = useCallback(async () => {
+        const symbol = getEditorSymbol()
+        if (!symbol) { addNotification('Place the cursor on the symbol to rename', 'warning'); return }
+
+        const newName = await showInputBox(`Rename ${symbol.name}`, {
+            value: symbol.name,
+            placeholder: 'New name',
+            validate: value => semanticOperationService.validateOperation('rename', {
+                filePath: symbol.filePath, symbolName: symbol.name, newName: value
+            }).errors[0]
+        })
+        if (!newName) return
+
+        showRefactorResult(await semanticOperationService.renameSymbol({
+            filePath: symbol.filePath,
+            symbolName: symbol.name,
+            newName,
+            line: symbol.line
+        }, refactorContext()))
+    }, [getEditorSymbol, showInputBox, showRefactorResult, refactorContext, addNotification])
+
+    const handleRefactorExtract = useCallback(async () => {
+        const selection = editorRef.current?.getSelection()
+        if (!activeFile || !selection || selection.isEmpty()) {
+            addNotification('Select the lines to extract', 'warning')
+            return
+        }
+        // A selection that ends at the start of a line does not include that line
+        const endLine = selection.endColumn === 1 && selection.endLineNumber > selection.startLineNumber
+            ? selection.endLineNumber - 1
+            : selection.endLineNumber
+
+        const methodName = await showInputBox('Extract Method', {
+            value: 'extracted',
+            placeholder: 'Name of the new method',
+            validate: value => semanticOperationService.validateOperation('extractMethod', {
+                filePath: activeFile, startLine: selection.startLineNumber, endLine, methodName: value
+            }).errors[0]
+        })
+        if (!methodName) return
+
+        showRefactorResult(await semanticOperationService.extractMethod({
+            filePath: activeFile,
+            startLine: selection.startLineNumber,
+            endLine,
+            methodName
+        }, refactorContext()))
+    }, [activeFile, showInputBox, showRefactorResult, refactorContext, addNotification])
+
+    const handleRefactorMove = useCallback(async () => {
+        const symbol = getEditorSymbol()
+        if (!symbol || !workspacePath) { addNotification('Place the cursor on the symbol to move', 'warning'); return }
+
+        const newFileId = '__new-file__'
+        const picked = await showQuickPick(`Move ${symbol.name}`, [
+            { id: newFileId, label: 'New File...', description: 'Enter a path in the workspace' },
+            ...workspaceFiles
+                .filter(f => f.type === 'file' && f.path !== symbol.filePath && /\.(tsx?|jsx?|mjs|cjs)$/.test(f.name))
+                .map(f => ({ id: f.path, label: f.name, description: f.path.slice(workspacePath.length + 1) }))
+        ], 'Select the file to move the symbol to')
+        if (!picked) return
+
+        let targetFilePath = picked.id
+        if (picked.id === newFileId) {
+            const relativePath = await showInputBox('Move to New File', {
+                placeholder: 'Path relative to the workspace, e.g. src/utils/format.ts',
+                validate: value => (value.trim() ? undefined : 'Enter a file path')
+            })
+            if (!relativePath) return
+            const validation = validatePath(relativePath.trim(), workspacePath)
+            if (!validation.valid) { addNotification(validation.error || 'Invalid file path', 'error'); return }
+            targetFilePath = validation.normalizedPath!
+        }
+
+        showRefactorResult(await semanticOperationService.moveSymbol({
+            filePath: symbol.filePath,
+            symbolName: symbol.name,
+            targetFilePath
+        }, refactorContext()))
+    }, [getEditorSymbol, workspacePath, workspaceFiles, showQuickPick, showInputBox, showRefactorResult, refactorContext, addNotification])
+
+    const handleRefactorInline = useCallback(async () => {
+        const symbol = getEditorSymbol()
+        if (!symbol) { addNotification('Place the cursor on the variable to inline', 'warning'); return }
+
+        showRefactorResult(await semanticOperationService.inlineVariable({
+            filePath: symbol.filePath,
+            variableName: symbol.name,
+            line: symbol.line
+        }, refactorContext()))
+    }, [getEditorSymbol, showRefactorResult, refactorContext, addNotification])
+
+    const handleShowCallHierarchy = useCallback(() => {
+        const symbol = getEditorSymbol()
+        if (!symbol) { addNotification('Place the cursor on a function to show its call hierarchy', 'warning'); return }
+
+        const root = symbolService.findSymbolAt(symbol.filePath, symbol.name, symbol.line)
+        if (!root) { addNotification(`'${symbol.name}' is not in the symbol index yet`, 'warning'); return }
+
+        setCallHierarchyRoot(root)
+        setActivePanel('callHierarchy')
+        setSidebarOpen(true)
+    }, [getEditorSymbol, addNotification])
+
+    // The git panel filters its log down to the file
+    const handleShowFileHistory = useCallback((filePath: string) => {
+        setFileHistoryRequest({ path: filePath })
+        setActivePanel('git')
+        setSidebarOpen(true)
+    }, [])
+
+    // Open tabs take the edits as unsaved changes; other files are written directly
+    const applyRefactorPreview = useCallback(async (preview: SemanticPreview) => {
+        setRefactorPreview(null)
+        const failed: string[] = []
+        for (const file of preview.files) {
+            const validation = validatePath(file.path, workspacePath)
+            if (!validation.valid) { failed.push(file.path); continue }
+            const filePath = validation.normalizedPath!
+            const isOpen = openFilesRef.current.some(f => f.path === filePath)
+
+            if (file.newContent === null) {
+                const result = await globalThis.window.electronAPI?.fs.delete(filePath)
+                if (!result?.success) failed.push(filePath)
+                else if (isOpen) setOpenFiles(prev => prev.filter(f => f.path !== filePath))
+            } else if (isOpen) {
+                const content = file.newContent
+                setOpenFiles(prev => prev.map(f => (f.path === filePath ? { ...f, content, isDirty: true } : f)))
+            } else {
+                const result = await globalThis.window.electronAPI?.fs.writeFile({ path: filePath, content: file.newContent })
+                if (!result?.success) failed.push(filePath)
+            }
+        }
+
+        if (failed.length > 0) addNotification(`Could not update ${failed.join(', ')}`, 'error')
+        else addNotification(`${preview.title}: ${preview.files.length} file${preview.files.length === 1 ? '' : 's'} changed`, 'success')
+    }, [workspacePath, addNotification])
+
     const ideCommands = useMemo<IDECommand[]>(() => {
         const baseCommands = createDefaultCommands({
             newFile: handleNewFile,
@@ -1218,6 +1747,7 @@ export default function IDEWorkspace() {
             toggleAIPanel: () => setAgentOpen(!agentOpen),
             runCode: handleRunCode,
             debugCode: handleDebugCode,
+            showBreakpoints: () => { window.dispatchEvent(new CustomEvent('kalynt-show-breakpoints')) },
             buildCode: handleBuildCode,
             formatDocument: () => editorRef.current?.getAction('editor.action.formatDocument')?.run(),
             goToLine: () => editorRef.current?.getAction('editor.action.gotoLine')?.run(),
@@ -1225,10 +1755,17 @@ export default function IDEWorkspace() {
             gitCommit: () => setActivePanel('git'),
             gitPush: async () => { if (workspacePath) await globalThis.window.electronAPI?.git.push(workspacePath) },
             gitPull: async () => { if (workspacePath) await globalThis.window.electronAPI?.git.pull(workspacePath) },
+            gitToggleBlame: () => setGitBlameEnabled(prev => !prev),
+            gitFileHistory: () => { if (activeFile) handleShowFileHistory(activeFileObj?.revision?.path ?? activeFile) },
             aiChat: () => setAgentOpen(true),
             aiExplain: () => setAgentOpen(true),
             aiRefactor: () => { }, // Handled via Inline AI tool
-            openSettings: () => setShowSettings(true)
+            openSettings: () => setShowSettings(true),
+            refactorRename: handleRefactorRename,
+            refactorExtractMethod: handleRefactorExtract,
+            refactorMoveSymbol: handleRefactorMove,
+            refactorInlineVariable: handleRefactorInline,
+            showCallHierarchy: handleShowCallHierarchy
         })
 
         // Add extension command
@@ -1241,8 +1778,8 @@ export default function IDEWorkspace() {
             action: handleShowExtensions
         }
 
-        return [...baseCommands, extensionCommand]
-    }, [activeFile, workspacePath, handleNewFile, handleSaveFile, handleCloseFile, handleRunCode, handleDebugCode, handleBuildCode, agentOpen, handleShowExtensions, setShowSettings, handleOpenFolder])
+        return [...baseCommands, extensionCommand, ...extensionCommands]
+    }, [extensionCommands, activeFile, workspacePath, handleNewFile, handleSaveFile, handleCloseFile, handleRunCode, handleDebugCode, handleBuildCode, agentOpen, handleShowExtensions, setShowSettings, handleOpenFolder, handleRefactorRename, handleRefactorExtract, handleRefactorMove, handleRefactorInline, handleShowCallHierarchy, handleShowFileHistory, activeFileObj?.revision])
 
     useEffect(() => {
         const handleKeyDown = (e: KeyboardEvent) => {
@@ -1315,10 +1852,26 @@ export default function IDEWorkspace() {
                 if (isShift && key === 'f11') { e.preventDefault(); handleDebugStepOut() }
                 if (key === 'f6') { e.preventDefault(); handleDebugPause() }
             }
+
+            // Extension keybindings never shadow the built-in shortcuts above, and
+            // typing into inputs, the terminal or dialogs is not meant for them
+            const target = e.target as HTMLElement | null
+            const inEditor = !!target?.closest('.monaco-editor')
+            const editable = !!target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+            if (!e.defaultPrevented && (inEditor || !editable)) {
+                const context = {
+                    editorTextFocus: !!editorRef.current?.hasTextFocus(),
+                    editorLangId: editorRef.current?.getModel()?.getLanguageId()
+                }
+                const bound = extensionCommands.find(cmd =>
+                    cmd.shortcut && matchesKeybinding(cmd.shortcut, e) && matchesWhenClause(cmd.when, context)
+                )
+                if (bound) { e.preventDefault(); bound.action() }
+            }
         }
         window.addEventListener('keydown', handleKeyDown)
         return () => window.removeEventListener('keydown', handleKeyDown)
-    }, [activeFile, openFiles, handleSaveFile, handleNewFile, handleOpenFolder, handleCloseFile, handleRunCode, handleStopCode, isRunning, handleDebugCode, handleStopDebug, isDebugging, handleBuildCode, handleStopBuild, isBuilding, handleDebugContinue, handleDebugStepOver, handleDebugStepInto, handleDebugStepOut, handleDebugPause, handleToggleSplitEditor, setShowSettings])
+    }, [activeFile, openFiles, handleSaveFile, handleNewFile, handleOpenFolder, handleCloseFile, handleRunCode, handleStopCode, isRunning, handleDebugCode, handleStopDebug, isDebugging, handleBuildCode, handleStopBuild, isBuilding, handleDebugContinue, handleDebugStepOver, handleDebugStepInto, handleDebugStepOut, handleDebugPause, handleToggleSplitEditor, setShowSettings, extensionCommands])
 
     useEffect(() => {
         if (activeFile && pendingLine && editorRef.current) {
@@ -1365,11 +1918,45 @@ export default function IDEWorkspace() {
             }
         }
 
+        // Open a file as of a commit in a read-only tab next to the working copy
+        const handleOpenRevision = async (e: Event) => {
+            const detail = (e as CustomEvent<{ path: string; revision: string }>).detail
+            if (!detail?.path || !detail.revision || !workspacePath) return
+
+            const validation = validatePath(detail.path, workspacePath)
+            if (!validation.valid) return
+            const filePath = validation.normalizedPath!
+            const hash = detail.revision.slice(0, 7)
+            const tabPath = `${filePath}@${hash}`
+            if (openFiles.some(f => f.path === tabPath)) {
+                setActiveFile(tabPath)
+                return
+            }
+
+            const fileName = filePath.split(/[/\\]/).pop() || 'untitled'
+            const result = await globalThis.window.electronAPI?.git.fileAtRevision({ repoPath: workspacePath, file: filePath, revision: detail.revision })
+            if (!result?.success) {
+                addNotification(`Failed to open ${fileName} at ${hash}: ${result?.error || 'Unknown error'}`, 'error')
+                return
+            }
+            setOpenFiles(prev => [...prev, {
+                path: tabPath,
+                name: `${fileName} @ ${hash}`,
+                content: result.content,
+                language: getLanguageFromFileName(fileName),
+                isDirty: false,
+                revision: { hash, path: filePath }
+            }])
+            setActiveFile(tabPath)
+        }
+
         window.addEventListener('kalynt-open-file', handleOpen)
         window.addEventListener('kalynt-apply-fix', handleApplyFix)
+        window.addEventListener('kalynt-open-revision', handleOpenRevision)
         return () => {
             window.removeEventListener('kalynt-open-file', handleOpen)
             window.removeEventListener('kalynt-apply-fix', handleApplyFix)
+            window.removeEventListener('kalynt-open-revision', handleOpenRevision)
         }
     })
 
@@ -1457,7 +2044,11 @@ export default function IDEWorkspace() {
         <div className={`ide-workspace ${isResizingSidebar ? 'resizing-active' : ''}`}>
             {isResizingSidebar && <div className="resize-overlay" />}
 
-            <IDEActivityBar activePanel={activePanel} onPanelChange={setActivePanel} />
+            <IDEActivityBar
+                activePanel={activePanel}
+                onPanelChange={setActivePanel}
+                extensionContainers={extensionViewContainers}
+            />
 
             <IDEPanelContainer
                 sidebarOpen={sidebarOpen}
@@ -1467,6 +2058,8 @@ export default function IDEWorkspace() {
                 onOpenFolder={handleOpenFolder}
                 onCloseWorkspace={handleCloseWorkspace}
                 onSelectFile={handleOpenFile}
+                callHierarchyRoot={callHierarchyRoot}
+                fileHistoryRequest={fileHistoryRequest}
                 onCloseFile={handleCloseFile}
                 selectedFile={activeFile}
                 openFiles={openFiles.map(f => ({ path: f.path, name: f.name, isDirty: f.isDirty }))}
@@ -1483,6 +2076,7 @@ export default function IDEWorkspace() {
                 }}
                 requestedExpansion={requestedExpansion}
                 onExpansionComplete={() => setRequestedExpansion(null)}
+                extensionContainers={extensionViewContainers}
             />
 
             {sidebarOpen && (
@@ -1544,10 +2138,12 @@ export default function IDEWorkspace() {
                         filePath={activeFile}
                         workspacePath={workspacePath}
                         onNavigate={handleOpenFile}
+                        onShowHistory={() => handleShowFileHistory(activeFileObj?.revision?.path ?? activeFile)}
                     />
                 )}
 
                 <div className={`editor-container ${splitEditorEnabled ? 'split-mode' : ''}`}>
+                    <ExtensionWebviewPanels />
                     {activeFileObj ? (
                         <div className="split-editor-container">
                             {/* Primary Editor Pane */}
@@ -1563,12 +2159,14 @@ export default function IDEWorkspace() {
                                 <div style={{ height: splitEditorEnabled ? 'calc(100% - 24px)' : '100%' }}>
                                     <Editor
                                         height="100%"
+                                        path={toModelPath(activeFileObj.path)}
                                         language={activeFileObj.language}
                                         value={activeFileObj.content}
                                         onChange={handleEditorChange}
                                         theme={useAppStore.getState().theme === 'light' ? 'light' : 'vs-dark'}
                                         onMount={handleEditorDidMount}
                                         options={{
+                                            readOnly: !!activeFileObj.revision,
                                             fontSize: 14,
                                             fontFamily: "'SF Mono', 'Fira Code', 'Consolas', monospace",
                                             minimap: { enabled: performanceOptions.minimap?.enabled ?? minimapEnabled, scale: 1 },
@@ -1621,12 +2219,14 @@ export default function IDEWorkspace() {
                                         <div style={{ height: 'calc(100% - 24px)' }}>
                                             <Editor
                                                 height="100%"
+                                                path={toModelPath(secondaryFileObj.path)}
                                                 language={secondaryFileObj.language}
                                                 value={secondaryFileObj.content}
                                                 onChange={handleSecondaryEditorChange}
                                                 theme={useAppStore.getState().theme === 'light' ? 'light' : 'vs-dark'}
                                                 onMount={handleSecondaryEditorDidMount}
                                                 options={{
+                                                    readOnly: !!secondaryFileObj.revision,
                                                     fontSize: 14,
                                                     fontFamily: "'SF Mono', 'Fira Code', 'Consolas', monospace",
                                                     minimap: { enabled: performanceOptions.minimap?.enabled ?? minimapEnabled, scale: 1 },
@@ -1682,6 +2282,7 @@ export default function IDEWorkspace() {
                     isRunning={isRunning}
                     isBuilding={isBuilding}
                     isDebugging={isDebugging}
+                    debugSessionId={focusedDebugSessionId}
                     onActiveTerminalChange={setActiveTerminalId}
                     onOutputInput={handleOutputInput}
                 />
@@ -1715,8 +2316,57 @@ export default function IDEWorkspace() {
                 workspacePath={workspacePath || undefined}
             />
 
+            <QuickPick
+                open={quickPick !== null}
+                title={quickPick?.title || ''}
+                placeholder={quickPick?.placeholder}
+                items={quickPick?.items || []}
+                onSelect={item => {
+                    quickPick?.resolve(item)
+                    setQuickPick(null)
+                }}
+            />
+
+            <InputBox
+                open={inputBox !== null}
+                title={inputBox?.title || ''}
+                placeholder={inputBox?.placeholder}
+                value={inputBox?.value}
+                validate={inputBox?.validate}
+                onSubmit={value => {
+                    inputBox?.resolve(value)
+                    setInputBox(null)
+                }}
+            />
+
+            {refactorPreview && (
+                <ChangesReview
+                    title={`${refactorPreview.title}${refactorPreview.source === 'lsp' ? ' · language server' : ''}`}
+                    changes={{
+                        files: refactorPreview.files,
+                        errors: [],
+                        warnings: refactorPreview.warnings.map(message => ({ path: refactorPreview.files[0].path, message }))
+                    }}
+                    onApply={() => { void applyRefactorPreview(refactorPreview) }}
+                    onDiscard={() => setRefactorPreview(null)}
+                />
+            )}
+
             {showExtensions && <ExtensionManager onClose={() => setShowExtensions(false)} />}
 
+            <BreakpointEditWidget
+                visible={breakpointEditor !== null}
+                line={breakpointEditor?.line || 0}
+                initialField={breakpointEditor?.field || 'condition'}
+                values={breakpointEditor?.values || EMPTY_BREAKPOINT_VALUES}
+                position={breakpointEditor?.position || { top: 0, left: 0 }}
+                onSave={handleSaveBreakpointEdit}
+                onCancel={() => {
+                    setBreakpointEditor(null)
+                    editorRef.current?.focus()
+                }}
+            />
+
             <InlineEditWidget
                 visible={inlineEditVisible}
                 selectedCode={inlineEditSelection}
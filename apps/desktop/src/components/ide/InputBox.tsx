@@ -0,0 +1,110 @@
+/*
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+import { useState, useEffect, useRef } from 'react'
+import { CornerDownLeft, Pencil } from 'lucide-react'
+
+interface InputBoxProps {
+    readonly open: boolean
+    readonly title: string
+    readonly placeholder?: string
+    readonly value?: string
+    // Returns a message while the value cannot be accepted
+    readonly validate?: (value: string) => string | undefined
+    // Called with undefined when the input is dismissed
+    readonly onSubmit: (value: string | undefined) => void
+}
+
+/**
+ * Single line prompt shown above the editor, e.g. for the new name of a
+ * symbol. Styled like the QuickPick so both read as one family.
+ */
+export default function InputBox({ open, title, placeholder, value, validate, onSubmit }: InputBoxProps) {
+    const [text, setText] = useState('')
+    const inputRef = useRef<HTMLInputElement>(null)
+
+    useEffect(() => {
+        if (!open) return
+        setText(value || '')
+        // Select the suggestion so typing replaces it
+        requestAnimationFrame(() => inputRef.current?.select())
+    }, [open, value])
+
+    if (!open) return null
+
+    const message = validate?.(text)
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Enter' && !message) {
+            e.preventDefault()
+            onSubmit(text)
+        }
+        if (e.key === 'Escape') {
+            e.preventDefault()
+            onSubmit(undefined)
+        }
+    }
+
+    return (
+        <div className="input-box-overlay" onMouseDown={e => { if (e.target === e.currentTarget) onSubmit(undefined) }}>
+            <div className="input-box-container">
+                <div className="input-box-input-wrapper">
+                    <Pencil size={16} className="input-box-icon" />
+                    <input
+                        ref={inputRef}
+                        value={text}
+                        onChange={e => setText(e.target.value)}
+                        onKeyDown={handleKeyDown}
+                        placeholder={placeholder || title}
+                        className="input-box-input"
+                        spellCheck={false}
+                    />
+                    <div className="input-box-title">{title}</div>
+                </div>
+                <div className={`input-box-hint ${message ? 'invalid' : ''}`}>
+                    {message || <><CornerDownLeft size={12} /> Press Enter to confirm or Escape to cancel</>}
+                </div>
+            </div>
+
+            <style>{`
+                .input-box-overlay {
+                    position: fixed; inset: 0; z-index: 100000;
+                    background: rgba(0, 0, 0, 0.6);
+                    display: flex; align-items: flex-start; justify-content: center;
+                    padding-top: 12vh;
+                }
+
+                .input-box-container {
+                    width: 640px; max-width: 90vw;
+                    background: #0a0a0a; border: 1px solid rgba(255, 255, 255, 0.1);
+                    border-radius: 12px; overflow: hidden;
+                    box-shadow: 0 40px 100px rgba(0, 0, 0, 0.8);
+                }
+
+                .input-box-input-wrapper {
+                    display: flex; align-items: center; gap: 12px;
+                    padding: 14px 18px; border-bottom: 1px solid rgba(255, 255, 255, 0.05);
+                }
+
+                .input-box-icon { color: #3b82f6; }
+
+                .input-box-input {
+                    flex: 1; background: none; border: none; outline: none;
+                    color: white; font-size: 15px; font-family: var(--font-mono, monospace);
+                }
+
+                .input-box-title {
+                    font-size: 10px; font-weight: 800; color: rgba(255, 255, 255, 0.25);
+                    text-transform: uppercase; white-space: nowrap;
+                }
+
+                .input-box-hint {
+                    display: flex; align-items: center; gap: 6px;
+                    padding: 8px 18px; font-size: 11px; color: rgba(255, 255, 255, 0.3);
+                }
+
+                .input-box-hint.invalid { color: #f48771; }
+            `}</style>
+        </div>
+    )
+}
@@ -0,0 +1,131 @@
+/*
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+import { useState, useEffect } from 'react'
+import { Command } from 'cmdk'
+import { Search, Sparkles } from 'lucide-react'
+
+export interface QuickPickItem {
+    id: string
+    label: string
+    description?: string
+    detail?: string
+}
+
+interface QuickPickProps {
+    readonly open: boolean
+    readonly title: string
+    readonly placeholder?: string
+    readonly items: QuickPickItem[]
+    // Called with undefined when the pick is dismissed
+    readonly onSelect: (item: QuickPickItem | undefined) => void
+}
+
+/**
+ * Single selection list shown above the editor, e.g. to choose a debug
+ * configuration or the process to attach to.
+ */
+export default function QuickPick({ open, title, placeholder, items, onSelect }: QuickPickProps) {
+    const [search, setSearch] = useState('')
+
+    useEffect(() => {
+        if (open) setSearch('')
+    }, [open])
+
+    return (
+        <Command.Dialog
+            open={open}
+            onOpenChange={isOpen => { if (!isOpen) onSelect(undefined) }}
+            label={title}
+            className="quick-pick-overlay"
+        >
+            <div className="quick-pick-container">
+                <div className="quick-pick-input-wrapper">
+                    <Search size={16} className="quick-pick-search-icon" />
+                    <Command.Input
+                        value={search}
+                        onValueChange={setSearch}
+                        placeholder={placeholder || title}
+                        className="quick-pick-input"
+                    />
+                    <div className="quick-pick-title">{title}</div>
+                </div>
+
+                <Command.List className="quick-pick-list">
+                    <Command.Empty className="quick-pick-empty">
+                        <Sparkles size={20} className="opacity-10 mb-2" />
+                        <p>No results found for &quot;{search}&quot;</p>
+                    </Command.Empty>
+
+                    {items.map(item => (
+                        <Command.Item
+                            key={item.id}
+                            // The id keeps values unique; label and description make both searchable
+                            value={`${item.id} ${item.label} ${item.description || ''}`}
+                            onSelect={() => onSelect(item)}
+                            className="quick-pick-item"
+                        >
+                            <div className="quick-pick-item-line">
+                                <span className="quick-pick-label">{item.label}</span>
+                                {item.description && <span className="quick-pick-description">{item.description}</span>}
+                            </div>
+                            {item.detail && <span className="quick-pick-detail">{item.detail}</span>}
+                        </Command.Item>
+                    ))}
+                </Command.List>
+            </div>
+
+            <style>{`
+                .quick-pick-overlay {
+                    position: fixed; inset: 0; z-index: 100000;
+                    background: rgba(0, 0, 0, 0.6);
+                    display: flex; align-items: flex-start; justify-content: center;
+                    padding-top: 12vh;
+                }
+
+                .quick-pick-container {
+                    width: 640px; max-width: 90vw;
+                    background: #0a0a0a; border: 1px solid rgba(255, 255, 255, 0.1);
+                    border-radius: 12px; overflow: hidden;
+                    box-shadow: 0 40px 100px rgba(0, 0, 0, 0.8);
+                }
+
+                .quick-pick-input-wrapper {
+                    display: flex; align-items: center; gap: 12px;
+                    padding: 14px 18px; border-bottom: 1px solid rgba(255, 255, 255, 0.05);
+                }
+
+                .quick-pick-search-icon { color: #3b82f6; }
+
+                .quick-pick-input {
+                    flex: 1; background: none; border: none; outline: none;
+                    color: white; font-size: 15px;
+                }
+
+                .quick-pick-title {
+                    font-size: 10px; font-weight: 800; color: rgba(255, 255, 255, 0.25);
+                    text-transform: uppercase; white-space: nowrap;
+                }
+
+                .quick-pick-list { max-height: 420px; overflow-y: auto; padding: 8px; }
+
+                .quick-pick-item {
+                    display: flex; flex-direction: column; gap: 2px;
+                    padding: 8px 12px; border-radius: 8px; cursor: pointer;
+                }
+
+                .quick-pick-item[data-selected="true"] { background: rgba(255, 255, 255, 0.06); }
+
+                .quick-pick-item-line { display: flex; align-items: baseline; gap: 10px; min-width: 0; }
+                .quick-pick-label { font-size: 13px; font-weight: 600; color: white; white-space: nowrap; }
+                .quick-pick-description { font-size: 11px; color: rgba(255, 255, 255, 0.4); white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+                .quick-pick-detail {
+                    font-family: var(--font-mono, monospace); font-size: 11px; color: rgba(255, 255, 255, 0.3);
+                    white-space: nowrap; overflow: hidden; text-overflow: ellipsis;
+                }
+
+                .quick-pick-empty { padding: 32px; text-align: center; color: rgba(255, 255, 255, 0.2); }
+            `}</style>
+        </Command.Dialog>
+    )
+}
@@ -1,4 +1,4 @@
-﻿/*
+/*
  * SPDX-License-Identifier: AGPL-3.0-only
  */
 import { useState, useMemo, useRef, useEffect, useCallback } from 'react'
@@ -7,7 +7,7 @@ import { List } from 'react-window'
 import {
   Search, X, ChevronDown, ChevronRight, FileText, Replace,
   CaseSensitive, Regex, WholeWord, History, Filter, RefreshCw,
-  AlertCircle, FolderOpen
+  AlertCircle, FolderOpen, Square, Undo2, Check
 } from 'lucide-react'
 import { useNotificationStore } from '../../stores/notificationStore'
 
@@ -24,6 +24,21 @@ interface ListRowProps {
 }
 
 // Types
+interface ContextLine {
+  line: number
+  text: string
+}
+
+// A matching line as the main process reports it
+interface SearchMatch {
+  file: string
+  line: number
+  text: string
+  submatches: { start: number; end: number }[]
+  before: ContextLine[]
+  after: ContextLine[]
+}
+
 interface SearchResult {
   filePath: string
   fileName: string
@@ -33,6 +48,8 @@ interface SearchResult {
   lineContent: string
   contextBefore: string
   contextAfter: string
+  before: ContextLine[]
+  after: ContextLine[]
 }
 
 interface SearchHistory {
@@ -40,78 +57,43 @@ interface SearchHistory {
   timestamp: number
 }
 
-interface SearchStats {
-  filesSearched: number
-  totalFiles: number
-  matchCount: number
-  fileMatchCount: number
+interface ReplacePreviewFile {
+  file: string
+  count: number
+  changes: { line: number; before: string; after: string }[]
+}
+
+interface ReplacePreview {
+  files: ReplacePreviewFile[]
+  replacementCount: number
+  excluded: Set<string>
 }
 
 // Constants
 const MAX_RESULTS = 1000
 const MAX_HISTORY = 20
+const MAX_PREVIEW_CHANGES = 20
 const HISTORY_KEY = 'kalynt-search-history'
-const BINARY_EXTENSIONS = new Set([
-  'png', 'jpg', 'jpeg', 'gif', 'ico', 'svg', 'webp', 'bmp',
-  'woff', 'woff2', 'ttf', 'eot', 'otf',
-  'mp3', 'mp4', 'wav', 'avi', 'mov', 'webm',
-  'zip', 'tar', 'gz', 'rar', '7z',
-  'pdf', 'doc', 'docx', 'xls', 'xlsx',
-  'exe', 'dll', 'so', 'dylib', 'bin', 'pyc', 'wasm', 'o', 'a'
-])
-
-// Security: ReDoS protection
-const MAX_REGEX_TIME_MS = 100
-const DANGEROUS_PATTERNS = [
-  // eslint-disable-next-line security/detect-unsafe-regex
-  /(\(.*\+.*\))+/,
-  // eslint-disable-next-line security/detect-unsafe-regex
-  /(\(.*\*.*\))+/,
-  // eslint-disable-next-line security/detect-unsafe-regex
-  /(\(.*\{.*,.*\}.*\))+/,
-]
 
 // Utility Functions
-const escapeRegex = (str: string) => str.replaceAll(/[.*+?^${}()|[\]\\]/g, String.raw`\$&`)
-
-const isBinaryFile = (fileName: string): boolean => {
-  const ext = fileName.split('.').pop()?.toLowerCase() || ''
-  return BINARY_EXTENSIONS.has(ext)
-}
-
-const getSearchPattern = (query: string, options: { regex: boolean, caseSensitive: boolean, wholeWord: boolean }): RegExp | null => {
-  try {
-    let patternStr = options.regex ? query : escapeRegex(query)
-
-    if (options.wholeWord && !options.regex) {
-      patternStr = String.raw`\b${patternStr}\b`
-    }
-
-    const flags = options.caseSensitive ? 'g' : 'gi'
-
-    // Security: Check for dangerous patterns
-    if (options.regex) {
-      for (const dangerous of DANGEROUS_PATTERNS) {
-        if (dangerous.test(query)) {
-          console.warn('[Search] Potentially dangerous regex pattern detected')
-        }
-      }
-    }
-
-    return new RegExp(patternStr, flags)
-  } catch (error) {
-    console.error('[Search] Invalid regex:', error)
-    return null
-  }
-}
-
-const preserveCase = (original: string, replacement: string): string => {
-  if (original === original.toUpperCase()) return replacement.toUpperCase()
-  if (original === original.toLowerCase()) return replacement.toLowerCase()
-  if (original.startsWith(original[0].toUpperCase())) {
-    return replacement.charAt(0).toUpperCase() + replacement.slice(1).toLowerCase()
-  }
-  return replacement
+const splitGlobs = (value: string) => value.split(',').map(s => s.trim()).filter(Boolean)
+
+// One result per occurrence; context lines stay with the first and last occurrence on the line
+const toSearchResults = (match: SearchMatch, workspacePath: string): SearchResult[] => {
+  const filePath = `${workspacePath}/${match.file}`
+  const fileName = match.file.split(/[\\/]/).pop() || match.file
+  return match.submatches.map(({ start, end }, index) => ({
+    filePath,
+    fileName,
+    line: match.line,
+    column: start + 1,
+    matchText: match.text.slice(start, end),
+    lineContent: match.text,
+    contextBefore: match.text.slice(Math.max(0, start - 40), start),
+    contextAfter: match.text.slice(end, end + 60),
+    before: index === 0 ? match.before : [],
+    after: index === match.submatches.length - 1 ? match.after : []
+  }))
 }
 
 // Custom hook for resize observer
@@ -142,32 +124,57 @@ export default function SearchPanel({ workspacePath, onFileSelect }: SearchPanel
   const [query, setQuery] = useState('')
   const [replaceText, setReplaceText] = useState('')
   const [results, setResults] = useState<SearchResult[]>([])
+  const [truncated, setTruncated] = useState(false)
   const [isSearching, setIsSearching] = useState(false)
   const [isReplacing, setIsReplacing] = useState(false)
   const [showReplace, setShowReplace] = useState(false)
   const [showAdvanced, setShowAdvanced] = useState(false)
   const [showHistory, setShowHistory] = useState(false)
+  const [replacePreview, setReplacePreview] = useState<ReplacePreview | null>(null)
+  const [lastReplaceId, setLastReplaceId] = useState<string | null>(null)
 
   // Search Options
   const [caseSensitive, setCaseSensitive] = useState(false)
   const [useRegex, setUseRegex] = useState(false)
   const [wholeWord, setWholeWord] = useState(false)
+  const [multiline, setMultiline] = useState(false)
   const [preserveCaseReplace, setPreserveCaseReplace] = useState(true)
   const [includePattern, setIncludePattern] = useState('')
   const [excludePattern, setExcludePattern] = useState('node_modules,dist,.git,build,.next')
+  const [useIgnoreFiles, setUseIgnoreFiles] = useState(true)
+  const [includeHidden, setIncludeHidden] = useState(false)
+  const [contextLines, setContextLines] = useState(0)
 
-  // Stats & History
-  const [stats, setStats] = useState<SearchStats>({ filesSearched: 0, totalFiles: 0, matchCount: 0, fileMatchCount: 0 })
+  // History
   const [history, setHistory] = useState<SearchHistory[]>([])
-  const [expandedFiles, setExpandedFiles] = useState<Set<string>>(new Set())
+  const [collapsedFiles, setCollapsedFiles] = useState<Set<string>>(new Set())
 
   // Refs
-  const abortRef = useRef(false)
+  const searchIdRef = useRef<string | null>(null)
   const resultsRef = useRef<HTMLDivElement>(null)
   const queryInputRef = useRef<HTMLInputElement>(null)
   const { width, height } = useResizeObserver(resultsRef)
   const { addNotification } = useNotificationStore()
 
+  const stats = useMemo(() => ({
+    matchCount: results.length,
+    fileMatchCount: new Set(results.map(r => r.filePath)).size
+  }), [results])
+
+  // Options shared by search and replace, in the form ripgrep takes them
+  const searchOptions = useMemo(() => ({
+    searchPath: workspacePath || '',
+    pattern: query,
+    regex: useRegex,
+    caseSensitive,
+    wholeWord,
+    multiline,
+    include: splitGlobs(includePattern),
+    exclude: splitGlobs(excludePattern),
+    useIgnoreFiles,
+    includeHidden
+  }), [workspacePath, query, useRegex, caseSensitive, wholeWord, multiline, includePattern, excludePattern, useIgnoreFiles, includeHidden])
+
   // Load search history
   useEffect(() => {
     try {
@@ -178,6 +185,15 @@ export default function SearchPanel({ workspacePath, onFileSelect }: SearchPanel
     }
   }, [])
 
+  // Matches stream in while the search runs
+  useEffect(() => {
+    if (!workspacePath) return
+    return globalThis.window.electronAPI?.fs.onSearchResults((data: { searchId: string; results: SearchMatch[] }) => {
+      if (data.searchId !== searchIdRef.current) return
+      setResults(prev => [...prev, ...data.results.flatMap(match => toSearchResults(match, workspacePath))])
+    })
+  }, [workspacePath])
+
   // Save to history
   const addToHistory = useCallback((q: string) => {
     if (!q.trim()) return
@@ -189,204 +205,125 @@ export default function SearchPanel({ workspacePath, onFileSelect }: SearchPanel
     })
   }, [])
 
-  // Count files recursively
-  const countFiles = useCallback(async (dir: string, excludeDirs: Set<string>): Promise<number> => {
-    let count = 0
-    const res = await globalThis.window.electronAPI?.fs.readDir(dir)
-    if (!res?.success || !res.items) return 0
-
-    for (const entry of res.items) {
-      if (entry.isDirectory) {
-        if (!excludeDirs.has(entry.name)) {
-          count += await countFiles(`${dir}/${entry.name}`, excludeDirs)
-        }
-      } else if (!isBinaryFile(entry.name)) {
-        count++
-      }
-    }
-    return count
-  }, [])
-
   // Search function
   const handleSearch = useCallback(async () => {
     if (!query.trim() || !workspacePath) return
 
+    if (searchIdRef.current) globalThis.window.electronAPI?.fs.cancelSearch(searchIdRef.current)
+    const searchId = `search-${Date.now()}`
+    searchIdRef.current = searchId
     setIsSearching(true)
     setResults([])
-    setExpandedFiles(new Set())
-    setStats({ filesSearched: 0, totalFiles: 0, matchCount: 0, fileMatchCount: 0 })
-    abortRef.current = false
+    setTruncated(false)
+    setCollapsedFiles(new Set())
+    setReplacePreview(null)
     addToHistory(query)
 
-    const pattern = getSearchPattern(query, { regex: useRegex, caseSensitive, wholeWord })
-    if (!pattern) {
-      addNotification('Invalid search pattern', 'error')
-      setIsSearching(false)
-      return
-    }
-
-    const includeExts = includePattern.split(',').map(s => s.trim().toLowerCase()).filter(Boolean)
-    const excludeDirs = new Set(excludePattern.split(',').map(s => s.trim()).filter(Boolean))
-    const newResults: SearchResult[] = []
-    const matchedFiles = new Set<string>()
-    let filesSearched = 0
-
-    // Count total files for progress
-    const totalFiles = await countFiles(workspacePath, excludeDirs)
-    setStats(s => ({ ...s, totalFiles }))
-
-    const searchFile = async (filePath: string, fileName: string) => {
-      if (abortRef.current) return
-
-      try {
-        const fileRes = await globalThis.window.electronAPI?.fs.readFile(filePath)
-        if (!fileRes?.success || !fileRes.content) return
-
-        const lines = fileRes.content.split('\n')
-        const startTime = Date.now()
-
-        for (let i = 0; i < lines.length; i++) {
-          if (abortRef.current) return
-          if (Date.now() - startTime > MAX_REGEX_TIME_MS * lines.length) break
-
-          const line = lines[i]
-          pattern.lastIndex = 0
-          let match
-
-          while ((match = pattern.exec(line)) !== null) {
-            if (newResults.length >= MAX_RESULTS) {
-              abortRef.current = true
-              return
-            }
-
-            matchedFiles.add(filePath)
-            newResults.push({
-              filePath,
-              fileName,
-              line: i + 1,
-              column: match.index + 1,
-              matchText: match[0],
-              lineContent: line,
-              contextBefore: line.slice(Math.max(0, match.index - 40), match.index),
-              contextAfter: line.slice(match.index + match[0].length, match.index + match[0].length + 60)
-            })
-          }
-        }
-      } catch (error) {
-        console.error('[Search] Error reading file:', filePath, error)
-      }
-    }
-
-    const searchDir = async (dir: string) => {
-      if (abortRef.current) return
-
-      const res = await globalThis.window.electronAPI?.fs.readDir(dir)
-      if (!res?.success || !res.items) return
-
-      for (const entry of res.items) {
-        if (abortRef.current) return
-
-        if (entry.isDirectory) {
-          if (!excludeDirs.has(entry.name)) {
-            await searchDir(`${dir}/${entry.name}`)
-          }
-        } else {
-          if (isBinaryFile(entry.name)) continue
-
-          const ext = entry.name.split('.').pop()?.toLowerCase() || ''
-          if (includeExts.length > 0 && !includeExts.some(ie => ext === ie || entry.name.endsWith(ie))) continue
-
-          await searchFile(`${dir}/${entry.name}`, entry.name)
-          filesSearched++
-
-          if (filesSearched % 50 === 0) {
-            setStats(s => ({ ...s, filesSearched, matchCount: newResults.length, fileMatchCount: matchedFiles.size }))
-          }
-        }
-      }
-    }
-
     try {
-      await searchDir(workspacePath)
-      setResults(newResults)
-      setStats({ filesSearched, totalFiles, matchCount: newResults.length, fileMatchCount: matchedFiles.size })
-
-      // Auto-expand first few files
-      const filesToExpand = [...new Set(newResults.slice(0, 50).map(r => r.filePath))].slice(0, 5)
-      setExpandedFiles(new Set(filesToExpand))
+      const result = await globalThis.window.electronAPI?.fs.search({
+        ...searchOptions,
+        contextLines,
+        maxResults: MAX_RESULTS,
+        searchId
+      })
+      if (searchIdRef.current !== searchId) return
+      if (result?.success) {
+        setTruncated(!!result.truncated)
+      } else {
+        addNotification(result?.error || 'Search failed', 'error')
+      }
     } catch (error) {
       console.error('[Search] Search failed:', error)
       addNotification('Search failed', 'error')
     } finally {
-      setIsSearching(false)
+      if (searchIdRef.current === searchId) setIsSearching(false)
     }
-  }, [query, workspacePath, useRegex, caseSensitive, wholeWord, includePattern, excludePattern, countFiles, addToHistory, addNotification])
+  }, [query, workspacePath, searchOptions, contextLines, addToHistory, addNotification])
 
-  // Replace in single file
-  const replaceInFile = useCallback(async (filePath: string, onlyFirst: boolean = false) => {
-    if (!replaceText && replaceText !== '') return
+  const cancelSearch = useCallback(() => {
+    if (searchIdRef.current) globalThis.window.electronAPI?.fs.cancelSearch(searchIdRef.current)
+  }, [])
 
-    const pattern = getSearchPattern(query, { regex: useRegex, caseSensitive, wholeWord })
-    if (!pattern) return
+  // Replace all in workspace: preview first, then write the files left checked
+  const previewReplace = useCallback(async () => {
+    if (!results.length) return
 
-    try {
-      const fileRes = await globalThis.window.electronAPI?.fs.readFile(filePath)
-      if (!fileRes?.success || !fileRes.content) return false
-
-      let newContent: string
-      if (preserveCaseReplace && !useRegex) {
-        newContent = fileRes.content.replace(pattern, (match: string) => preserveCase(match, replaceText))
-        if (onlyFirst) {
-          // For single replacement, only replace first match
-          const singlePattern = new RegExp(pattern.source, pattern.flags.replace('g', ''))
-          newContent = fileRes.content.replace(singlePattern, (match: string) => preserveCase(match, replaceText))
-        }
-      } else {
-        if (onlyFirst) {
-          const singlePattern = new RegExp(pattern.source, pattern.flags.replace('g', ''))
-          newContent = fileRes.content.replace(singlePattern, replaceText)
-        } else {
-          newContent = fileRes.content.replace(pattern, replaceText)
-        }
-      }
+    setIsReplacing(true)
+    const result = await globalThis.window.electronAPI?.fs.replace({
+      ...searchOptions,
+      replacement: replaceText,
+      preserveCase: preserveCaseReplace,
+      preview: true
+    })
+    setIsReplacing(false)
 
-      if (newContent !== fileRes.content) {
-        await globalThis.window.electronAPI?.fs.writeFile({ path: filePath, content: newContent })
-        return true
-      }
-      return false
-    } catch (error) {
-      console.error('[Search] Replace failed:', filePath, error)
-      return false
+    if (!result?.success) {
+      addNotification(result?.error || 'Replace failed', 'error')
+      return
     }
-  }, [query, replaceText, useRegex, caseSensitive, wholeWord, preserveCaseReplace])
-
-  // Replace all in workspace
-  const replaceAll = useCallback(async () => {
-    if (!results.length || !replaceText && replaceText !== '') return
+    if (result.files.length === 0) {
+      addNotification('Nothing to replace', 'info')
+      return
+    }
+    setReplacePreview({ files: result.files, replacementCount: result.replacementCount, excluded: new Set() })
+  }, [results, searchOptions, replaceText, preserveCaseReplace, addNotification])
 
-    const confirmed = confirm(`Replace ${stats.matchCount} occurrences in ${stats.fileMatchCount} files?\n\nThis cannot be undone.`)
-    if (!confirmed) return
+  const applyReplace = useCallback(async () => {
+    if (!replacePreview) return
+    const files = replacePreview.files.map(f => f.file).filter(file => !replacePreview.excluded.has(file))
+    if (files.length === 0) return
 
     setIsReplacing(true)
-    const uniqueFiles = [...new Set(results.map(r => r.filePath))]
-    let replacedCount = 0
+    const result = await globalThis.window.electronAPI?.fs.replace({
+      ...searchOptions,
+      replacement: replaceText,
+      preserveCase: preserveCaseReplace,
+      files
+    })
+    setIsReplacing(false)
 
-    for (const filePath of uniqueFiles) {
-      const success = await replaceInFile(filePath, false)
-      if (success) replacedCount++
+    if (!result?.success) {
+      addNotification(result?.error || 'Replace failed', 'error')
+      return
     }
-
-    addNotification(`Replaced in ${replacedCount} files`, 'success')
-    setIsReplacing(false)
+    setReplacePreview(null)
+    setLastReplaceId(result.replaceId ?? null)
+    addNotification(`Replaced ${result.replacementCount} occurrences in ${result.fileCount} files`, 'success')
 
     // Re-run search to update results
     await handleSearch()
-  }, [results, replaceText, stats, replaceInFile, handleSearch, addNotification])
+  }, [replacePreview, searchOptions, replaceText, preserveCaseReplace, handleSearch, addNotification])
+
+  const undoReplace = useCallback(async () => {
+    if (!lastReplaceId) return
+
+    const result = await globalThis.window.electronAPI?.fs.undoReplace(lastReplaceId)
+    setLastReplaceId(null)
+    if (!result?.success) {
+      addNotification(result?.error || 'Undo failed', 'error')
+      return
+    }
+    if (result.skipped.length > 0) {
+      addNotification(`Restored ${result.restored.length} files; ${result.skipped.length} changed since the replace were left as they are`, 'warning')
+    } else {
+      addNotification(`Restored ${result.restored.length} files`, 'success')
+    }
+    if (query.trim()) await handleSearch()
+  }, [lastReplaceId, query, handleSearch, addNotification])
+
+  const togglePreviewFile = useCallback((file: string) => {
+    setReplacePreview(prev => {
+      if (!prev) return prev
+      const excluded = new Set(prev.excluded)
+      if (excluded.has(file)) excluded.delete(file)
+      else excluded.add(file)
+      return { ...prev, excluded }
+    })
+  }, [])
 
   // Toggle file expansion
   const toggleFile = useCallback((filePath: string) => {
-    setExpandedFiles(prev => {
+    setCollapsedFiles(prev => {
       const next = new Set(prev)
       if (next.has(filePath)) next.delete(filePath)
       else next.add(filePath)
@@ -396,13 +333,16 @@ export default function SearchPanel({ workspacePath, onFileSelect }: SearchPanel
 
   // Clear search
   const clearSearch = useCallback(() => {
+    cancelSearch()
+    searchIdRef.current = null
     setQuery('')
     setReplaceText('')
     setResults([])
-    setStats({ filesSearched: 0, totalFiles: 0, matchCount: 0, fileMatchCount: 0 })
-    abortRef.current = true
+    setTruncated(false)
+    setIsSearching(false)
+    setReplacePreview(null)
     queryInputRef.current?.focus()
-  }, [])
+  }, [cancelSearch])
 
   // Keyboard shortcuts
   useEffect(() => {
@@ -421,7 +361,7 @@ export default function SearchPanel({ workspacePath, onFileSelect }: SearchPanel
     return () => globalThis.removeEventListener('keydown', handleKeyDown)
   }, [])
 
-  // Build virtualized items
+  // Build virtualized items; context lines shared by neighbouring matches are shown once
   const items = useMemo(() => {
     const grouped: Record<string, SearchResult[]> = {}
     for (const r of results) {
@@ -429,17 +369,28 @@ export default function SearchPanel({ workspacePath, onFileSelect }: SearchPanel
       grouped[r.filePath].push(r)
     }
 
-    const flat: Array<{ type: 'file' | 'match', filePath: string, count?: number, result?: SearchResult }> = []
+    const flat: Array<{ type: 'file' | 'match' | 'context', filePath: string, count?: number, result?: SearchResult, context?: ContextLine }> = []
     for (const [filePath, fileResults] of Object.entries(grouped)) {
       flat.push({ type: 'file', filePath, count: fileResults.length })
-      if (expandedFiles.has(filePath)) {
-        for (const result of fileResults) {
-          flat.push({ type: 'match', filePath, result })
+      if (collapsedFiles.has(filePath)) continue
+
+      const matchLines = new Set(fileResults.map(r => r.line))
+      const shown = new Set<number>()
+      const pushContext = (lines: ContextLine[]) => {
+        for (const context of lines) {
+          if (matchLines.has(context.line) || shown.has(context.line)) continue
+          shown.add(context.line)
+          flat.push({ type: 'context', filePath, context })
         }
       }
+      for (const result of fileResults) {
+        pushContext(result.before)
+        flat.push({ type: 'match', filePath, result })
+        pushContext(result.after)
+      }
     }
     return flat
-  }, [results, expandedFiles])
+  }, [results, collapsedFiles])
 
   // Get relative path
   const getRelativePath = useCallback((filePath: string) => {
@@ -455,7 +406,7 @@ export default function SearchPanel({ workspacePath, onFileSelect }: SearchPanel
     const rowStyle = { ...style, ...ariaAttributes?.style }
 
     if (item.type === 'file') {
-      const isExpanded = expandedFiles.has(item.filePath)
+      const isExpanded = !collapsedFiles.has(item.filePath)
       return (
         <div style={rowStyle} className="search-result-file" {...ariaAttributes}>
           <button className="file-header" onClick={() => toggleFile(item.filePath)}>
@@ -467,6 +418,18 @@ export default function SearchPanel({ workspacePath, onFileSelect }: SearchPanel
           </button>
         </div>
       )
+    } else if (item.type === 'context' && item.context) {
+      return (
+        <div style={rowStyle} className="search-result-match" {...ariaAttributes}>
+          <button
+            className="match-row context-row"
+            onClick={() => onFileSelect(item.filePath, item.context!.line)}
+          >
+            <span className="line-num">{item.context.line}</span>
+            <span className="match-content">{item.context.text}</span>
+          </button>
+        </div>
+      )
     } else if (item.result) {
       return (
         <div style={rowStyle} className="search-result-match" {...ariaAttributes}>
@@ -485,7 +448,7 @@ export default function SearchPanel({ workspacePath, onFileSelect }: SearchPanel
       )
     }
     return null
-  }, [items, expandedFiles, toggleFile, getRelativePath, onFileSelect])
+  }, [items, collapsedFiles, toggleFile, getRelativePath, onFileSelect])
 
   // No workspace
   if (!workspacePath) {
@@ -593,12 +556,21 @@ export default function SearchPanel({ workspacePath, onFileSelect }: SearchPanel
               </button>
               <button
                 className="action-btn"
-                onClick={replaceAll}
-                disabled={!results.length || isReplacing}
-                title="Replace All"
+                onClick={previewReplace}
+                disabled={!results.length || isReplacing || isSearching}
+                title="Preview Replace All"
               >
                 {isReplacing ? <RefreshCw size={12} className="spin" /> : 'Replace All'}
               </button>
+              {lastReplaceId && (
+                <button
+                  className="toggle-btn small"
+                  onClick={undoReplace}
+                  title="Undo Last Replace"
+                >
+                  <Undo2 size={12} />
+                </button>
+              )}
             </div>
           </div>
         )}
@@ -617,7 +589,7 @@ export default function SearchPanel({ workspacePath, onFileSelect }: SearchPanel
               <input
                 id="search-include"
                 type="text"
-                placeholder=".ts, .tsx, .js"
+                placeholder="*.ts, src/**"
                 value={includePattern}
                 onChange={(e) => setIncludePattern(e.target.value)}
               />
@@ -631,59 +603,123 @@ export default function SearchPanel({ workspacePath, onFileSelect }: SearchPanel
                 onChange={(e) => setExcludePattern(e.target.value)}
               />
             </div>
+            <div className="option-row">
+              <label htmlFor="search-context">Context:</label>
+              <select
+                id="search-context"
+                value={contextLines}
+                onChange={(e) => setContextLines(Number(e.target.value))}
+              >
+                {[0, 1, 2, 3, 5].map(n => (
+                  <option key={n} value={n}>{n === 0 ? 'None' : `${n} line${n > 1 ? 's' : ''}`}</option>
+                ))}
+              </select>
+            </div>
+            <div className="option-checks">
+              <label>
+                <input type="checkbox" checked={useIgnoreFiles} onChange={(e) => setUseIgnoreFiles(e.target.checked)} />
+                Use .gitignore
+              </label>
+              <label>
+                <input type="checkbox" checked={includeHidden} onChange={(e) => setIncludeHidden(e.target.checked)} />
+                Hidden files
+              </label>
+              <label title="Let matches span lines">
+                <input type="checkbox" checked={multiline} onChange={(e) => setMultiline(e.target.checked)} />
+                Multiline
+              </label>
+            </div>
             <div className="quick-filters">
-              <button onClick={() => setIncludePattern('.ts,.tsx')}>TypeScript</button>
-              <button onClick={() => setIncludePattern('.js,.jsx')}>JavaScript</button>
-              <button onClick={() => setIncludePattern('.css,.scss')}>Styles</button>
-              <button onClick={() => setIncludePattern('.json')}>JSON</button>
-              <button onClick={() => setIncludePattern('.md')}>Markdown</button>
+              <button onClick={() => setIncludePattern('*.ts,*.tsx')}>TypeScript</button>
+              <button onClick={() => setIncludePattern('*.js,*.jsx')}>JavaScript</button>
+              <button onClick={() => setIncludePattern('*.css,*.scss')}>Styles</button>
+              <button onClick={() => setIncludePattern('*.json')}>JSON</button>
+              <button onClick={() => setIncludePattern('*.md')}>Markdown</button>
             </div>
           </div>
         )}
 
         {/* Search Button & Stats */}
         <div className="search-footer">
-          <button
-            className="search-btn"
-            onClick={handleSearch}
-            disabled={isSearching || !query.trim()}
-          >
-            {isSearching ? (
-              <>
-                <RefreshCw size={14} className="spin" />
-                Searching...
-              </>
-            ) : (
-              <>
-                <Search size={14} />
-                Search
-              </>
-            )}
-          </button>
+          {isSearching ? (
+            <button className="search-btn" onClick={cancelSearch}>
+              <Square size={14} />
+              Stop
+            </button>
+          ) : (
+            <button
+              className="search-btn"
+              onClick={handleSearch}
+              disabled={!query.trim()}
+            >
+              <Search size={14} />
+              Search
+            </button>
+          )}
 
           {(isSearching || results.length > 0) && (
             <div className="search-stats">
-              {isSearching ? (
-                <span className="progress">
-                  {stats.filesSearched} / {stats.totalFiles || '?'} files
-                </span>
-              ) : (
-                <span className="results-count">
-                  <strong>{stats.matchCount}</strong> results in <strong>{stats.fileMatchCount}</strong> files
-                  {results.length >= MAX_RESULTS && (
-                    <span className="limit-warning">
-                      <AlertCircle size={12} /> Limited
-                    </span>
-                  )}
-                </span>
-              )}
+              <span className="results-count">
+                {isSearching && <RefreshCw size={12} className="spin" />}
+                <strong>{stats.matchCount}</strong> results in <strong>{stats.fileMatchCount}</strong> files
+                {truncated && (
+                  <span className="limit-warning">
+                    <AlertCircle size={12} /> Limited
+                  </span>
+                )}
+              </span>
             </div>
           )}
         </div>
       </div>
 
+      {/* Replace Preview */}
+      {replacePreview && (
+        <div className="replace-preview">
+          <div className="replace-preview-header">
+            <span>
+              Replace <strong>{replacePreview.replacementCount}</strong> occurrences in <strong>{replacePreview.files.length - replacePreview.excluded.size}</strong> files
+            </span>
+            <button className="action-btn" onClick={applyReplace} disabled={isReplacing || replacePreview.excluded.size === replacePreview.files.length}>
+              {isReplacing ? <RefreshCw size={12} className="spin" /> : <><Check size={12} /> Apply</>}
+            </button>
+            <button className="clear-btn" onClick={() => setReplacePreview(null)} title="Cancel">
+              <X size={14} />
+            </button>
+          </div>
+          <div className="replace-preview-files">
+            {replacePreview.files.map(file => (
+              <div key={file.file} className="replace-preview-file">
+                <label className="replace-preview-name">
+                  <input
+                    type="checkbox"
+                    checked={!replacePreview.excluded.has(file.file)}
+                    onChange={() => togglePreviewFile(file.file)}
+                  />
+                  <span className="file-name">{file.file.split(/[\\/]/).pop()}</span>
+                  <span className="file-path">{file.file.replaceAll(/\\/g, '/')}</span>
+                  <span className="match-badge">{file.count}</span>
+                </label>
+                {file.changes.slice(0, MAX_PREVIEW_CHANGES).map((change, index) => (
+                  <div key={`${change.line}-${index}`} className="replace-preview-change">
+                    <span className="line-num">{change.line}</span>
+                    <span className="match-content">
+                      <del>{change.before.trim()}</del>
+                      <ins>{change.after.trim()}</ins>
+                    </span>
+                  </div>
+                ))}
+                {file.changes.length > MAX_PREVIEW_CHANGES && (
+                  <div className="replace-preview-more">{file.changes.length - MAX_PREVIEW_CHANGES} more changes</div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Results */}
-      <div className="search-results" ref={resultsRef}>
+      <div className="search-results" ref={resultsRef} style={replacePreview ? { display: 'none' } : undefined}>
         {results.length > 0 ? (
           <List
             style={{ height: height || 400, width: width || 300 } as React.CSSProperties}
@@ -1005,8 +1041,8 @@ const searchStyles = `
         margin-left: 8px;
     }
 
-    .progress {
-        display: flex;
+    .results-count {
+        display: inline-flex;
         align-items: center;
         gap: 6px;
     }
@@ -1117,6 +1153,101 @@ const searchStyles = `
         gap: 12px;
     }
 
+    .option-row select {
+        flex: 1;
+        padding: 4px 8px;
+        background: var(--color-surface);
+        border: 1px solid var(--color-border-subtle);
+        border-radius: 4px;
+        color: var(--color-text);
+        font-size: 11px;
+    }
+
+    .option-checks {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 12px;
+        margin-bottom: 8px;
+    }
+
+    .option-checks label {
+        display: flex;
+        align-items: center;
+        gap: 4px;
+        font-size: 11px;
+        color: var(--color-text-secondary);
+        cursor: pointer;
+    }
+
+    .context-row {
+        opacity: 0.6;
+    }
+
+    .replace-preview {
+        flex: 1;
+        display: flex;
+        flex-direction: column;
+        min-height: 0;
+    }
+
+    .replace-preview-header {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        padding: 8px 12px;
+        font-size: 11px;
+        color: var(--color-text-muted);
+        border-bottom: 1px solid var(--color-border-subtle);
+    }
+
+    .replace-preview-header span {
+        flex: 1;
+    }
+
+    .replace-preview-header strong {
+        color: var(--color-text);
+    }
+
+    .replace-preview-files {
+        flex: 1;
+        overflow-y: auto;
+        padding: 4px 0;
+    }
+
+    .replace-preview-name {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        padding: 4px 12px;
+        font-size: 12px;
+        cursor: pointer;
+    }
+
+    .replace-preview-change,
+    .replace-preview-more {
+        display: flex;
+        gap: 8px;
+        padding: 2px 12px 2px 32px;
+        font-family: 'SF Mono', 'Fira Code', monospace;
+        font-size: 11px;
+    }
+
+    .replace-preview-more {
+        color: var(--color-text-muted);
+    }
+
+    .replace-preview-change del {
+        color: #f85149;
+        background: rgba(248, 81, 73, 0.1);
+        margin-right: 6px;
+    }
+
+    .replace-preview-change ins {
+        color: #3fb950;
+        background: rgba(63, 185, 80, 0.1);
+        text-decoration: none;
+    }
+
     .spin {
         animation: spin 1s linear infinite;
     }
@@ -89,6 +89,8 @@ const fsShim = {
     readFile: noopAsync,
     readBinaryFile: noopAsync,
     writeFile: noopAsync,
+    writeShadowCopy: noopAsync,
+    removeShadowCopy: noopAsync,
     createFile: noopAsync,
     createDir: noopAsync,
     delete: noopAsync,
@@ -99,6 +101,10 @@ const fsShim = {
     removeListeners: noop,
     backupWorkspace: noopAsync,
     search: noopAsync,
+    cancelSearch: noopAsync,
+    onSearchResults: noopReturn,
+    replace: noopAsync,
+    undoReplace: noopAsync,
 }
 
 const codeShim = {
@@ -18,7 +18,7 @@ import { EditorMode } from '../config/editorModes'
 import { AIProvider } from '../services/aiService'
 
 export function useAgent(spaceId: string | null, mode: EditorMode = 'general', useOfflineAI: boolean = false, workspacePath: string = '') {
-    const { apiKeys } = useAppStore()
+    const { apiKeys, customEndpoint } = useAppStore()
     const { loadedModelId } = useModelStore()
     const { doc } = useYDoc(spaceId)
 
@@ -34,8 +34,9 @@ export function useAgent(spaceId: string | null, mode: EditorMode = 'general', u
         if (apiKeys.openai) return 'openai'
         if (apiKeys.anthropic) return 'anthropic'
         if (apiKeys.google) return 'google'
+        if (customEndpoint) return 'custom'
         return null
-    }, [apiKeys])
+    }, [apiKeys, customEndpoint])
 
     // Update service configuration whenever props change
     useEffect(() => {
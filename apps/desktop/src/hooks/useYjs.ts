@@ -6,6 +6,7 @@ import * as Y from 'yjs'
 import { IndexeddbPersistence } from 'y-indexeddb'
 import { WebrtcProvider } from 'y-webrtc'
 import { memberSyncService } from '../services/memberSyncService'
+import { permissionService } from '../services/permissionService'
 import { useMemberStore } from '../stores/memberStore'
 
 import { p2pService } from '../services/p2pService'
@@ -108,6 +109,7 @@ export function destroySpace(spaceId: string): void {
     // Destroy document
     const doc = documents.get(spaceId)
     if (doc) {
+        permissionService.releaseDocument(doc)
         doc.destroy()
         documents.delete(spaceId)
     }
@@ -211,6 +213,8 @@ export function useYDoc(spaceId: string | null) {
 
             // Connect to room first (room name includes password for y-webrtc encryption)
             const yprovider = connectSpace(spaceId, passwordValue)
+            // Edits to restricted documents are reverted, whether made here or by a peer
+            permissionService.guardDocument(spaceId, ydoc)
 
             // FIX BUG-005/006: Initialize setup instance to track this setup's resources
             setupInstanceRef.current = {
@@ -410,24 +414,30 @@ export function useYText(doc: Y.Doc | null, key: string) {
         return () => yText.unobserve(observer)
     }, [doc, key])
 
+    // Restricted documents stay read-only for this member
+    const canEdit = useCallback((): boolean => {
+        const yText = yTextRef.current
+        return !!yText?.doc && permissionService.canEditSharedText(yText.doc, key)
+    }, [key])
+
     const updateText = useCallback((newText: string) => {
-        if (!yTextRef.current || !doc) return
+        if (!yTextRef.current || !doc || !canEdit()) return
 
         doc.transact(() => {
             yTextRef.current!.delete(0, yTextRef.current!.length)
             yTextRef.current!.insert(0, newText)
         })
-    }, [doc])
+    }, [doc, canEdit])
 
     const insertText = useCallback((index: number, content: string) => {
-        if (!yTextRef.current) return
+        if (!yTextRef.current || !canEdit()) return
         yTextRef.current.insert(index, content)
-    }, [])
+    }, [canEdit])
 
     const deleteText = useCallback((index: number, length: number) => {
-        if (!yTextRef.current) return
+        if (!yTextRef.current || !canEdit()) return
         yTextRef.current.delete(index, length)
-    }, [])
+    }, [canEdit])
 
     const yText = useMemo(() => yTextRef.current, [])
 
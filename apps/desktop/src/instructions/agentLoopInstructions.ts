@@ -12,12 +12,15 @@ import { ModelTier } from './types'
 import { ideTools } from '../services/ideAgentTools'
 
 /**
- * Build system prompt for the agent loop based on model tier
+ * Build system prompt for the agent loop based on model tier.
+ * With `nativeTools` the tool schemas go through the provider's function
+ * calling API, so the prompt neither lists them nor teaches the text format.
  */
 export function buildAgentLoopSystemPrompt(
     tier: ModelTier,
     workspacePath: string,
-    ragContext?: string
+    ragContext?: string,
+    nativeTools: boolean = false
 ): string {
     const toolsDescription = ideTools.map(tool => {
         const params = tool.parameters.map(p =>
@@ -77,7 +80,11 @@ If getDiagnostics shows errors, fix them before moving on.
 - After 2 failed attempts at the same approach, try a completely different strategy.`
     }
 
-    basePrompt += `
+    basePrompt += nativeTools ? `
+
+## TOOL CALLING
+Call tools through the function calling interface, never by writing tool calls as text.
+When several calls do not depend on each other (for example reading a few files), make them in the same turn. You will receive every result, then decide whether to call more tools or provide a final answer.` : `
 
 ## TOOL CALLING FORMAT
 To call a tool, wrap a JSON object in a tool code block:
@@ -86,7 +93,9 @@ To call a tool, wrap a JSON object in a tool code block:
 {"name": "TOOL_NAME", "params": {"param1": "value1"}}
 \`\`\`
 
-Call ONE tool at a time. After each tool call, you will receive the result. Then decide whether to call another tool or provide a final answer.
+Call ONE tool at a time. After each tool call, you will receive the result. Then decide whether to call another tool or provide a final answer.`
+
+    basePrompt += `
 
 ## WHEN TO STOP
 - Stop and provide a final text summary (no tool call) when:
@@ -96,7 +105,7 @@ Call ONE tool at a time. After each tool call, you will receive the result. Then
 - Do NOT loop indefinitely. If you cannot make progress after 3 tool calls, explain what went wrong.`
 
     // Add a few-shot example for larger models
-    if (tier !== 'small') {
+    if (tier !== 'small' && !nativeTools) {
         basePrompt += `
 
 ## EXAMPLE INTERACTION
@@ -121,10 +130,12 @@ Step 3 — Final answer (no more tool calls):
 Done! I added a \`greet(name)\` function to \`src/utils.ts\` that returns a greeting string.`
     }
 
-    basePrompt += `
+    if (!nativeTools) {
+        basePrompt += `
 
 ## AVAILABLE TOOLS
 ${toolsDescription}`
+    }
 
     if (ragContext) {
         basePrompt += `
@@ -51,6 +51,12 @@ const PROVIDER_CAPABILITIES: Record<AIProvider, ProviderCapabilities> = {
     maxContextTokens: 1000000,  // Gemini 1.5 Pro
     bestForCodeAnalysis: true,
     supportsFunctionCalling: true
+  },
+  custom: {
+    supportsThinking: false,
+    maxContextTokens: 32768,  // Depends on the served model, kept conservative
+    bestForCodeAnalysis: false,
+    supportsFunctionCalling: false
   }
 }
 
@@ -287,7 +293,8 @@ function getProviderName(provider: AIProvider): string {
   const names: Record<AIProvider, string> = {
     openai: 'OpenAI (GPT-4)',
     anthropic: 'Anthropic (Claude)',
-    google: 'Google (Gemini)'
+    google: 'Google (Gemini)',
+    custom: 'a self-hosted model'
   }
   return names[provider] || provider
 }
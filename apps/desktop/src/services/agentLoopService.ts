@@ -19,11 +19,26 @@
  */
 
 import { logger } from '../utils/logger'
-import { aiService, AIProvider, AIMessage } from './aiService'
-import { offlineLLMService, ChatMessage as OfflineChatMessage } from './offlineLLMService'
-import { executeTool, stopActiveTool, type ToolContext } from './ideAgentTools'
+import { aiService, AIProvider, AIMessage, type AIToolResult, type ChatOptions } from './aiService'
+import { offlineLLMService, ChatMessage as OfflineChatMessage, type InferenceOptions as OfflineInferenceOptions } from './offlineLLMService'
+import {
+    executeTool,
+    stopActiveTool,
+    getToolDefinitions,
+    getToolCallJsonSchema,
+    FILE_MODIFYING_PARAMS,
+    FILE_MODIFYING_TOOLS,
+    type ToolContext
+} from './ideAgentTools'
 import { aimeService } from './aimeService'
 import { shadowWorkspaceService } from './shadowWorkspaceService'
+import { parallelExecutionService, type ExecutionBatch } from './parallelExecutionService'
+import {
+    transactionService,
+    type TransactionFile,
+    type ValidationError,
+    type ValidationResult as TransactionValidationResult
+} from './transactionService'
 import { cycleDetectionService } from './cycleDetectionService'
 import { toolCacheService } from './toolCacheService'
 import { useModelStore } from '../stores/modelStore'
@@ -36,20 +51,49 @@ import {
     AgentLoopConfig,
     AgentLoopState,
     AgentLoopEvent,
+    AgentChangeSet,
     DEFAULT_LOOP_CONFIG
 } from '../types/agentTypes'
 
 type EventListener = (event: AgentLoopEvent) => void
+type ChangeApprovalHandler = (changes: AgentChangeSet) => Promise<boolean>
+
+// Conversation entry; the tool fields are only set when calling tools natively
+type LoopMessage = Omit<AIMessage, 'role'> & { role: string }
+
+interface ParsedToolCall {
+    // Native calls carry the provider's id so results can be matched to them
+    id?: string
+    name: string
+    params: Record<string, unknown>
+    // Why the call's arguments could not be used
+    error?: string
+}
+
+interface ToolCallOutcome {
+    // Result as written into the conversation for text-format tool calls
+    text: string
+    // Result content for native tool calling
+    content: string
+    isError: boolean
+}
 
 /** Maximum characters to include from a single tool result */
 const MAX_TOOL_RESULT_CHARS = 4000
 
+/** Runs whose applied changes can still be undone; older runs free their transactions */
+const MAX_UNDOABLE_RUNS = 10
+
+/** Opens a tool call block in the offline text format */
+const TOOL_FENCE = '```tool'
+
 /**
  * Parse tool calls from LLM response.
- * Standardized on JSON format within ```tool code blocks.
+ * Standardized on JSON format within ```tool code blocks. Only used for
+ * offline models; cloud providers return tool calls through their APIs.
  */
-function parseToolCalls(response: string): Array<{ name: string; params: Record<string, unknown> }> {
-    const calls: Array<{ name: string; params: Record<string, unknown> }> = []
+function parseToolCalls(response: string): ParsedToolCall[] {
+    const calls: ParsedToolCall[] = []
     let match: RegExpExecArray | null
 
     // Strategy 1 (Standard): Markdown code block ```tool (JSON inside)
@@ -117,6 +161,13 @@ function parseToolCalls(response: string): Array<{ name: string; params: Record<
     return calls
 }
 
+function messageTokens(message: LoopMessage): number {
+    let tokens = estimateTokens(message.content)
+    if (message.toolCalls?.length) tokens += estimateTokens(JSON.stringify(message.toolCalls))
+    for (const result of message.toolResults ?? []) tokens += estimateTokens(result.content)
+    return tokens
+}
+
 /**
  * Extract clean text content from LLM response, removing tool calls and special tokens.
  */
@@ -208,6 +259,17 @@ class AgentLoopService {
     // Cache for this run
     private cacheEnabled = true
 
+    // File edits of a run are staged in one transaction and applied after approval
+    private changeApprovalHandler: ChangeApprovalHandler | null = null
+    // Committed transaction per run, so a whole run can be undone later
+    private readonly runTransactions = new Map<string, string>()
+
+    constructor() {
+        transactionService.onValidate(files => this.validateStagedFiles(files))
+        // Tools enforce their own timeouts, and a failed edit must not be replayed
+        parallelExecutionService.initialize({ timeoutMs: 0, retryAttempts: 0 })
+    }
+
     // --- Configuration ---
 
     setConfig(config: Partial<AgentLoopConfig>) {
@@ -230,6 +292,14 @@ class AgentLoopService {
         this.cloudProvider = provider
     }
 
+    /**
+     * Set the handler that shows a run's combined changes and resolves to
+     * true to apply them or false to discard them
+     */
+    setChangeApprovalHandler(handler: ChangeApprovalHandler | null) {
+        this.changeApprovalHandler = handler
+    }
+
     // --- Event System ---
 
     on(listener: EventListener): () => void {
@@ -298,6 +368,8 @@ class AgentLoopService {
             modifiedFiles: []
         }
 
+        const transaction = transactionService.beginTransaction()
+
         this.emit({ type: 'started', runId, userMessage })
         
         // Initialize cycle detection
@@ -308,6 +380,11 @@ class AgentLoopService {
             toolCacheService.clear()
         }
 
+        // Cloud providers call tools through their function calling APIs,
+        // offline models write them as text that parseToolCalls reads back.
+        // Self-hosted endpoints only get native tools when configured for them.
+        const nativeTools = !this.useOfflineAI && aiService.supportsNativeTools(this.cloudProvider)
+
         try {
             // 1. Gather context from AIME (RAG)
             let ragContext = ''
@@ -321,7 +398,7 @@ class AgentLoopService {
             }
 
             // 2. Build system prompt (or use override)
-            const systemPrompt = options?.systemPrompt || this.buildSystemPrompt(ragContext, runConfig)
+            const systemPrompt = options?.systemPrompt || this.buildSystemPrompt(ragContext, runConfig, nativeTools)
 
             // 3. Build conversation history
             const contextWindow = this.useOfflineAI
@@ -332,7 +409,7 @@ class AgentLoopService {
 
             // 4. Enter the ReAct loop
             let finalResponse = ''
-            let conversationMessages = [...messages]
+            let conversationMessages: LoopMessage[] = [...messages]
             const startTime = Date.now()
 
             for (let iteration = 0; iteration < runConfig.maxIterations; iteration++) {
@@ -364,9 +441,9 @@ class AgentLoopService {
                 this.state.isGenerating = true
                 this.state.streamingText = ''
 
-                let response: string
+                let turn: LoopMessage
                 try {
-                    response = await this.generateResponse(conversationMessages, signal)
+                    turn = await this.generateResponse(conversationMessages, signal, nativeTools)
                 } catch (err) {
                     if (signal.aborted) {
                         this.emit({ type: 'aborted' })
@@ -380,6 +457,7 @@ class AgentLoopService {
 
                 this.state.isGenerating = false
                 this.state.streamingText = ''
+                const response = turn.content
 
                 // Extract thinking
                 const thinking = extractThinking(response)
@@ -401,7 +479,9 @@ class AgentLoopService {
                 }
 
                 // Parse tool calls
-                const toolCalls = parseToolCalls(response)
+                const toolCalls: ParsedToolCall[] = nativeTools
+                    ? (turn.toolCalls ?? []).map(call => ({ id: call.id, name: call.name, params: call.arguments, error: call.argumentsError }))
+                    : parseToolCalls(response)
                 const cleanText = extractCleanContent(response)
 
                 if (toolCalls.length === 0) {
@@ -420,106 +500,56 @@ class AgentLoopService {
                     this.addStep({ type: 'thinking', content: `Executing ${toolCalls.length} tool(s)...` })
                 }
 
-                // Execute tool calls sequentially, collecting all results
-                const toolResults: string[] = []
-
-                for (const toolCall of toolCalls) {
-                    if (signal.aborted) break
+                // Independent calls run concurrently, calls touching the same files in
+                // the order they were made; results go back in that order too
+                const plannedCalls = toolCalls.map((toolCall, index) => ({
+                    id: toolCall.id ?? `call_${index}`,
+                    toolName: toolCall.name,
+                    params: toolCall.params
+                }))
+                const callsById = new Map(plannedCalls.map((call, index) => [call.id, toolCalls[index]]))
+                const outcomes = new Map<string, ToolCallOutcome>()
+
+                const execution = await parallelExecutionService.execute(plannedCalls, {
+                    runId,
+                    iteration: this.state.iteration,
+                    abortSignal: signal,
+                    executor: async (call, batch) => {
+                        const outcome = await this.executeToolCall(callsById.get(call.id)!, transaction.id, batch)
+                        outcomes.set(call.id, outcome)
+                        return outcome
+                    }
+                })
 
+                if (execution.parallelGroups < toolCalls.length) {
                     this.addStep({
-                        type: 'tool-call',
-                        content: `Calling ${toolCall.name}`,
-                        name: toolCall.name,
-                        params: toolCall.params
+                        type: 'thinking',
+                        content: `Ran ${toolCalls.length} tool calls in ${execution.parallelGroups} parallel batch(es)`,
+                        duration: execution.totalDuration
                     })
-                    this.emit({ type: 'tool-executing', toolName: toolCall.name, params: toolCall.params })
-
-                    const context: ToolContext = { workspacePath: this.workspacePath }
-                    const stepStart = Date.now()
-
-                    try {
-                        const result = await executeTool(toolCall.name, toolCall.params, context)
-                        const duration = Date.now() - stepStart
-
-                        // Track modified files
-                        if (result.success && ['writeFile', 'replaceInFile', 'insertAtLine', 'fuzzyReplace', 'createFile'].includes(toolCall.name)) {
-                            const filePath = (toolCall.params.path as string) || ''
-                            if (filePath && !this.state.modifiedFiles.includes(filePath)) {
-                                this.state.modifiedFiles.push(filePath)
-                                this.emit({ type: 'file-modified', filePath })
-                            }
-                        }
-
-                        let resultStr = result.success
-                            ? (typeof result.data === 'string' ? result.data : JSON.stringify(result.data, null, 2))
-                            : `Error: ${result.error}`
-
-                        // Truncate very long tool results to prevent context overflow
-                        if (resultStr.length > MAX_TOOL_RESULT_CHARS) {
-                            resultStr = resultStr.slice(0, MAX_TOOL_RESULT_CHARS) + `\n...(truncated, ${resultStr.length - MAX_TOOL_RESULT_CHARS} more characters)...`
-                        }
-
-                        this.addStep({
-                            type: 'tool-result',
-                            content: resultStr,
-                            name: toolCall.name,
-                            data: result.data ?? result.error,
-                            duration
-                        })
-
-                        this.emit({
-                            type: 'tool-result',
-                            toolName: toolCall.name,
-                            result: result.data ?? result.error,
-                            success: result.success
-                        })
-
-                        // Shadow Workspace: Auto-validate after file modifications
-                        let validationFeedback = ''
-                        if (result.success && ['writeFile', 'replaceInFile', 'insertAtLine', 'fuzzyReplace', 'createFile'].includes(toolCall.name)) {
-                            const modifiedPath = (toolCall.params.path as string) || ''
-                            if (modifiedPath && this.workspacePath) {
-                                try {
-                                    const validation = await shadowWorkspaceService.validateFile(modifiedPath, this.workspacePath)
-                                    if (validation && !validation.success) {
-                                        validationFeedback = '\n' + shadowWorkspaceService.formatErrorsForAgent(validation)
-                                        this.addStep({
-                                            type: 'error',
-                                            content: `Build validation: ${validation.errors.filter(e => e.severity === 'error').length} error(s) detected`,
-                                            name: 'shadowWorkspace',
-                                            duration: validation.duration
-                                        })
-                                    }
-                                } catch {
-                                    // Validation is best-effort, don't block the loop
-                                }
-                            }
-                        }
+                }
 
-                        // Collect tool result for combined message
-                        toolResults.push(
-                            `Tool "${toolCall.name}" ${result.success ? 'succeeded' : 'failed'}.\nResult:\n${resultStr}${validationFeedback}`
-                        )
-                    } catch (err) {
-                        const errorMsg = err instanceof Error ? err.message : String(err)
-                        this.addStep({
-                            type: 'error',
-                            content: `Tool ${toolCall.name} error: ${errorMsg}`,
-                            name: toolCall.name,
-                            duration: Date.now() - stepStart
-                        })
-                        this.emit({ type: 'tool-result', toolName: toolCall.name, result: errorMsg, success: false })
-
-                        toolResults.push(
-                            `Tool "${toolCall.name}" threw an error: ${errorMsg}\nTry a different approach or tool.`
-                        )
+                // Collect all results, with the same results keyed by call id for native tool calling
+                const toolResults: string[] = []
+                const callResults: AIToolResult[] = []
+                for (const [index, toolCall] of toolCalls.entries()) {
+                    const id = plannedCalls[index].id
+                    const error = execution.results.find(result => result.toolId === id)?.error
+                        ?? (signal.aborted ? 'Run aborted' : 'Not run')
+                    const outcome = outcomes.get(id) ?? {
+                        text: `Tool "${toolCall.name}" threw an error: ${error}\nTry a different approach or tool.`,
+                        content: `Error: ${error}\nTry a different approach or tool.`,
+                        isError: true
                     }
+                    toolResults.push(outcome.text)
+                    if (toolCall.id) callResults.push({ callId: toolCall.id, name: toolCall.name, content: outcome.content, isError: outcome.isError })
                 }
 
                 // Record state for cycle detection
                 const toolNames = toolCalls.map(tc => tc.name)
                 const fileOps = this.state.modifiedFiles.slice(-5) // Last 5 modified files
                 const cycle = cycleDetectionService.recordState(toolNames, fileOps, response)
+                let cycleNote = ''
                 
                 if (cycle) {
                     this.addStep({
@@ -529,16 +559,26 @@ class AgentLoopService {
                     this.emit({ type: 'error', error: `Cycle detected: ${cycle.type}` })
                     
                     // Add cycle break suggestion to tool results
-                    toolResults.push(
-                        `\n⚠️ CYCLE DETECTED: The agent appears to be stuck in a ${cycle.type} pattern. ` +
+                    cycleNote = `\n⚠️ CYCLE DETECTED: The agent appears to be stuck in a ${cycle.type} pattern. ` +
                         `Suggestion: ${JSON.stringify(cycle.suggestedAction)}. ` +
                         `Try a completely different approach or ask for clarification.`
-                    )
+                    toolResults.push(cycleNote)
                 }
 
-                // Append assistant response ONCE + combined tool results as a single user message
-                // This prevents conversation corruption from duplicating the assistant response per tool
-                if (toolResults.length > 0) {
+                // Native calls: the assistant turn with its calls, then every result matched by call id
+                if (nativeTools && callResults.length > 0) {
+                    conversationMessages = [
+                        ...conversationMessages,
+                        turn,
+                        {
+                            role: 'user',
+                            content: `${cycleNote ? `${cycleNote.trim()}\n\n` : ''}Continue with the task. If more tools are needed, call them. If the task is complete, provide a final summary.`,
+                            toolResults: callResults
+                        }
+                    ]
+                } else if (toolResults.length > 0) {
+                    // Append assistant response ONCE + combined tool results as a single user message
+                    // This prevents conversation corruption from duplicating the assistant response per tool
                     const combinedResults = toolResults.join('\n\n---\n\n')
                     conversationMessages = [
                         ...conversationMessages,
@@ -558,6 +598,11 @@ class AgentLoopService {
                 }
             }
 
+            const changesNote = await this.settleChanges(runId, transaction.id, runConfig, signal)
+            if (changesNote) {
+                finalResponse = finalResponse ? `${finalResponse}\n\n${changesNote}` : changesNote
+            }
+
             this.emit({ type: 'completed', finalMessage: finalResponse, steps: this.state.steps })
             return finalResponse
 
@@ -574,6 +619,15 @@ class AgentLoopService {
                 this.state.isGenerating = false
             }
             this.abortController = null
+
+            // Edits of a run that failed before settling are discarded
+            if (transactionService.getTransactionStatus(transaction.id) === 'active') {
+                await transactionService.rollback(transaction.id)
+            }
+            // Only applied changes are kept for undo
+            if (this.runTransactions.get(runId) !== transaction.id) {
+                transactionService.discard(transaction.id)
+            }
             
             // End cycle detection and log results
             const cycles = cycleDetectionService.endRun()
@@ -597,6 +651,133 @@ class AgentLoopService {
         }
     }
 
+    /**
+     * Validate the run's staged edits and apply or discard them as a unit.
+     * Returns a note for the final message when the edits were not applied.
+     */
+    private async settleChanges(
+        runId: string,
+        transactionId: string,
+        config: AgentLoopConfig,
+        signal: AbortSignal
+    ): Promise<string> {
+        const files = transactionService.getStagedFiles(transactionId)
+        if (files.length === 0) {
+            await transactionService.rollback(transactionId)
+            return ''
+        }
+        if (signal.aborted) {
+            await transactionService.rollback(transactionId)
+            this.emit({ type: 'changes-discarded', runId, reason: 'Run aborted' })
+            return `Run aborted, changes to ${files.length} file(s) were discarded.`
+        }
+
+        const validation = await transactionService.validate(transactionId)
+        const changes: AgentChangeSet = {
+            runId,
+            transactionId,
+            files: files.map(({ path, operation, originalContent, newContent }) => ({ path, operation, originalContent, newContent })),
+            errors: validation.errors.map(({ path, message }) => ({ path, message })),
+            warnings: validation.warnings.map(({ path, message }) => ({ path, message }))
+        }
+        this.emit({ type: 'changes-pending', changes })
+
+        if (!await this.requestChangeApproval(changes, config, signal)) {
+            await transactionService.rollback(transactionId)
+            const reason = signal.aborted ? 'Run aborted' : 'Changes rejected'
+            this.emit({ type: 'changes-discarded', runId, reason })
+            return `${reason}, changes to ${files.length} file(s) were discarded.`
+        }
+
+        const result = await transactionService.commit(transactionId)
+        if (!result.success) {
+            this.emit({ type: 'changes-discarded', runId, reason: result.error || 'Commit failed' })
+            return `Applying the changes failed and was rolled back: ${result.error}`
+        }
+
+        this.runTransactions.set(runId, transactionId)
+        for (const [oldRunId, oldTransactionId] of this.runTransactions) {
+            if (this.runTransactions.size <= MAX_UNDOABLE_RUNS) break
+            this.runTransactions.delete(oldRunId)
+            transactionService.discard(oldTransactionId)
+        }
+        this.emit({ type: 'changes-applied', runId, files: result.modifiedFiles })
+        return ''
+    }
+
+    private async requestChangeApproval(changes: AgentChangeSet, config: AgentLoopConfig, signal: AbortSignal): Promise<boolean> {
+        // Trusted runs apply changes that pass validation without asking
+        if (config.trustedMode && changes.errors.length === 0) return true
+
+        if (!this.changeApprovalHandler) {
+            logger.agent.warn('No change approval handler set, discarding staged changes', { runId: changes.runId })
+            return false
+        }
+
+        const aborted = new Promise<boolean>(resolve => {
+            signal.addEventListener('abort', () => resolve(false), { once: true })
+        })
+        try {
+            return await Promise.race([this.changeApprovalHandler(changes), aborted])
+        } catch (err) {
+            logger.agent.error('Change approval failed', err)
+            return false
+        }
+    }
+
+    /**
+     * Shadow workspace check of staged content, registered as a transaction validation hook
+     */
+    private async validateStagedFiles(files: Map<string, TransactionFile>): Promise<TransactionValidationResult> {
+        const errors: ValidationError[] = []
+        const warnings: ValidationError[] = []
+
+        if (this.workspacePath) {
+            for (const [path, file] of files) {
+                if (file.newContent === null) continue
+
+                const result = await shadowWorkspaceService.validateFile(path, this.workspacePath, file.newContent)
+                for (const diagnostic of result?.errors ?? []) {
+                    if (diagnostic.severity === 'info') continue
+                    const location = diagnostic.line ? `Line ${diagnostic.line}${diagnostic.column ? `:${diagnostic.column}` : ''}: ` : ''
+                    const entry: ValidationError = { path, message: `${location}${diagnostic.message}`, severity: diagnostic.severity }
+                    if (diagnostic.severity === 'error') errors.push(entry)
+                    else warnings.push(entry)
+                }
+            }
+        }
+
+        return { valid: errors.length === 0, errors, warnings }
+    }
+
+    /**
+     * Whether a finished run has applied changes that can still be undone
+     */
+    canUndoRun(runId: string): boolean {
+        return this.runTransactions.has(runId)
+    }
+
+    /**
+     * Undo all file changes applied by a run. Fails without touching anything
+     * if one of the files was changed after the run applied it.
+     */
+    async undoRun(runId: string): Promise<{ success: boolean; error?: string }> {
+        const transactionId = this.runTransactions.get(runId)
+        if (!transactionId) {
+            return { success: false, error: 'This run has no applied changes to undo' }
+        }
+
+        const result = await transactionService.revert(transactionId)
+        if (!result.success) {
+            return { success: false, error: result.error }
+        }
+
+        this.runTransactions.delete(runId)
+        transactionService.discard(transactionId)
+        this.emit({ type: 'run-undone', runId, files: result.modifiedFiles })
+        return { success: true }
+    }
+
     /**
      * Get the conversation history from the last run.
      * Useful for continuation or background analysis.
@@ -649,9 +830,9 @@ class AgentLoopService {
      * Drops oldest non-system messages when token count exceeds the budget.
      */
     private trimToContextWindow(
-        messages: Array<{ role: string; content: string }>,
+        messages: LoopMessage[],
         contextWindow: number
-    ): Array<{ role: string; content: string }> {
+    ): LoopMessage[] {
         const responseBuffer = 4096
         const safetyBuffer = 1000
         const maxTokens = contextWindow - responseBuffer - safetyBuffer
@@ -659,7 +840,7 @@ class AgentLoopService {
         // Calculate total tokens
         let totalTokens = 0
         for (const msg of messages) {
-            totalTokens += estimateTokens(msg.content)
+            totalTokens += messageTokens(msg)
         }
 
         // If within budget, return as-is
@@ -676,7 +857,12 @@ class AgentLoopService {
         while (currentTokens > maxTokens && trimmed.length > 2) {
             // Remove the oldest non-system message
             const removed = trimmed.shift()!
-            currentTokens -= estimateTokens(removed.content)
+            currentTokens -= messageTokens(removed)
+        }
+
+        // Tool results cannot outlive the turn that made the calls
+        while (trimmed.length > 1 && trimmed[0].toolResults?.length) {
+            currentTokens -= messageTokens(trimmed.shift()!)
         }
 
         // If still over budget, truncate the oldest remaining message
@@ -686,7 +872,7 @@ class AgentLoopService {
             const keepTokens = estimateTokens(oldest.content) - excessTokens
             if (keepTokens > 100) {
                 trimmed[0] = {
-                    role: oldest.role,
+                    ...oldest,
                     content: '...(earlier context trimmed)...\n' + truncateToTokens(oldest.content, keepTokens)
                 }
             }
@@ -695,6 +881,120 @@ class AgentLoopService {
         return [systemMsg, ...trimmed]
     }
 
+    /**
+     * Run one tool call and record its steps. Never throws: failures come
+     * back as error results for the model. Calls of one batch run concurrently.
+     */
+    private async executeToolCall(toolCall: ParsedToolCall, transactionId: string, batch: ExecutionBatch): Promise<ToolCallOutcome> {
+        this.addStep({
+            type: 'tool-call',
+            content: `Calling ${toolCall.name}`,
+            name: toolCall.name,
+            params: toolCall.params,
+            batch
+        })
+        this.emit({ type: 'tool-executing', toolName: toolCall.name, params: toolCall.params })
+
+        if (toolCall.error) {
+            this.addStep({ type: 'error', content: `Tool ${toolCall.name} error: ${toolCall.error}`, name: toolCall.name })
+            this.emit({ type: 'tool-result', toolName: toolCall.name, result: toolCall.error, success: false })
+            return { text: `Tool "${toolCall.name}" was not run: ${toolCall.error}`, content: `Error: ${toolCall.error}`, isError: true }
+        }
+
+        const context: ToolContext = { workspacePath: this.workspacePath, transactionId }
+        const stepStart = Date.now()
+
+        try {
+            const result = await executeTool(toolCall.name, toolCall.params, context)
+            const duration = Date.now() - stepStart
+            const modifiedFiles = result.success && FILE_MODIFYING_TOOLS.has(toolCall.name)
+
+            // Track modified files
+            if (modifiedFiles) {
+                for (const param of FILE_MODIFYING_PARAMS[toolCall.name]) {
+                    const filePath = (toolCall.params[param] as string) || ''
+                    if (filePath && this.state && !this.state.modifiedFiles.includes(filePath)) {
+                        this.state.modifiedFiles.push(filePath)
+                        this.emit({ type: 'file-modified', filePath })
+                    }
+                }
+            }
+
+            let resultStr = result.success
+                ? (typeof result.data === 'string' ? result.data : JSON.stringify(result.data, null, 2))
+                : `Error: ${result.error}`
+
+            // Truncate very long tool results to prevent context overflow
+            if (resultStr.length > MAX_TOOL_RESULT_CHARS) {
+                resultStr = resultStr.slice(0, MAX_TOOL_RESULT_CHARS) + `\n...(truncated, ${resultStr.length - MAX_TOOL_RESULT_CHARS} more characters)...`
+            }
+
+            this.addStep({
+                type: 'tool-result',
+                content: resultStr,
+                name: toolCall.name,
+                data: result.data ?? result.error,
+                duration,
+                batch
+            })
+
+            this.emit({
+                type: 'tool-result',
+                toolName: toolCall.name,
+                result: result.data ?? result.error,
+                success: result.success
+            })
+
+            // Shadow Workspace: Auto-validate after file modifications
+            let validationFeedback = ''
+            if (modifiedFiles) {
+                // The tools report the resolved path the edit was staged under
+                const modifiedPath = (result.data as { path?: string } | undefined)?.path
+                    || (toolCall.params.path as string) || ''
+                // Deletions and directories have no staged content to check
+                const staged = modifiedPath ? transactionService.getStagedContent(transactionId, modifiedPath) : undefined
+                if (typeof staged === 'string' && this.workspacePath) {
+                    try {
+                        const validation = await shadowWorkspaceService.validateFile(modifiedPath, this.workspacePath, staged)
+                        if (validation && !validation.success) {
+                            validationFeedback = '\n' + shadowWorkspaceService.formatErrorsForAgent(validation)
+                            this.addStep({
+                                type: 'error',
+                                content: `Build validation: ${validation.errors.filter(e => e.severity === 'error').length} error(s) detected`,
+                                name: 'shadowWorkspace',
+                                duration: validation.duration
+                            })
+                        }
+                    } catch {
+                        // Validation is best-effort, don't block the loop
+                    }
+                }
+            }
+
+            return {
+                text: `Tool "${toolCall.name}" ${result.success ? 'succeeded' : 'failed'}.\nResult:\n${resultStr}${validationFeedback}`,
+                content: `${resultStr}${validationFeedback}`,
+                isError: !result.success
+            }
+        } catch (err) {
+            const errorMsg = err instanceof Error ? err.message : String(err)
+            this.addStep({
+                type: 'error',
+                content: `Tool ${toolCall.name} error: ${errorMsg}`,
+                name: toolCall.name,
+                duration: Date.now() - stepStart,
+                batch
+            })
+            this.emit({ type: 'tool-result', toolName: toolCall.name, result: errorMsg, success: false })
+
+            return {
+                text: `Tool "${toolCall.name}" threw an error: ${errorMsg}\nTry a different approach or tool.`,
+                content: `Error: ${errorMsg}\nTry a different approach or tool.`,
+                isError: true
+            }
+        }
+    }
+
     private addStep(step: Omit<AgentStep, 'id' | 'timestamp'>) {
         const fullStep: AgentStep = {
             id: crypto.randomUUID(),
@@ -705,10 +1005,11 @@ class AgentLoopService {
         this.emit({ type: 'step-added', step: fullStep })
     }
 
-    private buildSystemPrompt(ragContext: string, config: AgentLoopConfig): string {
+    private buildSystemPrompt(ragContext: string, config: AgentLoopConfig, nativeTools: boolean): string {
+        // Self-hosted models are tiered by name, like the ones loaded in-process
         const loadedModelId = this.useOfflineAI
             ? useModelStore.getState().loadedModelId
-            : null
+            : this.cloudProvider === 'custom' ? config.model ?? null : null
 
         const tier = detectModelTier(
             loadedModelId,
@@ -716,7 +1017,7 @@ class AgentLoopService {
             this.useOfflineAI
         )
 
-        let prompt = buildAgentLoopSystemPrompt(tier, this.workspacePath, ragContext)
+        let prompt = buildAgentLoopSystemPrompt(tier, this.workspacePath, ragContext, nativeTools)
 
         // Add plan mode instructions
         if (config.planMode) {
@@ -803,18 +1104,19 @@ Then execute the plan step by step.`
     }
 
     private async generateResponse(
-        messages: Array<{ role: string; content: string }>,
-        signal: AbortSignal
-    ): Promise<string> {
+        messages: LoopMessage[],
+        signal: AbortSignal,
+        nativeTools: boolean
+    ): Promise<LoopMessage> {
         const maxRetries = 3
         let lastError: Error | null = null
 
         for (let attempt = 1; attempt <= maxRetries; attempt++) {
             try {
                 if (this.useOfflineAI) {
-                    return await this.generateOffline(messages, signal)
+                    return { role: 'assistant', content: await this.generateOffline(messages, signal) }
                 } else {
-                    return await this.generateCloud(messages, signal)
+                    return await this.generateCloud(messages, signal, nativeTools)
                 }
             } catch (err) {
                 // Don't retry on abort
@@ -842,7 +1144,7 @@ Then execute the plan step by step.`
     }
 
     private async generateOffline(
-        messages: Array<{ role: string; content: string }>,
+        messages: LoopMessage[],
         signal: AbortSignal
     ): Promise<string> {
         const loadedModelId = useModelStore.getState().loadedModelId
@@ -858,11 +1160,14 @@ Then execute the plan step by step.`
         ]
 
         // Let the model respond naturally — tool calls are parsed from the
-        // ```tool markdown format defined in the system prompt. Grammar-forcing
-        // JSON breaks natural text responses (final answers, clarifications).
-        const options: any = {
+        // ```tool markdown format defined in the system prompt. Forcing JSON
+        // everywhere would break final answers, so the grammar only kicks in
+        // once a tool block is opened and keeps its body a valid call.
+        const options: OfflineInferenceOptions = {
             temperature: 0.3,
-            maxTokens: 4096
+            maxTokens: 4096,
+            jsonSchema: getToolCallJsonSchema(),
+            grammarTrigger: TOOL_FENCE
         }
 
         const response = await new Promise<string>((resolve, reject) => {
@@ -886,24 +1191,34 @@ Then execute the plan step by step.`
             })
         })
 
+        // Generation ends with the constrained call, before the closing fence
+        const lastFence = response.lastIndexOf(TOOL_FENCE)
+        if (lastFence !== -1 && !response.includes('```', lastFence + TOOL_FENCE.length)) {
+            return `${response}\n\`\`\``
+        }
         return response
     }
 
     private async generateCloud(
-        messages: Array<{ role: string; content: string }>,
-        signal: AbortSignal
-    ): Promise<string> {
+        messages: LoopMessage[],
+        signal: AbortSignal,
+        nativeTools: boolean
+    ): Promise<LoopMessage> {
         const aiMessages: AIMessage[] = messages.map(m => ({
-            role: m.role as 'system' | 'user' | 'assistant',
-            content: m.content
+            ...m,
+            role: m.role as 'system' | 'user' | 'assistant'
         }))
 
         // Determine best model for agent tasks
-        const options: any = {
+        const options: ChatOptions = {
             temperature: 0.3,
             maxTokens: 8192
         }
 
+        if (nativeTools) {
+            options.tools = getToolDefinitions()
+        }
+
         // Use user-selected model if available, otherwise fall back to reliable defaults
         if (this.config.model) {
             options.model = this.config.model
@@ -917,7 +1232,7 @@ Then execute the plan step by step.`
             options.model = 'gemini-1.5-pro'
         }
 
-        const response = await new Promise<string>((resolve, reject) => {
+        const response = await new Promise<LoopMessage>((resolve, reject) => {
             const onAbort = () => {
                 aiService.cancelStream()
                 reject(new Error('Aborted'))
@@ -933,13 +1248,20 @@ Then execute the plan step by step.`
                             this.emit({ type: 'streaming', text: this.state.streamingText })
                         }
                     },
-                    onComplete: (fullResponse: string) => {
+                    onComplete: (_content: string, turn: AIMessage) => {
                         signal.removeEventListener('abort', onAbort)
-                        resolve(fullResponse)
+                        resolve(turn)
                     },
                     onError: (error: string) => {
                         signal.removeEventListener('abort', onAbort)
                         reject(new Error(error))
+                    },
+                    onToolCallDelta: calls => {
+                        // Show the calls being written; the text so far stays as it was streamed
+                        if (this.state) {
+                            const pending = calls.map(call => `Calling ${call.name || 'tool'}...`).join('\n')
+                            this.emit({ type: 'streaming', text: `${this.state.streamingText}\n\n${pending}` })
+                        }
                     }
                 },
                 this.cloudProvider,
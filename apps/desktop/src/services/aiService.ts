@@ -4,11 +4,61 @@
 
 import { logger } from '../utils/logger'
 
-export type AIProvider = 'openai' | 'anthropic' | 'google'
+// 'custom' is a self-hosted OpenAI-compatible server (Ollama, llama.cpp server, vLLM)
+export type AIProvider = 'openai' | 'anthropic' | 'google' | 'custom'
+
+export interface CustomEndpointConfig {
+    // Including the API version, e.g. http://localhost:11434/v1
+    baseUrl: string
+    apiKey?: string
+    contextWindow?: number
+    // Whether the server handles OpenAI tool calls; otherwise agents write them as text
+    nativeTools?: boolean
+}
 
 export interface AIMessage {
     role: 'user' | 'assistant' | 'system'
     content: string
+    // Native tool calling: calls requested by an assistant turn...
+    toolCalls?: AIToolCall[]
+    // ...and their results, sent back in the following user turn
+    toolResults?: AIToolResult[]
+    // Anthropic thinking blocks, replayed with the turn's tool calls as the API requires
+    thinking?: Array<{ text: string; signature: string }>
+}
+
+/**
+ * A tool offered to the model through the provider's function calling API.
+ * `parameters` is a JSON Schema object.
+ */
+export interface AIToolDefinition {
+    name: string
+    description: string
+    parameters: Record<string, unknown>
+}
+
+export interface AIToolCall {
+    id: string
+    name: string
+    arguments: Record<string, unknown>
+    // Set when the streamed arguments were not valid JSON
+    argumentsError?: string
+    // Opaque provider data (Gemini thought signature) sent back with the call
+    signature?: string
+}
+
+export interface AIToolResult {
+    callId: string
+    name: string
+    content: string
+    isError?: boolean
+}
+
+// A tool call while its arguments are still streaming in
+export interface AIToolCallDraft {
+    id: string
+    name: string
+    arguments: string
 }
 
 // FIX BUG-010: Error types for better error handling and retry logic
@@ -36,8 +86,67 @@ export interface ImageGenerationResponse {
 
 export interface StreamCallbacks {
     onToken: (token: string) => void
-    onComplete: (content: string) => void
+    // `turn` is the assistant message to append to the conversation, tool calls included
+    onComplete: (content: string, turn: AIMessage) => void
     onError: (error: string) => void
+    // Called as tool calls and their arguments stream in, with every call of the turn so far
+    onToolCallDelta?: (calls: AIToolCallDraft[]) => void
+}
+
+export interface ChatOptions {
+    model?: string
+    maxTokens?: number
+    temperature?: number
+    thinking?: boolean
+    // Offered through native function calling; only used by chatStream
+    tools?: AIToolDefinition[]
+}
+
+/**
+ * Collects the tool calls of one streamed turn. Providers send them in
+ * pieces keyed by block index; Gemini sends whole calls.
+ */
+class ToolCallAccumulator {
+    private readonly drafts = new Map<number, AIToolCallDraft & { signature?: string }>()
+
+    constructor(private readonly onDelta?: (calls: AIToolCallDraft[]) => void) { }
+
+    update(index: number, delta: { id?: string; name?: string; arguments?: string; signature?: string }) {
+        const draft = this.drafts.get(index) ?? { id: '', name: '', arguments: '' }
+        if (delta.id) draft.id = delta.id
+        if (delta.name) draft.name += delta.name
+        if (delta.arguments) draft.arguments += delta.arguments
+        if (delta.signature) draft.signature = delta.signature
+        this.drafts.set(index, draft)
+        this.onDelta?.([...this.drafts.values()].map(({ id, name, arguments: args }) => ({ id, name, arguments: args })))
+    }
+
+    get size(): number {
+        return this.drafts.size
+    }
+
+    complete(): AIToolCall[] {
+        return [...this.drafts.entries()]
+            .sort(([a], [b]) => a - b)
+            .map(([index, draft]) => {
+                const call: AIToolCall = {
+                    id: draft.id || `call_${index}_${crypto.randomUUID().slice(0, 8)}`,
+                    name: draft.name,
+                    arguments: {}
+                }
+                if (draft.signature) call.signature = draft.signature
+                if (draft.arguments.trim()) {
+                    try {
+                        const parsed = JSON.parse(draft.arguments)
+                        if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) call.arguments = parsed
+                        else call.argumentsError = 'Arguments must be a JSON object'
+                    } catch (error) {
+                        call.argumentsError = `Invalid JSON arguments: ${error instanceof Error ? error.message : String(error)}`
+                    }
+                }
+                return call
+            })
+    }
 }
 
 const PROVIDER_CONFIG = {
@@ -75,16 +184,93 @@ const PROVIDER_CONFIG = {
 /**
  * Exported model lists per provider for UI dropdowns.
  * Single source of truth — do NOT duplicate these elsewhere.
+ * Custom endpoint models are discovered at runtime, see aiService.getModels.
  */
 export const PROVIDER_MODELS: Record<AIProvider, string[]> = {
     openai: ['gpt-4o', 'gpt-4o-mini', 'o1', 'o3-mini'],
     anthropic: ['claude-3-5-sonnet-latest', 'claude-3-5-haiku-latest', 'claude-3-opus-latest'],
-    google: ['gemini-2.0-flash', 'gemini-1.5-flash', 'gemini-1.5-pro']
+    google: ['gemini-2.0-flash', 'gemini-1.5-flash', 'gemini-1.5-pro'],
+    custom: []
+}
+
+const CUSTOM_ENDPOINT_CONTEXT_WINDOW = 32768
+
+/**
+ * Trim a server URL and add /v1 when only the host was given, since
+ * OpenAI-compatible servers serve the API under it.
+ */
+export function normalizeEndpointUrl(url: string): string {
+    const trimmed = url.trim().replace(/\/+$/, '')
+    try {
+        return new URL(trimmed).pathname === '/' ? `${trimmed}/v1` : trimmed
+    } catch {
+        return trimmed
+    }
+}
+
+// Where OpenAI-format requests go; the custom provider points them at its own server
+interface OpenAIEndpoint {
+    provider: AIProvider
+    baseUrl: string
+    apiKey?: string
+    defaultModel?: string
+    // Time allowed for a streamed response
+    timeoutMs: number
+    fetch: (url: string, init: RequestInit) => Promise<Response>
+}
+
+/**
+ * fetch() made by the main process, for self-hosted servers the renderer's
+ * content security policy does not allow. Plain fetch outside Electron.
+ */
+function fetchViaMain(url: string, init: RequestInit): Promise<Response> {
+    const api = globalThis.window?.electronAPI?.aiEndpoint
+    if (!api) return fetch(url, init)
+
+    return new Promise((resolve, reject) => {
+        const encoder = new TextEncoder()
+        let stream: ReadableStreamDefaultController<Uint8Array> | null = null
+        const body = new ReadableStream<Uint8Array>({ start: controller => { stream = controller } })
+        let responded = false
+
+        const requestId = api.request(
+            {
+                url,
+                method: init.method === 'POST' ? 'POST' : 'GET',
+                headers: init.headers as Record<string, string> | undefined,
+                body: typeof init.body === 'string' ? init.body : undefined
+            },
+            {
+                onResponse: (status, statusText) => {
+                    responded = true
+                    // These statuses cannot carry a body
+                    const empty = status === 204 || status === 205 || status === 304
+                    resolve(new Response(empty ? null : body, { status, statusText }))
+                },
+                onChunk: chunk => stream?.enqueue(encoder.encode(chunk)),
+                onDone: error => {
+                    if (!error) {
+                        stream?.close()
+                        return
+                    }
+                    const failure = error === 'Aborted'
+                        ? new DOMException('The request was aborted', 'AbortError')
+                        : new TypeError(`Failed to fetch: ${error}`)
+                    if (responded) stream?.error(failure)
+                    else reject(failure)
+                }
+            }
+        )
+        init.signal?.addEventListener('abort', () => { void api.cancel(requestId) }, { once: true })
+    })
 }
 
 class AIService {
     private apiKeys: Record<string, string> = {}
     private readonly abortControllers: Map<string, AbortController> = new Map()
+    private customEndpoint: CustomEndpointConfig | null = null
+    // Models discovered per custom endpoint base URL
+    private readonly endpointModels = new Map<string, string[]>()
 
     getContextWindow(provider: AIProvider): number {
         // Return default context window for the provider
@@ -94,6 +280,7 @@ class AIService {
             case 'openai': return PROVIDER_CONFIG.openai.contextWindow
             case 'anthropic': return PROVIDER_CONFIG.anthropic.contextWindow
             case 'google': return PROVIDER_CONFIG.google.contextWindow
+            case 'custom': return this.customEndpoint?.contextWindow || CUSTOM_ENDPOINT_CONTEXT_WINDOW
             default: return 8192 // Safe fallback
         }
     }
@@ -107,11 +294,88 @@ class AIService {
     }
 
     hasKey(provider: AIProvider): boolean {
+        // The custom endpoint's key is optional, configuring it is enough
+        if (provider === 'custom') return !!this.customEndpoint
         return !!this.apiKeys[provider]
     }
 
     getAvailableProviders(): AIProvider[] {
-        return Object.keys(this.apiKeys).filter(k => this.apiKeys[k]) as AIProvider[]
+        const providers = Object.keys(this.apiKeys).filter(k => k !== 'custom' && this.apiKeys[k]) as AIProvider[]
+        return this.customEndpoint ? [...providers, 'custom'] : providers
+    }
+
+    setCustomEndpoint(config: CustomEndpointConfig | null) {
+        this.customEndpoint = config ? { ...config, baseUrl: normalizeEndpointUrl(config.baseUrl) } : null
+    }
+
+    getCustomEndpoint(): CustomEndpointConfig | null {
+        return this.customEndpoint ? { ...this.customEndpoint } : null
+    }
+
+    /**
+     * Whether agent runs can offer tools through the provider's function
+     * calling API. Self-hosted servers only do when configured to.
+     */
+    supportsNativeTools(provider: AIProvider): boolean {
+        return provider === 'custom' ? !!this.customEndpoint?.nativeTools : true
+    }
+
+    getModels(provider: AIProvider): string[] {
+        if (provider !== 'custom') return PROVIDER_MODELS[provider] || []
+        return this.customEndpoint ? this.endpointModels.get(this.customEndpoint.baseUrl) ?? [] : []
+    }
+
+    /**
+     * List the models a custom endpoint serves (GET /models). Defaults to the
+     * configured endpoint; pass a config to test one before saving it.
+     */
+    async discoverModels(config: CustomEndpointConfig | null = this.customEndpoint): Promise<string[]> {
+        if (!config) throw new Error('No custom endpoint configured')
+        const baseUrl = normalizeEndpointUrl(config.baseUrl)
+
+        const response = await fetchViaMain(`${baseUrl}/models`, {
+            method: 'GET',
+            headers: config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {}
+        })
+        if (!response.ok) {
+            throw new Error(`Custom endpoint error: ${response.status} ${response.statusText}`.trim())
+        }
+
+        const data = await response.json()
+        const models: string[] = (data.data ?? data.models ?? [])
+            .map((model: { id?: string; name?: string }) => model.id ?? model.name)
+            .filter((id: unknown): id is string => typeof id === 'string' && id.length > 0)
+        this.endpointModels.set(baseUrl, models)
+        return models
+    }
+
+    private openAIEndpoint(apiKey: string): OpenAIEndpoint {
+        return {
+            provider: 'openai',
+            baseUrl: PROVIDER_CONFIG.openai.baseUrl,
+            apiKey,
+            defaultModel: PROVIDER_CONFIG.openai.models.chat,
+            timeoutMs: 60000,
+            fetch: (url, init) => fetch(url, init)
+        }
+    }
+
+    private customOpenAIEndpoint(config: CustomEndpointConfig): OpenAIEndpoint {
+        return {
+            provider: 'custom',
+            baseUrl: config.baseUrl,
+            apiKey: config.apiKey,
+            defaultModel: this.endpointModels.get(config.baseUrl)?.[0],
+            // Local inference is slow, especially on long agent prompts
+            timeoutMs: 300000,
+            fetch: fetchViaMain
+        }
+    }
+
+    private openAIHeaders(endpoint: OpenAIEndpoint): Record<string, string> {
+        return endpoint.apiKey
+            ? { 'Content-Type': 'application/json', 'Authorization': `Bearer ${endpoint.apiKey}` }
+            : { 'Content-Type': 'application/json' }
     }
 
     async verifyKey(provider: AIProvider, key: string): Promise<boolean> {
@@ -120,7 +384,7 @@ class AIService {
             const options = { maxTokens: 1 }
 
             if (provider === 'openai') {
-                await this.chatOpenAI(messages, key, options)
+                await this.chatOpenAI(messages, this.openAIEndpoint(key), options)
             } else if (provider === 'anthropic') {
                 await this.chatAnthropic(messages, key, options)
             } else if (provider === 'google') {
@@ -139,12 +403,13 @@ class AIService {
         options?: { model?: string; maxTokens?: number; temperature?: number; thinking?: boolean }
     ): Promise<AIResponse> {
         const key = this.apiKeys[provider]
-        if (!key) {
-            return { content: '', provider, model: '', error: `No API key for ${provider}` }
+        if (provider === 'custom' ? !this.customEndpoint : !key) {
+            return { content: '', provider, model: '', error: provider === 'custom' ? 'No custom endpoint configured' : `No API key for ${provider}` }
         }
 
         try {
-            if (provider === 'openai') return await this.chatOpenAI(messages, key, options)
+            if (provider === 'custom') return await this.chatOpenAI(messages, this.customOpenAIEndpoint(this.customEndpoint!), options)
+            if (provider === 'openai') return await this.chatOpenAI(messages, this.openAIEndpoint(key), options)
             if (provider === 'anthropic') return await this.chatAnthropic(messages, key, options)
             if (provider === 'google') return await this.chatGoogle(messages, key, options)
             return { content: '', provider, model: '', error: 'Unknown provider' }
@@ -180,11 +445,11 @@ class AIService {
         messages: AIMessage[],
         callbacks: StreamCallbacks,
         provider: AIProvider = 'openai',
-        options?: { model?: string; maxTokens?: number; temperature?: number; thinking?: boolean }
+        options?: ChatOptions
     ): Promise<string> {
         const key = this.apiKeys[provider]
-        if (!key) {
-            callbacks.onError(`No API key for ${provider}`)
+        if (provider === 'custom' ? !this.customEndpoint : !key) {
+            callbacks.onError(provider === 'custom' ? 'No custom endpoint configured' : `No API key for ${provider}`)
             return ''
         }
 
@@ -193,20 +458,22 @@ class AIService {
         this.abortControllers.set(requestId, abortController)
 
         try {
-            let fullContent = ''
+            let turn: AIMessage = { role: 'assistant', content: '' }
 
             if (provider === 'openai') {
-                fullContent = await this.streamOpenAI(messages, key, callbacks, abortController.signal, options)
+                turn = await this.streamOpenAI(messages, this.openAIEndpoint(key), callbacks, abortController.signal, options)
+            } else if (provider === 'custom') {
+                turn = await this.streamOpenAI(messages, this.customOpenAIEndpoint(this.customEndpoint!), callbacks, abortController.signal, options)
             } else if (provider === 'anthropic') {
-                fullContent = await this.streamAnthropic(messages, key, callbacks, abortController.signal, options)
+                turn = await this.streamAnthropic(messages, key, callbacks, abortController.signal, options)
             } else if (provider === 'google') {
-                fullContent = await this.streamGoogle(messages, key, callbacks, abortController.signal, options)
+                turn = await this.streamGoogle(messages, key, callbacks, abortController.signal, options)
             } else {
                 callbacks.onError('Unknown provider')
             }
 
-            callbacks.onComplete(fullContent)
-            return fullContent
+            callbacks.onComplete(turn.content, turn)
+            return turn.content
         } catch (error) {
             if (error instanceof Error && error.name === 'AbortError') {
                 return ''
@@ -229,20 +496,69 @@ class AIService {
         }
     }
 
+    /**
+     * Read a server-sent event stream and hand each `data:` payload to `onData`.
+     * Lines are buffered across reads so payloads split between chunks stay whole.
+     */
+    private async readEvents(reader: ReadableStreamDefaultReader<Uint8Array>, onData: (data: string) => void): Promise<void> {
+        const decoder = new TextDecoder()
+        let buffer = ''
+        let iterations = 0
+
+        while (iterations++ < 1000000) {
+            const { done, value } = await reader.read()
+            if (done) break
+
+            buffer += decoder.decode(value, { stream: true })
+            const lines = buffer.split('\n')
+            buffer = lines.pop() ?? ''
+            for (const line of lines) {
+                if (line.startsWith('data: ')) onData(line.slice(6).trim())
+            }
+        }
+
+        if (iterations >= 1000000) throw new Error('Streaming timeout')
+        if (buffer.startsWith('data: ')) onData(buffer.slice(6).trim())
+    }
+
+    private toOpenAIMessages(messages: AIMessage[]): unknown[] {
+        return messages.flatMap((m): unknown[] => {
+            if (m.toolResults?.length) {
+                return [
+                    ...m.toolResults.map(r => ({ role: 'tool', tool_call_id: r.callId, content: r.content })),
+                    ...(m.content ? [{ role: m.role, content: m.content }] : [])
+                ]
+            }
+            if (m.toolCalls?.length) {
+                return [{
+                    role: 'assistant',
+                    content: m.content || null,
+                    tool_calls: m.toolCalls.map(c => ({
+                        id: c.id,
+                        type: 'function',
+                        function: { name: c.name, arguments: JSON.stringify(c.arguments) }
+                    }))
+                }]
+            }
+            return [{ role: m.role, content: m.content }]
+        })
+    }
+
     private async streamOpenAI(
         messages: AIMessage[],
-        apiKey: string,
+        endpoint: OpenAIEndpoint,
         callbacks: StreamCallbacks,
         signal: AbortSignal,
-        options?: { model?: string; maxTokens?: number; temperature?: number }
-    ): Promise<string> {
-        const model = options?.model || PROVIDER_CONFIG.openai.models.chat
+        options?: ChatOptions
+    ): Promise<AIMessage> {
+        const model = options?.model || endpoint.defaultModel
+        if (!model) throw new Error('No model selected for the custom endpoint')
 
         // Create a timeout controller for fetch timeout
         const timeoutController = new AbortController()
         const timeoutId = setTimeout(() => {
             timeoutController.abort()
-        }, 60000) // 60 second timeout
+        }, endpoint.timeoutMs)
 
         // Combine external signal with timeout
         const handleAbort = () => {
@@ -250,69 +566,98 @@ class AIService {
         }
         signal.addEventListener('abort', handleAbort)
 
+        const requestBody: any = {
+            model,
+            messages: this.toOpenAIMessages(messages),
+            max_tokens: options?.maxTokens || 2048,
+            temperature: options?.temperature ?? 0.7,
+            stream: true
+        }
+
+        if (options?.tools?.length) {
+            requestBody.tools = options.tools.map(tool => ({
+                type: 'function',
+                function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+            }))
+        }
+
         try {
-            const response = await fetch(`${PROVIDER_CONFIG.openai.baseUrl}/chat/completions`, {
+            const response = await endpoint.fetch(`${endpoint.baseUrl}/chat/completions`, {
                 method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${apiKey}`
-                },
-                body: JSON.stringify({
-                    model,
-                    messages: messages.map(m => ({ role: m.role, content: m.content })),
-                    max_tokens: options?.maxTokens || 2048,
-                    temperature: options?.temperature ?? 0.7,
-                    stream: true
-                }),
+                headers: this.openAIHeaders(endpoint),
+                body: JSON.stringify(requestBody),
                 signal: timeoutController.signal
             })
 
             if (!response.ok) {
                 const error = await response.json().catch(() => ({}))
-                throw new Error(error.error?.message || `OpenAI API error: ${response.status}`)
+                const label = endpoint.provider === 'custom' ? 'Custom endpoint' : 'OpenAI API'
+                throw new Error(error.error?.message || `${label} error: ${response.status}`)
             }
 
             const reader = response.body?.getReader()
             if (!reader) throw new Error('No response body')
 
-            const decoder = new TextDecoder()
+            const toolCalls = new ToolCallAccumulator(callbacks.onToolCallDelta)
             let fullContent = ''
-            let iterations = 0
-
-            while (iterations++ < 1000000) {
-                const { done, value } = await reader.read()
-                if (done) break
-
-                const chunk = decoder.decode(value, { stream: true })
-                fullContent += this.processOpenAILines(chunk, callbacks)
-            }
+            await this.readEvents(reader, data => {
+                fullContent += this.processOpenAIEvent(data, callbacks, toolCalls)
+            })
 
-            if (iterations >= 1000000) throw new Error('Streaming timeout')
-            return fullContent
+            return { role: 'assistant', content: fullContent, toolCalls: toolCalls.size ? toolCalls.complete() : undefined }
         } finally {
             clearTimeout(timeoutId)
             signal.removeEventListener('abort', handleAbort)
         }
     }
 
-    private processOpenAILines(chunk: string, callbacks: StreamCallbacks): string {
-        let content = ''
-        const lines = chunk.split('\n').filter(line => line.startsWith('data: '))
-        for (const line of lines) {
-            const data = line.slice(6)
-            if (data === '[DONE]') continue
-            try {
-                const json = JSON.parse(data)
-                const token = json.choices[0]?.delta?.content || ''
-                if (token) {
-                    content += token
-                    callbacks.onToken(token)
-                }
-            } catch (e) {
-                console.debug('[AI] Malformed JSON in stream:', e)
+    private processOpenAIEvent(data: string, callbacks: StreamCallbacks, toolCalls: ToolCallAccumulator): string {
+        if (data === '[DONE]') return ''
+        try {
+            const delta = JSON.parse(data).choices?.[0]?.delta
+            // Parallel calls are told apart by index; id and name only come with the first piece
+            for (const call of delta?.tool_calls ?? []) {
+                toolCalls.update(call.index ?? 0, { id: call.id, name: call.function?.name, arguments: call.function?.arguments })
             }
+            const token = delta?.content || ''
+            if (token) callbacks.onToken(token)
+            return token
+        } catch (e) {
+            console.debug('[AI] Malformed JSON in stream:', e)
+            return ''
         }
-        return content
+    }
+
+    private toAnthropicMessages(messages: AIMessage[]): unknown[] {
+        return messages
+            .filter(m => m.role !== 'system')
+            .map(m => {
+                if (m.toolResults?.length) {
+                    return {
+                        role: 'user',
+                        content: [
+                            ...m.toolResults.map(r => ({
+                                type: 'tool_result',
+                                tool_use_id: r.callId,
+                                content: r.content,
+                                ...(r.isError ? { is_error: true } : {})
+                            })),
+                            ...(m.content ? [{ type: 'text', text: m.content }] : [])
+                        ]
+                    }
+                }
+                if (m.toolCalls?.length) {
+                    return {
+                        role: 'assistant',
+                        content: [
+                            ...(m.thinking ?? []).map(block => ({ type: 'thinking', thinking: block.text, signature: block.signature })),
+                            ...(m.content ? [{ type: 'text', text: m.content }] : []),
+                            ...m.toolCalls.map(c => ({ type: 'tool_use', id: c.id, name: c.name, input: c.arguments }))
+                        ]
+                    }
+                }
+                return { role: m.role, content: m.content }
+            })
     }
 
     private async streamAnthropic(
@@ -320,20 +665,27 @@ class AIService {
         apiKey: string,
         callbacks: StreamCallbacks,
         signal: AbortSignal,
-        options?: { model?: string; maxTokens?: number; temperature?: number; thinking?: boolean }
-    ): Promise<string> {
+        options?: ChatOptions
+    ): Promise<AIMessage> {
         const model = options?.model || PROVIDER_CONFIG.anthropic.models.chat
         const systemMsg = messages.find(m => m.role === 'system')
-        const chatMessages = messages.filter(m => m.role !== 'system')
 
         const requestBody: any = {
             model,
             max_tokens: options?.maxTokens || 2048,
             system: systemMsg?.content || 'You are a helpful AI assistant.',
-            messages: chatMessages.map(m => ({ role: m.role, content: m.content })),
+            messages: this.toAnthropicMessages(messages),
             stream: true
         }
 
+        if (options?.tools?.length) {
+            requestBody.tools = options.tools.map(tool => ({
+                name: tool.name,
+                description: tool.description,
+                input_schema: tool.parameters
+            }))
+        }
+
         if (options?.thinking) {
             requestBody.thinking = {
                 type: 'enabled',
@@ -363,51 +715,96 @@ class AIService {
         const reader = response.body?.getReader()
         if (!reader) throw new Error('No response body')
 
-        const decoder = new TextDecoder()
+        const toolCalls = new ToolCallAccumulator(callbacks.onToolCallDelta)
+        const thinking = new Map<number, { text: string; signature: string }>()
         let fullContent = ''
-        let iterations = 0
-
-        while (iterations++ < 1000000) {
-            const { done, value } = await reader.read()
-            if (done) break
+        await this.readEvents(reader, data => {
+            fullContent += this.processAnthropicEvent(data, callbacks, toolCalls, thinking)
+        })
 
-            const chunk = decoder.decode(value, { stream: true })
-            fullContent += this.processAnthropicLines(chunk, callbacks)
+        return {
+            role: 'assistant',
+            content: fullContent,
+            toolCalls: toolCalls.size ? toolCalls.complete() : undefined,
+            thinking: thinking.size ? [...thinking.values()] : undefined
         }
+    }
 
-        if (iterations >= 1000000) throw new Error('Streaming timeout')
-        return fullContent
+    private processAnthropicEvent(
+        data: string,
+        callbacks: StreamCallbacks,
+        toolCalls: ToolCallAccumulator,
+        thinking: Map<number, { text: string; signature: string }>
+    ): string {
+        try {
+            const json = JSON.parse(data)
+            if (json.type === 'content_block_start') {
+                const block = json.content_block
+                if (block?.type === 'tool_use') toolCalls.update(json.index, { id: block.id, name: block.name })
+                if (block?.type === 'thinking') thinking.set(json.index, { text: '', signature: '' })
+                return ''
+            }
+            if (json.type !== 'content_block_delta') return ''
+
+            const delta = json.delta ?? {}
+            if (delta.type === 'input_json_delta') {
+                toolCalls.update(json.index, { arguments: delta.partial_json })
+                return ''
+            }
+            if (delta.type === 'signature_delta') {
+                const block = thinking.get(json.index)
+                if (block) block.signature += delta.signature || ''
+                return ''
+            }
+
+            const token = delta.text || ''
+            const thought = delta.thinking || delta.thought || ''
+
+            if (thought) {
+                const block = thinking.get(json.index)
+                if (block) block.text += thought
+                // For the UI to detect thinking, we wrap it in tags
+                callbacks.onToken(`<thinking>${thought}</thinking>`)
+            }
+
+            if (token) callbacks.onToken(token)
+            return token
+        } catch (error) {
+            logger.ai.debug('Failed to parse Anthropic stream chunk', { data, error })
+            return ''
+        }
     }
 
-    private processAnthropicLines(chunk: string, callbacks: StreamCallbacks): string {
-        let content = ''
-        const lines = chunk.split('\n').filter(line => line.startsWith('data: '))
-        for (const line of lines) {
-            try {
-                const json = JSON.parse(line.slice(6))
-                if (json.type === 'content_block_delta') {
-                    const token = json.delta?.text || ''
-                    const thought = json.delta?.thought || ''
-
-                    if (thought) {
-                        // For the UI to detect thinking, we wrap it in tags
-                        // Since multiple deltas come, we only add tags if it's the first time
-                        // or we just stream the raw tokens if the UI handles partial tags
-                        // Actually, the easiest is to just send wrapped tokens
-                        const wrappedThought = `<thinking>${thought}</thinking>`
-                        callbacks.onToken(wrappedThought)
+    private toGoogleContents(messages: AIMessage[]): unknown[] {
+        return messages
+            .filter(m => m.role !== 'system')
+            .map(m => {
+                if (m.toolResults?.length) {
+                    return {
+                        role: 'user',
+                        parts: [
+                            ...m.toolResults.map(r => ({ functionResponse: { name: r.name, response: { content: r.content } } })),
+                            ...(m.content ? [{ text: m.content }] : [])
+                        ]
                     }
-
-                    if (token) {
-                        content += token
-                        callbacks.onToken(token)
+                }
+                if (m.toolCalls?.length) {
+                    return {
+                        role: 'model',
+                        parts: [
+                            ...(m.content ? [{ text: m.content }] : []),
+                            ...m.toolCalls.map(c => ({
+                                functionCall: { name: c.name, args: c.arguments },
+                                ...(c.signature ? { thoughtSignature: c.signature } : {})
+                            }))
+                        ]
                     }
                 }
-            } catch (error) {
-                logger.ai.debug('Failed to parse Anthropic stream chunk', { line, error })
-            }
-        }
-        return content
+                return {
+                    role: m.role === 'assistant' ? 'model' : 'user',
+                    parts: [{ text: m.content }]
+                }
+            })
     }
 
     private async streamGoogle(
@@ -415,17 +812,9 @@ class AIService {
         apiKey: string,
         callbacks: StreamCallbacks,
         signal: AbortSignal,
-        options?: { model?: string; maxTokens?: number; temperature?: number }
-    ): Promise<string> {
+        options?: ChatOptions
+    ): Promise<AIMessage> {
         const model = options?.model || PROVIDER_CONFIG.google.models.chat
-
-        const contents = messages
-            .filter(m => m.role !== 'system')
-            .map(m => ({
-                role: m.role === 'assistant' ? 'model' : 'user',
-                parts: [{ text: m.content }]
-            }))
-
         const systemInstruction = messages.find(m => m.role === 'system')
 
         const response = await fetch(
@@ -434,8 +823,11 @@ class AIService {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({
-                    contents,
+                    contents: this.toGoogleContents(messages),
                     systemInstruction: systemInstruction ? { parts: [{ text: systemInstruction.content }] } : undefined,
+                    tools: options?.tools?.length
+                        ? [{ functionDeclarations: options.tools.map(({ name, description, parameters }) => ({ name, description, parameters })) }]
+                        : undefined,
                     generationConfig: {
                         maxOutputTokens: options?.maxTokens || 2048,
                         temperature: options?.temperature ?? 0.7
@@ -451,45 +843,41 @@ class AIService {
         }
 
         const reader = response.body?.getReader()
-        const decoder = new TextDecoder()
-        let fullContent = ''
-
         if (!reader) throw new Error('No response body')
 
-        let maxIterations = 1000000
-        while (maxIterations-- > 0) {
-            const { done, value } = await reader.read()
-            if (done) break
-
-            const chunk = decoder.decode(value, { stream: true })
-            const lines = chunk.split('\n').filter(line => line.startsWith('data: '))
-
-            for (const line of lines) {
-                try {
-                    const json = JSON.parse(line.slice(6))
-                    const token = json.candidates?.[0]?.content?.parts?.[0]?.text || ''
-                    if (token) {
-                        fullContent += token
-                        callbacks.onToken(token)
+        // Gemini sends each function call whole, so every call gets its own slot
+        const toolCalls = new ToolCallAccumulator(callbacks.onToolCallDelta)
+        let fullContent = ''
+        await this.readEvents(reader, data => {
+            try {
+                const json = JSON.parse(data)
+                for (const part of json.candidates?.[0]?.content?.parts ?? []) {
+                    if (part.functionCall) {
+                        toolCalls.update(toolCalls.size, {
+                            name: part.functionCall.name,
+                            arguments: JSON.stringify(part.functionCall.args ?? {}),
+                            signature: part.thoughtSignature
+                        })
+                    } else if (part.text && !part.thought) {
+                        fullContent += part.text
+                        callbacks.onToken(part.text)
                     }
-                } catch (error) {
-                    logger.ai.debug('Failed to parse Google stream chunk', { line, error })
                 }
+            } catch (error) {
+                logger.ai.debug('Failed to parse Google stream chunk', { data, error })
             }
-        }
-        if (maxIterations <= 0) {
-            throw new Error('Streaming timeout: Max iterations reached')
-        }
+        })
 
-        return fullContent
+        return { role: 'assistant', content: fullContent, toolCalls: toolCalls.size ? toolCalls.complete() : undefined }
     }
 
     private async chatOpenAI(
         messages: AIMessage[],
-        apiKey: string,
+        endpoint: OpenAIEndpoint,
         options?: { model?: string; maxTokens?: number; temperature?: number; thinking?: boolean }
     ): Promise<AIResponse> {
-        const model = options?.model || PROVIDER_CONFIG.openai.models.chat
+        const model = options?.model || endpoint.defaultModel
+        if (!model) throw new Error('No model selected for the custom endpoint')
 
         const requestBody: any = {
             model,
@@ -502,24 +890,22 @@ class AIService {
             requestBody.reasoning_effort = 'high'
         }
 
-        const response = await fetch(`${PROVIDER_CONFIG.openai.baseUrl}/chat/completions`, {
+        const response = await endpoint.fetch(`${endpoint.baseUrl}/chat/completions`, {
             method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${apiKey}`
-            },
+            headers: this.openAIHeaders(endpoint),
             body: JSON.stringify(requestBody)
         })
 
         if (!response.ok) {
             const error = await response.json().catch(() => ({}))
-            throw new Error(error.error?.message || `OpenAI API error: ${response.status}`)
+            const label = endpoint.provider === 'custom' ? 'Custom endpoint' : 'OpenAI API'
+            throw new Error(error.error?.message || `${label} error: ${response.status}`)
         }
 
         const data = await response.json()
         return {
             content: data.choices[0]?.message?.content || '',
-            provider: 'openai',
+            provider: endpoint.provider,
             model,
             usage: data.usage ? {
                 promptTokens: data.usage.prompt_tokens,
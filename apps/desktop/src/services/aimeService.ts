@@ -8,8 +8,62 @@
 import Fuse from 'fuse.js'
 import { logger } from '../utils/logger'
 import { treeSitterService } from './treeSitterService'
+import { symbolService, type SymbolExtraction } from './symbolService'
 import AIMEWorker from '../workers/aimeWorker?worker'
 
+// Directories skipped while walking a workspace
+const EXCLUDE_DIRS = new Set([
+    'node_modules', '.git', 'dist', 'build', '.next', 'out', 'coverage',
+    '.cache', '.vscode', '.idea', '__pycache__', 'target', 'bin', 'obj',
+    '.gradle', '.nuget', 'vendor', '.terraform', '.serverless'
+])
+
+// Comprehensive language support
+const INCLUDE_EXTS = new Set([
+    // JavaScript/TypeScript ecosystem
+    'ts', 'tsx', 'js', 'jsx', 'mjs', 'cjs', 'esm',
+    // Python
+    'py', 'pyw', 'pyi',
+    // Java/Kotlin/JVM
+    'java', 'kt', 'kts', 'groovy', 'scala', 'sc',
+    // C/C++
+    'c', 'h', 'cpp', 'cc', 'cxx', 'hpp', 'hh', 'hxx',
+    // C#/.NET
+    'cs', 'csx', 'vb', 'fs', 'fsx',
+    // Go
+    'go',
+    // Rust
+    'rs', 'rlib',
+    // Ruby
+    'rb', 'rbw', 'rake', 'gemspec',
+    // PHP
+    'php', 'phtml', 'php3', 'php4', 'php5', 'phps',
+    // Swift/Objective-C
+    'swift', 'm', 'mm',
+    // Web
+    'html', 'htm', 'xhtml', 'css', 'scss', 'sass', 'less', 'styl',
+    // Shell/Scripts
+    'sh', 'bash', 'zsh', 'fish', 'ps1', 'psm1', 'bat', 'cmd',
+    // Data/Config
+    'json', 'yaml', 'yml', 'toml', 'xml', 'ini', 'cfg', 'conf',
+    // SQL
+    'sql', 'psql', 'mysql',
+    // Documentation
+    'md', 'mdx', 'rst', 'txt',
+    // Other languages
+    'lua', 'r', 'rmd', 'dart', 'flutter', 'kotlin', 'clj', 'cljs',
+    'elm', 'erl', 'hrl', 'ex', 'exs', 'hs', 'lhs', 'ml', 'mli',
+    'nim', 'nims', 'cr', 'odin', 'zig', 'v', 'vsh', 'wat', 'wast'
+])
+
+// Whether a path below the workspace root would be picked up by a full index
+function isIndexable(relativePath: string): boolean {
+    const segments = relativePath.split('/').filter(Boolean)
+    const name = segments.pop() || ''
+    if (segments.some(dir => EXCLUDE_DIRS.has(dir) || dir.startsWith('.'))) return false
+    return INCLUDE_EXTS.has(name.split('.').pop()?.toLowerCase() || '')
+}
+
 export interface CodeSymbol {
     name: string
     type: 'class' | 'function' | 'interface' | 'variable' | 'method'
@@ -25,12 +79,21 @@ export interface IndexedFile {
     // Removed `content` and `tokenCount` to save RAM
 }
 
+// A file's symbol graph extraction, kept with the index so unchanged files are not parsed again
+interface GraphFile {
+    path: string
+    lastModified: number
+    extraction: SymbolExtraction
+}
+
 class AIMEService {
     private index: IndexedFile[] = []
     private fuse: Fuse<CodeSymbol> | null = null
     private isIndexing = false
     private workspacePath: string | null = null
     private avgdl = 0 // Average document length for BM25
+    private graphFiles = new Map<string, GraphFile>()
+    private saveTimer: ReturnType<typeof setTimeout> | null = null
 
     // Web Worker for off-thread indexing
     private worker: Worker | null = null
@@ -66,6 +129,7 @@ class AIMEService {
             store.put({
                 workspacePath: this.workspacePath,
                 index: this.index,
+                symbolGraph: Array.from(this.graphFiles.values()),
                 timestamp: Date.now()
             })
             logger.agent.debug('AIME: Index saved to persistent storage')
@@ -77,7 +141,7 @@ class AIMEService {
     /**
      * Load an existing index from persistent storage
      */
-    private async loadIndex(path: string): Promise<IndexedFile[] | null> {
+    private async loadIndex(path: string): Promise<{ index: IndexedFile[]; symbolGraph: GraphFile[] } | null> {
         try {
             const db = await this.openDB()
             const transaction = db.transaction(['aime-index'], 'readonly')
@@ -86,7 +150,8 @@ class AIMEService {
 
             return new Promise((resolve) => {
                 request.onsuccess = () => {
-                    resolve(request.result?.index || null)
+                    const record = request.result
+                    resolve(record?.index ? { index: record.index, symbolGraph: record.symbolGraph || [] } : null)
                 }
                 request.onerror = () => resolve(null)
             })
@@ -196,14 +261,16 @@ class AIMEService {
         if (this.isIndexing) return
         this.isIndexing = true
         this.workspacePath = path
+        this.graphFiles.clear()
 
         logger.agent.info('AIME: Initializing codebase indexing', { path, useWorker: this.useWorker })
 
         try {
             // 1. Try to load from persistent storage first
-            const cachedIndex = await this.loadIndex(path)
-            if (cachedIndex && cachedIndex.length > 0) {
-                this.index = cachedIndex
+            const cached = await this.loadIndex(path)
+            if (cached && cached.index.length > 0) {
+                this.index = cached.index
+                for (const file of cached.symbolGraph) this.graphFiles.set(file.path, file)
                 this.buildSearchIndex()
                 logger.agent.info('AIME: Loaded index from cache', { files: this.index.length })
 
@@ -239,6 +306,7 @@ class AIMEService {
             await treeSitterService.init()
             await this.scanDirectory(path)
             this.buildSearchIndex()
+            await this.syncSymbolGraph()
             await this.saveIndex()
             logger.agent.info('AIME: Indexing complete (main thread)', {
                 files: this.index.length,
@@ -261,50 +329,6 @@ class AIMEService {
         const res = await electronAPI.fs.readDir(dir)
         if (!res?.success || !res.items) return files
 
-        const EXCLUDE_DIRS = new Set([
-            'node_modules', '.git', 'dist', 'build', '.next', 'out', 'coverage',
-            '.cache', '.vscode', '.idea', '__pycache__', 'target', 'bin', 'obj',
-            '.gradle', '.nuget', 'vendor', '.terraform', '.serverless'
-        ])
-        
-        // Comprehensive language support
-        const INCLUDE_EXTS = new Set([
-            // JavaScript/TypeScript ecosystem
-            'ts', 'tsx', 'js', 'jsx', 'mjs', 'cjs', 'esm',
-            // Python
-            'py', 'pyw', 'pyi',
-            // Java/Kotlin/JVM
-            'java', 'kt', 'kts', 'groovy', 'scala', 'sc',
-            // C/C++
-            'c', 'h', 'cpp', 'cc', 'cxx', 'hpp', 'hh', 'hxx',
-            // C#/.NET
-            'cs', 'csx', 'vb', 'fs', 'fsx',
-            // Go
-            'go',
-            // Rust
-            'rs', 'rlib',
-            // Ruby
-            'rb', 'rbw', 'rake', 'gemspec',
-            // PHP
-            'php', 'phtml', 'php3', 'php4', 'php5', 'phps',
-            // Swift/Objective-C
-            'swift', 'm', 'mm',
-            // Web
-            'html', 'htm', 'xhtml', 'css', 'scss', 'sass', 'less', 'styl',
-            // Shell/Scripts
-            'sh', 'bash', 'zsh', 'fish', 'ps1', 'psm1', 'bat', 'cmd',
-            // Data/Config
-            'json', 'yaml', 'yml', 'toml', 'xml', 'ini', 'cfg', 'conf',
-            // SQL
-            'sql', 'psql', 'mysql',
-            // Documentation
-            'md', 'mdx', 'rst', 'txt',
-            // Other languages
-            'lua', 'r', 'rmd', 'dart', 'flutter', 'kotlin', 'clj', 'cljs',
-            'elm', 'erl', 'hrl', 'ex', 'exs', 'hs', 'lhs', 'ml', 'mli',
-            'nim', 'nims', 'cr', 'odin', 'zig', 'v', 'vsh', 'wat', 'wast'
-        ])
-
         for (const item of res.items) {
             const itemPath = `${dir}/${item.name}`
             if (item.isDirectory) {
@@ -371,6 +395,8 @@ class AIMEService {
                 })
             }
             this.buildSearchIndex()
+            // The worker only extracts flat symbols; the graph needs tree-sitter on this thread
+            await this.syncSymbolGraph()
             await this.saveIndex()
         }
 
@@ -387,34 +413,6 @@ class AIMEService {
         const res = await electronAPI.fs.readDir(dir)
         if (!res?.success || !res.items) return
 
-        const EXCLUDE_DIRS = new Set([
-            'node_modules', '.git', 'dist', 'build', '.next', 'out', 'coverage',
-            '.cache', '.vscode', '.idea', '__pycache__', 'target', 'bin', 'obj',
-            '.gradle', '.nuget', 'vendor', '.terraform', '.serverless'
-        ])
-        
-        // Comprehensive language support (same as collectFiles)
-        const INCLUDE_EXTS = new Set([
-            'ts', 'tsx', 'js', 'jsx', 'mjs', 'cjs', 'esm',
-            'py', 'pyw', 'pyi',
-            'java', 'kt', 'kts', 'groovy', 'scala', 'sc',
-            'c', 'h', 'cpp', 'cc', 'cxx', 'hpp', 'hh', 'hxx',
-            'cs', 'csx', 'vb', 'fs', 'fsx',
-            'go',
-            'rs', 'rlib',
-            'rb', 'rbw', 'rake', 'gemspec',
-            'php', 'phtml', 'php3', 'php4', 'php5', 'phps',
-            'swift', 'm', 'mm',
-            'html', 'htm', 'xhtml', 'css', 'scss', 'sass', 'less', 'styl',
-            'sh', 'bash', 'zsh', 'fish', 'ps1', 'psm1', 'bat', 'cmd',
-            'json', 'yaml', 'yml', 'toml', 'xml', 'ini', 'cfg', 'conf',
-            'sql', 'psql', 'mysql',
-            'md', 'mdx', 'rst', 'txt',
-            'lua', 'r', 'rmd', 'dart', 'flutter', 'kotlin', 'clj', 'cljs',
-            'elm', 'erl', 'hrl', 'ex', 'exs', 'hs', 'lhs', 'ml', 'mli',
-            'nim', 'nims', 'cr', 'odin', 'zig', 'v', 'vsh', 'wat', 'wast'
-        ])
-
         for (const item of res.items) {
             const itemPath = `${dir}/${item.name}`
             if (item.isDirectory) {
@@ -828,6 +826,112 @@ class AIMEService {
             this.buildSearchIndex()
             logger.agent.info('AIME: Incremental re-index', { updated })
         }
+
+        const graphChanged = await this.syncSymbolGraph()
+        if (updated > 0 || graphChanged) await this.saveIndex()
+    }
+
+    /**
+     * Extract the symbol graph of indexed files that have none or an older
+     * one, then load the whole graph. Returns whether any file was extracted.
+     */
+    private async syncSymbolGraph(): Promise<boolean> {
+        const electronAPI = globalThis.window.electronAPI
+        if (!electronAPI) return false
+
+        let extracted = 0
+        const indexed = new Set<string>()
+        for (const file of this.index) {
+            if (!treeSitterService.supportsSymbolGraph(file.path)) continue
+            indexed.add(file.path)
+            const cached = this.graphFiles.get(file.path)
+            if (cached && cached.lastModified >= file.lastModified) continue
+
+            try {
+                const res = await electronAPI.fs.readFile(file.path)
+                if (!res?.success || typeof res.content !== 'string') continue
+                const extraction = await treeSitterService.extractSymbolGraph(res.content, file.path)
+                if (extraction) {
+                    this.graphFiles.set(file.path, { path: file.path, lastModified: file.lastModified, extraction })
+                    extracted++
+                }
+            } catch (error) {
+                console.warn(`[AIME] Failed to extract symbol graph: ${file.path}`, error)
+            }
+        }
+
+        for (const path of Array.from(this.graphFiles.keys())) {
+            if (!indexed.has(path)) this.graphFiles.delete(path)
+        }
+        symbolService.loadExtractions(Array.from(this.graphFiles.values()))
+        logger.agent.info('AIME: Symbol graph ready', { files: this.graphFiles.size, extracted })
+        return extracted > 0
+    }
+
+    /**
+     * Re-index a file after it changed on disk; the symbol graph is updated
+     * incrementally. Called by the workspace file watcher.
+     */
+    async updateFile(filePath: string) {
+        const workspacePath = this.workspacePath
+        if (!workspacePath || this.isIndexing || !filePath.startsWith(workspacePath)) return
+        // Watcher paths use the platform separator; indexed paths are joined with '/'
+        const relativePath = filePath.slice(workspacePath.length).replace(/\\/g, '/')
+        if (!isIndexable(relativePath)) return
+        const path = `${workspacePath}${relativePath}`
+
+        const electronAPI = globalThis.window.electronAPI
+        try {
+            const res = await electronAPI.fs.readFile(path)
+            if (!res?.success || typeof res.content !== 'string') return
+            const stats = await electronAPI.fs.stat(path)
+            const lastModified = stats?.mtime || Date.now()
+
+            const entry: IndexedFile = { path, lastModified, symbols: await this.extractSymbols(res.content, path) }
+            const existing = this.index.findIndex(f => f.path === path)
+            if (existing >= 0) this.index[existing] = entry
+            else this.index.push(entry)
+
+            if (treeSitterService.supportsSymbolGraph(path)) {
+                const extraction = await treeSitterService.extractSymbolGraph(res.content, path)
+                if (extraction) {
+                    this.graphFiles.set(path, { path, lastModified, extraction })
+                    symbolService.updateFile(path, extraction)
+                }
+            }
+            this.scheduleSave()
+        } catch (error) {
+            console.warn(`[AIME] Failed to update file: ${path}`, error)
+        }
+    }
+
+    /**
+     * Drop a deleted file, or every file below a deleted directory
+     */
+    removePath(filePath: string) {
+        const workspacePath = this.workspacePath
+        if (!workspacePath || !filePath.startsWith(workspacePath)) return
+        const path = `${workspacePath}${filePath.slice(workspacePath.length).replace(/\\/g, '/')}`
+        const isRemoved = (candidate: string) => candidate === path || candidate.startsWith(`${path}/`)
+
+        const before = this.index.length
+        this.index = this.index.filter(f => !isRemoved(f.path))
+        for (const graphPath of Array.from(this.graphFiles.keys())) {
+            if (!isRemoved(graphPath)) continue
+            this.graphFiles.delete(graphPath)
+            symbolService.removeFile(graphPath)
+        }
+        if (this.index.length !== before) this.scheduleSave()
+    }
+
+    // Watcher events come in bursts, e.g. a formatter or a branch switch touching many files
+    private scheduleSave() {
+        if (this.saveTimer) clearTimeout(this.saveTimer)
+        this.saveTimer = setTimeout(() => {
+            this.saveTimer = null
+            this.buildSearchIndex()
+            void this.saveIndex()
+        }, 2000)
     }
 
     getStats() {
@@ -384,7 +384,10 @@ export const securityLog = {
         auditLogService.log('security', 'rate_limit', 'triggered', 'warning', { peerId, action }),
     
     integrityViolation: (roomId: string, peerId: string, details: any) =>
-        auditLogService.log('security', 'integrity', 'violation', 'critical', { roomId, peerId, ...details })
+        auditLogService.log('security', 'integrity', 'violation', 'critical', { roomId, peerId, ...details }),
+
+    updateRejected: (roomId: string, userId: string, reason: string) =>
+        auditLogService.log('security', 'permission', 'update_rejected', 'warning', { roomId, userId, reason })
 }
 
 export const p2pLog = {
@@ -7,6 +7,7 @@ import * as Y from 'yjs'
 import { IndexeddbPersistence } from 'y-indexeddb'
 import { WebrtcProvider } from 'y-webrtc'
 import { p2pService } from './p2pService'
+import { permissionService } from './permissionService'
 
 export interface CursorPosition {
     clientId: number
@@ -151,6 +152,7 @@ class CollaborativeEngine {
 
         const doc = this.docs.get(docId)
         if (doc) {
+            permissionService.releaseDocument(doc)
             doc.destroy()
             this.docs.delete(docId)
         }
@@ -172,6 +174,9 @@ class CollaborativeEngine {
 
             if (!provider) return null
 
+            // The room is a space, whose members' permissions apply to the doc
+            permissionService.guardDocument(roomId, doc)
+
             // Handle sync events
             provider.on('synced', (event: { synced: boolean }) => {
                 console.log(`[CollabEngine] P2P sync for ${docId}:`, event.synced ? 'synced' : 'syncing')
@@ -221,8 +226,15 @@ class CollaborativeEngine {
         return doc.getMap<T>(name)
     }
 
+    // Whether the local member may change the editor content of a shared doc
+    private canEditContent(docId: string): boolean {
+        const doc = this.docs.get(docId)
+        return !doc || permissionService.canEditSharedText(doc, 'editor-content')
+    }
+
     // Undo
     undo(docId: string): boolean {
+        if (!this.canEditContent(docId)) return false
         const manager = this.undoManagers.get(docId)
         if (manager && manager.canUndo()) {
             manager.undo()
@@ -233,6 +245,7 @@ class CollaborativeEngine {
 
     // Redo
     redo(docId: string): boolean {
+        if (!this.canEditContent(docId)) return false
         const manager = this.undoManagers.get(docId)
         if (manager && manager.canRedo()) {
             manager.redo()
@@ -294,7 +307,7 @@ class CollaborativeEngine {
         if (!snapshot) return false
 
         const doc = this.docs.get(docId)
-        if (!doc) return false
+        if (!doc || !this.canEditContent(docId)) return false
 
         // Create backup before restore
         this.createSnapshot(docId, 'system', 'Auto-backup before restore')
@@ -46,12 +46,38 @@ export interface ResourceConflict {
     conflictType: 'read_write' | 'write_write' | 'exclusive'
 }
 
-class DependencyAnalysisService {
-    private dependencyRules = new Map<string, DependencyRule[]>()
+/** Resource standing for the whole workspace */
+const WORKSPACE = '*'
+
+// Tools that only read the path they are given
+const PATH_READ_TOOLS = ['readFile', 'listDirectory', 'getFileTree', 'fileStats', 'getDiagnostics']
+// Tools that read across the workspace whatever their params
+const WORKSPACE_READ_TOOLS = ['searchFiles', 'searchRelevantContext', 'findReferences', 'gitStatus', 'gitDiff', 'gitLog']
+// Tools that only change the path they are given
+const PATH_WRITE_TOOLS = ['writeFile', 'createFile', 'replaceInFile', 'fuzzyReplace', 'insertAtLine', 'delete', 'createDirectory']
+
+function normalizeResourcePath(path: string): string {
+    return path.replaceAll('\\', '/').replace(/^\.\//, '').replace(/\/+$/, '')
+}
 
-    constructor() {
-        this.registerDefaultRules()
+/**
+ * Whether two resources can touch the same files: the same path, a
+ * directory and something inside it, or the whole workspace.
+ */
+function resourcesOverlap(a: string, b: string): boolean {
+    if (a === WORKSPACE || b === WORKSPACE || a === b) return true
+    if (a.startsWith(`${b}/`) || b.startsWith(`${a}/`)) return true
+    // A relative path may name the same file as an absolute one
+    const isAbsolute = (path: string) => path.startsWith('/') || /^[a-z]:\//i.test(path)
+    if (isAbsolute(a) !== isAbsolute(b)) {
+        const [absolute, relative] = isAbsolute(a) ? [a, b] : [b, a]
+        return absolute.endsWith(`/${relative}`) || absolute.includes(`/${relative}/`)
     }
+    return false
+}
+
+class DependencyAnalysisService {
+    private dependencyRules = new Map<string, DependencyRule[]>()
 
     /**
      * Build a dependency graph from a list of tool calls
@@ -179,7 +205,9 @@ class DependencyAnalysisService {
     }
 
     /**
-     * Find resource conflicts between tool calls
+     * Find resource conflicts between tool calls. Calls that may do anything
+     * (commands, refactorings) claim the whole workspace and show up here as
+     * writes to it.
      */
     findResourceConflicts(toolCalls: ToolCall[]): ResourceConflict[] {
         const conflicts: ResourceConflict[] = []
@@ -293,17 +321,21 @@ class DependencyAnalysisService {
         call1: ToolCall,
         call2: ToolCall
     ): { type: Dependency['type']; reason: string } | null {
-        // Check for file dependencies
-        const file1 = call1.params.filePath as string
-        const file2 = call2.params.filePath as string
-
-        if (file1 && file2 && file1 === file2) {
-            // Same file operations typically need ordering
-            if (this.isWriteOperation(call1) && this.isReadOperation(call2)) {
-                return { type: 'data', reason: `Write to ${file1} must complete before read` }
-            }
-            if (this.isWriteOperation(call1) && this.isWriteOperation(call2)) {
-                return { type: 'file', reason: `Sequential writes to ${file1}` }
+        // Calls touching the same files keep the order they were made in, unless both only read
+        for (const res1 of this.extractResources(call1)) {
+            for (const res2 of this.extractResources(call2)) {
+                if ((res1.mode === 'read' && res2.mode === 'read') || !resourcesOverlap(res1.path, res2.path)) continue
+
+                const resource = res1.path === WORKSPACE ? res2.path : res1.path
+                if (res1.mode === 'write' && res2.mode === 'read') {
+                    return { type: 'data', reason: `Write to ${resource} must complete before read` }
+                }
+                if (res1.mode === 'read') {
+                    return { type: 'data', reason: `Read of ${resource} must complete before write` }
+                }
+                return res1.path === WORKSPACE || res2.path === WORKSPACE
+                    ? { type: 'resource', reason: `${call1.toolName} and ${call2.toolName} may change the workspace` }
+                    : { type: 'file', reason: `Sequential writes to ${resource}` }
             }
         }
 
@@ -324,28 +356,18 @@ class DependencyAnalysisService {
         return null
     }
 
-    private isWriteOperation(call: ToolCall): boolean {
-        const writeTools = ['writeFile', 'replaceInFile', 'fuzzyReplace', 'deleteFile', 'createFile']
-        return writeTools.includes(call.toolName)
-    }
-
-    private isReadOperation(call: ToolCall): boolean {
-        const readTools = ['readFile', 'getFileTree', 'listDirectory', 'searchFiles']
-        return readTools.includes(call.toolName)
-    }
-
+    /**
+     * Files a call reads or writes. Unknown tools may do anything, so they
+     * write the whole workspace and run on their own.
+     */
     private extractResources(call: ToolCall): Array<{ path: string; mode: 'read' | 'write' }> {
-        const resources: Array<{ path: string; mode: 'read' | 'write' }> = []
-        const filePath = call.params.filePath as string
-
-        if (filePath) {
-            resources.push({
-                path: filePath,
-                mode: this.isWriteOperation(call) ? 'write' : 'read'
-            })
-        }
+        const rawPath = call.params.path ?? call.params.filePath
+        const path = typeof rawPath === 'string' && rawPath.trim() ? normalizeResourcePath(rawPath.trim()) : null
 
-        return resources
+        if (WORKSPACE_READ_TOOLS.includes(call.toolName)) return [{ path: WORKSPACE, mode: 'read' }]
+        if (PATH_READ_TOOLS.includes(call.toolName)) return [{ path: path ?? WORKSPACE, mode: 'read' }]
+        if (PATH_WRITE_TOOLS.includes(call.toolName) && path) return [{ path, mode: 'write' }]
+        return [{ path: WORKSPACE, mode: 'write' }]
     }
 
     private findCriticalPath(graph: DependencyGraph): string[] {
@@ -387,28 +409,6 @@ class DependencyAnalysisService {
 
         return path
     }
-
-    private registerDefaultRules(): void {
-        // readFile before writeFile on same path
-        this.registerDependencyRule('writeFile', {
-            check: (call1, call2) => {
-                return call1.toolName === 'readFile' &&
-                       call1.params.filePath === call2.params.filePath
-            },
-            type: 'data',
-            reason: 'Read file before writing to it'
-        })
-
-        // File must exist before replacing
-        this.registerDependencyRule('replaceInFile', {
-            check: (call1, call2) => {
-                return (call1.toolName === 'createFile' || call1.toolName === 'writeFile') &&
-                       call1.params.filePath === call2.params.filePath
-            },
-            type: 'file',
-            reason: 'File must be created before replacing content'
-        })
-    }
 }
 
 interface DependencyRule {
@@ -4,6 +4,7 @@
  */
 
 import { ExtensionMetadata, ExtensionContributes, ExtensionGallery, ExtensionQueryOptions } from '../../types/extensions'
+import type { ExtensionCommandDescriptor, ExtensionHostStats } from '../../types/extensionHost'
 import { marketplaceService } from './marketplaceService'
 
 // VS Code API types for extensions
@@ -238,6 +239,12 @@ export interface Extension<T> {
 
 export type Event<T> = (listener: (e: T) => unknown, thisArgs?: unknown, disposables?: Array<{ dispose(): void }>) => { dispose(): void }
 
+// Drop Electron's "Error invoking remote method" prefix so callers see the main process error
+function unwrapIpcError(error: unknown): Error {
+  const message = error instanceof Error ? error.message : String(error)
+  return new Error(message.replace(/^Error invoking remote method '[^']+': (Error: )?/, ''))
+}
+
 // Extension Service
 class ExtensionService {
   private extensions: Map<string, ExtensionMetadata> = new Map()
@@ -245,6 +252,8 @@ class ExtensionService {
   private installedListeners: Array<(extensions: ExtensionMetadata[]) => void> = []
   private activatedListeners: Array<(id: string) => void> = []
   private deactivatedListeners: Array<(id: string) => void> = []
+  private commandsListeners: Array<(commands: ExtensionCommandDescriptor[]) => void> = []
+  private hostStatusListeners: Array<(stats: ExtensionHostStats) => void> = []
 
   constructor() {
     this.setupIPCListeners()
@@ -263,6 +272,14 @@ class ExtensionService {
         this.deactivatedListeners.forEach(listener => listener(data.id))
       })
 
+      window.electronAPI.ipcRenderer.on('extension:commands-changed', (_, commands: ExtensionCommandDescriptor[]) => {
+        this.commandsListeners.forEach(listener => listener(commands))
+      })
+
+      window.electronAPI.ipcRenderer.on('extension:host-status', (_, stats: ExtensionHostStats) => {
+        this.hostStatusListeners.forEach(listener => listener(stats))
+      })
+
       window.electronAPI.ipcRenderer.on('extension:show-message', (_, data: { type: string; message: string }) => {
         this.showNotification(data.type as 'info' | 'warning' | 'error', data.message)
       })
@@ -312,6 +329,30 @@ class ExtensionService {
     }
   }
 
+  /**
+   * Restart the extension host and re-activate the extensions that were running
+   */
+  async restartExtensionHost(): Promise<void> {
+    try {
+      await window.electronAPI?.ipcRenderer?.invoke('extensions:restart-host')
+    } catch (error) {
+      console.error('[ExtensionService] Failed to restart extension host:', error)
+      throw unwrapIpcError(error)
+    }
+  }
+
+  /**
+   * Host health and per-extension resource usage
+   */
+  async getHostStats(): Promise<ExtensionHostStats | null> {
+    try {
+      return await window.electronAPI?.ipcRenderer?.invoke('extensions:host-stats') as ExtensionHostStats ?? null
+    } catch (error) {
+      console.error('[ExtensionService] Failed to get extension host stats:', error)
+      return null
+    }
+  }
+
   /**
    * Scan for installed extensions
    */
@@ -400,9 +441,62 @@ class ExtensionService {
   }
 
   /**
-   * Install extension from VSIX file
+   * Disable or re-enable an extension. Disabling deactivates it and its active dependents.
+   */
+  async setExtensionEnabled(id: string, enabled: boolean): Promise<void> {
+    const extension = this.extensions.get(id)
+    if (!extension) {
+      throw new Error(`Extension not found: ${id}`)
+    }
+
+    try {
+      await window.electronAPI?.ipcRenderer?.invoke('extensions:set-enabled', id, enabled)
+      extension.isDisabled = !enabled
+      if (!enabled) {
+        this.activeExtensions.delete(id)
+      }
+      this.installedListeners.forEach(listener => listener(this.getExtensions()))
+    } catch (error) {
+      console.error(`[ExtensionService] Failed to ${enabled ? 'enable' : 'disable'} extension ${id}:`, error)
+      throw unwrapIpcError(error)
+    }
+  }
+
+  /**
+   * Install extension from VSIX file, then any dependencies it is missing from the registry
    */
   async installFromVSIX(vsixPath: string): Promise<ExtensionMetadata> {
+    const extension = await this.installVSIXFile(vsixPath)
+    await this.installMissingDependencies(extension, new Set([extension.id.toLowerCase()]))
+    return extension
+  }
+
+  /**
+   * Install extension from marketplace together with its `extensionDependencies`
+   * and `extensionPack` members (transitively)
+   */
+  async installFromMarketplace(extensionId: string, version?: string): Promise<ExtensionMetadata> {
+    const extension = await this.installMarketplaceExtension(extensionId, version)
+    await this.installMissingDependencies(extension, new Set([extensionId.toLowerCase(), extension.id.toLowerCase()]))
+    return extension
+  }
+
+  /**
+   * Installed extensions that list `id` in their `extensionDependencies`
+   */
+  getDependents(id: string): string[] {
+    const target = id.toLowerCase()
+    return this.getExtensions()
+      .filter(ext => ext.id !== id && ext.extensionDependencies?.some(dependency => dependency.toLowerCase() === target))
+      .map(ext => ext.id)
+  }
+
+  private isInstalled(id: string): boolean {
+    const target = id.toLowerCase()
+    return this.getExtensions().some(ext => ext.id.toLowerCase() === target)
+  }
+
+  private async installVSIXFile(vsixPath: string): Promise<ExtensionMetadata> {
     try {
       const extension = await window.electronAPI?.ipcRenderer?.invoke('extensions:install', vsixPath) as ExtensionMetadata
       this.extensions.set(extension.id, extension)
@@ -410,14 +504,41 @@ class ExtensionService {
       return extension
     } catch (error) {
       console.error('[ExtensionService] Failed to install extension:', error)
-      throw error
+      throw unwrapIpcError(error)
     }
   }
 
   /**
-   * Install extension from marketplace
+   * Walk the dependency graph depth-first. A missing dependency fails the install;
+   * a pack member that cannot be installed is only reported.
+   * `visited` holds lowercase ids already handled, which also breaks cycles.
    */
-  async installFromMarketplace(extensionId: string, version?: string): Promise<ExtensionMetadata> {
+  private async installMissingDependencies(extension: ExtensionMetadata, visited: Set<string>): Promise<void> {
+    const required = [
+      ...(extension.extensionDependencies || []).map(id => ({ id, optional: false })),
+      ...(extension.extensionPack || []).map(id => ({ id, optional: true }))
+    ]
+
+    for (const { id, optional } of required) {
+      const key = id.toLowerCase()
+      if (visited.has(key) || this.isInstalled(id)) continue
+      visited.add(key)
+
+      try {
+        const installed = await this.installMarketplaceExtension(id)
+        await this.installMissingDependencies(installed, visited)
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error)
+        if (!optional) {
+          throw new Error(`${extension.id} was installed, but its dependency ${id} could not be installed: ${reason}`)
+        }
+        console.warn(`[ExtensionService] Skipping ${id} from extension pack ${extension.id}:`, reason)
+        this.showNotification('warning', `${id} from extension pack ${extension.id} could not be installed: ${reason}`)
+      }
+    }
+  }
+
+  private async installMarketplaceExtension(extensionId: string, version?: string): Promise<ExtensionMetadata> {
     console.log('[ExtensionService] Installing extension:', extensionId, 'version:', version)
     
     // Handle both "publisher.name" and "namespace.name" formats
@@ -433,16 +554,17 @@ class ExtensionService {
     
     console.log('[ExtensionService] Parsed namespace:', namespace, 'name:', name)
     
-    // Resolve the actual download URL (handles 'latest' version)
-    const downloadUrl = await marketplaceService.getActualDownloadUrl(
-      namespace, 
-      name, 
-      version || 'latest'
+    // Without an explicit version, take the newest release whose engine range this host supports
+    const actualVersion = version || await marketplaceService.findCompatibleVersion(
+      namespace,
+      name,
+      async (engineRange) => await window.electronAPI?.ipcRenderer?.invoke('extensions:check-engine', engineRange) as boolean
     )
+
+    const downloadUrl = await marketplaceService.getActualDownloadUrl(namespace, name, actualVersion)
     
     // Get temp path
     const tempDir = await window.electronAPI?.app?.getPath('temp')
-    const actualVersion = version || 'latest'
     const tempPath = `${tempDir}/${namespace}.${name}-${actualVersion}.vsix`
     
     console.log('[ExtensionService] Downloading from:', downloadUrl)
@@ -455,7 +577,7 @@ class ExtensionService {
     // The error from installFromVSIX will give us the actual error if the file is invalid
 
     // Install
-    return this.installFromVSIX(tempPath)
+    return this.installVSIXFile(tempPath)
   }
 
   /**
@@ -467,18 +589,15 @@ class ExtensionService {
       throw new Error(`Extension not found: ${id}`)
     }
 
-    // Deactivate first
-    if (this.activeExtensions.has(id)) {
-      await this.deactivateExtension(id)
-    }
-
+    // The main process refuses while other extensions depend on this one, and deactivates it otherwise
     try {
       await window.electronAPI?.ipcRenderer?.invoke('extensions:uninstall', id)
+      this.activeExtensions.delete(id)
       this.extensions.delete(id)
       this.installedListeners.forEach(listener => listener(this.getExtensions()))
     } catch (error) {
       console.error(`[ExtensionService] Failed to uninstall extension ${id}:`, error)
-      throw error
+      throw unwrapIpcError(error)
     }
   }
 
@@ -494,6 +613,33 @@ class ExtensionService {
     }
   }
 
+  /**
+   * Get commands contributed by installed extensions
+   */
+  async getCommands(): Promise<ExtensionCommandDescriptor[]> {
+    try {
+      return await window.electronAPI?.ipcRenderer?.invoke('extensions:commands') as ExtensionCommandDescriptor[] ?? []
+    } catch (error) {
+      console.error('[ExtensionService] Failed to get commands:', error)
+      return []
+    }
+  }
+
+  /**
+   * Execute an extension command, activating its extension if needed.
+   * Rejects with the error raised by the command callback.
+   */
+  async executeCommand<T = unknown>(command: string, ...args: unknown[]): Promise<T> {
+    if (!window.electronAPI?.ipcRenderer) {
+      throw new Error('Extension host is not available')
+    }
+    try {
+      return await window.electronAPI.ipcRenderer.invoke('extensions:execute-command', command, args) as T
+    } catch (error) {
+      throw unwrapIpcError(error)
+    }
+  }
+
   /**
    * Check if extension is active
    */
@@ -555,6 +701,26 @@ class ExtensionService {
     }
   }
 
+  onCommandsChanged(listener: (commands: ExtensionCommandDescriptor[]) => void): () => void {
+    this.commandsListeners.push(listener)
+    return () => {
+      const index = this.commandsListeners.indexOf(listener)
+      if (index > -1) {
+        this.commandsListeners.splice(index, 1)
+      }
+    }
+  }
+
+  onHostStatus(listener: (stats: ExtensionHostStats) => void): () => void {
+    this.hostStatusListeners.push(listener)
+    return () => {
+      const index = this.hostStatusListeners.indexOf(listener)
+      if (index > -1) {
+        this.hostStatusListeners.splice(index, 1)
+      }
+    }
+  }
+
   // Private helpers
 }
 
@@ -5,6 +5,7 @@
 export { extensionService } from './extensionService'
 export type { VSCodeAPI } from './extensionService'
 export { marketplaceService } from './marketplaceService'
+export { languageFeatureBridge } from './languageFeatureBridge'
 export type {
   OutputChannel,
   Terminal,
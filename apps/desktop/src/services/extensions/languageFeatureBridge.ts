@@ -0,0 +1,313 @@
+/**
+ * Language Feature Bridge (Renderer Process)
+ * Registers Monaco providers for every language provider an extension registers
+ * through `vscode.languages` and proxies editor requests to the extension host.
+ */
+
+import type {
+  CompletionItemDTO,
+  LanguageFeatureKind,
+  LanguageFeatureRequest,
+  LanguageFeatureResult,
+  LanguageProviderRegistration,
+  LocationDTO,
+  ProtocolRange,
+  TextEditDTO
+} from '../../types/extensionHost'
+import { logger } from '../../utils/logger'
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type Monaco = any
+
+interface MonacoPosition {
+  lineNumber: number
+  column: number
+}
+
+interface MonacoModel {
+  uri: { fsPath: string; path: string }
+  getLanguageId(): string
+  getVersionId(): number
+  getValue(): string
+  getWordUntilPosition(position: MonacoPosition): { word: string; startColumn: number; endColumn: number }
+}
+
+interface MonacoCancellationToken {
+  isCancellationRequested: boolean
+  onCancellationRequested: (listener: () => void) => { dispose(): void }
+}
+
+// vscode.CompletionItemKind values in declaration order; Monaco uses the same names with different numbers
+const VSCODE_COMPLETION_KINDS = [
+  'Text', 'Method', 'Function', 'Constructor', 'Field', 'Variable', 'Class', 'Interface', 'Module',
+  'Property', 'Unit', 'Value', 'Enum', 'Keyword', 'Snippet', 'Color', 'File', 'Reference', 'Folder',
+  'EnumMember', 'Constant', 'Struct', 'Event', 'Operator', 'TypeParameter'
+]
+
+function toMonacoRange(range: ProtocolRange) {
+  return {
+    startLineNumber: range.start.line + 1,
+    startColumn: range.start.character + 1,
+    endLineNumber: range.end.line + 1,
+    endColumn: range.end.character + 1
+  }
+}
+
+function toProtocolRange(range: { startLineNumber: number; startColumn: number; endLineNumber: number; endColumn: number }): ProtocolRange {
+  return {
+    start: { line: range.startLineNumber - 1, character: range.startColumn - 1 },
+    end: { line: range.endLineNumber - 1, character: range.endColumn - 1 }
+  }
+}
+
+function toMonacoTextEdit(edit: TextEditDTO) {
+  return { range: toMonacoRange(edit.range), text: edit.newText }
+}
+
+class LanguageFeatureBridge {
+  private monaco: Monaco | null = null
+  private registrations: Map<number, { dispose(): void }> = new Map()
+  private unsubscribe: (() => void) | null = null
+  private requestCounter = 0
+
+  /**
+   * Attach to a Monaco instance. Safe to call on every editor mount;
+   * providers are registered once per Monaco instance.
+   */
+  async attach(monaco: Monaco): Promise<void> {
+    const api = window.electronAPI?.extensions
+    if (!api?.languageProviders || this.monaco === monaco) return
+
+    this.detach()
+    this.monaco = monaco
+
+    this.unsubscribe = api.onLanguageProvidersChanged(providers => this.sync(providers))
+    try {
+      this.sync(await api.languageProviders())
+    } catch (error) {
+      logger.ide.warn('Failed to load extension language providers', error)
+    }
+  }
+
+  detach(): void {
+    this.unsubscribe?.()
+    this.unsubscribe = null
+    this.registrations.forEach(registration => registration.dispose())
+    this.registrations.clear()
+    this.monaco = null
+  }
+
+  private sync(providers: LanguageProviderRegistration[]): void {
+    if (!this.monaco) return
+
+    const handles = new Set(providers.map(p => p.handle))
+    for (const [handle, registration] of Array.from(this.registrations.entries())) {
+      if (!handles.has(handle)) {
+        registration.dispose()
+        this.registrations.delete(handle)
+      }
+    }
+
+    for (const provider of providers) {
+      if (this.registrations.has(provider.handle)) continue
+      try {
+        const registration = this.register(provider)
+        if (registration) {
+          this.registrations.set(provider.handle, registration)
+        }
+      } catch (error) {
+        logger.ide.warn(`Failed to register ${provider.kind} provider from ${provider.extensionId}`, error)
+      }
+    }
+  }
+
+  private register(provider: LanguageProviderRegistration): { dispose(): void } | null {
+    const monaco = this.monaco
+    const selector = provider.selector.map(filter =>
+      !filter.scheme && !filter.pattern ? (filter.language || '*') : { ...filter }
+    )
+
+    switch (provider.kind) {
+      case 'completion':
+        return monaco.languages.registerCompletionItemProvider(selector, {
+          triggerCharacters: provider.triggerCharacters,
+          provideCompletionItems: async (model: MonacoModel, position: MonacoPosition, context: { triggerCharacter?: string }, token: MonacoCancellationToken) => {
+            const result = await this.request(provider, model, token, {
+              position: { line: position.lineNumber - 1, character: position.column - 1 },
+              triggerCharacter: context?.triggerCharacter
+            })
+            if (result?.kind !== 'completion') return { suggestions: [] }
+
+            const word = model.getWordUntilPosition(position)
+            const defaultRange = {
+              startLineNumber: position.lineNumber,
+              startColumn: word.startColumn,
+              endLineNumber: position.lineNumber,
+              endColumn: word.endColumn
+            }
+            return {
+              suggestions: result.items.map(item => this.toMonacoCompletion(item, defaultRange)),
+              incomplete: result.isIncomplete
+            }
+          }
+        })
+
+      case 'hover':
+        return monaco.languages.registerHoverProvider(selector, {
+          provideHover: async (model: MonacoModel, position: MonacoPosition, token: MonacoCancellationToken) => {
+            const result = await this.request(provider, model, token, {
+              position: { line: position.lineNumber - 1, character: position.column - 1 }
+            })
+            if (result?.kind !== 'hover' || result.contents.length === 0) return null
+            return {
+              contents: result.contents.map(value => ({ value })),
+              range: result.range ? toMonacoRange(result.range) : undefined
+            }
+          }
+        })
+
+      case 'definition':
+        return monaco.languages.registerDefinitionProvider(selector, {
+          provideDefinition: async (model: MonacoModel, position: MonacoPosition, token: MonacoCancellationToken) => {
+            const result = await this.request(provider, model, token, {
+              position: { line: position.lineNumber - 1, character: position.column - 1 }
+            })
+            return result?.kind === 'definition' ? result.locations.map(l => this.toMonacoLocation(l)) : null
+          }
+        })
+
+      case 'references':
+        return monaco.languages.registerReferenceProvider(selector, {
+          provideReferences: async (model: MonacoModel, position: MonacoPosition, _context: unknown, token: MonacoCancellationToken) => {
+            const result = await this.request(provider, model, token, {
+              position: { line: position.lineNumber - 1, character: position.column - 1 }
+            })
+            return result?.kind === 'references' ? result.locations.map(l => this.toMonacoLocation(l)) : null
+          }
+        })
+
+      case 'codeAction':
+        return monaco.languages.registerCodeActionProvider(selector, {
+          provideCodeActions: async (
+            model: MonacoModel,
+            range: { startLineNumber: number; startColumn: number; endLineNumber: number; endColumn: number },
+            context: { markers: Array<{ startLineNumber: number; startColumn: number; endLineNumber: number; endColumn: number; message: string; severity: number; source?: string }>; only?: string },
+            token: MonacoCancellationToken
+          ) => {
+            const result = await this.request(provider, model, token, {
+              range: toProtocolRange(range),
+              only: context.only,
+              diagnostics: context.markers.map(marker => ({
+                range: toProtocolRange(marker),
+                message: marker.message,
+                // Monaco MarkerSeverity: Hint=1, Info=2, Warning=4, Error=8 -> vscode DiagnosticSeverity
+                severity: marker.severity >= 8 ? 0 : marker.severity >= 4 ? 1 : marker.severity >= 2 ? 2 : 3,
+                source: marker.source
+              }))
+            })
+            if (result?.kind !== 'codeAction') return { actions: [], dispose: () => {} }
+
+            return {
+              actions: result.actions.map(action => ({
+                title: action.title,
+                kind: action.kind,
+                isPreferred: action.isPreferred,
+                edit: action.edit ? {
+                  edits: action.edit.edits.flatMap(entry => entry.edits.map(edit => ({
+                    resource: monaco.Uri.file(entry.uri),
+                    textEdit: toMonacoTextEdit(edit),
+                    versionId: undefined
+                  })))
+                } : undefined,
+                command: action.command ? {
+                  id: action.command.command,
+                  title: action.command.title,
+                  arguments: action.command.arguments
+                } : undefined
+              })),
+              dispose: () => {}
+            }
+          }
+        })
+
+      case 'formatting':
+        return monaco.languages.registerDocumentFormattingEditProvider(selector, {
+          displayName: provider.extensionId,
+          provideDocumentFormattingEdits: async (model: MonacoModel, options: { tabSize: number; insertSpaces: boolean }, token: MonacoCancellationToken) => {
+            const result = await this.request(provider, model, token, {
+              options: { tabSize: options.tabSize, insertSpaces: options.insertSpaces }
+            })
+            return result?.kind === 'formatting' ? result.edits.map(toMonacoTextEdit) : []
+          }
+        })
+
+      default:
+        return null
+    }
+  }
+
+  private async request(
+    provider: LanguageProviderRegistration,
+    model: MonacoModel,
+    token: MonacoCancellationToken,
+    params: Partial<LanguageFeatureRequest>
+  ): Promise<LanguageFeatureResult | null> {
+    const api = window.electronAPI?.extensions
+    if (!api || token.isCancellationRequested) return null
+
+    const requestId = `${provider.kind}-${provider.handle}-${++this.requestCounter}`
+    const cancellation = token.onCancellationRequested(() => {
+      void api.cancelLanguageFeature(requestId)
+    })
+
+    try {
+      return await api.provideLanguageFeature({
+        ...params,
+        requestId,
+        handle: provider.handle,
+        kind: provider.kind as LanguageFeatureKind,
+        document: {
+          uri: model.uri.fsPath || model.uri.path,
+          languageId: model.getLanguageId(),
+          version: model.getVersionId(),
+          text: model.getValue()
+        }
+      })
+    } catch (error) {
+      logger.ide.debug(`Extension ${provider.kind} request failed`, error)
+      return null
+    } finally {
+      cancellation.dispose()
+    }
+  }
+
+  private toMonacoCompletion(item: CompletionItemDTO, defaultRange: ReturnType<typeof toMonacoRange>) {
+    const monaco = this.monaco
+    const kindName = item.kind !== undefined ? VSCODE_COMPLETION_KINDS[item.kind] : undefined
+    return {
+      label: item.labelDetail || item.labelDescription
+        ? { label: item.label, detail: item.labelDetail, description: item.labelDescription }
+        : item.label,
+      kind: (kindName && monaco.languages.CompletionItemKind[kindName]) ?? monaco.languages.CompletionItemKind.Text,
+      detail: item.detail,
+      documentation: item.documentation ? { value: item.documentation } : undefined,
+      insertText: item.insertText,
+      insertTextRules: item.isSnippet ? monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet : undefined,
+      filterText: item.filterText,
+      sortText: item.sortText,
+      preselect: item.preselect,
+      commitCharacters: item.commitCharacters,
+      range: item.range ? toMonacoRange(item.range) : defaultRange
+    }
+  }
+
+  private toMonacoLocation(location: LocationDTO) {
+    return {
+      uri: this.monaco.Uri.file(location.uri),
+      range: toMonacoRange(location.range)
+    }
+  }
+}
+
+export const languageFeatureBridge = new LanguageFeatureBridge()
+export default languageFeatureBridge
@@ -1,12 +1,18 @@
 /**
  * Open VSX Marketplace Service
- * Provides access to the Open VSX registry for downloading VS Code extensions
+ * Provides access to the Open VSX registry for downloading VS Code extensions.
+ * The registry defaults to open-vsx.org; any server implementing the Open VSX
+ * API (e.g. a self-hosted mirror) can be configured instead.
  */
 
 import { ExtensionGallery, ExtensionQueryOptions } from '../../types/extensions'
 
-const OPENVSX_API_URL = 'https://open-vsx.org/api'
+export const DEFAULT_REGISTRY_URL = 'https://open-vsx.org/api'
+// User setting (settings.json) holding the registry base URL, e.g. `http://vsx.internal/api`
+export const REGISTRY_URL_SETTING = 'extensions.gallery.serviceUrl'
 const DEFAULT_PAGE_SIZE = 20
+// Older releases probed when the newest one needs a newer VS Code API
+const MAX_VERSION_CANDIDATES = 10
 
 interface OpenVSXSearchResult {
   extensions: Array<{
@@ -42,6 +48,9 @@ interface OpenVSXExtensionDetails {
     version: string
     lastUpdated?: string
   }>
+  // Version -> metadata URL, plus aliases such as "latest"
+  allVersions?: Record<string, string>
+  engines?: Record<string, string>
   files?: {
     download?: string
     manifest?: string
@@ -52,9 +61,48 @@ interface OpenVSXExtensionDetails {
   }
 }
 
+function compareVersionsDescending(a: string, b: string): number {
+  const pa = a.split(/[.-]/).map(part => parseInt(part, 10) || 0)
+  const pb = b.split(/[.-]/).map(part => parseInt(part, 10) || 0)
+  for (let i = 0; i < 3; i++) {
+    const difference = (pb[i] || 0) - (pa[i] || 0)
+    if (difference !== 0) return difference
+  }
+  return 0
+}
+
 class MarketplaceService {
   private cache: Map<string, { data: unknown; timestamp: number }> = new Map()
   private cacheTTL = 5 * 60 * 1000 // 5 minutes
+  private registryUrl = DEFAULT_REGISTRY_URL
+  private registryLoaded: Promise<void> | null = null
+
+  /**
+   * Point the service at another Open VSX compatible registry.
+   * `null` or an empty value restores the public registry.
+   */
+  setRegistryUrl(url?: string | null): void {
+    const next = url?.trim() ? url.trim().replace(/\/+$/, '') : DEFAULT_REGISTRY_URL
+
+    let parsed: URL
+    try {
+      parsed = new URL(next)
+    } catch {
+      throw new Error(`Invalid registry URL: ${url}`)
+    }
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+      throw new Error(`Registry URL must use http or https: ${url}`)
+    }
+
+    if (next !== this.registryUrl) {
+      this.registryUrl = next
+      this.clearCache()
+    }
+  }
+
+  getRegistryUrl(): string {
+    return this.registryUrl
+  }
 
   /**
    * Search for extensions in the Open VSX marketplace
@@ -70,6 +118,7 @@ class MarketplaceService {
     } = options
 
     try {
+      await this.ensureRegistryUrl()
       const params = new URLSearchParams()
       if (searchText) params.set('query', searchText)
       if (categories.length > 0) params.set('category', categories.join(','))
@@ -97,7 +146,7 @@ class MarketplaceService {
         return this.mapSearchResults(cached)
       }
 
-      const response = await fetch(`${OPENVSX_API_URL}/-/search?${params.toString()}`)
+      const response = await fetch(`${this.registryUrl}/-/search?${params.toString()}`)
       
       if (!response.ok) {
         throw new Error(`Marketplace search failed: ${response.status} ${response.statusText}`)
@@ -118,6 +167,7 @@ class MarketplaceService {
    */
   async getExtensionDetails(namespace: string, name: string): Promise<ExtensionGallery> {
     try {
+      await this.ensureRegistryUrl()
       const cacheKey = `details:${namespace}.${name}`
       const cached = this.getFromCache<OpenVSXExtensionDetails>(cacheKey)
       
@@ -125,7 +175,7 @@ class MarketplaceService {
         return this.mapExtensionDetails(cached)
       }
 
-      const response = await fetch(`${OPENVSX_API_URL}/${namespace}/${name}`)
+      const response = await fetch(`${this.registryUrl}/${namespace}/${name}`)
       
       if (!response.ok) {
         if (response.status === 404) {
@@ -149,32 +199,39 @@ class MarketplaceService {
    */
   async getExtensionVersion(namespace: string, name: string, version: string): Promise<ExtensionGallery> {
     try {
-      const cacheKey = `version:${namespace}.${name}:${version}`
-      const cached = this.getFromCache<OpenVSXExtensionDetails>(cacheKey)
-      
-      if (cached) {
-        return this.mapExtensionDetails(cached)
-      }
-
-      const response = await fetch(`${OPENVSX_API_URL}/${namespace}/${name}/${version}`)
-      
-      if (!response.ok) {
-        if (response.status === 404) {
-          throw new Error(`Extension version not found: ${namespace}.${name}@${version}`)
-        }
-        throw new Error(`Failed to get extension version: ${response.status}`)
-      }
-
-      const details: OpenVSXExtensionDetails = await response.json()
-      this.setCache(cacheKey, details)
-
-      return this.mapExtensionDetails(details)
+      await this.ensureRegistryUrl()
+      return this.mapExtensionDetails(await this.fetchVersionDetails(namespace, name, version))
     } catch (error) {
       console.error('[Marketplace] Get version failed:', error)
       throw error
     }
   }
 
+  /**
+   * Find the newest version whose `engines.vscode` range `isCompatible` accepts.
+   * Each candidate costs a registry request, so only recent releases are probed.
+   */
+  async findCompatibleVersion(
+    namespace: string,
+    name: string,
+    isCompatible: (engineRange: string) => Promise<boolean>
+  ): Promise<string> {
+    await this.ensureRegistryUrl()
+    const latest = await this.fetchVersionDetails(namespace, name, 'latest')
+    const older = Object.keys(latest.allVersions || {})
+      .filter(version => /^\d/.test(version) && version !== latest.version)
+      .sort(compareVersionsDescending)
+    const candidates = [latest.version, ...older].slice(0, MAX_VERSION_CANDIDATES)
+
+    for (const version of candidates) {
+      const details = version === latest.version ? latest : await this.fetchVersionDetails(namespace, name, version)
+      if (await isCompatible(details.engines?.vscode ?? '*')) {
+        return version
+      }
+    }
+    throw new Error(`No recent version of ${namespace}.${name} is compatible with this version of Kalynt`)
+  }
+
   /**
    * Download extension VSIX file
    */
@@ -185,7 +242,8 @@ class MarketplaceService {
     onProgress?: (downloaded: number, total: number) => void
   ): Promise<Blob> {
     try {
-      const response = await fetch(`${OPENVSX_API_URL}/${namespace}/${name}/${version}/file/${namespace}.${name}-${version}.vsix`)
+      await this.ensureRegistryUrl()
+      const response = await fetch(`${this.registryUrl}/${namespace}/${name}/${version}/file/${namespace}.${name}-${version}.vsix`)
       
       if (!response.ok) {
         throw new Error(`Failed to download extension: ${response.status}`)
@@ -232,7 +290,7 @@ class MarketplaceService {
    */
   getDownloadUrl(namespace: string, name: string, version: string): string {
     // Use the file endpoint which redirects to the actual download
-    return `${OPENVSX_API_URL}/${namespace}/${name}/${version}/file/${namespace}.${name}-${version}.vsix`
+    return `${this.registryUrl}/${namespace}/${name}/${version}/file/${namespace}.${name}-${version}.vsix`
   }
 
   /**
@@ -242,6 +300,7 @@ class MarketplaceService {
     console.log(`[Marketplace] Resolving download URL for ${namespace}.${name}@${version}`)
     
     try {
+      await this.ensureRegistryUrl()
       let actualVersion: string
       
       if (version === 'latest') {
@@ -261,7 +320,7 @@ class MarketplaceService {
       
       // Return the file URL with actual version
       // Open VSX uses: /api/{namespace}/{name}/{version}/file/{filename}
-      const url = `${OPENVSX_API_URL}/${namespace}/${name}/${actualVersion}/file/${namespace}.${name}-${actualVersion}.vsix`
+      const url = `${this.registryUrl}/${namespace}/${name}/${actualVersion}/file/${namespace}.${name}-${actualVersion}.vsix`
       console.log('[Marketplace] Resolved download URL:', url)
       return url
     } catch (error) {
@@ -351,6 +410,52 @@ class MarketplaceService {
 
   // Private helpers
 
+  /**
+   * Read the configured registry once, then follow changes to the setting.
+   */
+  private ensureRegistryUrl(): Promise<void> {
+    if (!this.registryLoaded) {
+      this.registryLoaded = this.loadRegistrySetting()
+      window.electronAPI?.ipcRenderer?.on('extension:configuration-changed', (_, data: { keys: string[] }) => {
+        if (data.keys.includes(REGISTRY_URL_SETTING)) {
+          void this.loadRegistrySetting()
+        }
+      })
+    }
+    return this.registryLoaded
+  }
+
+  private async loadRegistrySetting(): Promise<void> {
+    try {
+      const config = await window.electronAPI?.ipcRenderer?.invoke('extensions:get-configuration') as
+        { user: Record<string, unknown> } | undefined
+      // Only the user layer counts: opening a workspace must not redirect extension downloads
+      const url = config?.user[REGISTRY_URL_SETTING]
+      this.setRegistryUrl(typeof url === 'string' ? url : null)
+    } catch (error) {
+      console.error('[Marketplace] Ignoring registry setting:', error)
+    }
+  }
+
+  private async fetchVersionDetails(namespace: string, name: string, version: string): Promise<OpenVSXExtensionDetails> {
+    const cacheKey = `version:${namespace}.${name}:${version}`
+    const cached = this.getFromCache<OpenVSXExtensionDetails>(cacheKey)
+    if (cached) return cached
+
+    const response = await fetch(`${this.registryUrl}/${namespace}/${name}/${version}`)
+
+    if (!response.ok) {
+      if (response.status === 404) {
+        throw new Error(`Extension version not found: ${namespace}.${name}@${version}`)
+      }
+      throw new Error(`Failed to get extension version: ${response.status}`)
+    }
+
+    const details: OpenVSXExtensionDetails = await response.json()
+    this.setCache(cacheKey, details)
+    return details
+  }
+
   private mapSearchResults(result: OpenVSXSearchResult): ExtensionGallery[] {
     if (!result.extensions) return []
 
@@ -367,8 +472,8 @@ class MarketplaceService {
       versions: [{
         version: ext.version,
         lastUpdated: ext.lastUpdatedDate || new Date().toISOString(),
-        assetUri: `${OPENVSX_API_URL}/${ext.namespace}/${ext.name}/${ext.version}`,
-        fallbackAssetUri: `${OPENVSX_API_URL}/${ext.namespace}/${ext.name}`,
+        assetUri: `${this.registryUrl}/${ext.namespace}/${ext.name}/${ext.version}`,
+        fallbackAssetUri: `${this.registryUrl}/${ext.namespace}/${ext.name}`,
         files: []
       }],
       categories: ext.categories || [],
@@ -398,8 +503,8 @@ class MarketplaceService {
       versions: versions.map(v => ({
         version: v.version,
         lastUpdated: v.lastUpdated || new Date().toISOString(),
-        assetUri: `${OPENVSX_API_URL}/${details.namespace}/${details.name}/${v.version}`,
-        fallbackAssetUri: `${OPENVSX_API_URL}/${details.namespace}/${details.name}`,
+        assetUri: `${this.registryUrl}/${details.namespace}/${details.name}/${v.version}`,
+        fallbackAssetUri: `${this.registryUrl}/${details.namespace}/${details.name}`,
         files: []
       })),
       categories: details.categories || [],
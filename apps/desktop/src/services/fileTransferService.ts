@@ -5,6 +5,7 @@
 import * as Y from 'yjs'
 import { collabEngine } from './collabEngine'
 import { p2pService, PeerInfo } from './p2pService'
+import { permissionService } from './permissionService'
 
 export type TransferTier = 'small' | 'medium' | 'large'
 
@@ -175,6 +176,10 @@ class FileTransferService {
         if (!file) return { success: false, error: 'No file provided' }
         if (file.size < 0) return { success: false, error: 'Invalid file size' }
         if (file.size === 0) return { success: false, error: 'Cannot upload empty file' }
+
+        // The room is the space whose member permissions apply
+        const permission = permissionService.canManageFile(this.roomId ?? this.docId, file.name)
+        if (!permission.allowed) return { success: false, error: permission.reason }
         
         // Check maximum size (200MB)
         const MAX_FILE_SIZE = 200 * 1024 * 1024
@@ -339,6 +344,11 @@ class FileTransferService {
         if (!filesMap) return false
         const file = filesMap.get(fileId)
 
+        if (file && !permissionService.canManageFile(this.roomId ?? this.docId, file.name).allowed) {
+            console.warn('[FileTransfer] Removal blocked by permissions:', file.name)
+            return false
+        }
+
         // Only the owner or an admin can remove a file
         if (file && (file.ownerId === this.localUserId || isAdmin)) {
             // Remove chunks if it's a chunked file
@@ -367,6 +377,25 @@ class FileTransferService {
         const chunksMap = this.getChunksMap()
         if (!filesMap) return false
 
+        const spaceId = this.roomId ?? this.docId
+        if (!permissionService.canManageFile(spaceId, null).allowed) return false
+
+        // Restricted files are left in place
+        const files = [...filesMap.values()]
+        const removable = files.filter(file => permissionService.canManageFile(spaceId, file.name).allowed)
+        if (removable.length < files.length) {
+            filesMap.doc?.transact(() => {
+                for (const file of removable) {
+                    for (let i = 0; i < (file.chunkCount ?? 0); i++) {
+                        chunksMap?.delete(`${file.id}-${i}`)
+                    }
+                    filesMap.delete(file.id)
+                }
+            })
+            console.log('[FileTransfer] Cleared files, kept restricted:', files.length - removable.length)
+            return true
+        }
+
         // Clear all chunks first
         if (chunksMap) {
             chunksMap.clear()
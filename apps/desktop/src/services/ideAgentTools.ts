@@ -11,6 +11,13 @@
 import { logger } from '../utils/logger'
 import { validatePath } from '../utils/path-validator'
 import { aimeService } from './aimeService'
+import { transactionService, type TransactionFile } from './transactionService'
+import { semanticOperationService, type SemanticContext, type SemanticOperationResult } from './semanticOperationService'
+import { symbolService } from './symbolService'
+import { permissionService } from './permissionService'
+import { matchesPathPattern } from '../types/permissions'
+import type { FileSystemItem } from '../types/electron-api'
+import type { AIToolDefinition } from './aiService'
 
 export interface ToolResult {
     success: boolean
@@ -20,6 +27,8 @@ export interface ToolResult {
 
 export interface ToolContext {
     workspacePath: string
+    // When set, file edits are staged in this transaction instead of written to disk
+    transactionId?: string
 }
 
 export interface ToolCallRequest {
@@ -35,6 +44,8 @@ class ToolPermissionManager {
     private readOnlyAutoAllow: boolean = false
     private trustedMode: boolean = false
     private confirmationHandler: ((request: ToolCallRequest) => Promise<{ approved: boolean; alwaysAllow: boolean }>) | null = null
+    // Tool calls of one turn can run concurrently, but prompts are shown one at a time
+    private confirmationQueue: Promise<unknown> = Promise.resolve()
 
     setConfirmationHandler(handler: (request: ToolCallRequest) => Promise<{ approved: boolean; alwaysAllow: boolean }>) {
         this.confirmationHandler = handler
@@ -58,11 +69,14 @@ class ToolPermissionManager {
     }
 
     isReadOnlyTool(toolName: string): boolean {
-        return ['readFile', 'listDirectory', 'gitStatus', 'searchFiles', 'fileStats'].includes(toolName)
+        return ['readFile', 'listDirectory', 'gitStatus', 'searchFiles', 'fileStats', 'findReferences'].includes(toolName)
     }
 
     isDestructiveTool(toolName: string): boolean {
-        return ['delete', 'writeFile', 'runCommand', 'executeCode', 'replaceInFile', 'insertAtLine'].includes(toolName)
+        return [
+            'delete', 'writeFile', 'runCommand', 'executeCode', 'replaceInFile', 'insertAtLine',
+            'renameSymbol', 'extractMethod', 'moveSymbol', 'inlineVariable'
+        ].includes(toolName)
     }
 
     async requestPermission(toolName: string, params: Record<string, unknown>): Promise<boolean> {
@@ -82,6 +96,17 @@ class ToolPermissionManager {
             return true
         }
 
+        const turn = this.confirmationQueue.then(() => this.confirm(toolName, params))
+        this.confirmationQueue = turn
+        return turn
+    }
+
+    private async confirm(toolName: string, params: Record<string, unknown>): Promise<boolean> {
+        // An earlier prompt in the queue may have allowed this tool for the session
+        if (this.alwaysAllowedTools.has(toolName)) {
+            return true
+        }
+
         // Request confirmation
         if (!this.confirmationHandler) {
             // No handler set, deny by default for safety
@@ -155,6 +180,26 @@ export interface Tool {
     execute: (params: Record<string, unknown>, context: ToolContext) => Promise<ToolResult>
 }
 
+// Tools that change files, with the parameters naming the files they change
+export const FILE_MODIFYING_PARAMS: Record<string, string[]> = {
+    writeFile: ['path'],
+    createFile: ['path'],
+    createDirectory: ['path'],
+    delete: ['path'],
+    replaceInFile: ['path'],
+    fuzzyReplace: ['path'],
+    insertAtLine: ['path'],
+    renameSymbol: ['path'],
+    extractMethod: ['path'],
+    moveSymbol: ['path', 'targetPath'],
+    inlineVariable: ['path']
+}
+
+export const FILE_MODIFYING_TOOLS: ReadonlySet<string> = new Set(Object.keys(FILE_MODIFYING_PARAMS))
+
+// Tools that run processes, which can change any file
+const PROCESS_TOOLS = new Set(['executeCode', 'runFile', 'runCommand'])
+
 // Helper to check environment
 const ensureElectron = () => {
     if (!globalThis.window.electronAPI) {
@@ -162,6 +207,82 @@ const ensureElectron = () => {
     }
 }
 
+// File access for the editing tools; goes through the transaction when edits are staged
+async function readAgentFile(path: string, context: ToolContext): Promise<{ success: boolean; content?: string; error?: string }> {
+    if (context.transactionId) {
+        const content = await transactionService.readStaged(context.transactionId, path)
+        return content === null ? { success: false, error: 'File not found' } : { success: true, content }
+    }
+    const result = await globalThis.window.electronAPI?.fs.readFile(path)
+    return result?.success
+        ? { success: true, content: result.content as string }
+        : { success: false, error: result?.error || 'Failed to read file' }
+}
+
+async function writeAgentFile(path: string, content: string, context: ToolContext): Promise<{ success: boolean; error?: string }> {
+    if (context.transactionId) {
+        return transactionService.stageWrite(context.transactionId, path, content)
+    }
+    const result = await globalThis.window.electronAPI?.fs.writeFile({ path, content })
+    return result?.success ? { success: true } : { success: false, error: result?.error || 'Failed to write file' }
+}
+
+const toSlashes = (path: string) => path.replace(/\\/g, '/').replace(/\/+$/, '')
+
+// Path of a file relative to a directory, or null if it is not inside it
+function relativeTo(directory: string, path: string): string | null {
+    const root = toSlashes(directory)
+    const file = toSlashes(path)
+    return file.startsWith(root + '/') ? file.slice(root.length + 1) : null
+}
+
+function stagedFiles(context: ToolContext): TransactionFile[] {
+    return context.transactionId ? transactionService.getStagedFiles(context.transactionId) : []
+}
+
+function stagedFile(path: string, context: ToolContext): TransactionFile | undefined {
+    return stagedFiles(context).find(file => toSlashes(file.path) === toSlashes(path))
+}
+
+/**
+ * Processes and git only see the files on disk, so the run's staged edits are
+ * written there before they run. The edits stay in the run's transaction and
+ * are rolled back if the user rejects them.
+ */
+async function materializeStagedEdits(context: ToolContext): Promise<ToolResult | null> {
+    if (stagedFiles(context).length === 0) return null
+    const result = await transactionService.materialize(context.transactionId!)
+    return result.success ? null : { success: false, error: result.error }
+}
+
+// Directory listing as the run sees it, with staged creations and deletions applied
+function withStagedEntries(directory: string, items: FileSystemItem[], context: ToolContext): FileSystemItem[] {
+    const entries = new Map(items.map(item => [item.name, item]))
+    for (const file of stagedFiles(context)) {
+        const name = relativeTo(directory, file.path)
+        if (!name || name.includes('/')) continue
+        if (file.newContent === null) {
+            entries.delete(name)
+        } else {
+            entries.set(name, {
+                name,
+                path: entries.get(name)?.path ?? file.path,
+                isDirectory: false,
+                isFile: true,
+                size: new TextEncoder().encode(file.newContent).length,
+                lastModified: Date.now()
+            })
+        }
+    }
+    return [...entries.values()]
+}
+
+const formatSize = (size: number) => size > 1024 * 1024
+    ? `${(size / 1024 / 1024).toFixed(2)} MB`
+    : size > 1024
+        ? `${(size / 1024).toFixed(2)} KB`
+        : `${size} bytes`
+
 // Read file tool
 const readFileTool: Tool = {
     name: 'readFile',
@@ -198,13 +319,13 @@ const readFileTool: Tool = {
                 }
             }
 
-            const result = await globalThis.window.electronAPI?.fs.readFile(validatedPath)
-            if (result?.success) {
+            const result = await readAgentFile(validatedPath, context)
+            if (result.success) {
                 // UI SIDE EFFECT: Open the file in the editor so user can see it
                 window.dispatchEvent(new CustomEvent('kalynt-open-file', { detail: { path: validatedPath } }))
                 return { success: true, data: result.content }
             }
-            return { success: false, error: result?.error || 'Failed to read file' }
+            return { success: false, error: result.error }
         } catch (err) {
             return { success: false, error: String(err) }
         }
@@ -245,13 +366,13 @@ const writeFileTool: Tool = {
 
             const validatedPath = validation.normalizedPath!
 
-            const result = await globalThis.window.electronAPI?.fs.writeFile({ path: validatedPath, content: content || '' })
-            if (result?.success) {
+            const result = await writeAgentFile(validatedPath, content || '', context)
+            if (result.success) {
                 // UI SIDE EFFECT: Focus the modified file
                 window.dispatchEvent(new CustomEvent('kalynt-open-file', { detail: { path: validatedPath } }))
                 return { success: true, data: { path: validatedPath, bytesWritten: content?.length || 0 } }
             }
-            return { success: false, error: result?.error || 'Failed to write file' }
+            return { success: false, error: result.error }
         } catch (err) {
             return { success: false, error: String(err) }
         }
@@ -304,8 +425,9 @@ const listDirectoryTool: Tool = {
 
             const result = await globalThis.window.electronAPI?.fs.readDir(validatedPath)
             if (result?.success && result.items) {
-                const total = result.items.length
-                const paginatedItems = result.items.slice(offset, offset + limit)
+                const items = withStagedEntries(validatedPath, result.items, context)
+                const total = items.length
+                const paginatedItems = items.slice(offset, offset + limit)
 
                 // Capacity warning for very large directories
                 if (total > 10000) {
@@ -362,7 +484,9 @@ const createFileTool: Tool = {
 
             const validatedPath = validation.normalizedPath!
 
-            const result = await globalThis.window.electronAPI?.fs.createFile(validatedPath)
+            const result = context.transactionId
+                ? await transactionService.stageCreate(context.transactionId, validatedPath, '')
+                : await globalThis.window.electronAPI?.fs.createFile(validatedPath)
             if (result?.success) {
                 return { success: true, data: { path: validatedPath } }
             }
@@ -438,7 +562,17 @@ const deleteTool: Tool = {
 
             const validatedPath = validation.normalizedPath!
 
-            const result = await globalThis.window.electronAPI?.fs.delete(validatedPath)
+            let result: { success: boolean; error?: string } | undefined
+            if (context.transactionId) {
+                // Directory removal cannot be staged, only file deletions are part of the run's changes
+                const stats = await globalThis.window.electronAPI?.fs.stat(validatedPath)
+                if (stats?.success && stats.isDirectory) {
+                    return { success: false, error: 'Directories cannot be deleted while edits are staged; delete the files instead' }
+                }
+                result = await transactionService.stageDelete(context.transactionId, validatedPath)
+            } else {
+                result = await globalThis.window.electronAPI?.fs.delete(validatedPath)
+            }
             if (result?.success) {
                 return { success: true, data: { deleted: validatedPath } }
             }
@@ -483,6 +617,9 @@ const executeCodeTool: Tool = {
             if (!cwd && context.workspacePath) cwd = context.workspacePath
             if (!code) return { success: false, error: 'Code is required' }
 
+            const failure = await materializeStagedEdits(context)
+            if (failure) return failure
+
             const supportedLanguages = [
                 'javascript', 'typescript', 'python', 'node', 'deno', 'bun',
                 'rust', 'go', 'java', 'dotnet', 'csharp', 'fsharp', 'ruby', 'php',
@@ -549,6 +686,10 @@ const runFileTool: Tool = {
 
             const validatedPath = validation.normalizedPath!
 
+            // The file may import others, so every staged edit is written
+            const failure = await materializeStagedEdits(context)
+            if (failure) return failure
+
             // Read file content
             const readResult = await globalThis.window.electronAPI?.fs.readFile(validatedPath)
             if (!readResult?.success) {
@@ -635,6 +776,9 @@ const runCommandTool: Tool = {
             if (!cwd) return { success: false, error: 'Working directory is required' }
             if (!command) return { success: false, error: 'Command is required' }
 
+            const failure = await materializeStagedEdits(context)
+            if (failure) return failure
+
             const execId = `agent-cmd-${Date.now()}`
             activeExecId = execId
 
@@ -681,6 +825,49 @@ const gitStatusTool: Tool = {
     }
 }
 
+// A match as `fs:search` reports it, with the file relative to the search path
+interface SearchMatch {
+    file: string
+    line: number
+    column: number
+    content: string
+    text: string
+    submatches: { start: number; end: number }[]
+}
+
+// Search results as the run sees the files: staged files are searched in memory the way `fs:search` does by default
+function withStagedMatches(
+    searchPath: string,
+    pattern: string,
+    filePattern: string | undefined,
+    matches: SearchMatch[],
+    context: ToolContext
+): SearchMatch[] {
+    const staged = stagedFiles(context).flatMap(file => {
+        const relative = relativeTo(searchPath, file.path)
+        return relative === null ? [] : [{ relative, content: file.newContent }]
+    })
+    if (staged.length === 0) return matches
+
+    const stagedPaths = new Set(staged.map(file => file.relative))
+    const merged = matches.filter(match => !stagedPaths.has(toSlashes(match.file)))
+    const needle = pattern.toLowerCase()
+    for (const { relative, content } of staged) {
+        if (content === null || (filePattern && !matchesPathPattern(relative, filePattern))) continue
+        content.split('\n').forEach((line, index) => {
+            const text = line.replace(/\r$/, '')
+            const submatches: SearchMatch['submatches'] = []
+            for (let start = text.toLowerCase().indexOf(needle); start !== -1; start = text.toLowerCase().indexOf(needle, start + needle.length)) {
+                submatches.push({ start, end: start + needle.length })
+            }
+            if (submatches.length > 0) {
+                merged.push({ file: relative, line: index + 1, column: submatches[0].start + 1, content: text.trim().substring(0, 200), text, submatches })
+            }
+        })
+    }
+    return merged
+}
+
 // Search files tool (grep-like) - CROSS-PLATFORM using Node.js fs
 const searchFilesTool: Tool = {
     name: 'searchFiles',
@@ -724,12 +911,13 @@ const searchFilesTool: Tool = {
             })
 
             if (result?.success) {
+                const matches = withStagedMatches(searchPath, pattern, filePattern, result.results || [], context)
                 return {
                     success: true,
                     data: {
-                        matches: result.results || [],
+                        matches,
                         truncated: result.truncated || false,
-                        total: result.results?.length || 0
+                        total: matches.length
                     }
                 }
             }
@@ -802,7 +990,7 @@ const getFileTreeTool: Tool = {
                 const items = []
                 const EXCLUDE = new Set(['node_modules', '.git', 'dist', 'build', '.next'])
 
-                for (const item of res.items) {
+                for (const item of withStagedEntries(currentPath, res.items, context)) {
                     if (EXCLUDE.has(item.name)) continue
 
                     const itemData: any = { name: item.name, isDirectory: item.isDirectory }
@@ -852,21 +1040,24 @@ const replaceInFileTool: Tool = {
             required: false
         }
     ],
-    execute: async (params, _context) => {
+    execute: async (params, context) => {
         try {
             ensureElectron()
-            const path = params.path as string
             const find = params.find as string
             const replace = params.replace as string
             const replaceAll = params.replaceAll as boolean || false
 
-            if (!path) return { success: false, error: 'Path is required' }
+            if (!params.path) return { success: false, error: 'Path is required' }
             if (!find) return { success: false, error: 'Find text is required' }
 
+            const validation = validatePath(params.path as string, context.workspacePath)
+            if (!validation.valid) return { success: false, error: validation.error || 'Invalid path' }
+            const path = validation.normalizedPath!
+
             // Read the file first
-            const readResult = await globalThis.window.electronAPI?.fs.readFile(path)
-            if (!readResult?.success) {
-                return { success: false, error: readResult?.error || 'Failed to read file' }
+            const readResult = await readAgentFile(path, context)
+            if (!readResult.success) {
+                return { success: false, error: readResult.error }
             }
 
             const content = readResult.content as string
@@ -884,8 +1075,8 @@ const replaceInFileTool: Tool = {
                 : 1
 
             // Write back
-            const writeResult = await globalThis.window.electronAPI?.fs.writeFile({ path, content: newContent })
-            if (writeResult?.success) {
+            const writeResult = await writeAgentFile(path, newContent, context)
+            if (writeResult.success) {
                 // UI SIDE EFFECT: Focus the modified file
                 window.dispatchEvent(new CustomEvent('kalynt-open-file', { detail: { path } }))
                 return {
@@ -897,7 +1088,7 @@ const replaceInFileTool: Tool = {
                     }
                 }
             }
-            return { success: false, error: writeResult?.error || 'Failed to write file' }
+            return { success: false, error: writeResult.error }
         } catch (err) {
             return { success: false, error: String(err) }
         }
@@ -928,32 +1119,35 @@ const insertAtLineTool: Tool = {
             required: true
         }
     ],
-    execute: async (params, _context) => {
+    execute: async (params, context) => {
         try {
             ensureElectron()
-            const path = params.path as string
             const line = params.line as number
             const insertContent = params.content as string
 
-            if (!path) return { success: false, error: 'Path is required' }
+            if (!params.path) return { success: false, error: 'Path is required' }
             if (!line || line < 1) return { success: false, error: 'Valid line number is required (1-indexed)' }
             if (insertContent === undefined) return { success: false, error: 'Content is required' }
 
+            const validation = validatePath(params.path as string, context.workspacePath)
+            if (!validation.valid) return { success: false, error: validation.error || 'Invalid path' }
+            const path = validation.normalizedPath!
+
             // Read file
-            const readResult = await globalThis.window.electronAPI?.fs.readFile(path)
-            if (!readResult?.success) {
-                return { success: false, error: readResult?.error || 'Failed to read file' }
+            const readResult = await readAgentFile(path, context)
+            if (!readResult.success) {
+                return { success: false, error: readResult.error }
             }
 
-            const lines = (readResult.content as string).split('\n')
+            const lines = readResult.content!.split('\n')
             const insertIndex = Math.min(line - 1, lines.length)
 
             // Insert the new content
             lines.splice(insertIndex, 0, insertContent)
 
             // Write back
-            const writeResult = await globalThis.window.electronAPI?.fs.writeFile({ path, content: lines.join('\n') })
-            if (writeResult?.success) {
+            const writeResult = await writeAgentFile(path, lines.join('\n'), context)
+            if (writeResult.success) {
                 return {
                     success: true,
                     data: {
@@ -963,7 +1157,7 @@ const insertAtLineTool: Tool = {
                     }
                 }
             }
-            return { success: false, error: writeResult?.error || 'Failed to write file' }
+            return { success: false, error: writeResult.error }
         } catch (err) {
             return { success: false, error: String(err) }
         }
@@ -982,24 +1176,39 @@ const fileStatsTool: Tool = {
             required: true
         }
     ],
-    execute: async (params, _context) => {
+    execute: async (params, context) => {
         try {
             ensureElectron()
             const path = params.path as string
             if (!path) return { success: false, error: 'Path is required' }
 
+            const staged = stagedFile(path, context)
+            if (staged?.newContent === null) return { success: false, error: 'File is deleted by this run' }
+
             const result = await globalThis.window.electronAPI?.fs.stat(path)
+            if (staged) {
+                const size = new TextEncoder().encode(staged.newContent).length
+                return {
+                    success: true,
+                    data: {
+                        path,
+                        size,
+                        sizeHuman: formatSize(size),
+                        isDirectory: false,
+                        isFile: true,
+                        // Written when the user approves the run's edits
+                        staged: true,
+                        created: result?.success ? result.birthtime : undefined
+                    }
+                }
+            }
             if (result?.success) {
                 return {
                     success: true,
                     data: {
                         path,
                         size: result.size,
-                        sizeHuman: result.size > 1024 * 1024
-                            ? `${(result.size / 1024 / 1024).toFixed(2)} MB`
-                            : result.size > 1024
-                                ? `${(result.size / 1024).toFixed(2)} KB`
-                                : `${result.size} bytes`,
+                        sizeHuman: formatSize(result.size),
                         isDirectory: result.isDirectory,
                         isFile: result.isFile,
                         modified: result.mtime,
@@ -1121,10 +1330,10 @@ const fuzzyReplaceTool: Tool = {
             if (!validation.valid) return { success: false, error: validation.error || 'Invalid path' }
             const validatedPath = validation.normalizedPath!
 
-            const readResult = await globalThis.window.electronAPI?.fs.readFile(validatedPath)
-            if (!readResult?.success) return { success: false, error: readResult?.error || 'Failed to read file' }
+            const readResult = await readAgentFile(validatedPath, context)
+            if (!readResult.success) return { success: false, error: readResult.error }
 
-            const content = readResult.content as string
+            const content = readResult.content!
             const match = fuzzyFind(content, search)
 
             if (!match) {
@@ -1135,9 +1344,9 @@ const fuzzyReplaceTool: Tool = {
             }
 
             const newContent = content.substring(0, match.start) + replace + content.substring(match.end)
-            const writeResult = await globalThis.window.electronAPI?.fs.writeFile({ path: validatedPath, content: newContent })
+            const writeResult = await writeAgentFile(validatedPath, newContent, context)
 
-            if (writeResult?.success) {
+            if (writeResult.success) {
                 // UI SIDE EFFECT: Focus the modified file
                 window.dispatchEvent(new CustomEvent('kalynt-open-file', { detail: { path: validatedPath } }))
                 return {
@@ -1152,7 +1361,7 @@ const fuzzyReplaceTool: Tool = {
                     }
                 }
             }
-            return { success: false, error: writeResult?.error || 'Failed to write file' }
+            return { success: false, error: writeResult.error }
         } catch (err) {
             return { success: false, error: String(err) }
         }
@@ -1176,6 +1385,9 @@ const gitDiffTool: Tool = {
             const repoPath = context.workspacePath
             if (!repoPath) return { success: false, error: 'Workspace path required' }
 
+            const failure = await materializeStagedEdits(context)
+            if (failure) return failure
+
             const staged = params.staged as boolean || false
             const filePath = params.path as string || ''
             const result = await globalThis.window.electronAPI?.git.diff({ repoPath, staged, file: filePath || undefined })
@@ -1274,6 +1486,13 @@ const getDiagnosticsTool: Tool = {
             const validation = validatePath(path, context.workspacePath)
             if (!validation.valid) return { success: false, error: validation.error || 'Invalid path' }
 
+            if (stagedFile(validation.normalizedPath!, context)?.newContent === null) {
+                return { success: false, error: 'File is deleted by this run' }
+            }
+            // The checkers read the disk, where the run's staged edits are written first
+            const failure = await materializeStagedEdits(context)
+            if (failure) return failure
+
             const ext = path.split('.').pop()?.toLowerCase() || ''
             const cwd = context.workspacePath
 
@@ -1306,6 +1525,212 @@ const getDiagnosticsTool: Tool = {
     }
 }
 
+// ============================================================
+// Refactoring Tools (rename, extract, move, inline)
+// ============================================================
+
+// Refactorings read through the run's transaction so they see earlier staged edits
+function semanticContext(context: ToolContext): SemanticContext {
+    return {
+        workspacePath: context.workspacePath,
+        readFile: async (filePath) => {
+            const result = await readAgentFile(filePath, context)
+            return result.success ? result.content! : null
+        }
+    }
+}
+
+/**
+ * Write every file of a refactoring preview the way the other edit tools
+ * do, so an agent run reviews them together with the rest of its changes.
+ */
+async function applySemanticResult(result: SemanticOperationResult, primaryPath: string, context: ToolContext): Promise<ToolResult> {
+    if (!result.success || !result.preview) return { success: false, error: result.error }
+    const preview = result.preview
+
+    for (const file of preview.files) {
+        const validation = validatePath(file.path, context.workspacePath)
+        if (!validation.valid) return { success: false, error: `${file.path}: ${validation.error || 'Invalid path'}` }
+        // A refactoring can reach files beyond the ones it was called on
+        const permission = permissionService.canAgentModify(file.path, context.workspacePath)
+        if (!permission.allowed) return { success: false, error: `Permission denied: ${permission.reason}` }
+    }
+
+    for (const file of preview.files) {
+        let written: { success: boolean; error?: string } | undefined
+        if (file.newContent !== null) {
+            written = await writeAgentFile(file.path, file.newContent, context)
+        } else if (context.transactionId) {
+            written = await transactionService.stageDelete(context.transactionId, file.path)
+        } else {
+            written = await globalThis.window.electronAPI?.fs.delete(file.path)
+        }
+        if (!written?.success) return { success: false, error: `${file.path}: ${written?.error || 'Failed to write file'}` }
+    }
+
+    window.dispatchEvent(new CustomEvent('kalynt-open-file', { detail: { path: primaryPath } }))
+    return {
+        success: true,
+        data: {
+            path: primaryPath,
+            source: preview.source,
+            files: preview.files.map(f => ({ path: f.path, operation: f.operation })),
+            preview: semanticOperationService.formatPreview(preview)
+        }
+    }
+}
+
+const renameSymbolTool: Tool = {
+    name: 'renameSymbol',
+    description: 'Rename a symbol and update every reference across the workspace. Uses the language server when one is running, otherwise the symbol index. Prefer this over text replacement for renames.',
+    parameters: [
+        { name: 'path', type: 'string', description: 'File that contains the symbol', required: true },
+        { name: 'symbol', type: 'string', description: 'Current name of the symbol', required: true },
+        { name: 'newName', type: 'string', description: 'New name for the symbol', required: true },
+        { name: 'line', type: 'number', description: 'Line (1-indexed) of the declaration or a use, to pick between symbols with the same name', required: false }
+    ],
+    execute: async (params, context) => {
+        try {
+            ensureElectron()
+            const validation = validatePath(params.path as string, context.workspacePath)
+            if (!validation.valid) return { success: false, error: validation.error || 'Invalid path' }
+            const path = validation.normalizedPath!
+
+            const result = await semanticOperationService.renameSymbol({
+                filePath: path,
+                symbolName: params.symbol as string,
+                newName: params.newName as string,
+                line: typeof params.line === 'number' ? params.line : undefined
+            }, semanticContext(context))
+            return applySemanticResult(result, path, context)
+        } catch (err) {
+            return { success: false, error: String(err) }
+        }
+    }
+}
+
+const extractMethodTool: Tool = {
+    name: 'extractMethod',
+    description: 'Extract whole lines of a function or method into a new method (or function outside classes), passing the variables it needs and returning the one used afterwards.',
+    parameters: [
+        { name: 'path', type: 'string', description: 'Path to the file', required: true },
+        { name: 'startLine', type: 'number', description: 'First line to extract (1-indexed)', required: true },
+        { name: 'endLine', type: 'number', description: 'Last line to extract (1-indexed, inclusive)', required: true },
+        { name: 'name', type: 'string', description: 'Name of the new method', required: true }
+    ],
+    execute: async (params, context) => {
+        try {
+            ensureElectron()
+            const validation = validatePath(params.path as string, context.workspacePath)
+            if (!validation.valid) return { success: false, error: validation.error || 'Invalid path' }
+            const path = validation.normalizedPath!
+
+            const result = await semanticOperationService.extractMethod({
+                filePath: path,
+                startLine: Number(params.startLine),
+                endLine: Number(params.endLine),
+                methodName: params.name as string
+            }, semanticContext(context))
+            return applySemanticResult(result, path, context)
+        } catch (err) {
+            return { success: false, error: String(err) }
+        }
+    }
+}
+
+const moveSymbolTool: Tool = {
+    name: 'moveSymbol',
+    description: 'Move a top-level function, class, type or constant to another TypeScript/JavaScript file (created if missing), carrying its imports and updating the files that import it.',
+    parameters: [
+        { name: 'path', type: 'string', description: 'File that declares the symbol', required: true },
+        { name: 'symbol', type: 'string', description: 'Name of the symbol to move', required: true },
+        { name: 'targetPath', type: 'string', description: 'File to move the symbol to', required: true }
+    ],
+    execute: async (params, context) => {
+        try {
+            ensureElectron()
+            const validation = validatePath(params.path as string, context.workspacePath)
+            if (!validation.valid) return { success: false, error: validation.error || 'Invalid path' }
+            const targetValidation = validatePath(params.targetPath as string, context.workspacePath)
+            if (!targetValidation.valid) return { success: false, error: targetValidation.error || 'Invalid target path' }
+            const path = validation.normalizedPath!
+
+            const result = await semanticOperationService.moveSymbol({
+                filePath: path,
+                symbolName: params.symbol as string,
+                targetFilePath: targetValidation.normalizedPath!
+            }, semanticContext(context))
+            return applySemanticResult(result, path, context)
+        } catch (err) {
+            return { success: false, error: String(err) }
+        }
+    }
+}
+
+const inlineVariableTool: Tool = {
+    name: 'inlineVariable',
+    description: 'Replace every use of a local variable with its initializer and remove the declaration. Refuses variables that are reassigned or exported.',
+    parameters: [
+        { name: 'path', type: 'string', description: 'Path to the file', required: true },
+        { name: 'name', type: 'string', description: 'Name of the variable', required: true },
+        { name: 'line', type: 'number', description: 'Line (1-indexed) of the declaration, or of a use below it', required: true }
+    ],
+    execute: async (params, context) => {
+        try {
+            ensureElectron()
+            const validation = validatePath(params.path as string, context.workspacePath)
+            if (!validation.valid) return { success: false, error: validation.error || 'Invalid path' }
+            const path = validation.normalizedPath!
+
+            const result = await semanticOperationService.inlineVariable({
+                filePath: path,
+                variableName: params.name as string,
+                line: Number(params.line)
+            }, semanticContext(context))
+            return applySemanticResult(result, path, context)
+        } catch (err) {
+            return { success: false, error: String(err) }
+        }
+    }
+}
+
+const findReferencesTool: Tool = {
+    name: 'findReferences',
+    description: 'Find where a symbol is called, referenced, imported or extended across the workspace, plus the files a change to it would affect. Reads the tree-sitter symbol graph, so it is exact where text search is not.',
+    parameters: [
+        { name: 'path', type: 'string', description: 'File that declares or uses the symbol', required: true },
+        { name: 'symbol', type: 'string', description: 'Name of the symbol', required: true },
+        { name: 'line', type: 'number', description: 'Line (1-indexed) of the declaration or a use, to pick between symbols with the same name', required: false }
+    ],
+    execute: async (params, context) => {
+        try {
+            const validation = validatePath(params.path as string, context.workspacePath)
+            if (!validation.valid) return { success: false, error: validation.error || 'Invalid path' }
+            const path = validation.normalizedPath!
+
+            const symbol = symbolService.findSymbolAt(path, params.symbol as string, typeof params.line === 'number' ? params.line : undefined)
+            if (!symbol) return { success: false, error: `Symbol '${params.symbol}' not found in the index for ${path}` }
+
+            const impact = symbolService.analyzeImpact(symbol.id)
+            return {
+                success: true,
+                data: {
+                    symbol: { name: symbol.name, type: symbol.type, path: symbol.filePath, line: symbol.location.line },
+                    references: symbolService.findReferences(symbol.id).map(({ symbol: from, relationship }) => ({
+                        kind: relationship.type,
+                        path: relationship.filePath,
+                        line: relationship.location?.line,
+                        from: from.type === 'module' ? undefined : from.name
+                    })),
+                    affectedFiles: impact.files
+                }
+            }
+        } catch (err) {
+            return { success: false, error: String(err) }
+        }
+    }
+}
+
 // All available tools
 export const ideTools: Tool[] = [
     readFileTool,
@@ -1320,6 +1745,7 @@ export const ideTools: Tool[] = [
     gitStatusTool,
     searchFilesTool,
     searchRelevantContextTool,
+    findReferencesTool,
     getFileTreeTool,
     replaceInFileTool,
     fuzzyReplaceTool,
@@ -1329,7 +1755,11 @@ export const ideTools: Tool[] = [
     gitLogTool,
     gitAddTool,
     gitCommitTool,
-    getDiagnosticsTool
+    getDiagnosticsTool,
+    renameSymbolTool,
+    extractMethodTool,
+    moveSymbolTool,
+    inlineVariableTool
 ]
 
 // Get tool by name
@@ -1475,6 +1905,44 @@ function normalizeParams(toolName: string, params: Record<string, unknown>): Rec
             'filePath': 'path',
             'file': 'path',
         },
+        findReferences: {
+            'filePath': 'path',
+            'file': 'path',
+            'name': 'symbol',
+            'symbolName': 'symbol',
+        },
+        renameSymbol: {
+            'filePath': 'path',
+            'file': 'path',
+            'name': 'symbol',
+            'oldName': 'symbol',
+            'symbolName': 'symbol',
+            'to': 'newName',
+        },
+        extractMethod: {
+            'filePath': 'path',
+            'file': 'path',
+            'methodName': 'name',
+            'functionName': 'name',
+            'start': 'startLine',
+            'end': 'endLine',
+        },
+        moveSymbol: {
+            'filePath': 'path',
+            'file': 'path',
+            'name': 'symbol',
+            'symbolName': 'symbol',
+            'target': 'targetPath',
+            'to': 'targetPath',
+            'destination': 'targetPath',
+        },
+        inlineVariable: {
+            'filePath': 'path',
+            'file': 'path',
+            'variable': 'name',
+            'variableName': 'name',
+            'lineNumber': 'line',
+        },
     }
 
     const mappings = paramMappings[toolName]
@@ -1522,6 +1990,18 @@ export async function executeTool(name: string, params: Record<string, unknown>,
         }
     }
 
+    // Restricted paths of the member's role are never changed, whatever the user approves
+    for (const param of FILE_MODIFYING_TOOLS.has(name) ? FILE_MODIFYING_PARAMS[name] : []) {
+        const path = normalizedParams[param]
+        if (typeof path !== 'string' || !path) continue
+        const permission = permissionService.canAgentModify(path, context.workspacePath)
+        if (!permission.allowed) return { success: false, error: `Permission denied: ${permission.reason}` }
+    }
+    if (PROCESS_TOOLS.has(name)) {
+        const permission = permissionService.canAgentRunProcesses()
+        if (!permission.allowed) return { success: false, error: `Permission denied: ${permission.reason}` }
+    }
+
     // Check permission before executing
     const permitted = await toolPermissionManager.requestPermission(name, normalizedParams)
     if (!permitted) {
@@ -1531,27 +2011,32 @@ export async function executeTool(name: string, params: Record<string, unknown>,
     return tool.execute(normalizedParams, context)
 }
 
-// Format tools for AI prompt (OpenAI function calling format)
-export function getToolsForPrompt(): object[] {
+// Tool schemas for the providers' native function calling
+export function getToolDefinitions(): AIToolDefinition[] {
     return ideTools.map(tool => ({
-        type: 'function',
-        function: {
-            name: tool.name,
-            description: tool.description,
-            parameters: {
-                type: 'object',
-                properties: Object.fromEntries(
-                    tool.parameters.map(p => [
-                        p.name,
-                        { type: p.type, description: p.description }
-                    ])
-                ),
-                required: tool.parameters.filter(p => p.required).map(p => p.name)
-            }
+        name: tool.name,
+        description: tool.description,
+        parameters: {
+            type: 'object',
+            properties: Object.fromEntries(
+                tool.parameters.map(p => [
+                    p.name,
+                    // Function calling APIs reject arrays without an item type
+                    p.type === 'array'
+                        ? { type: 'array', items: { type: 'string' }, description: p.description }
+                        : { type: p.type, description: p.description }
+                ])
+            ),
+            required: tool.parameters.filter(p => p.required).map(p => p.name)
         }
     }))
 }
 
+// Format tools for AI prompt (OpenAI function calling format)
+export function getToolsForPrompt(): object[] {
+    return getToolDefinitions().map(tool => ({ type: 'function', function: tool }))
+}
+
 // Format tools description for system prompt
 export function getToolsDescription(): string {
     return ideTools.map(tool => {
@@ -1563,79 +2048,35 @@ export function getToolsDescription(): string {
 }
 
 /**
- * Generate JSON Schema for grammar-based sampling
- * This enforces 100% valid tool call JSON at the token level
- * Used with LlamaJsonSchemaGrammar for Cursor-like reliability
+ * JSON schema of a `{name, params}` tool call, for grammar-constrained
+ * sampling with node-llama-cpp. Its schema grammar makes every listed
+ * property required, so only required parameters are listed per tool;
+ * optional ones are allowed as extra keys with JSON values.
  */
 export function getToolCallJsonSchema(): object {
-    // Build properties for each tool's parameters
-    const toolDefinitions: Record<string, any> = {}
-
-    for (const tool of ideTools) {
-        const properties: Record<string, any> = {}
-        const required: string[] = []
-
-        for (const param of tool.parameters) {
-            // Map our parameter types to JSON Schema types
-            let jsonType: string
-            switch (param.type) {
-                case 'string':
-                    jsonType = 'string'
-                    break
-                case 'number':
-                    jsonType = 'number'
-                    break
-                case 'boolean':
-                    jsonType = 'boolean'
-                    break
-                case 'array':
-                    jsonType = 'array'
-                    break
-                default:
-                    jsonType = 'string'
-            }
-
-            properties[param.name] = {
-                type: jsonType,
-                description: param.description
-            }
-
-            if (param.required) {
-                required.push(param.name)
-            }
-        }
-
-        toolDefinitions[tool.name] = {
-            type: 'object',
-            description: tool.description,
-            properties,
-            required,
-            additionalProperties: false
-        }
+    const valueSchema = (type: Tool['parameters'][number]['type']) =>
+        type === 'array' ? { type: 'array', items: { type: 'string' } } : { type }
+    const optionalValue = {
+        oneOf: [{ type: 'string' }, { type: 'number' }, { type: 'boolean' }, { type: 'array', items: { type: 'string' } }]
     }
 
-    // Main schema: union of all possible tool calls
     return {
-        type: 'object',
-        properties: {
-            thought: {
-                type: 'string',
-                description: 'Brief reasoning about why this tool is needed (optional)'
-            },
-            name: {
-                type: 'string',
-                enum: ideTools.map(t => t.name),
-                description: 'The name of the tool to call'
-            },
-            params: {
+        oneOf: ideTools.map(tool => {
+            const hasOptional = tool.parameters.some(p => !p.required)
+            return {
                 type: 'object',
-                description: 'Parameters for the tool call'
+                properties: {
+                    name: { const: tool.name },
+                    params: {
+                        type: 'object',
+                        properties: Object.fromEntries(
+                            tool.parameters.filter(p => p.required).map(p => [p.name, valueSchema(p.type)])
+                        ),
+                        additionalProperties: hasOptional ? optionalValue : false
+                    }
+                }
             }
-        },
-        required: ['name', 'params'],  // thought is optional
-        additionalProperties: false,
-        // Add tool definitions as definitions for reference
-        definitions: toolDefinitions
+        })
     }
 }
 
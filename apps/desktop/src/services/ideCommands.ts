@@ -5,6 +5,8 @@
 // Central registry for all IDE commands accessible via Command Palette
 
 import type { IDECommand } from '../components/ide/CommandPalette'
+import type { ExtensionCommandDescriptor } from '../types/extensionHost'
+import { extensionService } from './extensions/extensionService'
 
 type CommandHandler = () => void | Promise<void>
 
@@ -13,7 +15,7 @@ interface CommandRegistry {
     register: (command: IDECommand) => void
     unregister: (id: string) => void
     getAll: () => IDECommand[]
-    execute: (id: string) => boolean
+    execute: (id: string, ...args: unknown[]) => boolean
 }
 
 // Create a singleton command registry
@@ -42,14 +44,22 @@ class IDECommandRegistry implements CommandRegistry {
         return Array.from(this.commands.values())
     }
 
-    execute(id: string): boolean {
+    execute(id: string, ...args: unknown[]): boolean {
         const command = this.commands.get(id)
         if (command) {
-            command.action()
+            command.action(...args)
             return true
         }
         return false
     }
+
+    // Replace every extension-contributed command with the given set
+    setExtensionCommands(commands: IDECommand[]) {
+        for (const [id, command] of Array.from(this.commands.entries())) {
+            if (command.category === 'extension') this.commands.delete(id)
+        }
+        commands.forEach(command => this.register(command))
+    }
 }
 
 export const commandRegistry = new IDECommandRegistry()
@@ -67,6 +77,7 @@ export function createDefaultCommands(handlers: {
     toggleAIPanel?: CommandHandler
     runCode?: CommandHandler
     debugCode?: CommandHandler
+    showBreakpoints?: CommandHandler
     buildCode?: CommandHandler
     formatDocument?: CommandHandler
     goToLine?: CommandHandler
@@ -74,10 +85,17 @@ export function createDefaultCommands(handlers: {
     gitCommit?: CommandHandler
     gitPush?: CommandHandler
     gitPull?: CommandHandler
+    gitToggleBlame?: CommandHandler
+    gitFileHistory?: CommandHandler
     aiChat?: CommandHandler
     aiExplain?: CommandHandler
     aiRefactor?: CommandHandler
     openSettings?: CommandHandler
+    refactorRename?: CommandHandler
+    refactorExtractMethod?: CommandHandler
+    refactorMoveSymbol?: CommandHandler
+    refactorInlineVariable?: CommandHandler
+    showCallHierarchy?: CommandHandler
 }): IDECommand[] {
     const configs: Array<{
         key: keyof typeof handlers
@@ -99,13 +117,21 @@ export function createDefaultCommands(handlers: {
             { key: 'toggleAIPanel', id: 'view.ai', title: 'Toggle AI Assistant', shortcut: 'Ctrl+Shift+A', category: 'view', icon: 'Bot' },
             { key: 'runCode', id: 'terminal.run', title: 'Run Current File', shortcut: 'F5', category: 'terminal', icon: 'Play' },
             { key: 'debugCode', id: 'terminal.debug', title: 'Debug Current File', shortcut: 'F9', category: 'terminal', icon: 'Bug' },
+            { key: 'showBreakpoints', id: 'debug.breakpoints', title: 'Debug: Show Breakpoints', category: 'terminal', icon: 'Bug' },
             { key: 'buildCode', id: 'terminal.build', title: 'Build Project', shortcut: 'Ctrl+Shift+B', category: 'terminal', icon: 'Hammer' },
             { key: 'formatDocument', id: 'edit.format', title: 'Format Document', shortcut: 'Shift+Alt+F', category: 'edit', icon: 'Sparkles' },
             { key: 'goToLine', id: 'edit.goToLine', title: 'Go to Line', shortcut: 'Ctrl+G', category: 'edit', icon: 'MoveVertical' },
             { key: 'findInFiles', id: 'edit.findInFiles', title: 'Find in Files', shortcut: 'Ctrl+Shift+F', category: 'edit', icon: 'Search' },
+            { key: 'refactorRename', id: 'refactor.rename', title: 'Refactor: Rename Symbol', category: 'edit', icon: 'Pencil' },
+            { key: 'refactorExtractMethod', id: 'refactor.extractMethod', title: 'Refactor: Extract Method', category: 'edit', icon: 'Scissors' },
+            { key: 'refactorMoveSymbol', id: 'refactor.moveSymbol', title: 'Refactor: Move Symbol to File', category: 'edit', icon: 'FileSymlink' },
+            { key: 'refactorInlineVariable', id: 'refactor.inlineVariable', title: 'Refactor: Inline Variable', category: 'edit', icon: 'Minimize2' },
+            { key: 'showCallHierarchy', id: 'view.callHierarchy', title: 'Show Call Hierarchy', category: 'view', icon: 'Network' },
             { key: 'gitCommit', id: 'git.commit', title: 'Git: Commit', category: 'git', icon: 'CheckCircle2' },
             { key: 'gitPush', id: 'git.push', title: 'Git: Push', category: 'git', icon: 'ArrowUp' },
             { key: 'gitPull', id: 'git.pull', title: 'Git: Pull', category: 'git', icon: 'ArrowDown' },
+            { key: 'gitToggleBlame', id: 'git.toggleBlame', title: 'Git: Toggle Inline Blame', category: 'git', icon: 'GitCommitHorizontal' },
+            { key: 'gitFileHistory', id: 'git.fileHistory', title: 'Git: Show File History', category: 'git', icon: 'History' },
             { key: 'aiChat', id: 'ai.chat', title: 'AI: Open Chat', shortcut: 'Ctrl+L', category: 'ai', icon: 'MessageSquare' },
             { key: 'aiExplain', id: 'ai.explain', title: 'AI: Explain Selection', category: 'ai', icon: 'Lightbulb' },
             { key: 'aiRefactor', id: 'ai.refactor', title: 'AI: Refactor Selection', shortcut: 'Ctrl+K', category: 'ai', icon: 'Wrench' }
@@ -123,4 +149,99 @@ export function createDefaultCommands(handlers: {
         }))
 }
 
+const KEY_ALIASES: Record<string, string> = {
+    up: 'arrowup', down: 'arrowdown', left: 'arrowleft', right: 'arrowright',
+    esc: 'escape', space: ' ', pageup: 'pageup', pagedown: 'pagedown'
+}
+
+// vscode keybinding notation ("ctrl+shift+k", "cmd+k cmd+c") -> palette notation ("Ctrl+Shift+K")
+export function formatKeybinding(keybinding: string): string {
+    return keybinding
+        .split(' ')
+        .map(chord => chord
+            .split('+')
+            .map(part => part.length === 1 ? part.toUpperCase() : part.charAt(0).toUpperCase() + part.slice(1))
+            .join('+'))
+        .join(' ')
+}
+
+// Only single-chord keybindings can be matched against one keyboard event
+export function matchesKeybinding(keybinding: string, event: KeyboardEvent): boolean {
+    if (keybinding.trim().includes(' ')) return false
+
+    const parts = keybinding.toLowerCase().split('+')
+    const key = parts.pop()
+    if (!key) return false
+
+    const wantsMeta = parts.includes('cmd') || parts.includes('meta') || parts.includes('win')
+    if (parts.includes('ctrl') !== event.ctrlKey) return false
+    if (parts.includes('shift') !== event.shiftKey) return false
+    if (parts.includes('alt') !== event.altKey) return false
+    if (wantsMeta !== event.metaKey) return false
+
+    // Use the physical key for letters/digits so Shift does not change what is matched
+    const code = /^Key([A-Z])$/.exec(event.code)?.[1] ?? /^Digit(\d)$/.exec(event.code)?.[1]
+    const pressed = (code ?? event.key).toLowerCase()
+    return pressed === (KEY_ALIASES[key] ?? key)
+}
+
+// Context keys the workspace tracks for keybinding `when` clauses
+export interface KeybindingContext {
+    editorTextFocus: boolean
+    editorLangId?: string
+}
+
+/**
+ * Evaluate a `when` clause with `!`, `&&`, `||`, `==` and `!=`. Keys the IDE
+ * does not track count as unset, so such bindings stay off instead of firing
+ * everywhere.
+ */
+export function matchesWhenClause(when: string | undefined, context: KeybindingContext): boolean {
+    if (!when?.trim()) return true
+
+    const values: Record<string, string | boolean | undefined> = {
+        editorTextFocus: context.editorTextFocus,
+        editorFocus: context.editorTextFocus,
+        textInputFocus: context.editorTextFocus,
+        editorLangId: context.editorLangId
+    }
+    const evaluate = (term: string): boolean => {
+        const expression = term.trim()
+        const comparison = /^([\w.]+)\s*(==|!=)\s*'?([^']*?)'?$/.exec(expression)
+        if (comparison) {
+            const equal = String(values[comparison[1]] ?? '') === comparison[3]
+            return comparison[2] === '==' ? equal : !equal
+        }
+        if (expression.startsWith('!')) return !evaluate(expression.slice(1))
+        return !!values[expression]
+    }
+    return when.split('||').some(alternative => alternative.split('&&').every(evaluate))
+}
+
+// Palette entries for commands contributed by extensions; execution is routed to the extension host
+export function createExtensionCommands(
+    descriptors: ExtensionCommandDescriptor[],
+    onError?: (descriptor: ExtensionCommandDescriptor, error: Error) => void
+): IDECommand[] {
+    return descriptors.map(descriptor => ({
+        id: descriptor.command,
+        title: descriptor.category ? `${descriptor.category}: ${descriptor.title}` : descriptor.title,
+        shortcut: descriptor.keybinding ? formatKeybinding(descriptor.keybinding) : undefined,
+        when: descriptor.when,
+        category: 'extension' as const,
+        action: async (...args: unknown[]) => {
+            try {
+                await extensionService.executeCommand(descriptor.command, ...args)
+            } catch (error) {
+                const err = error instanceof Error ? error : new Error(String(error))
+                if (onError) {
+                    onError(descriptor, err)
+                } else {
+                    console.error(`[CommandRegistry] Extension command ${descriptor.command} failed:`, err)
+                }
+            }
+        }
+    }))
+}
+
 export type { CommandHandler }
@@ -262,7 +262,7 @@ class IntentClassificationService {
             keywords: ['refactor', 'restructure', 'reorganize', 'cleanup', 'extract', 'rename', 'move'],
             weight: 1.0,
             complexity: 'complex',
-            preferredTools: ['readFile', 'replaceInFile', 'fuzzyReplace', 'searchFiles', 'writeFile'],
+            preferredTools: ['readFile', 'renameSymbol', 'extractMethod', 'moveSymbol', 'inlineVariable', 'replaceInFile', 'fuzzyReplace', 'searchFiles'],
             requiresConfirmation: true
         })
 
@@ -321,7 +321,7 @@ class IntentClassificationService {
             keywords: ['what', 'how', 'why', 'when', 'where', 'explain', 'clarify'],
             weight: 0.8,
             complexity: 'simple',
-            preferredTools: ['searchRelevantContext', 'readFile', 'searchFiles'],
+            preferredTools: ['searchRelevantContext', 'findReferences', 'readFile', 'searchFiles'],
             requiresConfirmation: false
         })
 
@@ -489,7 +489,7 @@ class IntentClassificationService {
             code_modification: ['readFile', 'replaceInFile', 'writeFile'],
             code_review: ['readFile', 'searchFiles'],
             debugging: ['readFile', 'executeCode', 'searchFiles'],
-            refactoring: ['readFile', 'replaceInFile', 'searchFiles'],
+            refactoring: ['readFile', 'renameSymbol', 'replaceInFile', 'searchFiles'],
             testing: ['executeCode', 'runCommand'],
             documentation: ['readFile', 'writeFile'],
             exploration: ['listDirectory', 'readFile'],
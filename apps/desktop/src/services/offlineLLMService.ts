@@ -17,7 +17,11 @@ export interface InferenceOptions {
     temperature?: number
     topP?: number
     stopSequences?: string[]
+    // Constrain the output to this JSON schema, or to a GBNF grammar
     jsonSchema?: object
+    grammar?: string
+    // Leave the output free until it contains this text; the grammar applies to what follows
+    grammarTrigger?: string
     onToken?: (token: string) => void
     timeoutMs?: number
 }
@@ -360,7 +364,9 @@ class OfflineLLMService {
                         temperature: opts.temperature!,
                         topP: opts.topP!,
                         stopSequences,
-                        jsonSchema: opts.jsonSchema
+                        jsonSchema: opts.jsonSchema,
+                        grammar: opts.grammar,
+                        grammarTrigger: opts.grammarTrigger
                     },
                     (token) => {
                         fullText += token
@@ -14,6 +14,7 @@ import { dependencyAnalysisService, type ToolCall } from './dependencyAnalysisSe
 
 export interface ParallelExecutionConfig {
     maxConcurrency: number
+    /** 0 disables the timeout, for executors that enforce their own */
     timeoutMs: number
     retryAttempts: number
     retryDelayMs: number
@@ -41,9 +42,17 @@ export interface ExecutionContext {
     runId: string
     iteration: number
     abortSignal?: AbortSignal
+    /** Executor for this run, in place of the one set with setExecutor */
+    executor?: ToolExecutor
 }
 
-type ToolExecutor = (call: ToolCall) => Promise<unknown>
+/** Plan level a call runs in; calls of one batch run concurrently */
+export interface ExecutionBatch {
+    index: number
+    size: number
+}
+
+export type ToolExecutor = (call: ToolCall, batch: ExecutionBatch) => Promise<unknown>
 
 class ParallelExecutionService {
     private config: ParallelExecutionConfig = {
@@ -78,7 +87,7 @@ class ParallelExecutionService {
         toolCalls: ToolCall[],
         context: ExecutionContext
     ): Promise<ParallelExecutionResult> {
-        if (!this.executor) {
+        if (!this.executor && !context.executor) {
             throw new Error('Tool executor not set. Call setExecutor() first.')
         }
 
@@ -116,6 +125,9 @@ class ParallelExecutionService {
         // Execute each level of the plan
         for (let levelIndex = 0; levelIndex < executionPlan.sequential.length; levelIndex++) {
             const level = executionPlan.sequential[levelIndex]
+
+            // Calls of later levels are left out of the results once aborted
+            if (context.abortSignal?.aborted) break
             
             logger.agent.debug('Executing parallel level', {
                 level: levelIndex + 1,
@@ -123,7 +135,7 @@ class ParallelExecutionService {
             })
 
             // Execute tools in this level concurrently
-            const levelResults = await this.executeLevel(level, context)
+            const levelResults = await this.executeLevel(level, context, levelIndex)
             
             results.push(...levelResults)
 
@@ -166,7 +178,8 @@ class ParallelExecutionService {
      */
     private async executeLevel(
         toolCalls: ToolCall[],
-        context: ExecutionContext
+        context: ExecutionContext,
+        levelIndex: number
     ): Promise<ToolExecutionResult[]> {
         const results: ToolExecutionResult[] = []
         
@@ -175,12 +188,11 @@ class ParallelExecutionService {
             const chunk = toolCalls.slice(i, i + this.config.maxConcurrency)
             
             // Check for abort signal
-            if (context.abortSignal?.aborted) {
-                throw new Error('Execution aborted')
-            }
+            if (context.abortSignal?.aborted) break
 
             // Execute chunk concurrently
-            const chunkPromises = chunk.map(call => this.executeWithRetry(call, context))
+            const batch = { index: levelIndex, size: toolCalls.length }
+            const chunkPromises = chunk.map(call => this.executeWithRetry(call, context, batch))
             const chunkResults = await Promise.all(chunkPromises)
             
             results.push(...chunkResults)
@@ -194,8 +206,10 @@ class ParallelExecutionService {
      */
     private async executeWithRetry(
         toolCall: ToolCall,
-        context: ExecutionContext
+        context: ExecutionContext,
+        batch: ExecutionBatch
     ): Promise<ToolExecutionResult> {
+        const executor = (context.executor ?? this.executor)!
         let lastError: Error | undefined
         let retries = 0
 
@@ -209,10 +223,7 @@ class ParallelExecutionService {
                 }
 
                 // Execute with timeout
-                const result = await Promise.race([
-                    this.executor!(toolCall),
-                    this.createTimeoutPromise()
-                ])
+                const result = await this.withTimeout(executor(toolCall, batch))
 
                 const duration = Date.now() - startTime
 
@@ -258,7 +269,7 @@ class ParallelExecutionService {
         toolCalls: ToolCall[],
         context: ExecutionContext
     ): Promise<ParallelExecutionResult> {
-        if (!this.executor) {
+        if (!this.executor && !context.executor) {
             throw new Error('Tool executor not set')
         }
 
@@ -267,8 +278,8 @@ class ParallelExecutionService {
         const completed: string[] = []
         const failed: string[] = []
 
-        for (const call of toolCalls) {
-            const result = await this.executeWithRetry(call, context)
+        for (const [index, call] of toolCalls.entries()) {
+            const result = await this.executeWithRetry(call, context, { index, size: 1 })
             results.push(result)
 
             if (result.success) {
@@ -309,12 +320,20 @@ class ParallelExecutionService {
 
     // --- Private helpers ---
 
-    private createTimeoutPromise(): Promise<never> {
-        return new Promise((_, reject) => {
-            setTimeout(() => {
+    private async withTimeout<T>(promise: Promise<T>): Promise<T> {
+        if (this.config.timeoutMs <= 0) return promise
+
+        let timeoutId: ReturnType<typeof setTimeout> | undefined
+        const timeout = new Promise<never>((_, reject) => {
+            timeoutId = setTimeout(() => {
                 reject(new Error(`Execution timeout after ${this.config.timeoutMs}ms`))
             }, this.config.timeoutMs)
         })
+        try {
+            return await Promise.race([promise, timeout])
+        } finally {
+            clearTimeout(timeoutId)
+        }
     }
 
     private delay(ms: number): Promise<void> {
@@ -0,0 +1,306 @@
+/*
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+// Permission Service - Evaluates member permissions for the editor, file transfer and agent
+import * as Y from 'yjs'
+import { useAppStore } from '../stores/appStore'
+import { useMemberStore } from '../stores/memberStore'
+import { memberSyncService } from './memberSyncService'
+import { p2pService } from './p2pService'
+import { securityLog } from './auditLogService'
+import { logger } from '../utils/logger'
+import { DEFAULT_PERMISSIONS, MemberPermissions, isPathRestricted, normalizePermissionPath } from '../types/permissions'
+
+export interface PermissionDecision {
+    allowed: boolean
+    reason?: string
+}
+
+// Shared maps of the file transfer service
+const SHARED_FILES = 'shared-files'
+const FILE_COLLECTIONS = new Set([SHARED_FILES, 'file-chunks'])
+
+interface DocumentGuard {
+    spaceId: string
+    undoManager: Y.UndoManager
+}
+
+// A shared type a transaction changed, by the name of its root in the doc
+interface TouchedRoot {
+    name: string
+    type: Y.AbstractType<any>
+    keys: Set<string | null>
+}
+
+const ALLOWED: PermissionDecision = { allowed: true }
+
+// Reported as the author of rejected updates from peers that never announced a user id
+const UNATTRIBUTED = 'unattributed'
+
+class PermissionService {
+    private readonly guards = new WeakMap<Y.Doc, DocumentGuard>()
+
+    /**
+     * Permissions of a member in a space. Without a user id, the local user's.
+     */
+    getPermissions(spaceId: string, userId?: string): MemberPermissions {
+        const store = useMemberStore.getState()
+        if (!userId || userId === store.userId) return store.getMyPermissions(spaceId)
+        return memberSyncService.getMemberPermissions(spaceId, userId)
+    }
+
+    /**
+     * Yjs documents are the text types of a space doc, matched by name
+     */
+    canEditDocument(spaceId: string, name: string, userId?: string): PermissionDecision {
+        return this.documentDecision(name, this.getPermissions(spaceId, userId))
+    }
+
+    /**
+     * Check a local edit to a text type of a guarded doc. Docs that are not
+     * shared in a space are always editable.
+     */
+    canEditSharedText(doc: Y.Doc, name: string): boolean {
+        const guard = this.guards.get(doc)
+        return !guard || this.canEditDocument(guard.spaceId, name).allowed
+    }
+
+    canManageFile(spaceId: string, fileName: string | null, userId?: string): PermissionDecision {
+        return this.fileDecision(fileName, this.getPermissions(spaceId, userId))
+    }
+
+    /**
+     * Agent access to workspace files follows the permissions of the space
+     * that is open; without one the workspace is the user's own.
+     */
+    canAgentModify(path: string, workspacePath: string): PermissionDecision {
+        const spaceId = useAppStore.getState().currentSpace?.id
+        if (!spaceId) return ALLOWED
+
+        const permissions = this.getPermissions(spaceId)
+        if (!permissions.canUseAgent) return { allowed: false, reason: 'You do not have permission to use the agent in this space' }
+        const relativePath = this.toWorkspacePath(path, workspacePath)
+        if (isPathRestricted(relativePath, permissions)) return { allowed: false, reason: `"${relativePath}" is restricted in this space` }
+        return ALLOWED
+    }
+
+    /**
+     * Commands and code the agent runs can write any file, so a member with
+     * restricted paths cannot have the agent run them.
+     */
+    canAgentRunProcesses(): PermissionDecision {
+        const spaceId = useAppStore.getState().currentSpace?.id
+        if (!spaceId) return ALLOWED
+
+        const permissions = this.getPermissions(spaceId)
+        if (!permissions.canUseAgent) return { allowed: false, reason: 'You do not have permission to use the agent in this space' }
+        if (permissions.restrictedPaths.length > 0) {
+            return { allowed: false, reason: 'Your role has restricted paths in this space, so the agent cannot run commands or code' }
+        }
+        return ALLOWED
+    }
+
+    /**
+     * Reject edits to a shared doc that its authors are not allowed to make.
+     * Remote transactions are attributed to the peers that authored their new
+     * content through awareness, and peers without a user id there are held to
+     * a viewer's permissions. A deletion alone carries no author, so it is
+     * rejected only when no connected peer could have made it. Rejected
+     * transactions are reverted right away, which peers receive as a normal
+     * update. Only one peer reverts a remote transaction, since reverting a
+     * deletion inserts the content again and each revert would add a copy.
+     */
+    guardDocument(spaceId: string, doc: Y.Doc, roomId: string = spaceId): void {
+        if (this.guards.has(doc)) return
+
+        const undoManager: Y.UndoManager = new Y.UndoManager(doc, {
+            captureTimeout: 0,
+            trackedOrigins: new Set(),
+            captureTransaction: transaction => {
+                if (transaction.origin === undoManager) return false
+                const remote = !transaction.local
+                // Updates from IndexedDB or applied snapshots are not edits by anyone present
+                if (remote && transaction.origin !== p2pService.getProvider(roomId)?.room) return false
+
+                const authors = remote ? this.remoteAuthors(transaction, roomId) : [useMemberStore.getState().userId]
+                const violation = this.findViolation(spaceId, transaction, authors, remote)
+                if (!violation) return false
+
+                if (remote) {
+                    logger.p2p.warn('Rejected update from peer', { spaceId, ...violation })
+                    securityLog.updateRejected(spaceId, violation.userId, violation.reason)
+                    if (!this.isReverter(spaceId, transaction, roomId)) return false
+                } else {
+                    logger.crdt.warn('Blocked local edit', { spaceId, reason: violation.reason })
+                }
+                undoManager.addTrackedOrigin(transaction.origin)
+                return true
+            }
+        })
+        undoManager.on('stack-item-added', () => {
+            undoManager.undo()
+            undoManager.clear()
+        })
+
+        this.guards.set(doc, { spaceId, undoManager })
+    }
+
+    releaseDocument(doc: Y.Doc): void {
+        this.guards.get(doc)?.undoManager.destroy()
+        this.guards.delete(doc)
+    }
+
+    // --- Private helpers ---
+
+    private documentDecision(name: string, permissions: MemberPermissions): PermissionDecision {
+        if (!permissions.canEdit) return { allowed: false, reason: 'You do not have edit permission in this space' }
+        if (isPathRestricted(name, permissions)) return { allowed: false, reason: `"${name}" is restricted` }
+        return ALLOWED
+    }
+
+    private fileDecision(fileName: string | null, permissions: MemberPermissions): PermissionDecision {
+        if (!permissions.canManageFiles) return { allowed: false, reason: 'You do not have permission to manage files in this space' }
+        if (fileName && isPathRestricted(fileName, permissions)) return { allowed: false, reason: `"${fileName}" is restricted` }
+        return ALLOWED
+    }
+
+    private toWorkspacePath(path: string, workspacePath: string): string {
+        const normalized = normalizePermissionPath(path)
+        const root = normalizePermissionPath(workspacePath)
+        if (root && normalized.toLowerCase().startsWith(root.toLowerCase() + '/')) {
+            return normalized.slice(root.length + 1)
+        }
+        return normalized
+    }
+
+    private remoteAuthors(transaction: Y.Transaction, roomId: string): (string | undefined)[] {
+        const states = p2pService.getProvider(roomId)?.awareness.getStates()
+        const userOf = (clientId: number) => (states?.get(clientId)?.user as { id?: string } | undefined)?.id
+
+        const authors: (string | undefined)[] = []
+        transaction.afterState.forEach((clock, clientId) => {
+            if (clock > (transaction.beforeState.get(clientId) ?? 0)) authors.push(userOf(clientId))
+        })
+        if (authors.length > 0) return authors
+
+        // Only deletions: any connected peer may have made them
+        const localClientId = transaction.doc.clientID
+        const peers: (string | undefined)[] = []
+        states?.forEach((_, clientId) => {
+            if (clientId !== localClientId) peers.push(userOf(clientId))
+        })
+        return peers
+    }
+
+    private findViolation(
+        spaceId: string,
+        transaction: Y.Transaction,
+        authors: (string | undefined)[],
+        remote: boolean
+    ): { userId: string; reason: string } | null {
+        const roots = this.touchedRoots(transaction)
+        if (roots.length === 0) return null
+
+        // Peers that never announced a user id get the least privilege, a viewer's
+        const decide = (userId: string | undefined) =>
+            this.checkRoots(roots, userId || !remote ? this.getPermissions(spaceId, userId) : DEFAULT_PERMISSIONS.viewer)
+        const violation = (userId: string | undefined, decision: PermissionDecision) =>
+            ({ userId: userId ?? UNATTRIBUTED, reason: decision.reason ?? 'Not permitted' })
+
+        const onlyDeletions = remote && !this.hasInsertions(transaction)
+        if (onlyDeletions) {
+            if (authors.length === 0 || authors.some(userId => decide(userId).allowed)) return null
+            return violation(authors[0], decide(authors[0]))
+        }
+
+        for (const userId of authors) {
+            const decision = decide(userId)
+            if (!decision.allowed) return violation(userId, decision)
+        }
+        return null
+    }
+
+    /**
+     * Whether this client reverts a rejected remote transaction: the connected
+     * client with the lowest id among those allowed to make the change, so the
+     * revert itself passes every peer's guard.
+     */
+    private isReverter(spaceId: string, transaction: Y.Transaction, roomId: string): boolean {
+        const roots = this.touchedRoots(transaction)
+        const localClientId = transaction.doc.clientID
+        const mayEdit = (userId?: string) => this.checkRoots(roots, this.getPermissions(spaceId, userId)).allowed
+
+        let reverter = mayEdit() ? localClientId : null
+        p2pService.getProvider(roomId)?.awareness.getStates().forEach((state, clientId) => {
+            const userId = (state.user as { id?: string } | undefined)?.id
+            if (clientId === localClientId || !userId) return
+            if ((reverter === null || clientId < reverter) && mayEdit(userId)) reverter = clientId
+        })
+        return reverter === localClientId
+    }
+
+    private checkRoots(roots: TouchedRoot[], permissions: MemberPermissions): PermissionDecision {
+        for (const root of roots) {
+            const decision = this.checkRoot(root, permissions)
+            if (!decision.allowed) return decision
+        }
+        return ALLOWED
+    }
+
+    private checkRoot(root: TouchedRoot, permissions: MemberPermissions): PermissionDecision {
+        if (this.isText(root.type)) return this.documentDecision(root.name, permissions)
+        if (!FILE_COLLECTIONS.has(root.name)) return ALLOWED
+
+        if (root.name === SHARED_FILES && root.type instanceof Y.Map) {
+            for (const key of root.keys) {
+                // A removed file is gone by now, so only uploads are checked by name
+                const file = key ? (root.type.get(key) as { name?: string } | undefined) : undefined
+                const decision = this.fileDecision(file?.name ?? null, permissions)
+                if (!decision.allowed) return decision
+            }
+            return ALLOWED
+        }
+        return this.fileDecision(null, permissions)
+    }
+
+    private isText(type: Y.AbstractType<any>): boolean {
+        if (type instanceof Y.Text) return true
+        // Roots that a peer created before this client used them have no type yet
+        if (type.constructor !== Y.AbstractType) return false
+        for (let item = type._start; item; item = item.right) {
+            if (item.content instanceof Y.ContentString) return true
+        }
+        return false
+    }
+
+    private hasInsertions(transaction: Y.Transaction): boolean {
+        for (const [clientId, clock] of transaction.afterState) {
+            if (clock > (transaction.beforeState.get(clientId) ?? 0)) return true
+        }
+        return false
+    }
+
+    private touchedRoots(transaction: Y.Transaction): TouchedRoot[] {
+        const names = new Map<Y.AbstractType<any>, string>()
+        transaction.doc.share.forEach((type, name) => names.set(type, name))
+
+        const roots = new Map<Y.AbstractType<any>, TouchedRoot>()
+        transaction.changed.forEach((keys, changed) => {
+            let type = changed as Y.AbstractType<any>
+            let topKeys = keys
+            while (type._item) {
+                topKeys = new Set([type._item.parentSub])
+                type = type._item.parent as Y.AbstractType<any>
+            }
+            const name = names.get(type)
+            if (name === undefined) return
+
+            const root = roots.get(type) ?? { name, type, keys: new Set<string | null>() }
+            topKeys.forEach(key => root.keys.add(key))
+            roots.set(type, root)
+        })
+        return [...roots.values()]
+    }
+}
+
+export const permissionService = new PermissionService()
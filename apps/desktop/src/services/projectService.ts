@@ -5,6 +5,9 @@
 import { collabEngine } from './collabEngine'
 import { storageService } from './storageService'
 import { encryptionService } from './encryptionService'
+import { taskService, Task, TaskActor, TaskInput, TaskUpdate } from './taskService'
+
+export type { Task, Subtask, TaskComment } from './taskService'
 
 export interface Project {
     id: string
@@ -37,37 +40,6 @@ export interface ProjectMember {
     lastSeenAt: number
 }
 
-export interface Task {
-    id: string
-    projectId: string
-    title: string
-    description: string
-    status: 'todo' | 'in-progress' | 'review' | 'done'
-    priority: 'low' | 'medium' | 'high' | 'urgent'
-    assigneeId?: string
-    dueDate?: number
-    tags: string[]
-    createdAt: number
-    updatedAt: number
-    createdBy: string
-    subtasks: Subtask[]
-    comments: Comment[]
-}
-
-export interface Subtask {
-    id: string
-    title: string
-    completed: boolean
-}
-
-export interface Comment {
-    id: string
-    userId: string
-    userName: string
-    content: string
-    timestamp: number
-}
-
 export interface Activity {
     id: string
     projectId: string
@@ -248,50 +220,27 @@ class ProjectService {
 
     // Get tasks from Yjs
     getTasks(projectId: string): Task[] {
-        const doc = collabEngine.getDocument(projectId)
-        const tasksArray = doc.getArray<Task>('tasks')
-        return tasksArray.toArray()
+        return taskService.getTasks(collabEngine.getDocument(projectId))
     }
 
     // Create task
-    createTask(projectId: string, task: Omit<Task, 'id' | 'createdAt' | 'updatedAt' | 'createdBy' | 'comments'>): Task {
+    createTask(projectId: string, task: TaskInput): Task {
         const doc = collabEngine.getDocument(projectId)
-        const tasksArray = doc.getArray<Task>('tasks')
-
-        const newTask: Task = {
-            ...task,
-            id: crypto.randomUUID(),
-            createdAt: Date.now(),
-            updatedAt: Date.now(),
-            createdBy: this.currentUserId,
-            comments: []
-        }
-
-        tasksArray.push([newTask])
-        this.onTasksUpdate?.(tasksArray.toArray())
+        const newTask = taskService.createTask(doc, task, this.getActor())
 
+        this.onTasksUpdate?.(taskService.getTasks(doc))
         this.logActivity(projectId, 'create', 'task', newTask.id, `Created task "${task.title}"`)
 
         return newTask
     }
 
     // Update task
-    updateTask(projectId: string, taskId: string, updates: Partial<Task>): boolean {
+    updateTask(projectId: string, taskId: string, updates: TaskUpdate): boolean {
         const doc = collabEngine.getDocument(projectId)
-        const tasksArray = doc.getArray<Task>('tasks')
-
-        const index = tasksArray.toArray().findIndex(t => t.id === taskId)
-        if (index === -1) return false
-
-        const task = tasksArray.get(index)
-        const updated = { ...task, ...updates, updatedAt: Date.now() }
-
-        doc.transact(() => {
-            tasksArray.delete(index)
-            tasksArray.insert(index, [updated])
-        })
+        const updated = taskService.updateTask(doc, taskId, updates)
+        if (!updated) return false
 
-        this.onTasksUpdate?.(tasksArray.toArray())
+        this.onTasksUpdate?.(taskService.getTasks(doc))
         this.logActivity(projectId, 'update', 'task', taskId, `Updated task "${updated.title}"`)
 
         return true
@@ -300,15 +249,10 @@ class ProjectService {
     // Delete task
     deleteTask(projectId: string, taskId: string): boolean {
         const doc = collabEngine.getDocument(projectId)
-        const tasksArray = doc.getArray<Task>('tasks')
+        const task = taskService.deleteTask(doc, taskId)
+        if (!task) return false
 
-        const index = tasksArray.toArray().findIndex(t => t.id === taskId)
-        if (index === -1) return false
-
-        const task = tasksArray.get(index)
-        tasksArray.delete(index)
-
-        this.onTasksUpdate?.(tasksArray.toArray())
+        this.onTasksUpdate?.(taskService.getTasks(doc))
         this.logActivity(projectId, 'delete', 'task', taskId, `Deleted task "${task.title}"`)
 
         return true
@@ -317,36 +261,19 @@ class ProjectService {
     // Add comment to task
     addTaskComment(projectId: string, taskId: string, content: string): boolean {
         const doc = collabEngine.getDocument(projectId)
-        const tasksArray = doc.getArray<Task>('tasks')
+        if (!taskService.addComment(doc, taskId, content, this.getActor())) return false
 
-        const index = tasksArray.toArray().findIndex(t => t.id === taskId)
-        if (index === -1) return false
-
-        const task = tasksArray.get(index)
-        const comment: Comment = {
-            id: crypto.randomUUID(),
-            userId: this.currentUserId,
-            userName: this.currentUserName,
-            content,
-            timestamp: Date.now()
-        }
-
-        const updated = {
-            ...task,
-            comments: [...task.comments, comment],
-            updatedAt: Date.now()
-        }
-
-        doc.transact(() => {
-            tasksArray.delete(index)
-            tasksArray.insert(index, [updated])
-        })
-
-        this.logActivity(projectId, 'comment', 'task', taskId, `Commented on "${task.title}"`)
+        const task = taskService.getTasks(doc).find(t => t.id === taskId)
+        this.logActivity(projectId, 'comment', 'task', taskId, `Commented on "${task?.title}"`)
 
         return true
     }
 
+    // Author of task changes and comments
+    private getActor(): TaskActor {
+        return { id: this.currentUserId, name: this.currentUserName }
+    }
+
     // Log activity
     private logActivity(
         projectId: string,
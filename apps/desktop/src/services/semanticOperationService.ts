@@ -4,394 +4,765 @@
 
 /**
  * Semantic Operation Service - High-Level Refactoring Operations
- * 
- * Provides semantic operations like extract method, rename symbol, and move
- * that understand code structure and maintain consistency across the codebase.
+ *
+ * Provides semantic operations like extract method, rename symbol, move and
+ * inline that understand code structure and maintain consistency across the codebase.
+ *
+ * Operations never write anything: they return a preview of every file they
+ * would change, which the editor or an agent transaction applies. Rename,
+ * extract and inline delegate to the language server when one runs for the
+ * file's language and fall back to the symbol graph and a lexical scan of the
+ * file otherwise. Move always works from the symbol graph.
  */
 
+import path from 'path-browserify'
 import { logger } from '../utils/logger'
-import { symbolService, type Symbol } from './symbolService'
+import { symbolService } from './symbolService'
+import type { AgentFileChange } from '../types/agentTypes'
+import type { LspFileEdit, LspPosition, LspTextEdit } from '../types/lsp'
 
-export interface ExtractMethodOptions {
-    filePath: string
-    sourceRange: {
-        startLine: number
-        startColumn: number
-        endLine: number
-        endColumn: number
-    }
-    methodName: string
-    visibility?: 'public' | 'private' | 'protected'
-    isAsync?: boolean
-    isStatic?: boolean
-    generateDocs?: boolean
+export type SemanticOperation = 'rename' | 'extractMethod' | 'move' | 'inline'
+
+export interface SemanticContext {
+    workspacePath: string
+    // Reads the content an operation should see, e.g. an unsaved editor buffer
+    // or a file staged by an agent run. Returns null for missing files.
+    readFile?: (filePath: string) => Promise<string | null>
+}
+
+export interface SemanticPreview {
+    operation: SemanticOperation
+    title: string
+    // Where the edits came from: the language server or the symbol graph fallback
+    source: 'lsp' | 'symbol-graph'
+    files: AgentFileChange[]
+    warnings: string[]
 }
 
-export interface ExtractMethodResult {
+export interface SemanticOperationResult {
     success: boolean
-    newMethod?: Symbol
-    changes: Array<{
-        filePath: string
-        type: 'insert' | 'replace' | 'delete'
-        range: { line: number; column: number; endLine: number; endColumn: number }
-        content: string
-    }>
+    preview?: SemanticPreview
     error?: string
 }
 
+// Lines are 1-based, like the editor and the agent tools
+
 export interface RenameSymbolOptions {
-    symbolId: string
+    filePath: string
+    symbolName: string
     newName: string
-    updateReferences?: boolean
-    updateComments?: boolean
-    updateStrings?: boolean
+    // Line of an occurrence, to tell apart symbols with the same name
+    line?: number
 }
 
-export interface RenameSymbolResult {
-    success: boolean
-    changes: Array<{
-        filePath: string
-        range: { line: number; column: number; endLine: number; endColumn: number }
-        oldText: string
-        newText: string
-    }>
-    filesAffected: string[]
-    referencesUpdated: number
-    error?: string
+export interface ExtractMethodOptions {
+    filePath: string
+    startLine: number
+    endLine: number
+    methodName: string
 }
 
 export interface MoveSymbolOptions {
-    symbolId: string
+    filePath: string
+    symbolName: string
     targetFilePath: string
-    updateImports?: boolean
-}
-
-export interface MoveSymbolResult {
-    success: boolean
-    changes: Array<{
-        filePath: string
-        type: 'insert' | 'replace' | 'delete'
-        range: { line: number; column: number; endLine: number; endColumn: number }
-        content: string
-    }>
-    importUpdates: Array<{
-        filePath: string
-        oldImport: string
-        newImport: string
-    }>
-    error?: string
 }
 
 export interface InlineVariableOptions {
     filePath: string
     variableName: string
+    // Line of the declaration, or of a use below it
     line: number
+    // When false only the first use is replaced and the declaration stays
     replaceAll?: boolean
 }
 
-export interface InlineVariableResult {
-    success: boolean
-    changes: Array<{
-        filePath: string
-        range: { line: number; column: number; endLine: number; endColumn: number }
-        newText: string
-    }>
-    occurrencesReplaced: number
-    error?: string
+interface TextEdit {
+    start: number
+    end: number
+    text: string
 }
 
-class SemanticOperationService {
-    /**
-     * Extract selected code into a new method
-     */
-    async extractMethod(options: ExtractMethodOptions): Promise<ExtractMethodResult> {
-        try {
-            logger.agent.info('Extracting method', {
-                methodName: options.methodName,
-                filePath: options.filePath
-            })
+interface ImportStatement {
+    start: number
+    end: number
+    specifier: string
+    typeOnly: boolean
+    defaultName?: string
+    namespace?: string
+    named: Array<{ name: string; local: string; typeOnly: boolean }>
+}
 
-            // Analyze the selected code
-            const analysis = await this.analyzeCodeBlock(options.filePath, options.sourceRange)
-            
-            if (!analysis.canExtract) {
-                return {
-                    success: false,
-                    changes: [],
-                    error: analysis.reason || 'Cannot extract this code block'
-                }
-            }
+// A binding the moved code needs in its new file
+interface ImportRequirement {
+    specifier: string
+    kind: 'named' | 'default' | 'namespace'
+    name: string
+    local: string
+    typeOnly: boolean
+}
 
-            // Build the new method
-            const methodContent = this.buildMethodContent({
-                name: options.methodName,
-                parameters: analysis.parameters,
-                returnType: analysis.returnType,
-                body: analysis.body,
-                visibility: options.visibility || 'private',
-                isAsync: options.isAsync || analysis.isAsync,
-                isStatic: options.isStatic || false,
-                docs: options.generateDocs ? this.generateMethodDocs(options.methodName, analysis) : undefined
-            })
+interface EnclosingFunction {
+    kind: 'function' | 'method'
+    headerLine: number
+    isStatic: boolean
+    params: string
+    bodyStart: number
+    bodyEnd: number
+}
 
-            // Build the method call to replace the extracted code
-            const methodCall = this.buildMethodCall({
-                name: options.methodName,
-                arguments_: analysis.arguments_,
-                isAsync: options.isAsync || analysis.isAsync,
-                returnType: analysis.returnType
-            })
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/
 
-            const changes: ExtractMethodResult['changes'] = [
-                {
-                    filePath: options.filePath,
-                    type: 'replace',
-                    range: {
-                        line: options.sourceRange.startLine,
-                        column: options.sourceRange.startColumn,
-                        endLine: options.sourceRange.endLine,
-                        endColumn: options.sourceRange.endColumn
-                    },
-                    content: methodCall
-                },
-                {
-                    filePath: options.filePath,
-                    type: 'insert',
-                    range: {
-                        line: analysis.insertLine,
-                        column: 0,
-                        endLine: analysis.insertLine,
-                        endColumn: 0
-                    },
-                    content: '\n' + methodContent + '\n'
-                }
-            ]
-
-            // Create symbol for the new method
-            const newMethod: Symbol = {
-                id: `method-${Date.now()}`,
-                name: options.methodName,
-                type: 'method',
-                filePath: options.filePath,
-                location: {
-                    line: analysis.insertLine,
-                    column: 0,
-                    endLine: analysis.insertLine + methodContent.split('\n').length,
-                    endColumn: 0
-                },
-                signature: this.buildSignature(options.methodName, analysis.parameters, analysis.returnType),
-                isExported: false,
-                isAsync: options.isAsync || false,
-                isStatic: options.isStatic || false,
-                isAbstract: false,
-                isPrivate: options.visibility === 'private',
-                isProtected: options.visibility === 'protected',
-                visibility: options.visibility || 'private',
-                language: analysis.language,
-                createdAt: Date.now(),
-                modifiedAt: Date.now()
-            }
+const LANGUAGE_IDS: Record<string, string> = {
+    ts: 'typescript', tsx: 'typescript', mts: 'typescript', cts: 'typescript',
+    js: 'javascript', jsx: 'javascript', mjs: 'javascript', cjs: 'javascript',
+    py: 'python', rs: 'rust', go: 'go', java: 'java', cs: 'csharp'
+}
+
+// Names language servers give extracted functions before the user picks one
+const GENERATED_NAMES = /\b(?:newFunction|newMethod|new_function|new_method|extracted(?:_?[Mm]ethod|_?[Ff]unction)?)\d*\b/g
+
+const TOP_LEVEL_DECLARATION = /^(export\s+)?(default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(function\*?|class|interface|type|enum|const|let|var)\s+([\w$]+)/gm
+
+const IMPORT_STATEMENT = /^import\s+(type\s+)?([\w$*\s{},]*?)\s*from\s*(['"])([^'"]+)\3;?[ \t]*\r?\n?/gm
+
+const DECLARATION = /\b(const|let|var)\s+([\w$]+|\{[^}]*\}|\[[^\]]*\])(?:\s*:\s*([^=;\n]+?))?\s*(?==|\bof\b|\bin\b|;|,|\n|$)/g
+
+const NOT_A_METHOD = new Set(['if', 'for', 'while', 'switch', 'catch', 'function', 'return', 'with', 'super'])
+
+const languageIdOf = (filePath: string) => LANGUAGE_IDS[filePath.split('.').pop()?.toLowerCase() || ''] || 'plaintext'
+
+const isScript = (languageId: string) => languageId === 'typescript' || languageId === 'javascript'
+
+const baseName = (filePath: string) => filePath.split(/[\\/]/).pop() || filePath
+
+const toPosix = (filePath: string) => filePath.replace(/\\/g, '/')
+
+const stripExtension = (filePath: string) => filePath.replace(/\.(?:d\.ts|tsx?|jsx?|mjs|cjs|mts|cts)$/, '')
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
 
-            return {
-                success: true,
-                newMethod,
-                changes
+const samePath = (a: string, b: string) => toPosix(a).toLowerCase() === toPosix(b).toLowerCase()
+
+/**
+ * Marks which characters of a file are code, so searches skip strings and
+ * comments. Template literals count as strings, placeholders included.
+ */
+function codeMask(content: string, python: boolean): Uint8Array {
+    const mask = new Uint8Array(content.length)
+    let i = 0
+    while (i < content.length) {
+        const ch = content[i]
+        const next = content[i + 1]
+        let end: number
+        if ((python && ch === '#') || (!python && ch === '/' && next === '/')) {
+            end = content.indexOf('\n', i)
+        } else if (!python && ch === '/' && next === '*') {
+            end = content.indexOf('*/', i + 2)
+            if (end !== -1) end += 2
+        } else if (python && (content.startsWith('"""', i) || content.startsWith("'''", i))) {
+            end = content.indexOf(content.slice(i, i + 3), i + 3)
+            if (end !== -1) end += 3
+        } else if (ch === '"' || ch === "'" || (!python && ch === '`')) {
+            let j = i + 1
+            while (j < content.length && content[j] !== ch && (ch === '`' || content[j] !== '\n')) {
+                if (content[j] === '\\') j++
+                j++
             }
+            end = j + 1
+        } else {
+            mask[i] = 1
+            i++
+            continue
+        }
+        i = end === -1 ? content.length : end
+    }
+    return mask
+}
 
-        } catch (err) {
-            logger.agent.error('Extract method failed', err)
-            return {
-                success: false,
-                changes: [],
-                error: err instanceof Error ? err.message : 'Unknown error'
+/** Offsets of `name` as a whole identifier in code, between `from` and `to` */
+function findIdentifier(content: string, mask: Uint8Array, name: string, from = 0, to = content.length): number[] {
+    const pattern = new RegExp(`(?<![\\w$])${escapeRegExp(name)}(?![\\w$])`, 'g')
+    return Array.from(content.matchAll(pattern), match => match.index ?? -1)
+        .filter(index => index >= from && index < to && mask[index] === 1)
+}
+
+/** Whether the identifier at `index` is a property access like `obj.name` */
+function isMemberAccess(content: string, index: number): boolean {
+    return content[index - 1] === '.' && content[index - 2] !== '.'
+}
+
+/** Identifiers used in code between `from` and `to`, property accesses excluded */
+function usedIdentifiers(content: string, mask: Uint8Array, from: number, to: number): Set<string> {
+    const names = new Set<string>()
+    for (const match of content.slice(from, to).matchAll(/(?<![\w$])[A-Za-z_$][\w$]*/g)) {
+        const index = from + (match.index ?? 0)
+        if (mask[index] === 1 && !isMemberAccess(content, index)) names.add(match[0])
+    }
+    return names
+}
+
+/** Index of the bracket closing the one at `open`, or -1 */
+function matchBracket(content: string, mask: Uint8Array, open: number): number {
+    const closers: Record<string, string> = { '(': ')', '[': ']', '{': '}' }
+    const stack: string[] = []
+    for (let i = open; i < content.length; i++) {
+        if (mask[i] !== 1) continue
+        const ch = content[i]
+        if (closers[ch]) {
+            stack.push(closers[ch])
+        } else if (ch === ')' || ch === ']' || ch === '}') {
+            if (stack.pop() !== ch) return -1
+            if (stack.length === 0) return i
+        }
+    }
+    return -1
+}
+
+/** The innermost unclosed bracket before `index`, or undefined at top level */
+function enclosingBracket(content: string, mask: Uint8Array, index: number): string | undefined {
+    let depth = 0
+    for (let i = index - 1; i >= 0; i--) {
+        if (mask[i] !== 1) continue
+        const ch = content[i]
+        if (ch === ')' || ch === ']' || ch === '}') depth++
+        else if (ch === '(' || ch === '[' || ch === '{') {
+            if (depth === 0) return ch
+            depth--
+        }
+    }
+    return undefined
+}
+
+/**
+ * End of the expression starting at `start`: a `;` or `,` outside brackets,
+ * a bracket closing around it, or a line break that does not continue it.
+ */
+function expressionEnd(content: string, mask: Uint8Array, start: number, python: boolean): number {
+    let depth = 0
+    for (let i = start; i < content.length; i++) {
+        if (mask[i] !== 1) continue
+        const ch = content[i]
+        if (ch === '(' || ch === '[' || ch === '{') {
+            depth++
+        } else if (ch === ')' || ch === ']' || ch === '}') {
+            if (depth === 0) return i
+            depth--
+        } else if (depth === 0 && (ch === ';' || ch === ',')) {
+            return i
+        } else if (depth === 0 && ch === '\n') {
+            const before = content.slice(Math.max(start, i - 200), i).trimEnd()
+            if (python) {
+                if (!before.endsWith('\\')) return before.endsWith('\r') ? i - 1 : i
+                continue
+            }
+            const after = content.slice(i + 1, i + 200).trimStart()
+            if (before && !/[=+\-*/%&|^!?:<>,.(]$/.test(before) && !/^[.?:+\-*/%&|^=<>]/.test(after)) {
+                return content[i - 1] === '\r' ? i - 1 : i
             }
         }
     }
+    return content.length
+}
+
+function lineOffsets(content: string): number[] {
+    const starts = [0]
+    for (let i = 0; i < content.length; i++) {
+        if (content[i] === '\n') starts.push(i + 1)
+    }
+    return starts
+}
+
+/** Offset just past the text of a 1-based line, before its line break */
+/** 0-based index of the line containing `offset` */
+function lineIndexAt(starts: number[], offset: number): number {
+    let line = 0
+    while (line + 1 < starts.length && starts[line + 1] <= offset) line++
+    return line
+}
+
+function lineEnd(content: string, starts: number[], line: number): number {
+    const end = line < starts.length ? starts[line] - 1 : content.length
+    return content[end - 1] === '\r' ? end - 1 : end
+}
 
+function offsetOf(content: string, starts: number[], position: LspPosition): number {
+    if (position.line >= starts.length) return content.length
+    return Math.min(starts[position.line] + position.character, content.length)
+}
+
+function applyEdits(content: string, edits: TextEdit[]): string {
+    // Later edits first so offsets stay valid; inserts at one offset keep their order
+    const ordered = edits.map((edit, index) => ({ edit, index }))
+        .sort((a, b) => b.edit.start - a.edit.start || b.index - a.index)
+    let result = content
+    for (const { edit } of ordered) {
+        result = result.slice(0, edit.start) + edit.text + result.slice(edit.end)
+    }
+    return result
+}
+
+function applyLspEdits(content: string, edits: LspTextEdit[]): string {
+    const starts = lineOffsets(content)
+    return applyEdits(content, edits.map(edit => ({
+        start: offsetOf(content, starts, edit.range.start),
+        end: offsetOf(content, starts, edit.range.end),
+        text: edit.newText
+    })))
+}
+
+function leadingWhitespace(line: string): string {
+    return /^[ \t]*/.exec(line)?.[0] ?? ''
+}
+
+/** Names bound by a parameter or declaration, including destructuring patterns */
+function bindingNames(pattern: string): string[] {
+    const text = pattern.trim().replace(/^\.\.\./, '')
+    if (text.startsWith('{') || text.startsWith('[')) {
+        const mask = codeMask(text, false)
+        const close = matchBracket(text, mask, 0)
+        return splitTopLevel(text.slice(1, close === -1 ? text.length : close)).flatMap(element => {
+            const colon = topLevelIndex(element, ':')
+            const target = text.startsWith('{') && colon !== -1 ? element.slice(colon + 1) : element
+            return bindingNames(target.split('=')[0])
+        })
+    }
+    const name = /^[A-Za-z_$][\w$]*/.exec(text)?.[0]
+    return name ? [name] : []
+}
+
+function splitTopLevel(text: string): string[] {
+    const mask = codeMask(text, false)
+    const parts: string[] = []
+    let depth = 0
+    let start = 0
+    for (let i = 0; i < text.length; i++) {
+        if (mask[i] !== 1) continue
+        const ch = text[i]
+        if ('([{<'.includes(ch)) depth++
+        else if (')]}>'.includes(ch) && text[i - 1] !== '=') depth--
+        else if (ch === ',' && depth === 0) {
+            parts.push(text.slice(start, i))
+            start = i + 1
+        }
+    }
+    parts.push(text.slice(start))
+    return parts.map(part => part.trim()).filter(Boolean)
+}
+
+function topLevelIndex(text: string, char: string): number {
+    let depth = 0
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i]
+        if ('([{<'.includes(ch)) depth++
+        else if (')]}>'.includes(ch)) depth--
+        else if (ch === char && depth === 0) return i
+    }
+    return -1
+}
+
+/** Whether an expression must be parenthesized when it replaces an identifier */
+function needsParens(expression: string, python: boolean): boolean {
+    const mask = codeMask(expression, python)
+    let depth = 0
+    for (let i = 0; i < expression.length; i++) {
+        if (mask[i] !== 1) continue
+        const ch = expression[i]
+        if ('([{'.includes(ch)) depth++
+        else if (')]}'.includes(ch)) depth--
+        else if (depth === 0 && /[\s+\-*/%<>=!&|?:,]/.test(ch)) return true
+    }
+    return false
+}
+
+function parseImports(content: string): ImportStatement[] {
+    const mask = codeMask(content, false)
+    const statements: ImportStatement[] = []
+    for (const match of content.matchAll(IMPORT_STATEMENT)) {
+        const start = match.index ?? 0
+        if (mask[start] !== 1) continue
+
+        const clause = match[2].trim()
+        const statement: ImportStatement = {
+            start,
+            end: start + match[0].length,
+            specifier: match[4],
+            typeOnly: Boolean(match[1]),
+            named: []
+        }
+        statement.defaultName = /^([\w$]+)\s*(?:,|$)/.exec(clause)?.[1]
+        statement.namespace = /\*\s*as\s+([\w$]+)/.exec(clause)?.[1]
+        const braces = /\{([^}]*)\}/.exec(clause)
+        for (const element of braces ? braces[1].split(',') : []) {
+            const named = /^(type\s+)?([\w$]+)(?:\s+as\s+([\w$]+))?$/.exec(element.trim())
+            if (named) statement.named.push({ name: named[2], local: named[3] || named[2], typeOnly: Boolean(named[1]) })
+        }
+        statements.push(statement)
+    }
+    return statements
+}
+
+function importStyle(content: string, fallback: string): { quote: string; semi: string } {
+    const sample = /^import\s[^\n]*from\s*(['"])[^'"]+\1(;?)/m.exec(content) ?? /^import\s[^\n]*from\s*(['"])[^'"]+\1(;?)/m.exec(fallback)
+    return { quote: sample?.[1] ?? "'", semi: sample?.[2] ?? '' }
+}
+
+function formatImport(requirements: ImportRequirement[], style: { quote: string; semi: string }): string {
+    const { specifier, typeOnly, kind, local } = requirements[0]
+    const from = `from ${style.quote}${specifier}${style.quote}${style.semi}`
+    const typePrefix = typeOnly ? 'type ' : ''
+    if (kind === 'namespace') return `import ${typePrefix}* as ${local} ${from}`
+    if (kind === 'default') return `import ${typePrefix}${local} ${from}`
+    const names = requirements.map(r => (r.name === r.local ? r.name : `${r.name} as ${r.local}`)).join(', ')
+    return `import ${typePrefix}{ ${names} } ${from}`
+}
+
+/**
+ * Add imports to a file, merging named imports into an existing statement
+ * for the same module. New statements go after the last import.
+ */
+function addImports(content: string, requirements: ImportRequirement[], styleSource: string): string {
+    if (requirements.length === 0) return content
+
+    const style = importStyle(content, styleSource)
+    const statements = parseImports(content)
+    const edits: TextEdit[] = []
+    const newLines: string[] = []
+
+    const groups = new Map<string, ImportRequirement[]>()
+    for (const requirement of requirements) {
+        const key = requirement.kind === 'named'
+            ? `${requirement.specifier}\0named\0${requirement.typeOnly}`
+            : `${requirement.specifier}\0${requirement.kind}\0${requirement.local}`
+        groups.set(key, [...(groups.get(key) ?? []), requirement])
+    }
+
+    for (const group of groups.values()) {
+        const first = group[0]
+        const existing = first.kind === 'named'
+            ? statements.find(s => s.specifier === first.specifier && s.typeOnly === first.typeOnly && !s.namespace && /\{[^}]*\}/.test(content.slice(s.start, s.end)))
+            : undefined
+        if (existing) {
+            const text = content.slice(existing.start, existing.end)
+            const close = text.lastIndexOf('}')
+            const inner = text.slice(text.indexOf('{') + 1, close).trim()
+            const added = group.map(r => (r.name === r.local ? r.name : `${r.name} as ${r.local}`)).join(', ')
+            const merged = `${text.slice(0, text.indexOf('{') + 1)} ${inner ? `${inner.replace(/,\s*$/, '')}, ` : ''}${added} ${text.slice(close)}`
+            edits.push({ start: existing.start, end: existing.end, text: merged })
+        } else {
+            newLines.push(formatImport(group, style))
+        }
+    }
+
+    if (newLines.length > 0) {
+        const last = statements[statements.length - 1]
+        let at = last ? last.end : 0
+        let text = newLines.join('\n') + '\n'
+        if (!last) {
+            // Keep a license or file header comment first
+            const header = /^\/\*(?!\*)[\s\S]*?\*\/[ \t]*\r?\n/.exec(content)
+            at = header ? header[0].length : 0
+            text += content.slice(at).trim() ? '\n' : ''
+        } else if (content[last.end - 1] !== '\n') {
+            text = '\n' + text.replace(/\n$/, '')
+        }
+        edits.push({ start: at, end: at, text })
+    }
+    return applyEdits(content, edits)
+}
+
+/** Remove bindings from an import, dropping the statement once it is empty */
+function removeImportBindings(content: string, statement: ImportStatement, locals: string[]): TextEdit {
+    const named = statement.named.filter(n => !locals.includes(n.local))
+    const defaultName = statement.defaultName && !locals.includes(statement.defaultName) ? statement.defaultName : undefined
+    const namespace = statement.namespace && !locals.includes(statement.namespace) ? statement.namespace : undefined
+    if (!defaultName && !namespace && named.length === 0) {
+        return { start: statement.start, end: statement.end, text: '' }
+    }
+
+    const text = content.slice(statement.start, statement.end)
+    const parts = [
+        defaultName,
+        namespace ? `* as ${namespace}` : undefined,
+        named.length > 0
+            ? `{ ${named.map(n => `${n.typeOnly ? 'type ' : ''}${n.name === n.local ? n.name : `${n.name} as ${n.local}`}`).join(', ')} }`
+            : undefined
+    ].filter(Boolean)
+    const clauseStart = text.indexOf(statement.typeOnly ? 'type' : 'import') + (statement.typeOnly ? 4 : 6)
+    const clauseEnd = text.search(/\s*from\s*['"]/)
+    return {
+        start: statement.start,
+        end: statement.end,
+        text: `${text.slice(0, clauseStart)} ${parts.join(', ')}${text.slice(clauseEnd)}`
+    }
+}
+
+function resolveSpecifier(fromFile: string, specifier: string): string | null {
+    if (!specifier.startsWith('.')) return null
+    return stripExtension(path.posix.join(path.posix.dirname(toPosix(fromFile)), specifier))
+}
+
+function isModule(resolved: string | null, filePath: string): boolean {
+    if (!resolved) return false
+    const module = stripExtension(toPosix(filePath))
+    return resolved === module || `${resolved}/index` === module
+}
+
+function relativeSpecifier(fromFile: string, toFile: string): string {
+    const relative = path.posix.relative(path.posix.dirname(toPosix(fromFile)), stripExtension(toPosix(toFile)))
+    return relative.startsWith('.') ? relative : `./${relative}`
+}
+
+/**
+ * Files an operation reads and writes, keeping what they contained first so
+ * the preview can show a diff. Edits accumulate across files.
+ */
+class PendingFiles {
+    private files = new Map<string, { original: string | null; content: string | null }>()
+
+    constructor(private readonly context: SemanticContext) {}
+
+    async read(filePath: string): Promise<string | null> {
+        const pending = this.files.get(filePath)
+        if (pending) return pending.content
+
+        let content: string | null
+        if (this.context.readFile) {
+            content = await this.context.readFile(filePath)
+        } else {
+            const result = await globalThis.window?.electronAPI?.fs.readFile(filePath)
+            content = result?.success ? result.content as string : null
+        }
+        this.files.set(filePath, { original: content, content })
+        return content
+    }
+
+    write(filePath: string, content: string | null): void {
+        const pending = this.files.get(filePath)
+        if (pending) pending.content = content
+        else this.files.set(filePath, { original: null, content })
+    }
+
+    toChanges(): AgentFileChange[] {
+        const changes: AgentFileChange[] = []
+        for (const [filePath, { original, content }] of this.files) {
+            if (original === content) continue
+            changes.push({
+                path: filePath,
+                operation: original === null ? 'create' : content === null ? 'delete' : 'modify',
+                originalContent: original,
+                newContent: content
+            })
+        }
+        return changes
+    }
+}
+
+class SemanticOperationService {
     /**
      * Rename a symbol and update all references
      */
-    async renameSymbol(options: RenameSymbolOptions): Promise<RenameSymbolResult> {
+    async renameSymbol(options: RenameSymbolOptions, context: SemanticContext): Promise<SemanticOperationResult> {
+        const validation = this.validateOperation('rename', options)
+        if (!validation.valid) return { success: false, error: validation.errors.join('; ') }
+
         try {
             logger.agent.info('Renaming symbol', {
-                symbolId: options.symbolId,
-                newName: options.newName
+                symbolName: options.symbolName,
+                newName: options.newName,
+                filePath: options.filePath
             })
 
-            const symbol = symbolService.getSymbol(options.symbolId)
-            if (!symbol) {
-                return {
-                    success: false,
-                    changes: [],
-                    filesAffected: [],
-                    referencesUpdated: 0,
-                    error: 'Symbol not found'
-                }
-            }
+            const pending = new PendingFiles(context)
+            const content = await this.readSource(pending, options.filePath)
+            const languageId = languageIdOf(options.filePath)
+            const title = `Rename ${options.symbolName} to ${options.newName}`
+            const warnings = [...validation.warnings]
 
-            // Analyze impact (for future use in conflict detection)
-            // const impact = symbolService.analyzeImpact(options.symbolId)
-            
-            const changes: RenameSymbolResult['changes'] = []
-            const filesAffected = new Set<string>()
-            let referencesUpdated = 0
+            const position = this.symbolPosition(options, content, languageId)
+            if (!position) {
+                const where = options.line ? ` on line ${options.line}` : ''
+                return { success: false, error: `${options.symbolName} was not found in ${baseName(options.filePath)}${where}` }
+            }
 
-            // Update the symbol definition
-            changes.push({
-                filePath: symbol.filePath,
-                range: symbol.location,
-                oldText: symbol.name,
-                newText: options.newName
-            })
-            filesAffected.add(symbol.filePath)
-
-            // Update references if requested
-            if (options.updateReferences !== false) {
-                const refs = symbolService.findReferences(options.symbolId)
-                
-                for (const ref of refs) {
-                    changes.push({
-                        filePath: ref.symbol.filePath,
-                        range: {
-                            line: ref.relationship.location?.line || 0,
-                            column: ref.relationship.location?.column || 0,
-                            endLine: ref.relationship.location?.line || 0,
-                            endColumn: (ref.relationship.location?.column || 0) + symbol.name.length
-                        },
-                        oldText: symbol.name,
-                        newText: options.newName
-                    })
-                    filesAffected.add(ref.symbol.filePath)
-                    referencesUpdated++
+            const lsp = globalThis.window?.electronAPI?.lsp
+            if (lsp && languageId !== 'plaintext') {
+                const result = await lsp.rename({
+                    workspacePath: context.workspacePath,
+                    filePath: options.filePath,
+                    languageId,
+                    content,
+                    position,
+                    newName: options.newName
+                })
+                if (!result.success && !result.unavailable) {
+                    return { success: false, error: result.error || 'The language server could not rename the symbol' }
+                }
+                if (result.success && this.hasEdits(result.files)) {
+                    await this.applyLspFiles(result.files ?? [], pending, options.filePath)
+                    return this.toResult('rename', title, 'lsp', pending, warnings)
                 }
             }
 
-            return {
-                success: true,
-                changes,
-                filesAffected: Array.from(filesAffected),
-                referencesUpdated
-            }
+            await this.renameWithSymbolGraph(options, content, languageId, pending, warnings)
+            return this.toResult('rename', title, 'symbol-graph', pending, warnings)
 
         } catch (err) {
             logger.agent.error('Rename symbol failed', err)
-            return {
-                success: false,
-                changes: [],
-                filesAffected: [],
-                referencesUpdated: 0,
-                error: err instanceof Error ? err.message : 'Unknown error'
-            }
+            return { success: false, error: err instanceof Error ? err.message : 'Unknown error' }
         }
     }
 
     /**
-     * Move a symbol to a different file
+     * Extract whole lines into a new method, or a function outside a class
      */
-    async moveSymbol(options: MoveSymbolOptions): Promise<MoveSymbolResult> {
+    async extractMethod(options: ExtractMethodOptions, context: SemanticContext): Promise<SemanticOperationResult> {
+        const validation = this.validateOperation('extractMethod', options)
+        if (!validation.valid) return { success: false, error: validation.errors.join('; ') }
+
         try {
-            logger.agent.info('Moving symbol', {
-                symbolId: options.symbolId,
-                targetFile: options.targetFilePath
+            logger.agent.info('Extracting method', {
+                methodName: options.methodName,
+                filePath: options.filePath
             })
 
-            const symbol = symbolService.getSymbol(options.symbolId)
-            if (!symbol) {
+            const pending = new PendingFiles(context)
+            const content = await this.readSource(pending, options.filePath)
+            const languageId = languageIdOf(options.filePath)
+            const title = `Extract lines ${options.startLine}-${options.endLine} into ${options.methodName}`
+            const lines = content.split('\n')
+            if (options.endLine > lines.length) {
+                return { success: false, error: `${baseName(options.filePath)} has only ${lines.length} lines` }
+            }
+
+            const lsp = globalThis.window?.electronAPI?.lsp
+            if (lsp && languageId !== 'plaintext') {
+                const startLine = lines[options.startLine - 1]
+                const result = await lsp.codeActions({
+                    workspacePath: context.workspacePath,
+                    filePath: options.filePath,
+                    languageId,
+                    content,
+                    range: {
+                        start: { line: options.startLine - 1, character: leadingWhitespace(startLine).length },
+                        end: { line: options.endLine - 1, character: lines[options.endLine - 1].replace(/\r$/, '').length }
+                    },
+                    only: ['refactor.extract']
+                })
+                if (!result.success && !result.unavailable) {
+                    return { success: false, error: result.error || 'The language server could not extract the selection' }
+                }
+
+                // Servers list scopes innermost first; constants and types are other extractions
+                const actions = (result.actions ?? []).filter(a => this.hasEdits(a.files) && !/constant|type|interface/i.test(a.title))
+                const action = actions.find(a => /method/i.test(a.title)) ?? actions.find(a => /function/i.test(a.title))
+                if (action) {
+                    const files = action.files.map(file => ({
+                        ...file,
+                        edits: file.edits.map(edit => ({ ...edit, newText: edit.newText.replace(GENERATED_NAMES, options.methodName) }))
+                    }))
+                    await this.applyLspFiles(files, pending, options.filePath)
+                    return this.toResult('extractMethod', `${title} (${action.title})`, 'lsp', pending, validation.warnings)
+                }
+            }
+
+            if (!isScript(languageId)) {
                 return {
                     success: false,
-                    changes: [],
-                    importUpdates: [],
-                    error: 'Symbol not found'
+                    error: `No language server offers this extraction, and ${languageId} files can only be extracted through one`
                 }
             }
+            pending.write(options.filePath, this.extractWithSymbolGraph(options, content, languageId))
+            return this.toResult('extractMethod', title, 'symbol-graph', pending, validation.warnings)
 
-            const changes: MoveSymbolResult['changes'] = []
-            const importUpdates: MoveSymbolResult['importUpdates'] = []
+        } catch (err) {
+            logger.agent.error('Extract method failed', err)
+            return { success: false, error: err instanceof Error ? err.message : 'Unknown error' }
+        }
+    }
 
-            // Remove from original file
-            changes.push({
-                filePath: symbol.filePath,
-                type: 'delete',
-                range: symbol.location,
-                content: ''
-            })
+    /**
+     * Move a top-level symbol to another file, creating it when missing, and
+     * update the imports of the files that use it. Importers come from the
+     * symbol graph, so the move does not need a language server.
+     */
+    async moveSymbol(options: MoveSymbolOptions, context: SemanticContext): Promise<SemanticOperationResult> {
+        const validation = this.validateOperation('move', options)
+        if (!validation.valid) return { success: false, error: validation.errors.join('; ') }
 
-            // Add to target file
-            // Note: In real implementation, we'd get the actual symbol content
-            changes.push({
-                filePath: options.targetFilePath,
-                type: 'insert',
-                range: { line: 0, column: 0, endLine: 0, endColumn: 0 },
-                content: `// ${symbol.name} moved from ${symbol.filePath}\n`
+        try {
+            logger.agent.info('Moving symbol', {
+                symbolName: options.symbolName,
+                targetFile: options.targetFilePath
             })
 
-            // Update imports if requested
-            if (options.updateImports !== false) {
-                const impact = symbolService.analyzeImpact(options.symbolId)
-                
-                for (const file of impact.files) {
-                    if (file !== options.targetFilePath) {
-                        importUpdates.push({
-                            filePath: file,
-                            oldImport: `from '${symbol.filePath}'`,
-                            newImport: `from '${options.targetFilePath}'`
-                        })
-                    }
-                }
+            if (!isScript(languageIdOf(options.filePath)) || !isScript(languageIdOf(options.targetFilePath))) {
+                return { success: false, error: 'Moving symbols is supported between TypeScript and JavaScript files' }
             }
 
-            return {
-                success: true,
-                changes,
-                importUpdates
-            }
+            const pending = new PendingFiles(context)
+            const warnings = [...validation.warnings]
+            await this.moveWithSymbolGraph(options, pending, warnings)
+            return this.toResult('move', `Move ${options.symbolName} to ${baseName(options.targetFilePath)}`, 'symbol-graph', pending, warnings)
 
         } catch (err) {
             logger.agent.error('Move symbol failed', err)
-            return {
-                success: false,
-                changes: [],
-                importUpdates: [],
-                error: err instanceof Error ? err.message : 'Unknown error'
-            }
+            return { success: false, error: err instanceof Error ? err.message : 'Unknown error' }
         }
     }
 
     /**
      * Inline a variable (replace references with its value)
      */
-    async inlineVariable(options: InlineVariableOptions): Promise<InlineVariableResult> {
+    async inlineVariable(options: InlineVariableOptions, context: SemanticContext): Promise<SemanticOperationResult> {
+        const validation = this.validateOperation('inline', options)
+        if (!validation.valid) return { success: false, error: validation.errors.join('; ') }
+
         try {
             logger.agent.info('Inlining variable', {
                 variableName: options.variableName,
                 filePath: options.filePath
             })
 
-            // In real implementation, this would parse the file and find all references
-            // For now, return a placeholder result
-            
-            return {
-                success: true,
-                changes: [],
-                occurrencesReplaced: 0,
-                error: 'Inline variable requires file parsing - implementation pending'
+            const pending = new PendingFiles(context)
+            const content = await this.readSource(pending, options.filePath)
+            const languageId = languageIdOf(options.filePath)
+            const title = `Inline ${options.variableName}`
+
+            const lsp = globalThis.window?.electronAPI?.lsp
+            const position = this.symbolPosition({ ...options, symbolName: options.variableName }, content, languageId)
+            if (lsp && position && options.replaceAll !== false && languageId !== 'plaintext') {
+                const result = await lsp.codeActions({
+                    workspacePath: context.workspacePath,
+                    filePath: options.filePath,
+                    languageId,
+                    content,
+                    range: { start: position, end: { ...position, character: position.character + options.variableName.length } },
+                    only: ['refactor.inline']
+                })
+                if (!result.success && !result.unavailable) {
+                    return { success: false, error: result.error || 'The language server could not inline the variable' }
+                }
+                const action = (result.actions ?? []).find(a => this.hasEdits(a.files) && /variable|inline/i.test(a.title))
+                if (action) {
+                    await this.applyLspFiles(action.files, pending, options.filePath)
+                    return this.toResult('inline', title, 'lsp', pending, validation.warnings)
+                }
             }
 
+            pending.write(options.filePath, this.inlineWithText(options, content, languageId))
+            return this.toResult('inline', title, 'symbol-graph', pending, validation.warnings)
+
         } catch (err) {
             logger.agent.error('Inline variable failed', err)
-            return {
-                success: false,
-                changes: [],
-                occurrencesReplaced: 0,
-                error: err instanceof Error ? err.message : 'Unknown error'
-            }
+            return { success: false, error: err instanceof Error ? err.message : 'Unknown error' }
         }
     }
 
     /**
      * Validate a semantic operation before executing
      */
-    validateOperation(operation: 'extractMethod' | 'rename' | 'move', options: unknown): {
+    validateOperation(operation: SemanticOperation, options: unknown): {
         valid: boolean
         errors: string[]
         warnings: string[]
@@ -404,35 +775,50 @@ class SemanticOperationService {
                 const extractOpts = options as ExtractMethodOptions
                 if (!extractOpts.methodName || extractOpts.methodName.trim() === '') {
                     errors.push('Method name is required')
+                } else if (!IDENTIFIER.test(extractOpts.methodName)) {
+                    errors.push(`${extractOpts.methodName} is not a valid identifier`)
                 }
                 if (!extractOpts.filePath) {
                     errors.push('File path is required')
                 }
-                if (extractOpts.sourceRange.startLine > extractOpts.sourceRange.endLine) {
+                if (!(extractOpts.startLine >= 1) || extractOpts.startLine > extractOpts.endLine) {
                     errors.push('Invalid source range')
                 }
                 break
 
             case 'rename':
                 const renameOpts = options as RenameSymbolOptions
-                if (!renameOpts.symbolId) {
-                    errors.push('Symbol ID is required')
+                if (!renameOpts.symbolName) {
+                    errors.push('Symbol name is required')
                 }
                 if (!renameOpts.newName || renameOpts.newName.trim() === '') {
                     errors.push('New name is required')
-                }
-                if (renameOpts.newName && /[^a-zA-Z0-9_]/.test(renameOpts.newName)) {
-                    warnings.push('New name contains special characters')
+                } else if (!IDENTIFIER.test(renameOpts.newName)) {
+                    errors.push(`${renameOpts.newName} is not a valid identifier`)
+                } else if (renameOpts.newName === renameOpts.symbolName) {
+                    errors.push('The new name is the same as the old one')
                 }
                 break
 
             case 'move':
                 const moveOpts = options as MoveSymbolOptions
-                if (!moveOpts.symbolId) {
-                    errors.push('Symbol ID is required')
+                if (!moveOpts.symbolName) {
+                    errors.push('Symbol name is required')
                 }
                 if (!moveOpts.targetFilePath) {
                     errors.push('Target file path is required')
+                } else if (moveOpts.filePath && samePath(moveOpts.filePath, moveOpts.targetFilePath)) {
+                    errors.push('The target file is the file the symbol is in')
+                }
+                break
+
+            case 'inline':
+                const inlineOpts = options as InlineVariableOptions
+                if (!inlineOpts.variableName) {
+                    errors.push('Variable name is required')
+                }
+                if (!(inlineOpts.line >= 1)) {
+                    errors.push('The line of the declaration is required')
                 }
                 break
         }
@@ -440,109 +826,605 @@ class SemanticOperationService {
         return { valid: errors.length === 0, errors, warnings }
     }
 
-    // --- Private helper methods ---
+    /**
+     * Summarize a preview for the agent: each file with the lines that change
+     */
+    formatPreview(preview: SemanticPreview, maxLinesPerFile = 40): string {
+        const source = preview.source === 'lsp' ? 'language server' : 'symbol graph'
+        const out = [`${preview.title} (via ${source})`]
+
+        for (const file of preview.files) {
+            const before = file.originalContent?.split('\n') ?? []
+            const after = file.newContent?.split('\n') ?? []
+            let prefix = 0
+            while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) prefix++
+            let suffix = 0
+            while (suffix < before.length - prefix && suffix < after.length - prefix &&
+                before[before.length - 1 - suffix] === after[after.length - 1 - suffix]) suffix++
 
-    private async analyzeCodeBlock(
-        _filePath: string,
-        _range: ExtractMethodOptions['sourceRange']
-    ): Promise<{
-        canExtract: boolean
-        reason?: string
-        body: string
-        parameters: Array<{ name: string; type: string }>
-        arguments_: string[]
-        returnType: string
-        isAsync: boolean
-        language: string
-        insertLine: number
-    }> {
-        // In real implementation, this would parse the actual code
-        // For now, return a placeholder
-        return {
-            canExtract: true,
-            body: '// extracted code',
-            parameters: [],
-            arguments_: [],
-            returnType: 'void',
-            isAsync: false,
-            language: 'typescript',
-            insertLine: _range.endLine + 1
-        }
-    }
-
-    private buildMethodContent(options: {
-        name: string
-        parameters: Array<{ name: string; type: string }>
-        returnType: string
-        body: string
-        visibility: string
-        isAsync: boolean
-        isStatic: boolean
-        docs?: string
-    }): string {
-        const indent = '    '
-        let content = ''
-
-        if (options.docs) {
-            content += `${indent}/**\n${options.docs.split('\n').map(l => `${indent} * ${l}`).join('\n')}\n${indent} */\n`
-        }
-
-        const modifiers = [
-            options.visibility,
-            options.isStatic ? 'static' : '',
-            options.isAsync ? 'async' : ''
-        ].filter(Boolean).join(' ')
-
-        const params = options.parameters.map(p => `${p.name}: ${p.type}`).join(', ')
-        const returnType = options.returnType !== 'void' ? `: ${options.returnType}` : ''
-
-        content += `${indent}${modifiers} ${options.name}(${params})${returnType} {\n`
-        content += `${indent}${indent}${options.body}\n`
-        content += `${indent}}`
+            const removed = before.slice(prefix, before.length - suffix)
+            const added = after.slice(prefix, after.length - suffix)
+            out.push('', `${file.operation} ${file.path} (-${removed.length} +${added.length})`)
+            if (file.operation === 'delete') continue
+
+            const diff = [...removed.map(l => `- ${l}`), ...added.map(l => `+ ${l}`)]
+            out.push(`@@ line ${prefix + 1}`, ...diff.slice(0, maxLinesPerFile))
+            if (diff.length > maxLinesPerFile) out.push(`... ${diff.length - maxLinesPerFile} more lines`)
+        }
 
+        if (preview.warnings.length > 0) {
+            out.push('', 'Warnings:', ...preview.warnings.map(w => `- ${w}`))
+        }
+        return out.join('\n')
+    }
+
+    // --- Private helper methods ---
+
+    private async readSource(pending: PendingFiles, filePath: string): Promise<string> {
+        const content = await pending.read(filePath)
+        if (content === null) throw new Error(`Cannot read ${filePath}`)
         return content
     }
 
-    private buildMethodCall(options: {
-        name: string
-        arguments_: string[]
-        isAsync: boolean
-        returnType: string
-    }): string {
-        const args = options.arguments_.join(', ')
-        const call = `${options.name}(${args})`
-        
-        if (options.isAsync) {
-            return options.returnType === 'void' ? `await ${call};` : `return await ${call};`
-        }
-        
-        return options.returnType === 'void' ? `${call};` : `return ${call};`
-    }
-
-    private buildSignature(
-        name: string,
-        parameters: Array<{ name: string; type: string }>,
-        returnType: string
-    ): string {
-        const params = parameters.map(p => `${p.name}: ${p.type}`).join(', ')
-        return `${name}(${params}): ${returnType}`
-    }
-
-    private generateMethodDocs(
-        name: string,
-        analysis: { parameters: Array<{ name: string; type: string }>; returnType: string }
-    ): string {
-        let docs = `${name}\n\n`
-        
-        if (analysis.parameters.length > 0) {
-            docs += '@param params - Parameters\n'
-        }
-        
-        if (analysis.returnType !== 'void') {
-            docs += `@returns ${analysis.returnType}`
-        }
-        
-        return docs.trim()
+    private hasEdits(files: LspFileEdit[] | undefined): boolean {
+        return (files ?? []).some(file => file.edits.length > 0 || file.create || file.delete)
+    }
+
+    private async applyLspFiles(files: LspFileEdit[], pending: PendingFiles, requestPath: string): Promise<void> {
+        for (const file of files) {
+            // Keep the caller's spelling of the requested file so open editors match it
+            const filePath = samePath(file.path, requestPath) ? requestPath : file.path
+            const current = await pending.read(filePath)
+            if (file.delete) {
+                pending.write(filePath, null)
+                continue
+            }
+            if (current === null && !file.create) throw new Error(`Cannot read ${filePath}`)
+            pending.write(filePath, applyLspEdits(file.create ? '' : current ?? '', file.edits))
+        }
+    }
+
+    private toResult(
+        operation: SemanticOperation,
+        title: string,
+        source: SemanticPreview['source'],
+        pending: PendingFiles,
+        warnings: string[]
+    ): SemanticOperationResult {
+        const files = pending.toChanges()
+        if (files.length === 0) {
+            return { success: false, error: 'The refactoring does not change any file' }
+        }
+        return { success: true, preview: { operation, title, source, files, warnings } }
+    }
+
+    /** Protocol position of an occurrence of the symbol, on `line` when given */
+    private symbolPosition(
+        options: { filePath: string; symbolName: string; line?: number },
+        content: string,
+        languageId: string
+    ): LspPosition | null {
+        const mask = codeMask(content, languageId === 'python')
+        const starts = lineOffsets(content)
+        let line = options.line
+        if (!line) {
+            const symbol = symbolService.findSymbolAt(options.filePath, options.symbolName)
+            line = symbol?.location.line
+        }
+
+        const from = line ? starts[line - 1] ?? content.length : 0
+        const to = line ? lineEnd(content, starts, line) : content.length
+        const offset = findIdentifier(content, mask, options.symbolName, from, to)[0]
+        if (offset === undefined) return null
+
+        const lineIndex = lineIndexAt(starts, offset)
+        return { line: lineIndex, character: offset - starts[lineIndex] }
+    }
+
+    /**
+     * Rename the definition and its indexed references. A symbol the graph
+     * does not know is renamed within its own file only.
+     */
+    private async renameWithSymbolGraph(
+        options: RenameSymbolOptions,
+        content: string,
+        languageId: string,
+        pending: PendingFiles,
+        warnings: string[]
+    ): Promise<void> {
+        const python = languageId === 'python'
+        const symbol = symbolService.findSymbolAt(options.filePath, options.symbolName, options.line)
+        if (!symbol) {
+            const mask = codeMask(content, python)
+            const offsets = findIdentifier(content, mask, options.symbolName)
+            pending.write(options.filePath, applyEdits(content, offsets.map(start => ({
+                start, end: start + options.symbolName.length, text: options.newName
+            }))))
+            warnings.push(`${options.symbolName} is not in the symbol index, so only ${baseName(options.filePath)} was updated`)
+            return
+        }
+
+        if (symbolService.getFileSymbols(symbol.filePath).some(s => s.name === options.newName)) {
+            warnings.push(`${baseName(symbol.filePath)} already declares ${options.newName}`)
+        }
+
+        const locations = new Map<string, Array<{ line: number; column?: number }>>()
+        const addLocation = (filePath: string, line: number, column?: number) => {
+            locations.set(filePath, [...(locations.get(filePath) ?? []), { line, column }])
+        }
+        addLocation(symbol.filePath, symbol.location.line, symbol.location.column)
+        for (const ref of symbolService.findReferences(symbol.id)) {
+            // Uses of an import alias keep their own name
+            if (ref.relationship.metadata?.alias) continue
+            const location = ref.relationship.location
+            if (location) addLocation(ref.relationship.filePath, location.line, location.column)
+            else warnings.push(`A reference in ${baseName(ref.relationship.filePath)} has no location and was not updated`)
+        }
+
+        for (const [filePath, fileLocations] of locations) {
+            const fileContent = await pending.read(filePath)
+            if (fileContent === null) {
+                warnings.push(`Cannot read ${filePath}; its references were not updated`)
+                continue
+            }
+
+            const mask = codeMask(fileContent, languageIdOf(filePath) === 'python')
+            const starts = lineOffsets(fileContent)
+            const offsets = new Set<number>()
+            for (const { line, column } of fileLocations) {
+                const lineStart = starts[line - 1]
+                const found = lineStart === undefined
+                    ? []
+                    : findIdentifier(fileContent, mask, options.symbolName, lineStart, lineEnd(fileContent, starts, line))
+                // The graph may be older than the file; only edit where the name still is
+                const atColumn = found.filter(offset => column !== undefined && offset - lineStart === column)
+                const edits = atColumn.length > 0 ? atColumn : found
+                if (edits.length === 0) warnings.push(`Skipped a stale reference at ${baseName(filePath)}:${line}`)
+                edits.forEach(offset => offsets.add(offset))
+            }
+
+            pending.write(filePath, applyEdits(fileContent, Array.from(offsets, start => ({
+                start, end: start + options.symbolName.length, text: options.newName
+            }))))
+        }
+    }
+
+    /**
+     * The function or method around lines `startLine`-`endLine`. Indexed
+     * symbols are tried first, then headers found scanning upwards.
+     */
+    private findEnclosingFunction(filePath: string, content: string, mask: Uint8Array, startLine: number, blockStart: number, blockEnd: number): EnclosingFunction | null {
+        const lines = content.split('\n')
+        const starts = lineOffsets(content)
+
+        const indexed = symbolService.getFileSymbols(filePath)
+            .filter(s => (s.type === 'method' || s.type === 'function') && s.location.line < startLine)
+            .sort((a, b) => b.location.line - a.location.line)
+            .map(s => s.location.line - 1)
+        const scanned = Array.from({ length: startLine - 1 }, (_, i) => startLine - 2 - i)
+
+        for (const lineIndex of [...indexed, ...scanned]) {
+            const text = lines[lineIndex]
+            const lineStart = starts[lineIndex]
+            if (!text || mask[lineStart + leadingWhitespace(text).length] !== 1) continue
+
+            let kind: EnclosingFunction['kind']
+            let arrow = false
+            if (/^\s*(?:export\s+)?(?:default\s+)?(?:async\s+)?function\b/.test(text)) {
+                kind = 'function'
+            } else if (/^\s*(?:export\s+)?(?:const|let|var)\s+[\w$]+\s*(?::[^=]+)?=\s*(?:async\s*)?\(/.test(text)) {
+                kind = 'function'
+                arrow = true
+            } else if (/^\s*(?:(?:public|private|protected|static|readonly|override)\s+)*[\w$]+\s*(?::[^=]+)?=\s*(?:async\s*)?\(/.test(text)) {
+                kind = 'method'
+                arrow = true
+            } else {
+                const name = /^\s*(?:(?:public|private|protected|static|async|override|get|set)\s+)*\*?([\w$]+)\s*(?:<[^>]*>)?\s*\(/.exec(text)?.[1]
+                if (!name || NOT_A_METHOD.has(name)) continue
+                kind = 'method'
+            }
+
+            const paramsOpen = content.indexOf('(', lineStart + (arrow ? text.indexOf('=') : 0))
+            const paramsClose = paramsOpen === -1 ? -1 : matchBracket(content, mask, paramsOpen)
+            if (paramsClose === -1) continue
+            const afterParams = content.slice(paramsClose + 1)
+            const header = arrow
+                ? /^\s*(?::[^=;{]*)?=>\s*\{/.exec(afterParams)
+                : /^\s*(?::[^;{]*)?\{/.exec(afterParams)
+            if (!header) continue
+
+            const bodyStart = paramsClose + header[0].length
+            const bodyEnd = matchBracket(content, mask, bodyStart)
+            if (bodyStart < blockStart && bodyEnd >= blockEnd) {
+                return {
+                    kind,
+                    headerLine: lineIndex + 1,
+                    isStatic: /^\s*(?:\w+\s+)*static\s/.test(text),
+                    params: content.slice(paramsOpen + 1, paramsClose),
+                    bodyStart,
+                    bodyEnd
+                }
+            }
+        }
+        return null
+    }
+
+    /**
+     * Extract TypeScript or JavaScript lines without a language server.
+     * Variables declared before the selection and used in it become
+     * parameters; one variable declared in it and used later is returned.
+     */
+    private extractWithSymbolGraph(options: ExtractMethodOptions, content: string, languageId: string): string {
+        const mask = codeMask(content, false)
+        const starts = lineOffsets(content)
+        const lines = content.split('\n')
+        const blockStart = starts[options.startLine - 1]
+        const blockEnd = lineEnd(content, starts, options.endLine)
+
+        for (const keyword of ['return', 'break', 'continue', 'yield']) {
+            if (findIdentifier(content, mask, keyword, blockStart, blockEnd).length > 0) {
+                throw new Error(`The selection contains \`${keyword}\`, which cannot move into a separate method`)
+            }
+        }
+        let depth = 0
+        for (let i = blockStart; i < blockEnd && depth >= 0; i++) {
+            if (mask[i] !== 1) continue
+            if ('([{'.includes(content[i])) depth++
+            else if (')]}'.includes(content[i])) depth--
+        }
+        if (depth !== 0) throw new Error('The selection must contain whole statements')
+
+        const enclosing = this.findEnclosingFunction(options.filePath, content, mask, options.startLine, blockStart, blockEnd)
+        if (!enclosing) throw new Error('The selection is not inside a function or method')
+
+        const usesThis = findIdentifier(content, mask, 'this', blockStart, blockEnd).length > 0
+        if (usesThis && enclosing.kind === 'function') {
+            throw new Error('The selection uses `this` outside a class method')
+        }
+
+        // Variables in scope before the selection, with their declared types
+        const declaredBefore = new Map<string, string | undefined>()
+        for (const param of splitTopLevel(enclosing.params)) {
+            const cleaned = param.replace(/^(?:(?:public|private|protected|readonly|override)\s+)+/, '')
+            const colon = topLevelIndex(cleaned, ':')
+            const names = bindingNames(colon === -1 ? cleaned.split('=')[0] : cleaned.slice(0, colon))
+            const type = colon !== -1 && names.length === 1 ? cleaned.slice(colon + 1).split('=')[0].trim() : undefined
+            names.forEach(name => declaredBefore.set(name, type))
+        }
+        const before = content.slice(enclosing.bodyStart, blockStart)
+        for (const match of before.matchAll(DECLARATION)) {
+            if (mask[enclosing.bodyStart + (match.index ?? 0)] !== 1) continue
+            const names = bindingNames(match[2])
+            names.forEach(name => declaredBefore.set(name, names.length === 1 ? match[3]?.trim() : undefined))
+        }
+        for (const match of before.matchAll(/(?:\(([^()]*)\)|([\w$]+))\s*=>|catch\s*\(([^)]*)\)|function\s*[\w$]*\s*\(([^)]*)\)/g)) {
+            if (mask[enclosing.bodyStart + (match.index ?? 0)] !== 1) continue
+            const params = match[1] ?? match[2] ?? match[3] ?? match[4] ?? ''
+            for (const param of splitTopLevel(params)) {
+                bindingNames(param.split(':')[0]).forEach(name => declaredBefore.set(name, undefined))
+            }
+        }
+
+        const used = usedIdentifiers(content, mask, blockStart, blockEnd)
+        const params = Array.from(declaredBefore).filter(([name]) => used.has(name))
+        for (const [name] of params) {
+            for (const offset of findIdentifier(content, mask, name, blockStart, blockEnd)) {
+                const after = content.slice(offset + name.length, offset + name.length + 6)
+                const prior = content.slice(Math.max(blockStart, offset - 2), offset)
+                if (/^\s*(?:\*\*|\?\?|&&|\|\||<<|>>|[-+*/%&|^])?=(?!=)/.test(after) || /^\s*(?:\+\+|--)/.test(after) || /(?:\+\+|--)$/.test(prior)) {
+                    throw new Error(`The selection assigns to \`${name}\`, which is declared outside it`)
+                }
+            }
+        }
+
+        const declaredInBlock: Array<{ name: string; keyword: string }> = []
+        for (const match of content.slice(blockStart, blockEnd).matchAll(DECLARATION)) {
+            if (mask[blockStart + (match.index ?? 0)] !== 1) continue
+            bindingNames(match[2]).forEach(name => declaredInBlock.push({ name, keyword: match[1] }))
+        }
+        const usedAfter = usedIdentifiers(content, mask, blockEnd, enclosing.bodyEnd)
+        const returned = declaredInBlock.filter(d => usedAfter.has(d.name))
+        if (returned.length > 1) {
+            throw new Error(`The selection declares ${returned.map(r => r.name).join(', ')}, which are used after it; only one value can be returned`)
+        }
+
+        const isTs = languageId === 'typescript'
+        const isAsync = findIdentifier(content, mask, 'await', blockStart, blockEnd).length > 0
+        const blockLines = lines.slice(options.startLine - 1, options.endLine).map(l => l.replace(/\r$/, ''))
+        const semi = blockLines.some(l => /;\s*$/.test(l)) ? ';' : ''
+        const eol = content.includes('\r\n') ? '\r\n' : '\n'
+
+        const headerIndent = leadingWhitespace(lines[enclosing.headerLine - 1])
+        const firstBodyLine = lines.slice(enclosing.headerLine).find(l => l.trim()) ?? ''
+        const unit = leadingWhitespace(firstBodyLine).slice(headerIndent.length) || '    '
+        const blockIndent = blockLines.filter(l => l.trim())
+            .map(leadingWhitespace)
+            .reduce((a, b) => (b.length < a.length ? b : a))
+
+        const body = blockLines.map(l => (l.trim() ? headerIndent + unit + l.slice(blockIndent.length) : ''))
+        if (returned.length === 1) body.push(`${headerIndent}${unit}return ${returned[0].name}${semi}`)
+
+        const signature = params.map(([name, type]) => (isTs && type ? `${name}: ${type}` : name)).join(', ')
+        const modifiers = enclosing.kind === 'method'
+            ? `${isTs ? 'private ' : ''}${enclosing.isStatic ? 'static ' : ''}${isAsync ? 'async ' : ''}`
+            : `${isAsync ? 'async ' : ''}function `
+        const declaration = [
+            `${headerIndent}${modifiers}${options.methodName}(${signature}) {`,
+            ...body,
+            `${headerIndent}}`
+        ].join(eol)
+
+        const call = `${isAsync ? 'await ' : ''}${enclosing.kind === 'method' ? 'this.' : ''}${options.methodName}(${params.map(([name]) => name).join(', ')})`
+        const callLine = returned.length === 1
+            ? `${blockIndent}${returned[0].keyword} ${returned[0].name} = ${call}${semi}`
+            : `${blockIndent}${call}${semi}`
+
+        const insertAt = lineEnd(content, starts, lineOffsets(content.slice(0, enclosing.bodyEnd)).length)
+        return applyEdits(content, [
+            { start: blockStart, end: blockEnd, text: callLine },
+            { start: insertAt, end: insertAt, text: `${eol}${eol}${declaration}` }
+        ])
+    }
+
+    /**
+     * Where a top-level declaration starts, including its doc comment and
+     * decorators, and where it ends
+     */
+    private findTopLevelDeclaration(content: string, mask: Uint8Array, name: string) {
+        for (const match of content.matchAll(TOP_LEVEL_DECLARATION)) {
+            const keywordStart = match.index ?? 0
+            if (match[4] !== name || mask[keywordStart] !== 1) continue
+
+            const nameEnd = keywordStart + match[0].length
+            const kind = match[3]
+            let end: number
+            if (kind === 'const' || kind === 'let' || kind === 'var' || kind === 'type') {
+                const equals = content.indexOf('=', nameEnd)
+                end = expressionEnd(content, mask, equals === -1 ? nameEnd : equals + 1, false)
+                if (content[end] === ',') throw new Error(`${name} is declared together with other variables; split the declaration first`)
+            } else {
+                let depth = 0
+                let i = nameEnd
+                for (; i < content.length; i++) {
+                    if (mask[i] !== 1) continue
+                    const ch = content[i]
+                    if (ch === '(' || ch === '<') depth++
+                    else if ((ch === ')' || ch === '>') && content[i - 1] !== '=') depth--
+                    else if (depth === 0 && (ch === '{' || ch === ';')) break
+                }
+                end = content[i] === '{' ? matchBracket(content, mask, i) + 1 : i
+                if (end === 0) throw new Error(`Could not find the end of ${name}`)
+            }
+            if (content[end] === ';') end++
+
+            // Doc comments and decorators directly above belong to the declaration
+            const lines = content.slice(0, keywordStart).split('\n')
+            lines.pop()
+            let start = keywordStart
+            while (lines.length > 0 && /^\s*(?:\/\/|\/\*|\*|@)/.test(lines[lines.length - 1])) {
+                start -= lines.pop()!.length + 1
+            }
+            return { start, keywordStart, end, exported: Boolean(match[1]), isDefault: Boolean(match[2]) }
+        }
+        return null
+    }
+
+    private async moveWithSymbolGraph(options: MoveSymbolOptions, pending: PendingFiles, warnings: string[]): Promise<void> {
+        const { filePath, symbolName, targetFilePath } = options
+        const source = await this.readSource(pending, filePath)
+        const mask = codeMask(source, false)
+        const declaration = this.findTopLevelDeclaration(source, mask, symbolName)
+        if (!declaration) throw new Error(`${baseName(filePath)} has no top-level declaration of ${symbolName}`)
+        if (declaration.isDefault) throw new Error('Moving a default export is not supported')
+
+        const target = await pending.read(targetFilePath)
+        if (target !== null && this.findTopLevelDeclaration(target, codeMask(target, false), symbolName)) {
+            throw new Error(`${baseName(targetFilePath)} already declares ${symbolName}`)
+        }
+
+        const moved = source.slice(declaration.start, declaration.keywordStart) +
+            (declaration.exported ? '' : 'export ') +
+            source.slice(declaration.keywordStart, declaration.end)
+
+        // Imports and same-file declarations the moved code depends on
+        const movedMask = codeMask(moved, false)
+        const needed = usedIdentifiers(moved, movedMask, 0, moved.length)
+        needed.delete(symbolName)
+        const requirements: ImportRequirement[] = []
+        const sourceImports = parseImports(source)
+        for (const statement of sourceImports) {
+            const resolved = resolveSpecifier(filePath, statement.specifier)
+            const specifier = resolved ? relativeSpecifier(targetFilePath, resolved) : statement.specifier
+            if (isModule(resolved, targetFilePath)) continue
+            if (statement.defaultName && needed.has(statement.defaultName)) {
+                requirements.push({ specifier, kind: 'default', name: 'default', local: statement.defaultName, typeOnly: statement.typeOnly })
+            }
+            if (statement.namespace && needed.has(statement.namespace)) {
+                requirements.push({ specifier, kind: 'namespace', name: '*', local: statement.namespace, typeOnly: statement.typeOnly })
+            }
+            for (const named of statement.named.filter(n => needed.has(n.local))) {
+                requirements.push({ specifier, kind: 'named', name: named.name, local: named.local, typeOnly: statement.typeOnly || named.typeOnly })
+            }
+        }
+        for (const match of source.matchAll(TOP_LEVEL_DECLARATION)) {
+            const name = match[4]
+            if (name === symbolName || !needed.has(name) || mask[match.index ?? 0] !== 1) continue
+            if (!match[1] || match[2]) {
+                throw new Error(`${symbolName} depends on ${name}, which is not a named export of ${baseName(filePath)}; export or move it first`)
+            }
+            requirements.push({ specifier: relativeSpecifier(targetFilePath, filePath), kind: 'named', name, local: name, typeOnly: false })
+        }
+
+        const targetDeclared = new Set(Array.from((target ?? '').matchAll(TOP_LEVEL_DECLARATION), m => m[4]))
+        const targetImported = new Set(parseImports(target ?? '').flatMap(s => [s.defaultName, s.namespace, ...s.named.map(n => n.local)]))
+        const targetRequirements = requirements.filter(r => !targetDeclared.has(r.local) && !targetImported.has(r.local))
+        const base = addImports((target ?? '').trimEnd(), targetRequirements, source).trimEnd()
+        pending.write(targetFilePath, `${base}${base ? '\n\n' : ''}${moved.trim()}\n`)
+
+        // Remove the declaration, the blank line after it and imports only it used
+        let removeEnd = declaration.end
+        if (source[removeEnd] === '\r') removeEnd++
+        if (source[removeEnd] === '\n') removeEnd++
+        if (/^\r?\n/.test(source.slice(removeEnd)) && /(?:^|\n)\r?\n$|^$/.test(source.slice(0, declaration.start))) {
+            removeEnd += source[removeEnd] === '\r' ? 2 : 1
+        }
+        let remaining = source.slice(0, declaration.start) + source.slice(removeEnd)
+        const remainingMask = codeMask(remaining, false)
+        const remainingImports = parseImports(remaining)
+        const stillUsed = (local: string) => findIdentifier(remaining, remainingMask, local)
+            .some(offset => !remainingImports.some(s => offset >= s.start && offset < s.end))
+        const unused = requirements.filter(r => !stillUsed(r.local))
+        remaining = applyEdits(remaining, remainingImports.flatMap(statement => {
+            const locals = [statement.defaultName, statement.namespace, ...statement.named.map(n => n.local)]
+                .filter((local): local is string => Boolean(local) && unused.some(r => r.local === local))
+            return locals.length > 0 ? [removeImportBindings(remaining, statement, locals)] : []
+        }))
+        if (stillUsed(symbolName)) {
+            remaining = addImports(remaining, [{
+                specifier: relativeSpecifier(filePath, targetFilePath), kind: 'named', name: symbolName, local: symbolName, typeOnly: false
+            }], source)
+        }
+        pending.write(filePath, remaining)
+
+        // Point the files that import the symbol at its new home
+        const symbol = symbolService.findSymbolAt(filePath, symbolName)
+        if (!symbol) {
+            warnings.push(`${symbolName} is not in the symbol index, so files importing it were not updated`)
+            return
+        }
+        const importers = new Set([
+            ...symbolService.analyzeImpact(symbol.id).files,
+            ...symbolService.findReferences(symbol.id).map(ref => ref.relationship.filePath)
+        ])
+        for (const importer of importers) {
+            if (samePath(importer, filePath) || !isScript(languageIdOf(importer))) continue
+            const content = await pending.read(importer)
+            if (content === null) continue
+
+            const statements = parseImports(content)
+                .filter(s => isModule(resolveSpecifier(importer, s.specifier), filePath))
+            const edits: TextEdit[] = []
+            const added: ImportRequirement[] = []
+            for (const statement of statements) {
+                const named = statement.named.find(n => n.name === symbolName)
+                if (statement.namespace && findIdentifier(content, codeMask(content, false), statement.namespace)
+                    .some(offset => content.startsWith(`.${symbolName}`, offset + statement.namespace!.length))) {
+                    warnings.push(`${baseName(importer)} uses ${symbolName} through a namespace import; update it by hand`)
+                }
+                if (!named) continue
+                edits.push(removeImportBindings(content, statement, [named.local]))
+                if (!samePath(importer, targetFilePath)) {
+                    added.push({
+                        specifier: relativeSpecifier(importer, targetFilePath),
+                        kind: 'named',
+                        name: symbolName,
+                        local: named.local,
+                        typeOnly: statement.typeOnly || named.typeOnly
+                    })
+                }
+            }
+            if (edits.length > 0) {
+                pending.write(importer, addImports(applyEdits(content, edits), added, content))
+            }
+        }
+    }
+
+    /**
+     * Inline a variable without a language server: replace its uses in the
+     * rest of its scope with the initializer and drop the declaration.
+     */
+    private inlineWithText(options: InlineVariableOptions, content: string, languageId: string): string {
+        const python = languageId === 'python'
+        const name = options.variableName
+        const mask = codeMask(content, python)
+        const starts = lineOffsets(content)
+        if (options.line > starts.length) throw new Error(`Line ${options.line} is past the end of the file`)
+
+        const pattern = python
+            ? new RegExp(`^\\s*${escapeRegExp(name)}(?![\\w$])\\s*(?::[^=]+)?=(?!=)\\s*`)
+            : new RegExp(`\\b(?:const|let|var)\\s+${escapeRegExp(name)}(?![\\w$])\\s*(?::[^=]+)?=(?![=>])\\s*`)
+
+        // The declaration is on the given line, or it is a use and the declaration is above
+        let match: RegExpExecArray | null = null
+        let lineStart = 0
+        let lineText = ''
+        for (let line = options.line; line >= 1 && !match; line--) {
+            lineStart = starts[line - 1]
+            lineText = content.slice(lineStart, lineEnd(content, starts, line))
+            match = pattern.exec(lineText)
+            if (match && mask[lineStart + match.index + leadingWhitespace(match[0]).length] !== 1) match = null
+        }
+        if (!match) throw new Error(`No declaration of ${name} with a value at or above line ${options.line}`)
+        if (!python && /^\s*export\b/.test(lineText)) throw new Error('Exported variables cannot be inlined')
+
+        const declStart = lineStart + match.index + (python ? leadingWhitespace(match[0]).length : 0)
+        const initStart = lineStart + match.index + match[0].length
+        const initEnd = expressionEnd(content, mask, initStart, python)
+        if (content[initEnd] === ',') throw new Error(`${name} is declared together with other variables; split the declaration first`)
+        const initializer = content.slice(initStart, initEnd).trim()
+        if (!initializer) throw new Error(`${name} has no initializer`)
+        const declEnd = content[initEnd] === ';' ? initEnd + 1 : initEnd
+
+        // The variable's scope ends with its block, or its indentation in Python
+        let scopeEnd = content.length
+        if (python) {
+            const indent = leadingWhitespace(lineText).length
+            const nextLine = starts.findIndex(start => start > declEnd)
+            for (let line = nextLine; line !== -1 && line < starts.length; line++) {
+                const text = content.slice(starts[line], lineEnd(content, starts, line + 1))
+                if (text.trim() && !text.trim().startsWith('#') && leadingWhitespace(text).length < indent) {
+                    scopeEnd = starts[line]
+                    break
+                }
+            }
+        } else {
+            let depth = 0
+            for (let i = declEnd; i < content.length; i++) {
+                if (mask[i] !== 1) continue
+                if ('([{'.includes(content[i])) depth++
+                else if (')]}'.includes(content[i]) && --depth < 0) {
+                    scopeEnd = i
+                    break
+                }
+            }
+        }
+
+        const replacement = needsParens(initializer, python) ? `(${initializer})` : initializer
+        const edits: TextEdit[] = []
+        for (const offset of findIdentifier(content, mask, name, declEnd, scopeEnd)) {
+            if (isMemberAccess(content, offset)) continue
+            const after = content.slice(offset + name.length, offset + name.length + 6)
+            const prior = content.slice(Math.max(0, offset - 12), offset)
+            const bracket = enclosingBracket(content, mask, offset)
+            const previous = content.slice(0, offset).trimEnd().slice(-1)
+            const next = content.slice(offset + name.length).trimStart()[0]
+
+            // Object keys and keyword arguments are not uses of the variable
+            if (!python && bracket === '{' && (previous === '{' || previous === ',') && next === ':') continue
+            if (python && bracket === '(' && /^\s*=(?!=)/.test(after)) continue
+
+            if (/\b(?:const|let|var|function|class|def|for)\s+$/.test(prior)) {
+                throw new Error(`${name} is declared again in its scope, so it cannot be inlined`)
+            }
+            if (/^\s*(?:\*\*|\?\?|&&|\|\||<<|>>|\/\/|[-+*/%&|^])?=(?!=)/.test(after) || /^\s*(?:\+\+|--)/.test(after) || /(?:\+\+|--)\s*$/.test(prior)) {
+                throw new Error(`${name} is reassigned, so it cannot be inlined`)
+            }
+
+            const shorthand = !python && bracket === '{' && (previous === '{' || previous === ',') && (next === '}' || next === ',')
+            edits.push({ start: offset, end: offset + name.length, text: shorthand ? `${name}: ${initializer}` : replacement })
+        }
+        if (edits.length === 0) throw new Error(`${name} is not used after its declaration`)
+
+        if (options.replaceAll === false) return applyEdits(content, edits.slice(0, 1))
+
+        // Drop the whole line when the declaration is all that is on it
+        const declLine = lineIndexAt(starts, declEnd)
+        const declLineEnd = lineEnd(content, starts, declLine + 1)
+        const ownsLines = !content.slice(lineStart, declStart).trim() && !content.slice(declEnd, declLineEnd).trim()
+        const removal = ownsLines
+            ? { start: lineStart, end: declLine + 1 < starts.length ? starts[declLine + 1] : content.length, text: '' }
+            : { start: declStart, end: declEnd, text: '' }
+        return applyEdits(content, [...edits, removal])
     }
 }
 
@@ -174,8 +174,12 @@ class ShadowWorkspaceService {
     /**
      * Validate a file after it was modified by the agent.
      * Returns structured diagnostic errors if any.
+     *
+     * Pass `content` to validate edits that are staged but not yet on disk.
+     * Project-wide checkers (tsc, cargo, go vet) only see the disk, so without
+     * a language server staged content is checked by single-file checkers only.
      */
-    async validateFile(filePath: string, workspacePath: string): Promise<ValidationResult | null> {
+    async validateFile(filePath: string, workspacePath: string, content?: string): Promise<ValidationResult | null> {
         if (!this.validationEnabled) return null
 
         const language = detectLanguage(filePath)
@@ -191,9 +195,13 @@ class ShadowWorkspaceService {
 
         try {
             // Try LSP first (faster, more accurate)
-            const lspResult = await this.validateViaLSP(filePath, language, workspacePath)
+            const lspResult = await this.validateViaLSP(filePath, language, workspacePath, content)
             if (lspResult) return lspResult
 
+            if (content !== undefined) {
+                return await this.validateStagedViaCommand(filePath, content, language, workspacePath, startTime)
+            }
+
             // Fall back to running compiler/linter via terminal
             return await this.validateViaCommand(command, language, workspacePath, startTime)
         } catch (err) {
@@ -208,7 +216,8 @@ class ShadowWorkspaceService {
     private async validateViaLSP(
         filePath: string,
         language: string,
-        workspacePath: string
+        workspacePath: string,
+        stagedContent?: string
     ): Promise<ValidationResult | null> {
         const electronAPI = globalThis.window?.electronAPI as any
         if (!electronAPI?.runtime?.sendLSPRequest) return null
@@ -233,7 +242,7 @@ class ShadowWorkspaceService {
                     }
                     
                     // Open the document in the language server
-                    const content = await this.readFileContent(filePath)
+                    const content = stagedContent ?? await this.readFileContent(filePath)
                     if (content !== null) {
                         await electronAPI.runtime.sendLSPRequest(
                             sessionId,
@@ -261,7 +270,7 @@ class ShadowWorkspaceService {
             const startTime = Date.now()
             
             // Update document content
-            const content = await this.readFileContent(filePath)
+            const content = stagedContent ?? await this.readFileContent(filePath)
             if (content !== null) {
                 await electronAPI.runtime.sendLSPRequest(
                     sessionId,
@@ -403,6 +412,43 @@ class ShadowWorkspaceService {
         }
     }
 
+    /**
+     * Validate staged content by checking a temp copy outside the workspace,
+     * for languages whose checker works on a single file
+     */
+    private async validateStagedViaCommand(
+        filePath: string,
+        content: string,
+        language: string,
+        workspacePath: string,
+        startTime: number
+    ): Promise<ValidationResult | null> {
+        if (language !== 'javascript' && language !== 'python') return null
+
+        const electronAPI = globalThis.window?.electronAPI as any
+        if (!electronAPI?.fs?.writeShadowCopy) return null
+
+        // Every copy gets its own directory, so files validated at once never share a path
+        const written = await electronAPI.fs.writeShadowCopy({ path: filePath, content })
+        if (!written?.success) return null
+        const shadowPath: string = written.shadowPath
+
+        try {
+            const command = getDiagnosticCommand(language, shadowPath, workspacePath)
+            if (!command) return null
+
+            const result = await this.validateViaCommand(command, language, workspacePath, startTime)
+            // Report errors against the real file, not the shadow copy
+            return {
+                ...result,
+                errors: result.errors.map(e => ({ ...e, file: filePath })),
+                rawOutput: result.rawOutput?.replaceAll(shadowPath, filePath)
+            }
+        } finally {
+            await electronAPI.fs.removeShadowCopy(shadowPath).catch(() => { /* best effort */ })
+        }
+    }
+
     /**
      * Register an active LSP session for faster diagnostics
      */
@@ -25,6 +25,7 @@ export type SymbolType =
     | 'parameter'
     | 'import'
     | 'export'
+    | 'module'
 
 export type RelationshipType =
     | 'extends'
@@ -87,6 +88,72 @@ export interface SymbolGraph {
     byName: Map<string, Set<string>>   // name -> symbolIds
 }
 
+/**
+ * What a parser found in one file, before names are resolved across files.
+ * Lines are 1-based and columns 0-based, for the name of each entry.
+ */
+export interface SymbolExtraction {
+    language: string
+    definitions: ExtractedDefinition[]
+    references: ExtractedReference[]
+    imports: ExtractedImport[]
+    inheritance: ExtractedInheritance[]
+}
+
+export interface ExtractedDefinition {
+    name: string
+    type: SymbolType
+    line: number
+    column: number
+    endLine: number
+    endColumn: number
+    // Class, interface, struct or impl the definition is a member of
+    container?: string
+    signature: string
+    documentation?: string
+    isExported: boolean
+    isDefault: boolean
+    isAsync: boolean
+    isStatic: boolean
+    isAbstract: boolean
+    visibility: 'public' | 'private' | 'protected'
+}
+
+export interface ExtractedReference {
+    name: string
+    line: number
+    column: number
+    kind: 'call' | 'reference'
+    // Set for member accesses: the object's name, or '' when it is not a plain name
+    receiver?: string
+    // The object is this/self, so the member belongs to the enclosing class
+    onSelf?: boolean
+}
+
+export interface ExtractedImport {
+    // Module specifier, dotted module or package path as written
+    source: string
+    // Exported name, 'default', or '*' for a namespace (or wildcard when local is also '*')
+    imported: string
+    local: string
+    line: number
+    column: number
+}
+
+export interface ExtractedInheritance {
+    name: string
+    parent: string
+    kind: 'extends' | 'implements'
+    line: number
+    column: number
+}
+
+export interface CallHierarchyItem {
+    symbol: Symbol
+    // Where the calls are made, in the caller's file
+    calls: Array<{ filePath: string; line: number; column: number }>
+}
+
 export interface ImpactAnalysis {
     direct: Symbol[]
     indirect: Symbol[]
@@ -104,6 +171,60 @@ export interface RefactorOperation {
     }>
 }
 
+/** The symbols of one extracted file, looked up by name while resolving references */
+interface FileScope {
+    module: Symbol
+    definitions: Symbol[]
+    topLevel: Map<string, Symbol>
+    // container name -> member name -> symbol
+    members: Map<string, Map<string, Symbol>>
+    // symbol id -> name of the class, struct or impl it belongs to
+    containers: Map<string, string>
+    defaultExport?: Symbol
+    // Names this file uses, to find the files a change may affect
+    referencedNames: Set<string>
+}
+
+interface ExtractedFile {
+    extraction: SymbolExtraction
+    scope: FileScope
+    // Files this one imports from, as last resolved
+    importedFiles: Set<string>
+}
+
+// What a name imported into a file stands for
+interface ImportBinding {
+    targets: Symbol[]
+    // Files of a namespace import
+    files: string[]
+    namespace: boolean
+}
+
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.d.ts', '.js', '.jsx', '.mjs', '.cjs']
+const TYPE_LIKE = new Set<SymbolType>(['class', 'interface', 'enum', 'type'])
+
+function normalizeSlashes(filePath: string): string {
+    return filePath.replace(/\\/g, '/')
+}
+
+function dirnameOf(filePath: string): string {
+    const index = filePath.lastIndexOf('/')
+    return index >= 0 ? filePath.slice(0, index) : ''
+}
+
+function joinPath(dir: string, relative: string): string {
+    const parts = dir.split('/')
+    for (const part of relative.split('/')) {
+        if (part === '..') parts.pop()
+        else if (part && part !== '.') parts.push(part)
+    }
+    return parts.join('/')
+}
+
+function isDefined<T>(value: T | undefined): value is T {
+    return value !== undefined
+}
+
 class SymbolService {
     private graph: SymbolGraph = {
         symbols: new Map(),
@@ -112,13 +233,16 @@ class SymbolService {
         byName: new Map()
     }
     private indexVersion = 0
+    // Extracted files by path, and their paths by normalized path for module resolution
+    private files = new Map<string, ExtractedFile>()
+    private normalizedFiles = new Map<string, string>()
 
     /**
      * Index a file's symbols
      */
     indexFile(filePath: string, symbols: Symbol[], relationships: SymbolRelationship[]): void {
         // Remove existing symbols for this file
-        this.removeFile(filePath)
+        this.dropFile(filePath)
 
         // Add new symbols
         for (const symbol of symbols) {
@@ -308,6 +432,54 @@ class SymbolService {
         }
     }
 
+    /**
+     * The symbol called `name` in a file: the one declared on `line`, the one
+     * a use on `line` points to, or else the nearest declaration.
+     */
+    findSymbolAt(filePath: string, name: string, line?: number): Symbol | undefined {
+        const candidates = this.getFileSymbols(filePath)
+            .filter(s => s.name === name && s.type !== 'import' && s.type !== 'module')
+
+        if (line !== undefined) {
+            const declared = candidates.find(s => s.location.line === line)
+            if (declared) return declared
+
+            for (const rel of this.graph.relationships.values()) {
+                if (rel.filePath !== filePath || rel.location?.line !== line || rel.type === 'contains') continue
+                const target = this.graph.symbols.get(rel.targetId)
+                if (target?.name === name) return target
+            }
+        }
+
+        const distance = (s: Symbol) => {
+            if (line === undefined) return 0
+            if (line >= s.location.line && line <= s.location.endLine) return 0
+            return Math.min(Math.abs(line - s.location.line), Math.abs(line - s.location.endLine))
+        }
+        return candidates.sort((a, b) => distance(a) - distance(b))[0]
+    }
+
+    /**
+     * Callers of a symbol (incoming) or the symbols it calls (outgoing),
+     * each with the places the calls are made.
+     */
+    getCallHierarchy(symbolId: string, direction: 'incoming' | 'outgoing'): CallHierarchyItem[] {
+        const items = new Map<string, CallHierarchyItem>()
+
+        for (const rel of this.getRelationships(symbolId, direction)) {
+            if (rel.type !== 'calls') continue
+            const otherId = direction === 'incoming' ? rel.sourceId : rel.targetId
+            const symbol = this.graph.symbols.get(otherId)
+            if (!symbol) continue
+
+            const item = items.get(otherId) ?? { symbol, calls: [] }
+            if (rel.location) item.calls.push({ filePath: rel.filePath, ...rel.location })
+            items.set(otherId, item)
+        }
+
+        return Array.from(items.values())
+    }
+
     /**
      * Find all references to a symbol
      */
@@ -319,7 +491,7 @@ class SymbolService {
         const rels = this.getRelationships(symbolId, 'incoming')
         
         for (const rel of rels) {
-            if (rel.type === 'references' || rel.type === 'calls') {
+            if (rel.type === 'references' || rel.type === 'calls' || rel.type === 'imports') {
                 const sym = this.graph.symbols.get(rel.sourceId)
                 if (sym) {
                     refs.push({ symbol: sym, relationship: rel })
@@ -373,14 +545,95 @@ class SymbolService {
     }
 
     /**
-     * Remove a file and all its symbols
+     * Remove a file and all its symbols, then re-resolve the files that
+     * referred to them
      */
     removeFile(filePath: string): void {
+        const entry = this.files.get(filePath)
+        this.dropFile(filePath)
+        if (!entry) return
+
+        this.files.delete(filePath)
+        this.normalizedFiles.delete(normalizeSlashes(filePath))
+        const names = new Set(entry.scope.definitions.map(s => s.name))
+        for (const path of this.dependentsOf(filePath, names)) {
+            this.resolveFile(path)
+        }
+    }
+
+    /**
+     * Replace a file's part of the graph with a new extraction and re-resolve
+     * the files whose references may point into it.
+     */
+    updateFile(filePath: string, extraction: SymbolExtraction): void {
+        const previous = this.files.get(filePath)
+        const names = new Set(previous?.scope.definitions.map(s => s.name) ?? [])
+        const createdAt = new Map(this.getFileSymbols(filePath).map(s => [s.id, s.createdAt]))
+
+        this.dropFile(filePath)
+        const scope = this.createScope(filePath, extraction, createdAt)
+        this.files.set(filePath, { extraction, scope, importedFiles: new Set() })
+        this.normalizedFiles.set(normalizeSlashes(filePath), filePath)
+        for (const symbol of [scope.module, ...scope.definitions]) {
+            this.addSymbol(symbol)
+            names.add(symbol.name)
+        }
+
+        const dependents = this.dependentsOf(filePath, names)
+        for (const path of [filePath, ...dependents]) {
+            this.resolveFile(path)
+        }
+        this.indexVersion++
+
+        logger.agent.debug('Symbol graph updated', {
+            filePath,
+            symbolCount: scope.definitions.length,
+            dependents: dependents.length
+        })
+    }
+
+    /**
+     * Rebuild the whole graph from extracted files, e.g. a persisted index
+     */
+    loadExtractions(entries: Array<{ path: string; extraction: SymbolExtraction }>): void {
+        this.clear()
+
+        for (const { path, extraction } of entries) {
+            const scope = this.createScope(path, extraction, new Map())
+            this.files.set(path, { extraction, scope, importedFiles: new Set() })
+            this.normalizedFiles.set(normalizeSlashes(path), path)
+            for (const symbol of [scope.module, ...scope.definitions]) {
+                this.addSymbol(symbol)
+            }
+        }
+        for (const { path } of entries) {
+            this.resolveFile(path, false)
+        }
+        this.indexVersion++
+
+        logger.agent.info('Symbol graph loaded', {
+            fileCount: entries.length,
+            symbolCount: this.graph.symbols.size,
+            relationshipCount: this.graph.relationships.size
+        })
+    }
+
+    /**
+     * Remove a file's symbols and every relationship touching them
+     */
+    private dropFile(filePath: string): void {
         const symbolIds = this.graph.byFile.get(filePath)
         if (!symbolIds) return
 
         for (const id of symbolIds) {
-            this.removeSymbol(id)
+            const symbol = this.graph.symbols.get(id)
+            if (symbol) this.graph.byName.get(symbol.name)?.delete(id)
+            this.graph.symbols.delete(id)
+        }
+        for (const [id, rel] of this.graph.relationships) {
+            if (symbolIds.has(rel.sourceId) || symbolIds.has(rel.targetId)) {
+                this.graph.relationships.delete(id)
+            }
         }
 
         this.graph.byFile.delete(filePath)
@@ -389,6 +642,326 @@ class SymbolService {
         logger.agent.debug('File removed from index', { filePath })
     }
 
+    private createScope(filePath: string, extraction: SymbolExtraction, createdAt: Map<string, number>): FileScope {
+        const now = Date.now()
+        const symbol = (id: string, fields: Partial<Symbol> & Pick<Symbol, 'name' | 'type' | 'location'>): Symbol => ({
+            id,
+            filePath,
+            isExported: false,
+            isAsync: false,
+            isStatic: false,
+            isAbstract: false,
+            isPrivate: false,
+            isProtected: false,
+            visibility: 'public',
+            language: extraction.language,
+            createdAt: createdAt.get(id) ?? now,
+            modifiedAt: now,
+            ...fields
+        })
+
+        const lastLine = [...extraction.definitions.map(d => d.endLine), ...extraction.references.map(r => r.line)]
+            .reduce((max, line) => Math.max(max, line), 1)
+        const scope: FileScope = {
+            module: symbol(`${filePath}#`, {
+                name: normalizeSlashes(filePath).split('/').pop() || filePath,
+                type: 'module',
+                location: { line: 1, column: 0, endLine: lastLine, endColumn: 0 }
+            }),
+            definitions: [],
+            topLevel: new Map(),
+            members: new Map(),
+            containers: new Map(),
+            referencedNames: new Set()
+        }
+
+        for (const def of extraction.definitions) {
+            let id = `${filePath}#${def.container ? `${def.container}.` : ''}${def.name}`
+            // Overloads and redeclarations keep distinct ids
+            if (this.graph.symbols.has(id) || scope.definitions.some(s => s.id === id)) id = `${id}@${def.line}`
+
+            const defined = symbol(id, {
+                name: def.name,
+                type: def.type,
+                location: { line: def.line, column: def.column, endLine: def.endLine, endColumn: def.endColumn },
+                signature: def.signature,
+                documentation: def.documentation,
+                isExported: def.isExported,
+                isAsync: def.isAsync,
+                isStatic: def.isStatic,
+                isAbstract: def.isAbstract,
+                isPrivate: def.visibility === 'private',
+                isProtected: def.visibility === 'protected',
+                visibility: def.visibility
+            })
+            scope.definitions.push(defined)
+
+            if (def.container) {
+                scope.containers.set(id, def.container)
+                if (!scope.members.has(def.container)) scope.members.set(def.container, new Map())
+                if (!scope.members.get(def.container)!.has(def.name)) scope.members.get(def.container)!.set(def.name, defined)
+            } else if (!scope.topLevel.has(def.name)) {
+                scope.topLevel.set(def.name, defined)
+            }
+            if (def.isDefault) scope.defaultExport = defined
+        }
+
+        for (const ref of extraction.references) {
+            scope.referencedNames.add(ref.name)
+            if (ref.receiver) scope.referencedNames.add(ref.receiver)
+        }
+        for (const imp of extraction.imports) scope.referencedNames.add(imp.imported)
+        for (const inh of extraction.inheritance) scope.referencedNames.add(inh.parent)
+
+        return scope
+    }
+
+    /** Files whose resolved references could change when `filePath` declares `names` */
+    private dependentsOf(filePath: string, names: Set<string>): string[] {
+        const dependents: string[] = []
+        for (const [path, entry] of this.files) {
+            if (path === filePath) continue
+            if (entry.importedFiles.has(filePath) || Array.from(names).some(name => entry.scope.referencedNames.has(name))) {
+                dependents.push(path)
+            }
+        }
+        return dependents
+    }
+
+    /**
+     * Turn a file's references, imports and inheritance into relationships
+     * with the symbols they name, replacing the ones resolved before.
+     */
+    private resolveFile(filePath: string, replace = true): void {
+        const entry = this.files.get(filePath)
+        if (!entry) return
+        const { extraction, scope } = entry
+        const language = extraction.language
+
+        if (replace) {
+            for (const [id, rel] of this.graph.relationships) {
+                if (rel.filePath === filePath) this.graph.relationships.delete(id)
+            }
+        }
+
+        const relationships: SymbolRelationship[] = []
+        const add = (
+            type: RelationshipType,
+            source: Symbol,
+            target: Symbol,
+            location?: { line: number; column: number },
+            metadata?: Record<string, unknown>
+        ) => {
+            relationships.push({
+                id: `${filePath}:${type}:${location ? `${location.line}:${location.column}` : source.id}:${target.id}`,
+                sourceId: source.id,
+                targetId: target.id,
+                type,
+                filePath,
+                location,
+                metadata
+            })
+        }
+
+        const bindings = new Map<string, ImportBinding>()
+        const wildcardFiles: string[] = []
+        entry.importedFiles = new Set()
+        for (const imp of extraction.imports) {
+            const files = this.resolveModule(filePath, imp.source, language)
+            files.forEach(file => entry.importedFiles.add(file))
+            const location = { line: imp.line, column: imp.column }
+
+            if (imp.imported === '*') {
+                const modules = files.map(file => this.files.get(file)!.scope.module)
+                if (imp.local === '*') wildcardFiles.push(...files)
+                else bindings.set(imp.local, { targets: modules, files, namespace: true })
+                modules.forEach(module => add('imports', scope.module, module, location))
+                continue
+            }
+
+            let targets = files
+                .map(file => {
+                    const target = this.files.get(file)!.scope
+                    return imp.imported === 'default' ? target.defaultExport : target.topLevel.get(imp.imported)
+                })
+                .filter(isDefined)
+            // Rust module paths rarely map onto files, so fall back to a unique name
+            if (targets.length === 0 && language === 'rust') targets = this.findUnique(imp.imported, language)
+
+            // Bound even when unresolved, so the name is not mistaken for another file's symbol
+            bindings.set(imp.local, { targets, files: [], namespace: false })
+            for (const target of targets) {
+                // A default import may bind another name than the export's
+                const alias = imp.imported === 'default' && imp.local !== target.name ? imp.local : undefined
+                add('imports', scope.module, target, location, alias ? { alias } : undefined)
+            }
+        }
+
+        const resolveName = (name: string): Symbol[] => {
+            const local = scope.topLevel.get(name)
+            if (local) return [local]
+            const binding = bindings.get(name)
+            if (binding) return binding.targets
+            for (const file of wildcardFiles) {
+                const target = this.files.get(file)?.scope.topLevel.get(name)
+                if (target) return [target]
+            }
+            // Go packages span the files of a directory; Rust modules are matched by name
+            if (language === 'go') return this.findInPackage(filePath, name)
+            if (language === 'rust') return this.findUnique(name, language)
+            return []
+        }
+        const memberOf = (container: Symbol, name: string): Symbol[] => {
+            const member = this.files.get(container.filePath)?.scope.members.get(container.name)?.get(name)
+                ?? scope.members.get(container.name)?.get(name)
+            return member ? [member] : []
+        }
+        const resolveMember = (receiver: string, name: string): Symbol[] => {
+            const binding = bindings.get(receiver)
+            if (binding?.namespace) {
+                return binding.files.map(file => this.files.get(file)?.scope.topLevel.get(name)).filter(isDefined)
+            }
+            return resolveName(receiver)
+                .filter(target => TYPE_LIKE.has(target.type))
+                .flatMap(target => memberOf(target, name))
+        }
+
+        for (const ref of extraction.references) {
+            const location = { line: ref.line, column: ref.column }
+            const source = this.enclosingSymbol(scope, ref.line, ref.column) ?? scope.module
+
+            let targets: Symbol[]
+            if (ref.onSelf) {
+                const containerName = scope.containers.get(source.id) ?? (TYPE_LIKE.has(source.type) ? source.name : undefined)
+                const member = containerName ? scope.members.get(containerName)?.get(ref.name) : undefined
+                // Members not declared in the class itself come from its base classes
+                targets = member
+                    ? [member]
+                    : extraction.inheritance
+                        .filter(inh => inh.name === containerName)
+                        .flatMap(inh => resolveName(inh.parent).flatMap(parent => memberOf(parent, ref.name)))
+            } else if (ref.receiver !== undefined) {
+                targets = ref.receiver ? resolveMember(ref.receiver, ref.name) : []
+            } else {
+                targets = resolveName(ref.name)
+            }
+
+            for (const target of targets) {
+                // Uses of an import alias do not spell the symbol's name
+                const alias = target.name !== ref.name ? ref.name : undefined
+                add(ref.kind === 'call' ? 'calls' : 'references', source, target, location, alias ? { alias } : undefined)
+            }
+        }
+
+        for (const inh of extraction.inheritance) {
+            const child = scope.topLevel.get(inh.name) ?? resolveName(inh.name)[0]
+            const parent = resolveName(inh.parent)[0]
+                ?? this.findUnique(inh.parent, language).find(s => TYPE_LIKE.has(s.type))
+            if (child && parent) add(inh.kind, child, parent, { line: inh.line, column: inh.column })
+        }
+
+        for (const [id, containerName] of scope.containers) {
+            const member = this.graph.symbols.get(id)
+            const container = scope.topLevel.get(containerName) ?? (language === 'rust' ? resolveName(containerName)[0] : undefined)
+            if (member && container) add('contains', container, member)
+        }
+
+        for (const rel of relationships) {
+            this.addRelationship(rel)
+        }
+    }
+
+    /** The innermost definition of a file around a position */
+    private enclosingSymbol(scope: FileScope, line: number, column: number): Symbol | undefined {
+        let innermost: Symbol | undefined
+        for (const s of scope.definitions) {
+            const { location } = s
+            const afterStart = line > location.line || (line === location.line && column >= location.column)
+            const beforeEnd = line < location.endLine || (line === location.endLine && column <= location.endColumn)
+            if (!afterStart || !beforeEnd) continue
+            if (!innermost
+                || location.line > innermost.location.line
+                || (location.line === innermost.location.line && location.column > innermost.location.column)) {
+                innermost = s
+            }
+        }
+        return innermost
+    }
+
+    /** Extracted files a module specifier, dotted module or package path refers to */
+    private resolveModule(fromPath: string, source: string, language: string): string[] {
+        const dir = dirnameOf(normalizeSlashes(fromPath))
+        const known = (candidates: string[]) => Array.from(
+            new Set(candidates.map(candidate => this.normalizedFiles.get(candidate)).filter(isDefined))
+        )
+        const withSuffix = (suffixes: string[]) => Array.from(this.normalizedFiles)
+            .filter(([normalized]) => suffixes.some(suffix => normalized.endsWith(suffix)))
+            .map(([, path]) => path)
+
+        if (language === 'typescript' || language === 'javascript') {
+            // Packages and path aliases are outside the graph
+            if (!source.startsWith('.')) return []
+            const base = joinPath(dir, source)
+            const stem = base.replace(/\.(?:js|jsx|mjs|cjs)$/, '')
+            return known([
+                base,
+                ...SCRIPT_EXTENSIONS.map(ext => `${stem}${ext}`),
+                ...SCRIPT_EXTENSIONS.map(ext => `${base}/index${ext}`)
+            ])
+        }
+
+        if (language === 'python') {
+            const dots = /^\.*/.exec(source)![0].length
+            const modulePath = source.slice(dots).split('.').filter(Boolean).join('/')
+            if (dots === 0) return withSuffix([`/${modulePath}.py`, `/${modulePath}.pyi`, `/${modulePath}/__init__.py`])
+
+            let base = dir
+            for (let i = 1; i < dots; i++) base = dirnameOf(base)
+            const target = modulePath ? `${base}/${modulePath}` : base
+            return known([`${target}.py`, `${target}.pyi`, `${target}/__init__.py`])
+        }
+
+        if (language === 'go') {
+            // Import paths carry the module prefix; match their tail against package directories
+            const segments = source.split('/')
+            for (let count = Math.min(segments.length, 3); count >= 1; count--) {
+                const suffix = `/${segments.slice(-count).join('/')}`
+                const files = Array.from(this.normalizedFiles)
+                    .filter(([normalized]) => normalized.endsWith('.go') && dirnameOf(normalized).endsWith(suffix))
+                    .map(([, path]) => path)
+                if (files.length > 0) return files
+            }
+            return []
+        }
+
+        if (language === 'rust') {
+            const segments = source.split('::').filter(segment => !['crate', 'self', 'super'].includes(segment))
+            if (segments.length === 0) return []
+            const modulePath = segments.join('/')
+            return withSuffix([`/${modulePath}.rs`, `/${modulePath}/mod.rs`])
+        }
+
+        return []
+    }
+
+    /** Top-level symbols of the other files in a Go file's package */
+    private findInPackage(filePath: string, name: string): Symbol[] {
+        const dir = dirnameOf(normalizeSlashes(filePath))
+        return this.findByName(name).filter(s =>
+            s.filePath !== filePath
+            && dirnameOf(normalizeSlashes(s.filePath)) === dir
+            && this.files.get(s.filePath)?.scope.topLevel.get(name) === s
+        )
+    }
+
+    /** The only top-level symbol with this name in files of a language, if there is exactly one */
+    private findUnique(name: string, language: string): Symbol[] {
+        const matches = this.findByName(name).filter(s =>
+            s.language === language && this.files.get(s.filePath)?.scope.topLevel.get(name) === s
+        )
+        return matches.length === 1 ? matches : []
+    }
+
     /**
      * Remove a symbol and its relationships
      */
@@ -450,6 +1023,8 @@ class SymbolService {
         this.graph.relationships.clear()
         this.graph.byFile.clear()
         this.graph.byName.clear()
+        this.files.clear()
+        this.normalizedFiles.clear()
 
         // Import symbols
         for (const symbol of data.symbols) {
@@ -477,6 +1052,8 @@ class SymbolService {
         this.graph.relationships.clear()
         this.graph.byFile.clear()
         this.graph.byName.clear()
+        this.files.clear()
+        this.normalizedFiles.clear()
         this.indexVersion = 0
         logger.agent.info('Symbol index cleared')
     }
@@ -0,0 +1,180 @@
+/*
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+// Task Service - The task list of a space or project, kept in its Yjs doc
+import * as Y from 'yjs'
+import type { Task, TaskComment } from '@collabforge/shared'
+import type { integrationService, WebhookEvent } from './integrationService'
+import { serviceOrchestrator } from './ServiceOrchestrator'
+import { logger } from '../utils/logger'
+
+export type { Task, TaskStatus, TaskPriority, Subtask, TaskComment } from '@collabforge/shared'
+
+export type TaskInput = Pick<Task, 'title'> & Partial<Omit<Task, 'id' | 'createdAt' | 'updatedAt' | 'createdBy' | 'comments' | 'completedAt'>>
+export type TaskUpdate = Partial<Omit<Task, 'id' | 'createdAt' | 'createdBy' | 'comments' | 'completedAt'>>
+
+// Who makes a change, for authorship and comments
+export interface TaskActor {
+    id: string
+    name: string
+}
+
+const TASKS_KEY = 'tasks'
+
+class TaskService {
+    /**
+     * Tasks of a doc. Tasks are replaced whole on every change, so two peers
+     * editing the same task at once can both leave a copy; the newest wins.
+     */
+    getTasks(doc: Y.Doc): Task[] {
+        return this.normalizeTasks(doc.getArray<Partial<Task>>(TASKS_KEY).toArray())
+    }
+
+    /**
+     * Fill in what older boards did not store and drop superseded copies
+     */
+    normalizeTasks(items: Partial<Task>[]): Task[] {
+        const byId = new Map<string, Task>()
+        for (const item of items) {
+            if (!item.id) continue
+            const task = this.normalizeTask(item)
+            const existing = byId.get(task.id)
+            if (!existing || task.updatedAt >= existing.updatedAt) byId.set(task.id, task)
+        }
+        return [...byId.values()]
+    }
+
+    createTask(doc: Y.Doc, input: TaskInput, actor: TaskActor): Task {
+        const now = Date.now()
+        const task: Task = {
+            description: '',
+            status: 'todo',
+            priority: 'medium',
+            tags: [],
+            subtasks: [],
+            ...input,
+            id: crypto.randomUUID(),
+            comments: [],
+            createdAt: now,
+            updatedAt: now,
+            createdBy: actor.id,
+            completedAt: input.status === 'done' ? now : undefined
+        }
+
+        doc.getArray<Task>(TASKS_KEY).push([task])
+        this.emit('task.created', task)
+        if (task.status === 'done') this.emit('task.completed', task)
+        return task
+    }
+
+    updateTask(doc: Y.Doc, taskId: string, updates: TaskUpdate): Task | null {
+        return this.replaceTask(doc, taskId, task => {
+            const updated: Task = { ...task, ...updates, updatedAt: Date.now() }
+            if (updated.status === 'done' && task.status !== 'done') updated.completedAt = updated.updatedAt
+            if (updated.status !== 'done') delete updated.completedAt
+            return updated
+        }, (previous, updated) => {
+            this.emit('task.updated', updated)
+            if (updated.status === 'done' && previous.status !== 'done') this.emit('task.completed', updated)
+        })
+    }
+
+    deleteTask(doc: Y.Doc, taskId: string): Task | null {
+        const tasksArray = doc.getArray<Partial<Task>>(TASKS_KEY)
+        const indexes = this.indexesOf(tasksArray, taskId)
+        if (indexes.length === 0) return null
+
+        const task = this.getTasks(doc).find(t => t.id === taskId) ?? null
+        doc.transact(() => {
+            for (const index of indexes.reverse()) tasksArray.delete(index)
+        })
+        return task
+    }
+
+    addComment(doc: Y.Doc, taskId: string, content: string, actor: TaskActor): TaskComment | null {
+        const comment: TaskComment = {
+            id: crypto.randomUUID(),
+            userId: actor.id,
+            userName: actor.name,
+            content,
+            timestamp: Date.now()
+        }
+        const updated = this.replaceTask(doc, taskId, task => ({
+            ...task,
+            comments: [...task.comments, comment],
+            updatedAt: Date.now()
+        }))
+        return updated ? comment : null
+    }
+
+    // --- Private helpers ---
+
+    private normalizeTask(item: Partial<Task>): Task {
+        const createdAt = item.createdAt ?? Date.now()
+        // Older shared types stored due dates as date strings
+        const dueDate = typeof item.dueDate === 'string' ? Date.parse(item.dueDate) : item.dueDate
+        return {
+            ...item,
+            id: item.id!,
+            title: item.title ?? '',
+            description: item.description ?? '',
+            status: item.status ?? 'todo',
+            priority: item.priority ?? 'medium',
+            dueDate: Number.isFinite(dueDate) ? dueDate : undefined,
+            tags: item.tags ?? [],
+            subtasks: item.subtasks ?? [],
+            comments: item.comments ?? [],
+            createdAt,
+            updatedAt: item.updatedAt ?? createdAt,
+            createdBy: item.createdBy ?? ''
+        }
+    }
+
+    private indexesOf(tasksArray: Y.Array<Partial<Task>>, taskId: string): number[] {
+        const indexes: number[] = []
+        tasksArray.forEach((task, index) => {
+            if (task.id === taskId) indexes.push(index)
+        })
+        return indexes
+    }
+
+    // Swap every stored copy of a task for one updated copy
+    private replaceTask(
+        doc: Y.Doc,
+        taskId: string,
+        change: (task: Task) => Task,
+        onReplaced?: (previous: Task, updated: Task) => void
+    ): Task | null {
+        const tasksArray = doc.getArray<Partial<Task>>(TASKS_KEY)
+        const indexes = this.indexesOf(tasksArray, taskId)
+        const task = this.getTasks(doc).find(t => t.id === taskId)
+        if (indexes.length === 0 || !task) return null
+
+        const updated = change(task)
+        doc.transact(() => {
+            for (const index of [...indexes].reverse()) tasksArray.delete(index)
+            tasksArray.insert(indexes[0], [updated])
+        })
+        onReplaced?.(task, updated)
+        return updated
+    }
+
+    // Only the peer that made a change reports it, so each event goes out once
+    private emit(event: WebhookEvent, task: Task): void {
+        const payload = {
+            title: task.title,
+            description: task.description,
+            taskId: task.id,
+            status: task.status,
+            priority: task.priority,
+            assigneeId: task.assigneeId,
+            dueDate: task.dueDate,
+            tags: task.tags
+        }
+        serviceOrchestrator.getService<typeof integrationService>('integrationService')
+            .then(service => service.emitEvent(event, payload))
+            .catch(error => logger.general.warn('Task event delivery failed', { event, error: String(error) }))
+    }
+}
+
+export const taskService = new TaskService()
@@ -30,6 +30,8 @@ export interface Transaction {
     startedAt: number
     status: 'active' | 'committing' | 'committed' | 'rolling_back' | 'rolled_back' | 'failed'
     error?: string
+    // Staged content already written to the workspace ahead of the commit, by path
+    materialized: Map<string, string | null>
 }
 
 export interface TransactionResult {
@@ -118,7 +120,8 @@ class TransactionService {
             id: `txn-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
             files: new Map(),
             startedAt: Date.now(),
-            status: 'active'
+            status: 'active',
+            materialized: new Map()
         }
         this.activeTransactions.set(transaction.id, transaction)
         logger.agent.debug('Transaction started', { transactionId: transaction.id })
@@ -157,8 +160,8 @@ class TransactionService {
             return { success: false, error: `File is locked by transaction ${existingLock}` }
         }
 
-        // Check if file already exists in workspace
-        const exists = await this.fileExists(path)
+        // Check if file already exists in workspace; a staged creation may have been materialized
+        const exists = transaction.files.get(path)?.operation !== 'create' && await this.fileExists(path)
         if (exists) {
             return { success: false, error: 'File already exists' }
         }
@@ -217,12 +220,12 @@ class TransactionService {
         // Lock the file
         this.fileLocks.set(path, transactionId)
 
-        // Stage the modification
+        // Stage the modification; a file created earlier in this transaction stays a creation
         transaction.files.set(path, {
             path,
             originalContent,
             newContent,
-            operation: 'modify'
+            operation: existingStaging?.operation === 'create' ? 'create' : 'modify'
         })
 
         // Store in shadow
@@ -253,7 +256,20 @@ class TransactionService {
         // Read original content if not already staged
         let originalContent: string | null = null
         const existingStaging = transaction.files.get(path)
-        
+
+        // Deleting a file this transaction created just drops the creation
+        if (existingStaging?.operation === 'create') {
+            if (transaction.materialized.has(path) && await this.fileExists(path)) {
+                await this.deleteFile(path).catch(err => logger.agent.warn('Failed to remove materialized file', { transactionId, path, error: err }))
+            }
+            transaction.files.delete(path)
+            transaction.materialized.delete(path)
+            this.fileLocks.delete(path)
+            this.shadowStorage.delete(`${transactionId}:${path}`)
+            logger.agent.debug('Staged file creation dropped', { transactionId, path })
+            return { success: true }
+        }
+
         if (existingStaging) {
             originalContent = existingStaging.originalContent
         } else {
@@ -281,6 +297,22 @@ class TransactionService {
         return { success: true }
     }
 
+    /**
+     * Stage new content for a file, as a creation or a modification depending
+     * on whether the file exists in the transaction's view of the workspace
+     */
+    async stageWrite(transactionId: string, path: string, content: string): Promise<{ success: boolean; error?: string }> {
+        const staged = this.activeTransactions.get(transactionId)?.files.get(path)
+        if (staged) {
+            return staged.operation === 'create'
+                ? this.stageCreate(transactionId, path, content)
+                : this.stageModify(transactionId, path, content)
+        }
+        return await this.fileExists(path)
+            ? this.stageModify(transactionId, path, content)
+            : this.stageCreate(transactionId, path, content)
+    }
+
     /**
      * Get staged content for a file
      */
@@ -288,6 +320,57 @@ class TransactionService {
         return this.shadowStorage.get(`${transactionId}:${path}`)
     }
 
+    /**
+     * Read a file as the transaction sees it: staged content first, then the
+     * workspace. Returns null if the file does not exist or is staged for deletion.
+     */
+    async readStaged(transactionId: string, path: string): Promise<string | null> {
+        const staged = this.activeTransactions.get(transactionId)?.files.get(path)
+        if (staged) return staged.newContent
+        return this.readFile(path)
+    }
+
+    /**
+     * Get the staged changes of a transaction, in staging order
+     */
+    getStagedFiles(transactionId: string): TransactionFile[] {
+        const transaction = this.activeTransactions.get(transactionId)
+        return transaction ? Array.from(transaction.files.values()) : []
+    }
+
+    /**
+     * Write the staged changes to the workspace ahead of the commit, for
+     * processes that only see files on disk. The transaction stays active and
+     * keeps the original contents, so a rollback still restores them.
+     */
+    async materialize(transactionId: string): Promise<{ success: boolean; error?: string }> {
+        const transaction = this.activeTransactions.get(transactionId)
+        if (!transaction) {
+            return { success: false, error: 'Transaction not found' }
+        }
+        if (transaction.status !== 'active') {
+            return { success: false, error: `Transaction is ${transaction.status}` }
+        }
+
+        try {
+            for (const [path, file] of transaction.files) {
+                if (transaction.materialized.get(path) === file.newContent) continue
+
+                if (file.newContent !== null) {
+                    await this.writeFile(path, file.newContent)
+                } else if (await this.fileExists(path)) {
+                    await this.deleteFile(path)
+                }
+                transaction.materialized.set(path, file.newContent)
+            }
+        } catch (err) {
+            return { success: false, error: `Writing staged changes failed: ${err}` }
+        }
+
+        logger.agent.debug('Transaction materialized', { transactionId, files: transaction.files.size })
+        return { success: true }
+    }
+
     /**
      * Validate the transaction before commit
      */
@@ -367,7 +450,10 @@ class TransactionService {
                         modifiedFiles.push(path)
                     }
                 } else if (file.operation === 'delete') {
-                    await this.deleteFile(path)
+                    // A materialized deletion is already gone
+                    if (await this.fileExists(path)) {
+                        await this.deleteFile(path)
+                    }
                     modifiedFiles.push(path)
                 }
 
@@ -432,8 +518,10 @@ class TransactionService {
             
             for (const [path, file] of transaction.files) {
                 if (file.operation === 'create') {
-                    // Delete the created file
-                    await this.deleteFile(path)
+                    // Delete the created file (a failed commit may not have written it yet)
+                    if (await this.fileExists(path)) {
+                        await this.deleteFile(path)
+                    }
                 } else if (file.operation === 'modify' || file.operation === 'delete') {
                     // Restore original content
                     if (file.originalContent !== null) {
@@ -472,6 +560,39 @@ class TransactionService {
         }
     }
 
+    /**
+     * Undo a committed transaction. Refuses when a file was changed after the
+     * commit, so later edits are never silently overwritten.
+     */
+    async revert(transactionId: string): Promise<TransactionResult> {
+        const transaction = this.activeTransactions.get(transactionId)
+        if (!transaction) {
+            return { success: false, transactionId, modifiedFiles: [], error: 'Transaction not found' }
+        }
+        if (transaction.status !== 'committed') {
+            return { success: false, transactionId, modifiedFiles: [], error: `Transaction is ${transaction.status}` }
+        }
+
+        const conflicts: string[] = []
+        for (const [path, file] of transaction.files) {
+            const lock = this.fileLocks.get(path)
+            const current = await this.readFile(path)
+            if ((lock && lock !== transactionId) || current !== file.newContent) {
+                conflicts.push(path)
+            }
+        }
+        if (conflicts.length > 0) {
+            return {
+                success: false,
+                transactionId,
+                modifiedFiles: [],
+                error: `Files changed since the commit: ${conflicts.join(', ')}`
+            }
+        }
+
+        return this.rollback(transactionId)
+    }
+
     /**
      * Get transaction status
      */
@@ -491,6 +612,16 @@ class TransactionService {
         return count
     }
 
+    /**
+     * Forget a finished transaction, with the file contents it kept for undo
+     */
+    discard(transactionId: string): void {
+        const status = this.activeTransactions.get(transactionId)?.status
+        if (status === 'committed' || status === 'rolled_back' || status === 'failed') {
+            this.activeTransactions.delete(transactionId)
+        }
+    }
+
     /**
      * Clean up completed transactions
      */
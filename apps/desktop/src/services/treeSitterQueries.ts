@@ -0,0 +1,242 @@
+/**
+ * Tree-sitter queries for the symbol graph, one set per grammar.
+ *
+ * Capture names follow the tags/locals conventions of tree-sitter:
+ * - `@definition.<type>` on the declaring node with `@name` on its name, and
+ *   `@container` on the class, struct or impl it belongs to. Go methods also
+ *   capture their receiver variable as `@self`.
+ * - `@reference` / `@reference.call` with `@name`, and `@receiver` on the
+ *   object of a member access.
+ * - `@import` on the statement with `@import.source` and one of
+ *   `@import.name` (plus `@import.alias`), `@import.default`,
+ *   `@import.namespace` or `@import.wildcard`.
+ * - `@inherit.class` with `@inherit.extends` or `@inherit.implements`.
+ * - `@local.scope` and `@local.definition`, so names declared inside
+ *   functions are not mistaken for references to top-level symbols.
+ * - `@ignore` on identifiers that are never references.
+ */
+
+const SCRIPT_IMPORTS = `
+(import_statement (import_clause (identifier) @import.default) source: (string (string_fragment) @import.source)) @import
+(import_statement (import_clause (namespace_import (identifier) @import.namespace)) source: (string (string_fragment) @import.source)) @import
+(import_statement (import_clause (named_imports (import_specifier name: (_) @import.name !alias))) source: (string (string_fragment) @import.source)) @import
+(import_statement (import_clause (named_imports (import_specifier name: (_) @import.name alias: (_) @import.alias))) source: (string (string_fragment) @import.source)) @import
+(import_statement source: (string)) @import
+((lexical_declaration (variable_declarator
+    name: (identifier) @import.namespace
+    value: (call_expression function: (identifier) @_require arguments: (arguments (string (string_fragment) @import.source))))) @import
+  (#eq? @_require "require"))
+((lexical_declaration (variable_declarator
+    name: (object_pattern (shorthand_property_identifier_pattern) @import.name)
+    value: (call_expression function: (identifier) @_require arguments: (arguments (string (string_fragment) @import.source))))) @import
+  (#eq? @_require "require"))
+`
+
+const SCRIPT_DEFINITIONS = `
+(function_declaration name: (identifier) @name) @definition.function
+(generator_function_declaration name: (identifier) @name) @definition.function
+(class_declaration name: (_) @name) @definition.class
+(class_declaration name: (_) @container body: (class_body (method_definition name: (_) @name) @definition.method))
+(program (lexical_declaration (variable_declarator name: (identifier) @name) @definition.variable))
+(program (variable_declaration (variable_declarator name: (identifier) @name) @definition.variable))
+(program (export_statement declaration: (lexical_declaration (variable_declarator name: (identifier) @name) @definition.variable)))
+(program (export_statement declaration: (variable_declaration (variable_declarator name: (identifier) @name) @definition.variable)))
+`
+
+const SCRIPT_REFERENCES = `
+(identifier) @name @reference
+(shorthand_property_identifier) @name @reference
+(call_expression function: (identifier) @name) @reference.call
+(new_expression constructor: (identifier) @name) @reference.call
+(call_expression function: (member_expression object: (_) @receiver property: (_) @name)) @reference.call
+(member_expression object: (_) @receiver property: (_) @name) @reference
+`
+
+const SCRIPT_LOCALS = `
+[(function_declaration) (generator_function_declaration) (function_expression) (arrow_function)
+ (method_definition) (statement_block) (for_statement) (for_in_statement) (catch_clause)] @local.scope
+(arrow_function parameter: (identifier) @local.definition)
+(variable_declarator name: (identifier) @local.definition)
+(object_pattern (shorthand_property_identifier_pattern) @local.definition)
+(pair_pattern value: (identifier) @local.definition)
+(array_pattern (identifier) @local.definition)
+(rest_pattern (identifier) @local.definition)
+(catch_clause parameter: (identifier) @local.definition)
+(for_in_statement left: (identifier) @local.definition)
+(function_declaration name: (identifier) @local.definition)
+(class_declaration name: (_) @local.definition)
+`
+
+const JAVASCRIPT = `
+${SCRIPT_IMPORTS}
+${SCRIPT_DEFINITIONS}
+(class_declaration name: (_) @container body: (class_body (field_definition property: (_) @name) @definition.property))
+(class_declaration name: (_) @inherit.class (class_heritage (identifier) @inherit.extends))
+(class_declaration name: (_) @inherit.class (class_heritage (member_expression property: (property_identifier) @inherit.extends)))
+${SCRIPT_REFERENCES}
+${SCRIPT_LOCALS}
+(formal_parameters (identifier) @local.definition)
+`
+
+const TYPESCRIPT = `
+${SCRIPT_IMPORTS}
+${SCRIPT_DEFINITIONS}
+(function_signature name: (identifier) @name) @definition.function
+(abstract_class_declaration name: (_) @name) @definition.class
+(class_declaration name: (_) @container body: (class_body (public_field_definition name: (_) @name) @definition.property))
+(abstract_class_declaration name: (_) @container body: (class_body (method_definition name: (_) @name) @definition.method))
+(abstract_class_declaration name: (_) @container body: (class_body (abstract_method_signature name: (_) @name) @definition.method))
+(abstract_class_declaration name: (_) @container body: (class_body (public_field_definition name: (_) @name) @definition.property))
+(interface_declaration name: (_) @name) @definition.interface
+(interface_declaration name: (_) @container body: (interface_body (method_signature name: (_) @name) @definition.method))
+(interface_declaration name: (_) @container body: (interface_body (property_signature name: (_) @name) @definition.property))
+(type_alias_declaration name: (_) @name) @definition.type
+(enum_declaration name: (_) @name) @definition.enum
+(class_declaration name: (_) @inherit.class (class_heritage (extends_clause value: (identifier) @inherit.extends)))
+(class_declaration name: (_) @inherit.class (class_heritage (extends_clause value: (member_expression property: (property_identifier) @inherit.extends))))
+(class_declaration name: (_) @inherit.class (class_heritage (implements_clause (type_identifier) @inherit.implements)))
+(abstract_class_declaration name: (_) @inherit.class (class_heritage (extends_clause value: (identifier) @inherit.extends)))
+(abstract_class_declaration name: (_) @inherit.class (class_heritage (implements_clause (type_identifier) @inherit.implements)))
+(interface_declaration name: (_) @inherit.class (extends_type_clause type: (type_identifier) @inherit.extends))
+${SCRIPT_REFERENCES}
+(type_identifier) @name @reference
+(nested_type_identifier module: (identifier) @receiver name: (type_identifier) @name) @reference
+${SCRIPT_LOCALS}
+(required_parameter pattern: (identifier) @local.definition)
+(optional_parameter pattern: (identifier) @local.definition)
+(type_parameter name: (type_identifier) @local.definition)
+[(interface_declaration) (type_alias_declaration) (function_signature) (method_signature) (abstract_method_signature)] @local.scope
+`
+
+const PYTHON = `
+(import_from_statement module_name: (_) @import.source name: (dotted_name) @import.name) @import
+(import_from_statement module_name: (_) @import.source name: (aliased_import name: (dotted_name) @import.name alias: (identifier) @import.alias)) @import
+(import_from_statement module_name: (_) @import.source (wildcard_import) @import.wildcard) @import
+(import_statement name: (dotted_name) @import.source) @import
+(import_statement name: (aliased_import name: (dotted_name) @import.source alias: (identifier) @import.namespace)) @import
+
+(module (function_definition name: (identifier) @name) @definition.function)
+(module (decorated_definition definition: (function_definition name: (identifier) @name) @definition.function))
+(module (class_definition name: (identifier) @name) @definition.class)
+(module (decorated_definition definition: (class_definition name: (identifier) @name) @definition.class))
+(module (expression_statement (assignment left: (identifier) @name) @definition.variable))
+(class_definition name: (identifier) @container body: (block (function_definition name: (identifier) @name) @definition.method))
+(class_definition name: (identifier) @container body: (block (decorated_definition definition: (function_definition name: (identifier) @name) @definition.method)))
+(class_definition name: (identifier) @container body: (block (expression_statement (assignment left: (identifier) @name) @definition.property)))
+
+(class_definition name: (identifier) @inherit.class superclasses: (argument_list (identifier) @inherit.extends))
+(class_definition name: (identifier) @inherit.class superclasses: (argument_list (attribute attribute: (identifier) @inherit.extends)))
+
+(identifier) @name @reference
+(call function: (identifier) @name) @reference.call
+(call function: (attribute object: (_) @receiver attribute: (identifier) @name)) @reference.call
+(attribute object: (_) @receiver attribute: (identifier) @name) @reference
+(keyword_argument name: (identifier) @ignore)
+
+[(function_definition) (lambda) (list_comprehension) (dictionary_comprehension) (set_comprehension) (generator_expression)] @local.scope
+(parameters (identifier) @local.definition)
+(default_parameter name: (identifier) @local.definition)
+(typed_parameter (identifier) @local.definition)
+(typed_default_parameter name: (identifier) @local.definition)
+(list_splat_pattern (identifier) @local.definition)
+(dictionary_splat_pattern (identifier) @local.definition)
+(lambda_parameters (identifier) @local.definition)
+(assignment left: (identifier) @local.definition)
+(pattern_list (identifier) @local.definition)
+(for_statement left: (identifier) @local.definition)
+(for_in_clause left: (identifier) @local.definition)
+(as_pattern_target (identifier) @local.definition)
+(function_definition name: (identifier) @local.definition)
+(class_definition name: (identifier) @local.definition)
+`
+
+const GO = `
+(import_spec name: (package_identifier) @import.namespace path: (interpreted_string_literal (interpreted_string_literal_content) @import.source)) @import
+(import_spec !name path: (interpreted_string_literal (interpreted_string_literal_content) @import.source)) @import
+
+(function_declaration name: (identifier) @name) @definition.function
+(method_declaration
+    receiver: (parameter_list (parameter_declaration name: (identifier) @self type: [(type_identifier) @container (pointer_type (type_identifier) @container)]))
+    name: (field_identifier) @name) @definition.method
+(method_declaration
+    receiver: (parameter_list (parameter_declaration !name type: [(type_identifier) @container (pointer_type (type_identifier) @container)]))
+    name: (field_identifier) @name) @definition.method
+(type_declaration (type_spec name: (type_identifier) @name type: (struct_type)) @definition.class)
+(type_declaration (type_spec name: (type_identifier) @name type: (interface_type)) @definition.interface)
+(type_declaration (type_spec name: (type_identifier) @name) @definition.type)
+(type_spec name: (type_identifier) @container type: (struct_type (field_declaration_list (field_declaration name: (field_identifier) @name) @definition.property)))
+(type_spec name: (type_identifier) @container type: (interface_type (method_elem name: (field_identifier) @name) @definition.method))
+(source_file (const_declaration (const_spec name: (identifier) @name) @definition.const))
+(source_file (var_declaration (var_spec name: (identifier) @name) @definition.variable))
+
+(type_spec name: (type_identifier) @inherit.class type: (struct_type (field_declaration_list (field_declaration !name type: (type_identifier) @inherit.extends))))
+(type_spec name: (type_identifier) @inherit.class type: (interface_type (type_elem (type_identifier) @inherit.extends)))
+
+(identifier) @name @reference
+(type_identifier) @name @reference
+(call_expression function: (identifier) @name) @reference.call
+(call_expression function: (selector_expression operand: (_) @receiver field: (field_identifier) @name)) @reference.call
+(selector_expression operand: (_) @receiver field: (field_identifier) @name) @reference
+(qualified_type package: (package_identifier) @receiver name: (type_identifier) @name) @reference
+
+[(function_declaration) (method_declaration) (func_literal) (block)] @local.scope
+(parameter_declaration name: (identifier) @local.definition)
+(variadic_parameter_declaration name: (identifier) @local.definition)
+(short_var_declaration left: (expression_list (identifier) @local.definition))
+(var_spec name: (identifier) @local.definition)
+(const_spec name: (identifier) @local.definition)
+(range_clause left: (expression_list (identifier) @local.definition))
+`
+
+const RUST = `
+(use_declaration argument: (scoped_identifier path: (_) @import.source name: (identifier) @import.name)) @import
+(use_declaration argument: (use_as_clause path: (scoped_identifier path: (_) @import.source name: (identifier) @import.name) alias: (identifier) @import.alias)) @import
+(use_declaration argument: (scoped_use_list path: (_) @import.source list: (use_list (identifier) @import.name))) @import
+(use_declaration argument: (scoped_use_list path: (_) @import.source list: (use_list (use_as_clause path: (identifier) @import.name alias: (identifier) @import.alias)))) @import
+(use_declaration argument: (use_wildcard (_) @import.source) @import.wildcard) @import
+(use_declaration) @import
+
+(function_item name: (identifier) @name) @definition.function
+(impl_item type: (type_identifier) @container body: (declaration_list (function_item name: (identifier) @name) @definition.method))
+(impl_item type: (generic_type type: (type_identifier) @container) body: (declaration_list (function_item name: (identifier) @name) @definition.method))
+(trait_item name: (type_identifier) @container body: (declaration_list (function_signature_item name: (identifier) @name) @definition.method))
+(trait_item name: (type_identifier) @container body: (declaration_list (function_item name: (identifier) @name) @definition.method))
+(struct_item name: (type_identifier) @name) @definition.class
+(struct_item name: (type_identifier) @container body: (field_declaration_list (field_declaration name: (field_identifier) @name) @definition.property))
+(enum_item name: (type_identifier) @name) @definition.enum
+(trait_item name: (type_identifier) @name) @definition.interface
+(type_item name: (type_identifier) @name) @definition.type
+(const_item name: (identifier) @name) @definition.const
+(static_item name: (identifier) @name) @definition.variable
+(mod_item name: (identifier) @name) @definition.module
+(macro_definition name: (identifier) @name) @definition.function
+
+(impl_item trait: (type_identifier) @inherit.implements type: (type_identifier) @inherit.class)
+(trait_item name: (type_identifier) @inherit.class bounds: (trait_bounds (type_identifier) @inherit.extends))
+
+(identifier) @name @reference
+(type_identifier) @name @reference
+(call_expression function: (identifier) @name) @reference.call
+(call_expression function: (field_expression value: (_) @receiver field: (field_identifier) @name)) @reference.call
+(call_expression function: (scoped_identifier path: (_) @receiver name: (identifier) @name)) @reference.call
+(field_expression value: (_) @receiver field: (field_identifier) @name) @reference
+(scoped_identifier path: (_) @receiver name: (identifier) @name) @reference
+(scoped_type_identifier path: (_) @receiver name: (type_identifier) @name) @reference
+(macro_invocation macro: (identifier) @name) @reference.call
+
+[(function_item) (closure_expression) (block)] @local.scope
+(parameter pattern: (identifier) @local.definition)
+(let_declaration pattern: (identifier) @local.definition)
+(closure_parameters (identifier) @local.definition)
+(tuple_pattern (identifier) @local.definition)
+(for_expression pattern: (identifier) @local.definition)
+`
+
+export const SYMBOL_GRAPH_QUERIES: Record<string, string> = {
+    typescript: TYPESCRIPT,
+    tsx: TYPESCRIPT,
+    javascript: JAVASCRIPT,
+    python: PYTHON,
+    go: GO,
+    rust: RUST
+}
@@ -3,7 +3,10 @@
  * Handles multi-language structural parsing using web-tree-sitter.
  */
 
-import { Parser, Language } from 'web-tree-sitter'
+import { Parser, Language, Query } from 'web-tree-sitter'
+import type { Node, Tree } from 'web-tree-sitter'
+import type { ExtractedDefinition, ExtractedReference, SymbolExtraction, SymbolType } from './symbolService'
+import { SYMBOL_GRAPH_QUERIES } from './treeSitterQueries'
 
 import treeSitterWasmUrl from '../assets/wasm/tree-sitter.wasm?url'
 import tsWasmUrl from '../assets/wasm/tree-sitter-typescript.wasm?url'
@@ -13,9 +16,43 @@ import pyWasmUrl from '../assets/wasm/tree-sitter-python.wasm?url'
 import goWasmUrl from '../assets/wasm/tree-sitter-go.wasm?url'
 import rsWasmUrl from '../assets/wasm/tree-sitter-rust.wasm?url'
 
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+    'ts': 'typescript',
+    'mts': 'typescript',
+    'cts': 'typescript',
+    'tsx': 'tsx',
+    'js': 'javascript',
+    'jsx': 'javascript',
+    'mjs': 'javascript',
+    'cjs': 'javascript',
+    'py': 'python',
+    'pyi': 'python',
+    'go': 'go',
+    'rs': 'rust'
+}
+
+// Receivers that name the instance or type a method belongs to
+const SELF_RECEIVERS = new Set(['this', 'self', 'Self', 'cls'])
+
+// Statements that wrap a definition and carry its export keyword or doc comment
+const DECLARATION_WRAPPERS = new Set([
+    'lexical_declaration', 'variable_declaration', 'export_statement', 'decorated_definition',
+    'expression_statement', 'type_declaration', 'const_declaration', 'var_declaration'
+])
+
+function languageOf(filePath: string): string | undefined {
+    const ext = filePath.split('.').pop()?.toLowerCase() || ''
+    return LANGUAGE_BY_EXTENSION[ext]
+}
+
+function contains(outer: Node, inner: Node): boolean {
+    return outer.startIndex <= inner.startIndex && inner.endIndex <= outer.endIndex
+}
+
 class TreeSitterService {
     private parser: Parser | null = null
     private languages: Record<string, Language> = {}
+    private queries: Record<string, Query> = {}
     private isInitialized = false
 
     async init() {
@@ -70,18 +107,7 @@ class TreeSitterService {
         if (!this.parser && !this.isInitialized) await this.init()
         if (!this.parser) return []
 
-        const ext = filePath.split('.').pop()?.toLowerCase() || ''
-        const langMap: Record<string, string> = {
-            'ts': 'typescript',
-            'tsx': 'tsx',
-            'js': 'javascript',
-            'jsx': 'javascript',
-            'py': 'python',
-            'go': 'go',
-            'rs': 'rust'
-        }
-
-        const langId = langMap[ext]
+        const langId = languageOf(filePath)
         if (!langId) return []
 
         const lang = await this.getLanguage(langId)
@@ -144,6 +170,234 @@ class TreeSitterService {
         return symbols
     }
 
+    supportsSymbolGraph(filePath: string): boolean {
+        const langId = languageOf(filePath)
+        return langId !== undefined && langId in SYMBOL_GRAPH_QUERIES
+    }
+
+    /**
+     * Definitions, references, imports and inheritance of a file for the
+     * symbol graph. Null when the language has no grammar or parsing fails.
+     */
+    async extractSymbolGraph(content: string, filePath: string): Promise<SymbolExtraction | null> {
+        if (!this.parser && !this.isInitialized) await this.init()
+        if (!this.parser) return null
+
+        const langId = languageOf(filePath)
+        if (!langId || !SYMBOL_GRAPH_QUERIES[langId]) return null
+
+        const lang = await this.getLanguage(langId)
+        if (!lang) return null
+
+        let query = this.queries[langId]
+        if (!query) {
+            try {
+                query = new Query(lang, SYMBOL_GRAPH_QUERIES[langId])
+                this.queries[langId] = query
+            } catch (error) {
+                console.error(`[TreeSitter] Invalid symbol query for ${langId}:`, error)
+                return null
+            }
+        }
+
+        this.parser.setLanguage(lang)
+        const tree = this.parser.parse(content)
+        if (!tree) return null
+
+        try {
+            return this.collectSymbolGraph(tree, query, content, langId)
+        } finally {
+            tree.delete()
+        }
+    }
+
+    private collectSymbolGraph(tree: Tree, query: Query, content: string, langId: string): SymbolExtraction {
+        const lines = content.split('\n')
+        const language = langId === 'tsx' ? 'typescript' : langId
+        const position = (node: Node) => ({ line: node.startPosition.row + 1, column: node.startPosition.column })
+
+        const scopes = new Set<number>()
+        const localDefinitions: Node[] = []
+        const ignored = new Set<number>()
+        const importNodes: Node[] = []
+        const definitionMatches = new Map<number, { node: Node; name: Node; type: string; container?: Node; self?: Node }>()
+        const referenceMatches = new Map<number, { name: Node; call: boolean; receiver?: Node }>()
+        const extraction: SymbolExtraction = { language, definitions: [], references: [], imports: [], inheritance: [] }
+
+        for (const match of query.matches(tree.rootNode)) {
+            const captures: Record<string, Node> = {}
+            for (const capture of match.captures) {
+                if (!captures[capture.name]) captures[capture.name] = capture.node
+            }
+            const names = Object.keys(captures)
+            const definition = names.find(n => n.startsWith('definition.'))
+
+            if (definition) {
+                const name = captures.name
+                const existing = definitionMatches.get(name.startIndex)
+                const type = definition.slice('definition.'.length)
+                // Several patterns can match one declaration; the most specific wins
+                if (existing && (existing.container || (!captures.container && existing.type !== 'type'))) continue
+                definitionMatches.set(name.startIndex, {
+                    node: captures[definition], name, type, container: captures.container, self: captures.self
+                })
+            } else if (captures.reference || captures['reference.call']) {
+                const name = captures.name
+                const existing = referenceMatches.get(name.startIndex) ?? { name, call: false }
+                existing.call ||= !!captures['reference.call']
+                existing.receiver ??= captures.receiver
+                referenceMatches.set(name.startIndex, existing)
+            } else if (captures.import) {
+                importNodes.push(captures.import)
+                const source = captures['import.source']
+                if (!source) continue
+                const sourceText = source.text
+                if (captures['import.name']) {
+                    const imported = captures['import.name'].text
+                    extraction.imports.push({
+                        source: sourceText, imported, local: captures['import.alias']?.text ?? imported, ...position(captures['import.name'])
+                    })
+                } else if (captures['import.default']) {
+                    extraction.imports.push({ source: sourceText, imported: 'default', local: captures['import.default'].text, ...position(captures['import.default']) })
+                } else if (captures['import.wildcard']) {
+                    extraction.imports.push({ source: sourceText, imported: '*', local: '*', ...position(source) })
+                } else {
+                    // A namespace import; without a name it binds the first (Python) or last (Go) segment of the path
+                    const local = captures['import.namespace']?.text
+                        ?? (language === 'go' ? sourceText.split('/').pop()! : sourceText.split('.')[0])
+                    extraction.imports.push({ source: sourceText, imported: '*', local, ...position(captures['import.namespace'] ?? source) })
+                }
+            } else if (captures['inherit.class']) {
+                const parent = captures['inherit.extends'] ?? captures['inherit.implements']
+                if (!parent) continue
+                extraction.inheritance.push({
+                    name: captures['inherit.class'].text,
+                    parent: parent.text,
+                    kind: captures['inherit.extends'] ? 'extends' : 'implements',
+                    ...position(parent)
+                })
+            } else if (captures['local.scope']) {
+                scopes.add(captures['local.scope'].id)
+            } else if (captures['local.definition']) {
+                localDefinitions.push(captures['local.definition'])
+            } else if (captures.ignore) {
+                ignored.add(captures.ignore.startIndex)
+            }
+        }
+
+        // Names declared inside each function or block
+        const scopeNames = new Map<number, Set<string>>()
+        const localNodes = new Set<number>()
+        for (const node of localDefinitions) {
+            localNodes.add(node.startIndex)
+            let scope = node.parent
+            // A declaration's own name belongs to the scope around it
+            while (scope && (!scopes.has(scope.id) || scope.childForFieldName('name')?.id === node.id)) scope = scope.parent
+            if (!scope) continue
+            if (!scopeNames.has(scope.id)) scopeNames.set(scope.id, new Set())
+            scopeNames.get(scope.id)!.add(node.text)
+        }
+        const isLocal = (node: Node) => {
+            for (let scope = node.parent; scope; scope = scope.parent) {
+                if (scopes.has(scope.id) && scope.id !== node.id) {
+                    if (scopeNames.get(scope.id)?.has(node.text)) return true
+                }
+            }
+            return false
+        }
+        const inScope = (node: Node) => {
+            for (let parent = node.parent; parent; parent = parent.parent) {
+                if (scopes.has(parent.id)) return true
+            }
+            return false
+        }
+        const inImport = (node: Node) => importNodes.some(statement => contains(statement, node))
+
+        const definitionNames = new Set<number>()
+        const selfNames: Array<{ node: Node; self: string }> = []
+        for (const match of definitionMatches.values()) {
+            // Functions and variables declared inside other code are locals, not symbols
+            if ((!match.container && inScope(match.node)) || inImport(match.name)) continue
+            definitionNames.add(match.name.startIndex)
+            if (match.self) selfNames.push({ node: match.node, self: match.self.text })
+            extraction.definitions.push(this.toDefinition(match, lines, language))
+        }
+
+        for (const match of referenceMatches.values()) {
+            const { name, receiver } = match
+            if (definitionNames.has(name.startIndex) || localNodes.has(name.startIndex) || ignored.has(name.startIndex)) continue
+            if (inImport(name)) continue
+
+            const reference: ExtractedReference = { name: name.text, ...position(name), kind: match.call ? 'call' : 'reference' }
+            if (receiver) {
+                const text = receiver.text
+                const isSelf = SELF_RECEIVERS.has(text)
+                    || selfNames.some(entry => entry.self === text && contains(entry.node, name))
+                if (isSelf) reference.onSelf = true
+                else reference.receiver = /^[A-Za-z_$][\w$]*$/.test(text) && !isLocal(receiver) ? text : ''
+            } else if (isLocal(name)) {
+                continue
+            }
+            extraction.references.push(reference)
+        }
+
+        return extraction
+    }
+
+    private toDefinition(
+        match: { node: Node; name: Node; type: string; container?: Node },
+        lines: string[],
+        language: string
+    ): ExtractedDefinition {
+        const { node, name } = match
+        const modifiers = new Set(node.children.map(child => child.type))
+        const value = node.childForFieldName('value')
+        let outer = node
+        while (outer.parent && DECLARATION_WRAPPERS.has(outer.parent.type)) outer = outer.parent
+
+        let type = match.type as SymbolType
+        if (type === 'variable') {
+            if (value && ['arrow_function', 'function_expression', 'function', 'generator_function', 'lambda'].includes(value.type)) type = 'function'
+            else if (node.parent?.firstChild?.type === 'const' || (language === 'python' && /^[A-Z][A-Z0-9_]*$/.test(name.text))) type = 'const'
+        }
+
+        let isExported: boolean
+        if (language === 'typescript' || language === 'javascript') isExported = outer.type === 'export_statement'
+        else if (language === 'python') isExported = !name.text.startsWith('_')
+        else if (language === 'go') isExported = /^[A-Z]/.test(name.text)
+        else isExported = modifiers.has('visibility_modifier')
+
+        let visibility: ExtractedDefinition['visibility'] = 'public'
+        const accessibility = node.children.find(child => child.type === 'accessibility_modifier')?.text
+        if (accessibility === 'private' || accessibility === 'protected') visibility = accessibility
+        else if (name.type === 'private_property_identifier') visibility = 'private'
+        else if (language === 'python') visibility = name.text.startsWith('__') && !name.text.endsWith('__') ? 'private' : name.text.startsWith('_') ? 'protected' : 'public'
+        else if ((language === 'go' || language === 'rust') && !isExported) visibility = 'private'
+
+        const comment = outer.previousNamedSibling
+        const documentation = comment && /comment/.test(comment.type) && comment.endPosition.row >= outer.startPosition.row - 1
+            ? comment.text.replace(/^\/\*\*?|\*\/$/g, '').replace(/^\s*(?:\*|\/\/\/?)\s?/gm, '').trim().slice(0, 500)
+            : undefined
+
+        return {
+            name: name.text,
+            type,
+            line: name.startPosition.row + 1,
+            column: name.startPosition.column,
+            endLine: node.endPosition.row + 1,
+            endColumn: node.endPosition.column,
+            container: match.container?.text,
+            signature: (lines[node.startPosition.row] ?? '').trim().slice(0, 200),
+            documentation: documentation || undefined,
+            isExported,
+            isDefault: outer.type === 'export_statement' && outer.children.some(child => child.type === 'default'),
+            isAsync: modifiers.has('async') || !!value?.children.some(child => child.type === 'async'),
+            isStatic: modifiers.has('static'),
+            isAbstract: modifiers.has('abstract') || node.type === 'abstract_class_declaration' || node.type === 'abstract_method_signature',
+            visibility
+        }
+    }
+
     private normalizeType(type: string): string {
         if (type.includes('class')) return 'class'
         if (type.includes('interface')) return 'interface'
@@ -17,6 +17,29 @@ export interface ScanIssue {
     suggestion: string
 }
 
+/**
+ * Shape of an offline model's review, enforced with a grammar so small models
+ * cannot return malformed JSON. Capped so the answer fits in the token budget.
+ */
+const SCAN_ISSUES_JSON_SCHEMA = {
+    type: 'object',
+    properties: {
+        issues: {
+            type: 'array',
+            maxItems: 5,
+            items: {
+                type: 'object',
+                properties: {
+                    type: { enum: ['bug', 'security', 'performance', 'improvement'] },
+                    severity: { enum: ['critical', 'high', 'medium', 'low'] },
+                    description: { type: 'string' },
+                    suggestion: { type: 'string' }
+                }
+            }
+        }
+    }
+}
+
 export interface ScanError {
     file: string
     path: string
@@ -199,7 +222,7 @@ export class WorkspaceScanService {
 
         // Simpler prompt for offline models - explicit JSON example helps small models
         const prompt = options.aiMode === 'offline'
-            ? `Review "${file.name}" for bugs and issues.\n\n${fileContent}\n\nRespond with ONLY this JSON (no other text):\n{"issues":[{"type":"bug","severity":"high","description":"what is wrong","suggestion":"how to fix"}]}\nIf no issues: {"issues":[]}`
+            ? `Review "${file.name}" for bugs and issues.\n\n${fileContent}\n\nRespond with ONLY this JSON (no other text), at most 5 issues:\n{"issues":[{"type":"bug","severity":"high","description":"what is wrong","suggestion":"how to fix"}]}\nIf no issues: {"issues":[]}`
             : `Analyze this ${language} code for bugs, security issues, and improvements.\n\nFile: ${file.name} (${lineCount} lines total, showing first ${Math.min(lineCount, maxLines)})\n\n\`\`\`${language.toLowerCase()}\n${fileContent}\n\`\`\`\n\nFind REAL issues only. Output JSON with issues array. If no issues, return {"issues": []}`
 
         let response: string
@@ -217,7 +240,7 @@ export class WorkspaceScanService {
                 const generatePromise = offlineLLMService.generate([
                     { role: 'system', content: 'You are a code reviewer. Output ONLY valid JSON.' },
                     { role: 'user', content: prompt }
-                ], { temperature: 0.1, maxTokens: 512 })
+                ], { temperature: 0.1, maxTokens: 512, jsonSchema: SCAN_ISSUES_JSON_SCHEMA })
 
                 const timeoutPromise = new Promise<string>((_, reject) => {
                     timeoutId = setTimeout(() => {
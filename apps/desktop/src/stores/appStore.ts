@@ -57,6 +57,15 @@ export interface APIKeys {
     openai?: string
     anthropic?: string
     google?: string
+    // Optional bearer token for the custom endpoint
+    custom?: string
+}
+
+// Self-hosted OpenAI-compatible server; its key lives in safeStorage with the others
+export interface CustomEndpointSettings {
+    baseUrl: string
+    contextWindow?: number
+    nativeTools?: boolean
 }
 
 export interface Peer {
@@ -79,6 +88,7 @@ interface AppState {
     showSettings: boolean // [NEW] Global settings toggle
     settingsTab: string | null // [NEW] Current active settings tab
     theme: 'light' | 'dark' // [NEW]
+    customEndpoint: CustomEndpointSettings | null
 
     // Actions
     initialize: () => Promise<void>
@@ -91,6 +101,7 @@ interface AppState {
     setShowSettings: (show: boolean) => void // [NEW]
     setSettingsTab: (tab: string | null) => void // [NEW]
     setTheme: (theme: 'light' | 'dark') => void // [NEW]
+    setCustomEndpoint: (endpoint: CustomEndpointSettings | null) => void
     reorderSpaces: (fromIndex: number, toIndex: number) => void // [NEW]
 
     // API Key actions (now async for safeStorage)
@@ -124,11 +135,13 @@ export const useAppStore = create<AppState>()(
             showSettings: false,
             settingsTab: null,
             theme: 'dark',
+            customEndpoint: null,
 
             setStartupStatus: (status) => set({ startupStatus: status }),
             setShowSettings: (show) => set({ showSettings: show }),
             setSettingsTab: (tab) => set({ settingsTab: tab }),
             setTheme: (theme) => set({ theme }),
+            setCustomEndpoint: (endpoint) => set({ customEndpoint: endpoint }),
 
             reorderSpaces: (fromIndex, toIndex) => {
                 const { spaces } = get()
@@ -235,7 +248,7 @@ export const useAppStore = create<AppState>()(
             loadAPIKeys: async () => {
                 if (!globalThis.electronAPI?.safeStorage) return
 
-                const providers = ['openai', 'anthropic', 'google']
+                const providers = ['openai', 'anthropic', 'google', 'custom']
                 const loadedKeys: APIKeys = {}
 
                 for (const provider of providers) {
@@ -253,9 +266,9 @@ export const useAppStore = create<AppState>()(
             },
 
             hasRequiredKeys: () => {
-                const { apiKeys } = get()
-                // Check if at least one provider has a key
-                return Object.keys(apiKeys).some(k => apiKeys[k as keyof APIKeys])
+                const { apiKeys, customEndpoint } = get()
+                // Check if at least one provider has a key, or a custom endpoint (whose key is optional)
+                return !!customEndpoint || Object.keys(apiKeys).some(k => apiKeys[k as keyof APIKeys])
             },
 
             setUserName: (name) => {
@@ -284,7 +297,8 @@ export const useAppStore = create<AppState>()(
                 // Note: apiKeys are now stored in safeStorage, not localStorage
                 userName: state.userName,
                 sidebarCollapsed: state.sidebarCollapsed,
-                theme: state.theme
+                theme: state.theme,
+                customEndpoint: state.customEndpoint
             }),
             onRehydrateStorage: () => {
                 console.log('[AppStore] Starting hydration...')
@@ -0,0 +1,170 @@
+/*
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+import { create } from 'zustand'
+import { v4 as uuidv4 } from 'uuid'
+import type {
+    Breakpoint,
+    FunctionBreakpoint,
+    ExceptionBreakpointFilter,
+    ExceptionBreakpointSetting,
+    WorkspaceBreakpoints
+} from '../types/debug'
+
+/**
+ * Breakpoint Store
+ * Source, function and exception breakpoints of the open workspace. The main
+ * process persists them per workspace and pushes every change to running
+ * debug sessions; verification comes back per breakpoint id.
+ */
+
+export type BreakpointChanges = Partial<Pick<Breakpoint, 'condition' | 'hitCondition' | 'logMessage' | 'enabled'>>
+export type FunctionBreakpointChanges = Partial<Pick<FunctionBreakpoint, 'name' | 'condition' | 'hitCondition' | 'enabled'>>
+
+interface BreakpointState {
+    // State
+    workspacePath: string | null
+    source: Breakpoint[]
+    functions: FunctionBreakpoint[]
+    exceptions: Record<string, ExceptionBreakpointSetting>
+    exceptionFilters: ExceptionBreakpointFilter[]
+    // Verification reported by the running sessions, by breakpoint id; empty when not debugging
+    verified: Record<string, boolean>
+
+    // Actions - Workspace
+    loadWorkspace: (workspacePath: string | null) => Promise<void>
+
+    // Actions - Source breakpoints
+    toggleBreakpoint: (file: string, line: number) => void
+    addBreakpoint: (file: string, line: number, changes?: BreakpointChanges) => void
+    updateBreakpoint: (id: string, changes: BreakpointChanges) => void
+    removeBreakpoint: (id: string) => void
+    removeAllBreakpoints: () => void
+
+    // Actions - Function and exception breakpoints
+    addFunctionBreakpoint: (name: string) => void
+    updateFunctionBreakpoint: (id: string, changes: FunctionBreakpointChanges) => void
+    removeFunctionBreakpoint: (id: string) => void
+    setExceptionBreakpoint: (filter: string, setting: ExceptionBreakpointSetting) => void
+
+    // Actions - Session feedback
+    setExceptionFilters: (filters: ExceptionBreakpointFilter[]) => void
+    setVerified: (verified: Record<string, boolean>) => void
+    clearVerified: () => void
+}
+
+// Empty strings mean "no condition"; the adapter would treat them as a condition
+const normalize = <T extends { condition?: string; hitCondition?: string; logMessage?: string }>(bp: T): T => ({
+    ...bp,
+    condition: bp.condition?.trim() || undefined,
+    hitCondition: bp.hitCondition?.trim() || undefined,
+    logMessage: bp.logMessage?.trim() || undefined
+})
+
+export const useBreakpointStore = create<BreakpointState>((set, get) => {
+    const save = async () => {
+        const { workspacePath, source, functions, exceptions, exceptionFilters } = get()
+        if (!workspacePath || !window.electronAPI?.debug) return
+
+        const breakpoints: WorkspaceBreakpoints = { source, functions, exceptions, exceptionFilters }
+        try {
+            const result = await window.electronAPI.debug.saveBreakpoints(workspacePath, breakpoints)
+            if (result?.success && result.verified && Object.keys(result.verified).length > 0) {
+                set(state => ({ verified: { ...state.verified, ...result.verified } }))
+            } else if (!result?.success) {
+                console.error('[Breakpoints] Failed to save breakpoints:', result?.error)
+            }
+        } catch (error) {
+            console.error('[Breakpoints] Failed to save breakpoints:', error)
+        }
+    }
+
+    const update = (changes: Partial<BreakpointState>) => {
+        set(changes)
+        void save()
+    }
+
+    return {
+        workspacePath: null,
+        source: [],
+        functions: [],
+        exceptions: {},
+        exceptionFilters: [],
+        verified: {},
+
+        loadWorkspace: async (workspacePath) => {
+            if (get().workspacePath === workspacePath) return
+            set({ workspacePath, source: [], functions: [], exceptions: {}, exceptionFilters: [], verified: {} })
+            if (!workspacePath || !window.electronAPI?.debug) return
+
+            try {
+                const result = await window.electronAPI.debug.loadBreakpoints(workspacePath)
+                // The workspace may have changed while loading
+                if (result?.success && result.breakpoints && get().workspacePath === workspacePath) {
+                    set({ ...result.breakpoints })
+                }
+            } catch (error) {
+                console.error('[Breakpoints] Failed to load breakpoints:', error)
+            }
+        },
+
+        toggleBreakpoint: (file, line) => {
+            const existing = get().source.find(bp => bp.file === file && bp.line === line)
+            if (existing) {
+                get().removeBreakpoint(existing.id)
+            } else {
+                get().addBreakpoint(file, line)
+            }
+        },
+
+        addBreakpoint: (file, line, changes = {}) => {
+            const source = get().source.filter(bp => !(bp.file === file && bp.line === line))
+            const breakpoint = normalize<Breakpoint>({ id: uuidv4(), file, line, enabled: true, ...changes })
+            update({
+                source: [...source, breakpoint].sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line)
+            })
+        },
+
+        updateBreakpoint: (id, changes) => {
+            update({ source: get().source.map(bp => bp.id === id ? normalize({ ...bp, ...changes }) : bp) })
+        },
+
+        removeBreakpoint: (id) => {
+            update({ source: get().source.filter(bp => bp.id !== id) })
+        },
+
+        removeAllBreakpoints: () => {
+            update({ source: [], functions: [] })
+        },
+
+        addFunctionBreakpoint: (name) => {
+            if (!name.trim()) return
+            update({ functions: [...get().functions, { id: uuidv4(), name: name.trim(), enabled: true }] })
+        },
+
+        updateFunctionBreakpoint: (id, changes) => {
+            update({ functions: get().functions.map(bp => bp.id === id ? normalize({ ...bp, ...changes }) : bp) })
+        },
+
+        removeFunctionBreakpoint: (id) => {
+            update({ functions: get().functions.filter(bp => bp.id !== id) })
+        },
+
+        setExceptionBreakpoint: (filter, setting) => {
+            update({
+                exceptions: {
+                    ...get().exceptions,
+                    [filter]: { enabled: setting.enabled, condition: setting.condition?.trim() || undefined }
+                }
+            })
+        },
+
+        setExceptionFilters: (filters) => {
+            if (JSON.stringify(filters) === JSON.stringify(get().exceptionFilters)) return
+            update({ exceptionFilters: filters })
+        },
+
+        setVerified: (verified) => set(state => ({ verified: { ...state.verified, ...verified } })),
+        clearVerified: () => set({ verified: {} })
+    }
+})
@@ -181,6 +181,8 @@ export interface AgentStep {
     timestamp: number
     /** Duration of this step in ms */
     duration?: number
+    /** Plan level of a tool step; tools in a level of size > 1 ran concurrently */
+    batch?: { index: number; size: number }
 }
 
 /**
@@ -265,6 +267,30 @@ export interface AgentLoopState {
     modifiedFiles: string[]
 }
 
+/**
+ * A file change staged by an agent run
+ */
+export interface AgentFileChange {
+    path: string
+    operation: 'create' | 'modify' | 'delete'
+    /** null when the run creates the file */
+    originalContent: string | null
+    /** null when the run deletes the file */
+    newContent: string | null
+}
+
+/**
+ * All file changes of one agent run, validated and waiting to be applied
+ * or discarded as a unit
+ */
+export interface AgentChangeSet {
+    runId: string
+    transactionId: string
+    files: AgentFileChange[]
+    errors: Array<{ path: string; message: string }>
+    warnings: Array<{ path: string; message: string }>
+}
+
 /**
  * Events emitted by the agent loop for UI updates
  */
@@ -282,3 +308,7 @@ export type AgentLoopEvent =
     | { type: 'error'; error: string }
     | { type: 'aborted' }
     | { type: 'file-modified'; filePath: string }
+    | { type: 'changes-pending'; changes: AgentChangeSet }
+    | { type: 'changes-applied'; runId: string; files: string[] }
+    | { type: 'changes-discarded'; runId: string; reason: string }
+    | { type: 'run-undone'; runId: string; files: string[] }
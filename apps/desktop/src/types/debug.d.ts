@@ -20,7 +20,9 @@ export type DebugType =
   | 'coreclr'
   | 'java'
   | 'php'
-  | 'ruby';
+  | 'ruby'
+  // Types contributed by extensions through `contributes.debuggers`
+  | (string & {});
 
 export type DebugRequest = 'launch' | 'attach';
 
@@ -58,15 +60,33 @@ export interface DebugConfiguration {
   setupCommands?: DebugCommand[];
 
   // Go specific
-  mode?: 'debug' | 'test' | 'exec' | 'auto';
+  mode?: 'debug' | 'test' | 'exec' | 'auto' | 'local' | 'remote';
   remotePath?: string;
   dlvToolPath?: string;
 
   // Attach specific
+  // `${command:pickProcess}` asks for a local process when the session starts
   processId?: string | number;
-  port?: number;
+  pid?: string | number;
+  port?: number | string;
   address?: string;
   host?: string;
+  connect?: { host?: string; port: number | string };
+  localRoot?: string;
+  remoteRoot?: string;
+  pathMappings?: { localRoot: string; remoteRoot: string }[];
+}
+
+// A local process offered by the attach picker
+export interface AttachableProcess {
+  pid: number;
+  ppid?: number;
+  name: string;
+  command: string;
+  // Debug endpoint the process opened, when its command line shows one (node --inspect, debugpy --listen)
+  debugType?: 'node' | 'debugpy';
+  debugHost?: string;
+  debugPort?: number;
 }
 
 export interface DebugCommand {
@@ -126,6 +146,8 @@ export interface Breakpoint {
   logMessage?: string;
   enabled: boolean;
   verified?: boolean;
+  // Why the adapter could not verify the breakpoint
+  message?: string;
 }
 
 export interface SourceBreakpoint {
@@ -136,6 +158,60 @@ export interface SourceBreakpoint {
   logMessage?: string;
 }
 
+export interface FunctionBreakpoint {
+  id: string;
+  name: string;
+  condition?: string;
+  hitCondition?: string;
+  enabled: boolean;
+  verified?: boolean;
+}
+
+// Exception filter an adapter offers in its `exceptionBreakpointFilters` capability
+export interface ExceptionBreakpointFilter {
+  filter: string;
+  label: string;
+  description?: string;
+  default?: boolean;
+  supportsCondition?: boolean;
+  conditionDescription?: string;
+}
+
+export interface ExceptionBreakpointSetting {
+  enabled: boolean;
+  condition?: string;
+}
+
+export type DataBreakpointAccessType = 'read' | 'write' | 'readWrite';
+
+// Answer to 'dataBreakpointInfo'; a null dataId means no data breakpoint can be set there
+export interface DataBreakpointInfo {
+  dataId: string | null;
+  description: string;
+  accessTypes?: DataBreakpointAccessType[];
+  canPersist?: boolean;
+}
+
+// Data breakpoints belong to a session: the data ids are only valid while it runs
+export interface DataBreakpoint {
+  dataId: string;
+  description: string;
+  accessType?: DataBreakpointAccessType;
+  condition?: string;
+  hitCondition?: string;
+  verified?: boolean;
+}
+
+// Breakpoints of a workspace, persisted between sessions
+export interface WorkspaceBreakpoints {
+  source: Breakpoint[];
+  functions: FunctionBreakpoint[];
+  // Keyed by filter id; filters without an entry use the adapter's default
+  exceptions: Record<string, ExceptionBreakpointSetting>;
+  // Filters reported by the last adapter, so they can be edited without a session
+  exceptionFilters: ExceptionBreakpointFilter[];
+}
+
 // Debug session state
 export interface DebugSession {
   id: string;
@@ -145,6 +221,22 @@ export interface DebugSession {
   breakpoints: Map<string, Breakpoint[]>;
   variables: Variable[];
   callStack: StackFrame[];
+  workspacePath?: string;
+  capabilities?: DebugCapabilities;
+  dataBreakpoints?: DataBreakpoint[];
+  // Set when the session was started as part of a compound configuration
+  compoundId?: string;
+}
+
+// One node of the debug sessions tree; compound members carry the compound that started them
+export interface DebugSessionSummary {
+  id: string;
+  name: string;
+  type: DebugType;
+  request: DebugRequest;
+  state: DebugSessionState;
+  compoundId?: string;
+  compoundName?: string;
 }
 
 export type DebugSessionState =
@@ -158,12 +250,43 @@ export interface Variable {
   name: string;
   value: string;
   type?: string;
+  evaluateName?: string;
   variablesReference?: number;
   namedVariables?: number;
   indexedVariables?: number;
   memoryReference?: string;
 }
 
+export type EvaluateContext = 'watch' | 'repl' | 'hover' | 'clipboard';
+
+export interface EvaluateResult {
+  result: string;
+  type?: string;
+  variablesReference: number;
+  namedVariables?: number;
+  indexedVariables?: number;
+  memoryReference?: string;
+}
+
+// Result of 'setVariable' and 'setExpression'
+export interface SetValueResult {
+  value: string;
+  type?: string;
+  variablesReference?: number;
+}
+
+export interface CompletionItem {
+  label: string;
+  text?: string;
+  sortText?: string;
+  detail?: string;
+  type?: string;
+  // Range of the request text to replace; 1-based since the client sends columnsStartAt1
+  start?: number;
+  length?: number;
+  selectionStart?: number;
+}
+
 export interface StackFrame {
   id: number;
   name: string;
@@ -193,6 +316,22 @@ export interface Scope {
 }
 
 // Debug adapter capabilities
+// The subset of the DAP `Capabilities` returned by 'initialize' that the IDE acts on
+export interface DebugCapabilities {
+  supportsConfigurationDoneRequest?: boolean;
+  supportsConditionalBreakpoints?: boolean;
+  supportsHitConditionalBreakpoints?: boolean;
+  supportsLogPoints?: boolean;
+  supportsFunctionBreakpoints?: boolean;
+  supportsExceptionFilterOptions?: boolean;
+  exceptionBreakpointFilters?: ExceptionBreakpointFilter[];
+  supportsCompletionsRequest?: boolean;
+  completionTriggerCharacters?: string[];
+  supportsSetVariable?: boolean;
+  supportsSetExpression?: boolean;
+  supportsDataBreakpoints?: boolean;
+}
+
 export interface DebugAdapterDescriptor {
   type: DebugType;
   label: string;
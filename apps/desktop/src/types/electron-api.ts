@@ -7,6 +7,23 @@
  * Replaces all `any` types in vite-env.d.ts with proper type definitions
  */
 
+import type {
+  Breakpoint,
+  FunctionBreakpoint,
+  ExceptionBreakpointSetting,
+  WorkspaceBreakpoints,
+  DebugCapabilities,
+  DataBreakpoint,
+  DataBreakpointInfo,
+  EvaluateContext,
+  EvaluateResult,
+  SetValueResult,
+  CompletionItem,
+  AttachableProcess,
+  CompoundDebugConfiguration,
+  DebugSessionSummary
+} from './debug'
+
 // File System Types
 export interface FileSystemItem {
   name: string
@@ -162,6 +179,11 @@ export interface DebugConfiguration {
   cwd?: string
   env?: Record<string, string>
   stopOnEntry?: boolean
+  processId?: string | number
+  pid?: string | number
+  port?: number | string
+  address?: string
+  connect?: { host?: string; port: number | string }
 }
 
 export interface DebugBreakpoint {
@@ -183,28 +205,49 @@ export interface DebugVariable {
   name: string
   value: string
   type?: string
+  evaluateName?: string
   variablesReference: number
 }
 
 export interface DebugAPI {
-  getConfigurations: (workspacePath: string) => Promise<{ success: boolean; configurations?: DebugConfiguration[]; error?: string }>
-  start: (configuration: DebugConfiguration, workspacePath: string, activeFile?: string) => Promise<{ success: boolean; sessionId?: string; error?: string }>
+  getConfigurations: (workspacePath: string) => Promise<{ success: boolean; configurations?: DebugConfiguration[]; compounds?: CompoundDebugConfiguration[]; error?: string }>
+  // commandValues supplies `${command:NAME}` variables, e.g. { pickProcess: '1234' }
+  start: (configuration: DebugConfiguration, workspacePath: string, activeFile?: string, commandValues?: Record<string, string>) => Promise<{ success: boolean; sessionId?: string; error?: string }>
+  listProcesses: () => Promise<{ success: boolean; processes?: AttachableProcess[]; error?: string }>
+  // commandValues are keyed by configuration name
+  startCompound: (name: string, workspacePath: string, activeFile?: string, commandValues?: Record<string, Record<string, string>>) => Promise<{ success: boolean; compoundId?: string; sessionIds?: string[]; error?: string }>
   stop: (sessionId: string) => Promise<{ success: boolean; error?: string }>
-  setBreakpoints: (sessionId: string, file: string, breakpoints: Array<{ line: number; column?: number }>) => Promise<{ success: boolean; breakpoints?: DebugBreakpoint[]; error?: string }>
+  stopAll: () => Promise<{ success: boolean; error?: string }>
+  getSessions: () => Promise<{ success: boolean; sessions?: DebugSessionSummary[]; error?: string }>
+  setBreakpoints: (sessionId: string, file: string, breakpoints: Breakpoint[]) => Promise<{ success: boolean; breakpoints?: Breakpoint[]; error?: string }>
+  setFunctionBreakpoints: (sessionId: string, breakpoints: FunctionBreakpoint[]) => Promise<{ success: boolean; breakpoints?: FunctionBreakpoint[]; error?: string }>
+  setExceptionBreakpoints: (sessionId: string, settings: Record<string, ExceptionBreakpointSetting>) => Promise<{ success: boolean; error?: string }>
+  getCapabilities: (sessionId: string) => Promise<{ success: boolean; capabilities?: DebugCapabilities; error?: string }>
+  loadBreakpoints: (workspacePath: string) => Promise<{ success: boolean; breakpoints?: WorkspaceBreakpoints; error?: string }>
+  saveBreakpoints: (workspacePath: string, breakpoints: WorkspaceBreakpoints) => Promise<{ success: boolean; verified?: Record<string, boolean>; error?: string }>
   continue: (sessionId: string, threadId?: number) => Promise<{ success: boolean; error?: string }>
   stepOver: (sessionId: string, threadId?: number) => Promise<{ success: boolean; error?: string }>
   stepInto: (sessionId: string, threadId?: number) => Promise<{ success: boolean; error?: string }>
   stepOut: (sessionId: string, threadId?: number) => Promise<{ success: boolean; error?: string }>
   pause: (sessionId: string, threadId?: number) => Promise<{ success: boolean; error?: string }>
-  getCallStack: (sessionId: string, threadId?: number) => Promise<{ success: boolean; frames?: DebugStackFrame[]; error?: string }>
+  getCallStack: (sessionId: string, threadId?: number) => Promise<{ success: boolean; callStack?: DebugStackFrame[]; error?: string }>
   getVariables: (sessionId: string, variablesReference: number) => Promise<{ success: boolean; variables?: DebugVariable[]; error?: string }>
-  evaluate: (sessionId: string, expression: string, frameId?: number) => Promise<{ success: boolean; result?: string; error?: string }>
+  evaluate: (sessionId: string, expression: string, frameId?: number, context?: EvaluateContext) => Promise<{ success: boolean; result?: EvaluateResult; error?: string }>
+  completions: (sessionId: string, text: string, column: number, frameId?: number) => Promise<{ success: boolean; targets?: CompletionItem[]; error?: string }>
+  setVariable: (sessionId: string, variablesReference: number, name: string, value: string) => Promise<{ success: boolean; result?: SetValueResult; error?: string }>
+  setExpression: (sessionId: string, expression: string, value: string, frameId?: number) => Promise<{ success: boolean; result?: SetValueResult; error?: string }>
+  dataBreakpointInfo: (sessionId: string, name: string, variablesReference?: number, frameId?: number) => Promise<{ success: boolean; info?: DataBreakpointInfo; error?: string }>
+  setDataBreakpoints: (sessionId: string, breakpoints: DataBreakpoint[]) => Promise<{ success: boolean; breakpoints?: DataBreakpoint[]; error?: string }>
   onStarted: (callback: (data: { sessionId: string; configuration: DebugConfiguration }) => void) => () => void
   onStopped: (callback: (data: { sessionId: string; reason: string; threadId?: number }) => void) => () => void
   onContinued: (callback: (data: { sessionId: string; threadId?: number }) => void) => () => void
-  onTerminated: (callback: (data: { sessionId: string }) => void) => () => void
+  onTerminated: (callback: (data: { sessionId: string; exitCode?: number }) => void) => () => void
   onOutput: (callback: (data: { sessionId: string; output: string; category?: string }) => void) => () => void
   onBreakpoint: (callback: (data: { sessionId: string; breakpoint: DebugBreakpoint }) => void) => () => void
+  onCapabilities: (callback: (data: { sessionId: string; capabilities: DebugCapabilities }) => void) => () => void
+  onBreakpointsVerified: (callback: (data: { sessionId: string; verified: Record<string, boolean> }) => void) => () => void
+  // Every change to the running sessions, with the full list
+  onSessions: (callback: (sessions: DebugSessionSummary[]) => void) => () => void
   removeListeners: () => void
 }
 
@@ -0,0 +1,294 @@
+/*
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+/**
+ * Extension host protocol payloads
+ * Shared between the extension host, the main process and the renderer
+ */
+
+export interface ProtocolPosition {
+  line: number;
+  character: number;
+}
+
+export interface ProtocolRange {
+  start: ProtocolPosition;
+  end: ProtocolPosition;
+}
+
+export interface ProtocolCommand {
+  command: string;
+  title: string;
+  arguments?: unknown[];
+}
+
+// ==========================================
+// Language features
+// Positions are zero-based (vscode convention); the renderer converts to Monaco.
+// ==========================================
+
+export type LanguageFeatureKind = 'completion' | 'hover' | 'definition' | 'references' | 'codeAction' | 'formatting';
+
+export interface DocumentFilterDTO {
+  language?: string;
+  scheme?: string;
+  pattern?: string;
+}
+
+export interface LanguageProviderRegistration {
+  handle: number;
+  extensionId: string;
+  kind: LanguageFeatureKind;
+  selector: DocumentFilterDTO[];
+  triggerCharacters?: string[];
+}
+
+export interface TextDocumentSnapshot {
+  /** Absolute file system path */
+  uri: string;
+  languageId: string;
+  version: number;
+  text: string;
+}
+
+export interface LanguageFeatureRequest {
+  requestId: string;
+  handle: number;
+  kind: LanguageFeatureKind;
+  document: TextDocumentSnapshot;
+  position?: ProtocolPosition;
+  range?: ProtocolRange;
+  triggerCharacter?: string;
+  diagnostics?: Array<{ range: ProtocolRange; message: string; severity: number; source?: string }>;
+  only?: string;
+  options?: { tabSize: number; insertSpaces: boolean };
+}
+
+export interface TextEditDTO {
+  range: ProtocolRange;
+  newText: string;
+}
+
+export interface WorkspaceEditDTO {
+  edits: Array<{ uri: string; edits: TextEditDTO[] }>;
+}
+
+export interface CompletionItemDTO {
+  label: string;
+  labelDetail?: string;
+  labelDescription?: string;
+  /** vscode.CompletionItemKind value */
+  kind?: number;
+  detail?: string;
+  documentation?: string;
+  insertText: string;
+  isSnippet: boolean;
+  filterText?: string;
+  sortText?: string;
+  preselect?: boolean;
+  range?: ProtocolRange;
+  commitCharacters?: string[];
+}
+
+export interface LocationDTO {
+  uri: string;
+  range: ProtocolRange;
+}
+
+export interface CodeActionDTO {
+  title: string;
+  kind?: string;
+  isPreferred?: boolean;
+  edit?: WorkspaceEditDTO;
+  command?: ProtocolCommand;
+}
+
+export type LanguageFeatureResult =
+  | { kind: 'completion'; items: CompletionItemDTO[]; isIncomplete: boolean }
+  | { kind: 'hover'; contents: string[]; range?: ProtocolRange }
+  | { kind: 'definition' | 'references'; locations: LocationDTO[] }
+  | { kind: 'codeAction'; actions: CodeActionDTO[] }
+  | { kind: 'formatting'; edits: TextEditDTO[] };
+
+// ==========================================
+// Commands
+// ==========================================
+
+export interface CommandInvocation {
+  requestId: number;
+  command: string;
+  args: unknown[];
+}
+
+export interface CommandInvocationResult {
+  requestId: number;
+  result?: unknown;
+  error?: string;
+}
+
+/** A command an extension contributes through `contributes.commands` */
+export interface ExtensionCommandDescriptor {
+  command: string;
+  title: string;
+  category?: string;
+  extensionId: string;
+  /** Keybinding for the current platform in vscode notation, e.g. `ctrl+shift+k` */
+  keybinding?: string;
+  /** `when` clause of the keybinding, e.g. `editorTextFocus && editorLangId == python` */
+  when?: string;
+  /** Whether the owning extension has registered a callback yet */
+  registered: boolean;
+}
+
+// ==========================================
+// Views
+// ==========================================
+
+export interface ViewContainerDTO {
+  id: string;
+  title: string;
+  /** Data URI for an icon shipped with the extension, if it could be loaded */
+  icon?: string;
+  extensionId: string;
+  views: TreeViewDTO[];
+}
+
+export interface TreeViewDTO {
+  id: string;
+  name: string;
+  extensionId: string;
+  /** Whether the extension has attached a data provider yet */
+  registered: boolean;
+  title?: string;
+  description?: string;
+  message?: string;
+  showCollapseAll?: boolean;
+}
+
+export interface TreeItemDTO {
+  /** Opaque id used to request children and to refer back to the element */
+  handle: string;
+  label: string;
+  description?: string;
+  tooltip?: string;
+  /** vscode.TreeItemCollapsibleState: 0 none, 1 collapsed, 2 expanded */
+  collapsibleState: 0 | 1 | 2;
+  /** Codicon id for `ThemeIcon`s */
+  themeIcon?: string;
+  contextValue?: string;
+  resourcePath?: string;
+  command?: ProtocolCommand;
+}
+
+export interface TreeViewEventDTO {
+  viewId: string;
+  kind: 'selection' | 'visibility' | 'expand' | 'collapse';
+  handles?: string[];
+  visible?: boolean;
+}
+
+// ==========================================
+// Webviews
+// ==========================================
+
+export interface WebviewPanelDTO {
+  handle: string;
+  viewType: string;
+  title: string;
+  extensionId: string;
+  html: string;
+  enableScripts: boolean;
+  enableForms: boolean;
+  retainContextWhenHidden: boolean;
+}
+
+// ==========================================
+// Extension host health and resource usage
+// CPU time is attributed per call into extension code (activation, commands,
+// providers); work an extension schedules itself only shows in the host totals.
+// ==========================================
+
+export interface ExtensionUsageDTO {
+  /** Wall-clock time of `activate()`, in ms */
+  activationTime?: number;
+  /** Heap growth while `activate()` ran, in bytes */
+  activationMemory?: number;
+  /** CPU time spent inside calls into the extension, in ms */
+  cpuTime: number;
+  calls: number;
+  /** Uncaught errors traced back to the extension */
+  errors: number;
+}
+
+export interface HostUsageSnapshot {
+  process: { rss: number; heapUsed: number; cpuPercent: number };
+  extensions: Record<string, ExtensionUsageDTO>;
+}
+
+export interface ExtensionResourceStats extends ExtensionUsageDTO {
+  extensionId: string;
+  isActive: boolean;
+  isDisabled: boolean;
+  /** Heartbeat timeouts blamed on this extension */
+  hangs: number;
+  /** Host crashes that happened while a call into this extension was pending */
+  crashes: number;
+}
+
+export interface ExtensionHostIncident {
+  kind: 'crash' | 'unresponsive';
+  at: number;
+  detail: string;
+  extensionId?: string;
+}
+
+export interface ExtensionHostStats {
+  running: boolean;
+  pid?: number;
+  /** ms since the current host process started */
+  uptime: number;
+  restarts: number;
+  /** Set while a restart is scheduled after a crash */
+  restartPending: boolean;
+  lastHeartbeat?: number;
+  memory?: { rss: number; heapUsed: number };
+  cpuPercent?: number;
+  lastIncident?: ExtensionHostIncident;
+  extensions: ExtensionResourceStats[];
+}
+
+// ==========================================
+// Debuggers
+// Debug configurations cross the boundary as plain launch.json objects.
+// ==========================================
+
+export interface DebuggerContributionDTO {
+  type: string;
+  label: string;
+  extensionId: string;
+  languages: string[];
+}
+
+export type DebugConfigurationRequestKind =
+  | 'provideConfigurations'
+  | 'resolveConfiguration'
+  | 'resolveConfigurationWithSubstitutedVariables';
+
+export interface DebugConfigurationRequest {
+  requestId: number;
+  kind: DebugConfigurationRequestKind;
+  folder: string | null;
+  /** Only providers registered for this type run; omitted for the initial configurations of every type */
+  type?: string;
+  configuration?: Record<string, unknown>;
+}
+
+/**
+ * How to reach the adapter an extension supplies for a session.
+ * `inline` adapters run inside the extension host and exchange DAP messages over IPC.
+ */
+export type DebugAdapterDescriptorDTO =
+  | { kind: 'executable'; command: string; args: string[]; cwd?: string; env?: Record<string, string> }
+  | { kind: 'server'; port: number; host?: string }
+  | { kind: 'pipe'; path: string }
+  | { kind: 'inline' };
@@ -17,6 +17,8 @@ export interface ExtensionManifest {
   categories?: string[]
   keywords?: string[]
   activationEvents?: string[]
+  extensionDependencies?: string[]
+  extensionPack?: string[]
   main?: string
   browser?: string
   contributes?: ExtensionContributes
@@ -139,6 +141,7 @@ export interface ExtensionContributes {
   debuggers?: Array<{
     type: string
     label: string
+    languages?: string[]
     program?: string
     args?: string[]
     runtime?: string
@@ -304,6 +307,45 @@ export interface Range {
   end: Position
 }
 
+// Extension host protocol payloads (shared with the electron side)
+export type {
+  ProtocolPosition,
+  ProtocolRange,
+  ProtocolCommand,
+  LanguageFeatureKind,
+  DocumentFilterDTO,
+  LanguageProviderRegistration,
+  TextDocumentSnapshot,
+  LanguageFeatureRequest,
+  TextEditDTO,
+  WorkspaceEditDTO,
+  CompletionItemDTO,
+  LocationDTO,
+  CodeActionDTO,
+  LanguageFeatureResult,
+  CommandInvocation,
+  CommandInvocationResult,
+  ExtensionCommandDescriptor,
+  ViewContainerDTO,
+  TreeViewDTO,
+  TreeItemDTO,
+  TreeViewEventDTO,
+  WebviewPanelDTO
+} from '../extensionHost'
+import type {
+  LanguageProviderRegistration,
+  LanguageFeatureRequest,
+  LanguageFeatureResult,
+  CommandInvocation,
+  CommandInvocationResult,
+  TreeItemDTO,
+  TreeViewEventDTO,
+  WebviewPanelDTO,
+  HostUsageSnapshot,
+  DebugAdapterDescriptorDTO,
+  DebugConfigurationRequest
+} from '../extensionHost'
+
 // Extension Host Message Types
 export type ExtensionHostMessage =
   | { type: 'activate'; extensionId: string; extensionPath: string }
@@ -313,6 +355,31 @@ export type ExtensionHostMessage =
   | { type: 'error'; extensionId: string; error: string }
   | { type: 'ready' }
   | { type: 'log'; level: 'info' | 'warn' | 'error'; message: string }
+  | { type: 'register-language-provider'; payload: LanguageProviderRegistration }
+  | { type: 'unregister-language-provider'; payload: { handle: number } }
+  | { type: 'language-feature-result'; payload: { requestId: string; result: LanguageFeatureResult | null; error?: string } }
+  | { type: 'register-command'; payload: { extensionId: string; command: string } }
+  | { type: 'unregister-command'; payload: { extensionId: string; command: string } }
+  | { type: 'execute-command'; payload: { messageId: number; command: string; args: unknown[] } }
+  | { type: 'invoke-command-result'; payload: CommandInvocationResult }
+  | { type: 'register-tree-view'; payload: { viewId: string; extensionId: string; showCollapseAll: boolean } }
+  | { type: 'unregister-tree-view'; payload: { viewId: string } }
+  | { type: 'update-tree-view'; payload: { viewId: string; title?: string; description?: string; message?: string } }
+  | { type: 'tree-data-changed'; payload: { viewId: string; handles?: string[] } }
+  | { type: 'tree-children-result'; payload: { requestId: number; items: TreeItemDTO[]; error?: string } }
+  | { type: 'create-webview-panel'; payload: WebviewPanelDTO }
+  | { type: 'update-webview-panel'; payload: Partial<WebviewPanelDTO> & { handle: string } }
+  | { type: 'webview-post-message'; payload: { handle: string; message: unknown } }
+  | { type: 'reveal-webview-panel'; payload: { handle: string } }
+  | { type: 'dispose-webview-panel'; payload: { handle: string } }
+  | { type: 'update-memento'; payload: { messageId: number; extensionId: string; scope: 'global' | 'workspace'; key: string; value: unknown } }
+  | { type: 'set-keys-for-sync'; payload: { extensionId: string; keys: string[] } }
+  | { type: 'secret-storage'; payload: { messageId: number; extensionId: string; operation: 'get' | 'store' | 'delete'; key: string; value?: string } }
+  | { type: 'heartbeat'; payload: { seq: number; usage: HostUsageSnapshot } }
+  | { type: 'extension-error'; payload: { extensionId?: string; kind: string; message: string } }
+  | { type: 'debug-result'; payload: { requestId: number; result?: Record<string, unknown>[] | Record<string, unknown> | DebugAdapterDescriptorDTO | null; error?: string } }
+  | { type: 'debug-adapter-message'; payload: { sessionId: string; message: unknown } }
+  | { type: 'debug-adapter-exited'; payload: { sessionId: string } }
 
 export type MainProcessMessage =
   | { type: 'activate-result'; extensionId: string; success: boolean; error?: string }
@@ -320,6 +387,23 @@ export type MainProcessMessage =
   | { type: 'invoke-result'; extensionId: string; result: unknown; error?: string }
   | { type: 'broadcast'; event: string; data: unknown }
   | { type: 'update-config'; extensionId: string; key: string; value: unknown }
+  | { type: 'provide-language-feature'; payload: LanguageFeatureRequest }
+  | { type: 'cancel-language-feature'; payload: { requestId: string } }
+  | { type: 'invoke-command'; payload: CommandInvocation }
+  | { type: 'command-result'; payload: { messageId: number; result?: unknown; error?: string } }
+  | { type: 'get-tree-children'; payload: { requestId: number; viewId: string; parentHandle?: string } }
+  | { type: 'activate-tree-item'; payload: { viewId: string; handle: string } }
+  | { type: 'tree-view-event'; payload: TreeViewEventDTO }
+  | { type: 'webview-message'; payload: { handle: string; message: unknown } }
+  | { type: 'webview-view-state'; payload: { handle: string; active: boolean; visible: boolean } }
+  | { type: 'webview-closed'; payload: { handle: string } }
+  | { type: 'storage-result'; payload: { messageId: number; result?: string; error?: string } }
+  | { type: 'workspace-state-changed'; payload: { states: Record<string, Record<string, unknown>> } }
+  | { type: 'heartbeat'; payload: { seq: number } }
+  | { type: 'debug-configuration-request'; payload: DebugConfigurationRequest }
+  | { type: 'create-debug-adapter'; payload: { requestId: number; sessionId: string; folder: string | null; configuration: Record<string, unknown>; executable?: { command: string; args: string[] } } }
+  | { type: 'debug-adapter-message'; payload: { sessionId: string; message: unknown } }
+  | { type: 'dispose-debug-adapter'; payload: { sessionId: string } }
 
 export interface ExtensionMetadata {
   id: string
@@ -332,7 +416,10 @@ export interface ExtensionMetadata {
   categories?: string[]
   isBuiltin?: boolean
   isActive?: boolean
+  isDisabled?: boolean
   contributes?: ExtensionContributes
+  extensionDependencies?: string[]
+  extensionPack?: string[]
 }
 
 // Extension marketplace types
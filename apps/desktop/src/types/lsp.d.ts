@@ -0,0 +1,71 @@
+/*
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+/**
+ * Language server requests shared between the main process and the renderer.
+ * Positions follow the protocol: lines and characters are 0-based.
+ */
+
+export interface LspPosition {
+  line: number;
+  character: number;
+}
+
+export interface LspRange {
+  start: LspPosition;
+  end: LspPosition;
+}
+
+export interface LspTextEdit {
+  range: LspRange;
+  newText: string;
+}
+
+// The edits of one file from a workspace edit
+export interface LspFileEdit {
+  path: string;
+  edits: LspTextEdit[];
+  // The edit creates the file; its edits apply to an empty document
+  create?: boolean;
+  delete?: boolean;
+}
+
+export interface LspCodeActionDTO {
+  title: string;
+  kind?: string;
+  files: LspFileEdit[];
+}
+
+// The document a request is about, with the content the server should see
+export interface LspDocumentParams {
+  workspacePath: string;
+  filePath: string;
+  languageId: string;
+  content: string;
+}
+
+export interface LspRenameParams extends LspDocumentParams {
+  position: LspPosition;
+  newName: string;
+}
+
+export interface LspCodeActionParams extends LspDocumentParams {
+  range: LspRange;
+  // Code action kinds, e.g. 'refactor.extract'
+  only: string[];
+}
+
+// `unavailable` means no language server runs for the language; callers fall back
+export interface LspEditResult {
+  success: boolean;
+  files?: LspFileEdit[];
+  unavailable?: boolean;
+  error?: string;
+}
+
+export interface LspCodeActionsResult {
+  success: boolean;
+  actions?: LspCodeActionDTO[];
+  unavailable?: boolean;
+  error?: string;
+}
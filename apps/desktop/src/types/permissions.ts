@@ -119,22 +119,60 @@ export function canChangePermissions(managerRole: WorkspaceRole, targetRole: Wor
 }
 
 /**
- * Check if a path is restricted for a member
+ * Normalize a workspace-relative path for pattern matching
  */
-export function isPathRestricted(path: string, permissions: MemberPermissions): boolean {
-    if (permissions.restrictedPaths.length === 0) return false
-
-    // Simple glob matching
-    for (const pattern of permissions.restrictedPaths) {
-        if (pattern === '**/*') return true  // All paths restricted
-        if (pattern === path) return true
-        // Basic wildcard support
-        if (pattern.endsWith('/*') && path.startsWith(pattern.slice(0, -2))) return true
-        if (pattern.startsWith('*.') && path.endsWith(pattern.slice(1))) return true
+export function normalizePermissionPath(path: string): string {
+    return path.replace(/\\/g, '/').replace(/^(\.\/)+/, '').replace(/^\/+/, '').replace(/\/+$/, '')
+}
+
+function globToRegExp(pattern: string): RegExp {
+    let source = ''
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i]
+        if (char === '*' && pattern[i + 1] === '*') {
+            // "**/" also matches no directory at all
+            if (pattern[i + 2] === '/') {
+                source += '(?:.*/)?'
+                i += 2
+            } else {
+                source += '.*'
+                i += 1
+            }
+        } else if (char === '*') {
+            source += '[^/]*'
+        } else if (char === '?') {
+            source += '[^/]'
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        }
+    }
+    return new RegExp(`^${source}$`)
+}
+
+/**
+ * Check if a path matches a restricted pattern. Like .gitignore, a pattern
+ * without a slash matches a name at any depth, and a matched folder covers
+ * everything inside it.
+ */
+export function matchesPathPattern(path: string, pattern: string): boolean {
+    const normalizedPattern = normalizePermissionPath(pattern)
+    if (!normalizedPattern) return false
+
+    const regex = globToRegExp(normalizedPattern.includes('/') ? normalizedPattern : `**/${normalizedPattern}`)
+    const segments = normalizePermissionPath(path).split('/')
+    for (let i = 1; i <= segments.length; i++) {
+        if (regex.test(segments.slice(0, i).join('/'))) return true
     }
     return false
 }
 
+/**
+ * Check if a path is restricted for a member
+ */
+export function isPathRestricted(path: string, permissions: MemberPermissions): boolean {
+    return permissions.restrictedPaths.some(pattern => matchesPathPattern(path, pattern))
+}
+
 /**
  * Kick/Ban action types
  */
@@ -0,0 +1,80 @@
+/*
+ * SPDX-License-Identifier: AGPL-3.0-only
+ */
+// Commit graph layout: assigns every commit a lane and the lines that connect it to its parents
+
+export interface GraphCommit {
+    hash: string
+    parents: string[]
+}
+
+// A line between two lanes, from one edge of a row to the other
+export interface GraphEdge {
+    from: number
+    to: number
+    // Lane whose color the line takes
+    lane: number
+}
+
+export interface GraphRow {
+    column: number
+    // From the top edge down to the commit's height
+    up: GraphEdge[]
+    // From the commit's height down to the bottom edge
+    down: GraphEdge[]
+    // Lanes in use at this row
+    width: number
+}
+
+/**
+ * Lay out commits given newest first, as `git log` lists them. Each lane holds
+ * the commit it is waiting for; a commit takes the first lane waiting for it,
+ * its first parent inherits that lane and any further parents get lanes of
+ * their own. Lanes that were waiting for the same commit merge into it.
+ */
+export function layoutGraph(commits: GraphCommit[]): GraphRow[] {
+    const lanes: (string | null)[] = []
+    const rows: GraphRow[] = []
+
+    for (const commit of commits) {
+        let column = lanes.indexOf(commit.hash)
+        const expected = column !== -1
+        if (!expected) {
+            column = lanes.indexOf(null)
+            if (column === -1) column = lanes.length
+        }
+
+        const up: GraphEdge[] = []
+        lanes.forEach((waiting, lane) => {
+            if (waiting === null) return
+            // Children on other lanes join the commit, everything else passes through
+            up.push(waiting === commit.hash ? { from: lane, to: column, lane } : { from: lane, to: lane, lane })
+            if (waiting === commit.hash && lane !== column) lanes[lane] = null
+        })
+
+        const [first, ...rest] = commit.parents
+        lanes[column] = first ?? null
+
+        const down: GraphEdge[] = []
+        for (const parent of rest) {
+            let lane = lanes.indexOf(parent)
+            if (lane === -1) {
+                lane = lanes.indexOf(null)
+                if (lane === -1) lane = lanes.length
+                lanes[lane] = parent
+            }
+            down.push({ from: column, to: lane, lane })
+        }
+        lanes.forEach((waiting, lane) => {
+            if (waiting !== null && !down.some(edge => edge.to === lane)) {
+                down.push({ from: lane === column ? column : lane, to: lane, lane })
+            }
+        })
+
+        while (lanes.length > 0 && lanes[lanes.length - 1] === null) lanes.pop()
+        const used = [...up, ...down].flatMap(edge => [edge.from, edge.to])
+        rows.push({ column, up, down, width: Math.max(column, ...used) + 1 })
+    }
+
+    return rows
+}
@@ -3,6 +3,20 @@
  */
 /// <reference types="vite/client" />
 
+import type {
+  DebuggerContributionDTO,
+  ExtensionCommandDescriptor,
+  ExtensionHostStats,
+  LanguageFeatureRequest,
+  LanguageFeatureResult,
+  LanguageProviderRegistration,
+  TreeItemDTO,
+  TreeViewEventDTO,
+  ViewContainerDTO,
+  WebviewPanelDTO
+} from './types/extensionHost'
+import type { LspCodeActionParams, LspCodeActionsResult, LspEditResult, LspRenameParams } from './types/lsp'
+
 declare global {
   interface ImportMetaEnv {
     readonly VITE_OPENAI_API_URL?: string
@@ -212,7 +226,23 @@ export interface ElectronAPI {
   nukeProcesses: (level: any) => Promise<void>
   build: any
   debug: any
+  lsp: {
+    rename: (params: LspRenameParams) => Promise<LspEditResult>
+    codeActions: (params: LspCodeActionParams) => Promise<LspCodeActionsResult>
+  }
   safeStorage: any
+  // Requests to self-hosted OpenAI-compatible servers, made by the main process
+  aiEndpoint: {
+    request: (
+      request: { url: string; method?: 'GET' | 'POST'; headers?: Record<string, string>; body?: string },
+      handlers: {
+        onResponse: (status: number, statusText: string) => void
+        onChunk: (chunk: string) => void
+        onDone: (error?: string) => void
+      }
+    ) => string
+    cancel: (requestId: string) => Promise<{ success: boolean }>
+  }
   runtimeMgmt: any
   deps: {
     detect: (workspacePath: string) => Promise<{ success: boolean; manager?: any; error?: string }>
@@ -247,9 +277,40 @@ export interface ElectronAPI {
     startHost: () => Promise<void>
     stopHost: () => Promise<void>
     download: (url: string, targetPath: string) => Promise<void>
+    getConfiguration: () => Promise<{ user: Record<string, unknown>; workspace: Record<string, unknown>; workspaceFolder: string | null }>
+    updateConfiguration: (key: string, value: unknown, target?: 'user' | 'workspace') => Promise<void>
+    reloadConfiguration: () => Promise<void>
+    languageProviders: () => Promise<LanguageProviderRegistration[]>
+    provideLanguageFeature: (request: LanguageFeatureRequest) => Promise<LanguageFeatureResult | null>
+    cancelLanguageFeature: (requestId: string) => Promise<void>
+    onLanguageProvidersChanged: (callback: (providers: LanguageProviderRegistration[]) => void) => () => void
+    commands: () => Promise<ExtensionCommandDescriptor[]>
+    executeCommand: (command: string, args?: unknown[]) => Promise<unknown>
+    onCommandsChanged: (callback: (commands: ExtensionCommandDescriptor[]) => void) => () => void
+    views: () => Promise<ViewContainerDTO[]>
+    treeChildren: (viewId: string, parentHandle?: string) => Promise<TreeItemDTO[]>
+    activateTreeItem: (viewId: string, handle: string) => Promise<void>
+    sendTreeViewEvent: (event: TreeViewEventDTO) => Promise<void>
+    webviewPanels: () => Promise<WebviewPanelDTO[]>
+    postWebviewMessage: (handle: string, message: unknown) => Promise<void>
+    setWebviewViewState: (handle: string, active: boolean, visible: boolean) => Promise<void>
+    closeWebviewPanel: (handle: string) => Promise<void>
+    onViewsChanged: (callback: (containers: ViewContainerDTO[]) => void) => () => void
+    onTreeDataChanged: (callback: (data: { viewId: string; handles?: string[] }) => void) => () => void
+    onWebviewPanelCreated: (callback: (panel: WebviewPanelDTO) => void) => () => void
+    onWebviewPanelUpdated: (callback: (panel: Partial<WebviewPanelDTO> & { handle: string }) => void) => () => void
+    onWebviewPanelRevealed: (callback: (data: { handle: string }) => void) => () => void
+    onWebviewPanelDisposed: (callback: (data: { handle: string }) => void) => () => void
+    onWebviewPostMessage: (callback: (data: { handle: string; message: unknown }) => void) => () => void
+    debuggers: () => Promise<DebuggerContributionDTO[]>
+    hostStats: () => Promise<ExtensionHostStats>
+    setEnabled: (id: string, enabled: boolean) => Promise<void>
+    restartHost: () => Promise<void>
+    onHostStatus: (callback: (stats: ExtensionHostStats) => void) => () => void
     onExtensionActivated: (callback: (data: { id: string }) => void) => void
     onExtensionDeactivated: (callback: (data: { id: string }) => void) => void
     onShowMessage: (callback: (data: { type: string; message: string }) => void) => void
+    onConfigurationChanged: (callback: (data: { keys: string[] }) => void) => void
     removeListeners: () => void
   }
 
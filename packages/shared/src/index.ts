@@ -30,17 +30,36 @@ export type PeerStatus = 'online' | 'away' | 'offline' | 'busy'
 export interface Task {
     id: string
     title: string
-    description?: string
+    description: string
     status: TaskStatus
-    assignee?: string
     priority: TaskPriority
-    dueDate?: string
+    assigneeId?: string     // User id of a space member
+    dueDate?: number
+    tags: string[]
+    subtasks: Subtask[]
+    comments: TaskComment[]
     createdAt: number
     updatedAt: number
+    createdBy: string
+    completedAt?: number
 }
 
-export type TaskStatus = 'todo' | 'in-progress' | 'done'
-export type TaskPriority = 'low' | 'medium' | 'high'
+export type TaskStatus = 'todo' | 'in-progress' | 'review' | 'done'
+export type TaskPriority = 'low' | 'medium' | 'high' | 'urgent'
+
+export interface Subtask {
+    id: string
+    title: string
+    completed: boolean
+}
+
+export interface TaskComment {
+    id: string
+    userId: string
+    userName: string
+    content: string
+    timestamp: number
+}
 
 // Message Types
 export interface Message {